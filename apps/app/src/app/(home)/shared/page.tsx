@@ -1,20 +1,124 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { useSidebar } from "@/components/ui/sidebar";
 import { Skeleton } from "@/components/ui/skeleton";
-import { IconUsers } from "@tabler/icons-react";
-import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { IconUsers, IconFolder, IconDots, IconLogout, IconMail } from "@tabler/icons-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface SharedSpace {
+  id: string;
+  name: string;
+  role: string;
+  memberId: string;
+  updatedAt: string | Date;
+}
+
+interface SharedCardProps {
+  space: SharedSpace;
+  onLeave: (space: SharedSpace) => void;
+}
+
+function SharedCard({ space, onLeave }: SharedCardProps) {
+  const router = useRouter();
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  };
+
+  return (
+    <div
+      className="group relative rounded-lg border border-border/50 bg-card overflow-hidden hover:border-border transition-all cursor-pointer"
+      onClick={() => router.push(`/edit/${space.id}`)}
+    >
+      <div className="aspect-square bg-secondary/30 flex items-center justify-center relative">
+        <IconFolder className="size-10 text-muted-foreground/40" strokeWidth={1.5} />
+
+        <Badge variant="secondary" className="absolute top-2 left-2 capitalize">
+          {space.role}
+        </Badge>
+
+        <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+              <Button variant="secondary" size="icon" className="size-7 shadow-sm">
+                <IconDots className="size-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onLeave(space);
+                }}
+                className="text-destructive"
+              >
+                <IconLogout className="mr-2 size-4" />
+                Leave
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <div className="p-2.5 border-t border-border/50">
+        <h3 className="font-medium text-sm truncate">{space.name}</h3>
+        <p className="text-xs text-muted-foreground mt-0.5">{formatDate(space.updatedAt)}</p>
+      </div>
+    </div>
+  );
+}
 
 export default function SharedPage() {
   const { isMobile, toggleSidebar } = useSidebar();
-  const [isLoading, setIsLoading] = useState(true);
 
-  // Simulate loading for smooth UX
-  useEffect(() => {
-    const timer = setTimeout(() => setIsLoading(false), 300);
-    return () => clearTimeout(timer);
-  }, []);
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.space.shared.useQuery();
+  const spaces = data?.spaces ?? [];
+  const invites = data?.invites ?? [];
+
+  const acceptInvite = trpc.space.acceptInvite.useMutation({
+    onSuccess: () => utils.space.shared.invalidate(),
+  });
+  const removeMember = trpc.space.removeMember.useMutation({
+    onSuccess: () => utils.space.shared.invalidate(),
+  });
+
+  const handleAccept = async (invite: (typeof invites)[number]) => {
+    try {
+      await acceptInvite.mutateAsync({ spaceId: invite.spaceId });
+      toast.success(`Joined ${invite.spaceName}`);
+    } catch {
+      toast.error("Failed to accept invite");
+    }
+  };
+
+  const handleDecline = async (invite: (typeof invites)[number]) => {
+    try {
+      await removeMember.mutateAsync({ spaceId: invite.spaceId, memberId: invite.id });
+      toast.success("Invite declined");
+    } catch {
+      toast.error("Failed to decline invite");
+    }
+  };
+
+  const handleLeave = async (space: SharedSpace) => {
+    try {
+      await removeMember.mutateAsync({ spaceId: space.id, memberId: space.memberId });
+      toast.success(`Left ${space.name}`);
+    } catch {
+      toast.error(`Failed to leave ${space.name}`);
+    }
+  };
 
   return (
     <main className="min-h-screen bg-card w-full flex flex-col">
@@ -51,7 +155,7 @@ export default function SharedPage() {
               <Skeleton key={i} className="aspect-square rounded-lg" />
             ))}
           </div>
-        ) : (
+        ) : spaces.length === 0 && invites.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-[60vh] text-center">
             <div className="p-4 rounded-xl bg-secondary/50 mb-4">
               <IconUsers className="size-8 text-muted-foreground/60" strokeWidth={1.5} />
@@ -61,6 +165,43 @@ export default function SharedPage() {
               Projects shared with you will appear here
             </p>
           </div>
+        ) : (
+          <div className="flex flex-col gap-6">
+            {invites.length > 0 && (
+              <section className="flex flex-col gap-2">
+                <h2 className="text-xs font-medium text-muted-foreground">Invites</h2>
+                {invites.map((invite) => (
+                  <div
+                    key={invite.id}
+                    className="flex items-center gap-3 rounded-lg border border-border/50 p-3"
+                  >
+                    <IconMail className="size-4 text-muted-foreground shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{invite.spaceName}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {invite.invitedBy ? `${invite.invitedBy} invited you` : "You were invited"}{" "}
+                        as {invite.role}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleDecline(invite)}>
+                      Decline
+                    </Button>
+                    <Button size="sm" onClick={() => handleAccept(invite)}>
+                      Accept
+                    </Button>
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {spaces.length > 0 && (
+              <div className="grid grid-cols-[repeat(auto-fill,minmax(140px,1fr))] gap-3">
+                {spaces.map((space) => (
+                  <SharedCard key={space.id} space={space} onLeave={handleLeave} />
+                ))}
+              </div>
+            )}
+          </div>
         )}
       </div>
     </main>
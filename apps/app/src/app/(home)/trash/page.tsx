@@ -3,66 +3,244 @@
 import { Button } from "@/components/ui/button";
 import { useSidebar } from "@/components/ui/sidebar";
 import { Skeleton } from "@/components/ui/skeleton";
-import { IconTrash } from "@tabler/icons-react";
-import { useState, useEffect } from "react";
+import {
+  IconTrash,
+  IconFolder,
+  IconPhoto,
+  IconDots,
+  IconRestore,
+  IconTrashX,
+} from "@tabler/icons-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface TrashItem {
+  kind: "space" | "asset";
+  id: string;
+  name: string;
+  purgeAt: Date;
+}
+
+interface TrashCardProps {
+  item: TrashItem;
+  onRestore: (item: TrashItem) => void;
+  onPurge: (item: TrashItem) => void;
+}
+
+function TrashCard({ item, onRestore, onPurge }: TrashCardProps) {
+  const daysLeft = Math.max(
+    0,
+    Math.ceil((new Date(item.purgeAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)),
+  );
+  const Icon = item.kind === "space" ? IconFolder : IconPhoto;
+
+  return (
+    <div className="group relative rounded-lg border border-border/50 bg-card overflow-hidden hover:border-border transition-all">
+      <div className="aspect-square bg-secondary/30 flex items-center justify-center relative">
+        <Icon className="size-10 text-muted-foreground/40" strokeWidth={1.5} />
+
+        <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="secondary" size="icon" className="size-7 shadow-sm">
+                <IconDots className="size-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => onRestore(item)}>
+                <IconRestore className="mr-2 size-4" />
+                Restore
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onPurge(item)} className="text-destructive">
+                <IconTrashX className="mr-2 size-4" />
+                Delete forever
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <div className="p-2.5 border-t border-border/50">
+        <h3 className="font-medium text-sm truncate">{item.name}</h3>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          {daysLeft === 1 ? "Deleted in 1 day" : `Deleted in ${daysLeft} days`}
+        </p>
+      </div>
+    </div>
+  );
+}
 
 export default function TrashPage() {
   const { isMobile, toggleSidebar } = useSidebar();
-  const [isLoading, setIsLoading] = useState(true);
+  const [toPurge, setToPurge] = useState<TrashItem | "all" | null>(null);
 
-  // Simulate loading for smooth UX
-  useEffect(() => {
-    const timer = setTimeout(() => setIsLoading(false), 300);
-    return () => clearTimeout(timer);
-  }, []);
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.space.trash.useQuery();
+
+  const items: TrashItem[] = [
+    ...(data?.spaces ?? []).map((row) => ({
+      kind: "space" as const,
+      id: row.id,
+      name: row.name,
+      purgeAt: row.purgeAt,
+    })),
+    ...(data?.assets ?? []).map((row) => ({
+      kind: "asset" as const,
+      id: row.id,
+      name: row.name,
+      purgeAt: row.purgeAt,
+    })),
+  ];
+
+  const onChanged = () => {
+    utils.space.trash.invalidate();
+    utils.space.list.invalidate();
+    utils.asset.list.invalidate();
+  };
+
+  const restoreSpace = trpc.space.restore.useMutation({ onSuccess: onChanged });
+  const restoreAsset = trpc.asset.restore.useMutation({ onSuccess: onChanged });
+  const purgeSpace = trpc.space.purge.useMutation({ onSuccess: onChanged });
+  const purgeAsset = trpc.asset.purge.useMutation({ onSuccess: onChanged });
+  const emptyTrash = trpc.space.emptyTrash.useMutation({ onSuccess: onChanged });
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      if (item.kind === "space") await restoreSpace.mutateAsync({ id: item.id });
+      else await restoreAsset.mutateAsync({ id: item.id });
+      toast.success(`Restored ${item.name}`);
+    } catch {
+      toast.error(`Failed to restore ${item.name}`);
+    }
+  };
+
+  const confirmPurge = async () => {
+    if (!toPurge) return;
+    try {
+      const { errors } =
+        toPurge === "all"
+          ? await emptyTrash.mutateAsync()
+          : toPurge.kind === "space"
+            ? await purgeSpace.mutateAsync({ id: toPurge.id })
+            : await purgeAsset.mutateAsync({ id: toPurge.id });
+      toast.success(toPurge === "all" ? "Trash emptied" : `Deleted ${toPurge.name} forever`);
+      // The items are gone, but their search index entries may linger
+      if (errors.length > 0) toast.warning("Some search data could not be removed");
+    } catch {
+      toast.error("Failed to delete");
+    } finally {
+      setToPurge(null);
+    }
+  };
 
   return (
-    <main className="min-h-screen bg-card w-full flex flex-col">
-      {/* Header - matching projects view style */}
-      <div className="h-12 flex items-center px-4 justify-between border-b sticky top-0 z-10 bg-card">
-        <div className="flex items-center gap-3">
-          {isMobile && (
-            <Button size="icon" variant="ghost" onClick={toggleSidebar} className="size-8 -ml-2">
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              >
-                <line x1="4" x2="20" y1="12" y2="12" />
-                <line x1="4" x2="20" y1="6" y2="6" />
-                <line x1="4" x2="20" y1="18" y2="18" />
-              </svg>
+    <>
+      <main className="min-h-screen bg-card w-full flex flex-col">
+        {/* Header - matching projects view style */}
+        <div className="h-12 flex items-center px-4 justify-between border-b sticky top-0 z-10 bg-card">
+          <div className="flex items-center gap-3">
+            {isMobile && (
+              <Button size="icon" variant="ghost" onClick={toggleSidebar} className="size-8 -ml-2">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <line x1="4" x2="20" y1="12" y2="12" />
+                  <line x1="4" x2="20" y1="6" y2="6" />
+                  <line x1="4" x2="20" y1="18" y2="18" />
+                </svg>
+              </Button>
+            )}
+            <h1 className="text-sm font-semibold">Trash</h1>
+          </div>
+          {items.length > 0 && (
+            <Button onClick={() => setToPurge("all")} variant="ghost" size="sm">
+              <IconTrashX className="size-4 mr-1.5" />
+              Empty Trash
             </Button>
           )}
-          <h1 className="text-sm font-semibold">Trash</h1>
         </div>
-      </div>
 
-      <div className="flex-1 overflow-auto p-4">
-        {isLoading ? (
-          <div className="grid grid-cols-[repeat(auto-fill,minmax(140px,1fr))] gap-3">
-            {[...Array(8)].map((_, i) => (
-              <Skeleton key={i} className="aspect-square rounded-lg" />
-            ))}
-          </div>
-        ) : (
-          <div className="flex flex-col items-center justify-center h-[60vh] text-center">
-            <div className="p-4 rounded-xl bg-secondary/50 mb-4">
-              <IconTrash className="size-8 text-muted-foreground/60" strokeWidth={1.5} />
+        <div className="flex-1 overflow-auto p-4">
+          {isLoading ? (
+            <div className="grid grid-cols-[repeat(auto-fill,minmax(140px,1fr))] gap-3">
+              {[...Array(8)].map((_, i) => (
+                <Skeleton key={i} className="aspect-square rounded-lg" />
+              ))}
             </div>
-            <h3 className="font-medium mb-1">Trash is empty</h3>
-            <p className="text-sm text-muted-foreground mb-4">
-              Items in trash will be permanently deleted after 30 days
-            </p>
-          </div>
-        )}
-      </div>
-    </main>
+          ) : items.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+              <div className="p-4 rounded-xl bg-secondary/50 mb-4">
+                <IconTrash className="size-8 text-muted-foreground/60" strokeWidth={1.5} />
+              </div>
+              <h3 className="font-medium mb-1">Trash is empty</h3>
+              <p className="text-sm text-muted-foreground mb-4">
+                Items in trash will be permanently deleted after 30 days
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-[repeat(auto-fill,minmax(140px,1fr))] gap-3">
+              {items.map((item) => (
+                <TrashCard
+                  key={`${item.kind}-${item.id}`}
+                  item={item}
+                  onRestore={handleRestore}
+                  onPurge={setToPurge}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <AlertDialog open={toPurge !== null} onOpenChange={(open) => !open && setToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {toPurge === "all" ? "Empty trash?" : "Delete forever?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {toPurge === "all"
+                ? "Everything in the trash will be permanently deleted."
+                : "This will permanently delete the item and all its files."}{" "}
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmPurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
   );
 }
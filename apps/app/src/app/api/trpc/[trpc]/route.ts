@@ -2,6 +2,7 @@ import { createTRPCRouteHandler } from "@openvideo/api/handler";
 import { createAuth } from "@openvideo/auth";
 import { Resend } from "resend";
 import { sendMagicLinkEmail } from "../../../../email/magic-link";
+import { sendSpaceInviteEmail } from "../../../../email/space-invite";
 
 // Initialize auth with email config
 const resend = new Resend(process.env.RESEND_API_KEY || "re_123");
@@ -19,6 +20,15 @@ const auth = createAuth({
   githubClientSecret: process.env.GITHUB_CLIENT_SECRET,
 });
 
-const handler = createTRPCRouteHandler(auth);
+const handler = createTRPCRouteHandler(auth, {
+  async sendSpaceInviteEmail(props) {
+    await resend.emails.send({
+      from: `"OpenVideo" <account@openvideo.dev>`,
+      to: props.email,
+      subject: `${props.inviterName} shared ${props.spaceName} with you`,
+      react: sendSpaceInviteEmail(props),
+    });
+  },
+});
 
 export { handler as GET, handler as POST };
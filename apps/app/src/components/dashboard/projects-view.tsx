@@ -155,7 +155,7 @@ export default function ProjectsView() {
     onSuccess: () => {
       if (projectToDelete) {
         removeProject(projectToDelete);
-        toast.success("Project deleted");
+        toast.success("Project moved to trash");
       }
       setDeleteDialogOpen(false);
       setProjectToDelete(null);
@@ -241,8 +241,8 @@ export default function ProjectsView() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete project?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the project and all its files. This action cannot be
-              undone.
+              The project and its files will be moved to the trash. You can restore them from there
+              for 30 days.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -9,7 +9,9 @@ import { useProjectStore } from "@/stores/project-store";
 
 export default function Assistant() {
   const spaceId = useProjectStore((state) => state.spaceId);
-  const { messages, sendMessage, isConnected, isThinking } = useDirector(spaceId || "");
+  const { messages, sendMessage, confirmPlan, rejectPlan, isConnected, isThinking } = useDirector(
+    spaceId || "",
+  );
   const [input, setInput] = useState("");
 
   const handleSubmit = () => {
@@ -42,6 +44,8 @@ export default function Assistant() {
         onInputChange={setInput}
         onSend={handleSubmit}
         placeholder="How can I help you edit?"
+        onConfirmPlan={confirmPlan}
+        onRejectPlan={rejectPlan}
         emptyState={
           <div className="p-6">
             <div className="max-w-lg font-regular text-sm">
@@ -79,6 +79,14 @@ export default function Editor({
     setProjectId(projectId);
   }, [projectId, setProjectId]);
 
+  // Viewers can look around, select and play, but not change the timeline
+  useEffect(() => {
+    if (!projectData) return;
+    const { setReadOnly } = core.store.getState();
+    setReadOnly(projectData.role !== "owner" && projectData.role !== "editor");
+    return () => setReadOnly(false);
+  }, [projectData]);
+
   useEffect(() => {
     if (projectData) {
       setSpaceId(projectData.id);
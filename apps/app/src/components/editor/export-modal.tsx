@@ -198,6 +198,13 @@ const SAMPLE_RATES = [
   { value: "48000", label: "48 kHz" },
 ];
 
+const LOUDNESS_TARGETS = [
+  { value: "off", label: "Off" },
+  { value: "-14", label: "-14 LUFS (Streaming)" },
+  { value: "-16", label: "-16 LUFS (Podcast)" },
+  { value: "-23", label: "-23 LUFS (EBU R128)" },
+];
+
 // ---------------------------------------------------------------------------
 // Shared UI primitives
 // ---------------------------------------------------------------------------
@@ -276,10 +283,12 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
   const [format, setFormat] = useState("mp4");
   const [fps, setFps] = useState(String(studioOpts.fps || 30));
   const [resolution, setResolution] = useState("Full HD");
+  const [captionMode, setCaptionMode] = useState<"burn" | "track" | "both">("burn");
 
   const [includeAudio, setIncludeAudio] = useState(true);
   const [audioCodec, setAudioCodec] = useState("aac");
   const [audioSampleRate, setAudioSampleRate] = useState("48000");
+  const [loudness, setLoudness] = useState("off");
 
   const maxDuration = studio?.getMaxDuration() || 0;
 
@@ -429,6 +438,9 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
         audio: includeAudio ? true : false,
         audioCodec: includeAudio ? audioCodec : undefined,
         audioSampleRate: includeAudio ? Number(audioSampleRate) : undefined,
+        subtitles: captionMode === "burn" ? false : { burnIn: captionMode === "both" },
+        loudnessTarget:
+          includeAudio && loudness !== "off" ? { lufs: Number(loudness), truePeak: -1 } : undefined,
         prioritizeSpeed: true,
       };
 
@@ -662,6 +674,21 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
                       </SelectContent>
                     </Select>
                   </Row>
+                  <Row label="Captions">
+                    <Select
+                      value={captionMode}
+                      onValueChange={(v) => setCaptionMode(v as typeof captionMode)}
+                    >
+                      <SelectTrigger className={selectCls}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className={selectContentCls}>
+                        <SelectItem value="burn">Burned in</SelectItem>
+                        <SelectItem value="track">Subtitle track</SelectItem>
+                        <SelectItem value="both">Both</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </Row>
                 </div>
               </div>
 
@@ -721,6 +748,20 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
                       </SelectContent>
                     </Select>
                   </Row>
+                  <Row label="Loudness">
+                    <Select value={loudness} onValueChange={setLoudness}>
+                      <SelectTrigger className={selectCls}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className={selectContentCls}>
+                        {LOUDNESS_TARGETS.map((t) => (
+                          <SelectItem key={t.value} value={t.value}>
+                            {t.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </Row>
                 </div>
               </div>
 
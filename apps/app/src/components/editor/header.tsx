@@ -4,6 +4,9 @@ import { Button } from "@/components/ui/button";
 import { useProjectStore } from "@/stores/project-store";
 import { Log } from "@openvideo/engine-pixi";
 import { ExportModal } from "./export-modal";
+import { ShareModal } from "./share-modal";
+import { PresenceAvatars } from "./presence-avatars";
+import { VersionHistoryModal } from "./version-history-modal";
 import Link from "next/link";
 import {
   IconKeyboard,
@@ -14,6 +17,8 @@ import {
   IconArrowBackUp,
   IconArrowForwardUp,
   IconDownload,
+  IconUsers,
+  IconHistory,
 } from "@tabler/icons-react";
 import { toast } from "sonner";
 import { ShortcutsModal } from "./shortcuts-modal";
@@ -29,6 +34,8 @@ import { usePanelStore } from "@/stores/panel-store";
 export default function Header() {
   const { aspectRatio, setCanvasSize } = useProjectStore();
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+  const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
   const [customWidth, setCustomWidth] = useState("");
   const [customHeight, setCustomHeight] = useState("");
   const router = useRouter();
@@ -63,8 +70,9 @@ export default function Header() {
 
   const [isShortcutsModalOpen, setIsShortcutsModalOpen] = useState(false);
   // Track undo/redo availability from Core store history
-  const canUndo = useStore(projectStore, (s) => s.history.length > 0);
-  const canRedo = useStore(projectStore, (s) => s.future.length > 0);
+  const readOnly = useStore(projectStore, (s) => s.readOnly);
+  const canUndo = useStore(projectStore, (s) => !s.readOnly && s.history.length > 0);
+  const canRedo = useStore(projectStore, (s) => !s.readOnly && s.future.length > 0);
 
   // NOTE: canUndo/canRedo state now sourced from core.store
 
@@ -188,6 +196,9 @@ export default function Header() {
 
       {/* Right: Actions */}
       <div className="flex items-center justify-end gap-3 w-[280px]">
+        <PresenceAvatars />
+        {readOnly && <span className="text-xs text-muted-foreground">View only</span>}
+
         {/* History Controls */}
         <div className="flex items-center gap-1">
           <button
@@ -217,6 +228,20 @@ export default function Header() {
             <IconKeyboard className="h-4 w-4" />
           </button>
 
+          <button
+            onClick={() => setIsHistoryModalOpen(true)}
+            className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded-md transition-colors"
+          >
+            <IconHistory className="h-4 w-4" />
+          </button>
+
+          <button
+            onClick={() => setIsShareModalOpen(true)}
+            className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded-md transition-colors"
+          >
+            <IconUsers className="h-4 w-4" />
+          </button>
+
           <button
             onClick={() => setIsExportModalOpen(true)}
             className="flex items-center gap-2 px-3 py-1.5 bg-foreground text-background text-xs font-medium rounded-md hover:bg-foreground/90 transition-colors"
@@ -228,6 +253,20 @@ export default function Header() {
 
         <ExportModal open={isExportModalOpen} onOpenChange={setIsExportModalOpen} />
         <ShortcutsModal open={isShortcutsModalOpen} onOpenChange={setIsShortcutsModalOpen} />
+        {projectId && (
+          <ShareModal
+            spaceId={projectId}
+            open={isShareModalOpen}
+            onOpenChange={setIsShareModalOpen}
+          />
+        )}
+        {projectId && (
+          <VersionHistoryModal
+            spaceId={projectId}
+            open={isHistoryModalOpen}
+            onOpenChange={setIsHistoryModalOpen}
+          />
+        )}
       </div>
     </header>
   );
@@ -14,9 +14,18 @@ import {
   IconKeyboard,
   IconUpload,
   IconPalette,
+  IconDownload,
 } from "@tabler/icons-react";
 import { fontManager, Log } from "@openvideo/engine-pixi";
-import type { AnyClip } from "@openvideo/core";
+import {
+  cuesToCaptionClips,
+  detectSubtitleFormat,
+  parseSubtitles,
+  serializeSubtitles,
+  type AnyClip,
+  type ICaptionClip,
+  type SubtitleFormat,
+} from "@openvideo/core";
 import { generateCaptionClips } from "@/lib/caption-generator";
 import { useStore } from "zustand";
 import { projectStore, core } from "@/lib/project";
@@ -37,6 +46,8 @@ export default function PanelCaptions() {
     .sort((a, b) => a.timing.display.from - b.timing.display.from);
 
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [activeCaptionId, setActiveCaptionId] = useState<string | null>(null);
 
   const captionItemsRef = useRef(captionItems);
@@ -184,6 +195,71 @@ export default function PanelCaptions() {
     }
   };
 
+  const handleImportCaptions = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const text = await file.text();
+      const doc = parseSubtitles(text, detectSubtitleFormat(text, file.name));
+      if (doc.cues.length === 0) {
+        Log.error(`No captions found in ${file.name}`);
+        return;
+      }
+
+      const settings = core.store.getState().settings;
+      const captionClipsJSON = cuesToCaptionClips(doc, {
+        videoWidth: settings.width,
+        videoHeight: settings.height,
+      });
+
+      const trackId = "track_" + nanoid(10);
+      const trackCommand = {
+        id: nanoid(),
+        type: "track.add",
+        payload: { id: trackId, name: "Captions", type: "caption" },
+      };
+
+      const fullClips = await Promise.all(captionClipsJSON.map((c) => core.clip.prepare(c)));
+      const addCommands = fullClips.map((clip) => ({
+        id: nanoid(),
+        type: "clip.add",
+        payload: { clip, trackId },
+      }));
+
+      core.batch([trackCommand, ...addCommands] as any[]);
+    } catch (error) {
+      Log.error("Failed to import captions:", error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExportCaptions = (format: SubtitleFormat) => {
+    const settings = core.store.getState().settings;
+    const content = serializeSubtitles(captionItems as ICaptionClip[], format, {
+      videoWidth: settings.width,
+      videoHeight: settings.height,
+    });
+
+    const blob = new Blob([content], { type: "text/plain;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const aEl = document.createElement("a");
+    document.body.appendChild(aEl);
+    aEl.href = url;
+    aEl.download = `captions.${format}`;
+    aEl.click();
+
+    setTimeout(() => {
+      if (document.body.contains(aEl)) {
+        document.body.removeChild(aEl);
+      }
+      URL.revokeObjectURL(url);
+    }, 100);
+  };
+
   function normalizeWordTimings(words: any[]) {
     let currentTime = 0;
     return words.map((word, i) => {
@@ -391,6 +467,13 @@ export default function PanelCaptions() {
 
   return (
     <div className="h-full flex flex-col">
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept=".srt,.vtt,.ass,.ssa"
+        onChange={handleImportCaptions}
+      />
       <div className="flex flex-1 flex-col gap-4 overflow-hidden min-w-0">
         {mediaItems.length === 0 ? (
           <div className="flex flex-1 items-center justify-center gap-4 select-none">
@@ -406,8 +489,22 @@ export default function PanelCaptions() {
             </div>
           </div>
         ) : captionItems.length > 0 ? (
-          <div className="flex-1 overflow-hidden">
-            <ScrollArea className="h-full p-4">
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="flex items-center justify-end gap-1 px-4 pt-3">
+              {(["srt", "vtt", "ass"] as const).map((format) => (
+                <Button
+                  key={format}
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 gap-1 text-xs text-muted-foreground hover:text-white"
+                  onClick={() => handleExportCaptions(format)}
+                >
+                  <IconDownload className="h-3 w-3" />
+                  {format.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+            <ScrollArea className="flex-1 min-h-0 p-4">
               <div className="flex flex-col gap-1 pb-4">
                 {captionItems.map((item) => (
                   <CaptionItem
@@ -464,17 +561,24 @@ export default function PanelCaptions() {
                 </div>
               </Button>
 
-              {/* Import Captions (UI only) */}
+              {/* Import Captions */}
               <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isImporting}
                 variant="outline"
-                disabled
-                className="h-auto py-3 px-4 flex items-center gap-3 border-border/60 bg-secondary/30 hover:bg-secondary/50 text-foreground opacity-50 justify-start"
+                className="h-auto py-3 px-4 flex items-center gap-3 border-border/60 bg-secondary/30 hover:bg-secondary/50 text-foreground justify-start"
               >
-                <IconUpload className="size-5 shrink-0" />
+                {isImporting ? (
+                  <IconLoader2 className="size-5 animate-spin shrink-0" />
+                ) : (
+                  <IconUpload className="size-5 shrink-0" />
+                )}
                 <div className="flex flex-col items-start gap-0.5 flex-1">
-                  <span className="text-sm font-medium">Upload Caption File</span>
+                  <span className="text-sm font-medium">
+                    {isImporting ? "Importing..." : "Upload Caption File"}
+                  </span>
                   <span className="text-xs text-muted-foreground leading-tight">
-                    Import captions from SRT or VTT files
+                    Import captions from SRT, VTT or ASS files
                   </span>
                 </div>
               </Button>
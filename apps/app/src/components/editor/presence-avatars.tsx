@@ -0,0 +1,63 @@
+"use client";
+
+import {
+  Avatar,
+  AvatarFallback,
+  AvatarGroup,
+  AvatarGroupCount,
+  AvatarImage,
+} from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { usePresenceStore } from "@/stores/presence-store";
+import { projectStore } from "@/lib/project";
+
+const MAX_VISIBLE = 4;
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join("");
+}
+
+/** Collaborators in the space; clicking one jumps to their playhead */
+export function PresenceAvatars() {
+  const peers = Object.values(usePresenceStore((s) => s.peers));
+  if (peers.length === 0) return null;
+
+  const visible = peers.slice(0, MAX_VISIBLE);
+  const hidden = peers.length - visible.length;
+
+  return (
+    <AvatarGroup>
+      {visible.map((peer) => (
+        <Tooltip key={peer.clientId} delayDuration={10}>
+          <TooltipTrigger asChild>
+            <button onClick={() => projectStore.getState().seek(peer.currentTime)}>
+              <Avatar
+                size="sm"
+                className="ring-2"
+                style={{ "--tw-ring-color": peer.color } as React.CSSProperties}
+              >
+                {peer.image && <AvatarImage src={peer.image} alt={peer.name} />}
+                <AvatarFallback
+                  className="text-[10px] text-white"
+                  style={{ backgroundColor: peer.color }}
+                >
+                  {initials(peer.name)}
+                </AvatarFallback>
+              </Avatar>
+            </button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            {peer.name}
+            {peer.selection.length > 0 && ` · ${peer.selection.length} selected`}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden > 0 && <AvatarGroupCount className="size-6 text-[10px]">+{hidden}</AvatarGroupCount>}
+    </AvatarGroup>
+  );
+}
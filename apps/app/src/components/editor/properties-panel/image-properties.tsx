@@ -8,6 +8,7 @@ import {
 } from "@/components/ui/color-picker";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { IClip } from "@openvideo/engine-pixi";
+import { SharedBlendProperties } from "./shared-blend-properties";
 import {
   IconLineHeight,
   IconMinus,
@@ -36,6 +37,7 @@ import { Switch } from "@/components/ui/switch";
 import useLayoutStore from "../store/use-layout-store";
 import { useStore } from "zustand";
 import { useEphemeralClip } from "@/hooks/use-ephemeral-clip";
+import type { IChromaKey } from "@openvideo/core";
 import { projectStore, core } from "@/lib/project";
 
 interface ImagePropertiesProps {
@@ -117,13 +119,8 @@ export function ImageProperties({ clip }: ImagePropertiesProps) {
     });
   };
 
-  const handleChromaKeyUpdate = (chromaUpdates: any) => {
-    handleUpdate({
-      chromaKey: {
-        ...coreClip.chromaKey,
-        ...chromaUpdates,
-      },
-    });
+  const handleChromaKeyUpdate = (chromaUpdates: Partial<IChromaKey>) => {
+    core.clip.setChromaKey(chromaUpdates, [clip.id]);
   };
 
   const { setFloatingControl } = useLayoutStore();
@@ -296,6 +293,9 @@ export function ImageProperties({ clip }: ImagePropertiesProps) {
         </div>
       </div>
 
+      {/* Blend Mode Section */}
+      <SharedBlendProperties clip={clip} />
+
       {/* Animations Section */}
       <div className="flex flex-col gap-2">
         <div className="flex items-center justify-between">
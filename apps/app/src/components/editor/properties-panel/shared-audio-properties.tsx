@@ -7,11 +7,20 @@ import {
   IconMicrophone,
   IconTrendingUp,
   IconTrendingDown,
+  IconArrowsVertical,
 } from "@tabler/icons-react";
+import type { TrackRole } from "@openvideo/core";
 import { InputGroup, InputGroupAddon } from "@/components/ui/input-group";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { NumberInput } from "@/components/ui/number-input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useStore } from "zustand";
 import { projectStore, core } from "@/lib/project";
 
@@ -22,6 +31,8 @@ interface SharedAudioPropertiesProps {
 export function SharedAudioProperties({ clip }: SharedAudioPropertiesProps) {
   const coreClipBase = useStore(projectStore, (s) => s.clips[clip.id]);
   const coreClip = coreClipBase ?? clip;
+  const track = useStore(projectStore, (s) => s.tracks.find((t) => t.clipIds.includes(clip.id)));
+  const ducking = useStore(projectStore, (s) => s.settings.ducking);
 
   if (!coreClip) return null;
 
@@ -159,6 +170,131 @@ export function SharedAudioProperties({ clip }: SharedAudioPropertiesProps) {
         </div>
       </div>
 
+      {/* Mix Section */}
+      {track && (
+        <div className="flex flex-col gap-2">
+          <label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+            Track Role
+          </label>
+          <Select
+            value={track.role ?? "none"}
+            onValueChange={(v) =>
+              core.track.setRole(track.id, v === "none" ? undefined : (v as TrackRole))
+            }
+          >
+            <SelectTrigger className="w-full h-9">
+              <SelectValue placeholder="Track Role" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="dialogue">Dialogue</SelectItem>
+              <SelectItem value="music">Music</SelectItem>
+              <SelectItem value="sfx">SFX</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-4">
+            <span className="text-xs text-muted-foreground w-16 flex-shrink-0">Track Gain</span>
+            <Slider
+              value={[track.gain ?? 0]}
+              onValueChange={(v) => core.track.setMix(track.id, { gain: v[0] })}
+              min={-24}
+              max={12}
+              step={0.5}
+              className="flex-1"
+            />
+            <InputGroup className="w-24">
+              <NumberInput
+                value={track.gain ?? 0}
+                onChange={(val) => core.track.setMix(track.id, { gain: val || 0 })}
+                className="p-0 text-center text-xs"
+              />
+              <InputGroupAddon align="inline-end" className="p-0 pr-2">
+                <span className="text-[10px] text-muted-foreground">dB</span>
+              </InputGroupAddon>
+            </InputGroup>
+          </div>
+          <div className="flex items-center gap-4">
+            <span className="text-xs text-muted-foreground w-16 flex-shrink-0">Pan</span>
+            <Slider
+              value={[Math.round((track.pan ?? 0) * 100)]}
+              onValueChange={(v) => core.track.setMix(track.id, { pan: v[0] / 100 })}
+              min={-100}
+              max={100}
+              step={1}
+              className="flex-1"
+            />
+            <InputGroup className="w-24">
+              <NumberInput
+                value={Math.round((track.pan ?? 0) * 100)}
+                onChange={(val) => core.track.setMix(track.id, { pan: (val || 0) / 100 })}
+                className="p-0 text-center text-xs"
+              />
+              <InputGroupAddon align="inline-end" className="p-0 pr-2">
+                <span className="text-[10px] text-muted-foreground">L/R</span>
+              </InputGroupAddon>
+            </InputGroup>
+          </div>
+          <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Switch
+                checked={!!track.muted}
+                onCheckedChange={(checked) => core.track.setMix(track.id, { muted: checked })}
+              />
+              Mute
+            </label>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Switch
+                checked={!!track.solo}
+                onCheckedChange={(checked) => core.track.setMix(track.id, { solo: checked })}
+              />
+              Solo
+            </label>
+          </div>
+          <div className="p-3 rounded-lg bg-secondary/30 border border-border/40 hover:border-border/60 transition-colors">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-md bg-background/80">
+                  <IconArrowsVertical className="size-4 text-foreground" />
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-sm font-medium text-foreground">Auto Ducking</span>
+                  <span className="text-xs text-muted-foreground">
+                    Lower music tracks under dialogue
+                  </span>
+                </div>
+              </div>
+              <Switch
+                checked={!!ducking?.enabled}
+                onCheckedChange={(checked) => core.project.setDucking({ enabled: checked })}
+              />
+            </div>
+          </div>
+          {ducking?.enabled && (
+            <div className="flex items-center gap-4">
+              <span className="text-xs text-muted-foreground w-16 flex-shrink-0">Reduction</span>
+              <Slider
+                value={[ducking.reduction]}
+                onValueChange={(v) => core.project.setDucking({ reduction: v[0] })}
+                min={0}
+                max={30}
+                step={1}
+                className="flex-1"
+              />
+              <InputGroup className="w-24">
+                <NumberInput
+                  value={ducking.reduction}
+                  onChange={(val) => core.project.setDucking({ reduction: val || 0 })}
+                  className="p-0 text-center text-xs"
+                />
+                <InputGroupAddon align="inline-end" className="p-0 pr-2">
+                  <span className="text-[10px] text-muted-foreground">dB</span>
+                </InputGroupAddon>
+              </InputGroup>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* AI Tools Section */}
       <div className="flex flex-col gap-2">
         <label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
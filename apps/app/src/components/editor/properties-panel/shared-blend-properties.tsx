@@ -0,0 +1,62 @@
+import { IClip } from "@openvideo/engine-pixi";
+import type { BlendMode } from "@openvideo/core";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useStore } from "zustand";
+import { projectStore, core } from "@/lib/project";
+
+const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: "normal", label: "Normal" },
+  { value: "multiply", label: "Multiply" },
+  { value: "screen", label: "Screen" },
+  { value: "overlay", label: "Overlay" },
+  { value: "soft-light", label: "Soft Light" },
+  { value: "hard-light", label: "Hard Light" },
+  { value: "add", label: "Add" },
+  { value: "darken", label: "Darken" },
+  { value: "lighten", label: "Lighten" },
+  { value: "difference", label: "Difference" },
+  { value: "exclusion", label: "Exclusion" },
+  { value: "color-dodge", label: "Color Dodge" },
+  { value: "color-burn", label: "Color Burn" },
+  { value: "linear-burn", label: "Linear Burn" },
+  { value: "saturation", label: "Saturation" },
+  { value: "color", label: "Color" },
+  { value: "luminosity", label: "Luminosity" },
+];
+
+interface SharedBlendPropertiesProps {
+  clip: IClip;
+}
+
+export function SharedBlendProperties({ clip }: SharedBlendPropertiesProps) {
+  const blendMode = useStore(projectStore, (s) => s.clips[clip.id]?.blendMode) ?? "normal";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+        Blend Mode
+      </label>
+      <Select
+        value={blendMode}
+        onValueChange={(v) => core.clip.setBlendMode(v as BlendMode, [clip.id])}
+      >
+        <SelectTrigger className="w-full h-9">
+          <SelectValue placeholder="Blend Mode" />
+        </SelectTrigger>
+        <SelectContent>
+          {BLEND_MODES.map((mode) => (
+            <SelectItem key={mode.value} value={mode.value}>
+              {mode.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
 } from "@/components/ui/color-picker";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { IClip, AnimationOptions, KeyframeData } from "@openvideo/engine-pixi";
+import { SharedBlendProperties } from "./shared-blend-properties";
 import {
   Select,
   SelectContent,
@@ -508,6 +509,9 @@ export function TextProperties({ clip }: TextPropertiesProps) {
         </div>
       </div>
 
+      {/* Blend Mode Section */}
+      <SharedBlendProperties clip={clip} />
+
       {/* Animations Section */}
       <div className="flex flex-col gap-2">
         <div className="flex items-center justify-between">
@@ -48,8 +48,10 @@ import { Switch } from "@/components/ui/switch";
 import useLayoutStore from "../store/use-layout-store";
 import { useStore } from "zustand";
 import { useEphemeralClip } from "@/hooks/use-ephemeral-clip";
+import type { IChromaKey } from "@openvideo/core";
 import { projectStore, core } from "@/lib/project";
 import { SharedAudioProperties } from "./shared-audio-properties";
+import { SharedBlendProperties } from "./shared-blend-properties";
 
 interface VideoPropertiesProps {
   clip: IClip;
@@ -130,13 +132,8 @@ export function VideoProperties({ clip }: VideoPropertiesProps) {
       },
     });
   };
-  const handleChromaKeyUpdate = (chromaUpdates: any) => {
-    handleUpdate({
-      chromaKey: {
-        ...coreClip.chromaKey,
-        ...chromaUpdates,
-      },
-    });
+  const handleChromaKeyUpdate = (chromaUpdates: Partial<IChromaKey>) => {
+    core.clip.setChromaKey(chromaUpdates, [clip.id]);
   };
 
   const { setFloatingControl } = useLayoutStore();
@@ -311,6 +308,9 @@ export function VideoProperties({ clip }: VideoPropertiesProps) {
         </div>
       </div>
 
+      {/* Blend Mode Section */}
+      <SharedBlendProperties clip={clip} />
+
       {/* Animations Section */}
       <div className="flex flex-col gap-2">
         <div className="flex items-center justify-between">
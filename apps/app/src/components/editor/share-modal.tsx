@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { IconX } from "@tabler/icons-react";
+import { trpc } from "@/lib/trpc";
+
+interface ShareModalProps {
+  spaceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Role = "viewer" | "editor";
+
+const ROLES: { value: Role; label: string }[] = [
+  { value: "viewer", label: "Viewer" },
+  { value: "editor", label: "Editor" },
+];
+
+export function ShareModal({ spaceId, open, onOpenChange }: ShareModalProps) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>("editor");
+
+  const utils = trpc.useUtils();
+  const { data: space } = trpc.space.getById.useQuery({ id: spaceId }, { enabled: open });
+  const { data } = trpc.space.members.useQuery({ spaceId }, { enabled: open });
+  const isOwner = space?.role === "owner";
+
+  const onChanged = () => utils.space.members.invalidate({ spaceId });
+  const invite = trpc.space.invite.useMutation({ onSuccess: onChanged });
+  const updateMember = trpc.space.updateMember.useMutation({ onSuccess: onChanged });
+  const removeMember = trpc.space.removeMember.useMutation({ onSuccess: onChanged });
+
+  const handleInvite = async () => {
+    if (!email.trim()) return;
+    try {
+      await invite.mutateAsync({ spaceId, email: email.trim(), role });
+      toast.success(`Invited ${email.trim()}`);
+      setEmail("");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to send invite");
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, nextRole: Role) => {
+    try {
+      await updateMember.mutateAsync({ spaceId, memberId, role: nextRole });
+    } catch {
+      toast.error("Failed to change role");
+    }
+  };
+
+  const handleRemove = async (memberId: string) => {
+    try {
+      await removeMember.mutateAsync({ spaceId, memberId });
+    } catch {
+      toast.error("Failed to remove member");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share project</DialogTitle>
+          <DialogDescription>
+            Invite people by email. Editors can change the timeline; viewers can only watch.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="email"
+              placeholder="name@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleInvite()}
+            />
+            <Select value={role} onValueChange={(v) => setRole(v as Role)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleInvite} disabled={invite.isPending || !email.trim()}>
+              Invite
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-1">
+          {data?.owner && (
+            <div className="flex items-center gap-3 py-1.5">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">{data.owner.name || data.owner.email}</p>
+                <p className="text-xs text-muted-foreground truncate">{data.owner.email}</p>
+              </div>
+              <span className="text-xs text-muted-foreground">Owner</span>
+            </div>
+          )}
+          {data?.members.map((member) => (
+            <div key={member.id} className="flex items-center gap-3 py-1.5">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">{member.name || member.email}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {member.pending ? "Invite pending" : member.email}
+                </p>
+              </div>
+              {isOwner ? (
+                <>
+                  <Select
+                    value={member.role}
+                    onValueChange={(v) => handleRoleChange(member.id, v as Role)}
+                  >
+                    <SelectTrigger className="w-32 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    onClick={() => handleRemove(member.id)}
+                  >
+                    <IconX className="size-4" />
+                  </Button>
+                </>
+              ) : (
+                <span className="text-xs text-muted-foreground capitalize">{member.role}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
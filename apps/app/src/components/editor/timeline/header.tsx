@@ -7,6 +7,7 @@ import {
   IconZoomIn,
   IconCopy,
   IconScissors,
+  IconArrowBackUp,
 } from "@tabler/icons-react";
 import { useClipActions } from "../studio-context-menu";
 import { useTimelineOffsetX } from "../hooks/use-timeline-offset";
@@ -80,6 +81,10 @@ const Header = ({
 
   const { studio } = useStudioStore();
   const fps = useStore(projectStore, (s) => s.settings.fps);
+  const openSequence = useStore(projectStore, (s) => {
+    const frame = s.sequenceStack[s.sequenceStack.length - 1];
+    return frame ? s.sequences?.[frame.sequenceId]?.name : undefined;
+  });
   const { selectedClip, isLocked, handleDuplicate, handleDelete } = useClipActions();
 
   const handleSplit = () => {
@@ -150,6 +155,17 @@ const Header = ({
             >
               <IconCopy size={15} />
             </Button>
+            {openSequence !== undefined && (
+              <Button
+                onClick={() => core.sequence.close()}
+                variant={"ghost"}
+                size={"sm"}
+                className="flex items-center gap-1 px-2"
+              >
+                <IconArrowBackUp size={15} />
+                <span className="text-xs">{openSequence}</span>
+              </Button>
+            )}
           </div>
           <div className="flex items-center justify-center">
             <div>
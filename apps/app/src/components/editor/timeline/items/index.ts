@@ -10,3 +10,6 @@ export { default as RadialAudioBars } from "./radial-audio-bars";
 export { default as WaveAudioBars } from "./wave-audio-bars";
 export { default as HillAudioBars } from "./hill-audio-bars";
 export { default as Transition } from "./transition";
+export { default as Sequence } from "./sequence";
+export { default as Visualizer } from "./visualizer";
+export { default as Shape } from "./shape";
@@ -0,0 +1,76 @@
+import { Control, Resizable, ResizableProps } from "@openvideo/timeline";
+import { editorFont } from "@/components/editor/constants";
+import { createResizeControls } from "../controls";
+import { TIMELINE_SELECTED_BORDER_COLOR, TIMELINE_BORDER_WIDTH } from "../../constants/constants";
+
+interface VisualizerProps extends ResizableProps {
+  name?: string;
+}
+
+class Visualizer extends Resizable {
+  static type = "Visualizer";
+  public name: string;
+  static createControls(): { controls: Record<string, Control> } {
+    return { controls: createResizeControls() };
+  }
+
+  constructor(props: VisualizerProps) {
+    super(props);
+    this.id = props.id;
+    this.rx = 0;
+    this.ry = 0;
+    this.display = props.display;
+    this.tScale = props.tScale;
+    this.name = props.name ?? "Visualizer";
+    this.fill = "#0e7490";
+  }
+
+  public _render(ctx: CanvasRenderingContext2D) {
+    super._render(ctx);
+    this.drawIdentity(ctx);
+    this.updateSelected(ctx);
+  }
+
+  public drawIdentity(ctx: CanvasRenderingContext2D) {
+    // Four bars of different heights
+    ctx.save();
+    ctx.translate(-this.width / 2 + 10, -this.height / 2 + 8);
+    ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+    [6, 12, 8, 4].forEach((height, i) => {
+      ctx.fillRect(i * 4, 12 - height, 2, height);
+    });
+    ctx.restore();
+
+    ctx.save();
+    ctx.translate(-this.width / 2 + 30, -this.height / 2 + 18);
+    ctx.font = `600 11px ${editorFont.fontFamily}`;
+    ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+    ctx.textAlign = "left";
+    ctx.fillText(this.name, 0, 0);
+    ctx.restore();
+  }
+
+  public updateSelected(ctx: CanvasRenderingContext2D) {
+    if (!this.isSelected) return;
+
+    const borderColor = TIMELINE_SELECTED_BORDER_COLOR;
+    const borderWidth = TIMELINE_BORDER_WIDTH;
+    const innerRadius = 0;
+
+    ctx.save();
+    ctx.fillStyle = borderColor;
+    ctx.beginPath();
+    ctx.rect(-this.width / 2, -this.height / 2, this.width, this.height);
+    ctx.roundRect(
+      -this.width / 2 + borderWidth,
+      -this.height / 2 + borderWidth,
+      this.width - borderWidth * 2,
+      this.height - borderWidth * 2,
+      innerRadius,
+    );
+    ctx.fill("evenodd");
+    ctx.restore();
+  }
+}
+
+export default Visualizer;
@@ -0,0 +1,50 @@
+import { timeUsToUnits, ITimelineScaleState } from "@openvideo/timeline";
+import { usePresenceStore } from "@/stores/presence-store";
+import { useTimelineOffsetX } from "../hooks/use-timeline-offset";
+
+/** Playheads of other collaborators, drawn in their colour behind the local playhead */
+const RemotePlayheads = ({
+  scrollLeft,
+  scale,
+}: {
+  scrollLeft: number;
+  scale: ITimelineScaleState;
+}) => {
+  const peers = usePresenceStore((s) => s.peers);
+  const timelineOffsetX = useTimelineOffsetX();
+
+  return (
+    <>
+      {Object.values(peers).map((peer) => {
+        const position = timeUsToUnits(peer.currentTime, scale.zoom) - scrollLeft;
+        if (position < 0) return null;
+        return (
+          <div
+            key={peer.clientId}
+            className="pointer-events-none absolute"
+            style={{
+              left: timelineOffsetX + 16 + position,
+              top: 50,
+              width: 1,
+              height: "calc(100% - 50px)",
+              zIndex: 9,
+            }}
+          >
+            <div
+              className="absolute top-0 left-0 whitespace-nowrap rounded-r-sm px-1 text-[10px] leading-4 text-white"
+              style={{ backgroundColor: peer.color }}
+            >
+              {peer.name}
+            </div>
+            <div
+              className="absolute top-0 h-full w-[1px] -translate-x-1/2 opacity-80"
+              style={{ backgroundColor: peer.color }}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default RemotePlayheads;
@@ -3,6 +3,8 @@ import CanvasTimeline, { TIMELINE_SEEK } from "@openvideo/timeline";
 import { IClip } from "@/types/timeline";
 import { core, projectStore } from "@/lib/project";
 import { useStudioStore } from "@/stores/studio-store";
+import { usePresenceStore, type Presence } from "@/stores/presence-store";
+import { usePlanPreviewStore, type PlanChange } from "@/stores/plan-preview-store";
 import { nanoid } from "nanoid";
 
 /**
@@ -81,7 +83,48 @@ export const addStudioSync = (studio: Studio, timeline: CanvasTimeline): (() =>
     }
   });
 
+  // --- 3. COLLABORATORS -> STUDIO ---
+  // Outline the clips other people in the space have selected
+  const syncRemoteSelections = (peers: Record<string, Presence>) => {
+    studio.setRemoteSelections(
+      Object.values(peers).map((peer) => ({
+        id: peer.clientId,
+        color: peer.color,
+        clipIds: peer.selection,
+      })),
+    );
+  };
+  syncRemoteSelections(usePresenceStore.getState().peers);
+  const unsubPresence = usePresenceStore.subscribe((state, prev) => {
+    if (state.peers !== prev.peers) syncRemoteSelections(state.peers);
+  });
+
+  // --- 4. PLAN PREVIEW -> STUDIO ---
+  // Ghost what a plan waiting for confirmation would add, remove or move
+  const GHOST_COLORS: Record<PlanChange["kind"], string> = {
+    added: "#34d399",
+    removed: "#f87171",
+    moved: "#fbbf24",
+    trimmed: "#fbbf24",
+    changed: "#fbbf24",
+  };
+  const syncGhostFrames = (changes: PlanChange[]) => {
+    studio.setGhostFrames(
+      changes.flatMap((change) => {
+        const frame = change.kind === "removed" ? change.before : change.after;
+        if (!frame) return [];
+        return [{ id: change.clipId, color: GHOST_COLORS[change.kind], ...frame }];
+      }),
+    );
+  };
+  syncGhostFrames(usePlanPreviewStore.getState().changes);
+  const unsubPlanPreview = usePlanPreviewStore.subscribe((state, prev) => {
+    if (state.changes !== prev.changes) syncGhostFrames(state.changes);
+  });
+
   return () => {
+    unsubPresence();
+    unsubPlanPreview();
     studio.off("clip:transforming", handleClipTransforming as any);
     timeline.emitter.off(TIMELINE_SEEK, handleTimelineSeek);
     timeline.emitter.off("add:video", handleAddClip);
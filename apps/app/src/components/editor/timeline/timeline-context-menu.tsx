@@ -14,6 +14,8 @@ import {
   IconVolume,
   IconVolumeOff,
   IconChevronRight,
+  IconStack2,
+  IconFolderOpen,
 } from "@tabler/icons-react";
 import { core, projectStore } from "@/lib/project";
 import { nanoid } from "nanoid";
@@ -181,6 +183,18 @@ export function useClipActions(clipId?: string) {
     core.clip.split(currentTime);
   }, [selectedClip]);
 
+  // Group the selection into a nested sequence
+  const handleCreateSequence = useCallback(() => {
+    if (selectedIds.length === 0) return;
+    core.sequence.create(selectedIds);
+  }, [selectedIds]);
+
+  // Edit the sequence behind a Sequence clip in place of the timeline
+  const handleOpenSequence = useCallback(() => {
+    if (selectedClip?.type !== "Sequence") return;
+    core.sequence.open(selectedClip.id);
+  }, [selectedClip]);
+
   return {
     selectedClip,
     isLocked,
@@ -193,6 +207,8 @@ export function useClipActions(clipId?: string) {
     handleToggleLock,
     handleToggleMute,
     handleSplit,
+    handleCreateSequence,
+    handleOpenSequence,
     clipId,
   };
 }
@@ -327,6 +343,8 @@ export function TimelineContextMenuContent({ state, onClose }: TimelineContextMe
     handleToggleLock,
     handleToggleMute,
     handleSplit,
+    handleCreateSequence,
+    handleOpenSequence,
   } = useClipActions(state.clipId);
 
   // Calculate position to avoid going off-screen
@@ -436,6 +454,20 @@ export function TimelineContextMenuContent({ state, onClose }: TimelineContextMe
           </MenuItem>
         )}
 
+        {!isLocked && (
+          <MenuItem onClick={wrapWithClose(handleCreateSequence)}>
+            <IconStack2 className="w-4 h-4" />
+            Create Sequence
+          </MenuItem>
+        )}
+
+        {selectedClip.type === "Sequence" && (
+          <MenuItem onClick={wrapWithClose(handleOpenSequence)}>
+            <IconFolderOpen className="w-4 h-4" />
+            Open Sequence
+          </MenuItem>
+        )}
+
         <MenuSeparator />
 
         <MenuItem onClick={wrapWithClose(handleToggleMute)}>
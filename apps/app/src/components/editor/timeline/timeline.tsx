@@ -7,6 +7,8 @@ import CanvasTimeline from "./items/timeline";
 import { useStudioStore } from "@/stores/studio-store";
 import { projectStore, core } from "@/lib/project";
 import Playhead from "./playhead";
+import RemotePlayheads from "./remote-playheads";
+import { usePresenceStore } from "@/stores/presence-store";
 import { useEditorHotkeys } from "@/hooks/use-editor-hotkeys";
 import {
   Audio,
@@ -21,6 +23,9 @@ import {
   WaveAudioBars,
   HillAudioBars,
   Transition,
+  Sequence,
+  Visualizer,
+  Shape,
 } from "./items";
 import PreviewTrackItem from "./items/preview-drag-item";
 import { useTimelineOffsetX } from "../hooks/use-timeline-offset";
@@ -44,6 +49,9 @@ CanvasTimeline.registerItems({
   HillAudioBars,
   Effect,
   Transition,
+  Sequence,
+  Visualizer,
+  Shape,
 });
 
 const EMPTY_SIZE = { width: 0, height: 0 };
@@ -109,6 +117,16 @@ const Timeline = () => {
       }
     }
   }, [currentTimeUs]);
+
+  // Report the visible time range so collaborators can see where we are looking
+  useEffect(() => {
+    const width = canvasElRef.current?.clientWidth ?? 0;
+    usePresenceStore.getState().setViewport({
+      start: unitsToTimeUs(scrollLeft, scale.zoom),
+      end: unitsToTimeUs(scrollLeft + width, scale.zoom),
+    });
+  }, [scrollLeft, scale.zoom]);
+
   const onResizeCanvas = (payload: { width: number; height: number }) => {};
 
   useEffect(() => {
@@ -171,6 +189,9 @@ const Timeline = () => {
         audio: 36,
         video: 48,
         image: 48,
+        sequence: 48,
+        visualizer: 48,
+        shape: 48,
         transition: 40,
         main: 48,
       },
@@ -184,13 +205,19 @@ const Timeline = () => {
         "effect",
         "track",
         "transition",
+        "sequence",
+        "visualizer",
+        "shape",
       ],
       acceptsMap: {
         text: ["text", "caption"],
         effect: ["effect"],
-        image: ["image", "video"],
-        main: ["image", "video"],
-        video: ["video", "image"],
+        image: ["image", "video", "sequence", "visualizer", "shape"],
+        main: ["image", "video", "sequence", "visualizer", "shape"],
+        video: ["video", "image", "sequence", "visualizer", "shape"],
+        sequence: ["sequence", "video", "image"],
+        visualizer: ["visualizer", "video", "image"],
+        shape: ["shape", "video", "image"],
         audio: ["audio"],
         caption: ["caption", "text"],
       },
@@ -381,6 +408,7 @@ const Timeline = () => {
           scrollLeft={scrollLeft}
           onScroll={onRulerScroll}
         />
+        <RemotePlayheads scale={scale} scrollLeft={scrollLeft} />
         <Playhead scale={scale} scrollLeft={scrollLeft} />
 
         {/* Container for Tracks and Canvas */}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import type { Patch } from "@openvideo/core";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useRevisions, type Revision } from "@/hooks/use-revisions";
+import { core } from "@/lib/project";
+
+interface VersionHistoryModalProps {
+  spaceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KIND_LABELS: Record<Revision["kind"], string> = {
+  auto: "Auto-save",
+  plan: "AI edit",
+  manual: "Saved version",
+  restore: "Restored",
+};
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/** One line per clip or setting a diff touches */
+function summarize(patches: Patch[]): string[] {
+  const clipName = (id: string, clip?: { name?: string; type?: string }) =>
+    clip?.name || core.store.getState().clips[id]?.name || clip?.type || id;
+
+  const lines: string[] = [];
+  const changed = new Map<string, Set<string>>();
+  for (const patch of patches) {
+    const [section, id, property] = patch.path.split("/").slice(1);
+    if (section === "clips" && !property) {
+      lines.push(
+        patch.op === "add"
+          ? `Added ${clipName(id, patch.value)}`
+          : `Removed ${clipName(id, patch.oldValue)}`,
+      );
+    } else if (section === "clips") {
+      if (!changed.has(id)) changed.set(id, new Set());
+      changed.get(id)!.add(property);
+    } else if (section === "tracks") {
+      lines.push("Changed tracks");
+    } else if (section === "settings") {
+      lines.push(`Changed project ${id}`);
+    } else if (section === "sequences" || section === "easings") {
+      lines.push(`Changed ${section}`);
+    }
+  }
+  for (const [id, properties] of changed) {
+    lines.push(`Changed ${clipName(id)}: ${[...properties].join(", ")}`);
+  }
+  return [...new Set(lines)];
+}
+
+export function VersionHistoryModal({ spaceId, open, onOpenChange }: VersionHistoryModalProps) {
+  const [name, setName] = useState("");
+  const [comparing, setComparing] = useState<{ id: string; lines: string[] } | null>(null);
+  const { revisions, isLoading, save, restore, diff } = useRevisions(spaceId, open);
+
+  const handleSave = async () => {
+    try {
+      await save.mutateAsync(name.trim());
+      toast.success("Version saved");
+      setName("");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save version");
+    }
+  };
+
+  const handleCompare = async (revision: Revision) => {
+    if (comparing?.id === revision.id) {
+      setComparing(null);
+      return;
+    }
+    try {
+      const patches = await diff(revision.id);
+      setComparing({ id: revision.id, lines: summarize(patches) });
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to compare versions");
+    }
+  };
+
+  const handleRestore = async (revision: Revision) => {
+    const label = revision.name || formatDate(revision.createdAt);
+    if (!confirm(`Restore the project to "${label}"? The current state stays in the history.`)) {
+      return;
+    }
+    try {
+      await restore.mutateAsync(revision.id);
+      setComparing(null);
+      toast.success(`Restored "${label}"`);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to restore version");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Versions are saved automatically, after AI edits and whenever you save one. Restoring a
+            version keeps everything after it in the history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Version name (optional)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          />
+          <Button onClick={handleSave} disabled={save.isPending}>
+            Save version
+          </Button>
+        </div>
+
+        <div className="flex flex-col gap-1 max-h-[420px] overflow-y-auto">
+          {isLoading && <p className="text-sm text-muted-foreground py-2">Loading…</p>}
+          {!isLoading && revisions.length === 0 && (
+            <p className="text-sm text-muted-foreground py-2">No versions yet.</p>
+          )}
+          {revisions.map((revision) => (
+            <div key={revision.id} className="flex flex-col gap-1 py-1.5 border-b last:border-0">
+              <div className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">
+                    {revision.name || KIND_LABELS[revision.kind] || revision.kind}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatDate(revision.createdAt)}
+                    {revision.name && ` · ${KIND_LABELS[revision.kind] || revision.kind}`}
+                    {revision.createdBy && ` · ${revision.createdBy.name}`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleCompare(revision)}>
+                  {comparing?.id === revision.id ? "Hide" : "Compare"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(revision)}
+                  disabled={restore.isPending}
+                >
+                  Restore
+                </Button>
+              </div>
+              {comparing?.id === revision.id && (
+                <div className="rounded-md bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+                  {comparing.lines.length === 0 ? (
+                    <p>Same as the current project.</p>
+                  ) : (
+                    <>
+                      <p className="mb-1 font-medium text-foreground">Changes since this version</p>
+                      {comparing.lines.map((line) => (
+                        <p key={line}>{line}</p>
+                      ))}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
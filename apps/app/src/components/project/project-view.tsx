@@ -66,7 +66,13 @@ export default function ProjectView({ projectId }: { projectId: string }) {
   const deleteAsset = trpc.asset.delete.useMutation();
   const triggerAssetIndex = trpc.asset.triggerIndex.useMutation();
 
-  const { messages: chatMessages, sendMessage, isThinking } = useDirector(project?.id ?? "");
+  const {
+    messages: chatMessages,
+    sendMessage,
+    confirmPlan,
+    rejectPlan,
+    isThinking,
+  } = useDirector(project?.id ?? "");
 
   // Zustand store
   const files = useAssetsStore((state) => state.files);
@@ -546,6 +552,8 @@ export default function ProjectView({ projectId }: { projectId: string }) {
               onInputChange={setChatInput}
               onSend={handleSendMessage}
               placeholder="Ask, Search or Chat..."
+              onConfirmPlan={confirmPlan}
+              onRejectPlan={rejectPlan}
               emptyState={
                 <div className="p-6">
                   <div className="max-w-lg font-regular text-sm">
@@ -566,8 +574,8 @@ export default function ProjectView({ projectId }: { projectId: string }) {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete project?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the project and all its files. This action cannot be
-              undone.
+              The project and its files will be moved to the trash. You can restore them from there
+              for 30 days.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -578,7 +586,7 @@ export default function ProjectView({ projectId }: { projectId: string }) {
                 setIsDeleting(true);
                 try {
                   await deleteSpace.mutateAsync({ id: project.id });
-                  toast.success("Project deleted");
+                  toast.success("Project moved to trash");
                   router.push("/home");
                 } catch {
                   toast.error("Failed to delete project");
@@ -16,6 +16,7 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { HoverBorderGradient } from "@/components/ui/hover-border-gradient";
 import type { Message } from "@/hooks/use-director";
+import { PlanPreviewCard } from "./plan-preview-card";
 
 interface ChatPanelProps {
   messages: Message[];
@@ -26,6 +27,9 @@ interface ChatPanelProps {
   placeholder?: string;
   emptyState?: React.ReactNode;
   className?: string;
+  /** Handlers for plans that wait for confirmation */
+  onConfirmPlan?: (planId: string) => void;
+  onRejectPlan?: (planId: string) => void;
 }
 
 export function ChatPanel({
@@ -37,6 +41,8 @@ export function ChatPanel({
   placeholder = "How can I help you?",
   emptyState,
   className,
+  onConfirmPlan,
+  onRejectPlan,
 }: ChatPanelProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -98,6 +104,15 @@ export function ChatPanel({
                   >
                     {m.role === "user" ? (
                       m.content
+                    ) : m.type === "plan" && m.payload?.preview ? (
+                      <PlanPreviewCard
+                        planId={m.payload.plan.id}
+                        goal={m.payload.plan.goal}
+                        preview={m.payload.preview}
+                        status={m.payload.status}
+                        onConfirm={onConfirmPlan}
+                        onReject={onRejectPlan}
+                      />
                     ) : (
                       <div className="w-full grid overflow-hidden prose prose-sm dark:prose-invert prose-p:text-foreground/85 prose-strong:text-foreground">
                         <ReactMarkdown
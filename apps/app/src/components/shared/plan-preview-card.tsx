@@ -0,0 +1,94 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { PlanChange, PlanPreview } from "@/stores/plan-preview-store";
+
+interface PlanPreviewCardProps {
+  planId: string;
+  goal: string;
+  preview: PlanPreview;
+  status: "pending" | "confirmed" | "rejected";
+  onConfirm?: (planId: string) => void;
+  onReject?: (planId: string) => void;
+}
+
+const KIND_STYLES: Record<PlanChange["kind"], string> = {
+  added: "text-emerald-400",
+  removed: "text-red-400",
+  moved: "text-sky-400",
+  trimmed: "text-amber-400",
+  changed: "text-amber-400",
+};
+
+const KIND_SIGNS: Record<PlanChange["kind"], string> = {
+  added: "+",
+  removed: "−",
+  moved: "→",
+  trimmed: "↔",
+  changed: "~",
+};
+
+/** What a plan waiting for confirmation would change, with confirm and reject buttons */
+export function PlanPreviewCard({
+  planId,
+  goal,
+  preview,
+  status,
+  onConfirm,
+  onReject,
+}: PlanPreviewCardProps) {
+  return (
+    <div className="flex flex-col gap-2 font-sans">
+      <p className="text-[13px] font-medium text-foreground/90">{goal}</p>
+
+      {preview.changes.length === 0 &&
+      preview.pending.length === 0 &&
+      preview.deferred.length === 0 ? (
+        <p className="text-xs text-muted-foreground">This plan does not change the timeline.</p>
+      ) : (
+        <ul className="flex flex-col gap-0.5 text-xs">
+          {preview.changes.map((change) => (
+            <li key={`${change.kind}-${change.clipId}`} className="flex gap-2">
+              <span className={cn("w-3 shrink-0 text-center", KIND_STYLES[change.kind])}>
+                {KIND_SIGNS[change.kind]}
+              </span>
+              <span className="text-foreground/80">{change.description}</span>
+            </li>
+          ))}
+          {preview.pending.map((description) => (
+            <li key={description} className="flex gap-2 text-muted-foreground">
+              <span className="w-3 shrink-0 text-center">…</span>
+              <span>{description} (generated after confirming)</span>
+            </li>
+          ))}
+          {preview.deferred.map((step) => (
+            <li key={step.stepId} className="flex gap-2 text-muted-foreground">
+              <span className="w-3 shrink-0 text-center">…</span>
+              <span>{step.description} (computed on confirm)</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {preview.error && (
+        <p className="text-xs text-red-400">Preview stopped early: {preview.error}</p>
+      )}
+
+      {status === "pending" ? (
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" onClick={() => onConfirm?.(planId)}>
+            Apply changes
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => onReject?.(planId)}>
+            Discard
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {status === "confirmed" ? "Applied" : "Discarded"}
+        </p>
+      )}
+    </div>
+  );
+}
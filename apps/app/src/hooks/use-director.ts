@@ -2,9 +2,23 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { io, Socket } from "socket.io-client";
+import {
+  fromRootPatches,
+  invertPatches,
+  nanoid,
+  rebasePatches,
+  toRootPatches,
+  type Patch,
+} from "@openvideo/core";
+import { isEqual, throttle } from "lodash";
 import { core } from "@/lib/project";
 import { directorConfig } from "@/lib/director-config";
 import { trpc } from "@/lib/trpc";
+import { usePresenceStore } from "@/stores/presence-store";
+import { usePlanPreviewStore } from "@/stores/plan-preview-store";
+
+/** Presence is resent this often so other instances can drop vanished clients */
+const PRESENCE_HEARTBEAT_MS = 20_000;
 
 export interface Message {
   id: string;
@@ -23,9 +37,27 @@ export function useDirector(spaceId: string) {
 
   const { data: tokenData } = trpc.session.getToken.useQuery({ spaceId }, { enabled: !!spaceId });
 
+  const setPlanStatus = (planId: string, status: "pending" | "confirmed" | "rejected") => {
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === `plan-${planId}` ? { ...m, payload: { ...m.payload, status } } : m,
+      ),
+    );
+  };
+
   useEffect(() => {
     if (!spaceId || !tokenData?.token) return;
     console.log("token", { token: tokenData.token }, { spaceId });
+
+    // Collaboration state: local batches wait in `pending` until the server
+    // echoes them back with our clientId, or rejects them and they are rolled
+    // back. Remote patches are rebased under them so unacknowledged edits are not lost
+    const clientId = nanoid();
+    const pending: Patch[][] = [];
+    let epoch: string | null = null;
+    let revision = 0;
+    let synced = false;
+
     // Create direct Socket.io connection to Director
     const socket = io(directorConfig.wsUrl, {
       path: "/ws",
@@ -42,25 +74,141 @@ export function useDirector(spaceId: string) {
       console.log("[Director] Connected");
       setIsConnected(true);
       socket.emit("space:join", { spaceId });
+      sendPresence();
     });
 
     socket.on("disconnect", (reason) => {
       console.log("[Director] Disconnected:", reason);
+      synced = false;
+      usePresenceStore.getState().setPeers([]);
       setIsConnected(false);
       setIsThinking(false);
     });
 
+    // Reconnect from the last seen revision so the server can replay what we missed
+    socket.io.on("reconnect_attempt", () => {
+      socket.io.opts.query = epoch ? { spaceId, epoch, revision: String(revision) } : { spaceId };
+    });
+
+    // Refused chat and plan requests; refused patches come back as patch.rejected
+    socket.on("error", (error: { code: string; message: string }) => {
+      console.error("[Director] Error:", error.message);
+      setIsThinking(false);
+    });
+
     socket.on("connect_error", (error) => {
       console.error("[Director] Connection error:", error);
       setIsConnected(false);
     });
 
+    // Share our playhead, selection and timeline viewport with the space
+    const sendPresence = throttle(
+      () => {
+        if (!socket.connected) return;
+        const { currentTime, selectedIds } = core.store.getState();
+        socket.emit("presence", {
+          currentTime,
+          selection: selectedIds,
+          viewport: usePresenceStore.getState().viewport,
+        });
+      },
+      100,
+      { leading: true, trailing: true },
+    );
+
+    const unsubProject = core.store.subscribe((state, prev) => {
+      if (state.currentTime !== prev.currentTime || state.selectedIds !== prev.selectedIds) {
+        sendPresence();
+      }
+    });
+    const unsubViewport = usePresenceStore.subscribe((state, prev) => {
+      if (state.viewport !== prev.viewport) sendPresence();
+    });
+    const heartbeat = setInterval(sendPresence, PRESENCE_HEARTBEAT_MS);
+
+    // Synced patches are in terms of the root timeline, also while we have a
+    // sequence open: rebase against it and re-open the sequence on top
+    const rootState = () => {
+      const state = core.store.getState();
+      return state.sequenceStack.length > 0 ? state.getSnapshot() : state;
+    };
+
+    // Labelled changes (executed plans) become one local undo step
+    const applyRemote = (rootPatches: Patch[], label?: string) => {
+      const patches = fromRootPatches(core.store.getState(), rootPatches);
+      if (patches.length === 0) return;
+      isApplyingRemotePatch.current = true;
+      if (label) {
+        core.record(patches, {
+          id: nanoid(),
+          type: "batch",
+          payload: [],
+          meta: { source: "agent", timestamp: Date.now() },
+        });
+      } else {
+        core.applyPatch(patches);
+      }
+      isApplyingRemotePatch.current = false;
+    };
+
+    const sendPending = () => {
+      pending.forEach((patches) => {
+        socket.emit("patch", { patch: patches, baseRevision: revision, clientId });
+      });
+    };
+
+    const receivePatch = (
+      patches: Patch[],
+      nextRevision: number,
+      origin?: string,
+      label?: string,
+    ) => {
+      if (origin === clientId) {
+        // Our own batch came back: the server's version wins if the rebase changed it
+        const sent = pending.shift();
+        revision = Math.max(revision, nextRevision);
+        if (sent && !isEqual(sent, patches)) {
+          applyRemote(rebasePatches(rootState(), patches, "incoming"));
+        }
+        return;
+      }
+      if (nextRevision <= revision) return;
+      revision = nextRevision;
+      applyRemote(
+        pending.length > 0 ? rebasePatches(rootState(), patches, "current") : patches,
+        label,
+      );
+    };
+
     // Director events
     socket.on("message", (msg: any) => {
       switch (msg.type) {
-        case "init":
+        case "init": {
           console.log("[Director] Init received");
+          epoch = msg.epoch;
+          revision = msg.revision;
+          isApplyingRemotePatch.current = true;
           core.reset(msg.state);
+          isApplyingRemotePatch.current = false;
+          synced = true;
+
+          // Replay edits the server never saw on top of the fresh snapshot
+          const unsent = pending.splice(0);
+          unsent.forEach((patches) => {
+            const rebased = rebasePatches(core.store.getState(), patches, "incoming");
+            if (rebased.length > 0) core.applyPatch(rebased);
+          });
+          break;
+        }
+        case "sync":
+          console.log(`[Director] Catching up ${msg.revisions.length} revisions`);
+          msg.revisions.forEach(
+            (change: { patches: Patch[]; revision: number; origin?: string; label?: string }) =>
+              receivePatch(change.patches, change.revision, change.origin, change.label),
+          );
+          revision = msg.revision;
+          synced = true;
+          sendPending();
           break;
         case "chat.response":
           setIsThinking(false);
@@ -78,13 +226,21 @@ export function useDirector(spaceId: string) {
           setMessages((prev) => [
             ...prev,
             {
-              id: Math.random().toString(36).substring(7),
+              id: `plan-${msg.plan.id}`,
               role: "assistant",
               content: `Plan created: ${msg.plan.goal}`,
               type: "plan",
-              payload: msg.plan,
+              payload: { plan: msg.plan, preview: msg.preview, status: "pending" },
             },
           ]);
+          if (msg.preview) {
+            usePlanPreviewStore.getState().showPreview(msg.plan.id, msg.preview);
+          }
+          break;
+        case "plan.complete":
+        case "plan.rejected":
+          usePlanPreviewStore.getState().clearPreview(msg.planId);
+          setPlanStatus(msg.planId, msg.type === "plan.complete" ? "confirmed" : "rejected");
           break;
         case "plan.step": {
           const id = `step-${msg.stepId}`;
@@ -110,22 +266,31 @@ export function useDirector(spaceId: string) {
           });
           break;
         }
-        case "patch": {
-          const newPatches = (msg.patch || msg.patches || []).filter((p: any) => {
-            if (p.op === "add" && p.path?.startsWith("/clips/")) {
-              const clipId = p.path.split("/")[2];
-              if (clipId && core.store.getState().clips[clipId]) return false;
-            }
-            return true;
-          });
-
-          if (newPatches.length === 0) break;
-
-          isApplyingRemotePatch.current = true;
-          core.applyPatch(newPatches as any[]);
-          isApplyingRemotePatch.current = false;
+        case "patch":
+          receivePatch(msg.patch, msg.revision, msg.origin, msg.label);
+          break;
+        case "patch.rejected": {
+          // The server refused our oldest unacknowledged batch: undo it here,
+          // over whatever was edited since
+          if (msg.origin !== clientId) break;
+          console.error("[Director] Edit rejected:", msg.message);
+          const sent = pending.shift();
+          if (sent) applyRemote(rebasePatches(rootState(), invertPatches(sent), "incoming"));
           break;
         }
+        case "presence.list":
+          usePresenceStore
+            .getState()
+            .setPeers(msg.presences.filter((p: { clientId: string }) => p.clientId !== socket.id));
+          break;
+        case "presence":
+          if (msg.presence.clientId !== socket.id) {
+            usePresenceStore.getState().upsertPeer(msg.presence);
+          }
+          break;
+        case "presence.leave":
+          usePresenceStore.getState().removePeer(msg.clientId);
+          break;
         case "error":
           console.error("[Director] Error:", msg.message);
           setIsThinking(false);
@@ -134,10 +299,15 @@ export function useDirector(spaceId: string) {
     });
 
     // Listen for local changes and send patches
-    const handleLocalChange = (patches: any[]) => {
+    // Offline edits stay queued and are sent once the connection is back in sync.
+    // Opening a sequence is ours alone; edits inside it are sent as changes to it
+    const handleLocalChange = (localPatches: Patch[]) => {
       if (isApplyingRemotePatch.current) return;
-      if (socket.connected) {
-        socket.emit("patch", { patch: patches });
+      const patches = toRootPatches(core.store.getState(), localPatches);
+      if (patches.length === 0) return;
+      pending.push(patches);
+      if (synced) {
+        socket.emit("patch", { patch: patches, baseRevision: revision, clientId });
       }
     };
 
@@ -145,10 +315,30 @@ export function useDirector(spaceId: string) {
 
     return () => {
       core.off("change", handleLocalChange);
+      unsubProject();
+      unsubViewport();
+      clearInterval(heartbeat);
+      sendPresence.cancel();
+      usePresenceStore.getState().setPeers([]);
       socket.disconnect();
     };
   }, [spaceId, tokenData?.token]);
 
+  /** Run a plan that was waiting for confirmation */
+  const confirmPlan = useCallback((planId: string) => {
+    if (!socketRef.current?.connected) return;
+    socketRef.current.emit("plan.confirm", { planId });
+    usePlanPreviewStore.getState().clearPreview(planId);
+    setPlanStatus(planId, "confirmed");
+  }, []);
+
+  const rejectPlan = useCallback((planId: string) => {
+    if (!socketRef.current?.connected) return;
+    socketRef.current.emit("plan.reject", { planId });
+    usePlanPreviewStore.getState().clearPreview(planId);
+    setPlanStatus(planId, "rejected");
+  }, []);
+
   const sendMessage = useCallback((text: string) => {
     if (socketRef.current?.connected) {
       socketRef.current.emit("chat", { message: text });
@@ -160,5 +350,5 @@ export function useDirector(spaceId: string) {
     }
   }, []);
 
-  return { messages, sendMessage, isConnected, isThinking };
+  return { messages, sendMessage, confirmPlan, rejectPlan, isConnected, isThinking };
 }
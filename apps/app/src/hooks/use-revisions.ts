@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Patch } from "@openvideo/core";
+import { trpc } from "@/lib/trpc";
+import { directorConfig } from "@/lib/director-config";
+
+export interface Revision {
+  id: string;
+  spaceId: string;
+  name: string | null;
+  kind: "auto" | "plan" | "manual" | "restore";
+  createdBy: { id: string; name: string } | null;
+  restoredFrom: string | null;
+  createdAt: string;
+}
+
+/**
+ * Saved versions of a space. Revisions live in the Director, which holds the
+ * live project, so requests go there with the same token as the socket.
+ */
+export function useRevisions(spaceId: string, enabled = true) {
+  const queryClient = useQueryClient();
+  const { data: tokenData } = trpc.session.getToken.useQuery(
+    { spaceId },
+    { enabled: enabled && !!spaceId },
+  );
+  const token = tokenData?.token;
+
+  const request = useCallback(
+    async <T>(path: string, init?: RequestInit): Promise<T> => {
+      const res = await fetch(`${directorConfig.baseUrl}/spaces/${spaceId}/revisions${path}`, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+          ...init?.headers,
+        },
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || `Request failed (${res.status})`);
+      }
+      return res.json();
+    },
+    [spaceId, token],
+  );
+
+  const queryKey = ["revisions", spaceId];
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => request<Revision[]>(""),
+    enabled: enabled && !!token,
+  });
+
+  const onChanged = () => queryClient.invalidateQueries({ queryKey });
+  const save = useMutation({
+    mutationFn: (name: string) =>
+      request<Revision>("", { method: "POST", body: JSON.stringify({ name }) }),
+    onSuccess: onChanged,
+  });
+  const restore = useMutation({
+    mutationFn: (revisionId: string) =>
+      request<Revision>(`/${revisionId}/restore`, { method: "POST" }),
+    onSuccess: onChanged,
+  });
+
+  /** Patches from a revision to another, or to the live project */
+  const diff = useCallback(
+    (revisionId: string, to = "current") =>
+      request<{ patches: Patch[] }>(`/${revisionId}/diff?to=${encodeURIComponent(to)}`).then(
+        (res) => res.patches,
+      ),
+    [request],
+  );
+
+  return { revisions, isLoading, save, restore, diff };
+}
@@ -0,0 +1,52 @@
+import { create } from "zustand";
+
+/** Where a clip sits on the canvas and timeline */
+export interface ClipFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle: number;
+  from: number;
+  to: number;
+  trackId: string | null;
+}
+
+export interface PlanChange {
+  kind: "added" | "removed" | "moved" | "trimmed" | "changed";
+  clipId: string;
+  clipName: string;
+  description: string;
+  properties: string[];
+  before: ClipFrame | null;
+  after: ClipFrame | null;
+}
+
+/** Dry run of an AI director plan, sent with plans that wait for confirmation */
+export interface PlanPreview {
+  changes: PlanChange[];
+  pending: string[];
+  deferred: { stepId: string; description: string }[];
+  error?: string;
+}
+
+interface PlanPreviewState {
+  /** Plan whose outcome is drawn as a ghost over the canvas */
+  planId: string | null;
+  changes: PlanChange[];
+
+  showPreview: (planId: string, preview: PlanPreview) => void;
+  /** Drop the ghost, only if it still belongs to `planId` when given */
+  clearPreview: (planId?: string) => void;
+}
+
+export const usePlanPreviewStore = create<PlanPreviewState>((set, get) => ({
+  planId: null,
+  changes: [],
+
+  showPreview: (planId, preview) => set({ planId, changes: preview.changes }),
+  clearPreview: (planId) => {
+    if (planId && get().planId !== planId) return;
+    set({ planId: null, changes: [] });
+  },
+}));
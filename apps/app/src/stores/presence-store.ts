@@ -0,0 +1,47 @@
+import { create } from "zustand";
+
+/** Visible part of the timeline, in microseconds */
+export interface TimelineViewport {
+  start: number;
+  end: number;
+}
+
+/** Another collaborator connected to the same space */
+export interface Presence {
+  clientId: string;
+  userId: string;
+  name: string;
+  image?: string | null;
+  color: string;
+  currentTime: number;
+  selection: string[];
+  viewport: TimelineViewport | null;
+  updatedAt: number;
+}
+
+interface PresenceState {
+  /** Remote collaborators by socket id; our own connection is never included */
+  peers: Record<string, Presence>;
+  /** Our own timeline viewport, reported by the timeline and shared with peers */
+  viewport: TimelineViewport | null;
+
+  setPeers: (peers: Presence[]) => void;
+  upsertPeer: (peer: Presence) => void;
+  removePeer: (clientId: string) => void;
+  setViewport: (viewport: TimelineViewport | null) => void;
+}
+
+export const usePresenceStore = create<PresenceState>((set) => ({
+  peers: {},
+  viewport: null,
+
+  setPeers: (peers) =>
+    set({ peers: Object.fromEntries(peers.map((peer) => [peer.clientId, peer])) }),
+  upsertPeer: (peer) => set((state) => ({ peers: { ...state.peers, [peer.clientId]: peer } })),
+  removePeer: (clientId) =>
+    set((state) => {
+      const { [clientId]: _removed, ...peers } = state.peers;
+      return { peers };
+    }),
+  setViewport: (viewport) => set({ viewport }),
+}));
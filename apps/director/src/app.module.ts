@@ -18,6 +18,7 @@ import { SpacesModule } from "./spaces/spaces.module";
 import { SpaceAssetsModule } from "./space-assets/space-assets.module";
 import { IndexingModule } from "./indexing/indexing.module";
 import { ChatModule } from "./chat/chat.module";
+import { RevisionsModule } from "./revisions/revisions.module";
 
 @Module({
   imports: [
@@ -42,6 +43,7 @@ import { ChatModule } from "./chat/chat.module";
     SpaceAssetsModule,
     IndexingModule,
     ChatModule,
+    RevisionsModule,
   ],
   controllers: [HealthController],
   providers: [],
@@ -1,4 +1,4 @@
-import { getDB, schema, eq, and, isNull, gt } from "@openvideo/db";
+import { getDB, schema, eq, and, isNull, gt, parseTokenList } from "@openvideo/db";
 const db = getDB();
 
 import { Injectable, Logger } from "@nestjs/common";
@@ -9,6 +9,7 @@ export interface CreateTokenDto {
   userId: string;
   name?: string;
   scopes?: string[];
+  spaceIds?: string[] | null;
   expiresAt?: Date;
 }
 
@@ -17,6 +18,7 @@ export interface TokenResponse {
   name: string | null;
   tokenHint: string;
   scopes: string[];
+  spaceIds: string[] | null;
   lastUsed: Date | null;
   expiresAt: Date | null;
   createdAt: Date;
@@ -30,6 +32,7 @@ export interface TokenValidationResult {
   valid: boolean;
   userId?: string;
   scopes?: string[];
+  spaceIds?: string[] | null;
   error?: string;
 }
 
@@ -65,6 +68,7 @@ export class ApiTokenService {
         userId: dto.userId,
         name: dto.name || null,
         scopes: dto.scopes ? dto.scopes.join(",") : "all",
+        spaceIds: dto.spaceIds?.length ? dto.spaceIds.join(",") : null,
         expiresAt: dto.expiresAt || null,
       })
       .returning({
@@ -72,6 +76,7 @@ export class ApiTokenService {
         name: schema.apiToken.name,
         tokenHint: schema.apiToken.tokenHint,
         scopes: schema.apiToken.scopes,
+        spaceIds: schema.apiToken.spaceIds,
         lastUsed: schema.apiToken.lastUsed,
         expiresAt: schema.apiToken.expiresAt,
         createdAt: schema.apiToken.createdAt,
@@ -81,7 +86,8 @@ export class ApiTokenService {
 
     return {
       ...row,
-      scopes: row.scopes ? row.scopes.split(",") : [],
+      scopes: parseTokenList(row.scopes),
+      spaceIds: row.spaceIds ? parseTokenList(row.spaceIds) : null,
       fullToken, // Only returned once!
     };
   }
@@ -123,7 +129,8 @@ export class ApiTokenService {
     return {
       valid: true,
       userId: record.userId,
-      scopes: record.scopes ? record.scopes.split(",") : [],
+      scopes: parseTokenList(record.scopes),
+      spaceIds: record.spaceIds ? parseTokenList(record.spaceIds) : null,
     };
   }
 
@@ -137,6 +144,7 @@ export class ApiTokenService {
         name: schema.apiToken.name,
         tokenHint: schema.apiToken.tokenHint,
         scopes: schema.apiToken.scopes,
+        spaceIds: schema.apiToken.spaceIds,
         lastUsed: schema.apiToken.lastUsed,
         expiresAt: schema.apiToken.expiresAt,
         createdAt: schema.apiToken.createdAt,
@@ -153,7 +161,8 @@ export class ApiTokenService {
 
     return rows.map((r) => ({
       ...r,
-      scopes: r.scopes ? r.scopes.split(",") : [],
+      scopes: parseTokenList(r.scopes),
+      spaceIds: r.spaceIds ? parseTokenList(r.spaceIds) : null,
     }));
   }
 
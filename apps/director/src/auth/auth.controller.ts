@@ -1,4 +1,4 @@
-import { getDB, schema, eq } from "@openvideo/db";
+import { getDB, schema, eq, API_SCOPES, getSpaceAccess } from "@openvideo/db";
 const db = getDB();
 
 import {
@@ -13,8 +13,11 @@ import {
   Req,
   UnauthorizedException,
   ConflictException,
+  BadRequestException,
+  ForbiddenException,
 } from "@nestjs/common";
 import { Public } from "./public.decorator";
+import { RequireScopes } from "./scopes.decorator";
 import { JwtService } from "@nestjs/jwt";
 import { nanoid } from "nanoid";
 import * as bcrypt from "bcrypt";
@@ -32,9 +35,20 @@ interface SignInDto {
   password: string;
 }
 
+/**
+ * Tokens are managed across spaces, so an API token restricted to particular
+ * spaces may not do it; otherwise it could mint itself an unrestricted one.
+ */
+function requireUnrestricted(ctx: RequestContext) {
+  if (ctx.spaceIds) {
+    throw new ForbiddenException("API token is restricted to particular spaces");
+  }
+}
+
 interface CreateTokenDto {
   name?: string;
   scopes?: string[];
+  spaceIds?: string[]; // Restrict the token to these spaces; omit for every space
   expiresInDays?: number; // 30, 60, 90, or null for never
 }
 
@@ -183,12 +197,14 @@ export class AuthController {
     // Get user info from JWT payload
     const user = req.user;
 
-    // Generate JWT for WebSocket connection
+    // Generate JWT for WebSocket connection, carrying over any API token grant
     const token = this.jwtService.sign({
       sub: ctx.userId,
       email: user?.email,
       name: user?.name,
       spaceId: body.spaceId,
+      scopes: ctx.scopes,
+      spaceIds: ctx.spaceIds,
     });
 
     return { token };
@@ -247,11 +263,13 @@ export class AuthController {
       throw new UnauthorizedException("User not found");
     }
 
-    // Generate JWT
+    // Generate JWT limited to the API token's scopes and spaces
     const token = this.jwtService.sign({
       sub: user.id,
       email: user.email,
       name: user.name,
+      scopes: validation.scopes,
+      spaceIds: validation.spaceIds,
     });
 
     return {
@@ -262,6 +280,7 @@ export class AuthController {
         name: user.name,
       },
       scopes: validation.scopes,
+      spaceIds: validation.spaceIds,
     };
   }
 
@@ -270,7 +289,21 @@ export class AuthController {
    * POST /auth/tokens
    */
   @Post("tokens")
+  @RequireScopes("all")
   async createToken(@Body() body: CreateTokenDto, @Ctx() ctx: RequestContext) {
+    requireUnrestricted(ctx);
+    const unknown = (body.scopes ?? []).filter(
+      (scope) => !(API_SCOPES as readonly string[]).includes(scope),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown scopes: ${unknown.join(", ")}`);
+    }
+    for (const spaceId of body.spaceIds ?? []) {
+      if (!(await getSpaceAccess(db, spaceId, ctx.userId))) {
+        throw new BadRequestException(`Space ${spaceId} not found`);
+      }
+    }
+
     // Calculate expiration
     let expiresAt: Date | undefined;
     if (body.expiresInDays) {
@@ -281,7 +314,8 @@ export class AuthController {
     const result = await this.apiTokenService.createToken({
       userId: ctx.userId,
       name: body.name,
-      scopes: body.scopes || ["all"],
+      scopes: body.scopes?.length ? body.scopes : ["all"],
+      spaceIds: body.spaceIds,
       expiresAt,
     });
 
@@ -291,6 +325,7 @@ export class AuthController {
       name: result.name,
       hint: result.tokenHint,
       scopes: result.scopes,
+      spaceIds: result.spaceIds,
       expiresAt: result.expiresAt,
       createdAt: result.createdAt,
     };
@@ -301,7 +336,9 @@ export class AuthController {
    * GET /auth/tokens
    */
   @Get("tokens")
+  @RequireScopes("all")
   async listTokens(@Ctx() ctx: RequestContext) {
+    requireUnrestricted(ctx);
     return this.apiTokenService.listTokens(ctx.userId);
   }
 
@@ -310,11 +347,13 @@ export class AuthController {
    * PATCH /auth/tokens/:id
    */
   @Patch("tokens/:id")
+  @RequireScopes("all")
   async updateToken(
     @Param("id") tokenId: string,
     @Body() body: { name: string },
     @Ctx() ctx: RequestContext,
   ) {
+    requireUnrestricted(ctx);
     await this.apiTokenService.updateToken(tokenId, ctx.userId, { name: body.name });
     return { status: "updated" };
   }
@@ -324,7 +363,9 @@ export class AuthController {
    * DELETE /auth/tokens/:id
    */
   @Delete("tokens/:id")
+  @RequireScopes("all")
   async deleteToken(@Param("id") tokenId: string, @Ctx() ctx: RequestContext) {
+    requireUnrestricted(ctx);
     await this.apiTokenService.deleteToken(tokenId, ctx.userId);
     return { status: "deleted", id: tokenId };
   }
@@ -7,6 +7,7 @@ import { JwtStrategy } from "./jwt.strategy";
 import { AuthController } from "./auth.controller";
 import { ApiTokenService } from "./api-token.service";
 import { JwtGuard } from "./jwt.guard";
+import { ScopesGuard } from "./scopes.guard";
 
 @Module({
   imports: [
@@ -28,6 +29,10 @@ import { JwtGuard } from "./jwt.guard";
       provide: APP_GUARD,
       useClass: JwtGuard,
     },
+    {
+      provide: APP_GUARD,
+      useClass: ScopesGuard,
+    },
   ],
   exports: [JwtModule, ApiTokenService, JwtGuard],
 })
@@ -42,11 +42,16 @@ export class JwtGuard extends AuthGuard("jwt") {
       const validation = await this.apiTokenService.validateToken(apiToken);
 
       if (validation.valid && validation.userId) {
-        req.user = { userId: validation.userId, scopes: validation.scopes };
+        req.user = {
+          userId: validation.userId,
+          scopes: validation.scopes,
+          spaceIds: validation.spaceIds,
+        };
         setRequestContext(req, {
           userId: validation.userId,
           authType: "api-token",
           scopes: validation.scopes,
+          spaceIds: validation.spaceIds,
         });
         return true;
       }
@@ -88,6 +93,7 @@ export class JwtGuard extends AuthGuard("jwt") {
       orgId: user.orgId,
       authType: "jwt",
       scopes: user.scopes,
+      spaceIds: user.spaceIds,
     });
 
     return user;
@@ -24,11 +24,14 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException();
     }
 
-    // JWT payload contains sub (userId), email, name from auth/token/exchange
+    // JWT payload contains sub (userId), email, name, and the API token's
+    // scopes and spaceIds when issued by auth/token/exchange
     return {
       userId: payload.sub,
       email: payload.email,
       name: payload.name,
+      scopes: payload.scopes,
+      spaceIds: payload.spaceIds,
     };
   }
 }
@@ -0,0 +1,5 @@
+import { SetMetadata } from "@nestjs/common";
+import type { ApiScope } from "@openvideo/db";
+
+export const SCOPES_KEY = "scopes";
+export const RequireScopes = (...scopes: ApiScope[]) => SetMetadata(SCOPES_KEY, scopes);
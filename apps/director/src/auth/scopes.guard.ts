@@ -0,0 +1,36 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { hasScope, type ApiScope } from "@openvideo/db";
+import { RequestContext } from "../common/request-context";
+import { SCOPES_KEY } from "./scopes.decorator";
+
+/**
+ * Enforces @RequireScopes on API token requests. Runs after JwtGuard has set
+ * the request context; JWT sessions without scopes pass every check.
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<ApiScope[]>(SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!required?.length) {
+      return true;
+    }
+
+    const req = context.switchToHttp().getRequest();
+    const ctx = req.requestContext as RequestContext | undefined;
+    if (!ctx?.scopes) {
+      return true;
+    }
+
+    const missing = required.filter((scope) => !hasScope(ctx.scopes!, scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`API token lacks the ${missing.join(", ")} scope`);
+    }
+    return true;
+  }
+}
@@ -1,11 +1,12 @@
 import { Module } from "@nestjs/common";
 import { BroadcastService } from "./broadcast.service";
 import { RedisPubSubService } from "./redis-pubsub.service";
+import { PresenceService } from "./presence.service";
 import { CoreModule } from "../core/core.module";
 
 @Module({
   imports: [CoreModule],
-  providers: [BroadcastService, RedisPubSubService],
-  exports: [BroadcastService],
+  providers: [BroadcastService, RedisPubSubService, PresenceService],
+  exports: [BroadcastService, RedisPubSubService, PresenceService],
 })
 export class BroadcastModule {}
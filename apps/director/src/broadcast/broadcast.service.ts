@@ -32,6 +32,23 @@ export class BroadcastService {
     }
   }
 
+  /**
+   * Emit a message only to room members connected to this instance. Used for
+   * messages that RedisPubSubService relays to the other instances itself.
+   */
+  broadcastLocal(projectId: string, message: WsServerMessage, exclude?: Socket): void {
+    if (!this.server) {
+      this.logger.warn("Socket.io server not yet initialised — cannot broadcast");
+      return;
+    }
+
+    if (exclude) {
+      exclude.to(projectId).local.emit("message", message);
+    } else {
+      this.server.local.to(projectId).emit("message", message);
+    }
+  }
+
   /**
    * Send a message directly to a single connected client.
    */
@@ -0,0 +1,64 @@
+import { Injectable } from "@nestjs/common";
+import type { Presence } from "../types/presence.types";
+
+const COLORS = [
+  "#f97316",
+  "#22c55e",
+  "#3b82f6",
+  "#a855f7",
+  "#ec4899",
+  "#eab308",
+  "#14b8a6",
+  "#ef4444",
+];
+
+/** Clients refresh their presence periodically; anything older belongs to a dead connection */
+const STALE_MS = 60_000;
+
+/**
+ * Who is in each space, across all director instances. Local sockets are
+ * added by the gateway, those on other instances by RedisPubSubService.
+ */
+@Injectable()
+export class PresenceService {
+  private spaces = new Map<string, Map<string, Presence>>();
+
+  /** A stable colour per user, so they look the same to everyone */
+  colorFor(userId: string): string {
+    let hash = 0;
+    for (let i = 0; i < userId.length; i++) {
+      hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+    }
+    return COLORS[Math.abs(hash) % COLORS.length];
+  }
+
+  update(spaceId: string, presence: Presence): void {
+    let space = this.spaces.get(spaceId);
+    if (!space) {
+      space = new Map();
+      this.spaces.set(spaceId, space);
+    }
+    space.set(presence.clientId, presence);
+  }
+
+  get(spaceId: string, clientId: string): Presence | undefined {
+    return this.spaces.get(spaceId)?.get(clientId);
+  }
+
+  remove(spaceId: string, clientId: string): void {
+    const space = this.spaces.get(spaceId);
+    if (!space) return;
+    space.delete(clientId);
+    if (space.size === 0) this.spaces.delete(spaceId);
+  }
+
+  list(spaceId: string): Presence[] {
+    const space = this.spaces.get(spaceId);
+    if (!space) return [];
+    const cutoff = Date.now() - STALE_MS;
+    for (const [clientId, presence] of space) {
+      if (presence.updatedAt < cutoff) space.delete(clientId);
+    }
+    return Array.from(space.values());
+  }
+}
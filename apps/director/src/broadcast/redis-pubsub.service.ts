@@ -2,19 +2,27 @@ import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from "@nestjs/commo
 import { ConfigService } from "@nestjs/config";
 import Redis from "ioredis";
 import { BroadcastService } from "./broadcast.service";
+import { PresenceService } from "./presence.service";
 import { CoreRegistryService } from "../core/core-registry.service";
 import { Command, loadClip } from "@openvideo/core";
 import { nanoid } from "nanoid";
+import type { WsServerMessage } from "../types/ws.types";
+
+/** Presence updates relayed between director instances */
+type PresenceMessage = Extract<WsServerMessage, { type: "presence" | "presence.leave" }>;
 
 @Injectable()
 export class RedisPubSubService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(RedisPubSubService.name);
   private subClient: Redis;
+  private pubClient: Redis;
+  private readonly instanceId = nanoid();
 
   constructor(
     private configService: ConfigService,
     private broadcastService: BroadcastService,
     private coreRegistry: CoreRegistryService,
+    private presenceService: PresenceService,
   ) {}
 
   async onModuleInit() {
@@ -22,11 +30,17 @@ export class RedisPubSubService implements OnModuleInit, OnModuleDestroy {
     if (!redisUrl) return;
 
     this.subClient = new Redis(redisUrl);
+    this.pubClient = new Redis(redisUrl);
 
-    // Subscribe to all project update channels
-    await this.subClient.psubscribe("project:updates:*");
+    // Subscribe to all project update and presence channels
+    await this.subClient.psubscribe("project:updates:*", "presence:*");
 
     this.subClient.on("pmessage", async (pattern, channel, message) => {
+      if (pattern === "presence:*") {
+        this.handlePresenceMessage(channel, message);
+        return;
+      }
+
       try {
         const projectId = channel.split(":").pop();
         if (!projectId) return;
@@ -50,6 +64,42 @@ export class RedisPubSubService implements OnModuleInit, OnModuleDestroy {
     this.logger.log("Redis Pub/Sub listener initialized");
   }
 
+  /**
+   * Share a presence change with the other director instances, which store
+   * it and emit it to their own sockets in the space.
+   */
+  async publishPresence(spaceId: string, message: PresenceMessage) {
+    if (!this.pubClient) return;
+    try {
+      await this.pubClient.publish(
+        `presence:${spaceId}`,
+        JSON.stringify({ instanceId: this.instanceId, message }),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to publish presence: ${error.message}`);
+    }
+  }
+
+  private handlePresenceMessage(channel: string, raw: string) {
+    try {
+      const spaceId = channel.split(":").pop();
+      const { instanceId, message } = JSON.parse(raw) as {
+        instanceId: string;
+        message: PresenceMessage;
+      };
+      if (!spaceId || instanceId === this.instanceId) return;
+
+      if (message.type === "presence") {
+        this.presenceService.update(spaceId, message.presence);
+      } else {
+        this.presenceService.remove(spaceId, message.clientId);
+      }
+      this.broadcastService.broadcastLocal(spaceId, message);
+    } catch (error) {
+      this.logger.error(`Failed to handle presence message: ${error.message}`);
+    }
+  }
+
   private async applyTaskResult(
     projectId: string,
     result: { imageUrl?: string; videoUrl?: string; prompt?: string },
@@ -107,5 +157,8 @@ export class RedisPubSubService implements OnModuleInit, OnModuleDestroy {
     if (this.subClient) {
       await this.subClient.quit();
     }
+    if (this.pubClient) {
+      await this.pubClient.quit();
+    }
   }
 }
@@ -1,4 +1,4 @@
-import { getDB, schema, eq, and } from "@openvideo/db";
+import { getDB, schema, eq, and, isNull } from "@openvideo/db";
 const db = getDB();
 
 import { Injectable, Logger, NotFoundException } from "@nestjs/common";
@@ -105,7 +105,7 @@ Provide a helpful, concise answer. Reference specific assets and timestamps when
   }
 
   private async verifySpaceAccess(spaceId: string, ctx: RequestContext): Promise<void> {
-    let where: any = eq(schema.space.id, spaceId);
+    let where: any = and(eq(schema.space.id, spaceId), isNull(schema.space.deletedAt));
     if (ctx.orgId) {
       where = and(where, eq(schema.space.orgId, ctx.orgId));
     } else {
@@ -13,6 +13,7 @@ export interface RequestContext {
   orgId?: string; // Optional: populated when multi-tenancy is enabled
   authType: "jwt" | "api-key" | "api-token" | "dev";
   scopes?: string[]; // Optional: for API key scoped access
+  spaceIds?: string[] | null; // Optional: spaces an API token is restricted to
 }
 
 /**
@@ -40,6 +41,7 @@ export const Ctx = createParamDecorator((data: unknown, ctx: ExecutionContext):
       orgId: user.orgId,
       authType: user.authType || "jwt",
       scopes: user.scopes,
+      spaceIds: user.spaceIds,
     };
   }
 
@@ -1,14 +1,45 @@
-import { getDB, schema, eq } from "@openvideo/db";
+import { getDB, schema, eq, and, desc, inArray } from "@openvideo/db";
 const db = getDB();
 
-import { Injectable, Logger } from "@nestjs/common";
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from "@nestjs/common";
+import { nanoid } from "nanoid";
 import { ServerCore } from "./server-core";
 import { IProject } from "@openvideo/core";
 
+/** How often loaded spaces with unsaved changes are written to the database */
+const PERSIST_INTERVAL_MS = 60_000;
+/** Minimum time between automatic revisions of a space */
+const AUTO_REVISION_INTERVAL_MS = 10 * 60_000;
+/** Automatic revisions kept per space; named, plan and restore revisions are never pruned */
+const AUTO_REVISION_LIMIT = 50;
+
+export type RevisionKind = "auto" | "plan" | "manual" | "restore";
+
+export interface SaveRevisionOptions {
+  kind: RevisionKind;
+  name?: string;
+  createdBy?: string;
+  restoredFrom?: string;
+}
+
 @Injectable()
-export class CoreRegistryService {
+export class CoreRegistryService implements OnModuleInit, OnModuleDestroy {
   private cores = new Map<string, ServerCore>();
   private readonly logger = new Logger(CoreRegistryService.name);
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  // Core revision last written to the database, and time of the last revision row, per space
+  private persistedRevision = new Map<string, number>();
+  private lastRevisionAt = new Map<string, number>();
+
+  onModuleInit() {
+    this.timer = setInterval(() => void this.persistDirty(), PERSIST_INTERVAL_MS);
+  }
+
+  async onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+    await this.persistDirty();
+  }
 
   async get(projectId: string): Promise<ServerCore> {
     if (this.cores.has(projectId)) {
@@ -47,6 +78,7 @@ export class CoreRegistryService {
 
     const core = new ServerCore(initialState || undefined);
     this.cores.set(projectId, core);
+    this.persistedRevision.set(projectId, core.revision);
 
     return core;
   }
@@ -65,14 +97,83 @@ export class CoreRegistryService {
       .set({ scene: snapshot, updatedAt: new Date() })
       .where(eq(schema.space.id, projectId));
 
+    this.persistedRevision.set(projectId, core.revision);
     this.logger.log(`Persisted space ${projectId} snapshot to database`);
   }
 
+  /**
+   * Persist the space and record its current scene as a revision that can be
+   * compared against or restored later.
+   */
+  async saveRevision(projectId: string, options: SaveRevisionOptions) {
+    const core = await this.get(projectId);
+    await this.persist(projectId);
+
+    const [row] = await db
+      .insert(schema.spaceRevision)
+      .values({
+        id: nanoid(),
+        spaceId: projectId,
+        kind: options.kind,
+        name: options.name ?? null,
+        scene: core.getSnapshot(),
+        createdBy: options.createdBy ?? null,
+        restoredFrom: options.restoredFrom ?? null,
+      })
+      .returning();
+    this.lastRevisionAt.set(projectId, Date.now());
+
+    if (options.kind === "auto") {
+      await this.pruneAutoRevisions(projectId);
+    }
+
+    this.logger.log(`Saved ${options.kind} revision ${row.id} of space ${projectId}`);
+    return row;
+  }
+
+  /** Write spaces changed since their last save, taking an automatic revision now and then */
+  private async persistDirty() {
+    for (const [projectId, core] of this.cores) {
+      if (core.revision === this.persistedRevision.get(projectId)) continue;
+      try {
+        const last = this.lastRevisionAt.get(projectId) ?? 0;
+        if (Date.now() - last >= AUTO_REVISION_INTERVAL_MS) {
+          await this.saveRevision(projectId, { kind: "auto" });
+        } else {
+          await this.persist(projectId);
+        }
+      } catch (error) {
+        this.logger.error(`Failed to persist space ${projectId}: ${error.message}`);
+      }
+    }
+  }
+
+  private async pruneAutoRevisions(projectId: string) {
+    const stale = await db
+      .select({ id: schema.spaceRevision.id })
+      .from(schema.spaceRevision)
+      .where(
+        and(eq(schema.spaceRevision.spaceId, projectId), eq(schema.spaceRevision.kind, "auto")),
+      )
+      .orderBy(desc(schema.spaceRevision.createdAt))
+      .offset(AUTO_REVISION_LIMIT);
+    if (stale.length === 0) return;
+
+    await db.delete(schema.spaceRevision).where(
+      inArray(
+        schema.spaceRevision.id,
+        stale.map((row) => row.id),
+      ),
+    );
+  }
+
   unload(projectId: string) {
     const core = this.cores.get(projectId);
     if (core) {
       core.destroy();
       this.cores.delete(projectId);
+      this.persistedRevision.delete(projectId);
+      this.lastRevisionAt.delete(projectId);
       this.logger.log(`Unloaded space ${projectId} from memory`);
     }
   }
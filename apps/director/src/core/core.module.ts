@@ -1,12 +1,13 @@
 import { Module, OnModuleInit } from "@nestjs/common";
 import { CoreRegistryService } from "./core-registry.service";
+import { PlanTransactionService } from "./plan-transaction.service";
 import { NodeMetadataProvider } from "./node-metadata-provider";
 import { CoreConfig } from "@openvideo/core";
 
 @Module({
   imports: [],
-  providers: [CoreRegistryService, NodeMetadataProvider],
-  exports: [CoreRegistryService],
+  providers: [CoreRegistryService, PlanTransactionService, NodeMetadataProvider],
+  exports: [CoreRegistryService, PlanTransactionService],
 })
 export class CoreModule implements OnModuleInit {
   constructor(private nodeMetadataProvider: NodeMetadataProvider) {}
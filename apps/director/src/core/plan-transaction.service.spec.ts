@@ -0,0 +1,90 @@
+import "reflect-metadata";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { AnyClip, IProject, Patch } from "@openvideo/core";
+import { PlanTransactionService } from "./plan-transaction.service";
+import { ServerCore } from "./server-core";
+
+/** A text clip named after its id */
+const clip = (id: string) =>
+  ({
+    id,
+    type: "Text",
+    name: id,
+    text: id,
+    timing: {
+      display: { from: 0, to: 1_000_000 },
+      trim: { from: 0, to: 1_000_000 },
+      duration: 1_000_000,
+      playbackRate: 1,
+    },
+  }) as unknown as AnyClip;
+
+const project = (): IProject =>
+  ({
+    settings: { width: 1920, height: 1080, fps: 30, duration: 1_000_000 },
+    tracks: [{ id: "t1", name: "Titles", type: "Text", clipIds: ["a", "b"] }],
+    clips: { a: clip("a"), b: clip("b") },
+  }) as IProject;
+
+describe("PlanTransactionService", () => {
+  let core: ServerCore;
+  const coreRegistry = { get: async () => core, saveRevision: vi.fn() };
+  const transactions = new PlanTransactionService(coreRegistry as any);
+
+  /** Rename clip `id` as one committed change and return its patches */
+  const rename = (id: string, name: string): Patch[] =>
+    core.commit(
+      [{ op: "update", path: `/clips/${id}/name`, value: name, oldValue: id }],
+      core.revision,
+      `Rename ${id}`,
+    );
+
+  /** What a generation step adds to the live project */
+  const addClip = (id: string): Patch[] => {
+    const added: Patch[] = [];
+    const unsubscribe = core.onPatch((change) => added.push(...change.patches));
+    core.execute({ id, type: "clip.add", payload: { clip: clip(id) } });
+    unsubscribe();
+    return added;
+  };
+
+  beforeEach(() => {
+    core = new ServerCore(project());
+    coreRegistry.saveRevision.mockClear();
+  });
+
+  it("should revert the plan and the clips of finished steps when a step fails", async () => {
+    transactions.begin("s1", "p1", "Add b-roll", rename("a", "Intro"), core.revision, ["g1", "g2"]);
+    await transactions.stepSucceeded("p1", "g1", addClip("generated"));
+
+    expect(await transactions.stepFailed("p1", "g2")).toBe("Add b-roll");
+    const { clips, tracks } = core.getSnapshot();
+    expect(clips.a.name).toBe("a");
+    expect(clips.generated).toBeUndefined();
+    expect(tracks.flatMap((track) => track.clipIds)).toEqual(["a", "b"]);
+    expect(coreRegistry.saveRevision).toHaveBeenCalledWith("s1", {
+      kind: "plan",
+      name: "Reverted: Add b-roll",
+    });
+  });
+
+  it("should keep edits made since the plan ran", async () => {
+    transactions.begin("s1", "p1", "Rename", rename("a", "Intro"), core.revision, ["g1"]);
+    rename("b", "Outro");
+
+    await transactions.stepFailed("p1", "g1");
+    expect(core.getSnapshot().clips.a.name).toBe("a");
+    expect(core.getSnapshot().clips.b.name).toBe("Outro");
+  });
+
+  it("should compensate a plan once, and not after its steps finished", async () => {
+    transactions.begin("s1", "p1", "Rename", rename("a", "Intro"), core.revision, ["g1", "g2"]);
+    expect(await transactions.stepFailed("p1", "g1")).toBe("Rename");
+    expect(await transactions.stepFailed("p1", "g2")).toBeNull();
+
+    transactions.begin("s1", "p2", "Rename", rename("b", "Outro"), core.revision, ["g1"]);
+    await transactions.stepSucceeded("p2", "g1");
+    expect(await transactions.stepFailed("p2", "g1")).toBeNull();
+    expect(core.getSnapshot().clips.b.name).toBe("Outro");
+  });
+});
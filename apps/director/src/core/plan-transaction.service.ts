@@ -0,0 +1,88 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { invertPatches } from "@openvideo/core";
+import type { Patch } from "@openvideo/core";
+import { CoreRegistryService } from "./core-registry.service";
+
+/** A committed plan whose generation steps are still running */
+interface PlanTransaction {
+  spaceId: string;
+  goal: string;
+  /** Everything the plan changed so far, in order */
+  patches: Patch[];
+  /** Core revision the patches were last extended at */
+  revision: number;
+  pending: Set<string>;
+}
+
+/**
+ * Tracks the generation steps of executed plans. The synchronous part of a
+ * plan is committed up front; when a generation step fails later, the whole
+ * plan is compensated by reverting what it changed, including clips added by
+ * generation steps that finished before.
+ */
+@Injectable()
+export class PlanTransactionService {
+  private readonly logger = new Logger(PlanTransactionService.name);
+  private transactions = new Map<string, PlanTransaction>();
+
+  constructor(private coreRegistry: CoreRegistryService) {}
+
+  /** Start tracking `stepIds` of a plan whose synchronous `patches` were committed */
+  begin(
+    spaceId: string,
+    planId: string,
+    goal: string,
+    patches: Patch[],
+    revision: number,
+    stepIds: string[],
+  ) {
+    if (stepIds.length === 0) return;
+    this.transactions.set(planId, {
+      spaceId,
+      goal,
+      patches: [...patches],
+      revision,
+      pending: new Set(stepIds),
+    });
+  }
+
+  /** A generation step finished; `patches` is what it added to the project */
+  async stepSucceeded(planId: string, stepId: string, patches: Patch[] = []) {
+    const transaction = this.transactions.get(planId);
+    if (!transaction?.pending.delete(stepId)) return;
+
+    if (patches.length > 0) {
+      const core = await this.coreRegistry.get(transaction.spaceId);
+      transaction.patches.push(...patches);
+      transaction.revision = core.revision;
+    }
+    if (transaction.pending.size === 0) {
+      this.transactions.delete(planId);
+    }
+  }
+
+  /**
+   * A generation step failed: revert the plan as one undoable change, keeping
+   * edits made since where they do not conflict. Returns the goal of the
+   * compensated plan, or null when it is not tracked (already compensated,
+   * finished, or executed before a restart).
+   */
+  async stepFailed(planId: string, stepId: string): Promise<string | null> {
+    const transaction = this.transactions.get(planId);
+    if (!transaction?.pending.has(stepId)) return null;
+    this.transactions.delete(planId);
+
+    this.logger.warn(`Step ${stepId} of plan ${planId} failed, reverting the plan`);
+    const core = await this.coreRegistry.get(transaction.spaceId);
+    core.commit(
+      invertPatches(transaction.patches),
+      transaction.revision,
+      `Revert ${transaction.goal}`,
+    );
+    await this.coreRegistry.saveRevision(transaction.spaceId, {
+      kind: "plan",
+      name: `Reverted: ${transaction.goal}`,
+    });
+    return transaction.goal;
+  }
+}
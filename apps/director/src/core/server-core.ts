@@ -1,17 +1,45 @@
-import { Core } from "@openvideo/core";
+import { Core, rebasePatches, nanoid } from "@openvideo/core";
 import type { IProject, Command, Patch } from "@openvideo/core";
 
+/** How many revisions are kept for reconnecting clients to catch up from */
+const LOG_SIZE = 1000;
+
+/** One change to the project, numbered in the order the server applied it */
+export interface Revision {
+  revision: number;
+  patches: Patch[];
+  /** Client that sent the patches; unset for server-side commands */
+  origin?: string;
+  /** Set when clients should record the patches as one undo step, named by it */
+  label?: string;
+}
+
 export class ServerCore {
   private engine: Core;
   private onPatchHandler: (patches: Patch[]) => void;
-  private patchHandlers: Set<(patches: Patch[]) => void> = new Set();
+  private patchHandlers: Set<(change: Revision) => void> = new Set();
+  private log: Revision[] = [];
+  private origin: string | undefined;
+  private label: string | undefined;
+
+  /** Identifies this in-memory copy; revisions restart from 0 when the space is reloaded */
+  readonly epoch = nanoid();
+  revision = 0;
 
   constructor(snapshot?: IProject) {
     this.engine = new Core(snapshot);
 
     // Core Engine emits 'change' with patches when execute/applyPatch is called
     this.onPatchHandler = (patches: Patch[]) => {
-      this.patchHandlers.forEach((handler) => handler(patches));
+      const change: Revision = {
+        revision: ++this.revision,
+        patches,
+        origin: this.origin,
+        label: this.label,
+      };
+      this.log.push(change);
+      if (this.log.length > LOG_SIZE) this.log.shift();
+      this.patchHandlers.forEach((handler) => handler(change));
     };
 
     this.engine.on("change", this.onPatchHandler);
@@ -29,6 +57,70 @@ export class ServerCore {
     this.engine.applyPatch(patches);
   }
 
+  /**
+   * Apply patches a client made at `baseRevision`, rebased over the changes
+   * applied since. Returns what was applied, which may be nothing when every
+   * patch lost to a concurrent delete or was already in place.
+   *
+   * Opening or closing a sequence only switches the sender's view, and the
+   * server stays on the root timeline, so such a batch is refused.
+   */
+  applyClientPatch(patches: Patch[], baseRevision: number, origin: string): Patch[] {
+    if (patches.some((patch) => patch.path === "/sequenceStack")) return [];
+    const rebased = this.rebase(patches, baseRevision);
+    if (rebased.length === 0) return rebased;
+
+    this.origin = origin;
+    try {
+      this.engine.applyPatch(rebased);
+    } finally {
+      this.origin = undefined;
+    }
+    return rebased;
+  }
+
+  /** Patches built at `baseRevision`, rebased over the changes applied since */
+  rebase(patches: Patch[], baseRevision: number): Patch[] {
+    return baseRevision >= this.revision
+      ? patches
+      : rebasePatches(this.engine.store.getState(), patches, "incoming");
+  }
+
+  /**
+   * Apply patches built at `baseRevision` as one history entry, rebased over
+   * the changes applied since, e.g. every edit of a plan at once. The revision
+   * carries `label` so clients can undo it in one step. Returns what was applied.
+   */
+  commit(patches: Patch[], baseRevision: number, label: string): Patch[] {
+    const rebased = this.rebase(patches, baseRevision);
+    if (rebased.length === 0) return rebased;
+
+    this.label = label;
+    try {
+      this.engine.record(rebased, {
+        id: nanoid(),
+        type: "batch",
+        payload: [],
+        meta: { source: "agent", timestamp: Date.now() },
+      });
+    } finally {
+      this.label = undefined;
+    }
+    return rebased;
+  }
+
+  /**
+   * Revisions after `revision`, or null when they are no longer in the log or
+   * `epoch` is from before the space was reloaded.
+   */
+  getRevisionsSince(epoch: string, revision: number): Revision[] | null {
+    if (epoch !== this.epoch || revision > this.revision) return null;
+    if (revision === this.revision) return [];
+    const first = this.log[0];
+    if (!first || first.revision > revision + 1) return null;
+    return this.log.filter((change) => change.revision > revision);
+  }
+
   reset(project: IProject) {
     this.engine.reset(project);
   }
@@ -37,7 +129,7 @@ export class ServerCore {
     return this.engine.store.getState().getSnapshot();
   }
 
-  onPatch(handler: (patches: Patch[]) => void): () => void {
+  onPatch(handler: (change: Revision) => void): () => void {
     this.patchHandlers.add(handler);
     return () => this.patchHandlers.delete(handler);
   }
@@ -46,8 +46,15 @@ export class DirectorService {
         message: summary,
       });
 
-      // Always execute immediately
-      await this.executor.executePlan(spaceId, plan);
+      // Plans that remove or rearrange existing work wait for the user, who
+      // first sees a dry run of what they would change
+      if (plan.requiresConfirmation) {
+        const preview = await this.executor.dryRun(spaceId, plan);
+        await this.gate.requestConfirmation(spaceId, sessionId, plan, preview);
+        return;
+      }
+
+      await this.executor.executePlan(spaceId, plan, userId);
     } catch (error: any) {
       this.logger.error(`Failed to handle user request`, error);
       this.broadcastService.broadcast(spaceId, {
@@ -59,14 +66,15 @@ export class DirectorService {
   }
 
   /**
-   * Handles user confirming a pending plan.
+   * Handles user confirming a pending plan, committing the dry run they saw.
    */
   async handlePlanConfirmation(spaceId: string, userId: string, planId: string): Promise<void> {
     const sessionId = await this.session.getOrCreateSession(spaceId, userId);
     const plan = await this.gate.consumePendingPlan(sessionId, planId);
 
     if (plan) {
-      await this.executor.executePlan(spaceId, plan);
+      const { preview, ...confirmed } = plan;
+      await this.executor.executePlan(spaceId, confirmed, userId, preview);
     } else {
       this.logger.warn(`Plan ${planId} not found or already consumed`);
     }
@@ -77,7 +85,11 @@ export class DirectorService {
    */
   async handlePlanRejection(spaceId: string, userId: string, planId: string): Promise<void> {
     const sessionId = await this.session.getOrCreateSession(spaceId, userId);
-    await this.gate.consumePendingPlan(sessionId, planId); // Just consume it and discard
+    const plan = await this.gate.consumePendingPlan(sessionId, planId); // Just consume it and discard
+    if (plan) {
+      // Lets editors drop the preview of the plan
+      this.broadcastService.broadcast(spaceId, { type: "plan.rejected", planId });
+    }
     this.logger.log(`Plan ${planId} rejected by user`);
   }
 }
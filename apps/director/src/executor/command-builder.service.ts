@@ -4,6 +4,7 @@ import { loadClip } from "@openvideo/core";
 import type { Command } from "@openvideo/core";
 import { SkillRegistryService } from "../skills/skill-registry.service";
 import { CoreRegistryService } from "../core/core-registry.service";
+import type { ServerCore } from "../core/server-core";
 
 @Injectable()
 export class CommandBuilderService {
@@ -14,12 +15,23 @@ export class CommandBuilderService {
     private coreRegistry: CoreRegistryService,
   ) {}
 
+  /** Whether resolving `step` calls an external service, e.g. to transcribe media */
+  hasSideEffects(step: PlanStep): boolean {
+    if (step.command || step.type !== "skill" || !step.skillName) return false;
+    return !!this.skillRegistry.resolve(step.skillName)?.sideEffects;
+  }
+
   /**
    * Resolves a plan step into a list of atomic commands.
    * If it's a skill step, it invokes the skill's resolve method.
    * If it's a command step, it returns the single command.
+   * Steps are resolved against `target` when given (a dry-run copy), else the live core.
    */
-  async buildCommandsForStep(spaceId: string, step: PlanStep): Promise<Command[]> {
+  async buildCommandsForStep(
+    spaceId: string,
+    step: PlanStep,
+    target?: ServerCore,
+  ): Promise<Command[]> {
     if (step.command) {
       this.logger.debug(`Processing command: ${JSON.stringify(step.command)}`);
 
@@ -30,7 +42,7 @@ export class CommandBuilderService {
 
         this.logger.debug(`clip.add detected. Number of clips to add: ${payloads.length}`);
 
-        const core = await this.coreRegistry.get(spaceId);
+        const core = target ?? (await this.coreRegistry.get(spaceId));
         const state = core.getSnapshot();
         const commands: Command[] = [];
 
@@ -85,7 +97,7 @@ export class CommandBuilderService {
       }
 
       // We need the space context
-      const core = await this.coreRegistry.get(spaceId);
+      const core = target ?? (await this.coreRegistry.get(spaceId));
       const snapshot = core.getSnapshot();
       const context = this.skillRegistry.buildContext(snapshot);
 
@@ -2,7 +2,7 @@ import { getDB, schema, eq, and } from "@openvideo/db";
 const db = getDB();
 
 import { Injectable, Logger } from "@nestjs/common";
-import { Plan } from "../types/plan.types";
+import { PendingPlan, Plan, PlanPreview } from "../types/plan.types";
 import { BroadcastService } from "../broadcast/broadcast.service";
 
 @Injectable()
@@ -11,31 +11,42 @@ export class ConfirmationGateService {
 
   constructor(private broadcastService: BroadcastService) {}
 
-  async requestConfirmation(projectId: string, sessionId: string, plan: Plan): Promise<void> {
+  /**
+   * Park the plan until the user confirms it. `preview` is what a dry run of
+   * the plan would change, shown in the editor before confirming; it is kept
+   * with the plan so confirming commits exactly that.
+   */
+  async requestConfirmation(
+    projectId: string,
+    sessionId: string,
+    plan: Plan,
+    preview?: PlanPreview,
+  ): Promise<void> {
     this.logger.log(`Requesting confirmation for plan ${plan.id} (Project ${projectId})`);
 
     await db
       .update(schema.directorSession)
-      .set({ pendingPlan: plan, updatedAt: new Date() })
+      .set({ pendingPlan: { ...plan, preview } satisfies PendingPlan, updatedAt: new Date() })
       .where(eq(schema.directorSession.id, sessionId));
 
     this.broadcastService.broadcast(projectId, {
       type: "plan.created",
       plan,
+      preview,
     });
   }
 
-  async getPendingPlan(sessionId: string): Promise<Plan | null> {
+  async getPendingPlan(sessionId: string): Promise<PendingPlan | null> {
     const [session] = await db
       .select()
       .from(schema.directorSession)
       .where(eq(schema.directorSession.id, sessionId))
       .limit(1);
 
-    return (session?.pendingPlan as Plan) || null;
+    return (session?.pendingPlan as PendingPlan) || null;
   }
 
-  async consumePendingPlan(sessionId: string, planId: string): Promise<Plan | null> {
+  async consumePendingPlan(sessionId: string, planId: string): Promise<PendingPlan | null> {
     const [session] = await db
       .select()
       .from(schema.directorSession)
@@ -44,7 +55,7 @@ export class ConfirmationGateService {
 
     if (!session?.pendingPlan) return null;
 
-    const plan = session.pendingPlan as Plan;
+    const plan = session.pendingPlan as PendingPlan;
     if (plan.id !== planId) return null;
 
     await db
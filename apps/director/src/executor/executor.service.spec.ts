@@ -0,0 +1,189 @@
+import "reflect-metadata";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { AnyClip, Command, IProject } from "@openvideo/core";
+import { ExecutorService } from "./executor.service";
+import { CommandBuilderService } from "./command-builder.service";
+import { ServerCore } from "../core/server-core";
+import type { Plan, PlanStep } from "../types/plan.types";
+
+const S = 1_000_000;
+
+/** A text clip shown from `from` to `to` seconds */
+function clip(id: string, from: number, to: number): AnyClip {
+  return {
+    id,
+    type: "Text",
+    name: id,
+    text: id,
+    timing: {
+      display: { from: from * S, to: to * S },
+      trim: { from: 0, to: (to - from) * S },
+      duration: (to - from) * S,
+      playbackRate: 1,
+    },
+  } as unknown as AnyClip;
+}
+
+const project = (): IProject =>
+  ({
+    settings: { width: 1920, height: 1080, fps: 30, duration: 60 * S },
+    tracks: [{ id: "t1", name: "Titles", type: "Text", clipIds: ["a", "b"] }],
+    clips: { a: clip("a", 0, 2), b: clip("b", 2, 4) },
+  }) as IProject;
+
+/** A step that renames clip `id` */
+const rename = (stepId: string, id: string, name: string): PlanStep => ({
+  id: stepId,
+  type: "command",
+  description: `Rename ${id}`,
+  command: { id: stepId, type: "clip.update", payload: { id, updates: { name } } },
+});
+
+const plan = (...steps: PlanStep[]): Plan => ({
+  id: "p1",
+  sessionId: "s1",
+  goal: "Tidy up",
+  steps,
+  requiresConfirmation: true,
+  estimatedSteps: steps.length,
+});
+
+describe("ExecutorService plans", () => {
+  let core: ServerCore;
+  const transcribe = {
+    name: "transcribe",
+    sideEffects: true,
+    resolve: vi.fn((): Command[] => [
+      { id: "c", type: "clip.update", payload: { id: "b", updates: { text: "Hello" } } },
+    ]),
+  };
+  const coreRegistry = { get: async () => core, saveRevision: vi.fn() };
+  const skillRegistry = {
+    resolve: (name: string) => (name === "transcribe" ? transcribe : undefined),
+    buildContext: (snapshot: IProject) => ({ project: snapshot }),
+  };
+  const executor = new ExecutorService(
+    coreRegistry as any,
+    { begin: vi.fn() } as any,
+    new CommandBuilderService(skillRegistry as any, coreRegistry as any),
+    { broadcast: vi.fn() } as any,
+    {} as any,
+    {} as any,
+  );
+
+  beforeEach(() => {
+    core = new ServerCore(project());
+    transcribe.resolve.mockClear();
+  });
+
+  it("should preview a plan without changing the project", async () => {
+    const preview = await executor.dryRun("s1", plan(rename("1", "a", "Intro")));
+
+    expect(preview.changes).toEqual([
+      expect.objectContaining({
+        kind: "changed",
+        clipId: "a",
+        properties: expect.arrayContaining(["name"]),
+      }),
+    ]);
+    expect(preview).toMatchObject({ baseRevision: 0, epoch: core.epoch, deferred: [] });
+    expect(core.getSnapshot().clips.a.name).toBe("a");
+    expect(core.revision).toBe(0);
+  });
+
+  it("should defer a skill that calls external services, and the steps after it, to confirm", async () => {
+    const steps = [
+      rename("1", "a", "Intro"),
+      { id: "2", type: "skill", description: "Caption b", skillName: "transcribe" } as PlanStep,
+      rename("3", "b", "Outro"),
+    ];
+    const preview = await executor.dryRun("s1", plan(...steps));
+
+    expect(transcribe.resolve).not.toHaveBeenCalled();
+    expect(preview.changes.map((change) => change.clipId)).toEqual(["a"]);
+    expect(preview.deferred).toEqual([
+      { stepId: "2", description: "Caption b" },
+      { stepId: "3", description: "Rename b" },
+    ]);
+
+    await executor.executePlan("s1", plan(...steps), "u1", preview);
+    expect(transcribe.resolve).toHaveBeenCalledTimes(1);
+    expect(core.getSnapshot().clips.a.name).toBe("Intro");
+    expect(core.getSnapshot().clips.b).toMatchObject({ name: "Outro", text: "Hello" });
+    // Previewed and deferred steps are committed as one change
+    expect(core.revision).toBe(1);
+  });
+
+  it("should commit a confirmed plan over edits made after the space was reloaded", async () => {
+    const steps = [rename("1", "a", "Intro")];
+    const preview = await executor.dryRun("s1", plan(...steps));
+
+    // The space is reloaded, so revisions restart, and someone edits it
+    core = new ServerCore(project());
+    core.execute({ id: "x", type: "clip.update", payload: { id: "b", updates: { name: "B" } } });
+    expect(core.epoch).not.toBe(preview.epoch);
+
+    await executor.executePlan("s1", plan(...steps), "u1", preview);
+    expect(core.getSnapshot().clips.a.name).toBe("Intro");
+    expect(core.getSnapshot().clips.b.name).toBe("B");
+    expect(coreRegistry.saveRevision).toHaveBeenCalledWith("s1", {
+      kind: "plan",
+      name: "Tidy up",
+      createdBy: "u1",
+    });
+  });
+});
+
+describe("ExecutorService generation", () => {
+  let core: ServerCore;
+  const planTransactions = { begin: vi.fn(), stepSucceeded: vi.fn(), stepFailed: vi.fn() };
+  const triggerService = { generateImage: vi.fn() };
+  const executor = new ExecutorService(
+    { get: async () => core, saveRevision: vi.fn() } as any,
+    planTransactions as any,
+    {} as any,
+    { broadcast: vi.fn() } as any,
+    triggerService as any,
+    {} as any,
+  );
+  const generate = plan({
+    id: "g1",
+    type: "generate",
+    description: "Generate a sunset",
+    jobType: "generate-image",
+    jobParams: { prompt: "Sunset" },
+  });
+
+  beforeEach(() => {
+    core = new ServerCore(project());
+    vi.clearAllMocks();
+  });
+
+  it("should add the generated media and record its patches for compensation", async () => {
+    triggerService.generateImage.mockResolvedValue({
+      success: true,
+      image_url: "https://example.com/sunset.png",
+      prompt: "Sunset",
+    });
+    await executor.executePlan("s1", generate, "u1");
+
+    await vi.waitFor(() => expect(planTransactions.stepSucceeded).toHaveBeenCalled());
+    const [planId, stepId, patches] = planTransactions.stepSucceeded.mock.calls[0];
+    expect([planId, stepId]).toEqual(["p1", "g1"]);
+
+    const added = Object.values(core.getSnapshot().clips).find((c) => c.name === "Sunset");
+    expect(added).toMatchObject({ type: "Image", src: "https://example.com/sunset.png" });
+    expect(patches).toContainEqual(
+      expect.objectContaining({ op: "add", path: `/clips/${added!.id}` }),
+    );
+  });
+
+  it("should fail the step when the generator reports an error", async () => {
+    triggerService.generateImage.mockResolvedValue({ success: false, error: "Quota exceeded" });
+    await executor.executePlan("s1", generate, "u1");
+
+    await vi.waitFor(() => expect(planTransactions.stepFailed).toHaveBeenCalledWith("p1", "g1"));
+    expect(planTransactions.stepSucceeded).not.toHaveBeenCalled();
+    expect(Object.keys(core.getSnapshot().clips)).toEqual(["a", "b"]);
+  });
+});
@@ -1,18 +1,34 @@
 import { Injectable, Logger, Inject, forwardRef } from "@nestjs/common";
-import { Plan } from "../types/plan.types";
+import { diffProjects, loadClip, type Patch } from "@openvideo/core";
+import { nanoid } from "nanoid";
+import { Plan, PlanPreview, PlanStep } from "../types/plan.types";
 import { CoreRegistryService } from "../core/core-registry.service";
+import { PlanTransactionService } from "../core/plan-transaction.service";
+import { ServerCore } from "../core/server-core";
+import { describeChanges } from "./plan-preview";
 import { CommandBuilderService } from "./command-builder.service";
 import { BroadcastService } from "../broadcast/broadcast.service";
 import { InjectQueue } from "@nestjs/bullmq";
 import { Queue } from "bullmq";
 import { TriggerService } from "../trigger/trigger.service";
 
+/** What the media generator returns for a generation step */
+interface GenerationResult {
+  success: boolean;
+  error?: string;
+  prompt?: string;
+  image_url?: string;
+  video_url?: string;
+  audio_url?: string;
+}
+
 @Injectable()
 export class ExecutorService {
   private readonly logger = new Logger(ExecutorService.name);
 
   constructor(
     private coreRegistry: CoreRegistryService,
+    private planTransactions: PlanTransactionService,
     private commandBuilder: CommandBuilderService,
     private broadcastService: BroadcastService,
     private triggerService: TriggerService,
@@ -20,15 +36,155 @@ export class ExecutorService {
   ) {}
 
   /**
-   * Executes a plan step by step.
+   * Runs a plan's synchronous steps against a copy of the project and reports
+   * what they would change. The live project is not touched and nothing is
+   * broadcast; generation steps are only listed. Confirming the plan commits
+   * exactly these patches, so skills run only once. Skills that call external
+   * services are not run before the user agrees: they and the steps after
+   * them are listed as deferred and run on confirm.
+   */
+  async dryRun(spaceId: string, plan: Plan): Promise<PlanPreview> {
+    const core = await this.coreRegistry.get(spaceId);
+    const baseRevision = core.revision;
+    const before = core.getSnapshot();
+    const copy = new ServerCore(before);
+
+    const pending: string[] = [];
+    const deferred: PlanPreview["deferred"] = [];
+    let error: string | undefined;
+    try {
+      for (const step of plan.steps) {
+        if (step.type === "generate") {
+          pending.push(step.description);
+          continue;
+        }
+        if (deferred.length > 0 || this.commandBuilder.hasSideEffects(step)) {
+          deferred.push({ stepId: step.id, description: step.description });
+          continue;
+        }
+        const commands = await this.commandBuilder.buildCommandsForStep(spaceId, step, copy);
+        if (commands.length > 0) {
+          copy.batch(commands);
+        }
+      }
+    } catch (err: any) {
+      this.logger.warn(`Dry run of plan ${plan.id} stopped: ${err.message}`);
+      error = err.message;
+    }
+
+    const after = copy.getSnapshot();
+    copy.destroy();
+    return {
+      patches: diffProjects(before, after),
+      baseRevision,
+      epoch: core.epoch,
+      changes: describeChanges(before, after),
+      pending,
+      deferred,
+      error,
+    };
+  }
+
+  /**
+   * Executes a plan as one transaction. Synchronous steps run against a copy
+   * of the project and are committed together as a single undoable change, so
+   * a failing step leaves the project as it was. Generation jobs are only
+   * dispatched after the commit and tracked; if one fails later the plan is
+   * reverted. What is committed is the change to the root timeline, so steps
+   * may open and close sequences on the copy. The result is saved as a
+   * revision attributed to `userId`, the user who asked for the plan.
+   *
+   * A confirmed plan passes the `preview` its user saw: its patches are
+   * committed as they are, rebased over edits made since, and the steps are
+   * not run again; only the ones it deferred run, on top of its patches.
    */
-  async executePlan(spaceId: string, plan: Plan): Promise<void> {
+  async executePlan(
+    spaceId: string,
+    plan: Plan,
+    userId?: string,
+    preview?: PlanPreview,
+  ): Promise<void> {
     this.logger.log(`Executing plan ${plan.id} for space ${spaceId}`);
 
     const core = await this.coreRegistry.get(spaceId);
-    let hasError = false;
+    const generateSteps = plan.steps.filter((step) => step.type === "generate");
+    const syncSteps = plan.steps.filter((step) => step.type !== "generate");
+
+    // 1. Run synchronous steps (commands, synchronous skills) against a copy,
+    // unless the dry run already did
+    const result = preview
+      ? await this.fromPreview(spaceId, plan, preview, core)
+      : await this.runSyncSteps(spaceId, plan, syncSteps, core);
+    if (!result) return;
+
+    // 2. Commit every change at once, rebased over edits made while the steps ran
+    const committed = core.commit(result.patches, result.baseRevision, plan.goal);
+    for (const step of syncSteps) {
+      this.broadcastService.broadcast(spaceId, {
+        type: "plan.step",
+        stepId: step.id,
+        status: "done",
+        description: step.description,
+      });
+    }
+
+    // 3. Dispatch async generation jobs, reverting the plan if one fails
+    this.planTransactions.begin(
+      spaceId,
+      plan.id,
+      plan.goal,
+      committed,
+      core.revision,
+      generateSteps.map((step) => step.id),
+    );
+    for (const step of generateSteps) {
+      this.broadcastService.broadcast(spaceId, {
+        type: "plan.step",
+        stepId: step.id,
+        status: "done",
+        description: `${step.description} (queued — generating in background)`,
+      });
+      this.dispatchGeneration(spaceId, plan, step).catch((error) =>
+        this.handleGenerationFailure(spaceId, plan.id, step.id, error),
+      );
+    }
+
+    // Persist snapshot as a revision the user can roll back from
+    if (committed.length > 0) {
+      await this.coreRegistry.saveRevision(spaceId, {
+        kind: "plan",
+        name: plan.goal,
+        createdBy: userId,
+      });
+    }
 
-    for (const step of plan.steps) {
+    this.broadcastService.broadcast(spaceId, {
+      type: "plan.complete",
+      planId: plan.id,
+    });
+  }
+
+  /**
+   * Runs `steps` against a copy of the project and returns the change to
+   * commit, or null after reporting the step that failed. `applied` patches,
+   * already worked out by a dry run, go on the copy first.
+   */
+  private async runSyncSteps(
+    spaceId: string,
+    plan: Plan,
+    steps: PlanStep[],
+    core: ServerCore,
+    applied: Patch[] = [],
+  ): Promise<{ patches: Patch[]; baseRevision: number } | null> {
+    const baseRevision = core.revision;
+    const before = core.getSnapshot();
+    // Patches set nested values in place, so a patched copy must not share them with `before`
+    const copy = new ServerCore(applied.length > 0 ? structuredClone(before) : before);
+    if (applied.length > 0) {
+      copy.applyPatch(applied);
+    }
+
+    for (const step of steps) {
       this.broadcastService.broadcast(spaceId, {
         type: "plan.step",
         stepId: step.id,
@@ -37,86 +193,173 @@ export class ExecutorService {
       });
 
       try {
-        // 2. Synchronous execution (commands, synchronous skills)
-        const commands = await this.commandBuilder.buildCommandsForStep(spaceId, step);
+        const commands = await this.commandBuilder.buildCommandsForStep(spaceId, step, copy);
         if (commands.length > 0) {
-          core.batch(commands);
-        }
-
-        // 3. Dispatch async generation jobs
-        if (step.type === "generate") {
-          if (step.jobType === "generate-audio") {
-            await this.generateAudioQueue.add("generate", {
-              spaceId,
-              planId: plan.id,
-              stepId: step.id,
-              params: step.jobParams,
-            });
-          } else if (step.jobType === "generate-image") {
-            await this.triggerService.generateImage(
-              spaceId,
-              step.id,
-              step.jobParams?.prompt || step.description,
-            );
-          } else if (step.jobType === "generate-video") {
-            await this.triggerService.generateVideo(
-              spaceId,
-              step.id,
-              step.jobParams?.imageUrl,
-              step.jobParams?.prompt || step.description,
-            );
-          } else if (
-            step.jobType === "generate-background-music" ||
-            step.jobType === "generate-sound-effect"
-          ) {
-            await this.triggerService.generateElevenLabsAudio(
-              spaceId,
-              step.id,
-              step.jobParams?.prompt || step.description,
-              step.jobParams?.durationSeconds ?? 30,
-              step.jobType === "generate-background-music" ? "background-music" : "sound-effect",
-            );
-          }
+          copy.batch(commands);
         }
-
-        // Mark step as done in UI (generate steps show queued, others show completed)
-        this.broadcastService.broadcast(spaceId, {
-          type: "plan.step",
-          stepId: step.id,
-          status: "done",
-          description:
-            step.type === "generate"
-              ? `${step.description} (queued — generating in background)`
-              : step.description,
-        });
       } catch (error: any) {
-        this.logger.error(`Failed to execute step ${step.id}`, error);
-        this.broadcastService.broadcast(spaceId, {
-          type: "plan.step",
-          stepId: step.id,
-          status: "error",
-          description: `Failed: ${error.message}`,
-        });
-        hasError = true;
-        // Stop execution on error
-        break;
+        this.logger.error(`Failed to execute step ${step.id}, plan ${plan.id} not applied`, error);
+        copy.destroy();
+        this.abortPlan(spaceId, plan, step.id, error.message);
+        return null;
       }
     }
 
-    // Persist snapshot after synchronous steps
-    await this.coreRegistry.persist(spaceId);
+    const patches = diffProjects(before, copy.getSnapshot());
+    copy.destroy();
+    return { patches, baseRevision };
+  }
+
+  /**
+   * The change a dry run worked out, with the steps it deferred run on top,
+   * or null after reporting that it failed. Revisions restart when the space
+   * is reloaded, so a preview from before that is rebased in full.
+   */
+  private async fromPreview(
+    spaceId: string,
+    plan: Plan,
+    preview: PlanPreview,
+    core: ServerCore,
+  ): Promise<{ patches: Patch[]; baseRevision: number } | null> {
+    if (preview.error) {
+      this.logger.warn(`Plan ${plan.id} not applied, its dry run failed: ${preview.error}`);
+      this.abortPlan(spaceId, plan, undefined, preview.error);
+      return null;
+    }
+    const baseRevision = preview.epoch === core.epoch ? preview.baseRevision : -1;
+    if (preview.deferred.length === 0) {
+      return { patches: preview.patches, baseRevision };
+    }
+    const deferred = new Set(preview.deferred.map((step) => step.stepId));
+    return this.runSyncSteps(
+      spaceId,
+      plan,
+      plan.steps.filter((step) => deferred.has(step.id)),
+      core,
+      core.rebase(preview.patches, baseRevision),
+    );
+  }
 
-    // Send completion summary to chat
-    if (hasError) {
+  /** Tell the space a plan failed at `stepId` and nothing was changed */
+  private abortPlan(spaceId: string, plan: Plan, stepId: string | undefined, message: string) {
+    if (stepId) {
       this.broadcastService.broadcast(spaceId, {
-        type: "chat.response",
-        message: `❌ I encountered an error while executing the plan.`,
+        type: "plan.step",
+        stepId,
+        status: "error",
+        description: `Failed: ${message}`,
+      });
+    }
+    this.broadcastService.broadcast(spaceId, {
+      type: "chat.response",
+      message: `❌ I encountered an error while executing the plan, so nothing was changed.`,
+    });
+    this.broadcastService.broadcast(spaceId, { type: "plan.complete", planId: plan.id });
+  }
+
+  /**
+   * Starts a generation job. Queued jobs report back from their worker;
+   * remote ones add their result to the project when the returned promise settles.
+   */
+  private async dispatchGeneration(spaceId: string, plan: Plan, step: PlanStep): Promise<void> {
+    if (step.jobType === "generate-audio") {
+      await this.generateAudioQueue.add("generate", {
+        projectId: spaceId,
+        planId: plan.id,
+        stepId: step.id,
+        params: step.jobParams,
+      });
+      return;
+    }
+
+    let result: GenerationResult | undefined;
+    if (step.jobType === "generate-image") {
+      result = await this.triggerService.generateImage(
+        spaceId,
+        step.id,
+        step.jobParams?.prompt || step.description,
+      );
+    } else if (step.jobType === "generate-video") {
+      result = await this.triggerService.generateVideo(
+        spaceId,
+        step.id,
+        step.jobParams?.imageUrl,
+        step.jobParams?.prompt || step.description,
+      );
+    } else if (
+      step.jobType === "generate-background-music" ||
+      step.jobType === "generate-sound-effect"
+    ) {
+      result = await this.triggerService.generateElevenLabsAudio(
+        spaceId,
+        step.id,
+        step.jobParams?.prompt || step.description,
+        step.jobParams?.durationSeconds ?? 30,
+        step.jobType === "generate-background-music" ? "background-music" : "sound-effect",
+      );
+    }
+    const added = result ? await this.addGeneratedClip(spaceId, result) : [];
+    await this.planTransactions.stepSucceeded(plan.id, step.id, added);
+  }
+
+  /**
+   * Adds the media a remote generation returned as a clip and returns the
+   * patches that added it, so the plan can be reverted if a sibling step fails.
+   */
+  private async addGeneratedClip(spaceId: string, result: GenerationResult): Promise<Patch[]> {
+    if (!result.success) {
+      throw new Error(result.error || "Generation failed");
+    }
+    const src = result.video_url || result.image_url || result.audio_url;
+    if (!src) return [];
+    const type = result.video_url ? "Video" : result.image_url ? "Image" : "Audio";
+
+    const core = await this.coreRegistry.get(spaceId);
+    const { width, height } = core.getSnapshot().settings;
+    const clip = await loadClip(
+      { type, name: result.prompt || `Generated ${type}`, src },
+      { canvasSize: { width, height }, objectFit: type === "Audio" ? undefined : "contain" },
+    );
+
+    const added: Patch[] = [];
+    const unsubscribe = core.onPatch((change) => added.push(...change.patches));
+    try {
+      core.execute({
+        id: nanoid(),
+        type: "clip.add",
+        payload: { clip },
+        meta: { source: "agent" },
       });
+    } finally {
+      unsubscribe();
     }
+    return added;
+  }
 
+  private async handleGenerationFailure(
+    spaceId: string,
+    planId: string,
+    stepId: string,
+    error: any,
+  ) {
+    this.logger.error(`Generation step ${stepId} of plan ${planId} failed`, error);
     this.broadcastService.broadcast(spaceId, {
-      type: "plan.complete",
-      planId: plan.id,
+      type: "plan.step",
+      stepId,
+      status: "error",
+      description: `Failed: ${error.message}`,
     });
+
+    try {
+      const goal = await this.planTransactions.stepFailed(planId, stepId);
+      if (goal) {
+        this.broadcastService.broadcast(spaceId, {
+          type: "chat.response",
+          message: `❌ Generation failed, so I reverted the changes for "${goal}".`,
+        });
+      }
+    } catch (revertError: any) {
+      this.logger.error(`Failed to revert plan ${planId}`, revertError);
+    }
   }
 }
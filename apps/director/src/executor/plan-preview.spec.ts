@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import type { AnyClip, IProject } from "@openvideo/core";
+import { describeChanges } from "./plan-preview";
+
+const S = 1_000_000;
+
+/** A text clip shown from `from` to `to` seconds */
+function clip(id: string, from: number, to: number, extra: Record<string, unknown> = {}): AnyClip {
+  return {
+    id,
+    type: "Text",
+    name: id.toUpperCase(),
+    text: id,
+    transform: { x: 10, y: 20, width: 300, height: 80, angle: 0 },
+    timing: {
+      display: { from: from * S, to: to * S },
+      trim: { from: 0, to: (to - from) * S },
+      duration: (to - from) * S,
+      playbackRate: 1,
+    },
+    ...extra,
+  } as unknown as AnyClip;
+}
+
+/** A project with `clips` on one track, in order */
+function project(...clips: AnyClip[]): IProject {
+  return {
+    settings: { width: 1920, height: 1080, fps: 30, duration: 60 * S },
+    tracks: [{ id: "t1", name: "Titles", type: "Text", clipIds: clips.map((c) => c.id) }],
+    clips: Object.fromEntries(clips.map((c) => [c.id, c])),
+  } as IProject;
+}
+
+describe("describeChanges", () => {
+  it("should describe added and removed clips with their frames", () => {
+    const changes = describeChanges(project(clip("a", 0, 2)), project(clip("b", 2, 4)));
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        kind: "added",
+        clipId: "b",
+        description: 'Add text "B" at 2.0s on Titles',
+        before: null,
+        after: expect.objectContaining({ from: 2 * S, to: 4 * S, trackId: "t1" }),
+      }),
+      expect.objectContaining({
+        kind: "removed",
+        clipId: "a",
+        description: 'Remove "A"',
+        before: expect.objectContaining({ x: 10, y: 20, from: 0, to: 2 * S }),
+        after: null,
+      }),
+    ]);
+  });
+
+  it("should tell moves from trims by whether the duration changed", () => {
+    const before = project(clip("a", 0, 2), clip("b", 2, 4));
+    const after = project(clip("a", 3, 5), clip("b", 2, 3));
+
+    const [moved, trimmed] = describeChanges(before, after);
+    expect(moved).toMatchObject({ kind: "moved", description: 'Move "A" to 3.0s' });
+    expect(trimmed).toMatchObject({
+      kind: "trimmed",
+      description: 'Trim "B" from 2.0s to 1.0s',
+      properties: ["timing"],
+    });
+  });
+
+  it("should report a move to another track", () => {
+    const before = project(clip("a", 0, 2));
+    const after: IProject = {
+      ...before,
+      tracks: [
+        { id: "t1", name: "Titles", type: "Text", clipIds: [] },
+        { id: "t2", name: "Lower thirds", type: "Text", clipIds: ["a"] },
+      ],
+    } as IProject;
+
+    const [change] = describeChanges(before, after);
+    expect(change).toMatchObject({
+      kind: "moved",
+      description: 'Move "A" to 0.0s on Lower thirds',
+      properties: [],
+    });
+    expect(change.after?.trackId).toBe("t2");
+  });
+
+  it("should list the properties of other edits and skip unchanged clips", () => {
+    const before = project(clip("a", 0, 2), clip("b", 2, 4));
+    const after = project(clip("a", 0, 2, { text: "Hello" }), clip("b", 2, 4));
+
+    expect(describeChanges(before, after)).toEqual([
+      expect.objectContaining({
+        kind: "changed",
+        clipId: "a",
+        description: 'Change text of "A"',
+        properties: ["text"],
+      }),
+    ]);
+  });
+});
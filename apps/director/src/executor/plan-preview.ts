@@ -0,0 +1,99 @@
+import type { IProject, AnyClip } from "@openvideo/core";
+import type { ClipFrame, PlanChange } from "../types/plan.types";
+
+// Values come from the same store, so key order is stable enough for JSON comparison
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const formatSeconds = (us: number) => `${(us / 1_000_000).toFixed(1)}s`;
+
+function trackOf(project: IProject, clipId: string) {
+  return project.tracks.find((track) => track.clipIds.includes(clipId)) ?? null;
+}
+
+function frameOf(project: IProject, clip: AnyClip): ClipFrame {
+  const display = clip.timing?.display ?? clip.display ?? { from: 0, to: 0 };
+  return {
+    x: clip.transform?.x ?? 0,
+    y: clip.transform?.y ?? 0,
+    width: clip.transform?.width ?? 0,
+    height: clip.transform?.height ?? 0,
+    angle: clip.transform?.angle ?? 0,
+    from: display.from,
+    to: display.to,
+    trackId: trackOf(project, clip.id)?.id ?? null,
+  };
+}
+
+/**
+ * Describe, clip by clip, how `after` differs from `before`: what was added
+ * or removed, moved in time or to another track, trimmed, or otherwise edited.
+ */
+export function describeChanges(before: IProject, after: IProject): PlanChange[] {
+  const changes: PlanChange[] = [];
+
+  for (const [id, clip] of Object.entries(after.clips)) {
+    const previous = before.clips[id];
+    const frame = frameOf(after, clip);
+
+    if (!previous) {
+      const track = trackOf(after, id);
+      changes.push({
+        kind: "added",
+        clipId: id,
+        clipName: clip.name || clip.type,
+        description: `Add ${clip.type.toLowerCase()} "${clip.name || id}" at ${formatSeconds(frame.from)}${track ? ` on ${track.name}` : ""}`,
+        properties: [],
+        before: null,
+        after: frame,
+      });
+      continue;
+    }
+
+    const properties = Object.keys({ ...previous, ...clip }).filter(
+      (key) => !same(previous[key], clip[key]),
+    );
+    const trackMoved = trackOf(before, id)?.id !== trackOf(after, id)?.id;
+    if (properties.length === 0 && !trackMoved) continue;
+
+    const prevFrame = frameOf(before, previous);
+    const name = clip.name || id;
+    let kind: PlanChange["kind"] = "changed";
+    let description = `Change ${properties.join(", ")} of "${name}"`;
+
+    const duration = frame.to - frame.from;
+    const prevDuration = prevFrame.to - prevFrame.from;
+    if (trackMoved || (frame.from !== prevFrame.from && duration === prevDuration)) {
+      kind = "moved";
+      const track = trackOf(after, id);
+      description = `Move "${name}" to ${formatSeconds(frame.from)}${trackMoved && track ? ` on ${track.name}` : ""}`;
+    } else if (duration !== prevDuration) {
+      kind = "trimmed";
+      description = `Trim "${name}" from ${formatSeconds(prevDuration)} to ${formatSeconds(duration)}`;
+    }
+
+    changes.push({
+      kind,
+      clipId: id,
+      clipName: name,
+      description,
+      properties,
+      before: prevFrame,
+      after: frame,
+    });
+  }
+
+  for (const [id, clip] of Object.entries(before.clips)) {
+    if (after.clips[id]) continue;
+    changes.push({
+      kind: "removed",
+      clipId: id,
+      clipName: clip.name || clip.type,
+      description: `Remove "${clip.name || id}"`,
+      properties: [],
+      before: frameOf(before, clip),
+      after: null,
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,95 @@
+import "reflect-metadata";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Socket } from "socket.io";
+import type { Patch } from "@openvideo/core";
+import { getSpaceAccess } from "@openvideo/db";
+import { DirectorGateway } from "./director.gateway";
+
+vi.mock("@openvideo/db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@openvideo/db")>()),
+  getDB: () => ({}),
+  getSpaceAccess: vi.fn(),
+}));
+
+const patch: Patch[] = [{ op: "update", path: "/clips/a/name", value: "Intro", oldValue: "a" }];
+
+describe("DirectorGateway patches", () => {
+  const core = { revision: 3, applyClientPatch: vi.fn() };
+  const gateway = new DirectorGateway(
+    { get: async () => core } as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+  );
+
+  /** A socket connected to space `s1` as user `u1` */
+  function socket(scopes?: string[]) {
+    return {
+      id: "socket-1",
+      handshake: { query: { spaceId: "s1" } },
+      user: { userId: "u1", scopes },
+      emit: vi.fn(),
+      disconnect: vi.fn(),
+    };
+  }
+
+  /** Send a batch from client `c1` and wait until it is handled */
+  const send = (client: ReturnType<typeof socket>) =>
+    gateway.handlePatch({ patch, baseRevision: 3, clientId: "c1" }, client as unknown as Socket);
+
+  const rejections = (client: ReturnType<typeof socket>) =>
+    client.emit.mock.calls.filter(
+      ([event, message]) => event === "message" && message.type === "patch.rejected",
+    );
+
+  beforeEach(() => {
+    vi.mocked(getSpaceAccess).mockResolvedValue({
+      space: { deletedAt: null },
+      role: "editor",
+    } as any);
+    core.applyClientPatch.mockReset().mockReturnValue(patch);
+  });
+
+  it("should apply an editor's patches without rejecting them", async () => {
+    const client = socket();
+    await send(client);
+    expect(core.applyClientPatch).toHaveBeenCalledWith(patch, 3, "c1");
+    expect(rejections(client)).toEqual([]);
+  });
+
+  it("should reject patches from viewers", async () => {
+    vi.mocked(getSpaceAccess).mockResolvedValue({
+      space: { deletedAt: null },
+      role: "viewer",
+    } as any);
+    const client = socket();
+    await send(client);
+    expect(core.applyClientPatch).not.toHaveBeenCalled();
+    expect(rejections(client)).toEqual([
+      ["message", { type: "patch.rejected", origin: "c1", message: expect.any(String) }],
+    ]);
+  });
+
+  it("should reject patches from API tokens without spaces:write", async () => {
+    const client = socket(["spaces:read"]);
+    await send(client);
+    expect(core.applyClientPatch).not.toHaveBeenCalled();
+    expect(rejections(client)).toHaveLength(1);
+  });
+
+  it("should reject a batch that fails to apply and keep applying later ones", async () => {
+    core.applyClientPatch.mockImplementationOnce(() => {
+      throw new Error("Invalid path");
+    });
+    const client = socket();
+    await send(client);
+    expect(rejections(client)).toHaveLength(1);
+
+    await send(client);
+    expect(core.applyClientPatch).toHaveBeenCalledTimes(2);
+    expect(rejections(client)).toHaveLength(1);
+  });
+});
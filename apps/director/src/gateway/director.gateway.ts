@@ -13,8 +13,31 @@ import { Server, Socket } from "socket.io";
 import { CoreRegistryService } from "../core/core-registry.service";
 import { DirectorService } from "../director/director.service";
 import { BroadcastService } from "../broadcast/broadcast.service";
+import { PresenceService } from "../broadcast/presence.service";
+import { RedisPubSubService } from "../broadcast/redis-pubsub.service";
 import { JwtService } from "@nestjs/jwt";
 import { ApiTokenService } from "../auth/api-token.service";
+import type { Presence, TimelineViewport } from "../types/presence.types";
+import {
+  getDB,
+  schema,
+  eq,
+  getSpaceAccess,
+  hasSpaceRole,
+  hasScope,
+  canAccessSpace,
+  type ApiScope,
+} from "@openvideo/db";
+
+const db = getDB();
+
+/** Socket user; `scopes` and `spaceIds` are set for API token grants */
+interface SocketUser {
+  userId: string;
+  orgId?: string;
+  scopes?: string[];
+  spaceIds?: string[] | null;
+}
 
 @WebSocketGateway({ path: "/ws", cors: { origin: "*" } })
 export class DirectorGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect {
@@ -29,11 +52,11 @@ export class DirectorGateway implements OnGatewayInit, OnGatewayConnection, OnGa
     private broadcastService: BroadcastService,
     private jwtService: JwtService,
     private apiTokenService: ApiTokenService,
+    private presenceService: PresenceService,
+    private redisPubSub: RedisPubSubService,
   ) {}
 
-  private async extractUserFromSocket(
-    client: Socket,
-  ): Promise<{ userId: string; orgId?: string } | null> {
+  private async extractUserFromSocket(client: Socket): Promise<SocketUser | null> {
     const token = (client.handshake.query.token as string) || client.handshake.auth?.token;
 
     // If token provided, always validate it (even in dev)
@@ -42,7 +65,7 @@ export class DirectorGateway implements OnGatewayInit, OnGatewayConnection, OnGa
       if (token.startsWith("ov_live_")) {
         const result = await this.apiTokenService.validateToken(token);
         if (result.valid && result.userId) {
-          return { userId: result.userId };
+          return { userId: result.userId, scopes: result.scopes, spaceIds: result.spaceIds };
         }
         this.logger.warn(`Invalid API token for WS connection`);
         return null;
@@ -54,6 +77,8 @@ export class DirectorGateway implements OnGatewayInit, OnGatewayConnection, OnGa
         return {
           userId: payload.sub || payload.userId,
           orgId: payload.orgId,
+          scopes: payload.scopes,
+          spaceIds: payload.spaceIds,
         };
       } catch (err: any) {
         this.logger.warn(`Invalid WebSocket token: ${err.message}`);
@@ -74,6 +99,41 @@ export class DirectorGateway implements OnGatewayInit, OnGatewayConnection, OnGa
     return null;
   }
 
+  /**
+   * Editing the timeline and driving the director need editor access, and
+   * `scope` when connected with an API token. Otherwise the client gets an error back.
+   * The role is read again each time, so a changed role applies at once and a
+   * removed member (or a trashed space) is disconnected.
+   */
+  private async canEdit(client: Socket, scope: ApiScope): Promise<boolean> {
+    const user = (client as any).user as SocketUser;
+    const spaceId = client.handshake.query.spaceId as string;
+    const access = await getSpaceAccess(db, spaceId, user.userId);
+    if (!access || access.space.deletedAt) {
+      this.logger.warn(`Client ${client.id} disconnected - lost access to space ${spaceId}`);
+      client.emit("error", { code: "FORBIDDEN", message: "Space not found or unauthorized" });
+      client.disconnect(true);
+      return false;
+    }
+    if (!hasSpaceRole(access.role, "editor")) {
+      client.emit("error", { code: "FORBIDDEN", message: "Requires editor access to this space" });
+      return false;
+    }
+    if (user.scopes && !hasScope(user.scopes, scope)) {
+      client.emit("error", { code: "FORBIDDEN", message: `API token lacks the ${scope} scope` });
+      return false;
+    }
+    return true;
+  }
+
+  /** Store a presence and show it to everyone else in the space, on every instance */
+  private publishPresence(spaceId: string, client: Socket, presence: Presence) {
+    this.presenceService.update(spaceId, presence);
+    const message = { type: "presence" as const, presence };
+    this.broadcastService.broadcastLocal(spaceId, message, client);
+    void this.redisPubSub.publishPresence(spaceId, message);
+  }
+
   afterInit(server: Server) {
     this.broadcastService.setServer(server);
     this.logger.log("Socket.io gateway initialised");
@@ -100,7 +160,20 @@ export class DirectorGateway implements OnGatewayInit, OnGatewayConnection, OnGa
       return;
     }
 
-    // Store user context on socket for later use
+    // Only the space owner and accepted members may join, and API tokens
+    // need spaces:read and, when restricted, this space
+    const granted =
+      (!user.scopes || hasScope(user.scopes, "spaces:read")) &&
+      canAccessSpace(user.spaceIds, spaceId);
+    const access = granted ? await getSpaceAccess(db, spaceId, user.userId) : null;
+    if (!access || access.space.deletedAt) {
+      this.logger.warn(`Client ${client.id} rejected - no access to space ${spaceId}`);
+      client.emit("error", { code: "FORBIDDEN", message: "Space not found or unauthorized" });
+      client.disconnect(true);
+      return;
+    }
+
+    // Store user context on socket for later use; the role is checked per edit
     (client as any).user = user;
 
     this.logger.log(`Client ${client.id} (user: ${user.userId}) connected to space ${spaceId}`);
@@ -108,23 +181,79 @@ export class DirectorGateway implements OnGatewayInit, OnGatewayConnection, OnGa
     // Join the space room — Socket.io tracks membership automatically
     await client.join(spaceId);
 
-    // Ensure the ServerCore is loaded and send initial snapshot
+    // Ensure the ServerCore is loaded. A reconnecting client that passes the
+    // epoch and revision it last saw gets only the revisions it missed.
     const core = await this.coreRegistry.get(spaceId);
-    client.emit("message", { type: "init", state: core.getSnapshot() });
+    const { epoch, revision } = client.handshake.query;
+    const missed =
+      typeof epoch === "string" && typeof revision === "string"
+        ? core.getRevisionsSince(epoch, Number(revision))
+        : null;
+    if (missed) {
+      client.emit("message", {
+        type: "sync",
+        epoch: core.epoch,
+        revision: core.revision,
+        revisions: missed,
+      });
+    } else {
+      client.emit("message", {
+        type: "init",
+        state: core.getSnapshot(),
+        epoch: core.epoch,
+        revision: core.revision,
+      });
+    }
 
-    // Register a single patch listener per space that fans out to all room members
+    // Register a single patch listener per space that fans out to all room members.
+    // Senders receive their own patches back as the acknowledgement.
     if (!Reflect.getMetadata("hasPatchListener", core)) {
       Reflect.defineMetadata("hasPatchListener", true, core);
-      core.onPatch((patches) => {
-        this.broadcastService.broadcast(spaceId, { type: "patch", patch: patches });
+      core.onPatch(({ patches, revision, origin, label }) => {
+        this.broadcastService.broadcast(spaceId, {
+          type: "patch",
+          patch: patches,
+          revision,
+          origin,
+          label,
+        });
       });
     }
+
+    // Announce the newcomer and tell them who is already here
+    const [profile] = await db
+      .select({ name: schema.user.name, email: schema.user.email, image: schema.user.image })
+      .from(schema.user)
+      .where(eq(schema.user.id, user.userId))
+      .limit(1);
+    if (!client.connected) return;
+    client.emit("message", {
+      type: "presence.list",
+      presences: this.presenceService.list(spaceId),
+    });
+    this.publishPresence(spaceId, client, {
+      clientId: client.id,
+      userId: user.userId,
+      name: profile?.name || profile?.email || "Anonymous",
+      image: profile?.image,
+      color: this.presenceService.colorFor(user.userId),
+      currentTime: 0,
+      selection: [],
+      viewport: null,
+      updatedAt: Date.now(),
+    });
   }
 
   handleDisconnect(client: Socket) {
     const spaceId = client.handshake.query.spaceId as string;
     if (spaceId) {
       this.logger.log(`Client ${client.id} disconnected from space ${spaceId}`);
+      if (this.presenceService.get(spaceId, client.id)) {
+        this.presenceService.remove(spaceId, client.id);
+        const message = { type: "presence.leave" as const, clientId: client.id };
+        this.broadcastService.broadcastLocal(spaceId, message);
+        void this.redisPubSub.publishPresence(spaceId, message);
+      }
     }
     // No manual cleanup needed — Socket.io removes the client from all rooms on disconnect
   }
@@ -135,11 +264,12 @@ export class DirectorGateway implements OnGatewayInit, OnGatewayConnection, OnGa
     const spaceId = client.handshake.query.spaceId as string;
     if (!spaceId) return;
 
-    const user = (client as any).user as { userId: string; orgId?: string };
+    const user = (client as any).user as SocketUser;
     if (!user) {
       client.emit("error", { code: "UNAUTHORIZED", message: "User context not found" });
       return;
     }
+    if (!(await this.canEdit(client, "director:chat"))) return;
 
     this.logger.log(`Received chat in space ${spaceId} from ${user.userId}: ${message.message}`);
     await this.directorService.handleUserRequest(spaceId, user.userId, message.message);
@@ -151,8 +281,8 @@ export class DirectorGateway implements OnGatewayInit, OnGatewayConnection, OnGa
     const spaceId = client.handshake.query.spaceId as string;
     if (!spaceId) return;
 
-    const user = (client as any).user as { userId: string; orgId?: string };
-    if (!user) return;
+    const user = (client as any).user as SocketUser;
+    if (!user || !(await this.canEdit(client, "director:chat"))) return;
 
     await this.directorService.handlePlanConfirmation(spaceId, user.userId, message.planId);
   }
@@ -163,25 +293,85 @@ export class DirectorGateway implements OnGatewayInit, OnGatewayConnection, OnGa
     const spaceId = client.handshake.query.spaceId as string;
     if (!spaceId) return;
 
-    const user = (client as any).user as { userId: string; orgId?: string };
-    if (!user) return;
+    const user = (client as any).user as SocketUser;
+    if (!user || !(await this.canEdit(client, "director:chat"))) return;
 
     await this.directorService.handlePlanRejection(spaceId, user.userId, message.planId);
   }
 
+  // Playhead, selection and viewport updates; any member may send these
+  @SubscribeMessage("presence")
+  handlePresence(
+    @MessageBody()
+    message: { currentTime: number; selection: string[]; viewport: TimelineViewport | null },
+    @ConnectedSocket() client: Socket,
+  ) {
+    const spaceId = client.handshake.query.spaceId as string;
+    const current = spaceId && this.presenceService.get(spaceId, client.id);
+    if (!current) return;
+
+    this.publishPresence(spaceId, client, {
+      ...current,
+      currentTime: Number(message.currentTime) || 0,
+      selection: Array.isArray(message.selection) ? message.selection.map(String) : [],
+      viewport: message.viewport ?? null,
+      updatedAt: Date.now(),
+    });
+  }
+
   // @UseGuards(JwtGuard)
   @SubscribeMessage("patch")
-  async handlePatch(@MessageBody() message: { patch: any[] }, @ConnectedSocket() client: Socket) {
+  handlePatch(
+    @MessageBody() message: { patch: any[]; baseRevision: number; clientId: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    // The access check waits on the database; queue so a client's patches
+    // are still applied in the order it sent them. A batch that fails leaves
+    // the project as it was and is rejected like a refused one
+    const queue: Promise<void> = (client as any).patchQueue ?? Promise.resolve();
+    (client as any).patchQueue = queue
+      .then(() => this.applyPatch(message, client))
+      .catch((err: Error) => {
+        this.logger.error(`Failed to apply patches: ${err.message}`);
+        this.rejectPatch(client, message.clientId, "Your edit could not be applied");
+      });
+    return (client as any).patchQueue;
+  }
+
+  private async applyPatch(
+    message: { patch: any[]; baseRevision: number; clientId: string },
+    client: Socket,
+  ) {
     const spaceId = client.handshake.query.spaceId as string;
     if (!spaceId) return;
+    if (!(await this.canEdit(client, "spaces:write"))) {
+      this.rejectPatch(client, message.clientId, "You cannot edit this space");
+      return;
+    }
 
-    this.logger.log(`Received patches for space ${spaceId}`);
+    this.logger.log(`Received patches for space ${spaceId} at revision ${message.baseRevision}`);
     const core = await this.coreRegistry.get(spaceId);
 
-    // Apply patches to the server-side core
-    core.applyPatch(message.patch);
+    // Rebase onto revisions the sender had not seen yet, then apply; the
+    // patch listener broadcasts the result to everyone, sender included
+    const applied = core.applyClientPatch(message.patch, message.baseRevision, message.clientId);
+
+    // Nothing survived the rebase, so no revision is broadcast; ack the sender directly
+    if (applied.length === 0) {
+      client.emit("message", {
+        type: "patch",
+        patch: [],
+        revision: core.revision,
+        origin: message.clientId,
+      });
+    }
+  }
 
-    // Broadcast to OTHER clients in the same room (exclude sender)
-    this.broadcastService.broadcast(spaceId, { type: "patch", patch: message.patch }, client);
+  /**
+   * Tell the sender its oldest unacknowledged batch was not applied, so it
+   * rolls the batch back instead of waiting for an echo that never comes
+   */
+  private rejectPatch(client: Socket, clientId: string, message: string) {
+    client.emit("message", { type: "patch.rejected", origin: clientId, message });
   }
 }
@@ -6,6 +6,7 @@ import { TranscribeClipWorker } from "./workers/transcribe-clip.worker";
 import { GenerateAudioWorker } from "./workers/generate-audio.worker";
 import { GenerateImageWorker } from "./workers/generate-image.worker";
 import { IndexAssetWorker } from "./workers/index-asset.worker";
+import { PurgeTrashWorker } from "./workers/purge-trash.worker";
 import { RagModule } from "../rag/rag.module";
 import { CoreModule } from "../core/core.module";
 import { BroadcastModule } from "../broadcast/broadcast.module";
@@ -56,6 +57,7 @@ import { BroadcastModule } from "../broadcast/broadcast.module";
     BullModule.registerQueue({ name: "generate-audio" }),
     BullModule.registerQueue({ name: "generate-image" }),
     BullModule.registerQueue({ name: "index-asset" }),
+    BullModule.registerQueue({ name: "purge-trash" }),
     RagModule,
     CoreModule,
     BroadcastModule,
@@ -66,6 +68,7 @@ import { BroadcastModule } from "../broadcast/broadcast.module";
     GenerateAudioWorker,
     GenerateImageWorker,
     IndexAssetWorker,
+    PurgeTrashWorker,
   ],
   exports: [BullModule],
 })
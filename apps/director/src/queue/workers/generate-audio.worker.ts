@@ -2,8 +2,9 @@ import { Processor, WorkerHost } from "@nestjs/bullmq";
 import { Job } from "bullmq";
 import { Logger } from "@nestjs/common";
 import { CoreRegistryService } from "../../core/core-registry.service";
+import { PlanTransactionService } from "../../core/plan-transaction.service";
 import { BroadcastService } from "../../broadcast/broadcast.service";
-import { Command } from "@openvideo/core";
+import { Command, Patch } from "@openvideo/core";
 import { nanoid } from "nanoid";
 
 @Processor("generate-audio")
@@ -12,6 +13,7 @@ export class GenerateAudioWorker extends WorkerHost {
 
   constructor(
     private coreRegistry: CoreRegistryService,
+    private planTransactions: PlanTransactionService,
     private broadcastService: BroadcastService,
   ) {
     super();
@@ -21,27 +23,52 @@ export class GenerateAudioWorker extends WorkerHost {
     const { projectId, planId, stepId, params } = job.data;
     this.logger.log(`Generating audio for step ${stepId} (Project ${projectId})`);
 
-    // Simulate audio generation via LLM / TTS
-    await new Promise((resolve) => setTimeout(resolve, 3000));
-
-    // The result would be an R2 URL
-    const audioUrl = "https://www.soundhelix.com/examples/mp3/SoundHelix-Song-1.mp3";
-
-    // Apply the command
-    const core = await this.coreRegistry.get(projectId);
-    const command: Command = {
-      id: nanoid(),
-      type: "clip.add",
-      payload: {
-        type: "Audio",
-        name: "Generated Audio",
-        src: audioUrl,
-        display: { from: 0, to: 5000000 },
-      },
-      meta: { source: "agent" },
-    };
-
-    core.execute(command);
+    try {
+      // Simulate audio generation via LLM / TTS
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+
+      // The result would be an R2 URL
+      const audioUrl = "https://www.soundhelix.com/examples/mp3/SoundHelix-Song-1.mp3";
+
+      // Apply the command
+      const core = await this.coreRegistry.get(projectId);
+      const command: Command = {
+        id: nanoid(),
+        type: "clip.add",
+        payload: {
+          type: "Audio",
+          name: "Generated Audio",
+          src: audioUrl,
+          display: { from: 0, to: 5000000 },
+        },
+        meta: { source: "agent" },
+      };
+
+      // Record what the clip added so the plan can be reverted if a sibling step fails
+      const added: Patch[] = [];
+      const unsubscribe = core.onPatch((change) => added.push(...change.patches));
+      try {
+        core.execute(command);
+      } finally {
+        unsubscribe();
+      }
+      await this.planTransactions.stepSucceeded(planId, stepId, added);
+    } catch (error: any) {
+      this.broadcastService.broadcast(projectId, {
+        type: "plan.step",
+        stepId,
+        status: "error",
+        description: `Failed: ${error.message}`,
+      });
+      const goal = await this.planTransactions.stepFailed(planId, stepId);
+      if (goal) {
+        this.broadcastService.broadcast(projectId, {
+          type: "chat.response",
+          message: `❌ Generation failed, so I reverted the changes for "${goal}".`,
+        });
+      }
+      throw error;
+    }
 
     // Notify client that step is complete
     this.broadcastService.broadcast(projectId, {
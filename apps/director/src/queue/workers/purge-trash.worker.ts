@@ -0,0 +1,30 @@
+import { InjectQueue, Processor, WorkerHost } from "@nestjs/bullmq";
+import { Job, Queue } from "bullmq";
+import { Logger, OnModuleInit } from "@nestjs/common";
+import { getDB, purgeExpiredTrash } from "@openvideo/db";
+
+const db = getDB();
+
+/** Daily at 03:00 server time */
+const PURGE_PATTERN = "0 3 * * *";
+
+@Processor("purge-trash")
+export class PurgeTrashWorker extends WorkerHost implements OnModuleInit {
+  private readonly logger = new Logger(PurgeTrashWorker.name);
+
+  constructor(@InjectQueue("purge-trash") private purgeQueue: Queue) {
+    super();
+  }
+
+  async onModuleInit() {
+    // Upserting keeps a single schedule across restarts and replicas
+    await this.purgeQueue.upsertJobScheduler("purge-trash", { pattern: PURGE_PATTERN });
+  }
+
+  async process(job: Job) {
+    this.logger.log(`Purging expired trash (job ${job.id})`);
+    const { spaces, assets, errors } = await purgeExpiredTrash(db);
+    errors.forEach((error) => this.logger.warn(error.message));
+    this.logger.log(`Purged ${spaces} spaces and ${assets} assets from the trash`);
+  }
+}
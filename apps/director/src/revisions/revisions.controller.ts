@@ -0,0 +1,67 @@
+import { Controller, Get, Post, Body, Param, Query, UseGuards } from "@nestjs/common";
+import { RevisionsService, CURRENT } from "./revisions.service";
+import { JwtGuard } from "../auth/jwt.guard";
+import { RequireScopes } from "../auth/scopes.decorator";
+import { Ctx, RequestContext } from "../common/request-context";
+
+@Controller("spaces/:spaceId/revisions")
+@UseGuards(JwtGuard)
+export class RevisionsController {
+  constructor(private revisionsService: RevisionsService) {}
+
+  /** GET /spaces/:spaceId/revisions - List saved versions, newest first */
+  @Get()
+  @RequireScopes("spaces:read")
+  async findAll(@Param("spaceId") spaceId: string, @Ctx() ctx: RequestContext) {
+    return this.revisionsService.findAll(spaceId, ctx);
+  }
+
+  /** POST /spaces/:spaceId/revisions - Save the current project as a named version */
+  @Post()
+  @RequireScopes("spaces:write")
+  async create(
+    @Param("spaceId") spaceId: string,
+    @Body() body: { name?: string },
+    @Ctx() ctx: RequestContext,
+  ) {
+    return this.revisionsService.create(spaceId, body?.name, ctx);
+  }
+
+  /** GET /spaces/:spaceId/revisions/:id - A revision with its scene */
+  @Get(":id")
+  @RequireScopes("spaces:read")
+  async findOne(
+    @Param("spaceId") spaceId: string,
+    @Param("id") id: string,
+    @Ctx() ctx: RequestContext,
+  ) {
+    return this.revisionsService.findOne(spaceId, id, ctx);
+  }
+
+  /**
+   * GET /spaces/:spaceId/revisions/:id/diff?to=<id|current> - Patches from
+   * this revision to another one, or to the live project by default
+   */
+  @Get(":id/diff")
+  @RequireScopes("spaces:read")
+  async diff(
+    @Param("spaceId") spaceId: string,
+    @Param("id") id: string,
+    @Query("to") to: string | undefined,
+    @Ctx() ctx: RequestContext,
+  ) {
+    const patches = await this.revisionsService.diff(spaceId, id, to || CURRENT, ctx);
+    return { from: id, to: to || CURRENT, patches };
+  }
+
+  /** POST /spaces/:spaceId/revisions/:id/restore - Roll the project back to this revision */
+  @Post(":id/restore")
+  @RequireScopes("spaces:write")
+  async restore(
+    @Param("spaceId") spaceId: string,
+    @Param("id") id: string,
+    @Ctx() ctx: RequestContext,
+  ) {
+    return this.revisionsService.restore(spaceId, id, ctx);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { RevisionsController } from "./revisions.controller";
+import { RevisionsService } from "./revisions.service";
+import { CoreModule } from "../core/core.module";
+import { AuthModule } from "../auth/auth.module";
+
+@Module({
+  imports: [CoreModule, AuthModule],
+  controllers: [RevisionsController],
+  providers: [RevisionsService],
+  exports: [RevisionsService],
+})
+export class RevisionsModule {}
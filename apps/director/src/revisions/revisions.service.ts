@@ -0,0 +1,158 @@
+import {
+  getDB,
+  schema,
+  eq,
+  and,
+  desc,
+  getSpaceAccess,
+  hasSpaceRole,
+  canAccessSpace,
+  type SpaceRole,
+} from "@openvideo/db";
+const db = getDB();
+
+import { Injectable, Logger, NotFoundException, ForbiddenException } from "@nestjs/common";
+import { diffProjects, type IProject, type Patch } from "@openvideo/core";
+import { CoreRegistryService } from "../core/core-registry.service";
+import { RequestContext } from "../common/request-context";
+
+export interface RevisionResponse {
+  id: string;
+  spaceId: string;
+  name: string | null;
+  kind: string;
+  createdBy: { id: string; name: string } | null;
+  restoredFrom: string | null;
+  createdAt: Date;
+}
+
+/** Compare against the live project instead of a saved revision */
+export const CURRENT = "current";
+
+@Injectable()
+export class RevisionsService {
+  private readonly logger = new Logger(RevisionsService.name);
+
+  constructor(private coreRegistry: CoreRegistryService) {}
+
+  async findAll(spaceId: string, ctx: RequestContext): Promise<RevisionResponse[]> {
+    await this.requireRole(spaceId, ctx, "viewer");
+
+    const rows = await db
+      .select({
+        revision: schema.spaceRevision,
+        author: { id: schema.user.id, name: schema.user.name },
+      })
+      .from(schema.spaceRevision)
+      .leftJoin(schema.user, eq(schema.spaceRevision.createdBy, schema.user.id))
+      .where(eq(schema.spaceRevision.spaceId, spaceId))
+      .orderBy(desc(schema.spaceRevision.createdAt));
+
+    return rows.map(({ revision, author }) => this.toResponse(revision, author));
+  }
+
+  async findOne(spaceId: string, revisionId: string, ctx: RequestContext) {
+    await this.requireRole(spaceId, ctx, "viewer");
+    const revision = await this.getRow(spaceId, revisionId);
+    return { ...this.toResponse(revision, null), scene: revision.scene };
+  }
+
+  /** Save the current project as a named version */
+  async create(spaceId: string, name: string | undefined, ctx: RequestContext) {
+    await this.requireRole(spaceId, ctx, "editor");
+    const row = await this.coreRegistry.saveRevision(spaceId, {
+      kind: "manual",
+      name: name?.trim() || undefined,
+      createdBy: ctx.userId,
+    });
+    return this.toResponse(row, null);
+  }
+
+  /**
+   * Patches that turn revision `fromId` into revision `toId`; either may be
+   * CURRENT for the live project.
+   */
+  async diff(spaceId: string, fromId: string, toId: string, ctx: RequestContext): Promise<Patch[]> {
+    await this.requireRole(spaceId, ctx, "viewer");
+    const [from, to] = await Promise.all([
+      this.getScene(spaceId, fromId),
+      this.getScene(spaceId, toId),
+    ]);
+    return diffProjects(from, to);
+  }
+
+  /**
+   * Bring the project back to a revision. The change reaches connected
+   * clients as ordinary patches and is itself saved as a new revision, so a
+   * restore can be undone by restoring the revision before it.
+   */
+  async restore(spaceId: string, revisionId: string, ctx: RequestContext) {
+    await this.requireRole(spaceId, ctx, "editor");
+    const revision = await this.getRow(spaceId, revisionId);
+
+    const core = await this.coreRegistry.get(spaceId);
+    const patches = diffProjects(core.getSnapshot(), revision.scene as unknown as IProject);
+    if (patches.length > 0) {
+      core.applyPatch(patches);
+    }
+
+    const row = await this.coreRegistry.saveRevision(spaceId, {
+      kind: "restore",
+      name: revision.name ?? undefined,
+      createdBy: ctx.userId,
+      restoredFrom: revision.id,
+    });
+    this.logger.log(`Restored space ${spaceId} to revision ${revision.id}`);
+    return this.toResponse(row, null);
+  }
+
+  private async getScene(spaceId: string, revisionId: string): Promise<IProject> {
+    if (revisionId === CURRENT) {
+      const core = await this.coreRegistry.get(spaceId);
+      return core.getSnapshot();
+    }
+    const revision = await this.getRow(spaceId, revisionId);
+    return revision.scene as unknown as IProject;
+  }
+
+  private async getRow(spaceId: string, revisionId: string) {
+    const [row] = await db
+      .select()
+      .from(schema.spaceRevision)
+      .where(
+        and(eq(schema.spaceRevision.id, revisionId), eq(schema.spaceRevision.spaceId, spaceId)),
+      );
+    if (!row) {
+      throw new NotFoundException(`Revision ${revisionId} not found in space ${spaceId}`);
+    }
+    return row;
+  }
+
+  /** Members may read history; changing it needs `min` */
+  private async requireRole(spaceId: string, ctx: RequestContext, min: SpaceRole) {
+    const access = canAccessSpace(ctx.spaceIds, spaceId)
+      ? await getSpaceAccess(db, spaceId, ctx.userId)
+      : null;
+    if (!access || access.space.deletedAt) {
+      throw new NotFoundException(`Space ${spaceId} not found`);
+    }
+    if (!hasSpaceRole(access.role, min)) {
+      throw new ForbiddenException(`Requires ${min} access to this space`);
+    }
+  }
+
+  private toResponse(
+    row: typeof schema.spaceRevision.$inferSelect,
+    author: { id: string; name: string } | null,
+  ): RevisionResponse {
+    return {
+      id: row.id,
+      spaceId: row.spaceId,
+      name: row.name,
+      kind: row.kind,
+      createdBy: author,
+      restoredFrom: row.restoredFrom,
+      createdAt: row.createdAt,
+    };
+  }
+}
@@ -14,6 +14,8 @@ export interface EditingSkill {
   description: string;
   tags: string[];
   isAsync: boolean;
+  /** Calls external services while resolving, so a dry run leaves it until the plan is confirmed */
+  sideEffects?: boolean;
   resolve(context: ProjectContext, params?: Record<string, any>): Promise<Command[]> | Command[];
   /** Optional: dynamically append content to the loaded SKILL.md before it is served to the agent */
   enrichDoc?(doc: string): string;
@@ -24,6 +24,7 @@ export class AutoCaptionSkill implements EditingSkill {
     "Automatically transcribes all spoken audio and adds animated caption clips to the video.";
   tags = ["captions", "text", "accessibility"];
   isAsync = true; // Requires transcription
+  sideEffects = true;
 
   private readonly logger = new Logger(AutoCaptionSkill.name);
 
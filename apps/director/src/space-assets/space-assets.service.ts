@@ -1,4 +1,4 @@
-import { getDB, schema, eq, and, desc, sql } from "@openvideo/db";
+import { getDB, schema, eq, and, desc, isNull } from "@openvideo/db";
 const db = getDB();
 
 import { Injectable, Logger, NotFoundException } from "@nestjs/common";
@@ -99,7 +99,7 @@ export class SpaceAssetsService {
     // Verify space access
     await this.verifySpaceAccess(spaceId, ctx);
 
-    let where: any = eq(schema.asset.spaceId, spaceId);
+    let where: any = and(eq(schema.asset.spaceId, spaceId), isNull(schema.asset.deletedAt));
     if (ctx.orgId) {
       where = and(where, eq(schema.asset.orgId, ctx.orgId));
     }
@@ -125,7 +125,11 @@ export class SpaceAssetsService {
     assetId: string,
     ctx: RequestContext,
   ): Promise<SpaceAssetResponse | null> {
-    let where: any = and(eq(schema.asset.id, assetId), eq(schema.asset.spaceId, spaceId));
+    let where: any = and(
+      eq(schema.asset.id, assetId),
+      eq(schema.asset.spaceId, spaceId),
+      isNull(schema.asset.deletedAt),
+    );
 
     if (ctx.orgId) {
       where = and(where, eq(schema.asset.orgId, ctx.orgId));
@@ -147,21 +151,17 @@ export class SpaceAssetsService {
     return asset;
   }
 
+  /** Move an asset to the trash; its vectors are dropped when the purge-trash job deletes it */
   async delete(spaceId: string, assetId: string, ctx: RequestContext): Promise<void> {
     // Verify access
     await this.getOne(spaceId, assetId, ctx);
 
-    await Promise.all([
-      db.delete(schema.asset).where(eq(schema.asset.id, assetId)),
-      db.delete(schema.assetIndexingStatus).where(eq(schema.assetIndexingStatus.assetId, assetId)),
-      db
-        .execute(sql`DELETE FROM langchain_pg_embedding WHERE cmetadata->>'assetId' = ${assetId}`)
-        .catch((err: Error) => {
-          this.logger.warn(`Could not delete vectors for asset ${assetId}: ${err.message}`);
-        }),
-    ]);
-
-    this.logger.log(`Deleted asset ${assetId} from space ${spaceId}`);
+    await db
+      .update(schema.asset)
+      .set({ deletedAt: new Date() })
+      .where(eq(schema.asset.id, assetId));
+
+    this.logger.log(`Moved asset ${assetId} in space ${spaceId} to the trash`);
   }
 
   async triggerIndex(
@@ -196,7 +196,7 @@ export class SpaceAssetsService {
 
   private async verifySpaceAccess(spaceId: string, ctx: RequestContext): Promise<void> {
     // Quick check that space exists and user has access
-    let where: any = eq(schema.space.id, spaceId);
+    let where: any = and(eq(schema.space.id, spaceId), isNull(schema.space.deletedAt));
     if (ctx.orgId) {
       where = and(where, eq(schema.space.orgId, ctx.orgId));
     } else {
@@ -14,6 +14,7 @@ import {
 } from "@nestjs/common";
 import { SpacesService, CreateSpaceDto } from "./spaces.service";
 import { JwtGuard } from "../auth/jwt.guard";
+import { RequireScopes } from "../auth/scopes.decorator";
 import { Ctx, RequestContext } from "../common/request-context";
 import { InjectQueue } from "@nestjs/bullmq";
 import { Queue } from "bullmq";
@@ -28,18 +29,21 @@ export class SpacesController {
 
   /** GET /spaces - List all spaces for the authenticated user */
   @Get()
+  @RequireScopes("spaces:read")
   async findAll(@Ctx() ctx: RequestContext) {
     return this.spacesService.findAll(ctx);
   }
 
   /** POST /spaces - Create a new space */
   @Post()
+  @RequireScopes("spaces:write")
   async create(@Body() body: CreateSpaceDto, @Ctx() ctx: RequestContext) {
     return this.spacesService.create(body, ctx);
   }
 
   /** GET /spaces/:id - Get a single space */
   @Get(":id")
+  @RequireScopes("spaces:read")
   async findOne(@Param("id") id: string, @Ctx() ctx: RequestContext) {
     const space = await this.spacesService.findOne(id, ctx);
     if (!space) {
@@ -50,6 +54,7 @@ export class SpacesController {
 
   /** PATCH /spaces/:id - Update a space */
   @Patch(":id")
+  @RequireScopes("spaces:write")
   async update(
     @Param("id") id: string,
     @Body() body: Partial<CreateSpaceDto>,
@@ -60,6 +65,7 @@ export class SpacesController {
 
   /** DELETE /spaces/:id - Delete a space */
   @Delete(":id")
+  @RequireScopes("spaces:write")
   async remove(@Param("id") id: string, @Ctx() ctx: RequestContext) {
     await this.spacesService.delete(id, ctx);
     return { success: true };
@@ -70,6 +76,7 @@ export class SpacesController {
    * Called by the editor UI when the project has structural changes.
    */
   @Post(":id/sync")
+  @RequireScopes("spaces:write")
   async sync(@Param("id") id: string, @Ctx() ctx: RequestContext) {
     // Verify access
     await this.spacesService.getOne(id, ctx);
@@ -1,7 +1,7 @@
-import { getDB, schema, eq, and, desc } from "@openvideo/db";
+import { getDB, schema, eq, and, desc, isNull, inArray, canAccessSpace } from "@openvideo/db";
 const db = getDB();
 
-import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { Injectable, Logger, NotFoundException, ForbiddenException } from "@nestjs/common";
 import { nanoid } from "nanoid";
 import { RequestContext } from "../common/request-context";
 
@@ -45,6 +45,9 @@ export class SpacesService {
   private readonly logger = new Logger(SpacesService.name);
 
   async create(dto: CreateSpaceDto, ctx: RequestContext): Promise<SpaceResponse> {
+    if (ctx.spaceIds) {
+      throw new ForbiddenException("API token is restricted to particular spaces");
+    }
     const id = nanoid();
 
     const values: any = {
@@ -72,11 +75,14 @@ export class SpacesService {
   }
 
   async findAll(ctx: RequestContext): Promise<SpaceResponse[]> {
-    let where: any = eq(schema.space.userId, ctx.userId);
+    let where: any = and(eq(schema.space.userId, ctx.userId), isNull(schema.space.deletedAt));
 
     if (ctx.orgId) {
       where = and(where, eq(schema.space.orgId, ctx.orgId));
     }
+    if (ctx.spaceIds) {
+      where = and(where, inArray(schema.space.id, ctx.spaceIds));
+    }
 
     const rows = await db
       .select()
@@ -88,7 +94,10 @@ export class SpacesService {
   }
 
   async findOne(spaceId: string, ctx: RequestContext): Promise<SpaceResponse | null> {
-    let where: any = eq(schema.space.id, spaceId);
+    if (!canAccessSpace(ctx.spaceIds, spaceId)) {
+      return null;
+    }
+    let where: any = and(eq(schema.space.id, spaceId), isNull(schema.space.deletedAt));
 
     if (ctx.orgId) {
       where = and(where, eq(schema.space.orgId, ctx.orgId));
@@ -136,10 +145,16 @@ export class SpacesService {
     return this.toResponse(row);
   }
 
+  /** Move a space and its assets to the trash; the purge-trash job deletes them later */
   async delete(spaceId: string, ctx: RequestContext): Promise<void> {
     await this.getOne(spaceId, ctx);
-    await db.delete(schema.space).where(eq(schema.space.id, spaceId));
-    this.logger.log(`Deleted space ${spaceId}`);
+    const deletedAt = new Date();
+    await db.update(schema.space).set({ deletedAt }).where(eq(schema.space.id, spaceId));
+    await db
+      .update(schema.asset)
+      .set({ deletedAt })
+      .where(and(eq(schema.asset.spaceId, spaceId), isNull(schema.asset.deletedAt)));
+    this.logger.log(`Moved space ${spaceId} to the trash`);
   }
 
   private toResponse(row: typeof schema.space.$inferSelect): SpaceResponse {
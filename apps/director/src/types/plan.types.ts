@@ -1,4 +1,4 @@
-import type { Command } from "@openvideo/core";
+import type { Command, Patch } from "@openvideo/core";
 
 export interface PlanStep {
   id: string;
@@ -25,3 +25,53 @@ export interface Plan {
   requiresConfirmation: boolean;
   estimatedSteps: number;
 }
+
+export type PlanChangeKind = "added" | "removed" | "moved" | "trimmed" | "changed";
+
+/** Where a clip sits on the canvas and timeline, for drawing it as a ghost */
+export interface ClipFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle: number;
+  /** Display range in microseconds */
+  from: number;
+  to: number;
+  trackId: string | null;
+}
+
+/** One clip-level effect of a plan, in words and geometry */
+export interface PlanChange {
+  kind: PlanChangeKind;
+  clipId: string;
+  clipName: string;
+  description: string;
+  /** Top-level clip properties the plan changes */
+  properties: string[];
+  before: ClipFrame | null;
+  after: ClipFrame | null;
+}
+
+/** What a plan would do, worked out by running it against a copy of the project */
+export interface PlanPreview {
+  patches: Patch[];
+  /** Revision and epoch of the project the patches were made against */
+  baseRevision: number;
+  epoch: string;
+  changes: PlanChange[];
+  /** Generation steps, which run in the background and cannot be previewed */
+  pending: string[];
+  /**
+   * Steps from the first one that calls an external service on; they are not
+   * run until the plan is confirmed, on top of `patches`
+   */
+  deferred: { stepId: string; description: string }[];
+  /** Set when a step failed; the preview covers the steps before it */
+  error?: string;
+}
+
+/** A plan waiting for the user's confirmation, with the dry run they were shown */
+export interface PendingPlan extends Plan {
+  preview?: PlanPreview;
+}
@@ -0,0 +1,21 @@
+/** Visible part of a collaborator's timeline, in microseconds */
+export interface TimelineViewport {
+  start: number;
+  end: number;
+}
+
+/** What one connected client is looking at; sent by the client, identity filled in by the server */
+export interface Presence {
+  /** Socket id; a user with two tabs open has two presences */
+  clientId: string;
+  userId: string;
+  name: string;
+  image?: string | null;
+  color: string;
+  /** Playhead time in microseconds */
+  currentTime: number;
+  /** Selected clip ids */
+  selection: string[];
+  viewport: TimelineViewport | null;
+  updatedAt: number;
+}
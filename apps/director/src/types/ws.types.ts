@@ -1,18 +1,32 @@
 import { Patch } from "@openvideo/core";
-import { Plan } from "./plan.types";
+import { Plan, PlanPreview } from "./plan.types";
+import type { Revision } from "../core/server-core";
+import type { Presence, TimelineViewport } from "./presence.types";
 
 export type WsServerMessage =
-  | { type: "init"; state: any }
-  | { type: "patch"; patch: Patch[] }
+  | { type: "init"; state: any; epoch: string; revision: number }
+  | { type: "sync"; epoch: string; revision: number; revisions: Revision[] }
+  | { type: "patch"; patch: Patch[]; revision: number; origin?: string; label?: string }
+  | { type: "patch.rejected"; origin: string; message: string }
   | { type: "chat.chunk"; sessionId: string; text: string }
-  | { type: "plan.created"; plan: Plan }
+  | { type: "plan.created"; plan: Plan; preview?: PlanPreview }
   | { type: "plan.step"; stepId: string; status: "running" | "done" | "error"; description: string }
   | { type: "plan.complete"; planId: string }
+  | { type: "plan.rejected"; planId: string }
   | { type: "chat.response"; message: string }
+  | { type: "presence"; presence: Presence }
+  | { type: "presence.list"; presences: Presence[] }
+  | { type: "presence.leave"; clientId: string }
   | { type: "error"; code: string; message: string };
 
 export type WsClientMessage =
   | { type: "chat"; message: string; sessionId?: string }
-  | { type: "patch"; patch: Patch[] }
+  | { type: "patch"; patch: Patch[]; baseRevision: number; clientId: string }
   | { type: "plan.confirm"; planId: string }
-  | { type: "plan.reject"; planId: string };
+  | { type: "plan.reject"; planId: string }
+  | {
+      type: "presence";
+      currentTime: number;
+      selection: string[];
+      viewport: TimelineViewport | null;
+    };
@@ -0,0 +1,78 @@
+import { TRPCError } from "@trpc/server";
+import { eq } from "drizzle-orm";
+import {
+  getDB,
+  asset,
+  canAccessSpace,
+  getSpaceAccess,
+  hasSpaceRole,
+  type SpaceRole,
+  type TokenGrant,
+} from "@openvideo/db";
+
+const db = getDB();
+
+/** The caller, and the API token it authenticated with if any */
+export interface AccessContext {
+  user: { id: string };
+  token: TokenGrant | null;
+}
+
+/** Treat a space outside an API token's restriction as missing */
+export function requireTokenSpace(ctx: AccessContext, spaceId: string) {
+  if (!canAccessSpace(ctx.token?.spaceIds, spaceId)) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Space not found or unauthorized" });
+  }
+}
+
+/**
+ * Load a space the user holds at least the `min` role in.
+ * Trashed spaces count as missing, unless `trashed` is set, which requires one.
+ * Spaces outside an API token's restriction count as missing too.
+ */
+export async function requireSpaceRole(
+  ctx: AccessContext,
+  spaceId: string,
+  min: SpaceRole,
+  opts: { trashed?: boolean } = {},
+) {
+  requireTokenSpace(ctx, spaceId);
+  const access = await getSpaceAccess(db, spaceId, ctx.user.id);
+  if (!access || (access.space.deletedAt !== null) !== !!opts.trashed) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Space not found or unauthorized" });
+  }
+  if (!hasSpaceRole(access.role, min)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `Requires ${min} access to this space` });
+  }
+  return access;
+}
+
+/**
+ * Load an asset whose space the user holds at least the `min` role in
+ */
+export async function requireAssetRole(
+  ctx: AccessContext,
+  assetId: string,
+  min: SpaceRole,
+  opts: { trashed?: boolean } = {},
+) {
+  const row = await db.query.asset.findFirst({ where: eq(asset.id, assetId) });
+  if (!row || (row.deletedAt !== null) !== !!opts.trashed) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Asset not found or unauthorized" });
+  }
+  const access = await requireSpaceRole(ctx, row.spaceId, min);
+  return { ...access, asset: row };
+}
+
+/**
+ * Refuse actions that are not tied to one space, such as creating a space,
+ * for API tokens restricted to particular spaces
+ */
+export function requireUnrestricted(ctx: AccessContext) {
+  if (ctx.token?.spaceIds) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "API token is restricted to particular spaces",
+    });
+  }
+}
@@ -1,6 +1,6 @@
 import { fetchRequestHandler } from "@trpc/server/adapters/fetch";
 import { appRouter } from "./root.js";
-import { createTRPCContext } from "./trpc.js";
+import { createTRPCContext, type Mailer } from "./trpc.js";
 import type { Auth } from "@openvideo/auth";
 
 /**
@@ -12,16 +12,16 @@ import type { Auth } from "@openvideo/auth";
  * import { createAuth } from "@openvideo/auth";
  *
  * const auth = createAuth({ ... });
- * const handler = createTRPCRouteHandler(auth);
+ * const handler = createTRPCRouteHandler(auth, { sendSpaceInviteEmail });
  * export { handler as GET, handler as POST };
  * ```
  */
-export function createTRPCRouteHandler(auth: Auth) {
+export function createTRPCRouteHandler(auth: Auth, mailer?: Mailer) {
   return (req: Request) =>
     fetchRequestHandler({
       endpoint: "/api/trpc",
       req,
       router: appRouter,
-      createContext: () => createTRPCContext({ auth, req }),
+      createContext: () => createTRPCContext({ auth, req, mailer }),
     });
 }
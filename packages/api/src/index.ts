@@ -7,6 +7,7 @@ export {
   createTRPCContext,
   createCallerFactory,
   type CreateContextOptions,
+  type Mailer,
 } from "./trpc.js";
 
 // Re-export types from root for convenience
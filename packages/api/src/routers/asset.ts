@@ -1,7 +1,8 @@
 import { z } from "zod";
-import { eq, and, desc, sql } from "drizzle-orm";
-import { getDB, asset, assetIndexingStatus } from "@openvideo/db";
-import { router, protectedProcedure } from "../trpc.js";
+import { eq, and, desc, sql, isNull, isNotNull } from "drizzle-orm";
+import { getDB, asset, assetIndexingStatus, getPurgeAt, deleteVectors } from "@openvideo/db";
+import { router, scopedProcedure } from "../trpc.js";
+import { requireAssetRole, requireSpaceRole } from "../access.js";
 import { ModalClient } from "modal";
 import { GoogleGenAI } from "@google/genai";
 
@@ -36,7 +37,7 @@ async function startWorkflow(workflow: string, payload: any): Promise<any> {
 
 export const assetRouter = router({
   // Create an asset (and optionally set to pending for indexing)
-  create: protectedProcedure
+  create: scopedProcedure("assets:write")
     .input(
       z.object({
         spaceId: z.string(),
@@ -53,6 +54,7 @@ export const assetRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.spaceId, "editor");
       const id = crypto.randomUUID();
 
       const newAsset = await db
@@ -112,12 +114,13 @@ export const assetRouter = router({
       return newAsset[0];
     }),
 
-  // List all assets in a space
-  list: protectedProcedure
+  // List all assets in a space, excluding the trash
+  list: scopedProcedure("assets:read")
     .input(z.object({ spaceId: z.string() }))
     .query(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.spaceId, "viewer");
       const rows = await db.query.asset.findMany({
-        where: and(eq(asset.spaceId, input.spaceId), eq(asset.userId, ctx.user.id)),
+        where: and(eq(asset.spaceId, input.spaceId), isNull(asset.deletedAt)),
         orderBy: desc(asset.createdAt),
         with: {
           indexingStatus: true,
@@ -127,14 +130,15 @@ export const assetRouter = router({
     }),
 
   // Get single asset
-  getById: protectedProcedure
+  getById: scopedProcedure("assets:read")
     .input(z.object({ id: z.string(), spaceId: z.string() }))
     .query(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.spaceId, "viewer");
       const row = await db.query.asset.findFirst({
         where: and(
           eq(asset.id, input.id),
           eq(asset.spaceId, input.spaceId),
-          eq(asset.userId, ctx.user.id),
+          isNull(asset.deletedAt),
         ),
         with: {
           indexingStatus: true,
@@ -146,34 +150,58 @@ export const assetRouter = router({
       return row;
     }),
 
-  // Delete an asset
-  delete: protectedProcedure
+  // Move an asset to the trash
+  delete: scopedProcedure("assets:write")
     .input(z.object({ id: z.string(), spaceId: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.spaceId, "editor");
+      const deletedAt = new Date();
       const row = await db
-        .delete(asset)
+        .update(asset)
+        .set({ deletedAt })
         .where(
-          and(
-            eq(asset.id, input.id),
-            eq(asset.spaceId, input.spaceId),
-            eq(asset.userId, ctx.user.id),
-          ),
+          and(eq(asset.id, input.id), eq(asset.spaceId, input.spaceId), isNull(asset.deletedAt)),
         )
         .returning();
       if (row.length === 0) throw new Error("Asset not found or unauthorized");
-      return { success: true };
+      return { success: true, purgeAt: getPurgeAt(deletedAt) };
+    }),
+
+  // Bring an asset back from the trash
+  restore: scopedProcedure("assets:write")
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireAssetRole(ctx, input.id, "editor", { trashed: true });
+      const row = await db
+        .update(asset)
+        .set({ deletedAt: null, updatedAt: new Date() })
+        .where(eq(asset.id, input.id))
+        .returning();
+      return row[0];
+    }),
+
+  // Permanently delete a trashed asset and its search vectors, reporting vectors that remain
+  purge: scopedProcedure("assets:write")
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireAssetRole(ctx, input.id, "editor", { trashed: true });
+      await db.delete(asset).where(eq(asset.id, input.id));
+      const error = await deleteVectors(db, "assetId", [input.id]);
+      if (error) console.warn(error.message);
+      return { success: true, errors: error ? [error.message] : [] };
     }),
 
   // Trigger re-indexing (sets status back to pending for worker to pick up)
-  triggerIndex: protectedProcedure
+  triggerIndex: scopedProcedure("assets:write")
     .input(z.object({ id: z.string(), spaceId: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      // Ensure asset exists and belongs to user
+      // Ensure asset exists and the user may edit its space
+      await requireSpaceRole(ctx, input.spaceId, "editor");
       const exists = await db.query.asset.findFirst({
         where: and(
           eq(asset.id, input.id),
           eq(asset.spaceId, input.spaceId),
-          eq(asset.userId, ctx.user.id),
+          isNull(asset.deletedAt),
         ),
       });
 
@@ -211,17 +239,18 @@ export const assetRouter = router({
     }),
 
   // Trigger video conforming (re-encode to browser-compatible format, max 60fps)
-  triggerConform: protectedProcedure
+  triggerConform: scopedProcedure("assets:write")
     .input(
       z.object({ id: z.string(), spaceId: z.string(), maxFps: z.number().optional().default(60) }),
     )
     .mutation(async ({ ctx, input }) => {
-      // Ensure asset exists and belongs to user
+      // Ensure asset exists and the user may edit its space
+      await requireSpaceRole(ctx, input.spaceId, "editor");
       const exists = await db.query.asset.findFirst({
         where: and(
           eq(asset.id, input.id),
           eq(asset.spaceId, input.spaceId),
-          eq(asset.userId, ctx.user.id),
+          isNull(asset.deletedAt),
         ),
       });
 
@@ -248,7 +277,7 @@ export const assetRouter = router({
    * Uses Gemini embeddings + pgvector cosine similarity.
    * Returns deduplicated assets ranked by best match score.
    */
-  semanticSearch: protectedProcedure
+  semanticSearch: scopedProcedure("assets:read")
     .input(
       z.object({
         spaceId: z.string(),
@@ -257,6 +286,7 @@ export const assetRouter = router({
       }),
     )
     .query(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.spaceId, "viewer");
       const apiKey = process.env.GOOGLE_API_KEY;
       if (!apiKey) throw new Error("GOOGLE_API_KEY not configured");
 
@@ -304,10 +334,17 @@ export const assetRouter = router({
         distance: number;
       }>;
 
+      // Vectors of trashed assets stay until purge
+      const trashed = await db.query.asset.findMany({
+        where: and(eq(asset.spaceId, input.spaceId), isNotNull(asset.deletedAt)),
+        columns: { id: true },
+      });
+      const trashedIds = new Set(trashed.map((row) => row.id));
+
       // Deduplicate — keep the best (lowest distance) hit per assetId
       const seen = new Map<string, (typeof rows)[0]>();
       for (const row of rows) {
-        if (!row.assetId) continue;
+        if (!row.assetId || trashedIds.has(row.assetId)) continue;
         const existing = seen.get(row.assetId);
         if (!existing || row.distance < existing.distance) {
           seen.set(row.assetId, row);
@@ -1,13 +1,14 @@
 import { z } from "zod";
-import { eq, and, sql } from "drizzle-orm";
-import { getDB, space } from "@openvideo/db";
-import { router, protectedProcedure } from "../trpc.js";
+import { sql } from "drizzle-orm";
+import { getDB } from "@openvideo/db";
+import { router, scopedProcedure } from "../trpc.js";
+import { requireSpaceRole } from "../access.js";
 import { GoogleGenAI } from "@google/genai";
 
 const db = getDB();
 
 export const chatRouter = router({
-  send: protectedProcedure
+  send: scopedProcedure("director:chat")
     .input(
       z.object({
         spaceId: z.string(),
@@ -16,14 +17,8 @@ export const chatRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // 1. Verify space access
-      const spaceExists = await db.query.space.findFirst({
-        where: and(eq(space.id, input.spaceId), eq(space.userId, ctx.user.id)),
-      });
-
-      if (!spaceExists) {
-        throw new Error("Space not found or unauthorized");
-      }
+      // 1. Verify space access (answers only read the space)
+      await requireSpaceRole(ctx, input.spaceId, "viewer");
 
       // 2. Initialize Gemini
       const apiKey = process.env.GOOGLE_API_KEY;
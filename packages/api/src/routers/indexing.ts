@@ -1,14 +1,16 @@
 import { z } from "zod";
 import { eq } from "drizzle-orm";
 import { getDB, assetIndexingStatus } from "@openvideo/db";
-import { protectedProcedure, router } from "../trpc.js";
+import { scopedProcedure, router } from "../trpc.js";
+import { requireAssetRole, requireSpaceRole } from "../access.js";
 
 const db = getDB();
 
 export const indexingRouter = router({
-  triggerBulkIndex: protectedProcedure
+  triggerBulkIndex: scopedProcedure("assets:write")
     .input(z.object({ spaceId: z.string(), assetIds: z.array(z.string()).optional() }))
     .mutation(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.spaceId, "editor");
       // Trigger bulk indexing for a space using Modal
       try {
         // Import Modal client (you'll need to install modal-client package)
@@ -33,9 +35,10 @@ export const indexingRouter = router({
       }
     }),
 
-  getBulkStatus: protectedProcedure
+  getBulkStatus: scopedProcedure("assets:read")
     .input(z.object({ spaceId: z.string() }))
     .query(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.spaceId, "viewer");
       // Get the current indexing status for a space
       try {
         // TODO: Replace with actual Modal function calls
@@ -54,9 +57,10 @@ export const indexingRouter = router({
       }
     }),
 
-  getIndexedAssets: protectedProcedure
+  getIndexedAssets: scopedProcedure("assets:read")
     .input(z.object({ spaceId: z.string() }))
     .query(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.spaceId, "viewer");
       // Get list of indexed assets for a space
       try {
         // TODO: Replace with actual database queries
@@ -80,9 +84,10 @@ export const indexingRouter = router({
       }
     }),
 
-  indexAsset: protectedProcedure
+  indexAsset: scopedProcedure("assets:write")
     .input(z.object({ assetId: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      await requireAssetRole(ctx, input.assetId, "editor");
       // Index a single asset using Modal
       try {
         // TODO: Replace with actual Modal function calls
@@ -100,9 +105,10 @@ export const indexingRouter = router({
       }
     }),
 
-  getIndexingStatus: protectedProcedure
+  getIndexingStatus: scopedProcedure("assets:read")
     .input(z.object({ assetId: z.string() }))
     .query(async ({ ctx, input }) => {
+      await requireAssetRole(ctx, input.assetId, "viewer");
       // Get indexing status for a specific asset from database
       try {
         const status = await db.query.assetIndexingStatus.findFirst({
@@ -1,12 +1,11 @@
 import { z } from "zod";
-import { router, protectedProcedure } from "../trpc.js";
-import { eq } from "drizzle-orm";
-import { getDB, schema } from "@openvideo/db";
+import { router, protectedProcedure, scopedProcedure } from "../trpc.js";
 import { ModalClient } from "modal";
+import { requireSpaceRole } from "../access.js";
 
 export const mediaRouter = router({
   // Generate image using Modal
-  generateImage: protectedProcedure
+  generateImage: scopedProcedure("render:create")
     .input(
       z.object({
         spaceId: z.string(),
@@ -16,16 +15,8 @@ export const mediaRouter = router({
     )
     .mutation(async ({ ctx, input }: any) => {
       const { spaceId, stepId, prompt } = input;
-      const db = getDB();
-
-      // Verify user has access to the space
-      const space = await db.query.space.findFirst({
-        where: eq(schema.space.id, spaceId),
-      });
-
-      if (!space || space.userId !== ctx.user.id) {
-        throw new Error("Space not found or access denied");
-      }
+      // Verify user may add media to the space
+      await requireSpaceRole(ctx, spaceId, "editor");
 
       console.log(`[DEBUG] Triggering Modal image generation for space ${spaceId}, step ${stepId}`);
 
@@ -52,7 +43,7 @@ export const mediaRouter = router({
     }),
 
   // Generate video using Modal
-  generateVideo: protectedProcedure
+  generateVideo: scopedProcedure("render:create")
     .input(
       z.object({
         spaceId: z.string(),
@@ -63,16 +54,8 @@ export const mediaRouter = router({
     )
     .mutation(async ({ ctx, input }: any) => {
       const { spaceId, stepId, imageUrl, prompt } = input;
-      const db = getDB();
-
-      // Verify user has access to the space
-      const space = await db.query.space.findFirst({
-        where: eq(schema.space.id, spaceId),
-      });
-
-      if (!space || space.userId !== ctx.user.id) {
-        throw new Error("Space not found or access denied");
-      }
+      // Verify user may add media to the space
+      await requireSpaceRole(ctx, spaceId, "editor");
 
       console.log(`[DEBUG] Triggering Modal video generation for space ${spaceId}, step ${stepId}`);
 
@@ -106,7 +89,7 @@ export const mediaRouter = router({
     }),
 
   // Generate audio using ElevenLabs via Modal
-  generateAudio: protectedProcedure
+  generateAudio: scopedProcedure("render:create")
     .input(
       z.object({
         spaceId: z.string(),
@@ -118,16 +101,8 @@ export const mediaRouter = router({
     )
     .mutation(async ({ ctx, input }: any) => {
       const { spaceId, stepId, prompt, durationSeconds, audioType } = input;
-      const db = getDB();
-
-      // Verify user has access to the space
-      const space = await db.query.space.findFirst({
-        where: eq(schema.space.id, spaceId),
-      });
-
-      if (!space || space.userId !== ctx.user.id) {
-        throw new Error("Space not found or access denied");
-      }
+      // Verify user may add media to the space
+      await requireSpaceRole(ctx, spaceId, "editor");
 
       console.log(`[DEBUG] Triggering Modal audio generation for space ${spaceId}, step ${stepId}`);
 
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { router, protectedProcedure } from "../trpc.js";
+import { router, scopedProcedure } from "../trpc.js";
+import { requireSpaceRole } from "../access.js";
 import { SignJWT } from "jose";
 
 const JWT_SECRET = new TextEncoder().encode(
@@ -8,15 +9,21 @@ const JWT_SECRET = new TextEncoder().encode(
 
 export const sessionRouter = router({
   // Get token for Director WebSocket connection
-  getToken: protectedProcedure
+  getToken: scopedProcedure("spaces:read")
     .input(z.object({ spaceId: z.string().optional() }))
     .query(async ({ ctx, input }) => {
-      // Generate JWT for WebSocket connection (same secret as Director)
+      if (input.spaceId) {
+        await requireSpaceRole(ctx, input.spaceId, "viewer");
+      }
+
+      // Generate JWT for WebSocket connection (same secret as Director).
+      // API token grants carry over so the socket cannot exceed them.
       const token = await new SignJWT({
         sub: ctx.user.id,
         email: ctx.user.email,
         name: ctx.user.name,
         spaceId: input.spaceId,
+        ...(ctx.token && { scopes: ctx.token.scopes, spaceIds: ctx.token.spaceIds }),
       })
         .setProtectedHeader({ alg: "HS256" })
         .setIssuedAt()
@@ -1,36 +1,56 @@
 import { z } from "zod";
-import { eq, and, desc } from "drizzle-orm";
-import { getDB, space, directorSession } from "@openvideo/db";
-import { router, protectedProcedure } from "../trpc.js";
+import { TRPCError } from "@trpc/server";
+import { eq, and, desc, isNull, isNotNull, inArray } from "drizzle-orm";
+import {
+  getDB,
+  space,
+  spaceMember,
+  asset,
+  user,
+  directorSession,
+  getPurgeAt,
+  deleteVectors,
+  MEMBER_ROLES,
+  getSpaceIdsWithRole,
+} from "@openvideo/db";
+import { router, scopedProcedure } from "../trpc.js";
+import { requireSpaceRole, requireTokenSpace, requireUnrestricted } from "../access.js";
 
 const db = getDB();
 
 export const spaceRouter = router({
-  // List all spaces for the current user
-  list: protectedProcedure.query(async ({ ctx }) => {
+  // List all spaces the current user created, excluding the trash
+  list: scopedProcedure("spaces:read").query(async ({ ctx }) => {
     const spaces = await db.query.space.findMany({
-      where: eq(space.userId, ctx.user.id),
+      where: and(
+        eq(space.userId, ctx.user.id),
+        isNull(space.deletedAt),
+        ctx.token?.spaceIds ? inArray(space.id, ctx.token.spaceIds) : undefined,
+      ),
       orderBy: desc(space.updatedAt),
     });
     return spaces;
   }),
 
-  // Get a single space by ID
-  getById: protectedProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
-    const result = await db.query.space.findFirst({
-      where: and(eq(space.id, input.id), eq(space.userId, ctx.user.id)),
-      with: {
-        directorSessions: true,
-      },
-    });
-    if (!result) {
-      throw new Error("Space not found");
-    }
-    return result;
-  }),
+  // Get a single space by ID, with the current user's role in it
+  getById: scopedProcedure("spaces:read")
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { role } = await requireSpaceRole(ctx, input.id, "viewer");
+      const result = await db.query.space.findFirst({
+        where: eq(space.id, input.id),
+        with: {
+          directorSessions: { where: eq(directorSession.userId, ctx.user.id) },
+        },
+      });
+      if (!result) {
+        throw new Error("Space not found");
+      }
+      return { ...result, role };
+    }),
 
   // Create a new space
-  create: protectedProcedure
+  create: scopedProcedure("spaces:write")
     .input(
       z.object({
         name: z.string().min(1),
@@ -44,6 +64,7 @@ export const spaceRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      requireUnrestricted(ctx);
       const id = crypto.randomUUID();
       const newSpace = await db
         .insert(space)
@@ -64,7 +85,7 @@ export const spaceRouter = router({
     }),
 
   // Update space data
-  update: protectedProcedure
+  update: scopedProcedure("spaces:write")
     .input(
       z.object({
         id: z.string(),
@@ -80,6 +101,7 @@ export const spaceRouter = router({
     )
     .mutation(async ({ ctx, input }) => {
       const { id, ...updates } = input;
+      await requireSpaceRole(ctx, id, "editor");
 
       const updateData: Partial<typeof space.$inferInsert> = {
         updatedAt: new Date(),
@@ -93,11 +115,7 @@ export const spaceRouter = router({
       if (updates.scene !== undefined) updateData.scene = updates.scene;
       if (updates.data !== undefined) updateData.data = updates.data;
 
-      const result = await db
-        .update(space)
-        .set(updateData)
-        .where(and(eq(space.id, id), eq(space.userId, ctx.user.id)))
-        .returning();
+      const result = await db.update(space).set(updateData).where(eq(space.id, id)).returning();
 
       if (result.length === 0) {
         throw new Error("Space not found or unauthorized");
@@ -105,33 +123,307 @@ export const spaceRouter = router({
       return result[0];
     }),
 
-  // Delete a space
-  delete: protectedProcedure
+  // Move a space and its assets to the trash
+  delete: scopedProcedure("spaces:write")
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.id, "owner");
+      const deletedAt = new Date();
+      await db.update(space).set({ deletedAt }).where(eq(space.id, input.id));
+
+      // Assets share the space's timestamp so restore brings back exactly these
+      await db
+        .update(asset)
+        .set({ deletedAt })
+        .where(and(eq(asset.spaceId, input.id), isNull(asset.deletedAt)));
+
+      return { success: true, purgeAt: getPurgeAt(deletedAt) };
+    }),
+
+  // List trashed spaces the user owns, and trashed assets of the spaces they can edit
+  // that are not trashed themselves, whoever uploaded them
+  trash: scopedProcedure("spaces:read").query(async ({ ctx }) => {
+    const spaceIds = ctx.token?.spaceIds;
+    const editable = await getSpaceIdsWithRole(db, ctx.user.id, "editor");
+    const spaces = await db.query.space.findMany({
+      where: and(
+        eq(space.userId, ctx.user.id),
+        isNotNull(space.deletedAt),
+        spaceIds ? inArray(space.id, spaceIds) : undefined,
+      ),
+      orderBy: desc(space.deletedAt),
+    });
+    const assets = await db.query.asset.findMany({
+      where: and(
+        isNotNull(asset.deletedAt),
+        inArray(asset.spaceId, editable),
+        spaceIds ? inArray(asset.spaceId, spaceIds) : undefined,
+      ),
+      orderBy: desc(asset.deletedAt),
+      with: { space: true },
+    });
+
+    return {
+      spaces: spaces.map((row) => ({ ...row, purgeAt: getPurgeAt(row.deletedAt!) })),
+      assets: assets
+        .filter((row) => row.space.deletedAt === null)
+        .map(({ space: _space, ...row }) => ({ ...row, purgeAt: getPurgeAt(row.deletedAt!) })),
+    };
+  }),
+
+  // Bring a space and the assets trashed with it back from the trash
+  restore: scopedProcedure("spaces:write")
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      const { space: trashed } = await requireSpaceRole(ctx, input.id, "owner", {
+        trashed: true,
+      });
+
+      await db
+        .update(asset)
+        .set({ deletedAt: null })
+        .where(and(eq(asset.spaceId, input.id), eq(asset.deletedAt, trashed.deletedAt!)));
       const result = await db
-        .delete(space)
-        .where(and(eq(space.id, input.id), eq(space.userId, ctx.user.id)))
+        .update(space)
+        .set({ deletedAt: null, updatedAt: new Date() })
+        .where(eq(space.id, input.id))
+        .returning();
+
+      return result[0];
+    }),
+
+  // Permanently delete a trashed space, cascading to its assets, transcripts and sessions.
+  // `errors` lists search vectors that could not be deleted; the space is gone either way
+  purge: scopedProcedure("spaces:write")
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.id, "owner", { trashed: true });
+      await db.delete(space).where(eq(space.id, input.id));
+      const error = await deleteVectors(db, "spaceId", [input.id]);
+      if (error) console.warn(error.message);
+      return { success: true, errors: error ? [error.message] : [] };
+    }),
+
+  // Permanently delete everything the trash lists, reporting vector deletions that failed
+  emptyTrash: scopedProcedure("spaces:write").mutation(async ({ ctx }) => {
+    requireUnrestricted(ctx);
+    const editable = await getSpaceIdsWithRole(db, ctx.user.id, "editor");
+    const spaces = await db
+      .delete(space)
+      .where(and(eq(space.userId, ctx.user.id), isNotNull(space.deletedAt)))
+      .returning({ id: space.id });
+    const assets = await db
+      .delete(asset)
+      .where(and(isNotNull(asset.deletedAt), inArray(asset.spaceId, editable)))
+      .returning({ id: asset.id });
+    const errors = [
+      await deleteVectors(
+        db,
+        "spaceId",
+        spaces.map((row) => row.id),
+      ),
+      await deleteVectors(
+        db,
+        "assetId",
+        assets.map((row) => row.id),
+      ),
+    ].filter((error): error is Error => error !== undefined);
+    errors.forEach((error) => console.warn(error.message));
+    return {
+      spaces: spaces.length,
+      assets: assets.length,
+      errors: errors.map((error) => error.message),
+    };
+  }),
+
+  // List spaces shared with the current user, and invites waiting for them
+  shared: scopedProcedure("spaces:read").query(async ({ ctx }) => {
+    const email = ctx.user.email.toLowerCase();
+    const spaceIds = ctx.token?.spaceIds;
+    const memberships = await db.query.spaceMember.findMany({
+      where: and(
+        eq(spaceMember.userId, ctx.user.id),
+        isNotNull(spaceMember.acceptedAt),
+        spaceIds ? inArray(spaceMember.spaceId, spaceIds) : undefined,
+      ),
+      with: { space: true },
+    });
+    const invites = await db.query.spaceMember.findMany({
+      where: and(
+        eq(spaceMember.email, email),
+        isNull(spaceMember.acceptedAt),
+        spaceIds ? inArray(spaceMember.spaceId, spaceIds) : undefined,
+      ),
+      with: { space: true },
+    });
+
+    const inviterIds = invites.map((row) => row.invitedBy).filter((id): id is string => !!id);
+    const inviters =
+      inviterIds.length > 0
+        ? await db.query.user.findMany({ where: inArray(user.id, inviterIds) })
+        : [];
+
+    return {
+      spaces: memberships
+        .filter((row) => row.space.deletedAt === null)
+        .map((row) => ({ ...row.space, role: row.role, memberId: row.id }))
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+      invites: invites
+        .filter((row) => row.space.deletedAt === null)
+        .map((row) => ({
+          id: row.id,
+          spaceId: row.spaceId,
+          spaceName: row.space.name,
+          role: row.role,
+          invitedBy: inviters.find((inviter) => inviter.id === row.invitedBy)?.name ?? null,
+          createdAt: row.createdAt,
+        })),
+    };
+  }),
+
+  // List a space's owner and members, including pending invites
+  members: scopedProcedure("spaces:read")
+    .input(z.object({ spaceId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { space: row } = await requireSpaceRole(ctx, input.spaceId, "viewer");
+      const owner = await db.query.user.findFirst({ where: eq(user.id, row.userId) });
+      const members = await db.query.spaceMember.findMany({
+        where: eq(spaceMember.spaceId, input.spaceId),
+        with: { user: true },
+        orderBy: desc(spaceMember.createdAt),
+      });
+
+      return {
+        owner: owner
+          ? { id: owner.id, name: owner.name, email: owner.email, image: owner.image }
+          : null,
+        members: members.map((member) => ({
+          id: member.id,
+          email: member.email,
+          role: member.role,
+          name: member.user?.name ?? null,
+          image: member.user?.image ?? null,
+          pending: member.acceptedAt === null,
+        })),
+      };
+    }),
+
+  // Invite someone by email, or change the role of an existing invite
+  invite: scopedProcedure("spaces:write")
+    .input(
+      z.object({
+        spaceId: z.string(),
+        email: z.string().email(),
+        role: z.enum(MEMBER_ROLES),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { space: row } = await requireSpaceRole(ctx, input.spaceId, "owner");
+      const email = input.email.toLowerCase();
+      const owner = await db.query.user.findFirst({ where: eq(user.id, row.userId) });
+      if (owner?.email.toLowerCase() === email) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The space owner is already a member",
+        });
+      }
+
+      const [member] = await db
+        .insert(spaceMember)
+        .values({
+          id: crypto.randomUUID(),
+          spaceId: input.spaceId,
+          email,
+          role: input.role,
+          invitedBy: ctx.user.id,
+        })
+        .onConflictDoUpdate({
+          target: [spaceMember.spaceId, spaceMember.email],
+          set: { role: input.role, updatedAt: new Date() },
+        })
         .returning();
 
+      if (member.acceptedAt === null) {
+        const appUrl = process.env.APP_URL || "http://localhost:3000";
+        await ctx.mailer
+          ?.sendSpaceInviteEmail({
+            email,
+            spaceName: row.name,
+            inviterName: ctx.user.name || ctx.user.email,
+            role: input.role,
+            inviteLink: `${appUrl}/shared`,
+          })
+          .catch((err: Error) => {
+            console.error(`Failed to send invite email to ${email}:`, err);
+          });
+      }
+      return member;
+    }),
+
+  // Change a member's role
+  updateMember: scopedProcedure("spaces:write")
+    .input(z.object({ spaceId: z.string(), memberId: z.string(), role: z.enum(MEMBER_ROLES) }))
+    .mutation(async ({ ctx, input }) => {
+      await requireSpaceRole(ctx, input.spaceId, "owner");
+      const result = await db
+        .update(spaceMember)
+        .set({ role: input.role, updatedAt: new Date() })
+        .where(and(eq(spaceMember.id, input.memberId), eq(spaceMember.spaceId, input.spaceId)))
+        .returning();
       if (result.length === 0) {
-        throw new Error("Space not found or unauthorized");
+        throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
       }
+      return result[0];
+    }),
+
+  // Remove a member or cancel an invite; members may also remove themselves
+  removeMember: scopedProcedure("spaces:write")
+    .input(z.object({ spaceId: z.string(), memberId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      requireTokenSpace(ctx, input.spaceId);
+      const member = await db.query.spaceMember.findFirst({
+        where: and(eq(spaceMember.id, input.memberId), eq(spaceMember.spaceId, input.spaceId)),
+      });
+      if (!member) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+      }
+      const isSelf = member.userId === ctx.user.id || member.email === ctx.user.email.toLowerCase();
+      if (!isSelf) {
+        await requireSpaceRole(ctx, input.spaceId, "owner");
+      }
+
+      await db.delete(spaceMember).where(eq(spaceMember.id, member.id));
       return { success: true };
     }),
 
+  // Accept an invite sent to the current user's email
+  acceptInvite: scopedProcedure("spaces:write")
+    .input(z.object({ spaceId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      requireUnrestricted(ctx);
+      const result = await db
+        .update(spaceMember)
+        .set({ userId: ctx.user.id, acceptedAt: new Date(), updatedAt: new Date() })
+        .where(
+          and(
+            eq(spaceMember.spaceId, input.spaceId),
+            eq(spaceMember.email, ctx.user.email.toLowerCase()),
+            isNull(spaceMember.acceptedAt),
+          ),
+        )
+        .returning();
+      if (result.length === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invite not found" });
+      }
+      return result[0];
+    }),
+
   // Get or create director session for a space
-  getDirectorSession: protectedProcedure
+  getDirectorSession: scopedProcedure("spaces:read")
     .input(z.object({ spaceId: z.string() }))
     .query(async ({ ctx, input }) => {
       // Verify space access
-      const spaceResult = await db.query.space.findFirst({
-        where: and(eq(space.id, input.spaceId), eq(space.userId, ctx.user.id)),
-      });
-
-      if (!spaceResult) {
-        throw new Error("Space not found or unauthorized");
-      }
+      await requireSpaceRole(ctx, input.spaceId, "viewer");
 
       // Try to find existing session
       let session = await db.query.directorSession.findFirst({
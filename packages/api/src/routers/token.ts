@@ -1,7 +1,8 @@
 import { z } from "zod";
 import { eq, and, isNull } from "drizzle-orm";
-import { getDB, apiToken } from "@openvideo/db";
-import { router, protectedProcedure } from "../trpc.js";
+import { getDB, apiToken, API_SCOPES, parseTokenList } from "@openvideo/db";
+import { router, scopedProcedure } from "../trpc.js";
+import { requireSpaceRole, requireUnrestricted } from "../access.js";
 import crypto from "crypto";
 
 const db = getDB();
@@ -18,16 +19,25 @@ function generateRandomString(size: number): string {
   return result;
 }
 
+// Tokens are managed across spaces, so tokens restricted to particular spaces
+// may not; otherwise one could mint itself an unrestricted token
 export const tokenRouter = router({
-  create: protectedProcedure
+  create: scopedProcedure("all")
     .input(
       z.object({
         name: z.string().optional(),
-        scopes: z.array(z.string()).default(["all"]),
+        scopes: z.array(z.enum(API_SCOPES)).min(1).default(["all"]),
+        // Restrict the token to these spaces; omit for every space
+        spaceIds: z.array(z.string()).min(1).nullable().optional(),
         expiresInDays: z.number().nullable().optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      requireUnrestricted(ctx);
+      for (const spaceId of input.spaceIds ?? []) {
+        await requireSpaceRole(ctx, spaceId, "viewer");
+      }
+
       const id = crypto.randomUUID();
       const randomPart = generateRandomString(TOKEN_LENGTH);
       const fullToken = `${TOKEN_PREFIX}${randomPart}`;
@@ -51,6 +61,7 @@ export const tokenRouter = router({
           userId: ctx.user.id,
           name: input.name || null,
           scopes: input.scopes.join(","),
+          spaceIds: input.spaceIds?.join(",") ?? null,
           expiresAt,
         })
         .returning();
@@ -59,20 +70,23 @@ export const tokenRouter = router({
         id: rows[0].id,
         name: rows[0].name,
         tokenHint: rows[0].tokenHint,
-        scopes: rows[0].scopes ? rows[0].scopes.split(",") : [],
+        scopes: parseTokenList(rows[0].scopes),
+        spaceIds: rows[0].spaceIds ? parseTokenList(rows[0].spaceIds) : null,
         expiresAt: rows[0].expiresAt,
         createdAt: rows[0].createdAt,
         token: fullToken, // returned once
       };
     }),
 
-  list: protectedProcedure.query(async ({ ctx }) => {
+  list: scopedProcedure("all").query(async ({ ctx }) => {
+    requireUnrestricted(ctx);
     const rows = await db
       .select({
         id: apiToken.id,
         name: apiToken.name,
         tokenHint: apiToken.tokenHint,
         scopes: apiToken.scopes,
+        spaceIds: apiToken.spaceIds,
         lastUsed: apiToken.lastUsed,
         expiresAt: apiToken.expiresAt,
         createdAt: apiToken.createdAt,
@@ -88,11 +102,12 @@ export const tokenRouter = router({
 
     return rows.map((r) => ({
       ...r,
-      scopes: r.scopes ? r.scopes.split(",") : [],
+      scopes: parseTokenList(r.scopes),
+      spaceIds: r.spaceIds ? parseTokenList(r.spaceIds) : null,
     }));
   }),
 
-  update: protectedProcedure
+  update: scopedProcedure("all")
     .input(
       z.object({
         id: z.string(),
@@ -100,6 +115,7 @@ export const tokenRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      requireUnrestricted(ctx);
       const result = await db
         .update(apiToken)
         .set({ name: input.name })
@@ -112,9 +128,10 @@ export const tokenRouter = router({
       return { success: true };
     }),
 
-  delete: protectedProcedure
+  delete: scopedProcedure("all")
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      requireUnrestricted(ctx);
       const result = await db
         .delete(apiToken)
         .where(and(eq(apiToken.id, input.id), eq(apiToken.userId, ctx.user.id)))
@@ -1,6 +1,15 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { Auth, SessionValidationResult } from "@openvideo/auth";
+import {
+  getDB,
+  user,
+  eq,
+  hasScope,
+  verifyApiToken,
+  type ApiScope,
+  type TokenGrant,
+} from "@openvideo/db";
 
 /**
  * tRPC Context - passed to all resolvers
@@ -8,7 +17,23 @@ import type { Auth, SessionValidationResult } from "@openvideo/auth";
 export interface CreateContextOptions {
   auth: Auth;
   session: SessionValidationResult;
+  /** Set when the request authenticated with an API token instead of a session */
+  token: TokenGrant | null;
   req?: Request;
+  mailer?: Mailer;
+}
+
+/**
+ * Email senders supplied by the host app, which owns the email provider and templates
+ */
+export interface Mailer {
+  sendSpaceInviteEmail: (props: {
+    email: string;
+    spaceName: string;
+    inviterName: string;
+    role: string;
+    inviteLink: string;
+  }) => Promise<void>;
 }
 
 /**
@@ -30,13 +55,13 @@ export const createCallerFactory = t.createCallerFactory;
  * Reusable middleware that enforces users are logged in before running the procedure
  */
 const enforceUserIsAuthed = t.middleware(({ ctx, next }) => {
-  if (!ctx.session.user || !ctx.session.session) {
+  if (!ctx.session.user || (!ctx.session.session && !ctx.token)) {
     throw new TRPCError({ code: "UNAUTHORIZED" });
   }
   return next({
     ctx: {
       ...ctx,
-      // Infers that `session` and `user` are non-nullable
+      // Infers that `user` is non-nullable
       session: ctx.session.session,
       user: ctx.session.user,
     },
@@ -48,18 +73,61 @@ const enforceUserIsAuthed = t.middleware(({ ctx, next }) => {
  */
 export const protectedProcedure = t.procedure.use(enforceUserIsAuthed);
 
+/**
+ * Protected procedure that API tokens may only call with `scope`.
+ * Browser sessions hold every scope.
+ */
+export const scopedProcedure = (scope: ApiScope) =>
+  protectedProcedure.use(({ ctx, next }) => {
+    if (ctx.token && !hasScope(ctx.token.scopes, scope)) {
+      throw new TRPCError({ code: "FORBIDDEN", message: `API token lacks the ${scope} scope` });
+    }
+    return next();
+  });
+
 /**
  * Create context function - use this in your tRPC handler
  */
 export async function createTRPCContext(opts: {
   auth: Auth;
   req: Request;
+  mailer?: Mailer;
 }): Promise<CreateContextOptions> {
+  const apiToken = opts.req.headers.get("x-api-token");
+  if (apiToken) {
+    return {
+      auth: opts.auth,
+      ...(await getTokenSession(apiToken)),
+      req: opts.req,
+      mailer: opts.mailer,
+    };
+  }
+
   const { getSessionFromRequest } = await import("@openvideo/auth");
   const session = await getSessionFromRequest(opts.auth, opts.req);
   return {
     auth: opts.auth,
     session,
+    token: null,
     req: opts.req,
+    mailer: opts.mailer,
+  };
+}
+
+/**
+ * Resolve an `X-API-Token` header to its user and grant
+ */
+async function getTokenSession(
+  apiToken: string,
+): Promise<Pick<CreateContextOptions, "session" | "token">> {
+  const db = getDB();
+  const grant = await verifyApiToken(db, apiToken);
+  const row = grant ? await db.query.user.findFirst({ where: eq(user.id, grant.userId) }) : null;
+  if (!grant || !row) {
+    return { session: { user: null, session: null }, token: null };
+  }
+  return {
+    session: { user: row, session: null },
+    token: { scopes: grant.scopes, spaceIds: grant.spaceIds },
   };
 }
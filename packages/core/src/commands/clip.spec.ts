@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import type { AnyClip, IAudioClip, IImageClip, IVideoClip } from "../types";
+import { createProjectStore, type ProjectStore } from "../project";
+import { run, text } from "../test-utils";
+import { registerDefaultHandlers } from "./index";
+import {
+  freezeFrameHandler,
+  setBlendModeHandler,
+  setReversedHandler,
+  splitClipHandler,
+} from "./clip";
+
+const S = 1_000_000;
+
+/** Video clip showing [from, to) s of the timeline, its source starting at `source` s */
+function video(id: string, from: number, to: number, source = 10): IVideoClip {
+  return {
+    id,
+    type: "Video",
+    name: id,
+    src: `${id}.mp4`,
+    transform: { x: 0, y: 0, width: 1920, height: 1080, angle: 0, zIndex: 0, opacity: 1 },
+    timing: {
+      display: { from: from * S, to: to * S },
+      trim: { from: source * S, to: (source + to - from) * S },
+      duration: (to - from) * S,
+      playbackRate: 1,
+    },
+  };
+}
+
+/** Video clip `a` played backwards */
+function reversed(from: number, to: number, source = 10): IVideoClip {
+  const clip = video("a", from, to, source);
+  return { ...clip, timing: { ...clip.timing, reversed: true } };
+}
+
+/** One track holding `clips` */
+function project(...clips: AnyClip[]): ProjectStore {
+  return createProjectStore({
+    clips: Object.fromEntries(clips.map((clip) => [clip.id, clip])),
+    tracks: [{ id: "t0", name: "Track", type: "Video", clipIds: clips.map((clip) => clip.id) }],
+  }).getState();
+}
+
+/** Display range of a clip in seconds */
+const span = (state: ProjectStore, id: string) => {
+  const { display } = state.clips[id].timing;
+  return [display.from / S, display.to / S];
+};
+
+/** Source range of a clip in seconds */
+const source = (state: ProjectStore, id: string) => {
+  const { trim } = state.clips[id].timing;
+  return [trim.from / S, trim.to / S];
+};
+
+/** A command carrying `payload`, for calling handlers directly */
+const command = <T>(payload: T) => ({ id: "c1", type: "test", payload });
+
+/** The clip the freeze frame command selected */
+const frozen = (state: ProjectStore) => state.clips[state.selectedIds[0]] as IImageClip;
+
+describe("freezeFrameHandler", () => {
+  it("should split the clip and hold the frame in between", () => {
+    const initial = project(video("a", 0, 4), video("b", 4, 5));
+    const { state } = run(initial, freezeFrameHandler, { id: "a", time: 1 * S, duration: 2 * S });
+
+    const freeze = frozen(state);
+    expect(freeze.type).toBe("Image");
+    expect(freeze.src).toBe("a.mp4");
+    expect(freeze.freezeFrame).toEqual({ time: 11 * S });
+    expect(span(state, freeze.id)).toEqual([1, 3]);
+
+    const [left, held, right, after] = state.tracks[0].clipIds;
+    expect([left, held, after]).toEqual(["a", freeze.id, "b"]);
+    expect(span(state, "a")).toEqual([0, 1]);
+    expect(source(state, "a")).toEqual([10, 11]);
+    expect(span(state, right)).toEqual([3, 6]);
+    expect(source(state, right)).toEqual([11, 14]);
+    expect(span(state, "b")).toEqual([6, 7]);
+  });
+
+  it("should hold the first frame before the clip without splitting it", () => {
+    const { state } = run(project(video("a", 0, 4)), freezeFrameHandler, {
+      id: "a",
+      time: 0,
+      duration: 1 * S,
+    });
+    const freeze = frozen(state);
+    expect(state.tracks[0].clipIds).toEqual([freeze.id, "a"]);
+    expect(freeze.freezeFrame).toEqual({ time: 10 * S });
+    expect(span(state, "a")).toEqual([1, 5]);
+    expect(source(state, "a")).toEqual([10, 14]);
+  });
+
+  it("should hold the frame counted back from the end of a reversed clip", () => {
+    const { state } = run(project(reversed(0, 4)), freezeFrameHandler, {
+      id: "a",
+      time: 1 * S,
+      duration: 2 * S,
+    });
+    expect(frozen(state).freezeFrame).toEqual({ time: 13 * S });
+    expect(source(state, "a")).toEqual([13, 14]);
+    expect(source(state, state.tracks[0].clipIds[2])).toEqual([10, 13]);
+  });
+
+  it("should ignore other clip types, times outside the clip and empty holds", () => {
+    const initial = project(video("a", 0, 4), text("t"));
+    expect(freezeFrameHandler(initial, command({ id: "t", time: 0, duration: S }))).toEqual([]);
+    expect(freezeFrameHandler(initial, command({ id: "a", time: 4 * S, duration: S }))).toEqual([]);
+    expect(freezeFrameHandler(initial, command({ id: "a", time: S, duration: 0 }))).toEqual([]);
+  });
+});
+
+describe("setReversedHandler", () => {
+  it("should reverse a clip and drop the flag when played forwards again", () => {
+    const { state } = run(project(video("a", 0, 4)), setReversedHandler, {
+      id: "a",
+      reversed: true,
+    });
+    expect(state.clips.a.timing.reversed).toBe(true);
+
+    const { state: forwards } = run(state, setReversedHandler, { id: "a", reversed: false });
+    expect("reversed" in forwards.clips.a.timing).toBe(false);
+  });
+
+  it("should skip clips already playing that way and clips without media", () => {
+    const initial = project(reversed(0, 4), text("t"));
+    expect(setReversedHandler(initial, command({ id: "a", reversed: true }))).toEqual([]);
+    expect(setReversedHandler(initial, command({ id: "t", reversed: true }))).toEqual([]);
+  });
+
+  it("should swap the source ranges of the halves when a reversed clip is split", () => {
+    const { state } = run(project(reversed(0, 4)), splitClipHandler, { id: "a", time: 1 * S });
+    const right = state.tracks[0].clipIds.find((id) => id !== "a")!;
+    expect(source(state, "a")).toEqual([13, 14]);
+    expect(source(state, right)).toEqual([10, 13]);
+  });
+});
+
+describe("freeze frame and reverse commands", () => {
+  beforeAll(() => registerDefaultHandlers());
+
+  it("should undo each command in one step", () => {
+    const store = createProjectStore({
+      clips: { a: video("a", 0, 4) },
+      tracks: [{ id: "t0", name: "Track", type: "Video", clipIds: ["a"] }],
+    });
+    const before = store.getState();
+    store.getState().execute({
+      id: "c1",
+      type: "clip.freezeFrame",
+      payload: { id: "a", time: 1 * S, duration: 2 * S },
+    });
+    store
+      .getState()
+      .execute({ id: "c2", type: "clip.setReversed", payload: { id: "a", reversed: true } });
+    expect(Object.keys(store.getState().clips)).toHaveLength(3);
+
+    store.getState().undo();
+    expect(store.getState().clips.a.timing.reversed).toBeUndefined();
+    expect(Object.keys(store.getState().clips)).toHaveLength(3);
+
+    store.getState().undo();
+    expect(store.getState().clips).toEqual(before.clips);
+    expect(store.getState().tracks).toEqual(before.tracks);
+  });
+});
+
+describe("setBlendModeHandler", () => {
+  it("should set the blend mode and drop the field when back to normal", () => {
+    const { state } = run(project(video("a", 0, 4), text("t")), setBlendModeHandler, {
+      ids: ["a", "t"],
+      blendMode: "screen",
+    });
+    expect(state.clips.a.blendMode).toBe("screen");
+    expect(state.clips.t.blendMode).toBe("screen");
+
+    const { state: normal } = run(state, setBlendModeHandler, { ids: ["a"], blendMode: "normal" });
+    expect("blendMode" in normal.clips.a).toBe(false);
+    expect(normal.clips.t.blendMode).toBe("screen");
+  });
+
+  it("should skip clips already blending that way, locked clips and clips without pixels", () => {
+    const music = { ...text("music"), type: "Audio", src: "music.mp3" } as unknown as IAudioClip;
+    const locked = { ...text("locked"), locked: true };
+    const state = project(text("t"), locked, music);
+    expect(setBlendModeHandler(state, command({ ids: ["t"], blendMode: "normal" }))).toEqual([]);
+    expect(
+      setBlendModeHandler(state, command({ ids: ["locked", "music"], blendMode: "multiply" })),
+    ).toEqual([]);
+  });
+});
+
+describe("blend mode command", () => {
+  beforeAll(() => registerDefaultHandlers());
+
+  it("should keep the blend mode through the project snapshot as JSON and undo it", () => {
+    const store = createProjectStore({
+      clips: { t: text("t") },
+      tracks: [{ id: "t0", name: "Track", type: "Text", clipIds: ["t"] }],
+    });
+    store.getState().execute({
+      id: "c1",
+      type: "clip.setBlendMode",
+      payload: { ids: ["t"], blendMode: "overlay" },
+    });
+
+    const snapshot = JSON.parse(JSON.stringify(store.getState().getSnapshot()));
+    expect(createProjectStore(snapshot).getState().clips.t.blendMode).toBe("overlay");
+
+    store.getState().undo();
+    expect(store.getState().clips.t).toEqual(text("t"));
+  });
+});
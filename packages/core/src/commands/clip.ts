@@ -1,9 +1,12 @@
 import { CommandHandler, Patch } from "./types";
-import { AnyClip } from "../types";
+import { AnyClip, BlendMode, IClipTiming, IKeyframe, ITrack } from "../types";
 import { manageTracks } from "../utils/manage-tracks";
 import { generateId } from "../utils/id";
 import { redistributeCaptionWords } from "../utils/caption-utils";
 import { normalizeClip, normalizeClipStyle } from "../utils/normalize";
+import { splitKeyframeTrack, splitKeyframes } from "../utils/keyframes";
+import { canPlaceClip } from "../utils/sequences";
+import { MAX_SPEED, MIN_SPEED, getSourceOffset, getTimelineLength } from "../utils/speed-ramp";
 
 export const addClipHandler: CommandHandler<{
   clip: AnyClip;
@@ -11,6 +14,7 @@ export const addClipHandler: CommandHandler<{
 }> = (state, command) => {
   const { clip, trackId } = command.payload;
   const patches: Patch[] = [];
+  if (!canPlaceClip(state, clip)) return patches;
 
   // Clone clip and delete legacy root properties to keep clip object clean
   const cleanClip = { ...clip };
@@ -301,8 +305,13 @@ export const splitClipHandler: CommandHandler<{
 
   const patches: Patch[] = [];
   const splitOffset = time - display.from;
+  const [leftKeyframes, rightKeyframes] = splitKeyframes(
+    clip.keyframes,
+    splitOffset,
+    generateId,
+    state.easings,
+  );
   const playbackRate = clip.timing?.playbackRate || clip.playbackRate || 1;
-  const splitOffsetInSource = splitOffset * playbackRate;
 
   // Ensure we have a valid timing block
   const timing = clip.timing || {
@@ -311,6 +320,10 @@ export const splitClipHandler: CommandHandler<{
     duration: clip.duration || display.to - display.from,
     playbackRate,
   };
+  const splitOffsetInSource = getSourceOffset(timing, splitOffset, state.easings);
+  const [leftRamp, rightRamp] = timing.speedRamp?.length
+    ? splitKeyframeTrack(timing.speedRamp, splitOffset, generateId, state.easings)
+    : [undefined, undefined];
 
   // 1. Update original clip (Left Part)
   const leftClip = {
@@ -325,12 +338,16 @@ export const splitClipHandler: CommandHandler<{
     },
   };
 
+  if (leftKeyframes) leftClip.keyframes = leftKeyframes;
+  if (leftRamp) leftClip.timing.speedRamp = leftRamp;
+
+  // A reversed clip starts at the end of its trim range, so the halves swap source ranges
   const trim = timing.trim;
+  const reversed = timing.reversed === true;
   if (trim) {
-    leftClip.timing.trim = {
-      ...trim,
-      to: trim.from + splitOffsetInSource,
-    };
+    leftClip.timing.trim = reversed
+      ? { ...trim, from: trim.to - splitOffsetInSource }
+      : { ...trim, to: trim.from + splitOffsetInSource };
   }
 
   // Ensure we delete all flat fields from the root
@@ -361,11 +378,13 @@ export const splitClipHandler: CommandHandler<{
     },
   };
 
+  if (rightKeyframes) rightClip.keyframes = rightKeyframes;
+  if (rightRamp) rightClip.timing.speedRamp = rightRamp;
+
   if (trim) {
-    rightClip.timing.trim = {
-      ...trim,
-      from: trim.from + splitOffsetInSource,
-    };
+    rightClip.timing.trim = reversed
+      ? { ...trim, to: trim.to - splitOffsetInSource }
+      : { ...trim, from: trim.from + splitOffsetInSource };
   }
 
   // Ensure we delete all flat fields from the root
@@ -409,3 +428,234 @@ export const splitClipHandler: CommandHandler<{
 
   return patches;
 };
+
+/**
+ * Set or clear the speed ramp of a Video or Audio clip.
+ *
+ * Payload:
+ *   id        — clip ID
+ *   keyframes — speed keyframes (value = playback rate at a display-relative
+ *               time), or null to go back to a constant playbackRate of 1
+ *
+ * The trimmed source range is kept, so the clip's display length is
+ * recomputed from the curve.
+ */
+export const setSpeedRampHandler: CommandHandler<{
+  id: string;
+  keyframes: Array<Omit<IKeyframe, "id"> & { id?: string }> | null;
+}> = (state, command) => {
+  const { id, keyframes } = command.payload;
+  const clip = state.clips[id];
+  if (!clip || clip.locked || (clip.type !== "Video" && clip.type !== "Audio")) return [];
+
+  const timing = clip.timing;
+  const sourceLength =
+    timing.trim.to - timing.trim.from || getSourceOffset(timing, timing.duration, state.easings);
+
+  const speedRamp =
+    keyframes && keyframes.length > 0
+      ? keyframes
+          .map((k) => ({
+            ...k,
+            id: k.id ?? generateId(),
+            time: Math.max(0, k.time),
+            value: Math.min(MAX_SPEED, Math.max(MIN_SPEED, k.value)),
+          }))
+          .sort((a, b) => a.time - b.time)
+      : undefined;
+
+  const nextTiming = { ...timing, playbackRate: 1, speedRamp };
+  if (!speedRamp) delete nextTiming.speedRamp;
+  const length = getTimelineLength(nextTiming, sourceLength, state.easings);
+  nextTiming.duration = length;
+  nextTiming.display = { ...timing.display, to: timing.display.from + length };
+
+  return [
+    {
+      op: "update",
+      path: `/clips/${id}`,
+      value: { ...clip, timing: nextTiming },
+      oldValue: clip,
+    },
+  ];
+};
+
+/**
+ * Play a Video or Audio clip backwards, or forwards again.
+ *
+ * Payload:
+ *   id       — clip ID
+ *   reversed — whether the trimmed source range plays from its end
+ */
+export const setReversedHandler: CommandHandler<{
+  id: string;
+  reversed: boolean;
+}> = (state, command) => {
+  const { id, reversed } = command.payload;
+  const clip = state.clips[id];
+  if (!clip || clip.locked || (clip.type !== "Video" && clip.type !== "Audio")) return [];
+  if ((clip.timing.reversed === true) === reversed) return [];
+
+  const timing: IClipTiming = { ...clip.timing, reversed };
+  if (!reversed) delete timing.reversed;
+
+  return [
+    {
+      op: "update",
+      path: `/clips/${id}`,
+      value: { ...clip, timing },
+      oldValue: clip,
+    },
+  ];
+};
+
+/** Clip types that draw pixels and can blend with the layers under them */
+const BLEND_CLIP_TYPES = new Set([
+  "Video",
+  "Image",
+  "Sequence",
+  "Text",
+  "Caption",
+  "Visualizer",
+  "Shape",
+]);
+
+/**
+ * Set how clips combine with the layers under them.
+ *
+ * Payload:
+ *   ids       — clip IDs to update
+ *   blendMode — blend mode; "normal" removes the field
+ */
+export const setBlendModeHandler: CommandHandler<{
+  ids: string[];
+  blendMode: BlendMode;
+}> = (state, command) => {
+  const { ids, blendMode } = command.payload;
+  const patches: Patch[] = [];
+
+  for (const id of ids) {
+    const clip = state.clips[id];
+    if (!clip || clip.locked || !BLEND_CLIP_TYPES.has(clip.type)) continue;
+    if ((clip.blendMode ?? "normal") === blendMode) continue;
+
+    const { blendMode: _previous, ...rest } = clip;
+    patches.push({
+      op: "update",
+      path: `/clips/${id}`,
+      value: blendMode === "normal" ? rest : { ...rest, blendMode },
+      oldValue: clip,
+    });
+  }
+
+  return patches;
+};
+
+/**
+ * Hold the frame of a Video clip at the given time.
+ *
+ * Payload:
+ *   id       — Video clip ID
+ *   time     — timeline time of the frame (µs)
+ *   duration — how long to hold it (µs)
+ *
+ * The clip is split at `time` and an Image clip showing that frame is
+ * inserted in between. The right part and everything after it on the same
+ * track move later by `duration`.
+ */
+export const freezeFrameHandler: CommandHandler<{
+  id: string;
+  time: number;
+  duration: number;
+}> = (state, command) => {
+  const { id, time, duration } = command.payload;
+  const clip = state.clips[id];
+  if (!clip || clip.locked || clip.type !== "Video" || !(duration > 0)) return [];
+
+  const { display, trim } = clip.timing;
+  if (time < display.from || time >= display.to) return [];
+
+  const offset = getSourceOffset(clip.timing, time - display.from, state.easings);
+  const frameTime = clip.timing.reversed ? trim.to - offset : trim.from + offset;
+
+  // Split unless the frame is the first one; track and selection patches are redone below
+  const splitPatches =
+    time > display.from
+      ? splitClipHandler(state, { ...command, type: "clip.split", payload: { id, time } })
+      : [];
+  const patches = splitPatches.filter((p) => p.path !== "/tracks" && p.path !== "/selectedIds");
+
+  const rightPatch = patches.find((p) => p.op === "add");
+  if (rightPatch) {
+    const right = rightPatch.value as AnyClip;
+    right.timing = {
+      ...right.timing,
+      display: { from: time + duration, to: right.timing.display.to + duration },
+    };
+  }
+
+  // Make room: shift clips starting at or after the playhead on the same track
+  const track = state.tracks.find((t) => t.clipIds.includes(id));
+  for (const clipId of track?.clipIds ?? []) {
+    const other = state.clips[clipId];
+    if (!other || other.timing.display.from < time) continue;
+    const otherDisplay = other.timing.display;
+    patches.push({
+      op: "update",
+      path: `/clips/${clipId}`,
+      value: {
+        ...other,
+        timing: {
+          ...other.timing,
+          display: { from: otherDisplay.from + duration, to: otherDisplay.to + duration },
+        },
+      },
+      oldValue: other,
+    });
+  }
+
+  const freezeId = generateId();
+  const freezeClip = normalizeClip({
+    id: freezeId,
+    type: "Image",
+    name: `${clip.name} (Freeze)`,
+    src: clip.src,
+    freezeFrame: { time: frameTime },
+    timing: {
+      display: { from: time, to: time + duration },
+      trim: { from: 0, to: duration },
+      duration,
+      playbackRate: 1,
+    },
+    transform: { ...clip.transform },
+    style: clip.style,
+    chromaKey: clip.chromaKey,
+    colorAdjustment: clip.colorAdjustment,
+    effects: [],
+    animations: [],
+    keyframes: {},
+    locked: false,
+  });
+  patches.push({ op: "add", path: `/clips/${freezeId}`, value: freezeClip });
+
+  // Insert the freeze clip right after the source clip, or before it when nothing was split
+  const splitTracks = splitPatches.find((p) => p.path === "/tracks")?.value ?? state.tracks;
+  if (track) {
+    const nextTracks = splitTracks.map((t: ITrack) => {
+      if (t.id !== track.id) return t;
+      const clipIds = [...t.clipIds];
+      clipIds.splice(clipIds.indexOf(id) + (rightPatch ? 1 : 0), 0, freezeId);
+      return { ...t, clipIds };
+    });
+    patches.push({ op: "update", path: "/tracks", value: nextTracks, oldValue: state.tracks });
+  }
+
+  patches.push({
+    op: "update",
+    path: "/selectedIds",
+    value: [freezeId],
+    oldValue: state.selectedIds,
+  });
+
+  return patches;
+};
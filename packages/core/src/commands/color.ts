@@ -0,0 +1,138 @@
+import { CommandHandler, Patch } from "./types";
+import { IChromaKey, IColorAdjustment, ILut } from "../types";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Clip types with colour correction, chroma key and LUTs */
+const COLOR_CLIP_TYPES = new Set(["Video", "Image", "Sequence"]);
+
+export const DEFAULT_CHROMA_KEY: IChromaKey = {
+  enabled: false,
+  color: "#00FF00",
+  similarity: 0.1,
+  spill: 0,
+};
+
+/**
+ * Build a full clip update patch for a colour-capable clip.
+ * Locked clips and other clip types are skipped.
+ */
+function buildClipPatch(state: any, id: string, merge: (clip: any) => any): Patch | null {
+  const clip = state.clips[id];
+  if (!clip || clip.locked || !COLOR_CLIP_TYPES.has(clip.type)) return null;
+  return {
+    op: "update",
+    path: `/clips/${id}`,
+    value: merge(clip),
+    oldValue: clip,
+  };
+}
+
+/** Deep-merge two plain objects (non-array). */
+function merge<T extends object>(base: T, patch: Partial<T>): T {
+  const result: any = { ...base };
+  for (const key in patch) {
+    const v = patch[key as keyof T];
+    if (
+      v !== null &&
+      typeof v === "object" &&
+      !Array.isArray(v) &&
+      typeof result[key] === "object" &&
+      result[key] !== null &&
+      !Array.isArray(result[key])
+    ) {
+      result[key] = merge(result[key], v as any);
+    } else {
+      result[key] = v;
+    }
+  }
+  return result;
+}
+
+// ─── clip.setColor ────────────────────────────────────────────────────────────
+
+/**
+ * Apply a partial colour correction to one or more clips.
+ * Editing turns the correction on unless the delta sets `enabled` itself.
+ *
+ * Payload:
+ *   ids   — clip IDs to update
+ *   color — partial IColorAdjustment delta (curve point lists are replaced)
+ */
+export const setColorHandler: CommandHandler<{
+  ids: string[];
+  color: Partial<IColorAdjustment>;
+}> = (state, command) => {
+  const { ids, color } = command.payload;
+  const patches: Patch[] = [];
+
+  for (const id of ids) {
+    const patch = buildClipPatch(state, id, (clip) => ({
+      ...clip,
+      colorAdjustment: merge(clip.colorAdjustment ?? {}, { enabled: true, ...color }),
+    }));
+    if (patch) patches.push(patch);
+  }
+
+  return patches;
+};
+
+// ─── clip.setChromaKey ────────────────────────────────────────────────────────
+
+/**
+ * Apply a partial chroma key update to one or more clips.
+ * Editing turns the key on unless the delta sets `enabled` itself.
+ *
+ * Payload:
+ *   ids       — clip IDs to update
+ *   chromaKey — partial IChromaKey delta
+ */
+export const setChromaKeyHandler: CommandHandler<{
+  ids: string[];
+  chromaKey: Partial<IChromaKey>;
+}> = (state, command) => {
+  const { ids, chromaKey } = command.payload;
+  const patches: Patch[] = [];
+
+  for (const id of ids) {
+    const patch = buildClipPatch(state, id, (clip) => ({
+      ...clip,
+      chromaKey: { ...DEFAULT_CHROMA_KEY, ...clip.chromaKey, enabled: true, ...chromaKey },
+    }));
+    if (patch) patches.push(patch);
+  }
+
+  return patches;
+};
+
+// ─── clip.setLut ──────────────────────────────────────────────────────────────
+
+/**
+ * Set, update or remove the LUT of one or more clips.
+ *
+ * Payload:
+ *   ids — clip IDs to update
+ *   lut — partial ILut delta; null removes the LUT. A clip without a LUT
+ *         needs `src` in the delta.
+ */
+export const setLutHandler: CommandHandler<{
+  ids: string[];
+  lut: Partial<ILut> | null;
+}> = (state, command) => {
+  const { ids, lut } = command.payload;
+  const patches: Patch[] = [];
+
+  for (const id of ids) {
+    const clip = state.clips[id];
+    if (!clip || (lut == null && !clip.lut)) continue;
+    const next = lut == null ? undefined : { ...clip.lut, ...lut };
+    if (next && !next.src) continue;
+
+    const patch = buildClipPatch(state, id, ({ lut: _removed, ...rest }) =>
+      next ? { ...rest, lut: next } : rest,
+    );
+    if (patch) patches.push(patch);
+  }
+
+  return patches;
+};
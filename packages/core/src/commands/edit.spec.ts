@@ -0,0 +1,237 @@
+import { describe, it, expect } from "vitest";
+import type { AnyClip, IVideoClip } from "../types";
+import { createProjectStore, type ProjectStore } from "../project";
+import { run, text } from "../test-utils";
+import {
+  insertClipHandler,
+  overwriteClipHandler,
+  rippleDeleteHandler,
+  rippleTrimHandler,
+  rollHandler,
+  slideHandler,
+  slipHandler,
+} from "./edit";
+
+const S = 1_000_000;
+
+/** Video clip showing [from, to) s of the timeline, its source starting at `source` s */
+function video(id: string, from: number, to: number, source = 10, locked?: boolean): IVideoClip {
+  return {
+    id,
+    type: "Video",
+    name: id,
+    src: `${id}.mp4`,
+    locked,
+    transform: { x: 0, y: 0, width: 1920, height: 1080, angle: 0, zIndex: 0, opacity: 1 },
+    timing: {
+      display: { from: from * S, to: to * S },
+      trim: { from: source * S, to: (source + to - from) * S },
+      duration: (to - from) * S,
+      playbackRate: 1,
+    },
+  };
+}
+
+/** One track per list of clips */
+function project(...tracks: AnyClip[][]): ProjectStore {
+  const clips: Record<string, AnyClip> = {};
+  for (const clip of tracks.flat()) clips[clip.id] = clip;
+  return createProjectStore({
+    clips,
+    tracks: tracks.map((trackClips, i) => ({
+      id: `t${i}`,
+      name: `Track ${i}`,
+      type: trackClips[0].type,
+      clipIds: trackClips.map((clip) => clip.id),
+    })),
+  }).getState();
+}
+
+/** Display range of a clip in seconds */
+const span = (state: ProjectStore, id: string) => {
+  const { display } = state.clips[id].timing;
+  return [display.from / S, display.to / S];
+};
+
+/** Source range of a clip in seconds */
+const source = (state: ProjectStore, id: string) => {
+  const { trim } = state.clips[id].timing;
+  return [trim.from / S, trim.to / S];
+};
+
+/** Clip spans of a track in timeline order */
+const layout = (state: ProjectStore, trackId = "t0") =>
+  state.tracks
+    .find((t) => t.id === trackId)!
+    .clipIds.map((id) => span(state, id))
+    .sort((a, b) => a[0] - b[0]);
+
+describe("rippleDeleteHandler", () => {
+  it("should close the gap left by removed clips", () => {
+    const initial = project([video("a", 0, 2), video("b", 2, 5), video("c", 5, 6)]);
+    const { state } = run(initial, rippleDeleteHandler, { ids: ["b"] });
+    expect(state.clips.b).toBeUndefined();
+    expect(state.tracks[0].clipIds).toEqual(["a", "c"]);
+    expect(span(state, "c")).toEqual([2, 3]);
+  });
+
+  it("should skip locked clips", () => {
+    const initial = project([video("a", 0, 2, 10, true), video("b", 2, 3), video("c", 3, 4)]);
+    const { state } = run(initial, rippleDeleteHandler, { ids: ["a", "b"] });
+    expect(state.clips.a).toBeDefined();
+    expect(span(state, "c")).toEqual([2, 3]);
+
+    expect(run(initial, rippleDeleteHandler, { ids: ["a"] }).patches).toEqual([]);
+  });
+
+  it("should cut a range out of every track", () => {
+    const initial = project([video("a", 0, 4), video("b", 4, 6)], [text("t", 1 * S, 2 * S)]);
+    const { state } = run(initial, rippleDeleteHandler, { from: 1 * S, to: 2 * S });
+
+    expect(layout(state)).toEqual([
+      [0, 1],
+      [1, 3],
+      [3, 5],
+    ]);
+    // The right half of the split clip continues from where the cut ends
+    const right = state.tracks[0].clipIds.find((id) => !initial.clips[id])!;
+    expect(source(state, right)).toEqual([12, 14]);
+    expect(state.clips.t).toBeUndefined();
+  });
+
+  it("should cut nothing when a locked clip overlaps the range", () => {
+    const initial = project([video("a", 0, 4)], [video("l", 1.5, 3, 10, true)]);
+    expect(run(initial, rippleDeleteHandler, { from: 1 * S, to: 2 * S }).patches).toEqual([]);
+  });
+});
+
+describe("rippleTrimHandler", () => {
+  it("should move the rest of the track with the end", () => {
+    const initial = project([video("a", 0, 2), video("b", 2, 3)]);
+    const { state } = run(initial, rippleTrimHandler, { id: "a", edge: "end", delta: -S / 2 });
+    expect(span(state, "a")).toEqual([0, 1.5]);
+    expect(source(state, "a")).toEqual([10, 11.5]);
+    expect(span(state, "b")).toEqual([1.5, 2.5]);
+  });
+
+  it("should keep the clip's position when trimming the start", () => {
+    const initial = project([video("a", 0, 2), video("b", 2, 3)]);
+    const { state } = run(initial, rippleTrimHandler, { id: "a", edge: "start", delta: S });
+    expect(span(state, "a")).toEqual([0, 1]);
+    expect(source(state, "a")).toEqual([11, 12]);
+    expect(span(state, "b")).toEqual([1, 2]);
+  });
+
+  it("should not extend before the start of the source", () => {
+    const initial = project([video("a", 5, 7, 1)]);
+    const { state } = run(initial, rippleTrimHandler, { id: "a", edge: "start", delta: -5 * S });
+    expect(span(state, "a")).toEqual([5, 8]);
+    expect(source(state, "a")).toEqual([0, 3]);
+  });
+});
+
+describe("rollHandler", () => {
+  it("should move the cut between two clips", () => {
+    const initial = project([video("a", 0, 2), video("b", 2, 4, 20)]);
+    const { state } = run(initial, rollHandler, { id: "a", edge: "end", delta: S / 2 });
+    expect(span(state, "a")).toEqual([0, 2.5]);
+    expect(span(state, "b")).toEqual([2.5, 4]);
+    expect(source(state, "b")).toEqual([20.5, 22]);
+  });
+
+  it("should do nothing next to a locked clip", () => {
+    const initial = project([video("a", 0, 2), video("b", 2, 4, 20, true)]);
+    expect(run(initial, rollHandler, { id: "a", edge: "end", delta: S / 2 }).patches).toEqual([]);
+  });
+});
+
+describe("slipHandler", () => {
+  it("should shift the source range and keep the clip in place", () => {
+    const initial = project([video("a", 1, 3)]);
+    const { state } = run(initial, slipHandler, { id: "a", delta: -S });
+    expect(span(state, "a")).toEqual([1, 3]);
+    expect(source(state, "a")).toEqual([9, 11]);
+  });
+
+  it("should stop at the start of the source", () => {
+    const initial = project([video("a", 1, 3, 2)]);
+    const { state } = run(initial, slipHandler, { id: "a", delta: -5 * S });
+    expect(source(state, "a")).toEqual([0, 2]);
+  });
+
+  it("should ignore clips without a source and locked clips", () => {
+    const initial = project([text("t", 0, 2 * S)], [video("l", 0, 2, 10, true)]);
+    expect(run(initial, slipHandler, { id: "t", delta: S }).patches).toEqual([]);
+    expect(run(initial, slipHandler, { id: "l", delta: S }).patches).toEqual([]);
+  });
+});
+
+describe("slideHandler", () => {
+  it("should let the neighbours absorb the move", () => {
+    const initial = project([video("a", 0, 2), video("b", 2, 3, 20), video("c", 3, 5, 30)]);
+    const { state } = run(initial, slideHandler, { id: "b", delta: S / 2 });
+    expect(span(state, "a")).toEqual([0, 2.5]);
+    expect(span(state, "b")).toEqual([2.5, 3.5]);
+    expect(source(state, "b")).toEqual([20, 21]);
+    expect(span(state, "c")).toEqual([3.5, 5]);
+    expect(source(state, "c")).toEqual([30.5, 32]);
+  });
+
+  it("should only move within the gap without a neighbour", () => {
+    const initial = project([video("a", 0, 2), video("b", 2, 3), video("c", 4, 5)]);
+    const { state } = run(initial, slideHandler, { id: "b", delta: 3 * S });
+    expect(span(state, "b")).toEqual([3, 4]);
+    expect(span(state, "c")).toEqual([4, 5]);
+  });
+});
+
+describe("insertClipHandler", () => {
+  it("should split the clip under the insert point and push later clips", () => {
+    const initial = project([video("a", 0, 4), video("b", 4, 5)]);
+    const { state } = run(initial, insertClipHandler, {
+      clip: video("n", 0, 1, 50),
+      trackId: "t0",
+      time: 2 * S,
+    });
+    expect(layout(state)).toEqual([
+      [0, 2],
+      [2, 3],
+      [3, 5],
+      [5, 6],
+    ]);
+    expect(state.tracks[0].clipIds.indexOf("n")).toBe(1);
+    expect(state.selectedIds).toEqual(["n"]);
+  });
+
+  it("should insert nothing into a locked clip", () => {
+    const initial = project([video("a", 0, 4, 10, true)]);
+    const payload = { clip: video("n", 0, 1), trackId: "t0", time: 2 * S };
+    expect(run(initial, insertClipHandler, payload).patches).toEqual([]);
+    // Right after it is fine; the locked clip does not move
+    const { state } = run(initial, insertClipHandler, { ...payload, time: 4 * S });
+    expect(span(state, "n")).toEqual([4, 5]);
+    expect(span(state, "a")).toEqual([0, 4]);
+  });
+});
+
+describe("overwriteClipHandler", () => {
+  it("should trim and remove what the clip covers", () => {
+    const initial = project([video("a", 0, 2), video("b", 2, 3), video("c", 3, 5, 30)]);
+    const { state } = run(initial, overwriteClipHandler, {
+      clip: video("n", 0, 2),
+      trackId: "t0",
+      time: 1.5 * S,
+    });
+    expect(state.clips.b).toBeUndefined();
+    expect(span(state, "a")).toEqual([0, 1.5]);
+    expect(span(state, "n")).toEqual([1.5, 3.5]);
+    expect(span(state, "c")).toEqual([3.5, 5]);
+    expect(source(state, "c")).toEqual([30.5, 32]);
+  });
+
+  it("should place nothing over a locked clip", () => {
+    const initial = project([video("a", 0, 2), video("l", 3, 4, 10, true)]);
+    const payload = { clip: video("n", 0, 2), trackId: "t0", time: 1.5 * S };
+    expect(run(initial, overwriteClipHandler, payload).patches).toEqual([]);
+  });
+});
@@ -0,0 +1,600 @@
+import { CommandHandler, Patch } from "./types";
+import { AnyClip, IKeyframe, IKeyframeTracks, ITrack } from "../types";
+import { ProjectStore } from "../project";
+import { addClipHandler } from "./clip";
+import { generateId } from "../utils/id";
+import { normalizeClip } from "../utils/normalize";
+import { splitKeyframeTrack, splitKeyframes } from "../utils/keyframes";
+import type { EasingRegistry } from "../easings";
+import { getSourceOffset, getSpeedAt } from "../utils/speed-ramp";
+import { canPlaceClip } from "../utils/sequences";
+
+/**
+ * Editorial (NLE) commands: ripple, roll, slip, slide, insert and overwrite.
+ *
+ * All times are microseconds. Edges are moved in timeline time; the source
+ * range of Video and Audio clips follows through their playback rate or speed
+ * ramp, and the other clips of the track move when an edit ripples.
+ *
+ * Core does not know media lengths, so only the start of the source is
+ * guarded here. Callers that do (the timeline) clamp against the media end.
+ *
+ * Locked clips are never trimmed, split or removed: an edit that would change
+ * one does nothing. Rippling may still move them along their track.
+ */
+
+type Edge = "start" | "end";
+
+/** Clips closer than this count as touching (rounding from pixel positions) */
+const ADJACENT_TOLERANCE = 1;
+
+const hasSource = (clip: AnyClip) => clip.type === "Video" || clip.type === "Audio";
+
+const lengthOf = (clip: AnyClip) => clip.timing.display.to - clip.timing.display.from;
+
+/** Shortest clip an edit may leave: one frame */
+const minLength = (state: ProjectStore) => 1e6 / (state.settings.fps || 30);
+
+function findTrack(state: ProjectStore, id: string): ITrack | undefined {
+  return state.tracks.find((t) => t.clipIds.includes(id));
+}
+
+/** Clips of a track in timeline order */
+function trackClips(state: ProjectStore, track: ITrack): AnyClip[] {
+  return track.clipIds
+    .map((id) => state.clips[id])
+    .filter((clip): clip is AnyClip => clip != null)
+    .sort((a, b) => a.timing.display.from - b.timing.display.from);
+}
+
+/** The clip touching `clip` at `edge` on its track, if any */
+function findNeighbour(state: ProjectStore, clip: AnyClip, edge: Edge): AnyClip | undefined {
+  const track = findTrack(state, clip.id);
+  if (!track) return undefined;
+  const { display } = clip.timing;
+  return trackClips(state, track).find((other) =>
+    other.id === clip.id
+      ? false
+      : edge === "end"
+        ? Math.abs(other.timing.display.from - display.to) <= ADJACENT_TOLERANCE
+        : Math.abs(other.timing.display.to - display.from) <= ADJACENT_TOLERANCE,
+  );
+}
+
+/** Whether a locked clip of the track overlaps [from, to), or spans `from` when they are equal */
+function hasLockedClip(state: ProjectStore, track: ITrack, from: number, to: number): boolean {
+  return trackClips(state, track).some(
+    (clip) => clip.locked && clip.timing.display.from < to && clip.timing.display.to > from,
+  );
+}
+
+/** Move a clip along the timeline */
+function shiftClip(clip: AnyClip, delta: number): AnyClip {
+  if (delta === 0) return clip;
+  const { display } = clip.timing;
+  return {
+    ...clip,
+    timing: { ...clip.timing, display: { from: display.from + delta, to: display.to + delta } },
+  };
+}
+
+/**
+ * Re-base display-relative keyframes after the start moved by `delta`, so
+ * they stay put on the timeline. Trimming in cuts the track with a keyframe
+ * at the new start; extending shifts it.
+ */
+function rebaseTrack(track: IKeyframe[], delta: number, easings?: EasingRegistry): IKeyframe[] {
+  if (delta > 0) return splitKeyframeTrack(track, delta, generateId, easings)[1];
+  return track.map((k) => ({ ...k, time: k.time - delta }));
+}
+
+function rebaseKeyframes(
+  tracks: IKeyframeTracks | undefined,
+  delta: number,
+  easings?: EasingRegistry,
+): IKeyframeTracks | undefined {
+  if (!tracks || delta === 0) return tracks;
+  if (delta > 0) return splitKeyframes(tracks, delta, generateId, easings)[1];
+  const next: IKeyframeTracks = {};
+  for (const key in tracks) {
+    const property = key as keyof IKeyframeTracks;
+    const track = tracks[property];
+    if (track) next[property] = rebaseTrack(track, delta, easings);
+  }
+  return next;
+}
+
+/**
+ * Move one edge of a clip by `delta` timeline µs (positive is later).
+ * The source range follows for Video and Audio clips.
+ */
+function trimEdge(clip: AnyClip, edge: Edge, delta: number, easings?: EasingRegistry): AnyClip {
+  if (delta === 0) return clip;
+  const timing = clip.timing;
+  const { display, trim } = timing;
+  const reversed = timing.reversed === true;
+
+  if (edge === "end") {
+    const length = display.to + delta - display.from;
+    const next = {
+      ...timing,
+      display: { ...display, to: display.to + delta },
+      duration: length,
+    };
+    if (hasSource(clip)) {
+      const sourceLength = getSourceOffset(timing, length, easings);
+      next.trim = reversed
+        ? { ...trim, from: trim.to - sourceLength }
+        : { ...trim, to: trim.from + sourceLength };
+    }
+    return { ...clip, timing: next };
+  }
+
+  const next = {
+    ...timing,
+    display: { ...display, from: display.from + delta },
+    duration: display.to - display.from - delta,
+  };
+  if (hasSource(clip)) {
+    const sourceDelta = getSourceOffset(timing, delta, easings);
+    next.trim = reversed
+      ? { ...trim, to: trim.to - sourceDelta }
+      : { ...trim, from: trim.from + sourceDelta };
+  }
+  if (timing.speedRamp?.length) next.speedRamp = rebaseTrack(timing.speedRamp, delta, easings);
+
+  const trimmed: AnyClip = { ...clip, timing: next };
+  const keyframes = rebaseKeyframes(clip.keyframes, delta, easings);
+  if (keyframes) trimmed.keyframes = keyframes;
+  return trimmed;
+}
+
+/**
+ * Limit an edge move so the clip keeps at least one frame, does not start
+ * before zero and does not reach before the start of its source.
+ */
+function clampEdge(state: ProjectStore, clip: AnyClip, edge: Edge, delta: number): number {
+  const { display, trim } = clip.timing;
+  const room = lengthOf(clip) - minLength(state);
+  // Source headroom before trim.from is used by the start edge, or the end edge when reversed
+  const usesHeadroom = hasSource(clip) && (edge === "start") !== (clip.timing.reversed === true);
+
+  if (edge === "end") {
+    let d = Math.max(delta, -room);
+    if (usesHeadroom) {
+      const speed = getSpeedAt(clip.timing, lengthOf(clip), state.easings);
+      d = Math.min(d, trim.from / speed);
+    }
+    return d;
+  }
+
+  let d = Math.min(delta, room);
+  d = Math.max(d, -display.from);
+  if (usesHeadroom) d = Math.max(d, -trim.from / getSpeedAt(clip.timing, 0, state.easings));
+  return d;
+}
+
+/**
+ * Collects clip and track changes of an edit and turns them into patches.
+ * Tracks emptied by the edit are dropped unless static, like clip.remove.
+ */
+function createEdit(state: ProjectStore) {
+  const updated = new Map<string, AnyClip>();
+  const added: Array<{ clip: AnyClip; trackId: string; after?: string }> = [];
+  const removed = new Set<string>();
+  let selectedIds: string[] | undefined;
+
+  const current = (id: string) => updated.get(id) ?? state.clips[id];
+
+  return {
+    current,
+    update(clip: AnyClip) {
+      const addedClip = added.find((a) => a.clip.id === clip.id);
+      if (addedClip) addedClip.clip = clip;
+      else updated.set(clip.id, clip);
+    },
+    /** Add a clip to a track, right after `after` or at the end */
+    add(clip: AnyClip, trackId: string, after?: string) {
+      added.push({ clip, trackId, after });
+    },
+    remove(id: string) {
+      removed.add(id);
+      updated.delete(id);
+    },
+    select(ids: string[]) {
+      selectedIds = ids;
+    },
+    get changed() {
+      return updated.size > 0 || added.length > 0 || removed.size > 0;
+    },
+    patches(): Patch[] {
+      const patches: Patch[] = [];
+      for (const [id, clip] of updated) {
+        patches.push({
+          op: "update",
+          path: `/clips/${id}`,
+          value: clip,
+          oldValue: state.clips[id],
+        });
+      }
+      for (const { clip } of added) {
+        patches.push({ op: "add", path: `/clips/${clip.id}`, value: clip });
+      }
+      for (const id of removed) {
+        patches.push({ op: "remove", path: `/clips/${id}`, oldValue: state.clips[id] });
+      }
+
+      if (added.length > 0 || removed.size > 0) {
+        const nextTracks = state.tracks
+          .map((track) => {
+            const clipIds = track.clipIds.filter((id) => !removed.has(id));
+            for (const { clip, trackId, after } of added) {
+              if (trackId !== track.id) continue;
+              const index = after ? clipIds.indexOf(after) : -1;
+              if (index === -1) clipIds.push(clip.id);
+              else clipIds.splice(index + 1, 0, clip.id);
+            }
+            return { ...track, clipIds };
+          })
+          .filter((track) => track.clipIds.length > 0 || track.static === true);
+        patches.push({ op: "update", path: "/tracks", value: nextTracks, oldValue: state.tracks });
+      }
+
+      const nextSelectedIds = (selectedIds ?? state.selectedIds).filter((id) => !removed.has(id));
+      if (selectedIds || nextSelectedIds.length !== state.selectedIds.length) {
+        patches.push({
+          op: "update",
+          path: "/selectedIds",
+          value: nextSelectedIds,
+          oldValue: state.selectedIds,
+        });
+      }
+      return patches;
+    },
+  };
+}
+
+type Edit = ReturnType<typeof createEdit>;
+
+/** Move every clip of the track starting at or after `time` (other than `except`) */
+function rippleTrack(
+  state: ProjectStore,
+  edit: Edit,
+  track: ITrack,
+  time: number,
+  delta: number,
+  except?: string,
+) {
+  if (delta === 0) return;
+  for (const clip of trackClips(state, track)) {
+    if (clip.id === except || clip.timing.display.from < time) continue;
+    edit.update(shiftClip(edit.current(clip.id), delta));
+  }
+}
+
+/**
+ * Clear [from, to) on a track. Clips inside are removed, clips overlapping an
+ * end are trimmed and a clip spanning the whole range is split in two. With
+ * `ripple` everything after the range moves left to close the gap.
+ */
+function cutRange(
+  state: ProjectStore,
+  edit: Edit,
+  track: ITrack,
+  from: number,
+  to: number,
+  ripple: boolean,
+) {
+  const gap = ripple ? to - from : 0;
+  for (const clip of trackClips(state, track)) {
+    const { display } = clip.timing;
+    if (display.to <= from) continue;
+    if (display.from >= to) {
+      edit.update(shiftClip(clip, -gap));
+    } else if (display.from >= from && display.to <= to) {
+      edit.remove(clip.id);
+    } else if (display.from < from && display.to > to) {
+      const right = {
+        ...trimEdge(clip, "start", to - display.from, state.easings),
+        id: generateId(),
+      };
+      edit.update(trimEdge(clip, "end", from - display.to, state.easings));
+      edit.add(shiftClip(right, -gap), track.id, clip.id);
+    } else if (display.from < from) {
+      edit.update(trimEdge(clip, "end", from - display.to, state.easings));
+    } else {
+      edit.update(shiftClip(trimEdge(clip, "start", to - display.from, state.easings), -gap));
+    }
+  }
+}
+
+/** Clip payload as placed on the timeline: starts at `time`, legacy root fields dropped */
+function placeClip(clip: AnyClip, time: number): AnyClip {
+  const placed = normalizeClip({ ...clip });
+  const length = lengthOf(placed);
+  placed.timing = { ...placed.timing, display: { from: time, to: time + length } };
+  return placed;
+}
+
+/** Last clip of the track starting before `time`, to order a new clip after it */
+function clipBefore(state: ProjectStore, track: ITrack, time: number): string | undefined {
+  return trackClips(state, track)
+    .filter((clip) => clip.timing.display.from < time)
+    .at(-1)?.id;
+}
+
+/**
+ * Remove clips and close the gaps they leave on their tracks, or remove a
+ * time range from every track.
+ *
+ * Payload:
+ *   ids       — clips to remove; later clips on each track move left.
+ *               Locked clips are skipped.
+ *   from / to — alternatively, a timeline range cut out of all tracks.
+ *               Clips spanning it are split, overlapping ones trimmed.
+ *               Nothing is cut when a locked clip overlaps the range.
+ */
+export const rippleDeleteHandler: CommandHandler<
+  { ids: string[] } | { from: number; to: number }
+> = (state, command) => {
+  const edit = createEdit(state);
+
+  if ("ids" in command.payload) {
+    const ids = new Set(
+      command.payload.ids.filter((id) => state.clips[id] && !state.clips[id].locked),
+    );
+    for (const track of state.tracks) {
+      const gaps = trackClips(state, track)
+        .filter((clip) => ids.has(clip.id))
+        .map((clip) => clip.timing.display);
+      if (gaps.length === 0) continue;
+
+      for (const clip of trackClips(state, track)) {
+        if (ids.has(clip.id)) continue;
+        // Removed time before the clip; removed clips may overlap each other
+        let covered = 0;
+        let cursor = -Infinity;
+        for (const gap of gaps) {
+          const start = Math.max(gap.from, cursor);
+          const end = Math.min(gap.to, clip.timing.display.from);
+          if (end > start) covered += end - start;
+          cursor = Math.max(cursor, gap.to);
+        }
+        if (covered > 0) edit.update(shiftClip(clip, -covered));
+      }
+    }
+    ids.forEach((id) => edit.remove(id));
+  } else {
+    const { from, to } = command.payload;
+    if (!(to > from)) return [];
+    if (state.tracks.some((track) => hasLockedClip(state, track, from, to))) return [];
+    for (const track of state.tracks) cutRange(state, edit, track, from, to, true);
+  }
+
+  return edit.changed ? edit.patches() : [];
+};
+
+/**
+ * Trim one edge of a clip and move the rest of its track with it, so no gap
+ * opens and nothing is overwritten. The clip keeps its start position.
+ *
+ * Payload:
+ *   id    — clip ID
+ *   edge  — "start" or "end"
+ *   delta — timeline µs the edge moves (positive is later)
+ */
+export const rippleTrimHandler: CommandHandler<{
+  id: string;
+  edge: Edge;
+  delta: number;
+}> = (state, command) => {
+  const { id, edge } = command.payload;
+  const clip = state.clips[id];
+  const track = findTrack(state, id);
+  if (!clip || clip.locked || !track) return [];
+
+  const delta = clampEdge(state, clip, edge, command.payload.delta);
+  if (delta === 0) return [];
+
+  const edit = createEdit(state);
+  const end = clip.timing.display.to;
+  if (edge === "end") {
+    edit.update(trimEdge(clip, "end", delta, state.easings));
+    rippleTrack(state, edit, track, end, delta, id);
+  } else {
+    // Trimming the head keeps the clip's position; the tail and track follow
+    edit.update(shiftClip(trimEdge(clip, "start", delta, state.easings), -delta));
+    rippleTrack(state, edit, track, end, -delta, id);
+  }
+  return edit.patches();
+};
+
+/**
+ * Move the cut between a clip and the clip touching it, trimming one and
+ * extending the other. Nothing else on the track moves.
+ *
+ * Payload:
+ *   id    — clip ID
+ *   edge  — which cut of the clip: "start" (with the previous clip) or "end"
+ *   delta — timeline µs the cut moves (positive is later)
+ */
+export const rollHandler: CommandHandler<{
+  id: string;
+  edge: Edge;
+  delta: number;
+}> = (state, command) => {
+  const { id, edge } = command.payload;
+  const clip = state.clips[id];
+  if (!clip) return [];
+  const neighbour = findNeighbour(state, clip, edge);
+  if (!neighbour || clip.locked || neighbour.locked) return [];
+
+  const [left, right] = edge === "end" ? [clip, neighbour] : [neighbour, clip];
+  let delta = clampEdge(state, left, "end", command.payload.delta);
+  delta = clampEdge(state, right, "start", delta);
+  if (delta === 0) return [];
+
+  const edit = createEdit(state);
+  edit.update(trimEdge(left, "end", delta, state.easings));
+  edit.update(trimEdge(right, "start", delta, state.easings));
+  return edit.patches();
+};
+
+/**
+ * Shift the source range shown by a Video or Audio clip, keeping its
+ * position and length on the timeline.
+ *
+ * Payload:
+ *   id    — clip ID
+ *   delta — source µs to move the range by (positive shows later media)
+ */
+export const slipHandler: CommandHandler<{
+  id: string;
+  delta: number;
+}> = (state, command) => {
+  const { id } = command.payload;
+  const clip = state.clips[id];
+  if (!clip || clip.locked || !hasSource(clip)) return [];
+
+  const { trim } = clip.timing;
+  const delta = Math.max(command.payload.delta, -trim.from);
+  if (delta === 0) return [];
+
+  const edit = createEdit(state);
+  edit.update({
+    ...clip,
+    timing: { ...clip.timing, trim: { from: trim.from + delta, to: trim.to + delta } },
+  });
+  return edit.patches();
+};
+
+/**
+ * Move a clip along its track while the clips touching it absorb the move:
+ * the previous one is extended or trimmed at its end, the next one at its
+ * start. The clip's own source range is unchanged. Without a neighbour on a
+ * side the clip can only move within the gap there.
+ *
+ * Payload:
+ *   id    — clip ID
+ *   delta — timeline µs to move by (positive is later)
+ */
+export const slideHandler: CommandHandler<{
+  id: string;
+  delta: number;
+}> = (state, command) => {
+  const { id } = command.payload;
+  const clip = state.clips[id];
+  const track = findTrack(state, id);
+  if (!clip || clip.locked || !track) return [];
+
+  const prev = findNeighbour(state, clip, "start");
+  const next = findNeighbour(state, clip, "end");
+  if (prev?.locked || next?.locked) return [];
+
+  const { display } = clip.timing;
+  const others = trackClips(state, track).filter((c) => c.id !== id);
+  let delta = command.payload.delta;
+  if (prev) {
+    delta = clampEdge(state, prev, "end", delta);
+  } else {
+    const gapStart = Math.max(
+      0,
+      ...others.filter((c) => c.timing.display.to <= display.from).map((c) => c.timing.display.to),
+    );
+    delta = Math.max(delta, gapStart - display.from);
+  }
+  if (next) {
+    delta = clampEdge(state, next, "start", delta);
+  } else {
+    const gapEnd = Math.min(
+      Infinity,
+      ...others
+        .filter((c) => c.timing.display.from >= display.to)
+        .map((c) => c.timing.display.from),
+    );
+    delta = Math.min(delta, gapEnd - display.to);
+  }
+  if (delta === 0) return [];
+
+  const edit = createEdit(state);
+  edit.update(shiftClip(clip, delta));
+  if (prev) edit.update(trimEdge(prev, "end", delta, state.easings));
+  if (next) edit.update(trimEdge(next, "start", delta, state.easings));
+  return edit.patches();
+};
+
+/**
+ * Insert a clip at a time on a track, pushing everything after it later.
+ * A clip under the insert point is split around the new one, unless it is
+ * locked: then nothing is inserted.
+ *
+ * Payload:
+ *   clip    — prepared clip (see core.clip.prepare); its display length is kept
+ *   trackId — target track. Without a matching track this behaves like clip.add
+ *   time    — timeline µs where the clip starts
+ */
+export const insertClipHandler: CommandHandler<{
+  clip: AnyClip;
+  trackId?: string;
+  time: number;
+}> = (state, command) => {
+  const { trackId, time } = command.payload;
+  const clip = placeClip(command.payload.clip, time);
+  if (!canPlaceClip(state, clip)) return [];
+  const track = state.tracks.find((t) => t.id === trackId);
+  if (!track) return addClipHandler(state, { ...command, payload: { clip } });
+  if (hasLockedClip(state, track, time, time)) return [];
+
+  const edit = createEdit(state);
+  const length = lengthOf(clip);
+  const before = clipBefore(state, track, time);
+
+  for (const other of trackClips(state, track)) {
+    const { display } = other.timing;
+    if (display.from >= time) {
+      edit.update(shiftClip(other, length));
+    } else if (display.to > time) {
+      const right = {
+        ...trimEdge(other, "start", time - display.from, state.easings),
+        id: generateId(),
+      };
+      edit.update(trimEdge(other, "end", time - display.to, state.easings));
+      edit.add(shiftClip(right, length), track.id, other.id);
+    }
+  }
+
+  edit.add(clip, track.id, before);
+  edit.select([clip.id]);
+  return edit.patches();
+};
+
+/**
+ * Place a clip at a time on a track, replacing whatever it covers. Clips
+ * under it are trimmed, split or removed; nothing moves. Nothing is placed
+ * when it would cover part of a locked clip.
+ *
+ * Payload:
+ *   clip    — prepared clip (see core.clip.prepare); its display length is kept
+ *   trackId — target track. Without a matching track this behaves like clip.add
+ *   time    — timeline µs where the clip starts
+ */
+export const overwriteClipHandler: CommandHandler<{
+  clip: AnyClip;
+  trackId?: string;
+  time: number;
+}> = (state, command) => {
+  const { trackId, time } = command.payload;
+  const clip = placeClip(command.payload.clip, time);
+  if (!canPlaceClip(state, clip)) return [];
+  const track = state.tracks.find((t) => t.id === trackId);
+  if (!track) return addClipHandler(state, { ...command, payload: { clip } });
+  if (hasLockedClip(state, track, time, clip.timing.display.to)) return [];
+
+  const edit = createEdit(state);
+  const before = clipBefore(state, track, time);
+  cutRange(state, edit, track, time, clip.timing.display.to, false);
+
+  edit.add(clip, track.id, before);
+  edit.select([clip.id]);
+  return edit.patches();
+};
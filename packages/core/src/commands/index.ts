@@ -4,6 +4,12 @@ import * as trackHandlers from "./track";
 import * as projectHandlers from "./project";
 import * as playbackHandlers from "./playback";
 import * as captionHandlers from "./caption";
+import * as colorHandlers from "./color";
+import * as maskHandlers from "./mask";
+import * as shapeHandlers from "./shape";
+import * as keyframeHandlers from "./keyframe";
+import * as editHandlers from "./edit";
+import * as sequenceHandlers from "./sequence";
 
 export function registerDefaultHandlers() {
   commandRegistry.register("clip.add", clipHandlers.addClipHandler);
@@ -11,16 +17,49 @@ export function registerDefaultHandlers() {
   commandRegistry.register("clip.remove", clipHandlers.removeClipsHandler);
   commandRegistry.register("clip.split", clipHandlers.splitClipHandler);
   commandRegistry.register("clip.duplicate", clipHandlers.duplicateClipsHandler);
+  commandRegistry.register("clip.setSpeedRamp", clipHandlers.setSpeedRampHandler);
+  commandRegistry.register("clip.setReversed", clipHandlers.setReversedHandler);
+  commandRegistry.register("clip.freezeFrame", clipHandlers.freezeFrameHandler);
+  commandRegistry.register("clip.setBlendMode", clipHandlers.setBlendModeHandler);
+  commandRegistry.register("clip.setColor", colorHandlers.setColorHandler);
+  commandRegistry.register("clip.setChromaKey", colorHandlers.setChromaKeyHandler);
+  commandRegistry.register("clip.setLut", colorHandlers.setLutHandler);
+  commandRegistry.register("clip.setMask", maskHandlers.setMaskHandler);
+  commandRegistry.register("clip.setTrackMatte", maskHandlers.setTrackMatteHandler);
+  commandRegistry.register("clip.setShape", shapeHandlers.setShapeHandler);
+
+  commandRegistry.register("clip.rippleDelete", editHandlers.rippleDeleteHandler);
+  commandRegistry.register("clip.rippleTrim", editHandlers.rippleTrimHandler);
+  commandRegistry.register("clip.roll", editHandlers.rollHandler);
+  commandRegistry.register("clip.slip", editHandlers.slipHandler);
+  commandRegistry.register("clip.slide", editHandlers.slideHandler);
+  commandRegistry.register("clip.insert", editHandlers.insertClipHandler);
+  commandRegistry.register("clip.overwrite", editHandlers.overwriteClipHandler);
+
+  commandRegistry.register("clip.keyframe.add", keyframeHandlers.addKeyframeHandler);
+  commandRegistry.register("clip.keyframe.remove", keyframeHandlers.removeKeyframeHandler);
+  commandRegistry.register("clip.keyframe.move", keyframeHandlers.moveKeyframeHandler);
+  commandRegistry.register("clip.keyframe.setEasing", keyframeHandlers.setKeyframeEasingHandler);
+
+  commandRegistry.register("sequence.create", sequenceHandlers.createSequenceHandler);
+  commandRegistry.register("sequence.add", sequenceHandlers.addSequenceHandler);
+  commandRegistry.register("sequence.remove", sequenceHandlers.removeSequenceHandler);
+  commandRegistry.register("sequence.open", sequenceHandlers.openSequenceHandler);
+  commandRegistry.register("sequence.close", sequenceHandlers.closeSequenceHandler);
 
   commandRegistry.register("track.add", trackHandlers.addTrackHandler);
   commandRegistry.register("track.remove", trackHandlers.removeTrackHandler);
   commandRegistry.register("track.move", trackHandlers.moveTrackHandler);
   commandRegistry.register("track.set", trackHandlers.setTracksHandler);
+  commandRegistry.register("track.update", trackHandlers.updateTrackHandler);
 
   commandRegistry.register("project.updateSettings", projectHandlers.updateSettingsHandler);
   commandRegistry.register("project.select", projectHandlers.selectClipsHandler);
   commandRegistry.register("project.deselect", projectHandlers.deselectClipsHandler);
   commandRegistry.register("project.reset", projectHandlers.resetProjectHandler);
+  commandRegistry.register("project.setDucking", projectHandlers.setDuckingHandler);
+  commandRegistry.register("project.defineEasing", projectHandlers.defineEasingHandler);
+  commandRegistry.register("project.removeEasing", projectHandlers.removeEasingHandler);
 
   commandRegistry.register("playback.seek", playbackHandlers.seekHandler);
   commandRegistry.register("playback.setIsPlaying", playbackHandlers.setIsPlayingHandler);
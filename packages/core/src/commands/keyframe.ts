@@ -0,0 +1,157 @@
+import { CommandHandler, Patch } from "./types";
+import { IKeyframe, IKeyframeTracks, KeyframeEasing, KeyframeProperty } from "../types";
+import { generateId } from "../utils/id";
+import { insertKeyframe } from "../utils/keyframes";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Build a clip update patch that replaces one keyframe track.
+ * Empty tracks are dropped so `keyframes` only lists animated properties.
+ */
+function buildTrackPatch(
+  state: any,
+  id: string,
+  property: KeyframeProperty,
+  update: (track: IKeyframe[]) => IKeyframe[] | null,
+): Patch | null {
+  const clip = state.clips[id];
+  if (!clip || clip.locked) return null;
+
+  const current: IKeyframe[] = clip.keyframes?.[property] ?? [];
+  const next = update(current);
+  if (next === null) return null;
+
+  const keyframes: IKeyframeTracks = { ...clip.keyframes };
+  if (next.length > 0) {
+    keyframes[property] = next;
+  } else {
+    delete keyframes[property];
+  }
+
+  return {
+    op: "update",
+    path: `/clips/${id}`,
+    value: { ...clip, keyframes },
+    oldValue: clip,
+  };
+}
+
+// ─── clip.keyframe.add ───────────────────────────────────────────────────────
+
+/**
+ * Add a keyframe to a property track, replacing any keyframe at the same time.
+ *
+ * Payload:
+ *   id         — clip ID
+ *   property   — animated property (e.g. 'x', 'opacity', 'values.intensity')
+ *   time       — microseconds from the clip's display start
+ *   value      — numeric value at that time
+ *   easing     — interpolation towards the next keyframe (default: linear)
+ *   keyframeId — optional stable ID (generated when omitted)
+ */
+export const addKeyframeHandler: CommandHandler<{
+  id: string;
+  property: KeyframeProperty;
+  time: number;
+  value: number;
+  easing?: KeyframeEasing;
+  keyframeId?: string;
+}> = (state, command) => {
+  const { id, property, time, value, easing, keyframeId } = command.payload;
+
+  const keyframe: IKeyframe = {
+    id: keyframeId ?? generateId(),
+    time: Math.max(0, time),
+    value,
+    ...(easing && { easing }),
+  };
+
+  const patch = buildTrackPatch(state, id, property, (track) => insertKeyframe(track, keyframe));
+  return patch ? [patch] : [];
+};
+
+// ─── clip.keyframe.remove ────────────────────────────────────────────────────
+
+/**
+ * Remove keyframes from a property track.
+ *
+ * Payload:
+ *   id          — clip ID
+ *   property    — animated property
+ *   keyframeIds — keyframes to drop (omit to clear the whole track)
+ */
+export const removeKeyframeHandler: CommandHandler<{
+  id: string;
+  property: KeyframeProperty;
+  keyframeIds?: string[];
+}> = (state, command) => {
+  const { id, property, keyframeIds } = command.payload;
+
+  const patch = buildTrackPatch(state, id, property, (track) => {
+    if (!keyframeIds) return track.length > 0 ? [] : null;
+    const next = track.filter((k) => !keyframeIds.includes(k.id));
+    return next.length === track.length ? null : next;
+  });
+  return patch ? [patch] : [];
+};
+
+// ─── clip.keyframe.move ──────────────────────────────────────────────────────
+
+/**
+ * Move a keyframe to a new time and/or value.
+ * A keyframe already sitting at the target time is replaced.
+ *
+ * Payload:
+ *   id         — clip ID
+ *   property   — animated property
+ *   keyframeId — keyframe to move
+ *   time       — new time in microseconds from the clip's display start
+ *   value      — optional new value
+ */
+export const moveKeyframeHandler: CommandHandler<{
+  id: string;
+  property: KeyframeProperty;
+  keyframeId: string;
+  time: number;
+  value?: number;
+}> = (state, command) => {
+  const { id, property, keyframeId, time, value } = command.payload;
+
+  const patch = buildTrackPatch(state, id, property, (track) => {
+    const keyframe = track.find((k) => k.id === keyframeId);
+    if (!keyframe) return null;
+    return insertKeyframe(track, {
+      ...keyframe,
+      time: Math.max(0, time),
+      value: value ?? keyframe.value,
+    });
+  });
+  return patch ? [patch] : [];
+};
+
+// ─── clip.keyframe.setEasing ─────────────────────────────────────────────────
+
+/**
+ * Change the interpolation of one or more keyframes.
+ *
+ * Payload:
+ *   id          — clip ID
+ *   property    — animated property
+ *   keyframeIds — keyframes to update
+ *   easing      — new easing towards the next keyframe
+ */
+export const setKeyframeEasingHandler: CommandHandler<{
+  id: string;
+  property: KeyframeProperty;
+  keyframeIds: string[];
+  easing: KeyframeEasing;
+}> = (state, command) => {
+  const { id, property, keyframeIds, easing } = command.payload;
+
+  const patch = buildTrackPatch(state, id, property, (track) => {
+    if (!track.some((k) => keyframeIds.includes(k.id))) return null;
+    return track.map((k) => (keyframeIds.includes(k.id) ? { ...k, easing } : k));
+  });
+  return patch ? [patch] : [];
+};
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import type { AnyClip, IAudioClip, ITextClip } from "../types";
+import { createProjectStore, type ProjectStore } from "../project";
+import { run, text } from "../test-utils";
+import { registerDefaultHandlers } from "./index";
+import { DEFAULT_CLIP_MASK, setMaskHandler, setTrackMatteHandler } from "./mask";
+
+/** Audio clip over the first second, which has no pixels to mask */
+function audio(id: string): IAudioClip {
+  return { ...text(id), type: "Audio", src: `${id}.mp3` } as unknown as IAudioClip;
+}
+
+/** One track per list of clips, the first track on top */
+function project(...tracks: AnyClip[][]) {
+  const clips: Record<string, AnyClip> = {};
+  for (const clip of tracks.flat()) clips[clip.id] = clip;
+  return createProjectStore({
+    clips,
+    tracks: tracks.map((trackClips, i) => ({
+      id: `t${i}`,
+      name: `Track ${i}`,
+      type: trackClips[0].type,
+      clipIds: trackClips.map((clip) => clip.id),
+    })),
+  });
+}
+
+/** A command carrying `payload`, for calling handlers directly */
+const command = <T>(payload: T) => ({ id: "c1", type: "test", payload });
+
+const maskOf = (state: ProjectStore, id: string) => (state.clips[id] as ITextClip).mask;
+const matteOf = (state: ProjectStore, id: string) => (state.clips[id] as ITextClip).trackMatte;
+
+describe("setMaskHandler", () => {
+  it("should start clips without a mask from the default one", () => {
+    const { state } = run(project([text("a"), text("b")]).getState(), setMaskHandler, {
+      ids: ["a", "b"],
+      mask: { shape: "ellipse", feather: 12 },
+    });
+    for (const id of ["a", "b"]) {
+      expect(maskOf(state, id)).toEqual({ ...DEFAULT_CLIP_MASK, shape: "ellipse", feather: 12 });
+    }
+  });
+
+  it("should merge changes into the mask and replace its points", () => {
+    const triangle = [
+      { x: 0, y: -0.5 },
+      { x: 0.5, y: 0.5 },
+      { x: -0.5, y: 0.5 },
+    ];
+    const { state } = run(project([text("a")]).getState(), setMaskHandler, {
+      ids: ["a"],
+      mask: { shape: "polygon", points: triangle, invert: true },
+    });
+    const { state: moved } = run(state, setMaskHandler, {
+      ids: ["a"],
+      mask: { x: 0.25, points: triangle.slice(0, 2) },
+    });
+    expect(maskOf(moved, "a")).toEqual({
+      ...DEFAULT_CLIP_MASK,
+      shape: "polygon",
+      invert: true,
+      x: 0.25,
+      points: triangle.slice(0, 2),
+    });
+  });
+
+  it("should remove the mask with null", () => {
+    const { state } = run(project([text("a")]).getState(), setMaskHandler, {
+      ids: ["a"],
+      mask: {},
+    });
+    const { state: removed } = run(state, setMaskHandler, { ids: ["a"], mask: null });
+    expect("mask" in removed.clips.a).toBe(false);
+    expect(setMaskHandler(removed, command({ ids: ["a"], mask: null }))).toEqual([]);
+  });
+
+  it("should skip locked clips and clips without pixels", () => {
+    const locked = { ...text("locked"), locked: true };
+    const state = project([locked], [audio("music")]).getState();
+    const ids = ["locked", "music", "missing"];
+    expect(setMaskHandler(state, command({ ids, mask: {} }))).toEqual([]);
+  });
+});
+
+describe("setTrackMatteHandler", () => {
+  it("should default to the overlapping clip on the nearest track above", () => {
+    const initial = project(
+      [text("far")],
+      [text("early", 0, 500_000), text("logo", 500_000)],
+      [text("footage", 600_000, 2_000_000)],
+    ).getState();
+    const { state } = run(initial, setTrackMatteHandler, { ids: ["footage"], mode: "luma" });
+    expect(matteOf(state, "footage")).toEqual({ sourceId: "logo", mode: "luma", invert: false });
+  });
+
+  it("should keep the source and inversion when only the mode changes", () => {
+    const initial = project([text("logo")], [text("footage")], [text("other")]).getState();
+    const { state } = run(initial, setTrackMatteHandler, {
+      ids: ["footage"],
+      mode: "alpha",
+      invert: true,
+      sourceId: "other",
+    });
+    const { state: luma } = run(state, setTrackMatteHandler, { ids: ["footage"], mode: "luma" });
+    expect(matteOf(luma, "footage")).toEqual({ sourceId: "other", mode: "luma", invert: true });
+
+    const { state: removed } = run(luma, setTrackMatteHandler, { ids: ["footage"], mode: null });
+    expect("trackMatte" in removed.clips.footage).toBe(false);
+  });
+
+  it("should skip clips without a matte source and clips matting themselves", () => {
+    const state = project([text("top")], [text("footage", 2_000_000)]).getState();
+    expect(setTrackMatteHandler(state, command({ ids: ["top"], mode: "alpha" }))).toEqual([]);
+    expect(setTrackMatteHandler(state, command({ ids: ["footage"], mode: "alpha" }))).toEqual([]);
+    expect(
+      setTrackMatteHandler(state, command({ ids: ["top"], mode: "alpha", sourceId: "top" })),
+    ).toEqual([]);
+  });
+});
+
+describe("mask commands", () => {
+  beforeAll(() => registerDefaultHandlers());
+
+  /** A store where `footage` has a rectangle mask and a luma matte from `logo` */
+  function masked() {
+    const store = project([text("logo")], [text("footage")]);
+    store.getState().execute({
+      id: "c1",
+      type: "clip.setMask",
+      payload: { ids: ["footage"], mask: { radius: 8 } },
+    });
+    store.getState().execute({
+      id: "c2",
+      type: "clip.setTrackMatte",
+      payload: { ids: ["footage"], mode: "luma" },
+    });
+    return store;
+  }
+
+  it("should keep masks and mattes through the project snapshot as JSON", () => {
+    const snapshot = JSON.parse(JSON.stringify(masked().getState().getSnapshot()));
+    const state = createProjectStore(snapshot).getState();
+    expect(maskOf(state, "footage")).toEqual({ ...DEFAULT_CLIP_MASK, radius: 8 });
+    expect(matteOf(state, "footage")).toEqual({ sourceId: "logo", mode: "luma", invert: false });
+  });
+
+  it("should replay their patches sent as JSON on another copy of the project", () => {
+    const store = project([text("logo")], [text("footage")]);
+    const replica = project([text("logo")], [text("footage")]);
+    store
+      .getState()
+      .onChange((patches) => replica.getState().applyPatch(JSON.parse(JSON.stringify(patches))));
+
+    store.getState().execute({
+      id: "c1",
+      type: "clip.setMask",
+      payload: { ids: ["footage"], mask: { shape: "ellipse" } },
+    });
+    store.getState().execute({
+      id: "c2",
+      type: "clip.setTrackMatte",
+      payload: { ids: ["footage"], mode: "alpha" },
+    });
+    expect(replica.getState().clips.footage).toEqual(store.getState().clips.footage);
+  });
+
+  it("should undo the matte and the mask one at a time", () => {
+    const store = masked();
+    store.getState().undo();
+    expect(matteOf(store.getState(), "footage")).toBeUndefined();
+    expect(maskOf(store.getState(), "footage")).toEqual({ ...DEFAULT_CLIP_MASK, radius: 8 });
+
+    store.getState().undo();
+    expect(store.getState().clips.footage).toEqual(text("footage"));
+
+    store.getState().redo();
+    expect(maskOf(store.getState(), "footage")).toEqual({ ...DEFAULT_CLIP_MASK, radius: 8 });
+  });
+});
@@ -0,0 +1,139 @@
+import { CommandHandler, Patch } from "./types";
+import { IClipMask, TrackMatteMode } from "../types";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Clip types that draw pixels and can be masked */
+const MASK_CLIP_TYPES = new Set([
+  "Video",
+  "Image",
+  "Sequence",
+  "Text",
+  "Caption",
+  "Visualizer",
+  "Shape",
+]);
+
+export const DEFAULT_CLIP_MASK: IClipMask = {
+  enabled: true,
+  shape: "rectangle",
+  x: 0.5,
+  y: 0.5,
+  width: 0.5,
+  height: 0.5,
+  feather: 0,
+  expansion: 0,
+  invert: false,
+};
+
+/**
+ * Build a full clip update patch for a maskable clip.
+ * Locked clips and other clip types are skipped.
+ */
+function buildClipPatch(state: any, id: string, merge: (clip: any) => any): Patch | null {
+  const clip = state.clips[id];
+  if (!clip || clip.locked || !MASK_CLIP_TYPES.has(clip.type)) return null;
+  return {
+    op: "update",
+    path: `/clips/${id}`,
+    value: merge(clip),
+    oldValue: clip,
+  };
+}
+
+/**
+ * The clip a track matte reads from: the maskable clip on the nearest track
+ * above that overlaps the target in time.
+ */
+function findMatteSource(state: any, clip: any): string | null {
+  const trackIndex = state.tracks.findIndex((t: any) => t.clipIds.includes(clip.id));
+  const { from, to } = clip.timing.display;
+
+  for (let i = trackIndex - 1; i >= 0; i--) {
+    for (const otherId of state.tracks[i].clipIds) {
+      const other = state.clips[otherId];
+      if (!other || !MASK_CLIP_TYPES.has(other.type)) continue;
+      const display = other.timing.display;
+      if (display.from < to && display.to > from) return otherId;
+    }
+  }
+  return null;
+}
+
+// ─── clip.setMask ─────────────────────────────────────────────────────────────
+
+/**
+ * Set, update or remove the shape mask of one or more clips.
+ *
+ * Payload:
+ *   ids  — clip IDs to update
+ *   mask — partial IClipMask delta (point lists are replaced); null removes
+ *          the mask. Clips without a mask start from DEFAULT_CLIP_MASK.
+ */
+export const setMaskHandler: CommandHandler<{
+  ids: string[];
+  mask: Partial<IClipMask> | null;
+}> = (state, command) => {
+  const { ids, mask } = command.payload;
+  const patches: Patch[] = [];
+
+  for (const id of ids) {
+    if (mask == null && !state.clips[id]?.mask) continue;
+
+    const patch = buildClipPatch(state, id, ({ mask: current, ...rest }) =>
+      mask == null ? rest : { ...rest, mask: { ...DEFAULT_CLIP_MASK, ...current, ...mask } },
+    );
+    if (patch) patches.push(patch);
+  }
+
+  return patches;
+};
+
+// ─── clip.setTrackMatte ───────────────────────────────────────────────────────
+
+/**
+ * Use another clip's alpha or luma as the mask of one or more clips.
+ *
+ * Payload:
+ *   ids      — clip IDs to update
+ *   mode     — 'alpha' or 'luma'; null removes the matte
+ *   invert   — keep the parts the matte hides instead
+ *   sourceId — matte clip; defaults to the overlapping clip on the nearest
+ *              track above. Clips with no such clip are skipped.
+ */
+export const setTrackMatteHandler: CommandHandler<{
+  ids: string[];
+  mode: TrackMatteMode | null;
+  invert?: boolean;
+  sourceId?: string;
+}> = (state, command) => {
+  const { ids, mode, invert, sourceId } = command.payload;
+  const patches: Patch[] = [];
+
+  for (const id of ids) {
+    const clip = state.clips[id];
+    if (!clip) continue;
+
+    if (mode == null) {
+      if (!clip.trackMatte) continue;
+      const patch = buildClipPatch(state, id, ({ trackMatte: _removed, ...rest }) => rest);
+      if (patch) patches.push(patch);
+      continue;
+    }
+
+    const source = sourceId ?? clip.trackMatte?.sourceId ?? findMatteSource(state, clip);
+    if (!source || source === id || !state.clips[source]) continue;
+
+    const patch = buildClipPatch(state, id, (c) => ({
+      ...c,
+      trackMatte: {
+        sourceId: source,
+        mode,
+        invert: invert ?? c.trackMatte?.invert ?? false,
+      },
+    }));
+    if (patch) patches.push(patch);
+  }
+
+  return patches;
+};
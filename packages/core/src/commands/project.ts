@@ -1,5 +1,6 @@
 import { CommandHandler } from "./types";
-import { IProject } from "../types";
+import { IDuckingSettings, IProject } from "../types";
+import type { IEasingCurve } from "../easings";
 
 export const updateSettingsHandler: CommandHandler<Partial<IProject["settings"]>> = (
   state,
@@ -17,6 +18,27 @@ export const updateSettingsHandler: CommandHandler<Partial<IProject["settings"]>
   ];
 };
 
+export const DEFAULT_DUCKING_SETTINGS: IDuckingSettings = {
+  enabled: false,
+  threshold: -40,
+  reduction: 12,
+  attack: 50,
+  release: 400,
+};
+
+export const setDuckingHandler: CommandHandler<Partial<IDuckingSettings>> = (state, command) => {
+  const ducking = { ...DEFAULT_DUCKING_SETTINGS, ...state.settings.ducking, ...command.payload };
+
+  return [
+    {
+      op: "update",
+      path: "/settings",
+      value: { ...state.settings, ducking },
+      oldValue: state.settings,
+    },
+  ];
+};
+
 export const selectClipsHandler: CommandHandler<{
   ids: string[];
   multi?: boolean;
@@ -70,6 +92,24 @@ export const resetProjectHandler: CommandHandler<IProject> = (_state, command) =
       value: newProject.clips || {},
       oldValue: _state.clips,
     },
+    {
+      op: "update",
+      path: "/easings",
+      value: newProject.easings || {},
+      oldValue: _state.easings,
+    },
+    {
+      op: "update",
+      path: "/sequences",
+      value: newProject.sequences || {},
+      oldValue: _state.sequences,
+    },
+    {
+      op: "update",
+      path: "/sequenceStack",
+      value: [],
+      oldValue: _state.sequenceStack,
+    },
     {
       op: "update",
       path: "/selectedIds",
@@ -84,3 +124,40 @@ export const resetProjectHandler: CommandHandler<IProject> = (_state, command) =
     },
   ];
 };
+
+/**
+ * Create or edit a project easing curve. Every fade, transition and keyframe
+ * referencing the ID picks up the new shape.
+ */
+export const defineEasingHandler: CommandHandler<{
+  id: string;
+  curve: IEasingCurve;
+  name?: string;
+}> = (state, command) => {
+  const { id, curve, name } = command.payload;
+  const easings = state.easings ?? {};
+
+  return [
+    {
+      op: "update",
+      path: "/easings",
+      value: { ...easings, [id]: { id, name: name ?? easings[id]?.name ?? id, curve } },
+      oldValue: state.easings,
+    },
+  ];
+};
+
+export const removeEasingHandler: CommandHandler<{ id: string }> = (state, command) => {
+  const { id } = command.payload;
+  if (!state.easings?.[id]) return [];
+
+  const { [id]: _removed, ...easings } = state.easings;
+  return [
+    {
+      op: "update",
+      path: "/easings",
+      value: easings,
+      oldValue: state.easings,
+    },
+  ];
+};
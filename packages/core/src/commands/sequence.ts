@@ -0,0 +1,272 @@
+import { CommandHandler, Patch } from "./types";
+import { AnyClip, ISequence, ITrack } from "../types";
+import { generateId } from "../utils/id";
+import { normalizeClip } from "../utils/normalize";
+import { getPlacedSequenceIds } from "../utils/sequences";
+
+/**
+ * Nested sequences: sub-timelines stored in `IProject.sequences` and placed
+ * as one layer by Sequence clips.
+ *
+ * Opening a sequence swaps its tracks, clips and settings in for the current
+ * ones, so every clip, track and editorial command edits it unchanged.
+ * Closing writes the edits back and restores the timeline it was opened from.
+ */
+
+/** Move a clip along the timeline */
+function shiftDisplay(clip: AnyClip, delta: number): AnyClip {
+  const { display } = clip.timing;
+  return {
+    ...clip,
+    timing: { ...clip.timing, display: { from: display.from + delta, to: display.to + delta } },
+  };
+}
+
+/** The sequence ID behind `id`, which names a sequence or a Sequence clip */
+function resolveSequenceId(
+  state: { clips: Record<string, AnyClip>; sequences?: Record<string, ISequence> },
+  id: string,
+) {
+  const clip = state.clips[id];
+  if (clip?.type === "Sequence") return clip.sequenceId;
+  return state.sequences?.[id] ? id : undefined;
+}
+
+/**
+ * Group clips into a new sequence and put a Sequence clip in their place, on
+ * the topmost track they used. Transitions between two grouped clips move
+ * with them; transitions to a clip left outside are removed.
+ *
+ * Payload:
+ *   ids  — clips to group, defaults to the selection
+ *   id   — ID of the new sequence (generated when omitted)
+ *   name — name of the sequence and its clip
+ */
+export const createSequenceHandler: CommandHandler<{
+  ids?: string[];
+  id?: string;
+  name?: string;
+}> = (state, command) => {
+  const { ids = state.selectedIds, id = generateId(), name } = command.payload ?? {};
+  if (state.sequences?.[id]) return [];
+
+  const grouped = new Set(
+    ids.filter((clipId) => state.clips[clipId] && state.clips[clipId].type !== "Transition"),
+  );
+  if (grouped.size === 0) return [];
+
+  const dropped = new Set<string>();
+  for (const clip of Object.values(state.clips)) {
+    if (clip.type !== "Transition") continue;
+    const ends = [clip.fromClipId, clip.toClipId].filter((end): end is string => !!end);
+    if (!ends.some((end) => grouped.has(end))) continue;
+    if (ends.every((end) => grouped.has(end))) grouped.add(clip.id);
+    else dropped.add(clip.id);
+  }
+
+  const members = [...grouped].map((clipId) => state.clips[clipId]);
+  const timed = members.filter((clip) => clip.type !== "Transition");
+  const start = Math.min(...timed.map((clip) => clip.timing.display.from));
+  const end = Math.max(...timed.map((clip) => clip.timing.display.to));
+  const length = end - start;
+
+  const sourceTracks = state.tracks.filter((track) =>
+    track.clipIds.some((clipId) => grouped.has(clipId)),
+  );
+  const sequence: ISequence = {
+    id,
+    name: name ?? `Sequence ${Object.keys(state.sequences ?? {}).length + 1}`,
+    settings: { ...state.settings, duration: length },
+    tracks: sourceTracks.map((track) => ({
+      ...track,
+      clipIds: track.clipIds.filter((clipId) => grouped.has(clipId)),
+    })),
+    clips: Object.fromEntries(members.map((clip) => [clip.id, shiftDisplay(clip, -start)])),
+  };
+
+  const sequenceClipId = generateId();
+  const sequenceClip = normalizeClip({
+    id: sequenceClipId,
+    type: "Sequence",
+    name: sequence.name,
+    sequenceId: id,
+    timing: {
+      display: { from: start, to: end },
+      trim: { from: 0, to: length },
+      duration: length,
+      playbackRate: 1,
+    },
+    transform: {
+      x: 0,
+      y: 0,
+      width: state.settings.width,
+      height: state.settings.height,
+      angle: 0,
+      zIndex: 10,
+      opacity: 1,
+      flip: null,
+    },
+    style: {},
+    effects: [],
+    animations: [],
+    keyframes: {},
+    locked: false,
+  });
+
+  const patches: Patch[] = [];
+  for (const clipId of [...grouped, ...dropped]) {
+    patches.push({ op: "remove", path: `/clips/${clipId}`, oldValue: state.clips[clipId] });
+  }
+  patches.push({ op: "add", path: `/clips/${sequenceClipId}`, value: sequenceClip });
+
+  // The Sequence clip takes the place of the first grouped clip of the topmost track
+  const target = sourceTracks[0];
+  const nextTracks = state.tracks
+    .map((track): ITrack => {
+      const clipIds = track.clipIds.filter(
+        (clipId) => !grouped.has(clipId) && !dropped.has(clipId),
+      );
+      if (track.id === target.id) {
+        const index = track.clipIds.findIndex((clipId) => grouped.has(clipId));
+        const before = track.clipIds.slice(0, index).filter((clipId) => clipIds.includes(clipId));
+        clipIds.splice(before.length, 0, sequenceClipId);
+      }
+      return { ...track, clipIds };
+    })
+    .filter((track) => track.clipIds.length > 0 || track.static === true);
+  patches.push({ op: "update", path: "/tracks", value: nextTracks, oldValue: state.tracks });
+
+  patches.push({
+    op: "update",
+    path: "/sequences",
+    value: { ...state.sequences, [id]: sequence },
+    oldValue: state.sequences,
+  });
+  patches.push({
+    op: "update",
+    path: "/selectedIds",
+    value: [sequenceClipId],
+    oldValue: state.selectedIds,
+  });
+
+  return patches;
+};
+
+/**
+ * Store a sequence, replacing one with the same ID. Used to bring a sequence
+ * (an intro or outro bumper) in from another project. Not while the sequence
+ * is open.
+ *
+ * Payload:
+ *   sequence — the sequence to store
+ */
+export const addSequenceHandler: CommandHandler<{ sequence: ISequence }> = (state, command) => {
+  const { sequence } = command.payload;
+  if (state.sequenceStack.some((frame) => frame.sequenceId === sequence.id)) return [];
+
+  return [
+    {
+      op: "update",
+      path: "/sequences",
+      value: { ...state.sequences, [sequence.id]: sequence },
+      oldValue: state.sequences,
+    },
+  ];
+};
+
+/**
+ * Delete a sequence. Refused while any Sequence clip, on any timeline, still
+ * places it.
+ *
+ * Payload:
+ *   id — sequence ID
+ */
+export const removeSequenceHandler: CommandHandler<{ id: string }> = (state, command) => {
+  const { id } = command.payload;
+  if (!state.sequences?.[id]) return [];
+
+  const timelines = [
+    state.clips,
+    ...state.sequenceStack.map((frame) => frame.clips),
+    ...Object.values(state.sequences).map((sequence) => sequence.clips),
+  ];
+  if (timelines.some((clips) => getPlacedSequenceIds(clips).includes(id))) return [];
+  if (state.sequenceStack.some((frame) => frame.sequenceId === id)) return [];
+
+  const { [id]: _removed, ...sequences } = state.sequences;
+  return [{ op: "update", path: "/sequences", value: sequences, oldValue: state.sequences }];
+};
+
+/**
+ * Open a sequence for editing. Its settings, tracks and clips replace the
+ * current ones until sequence.close, and the playhead goes to its start.
+ *
+ * Payload:
+ *   id — sequence ID, or the ID of a Sequence clip placing it
+ */
+export const openSequenceHandler: CommandHandler<{ id: string }> = (state, command) => {
+  const sequenceId = resolveSequenceId(state, command.payload.id);
+  const sequence = sequenceId ? state.sequences?.[sequenceId] : undefined;
+  if (!sequenceId || !sequence) return [];
+  if (state.sequenceStack.some((frame) => frame.sequenceId === sequenceId)) return [];
+
+  const frame = {
+    sequenceId,
+    settings: state.settings,
+    tracks: state.tracks,
+    clips: state.clips,
+  };
+
+  return [
+    {
+      op: "update",
+      path: "/sequenceStack",
+      value: [...state.sequenceStack, frame],
+      oldValue: state.sequenceStack,
+    },
+    { op: "update", path: "/settings", value: sequence.settings, oldValue: state.settings },
+    { op: "update", path: "/tracks", value: sequence.tracks, oldValue: state.tracks },
+    { op: "update", path: "/clips", value: sequence.clips, oldValue: state.clips },
+    { op: "update", path: "/selectedIds", value: [], oldValue: state.selectedIds },
+    { op: "update", path: "/currentTime", value: 0, oldValue: state.currentTime },
+  ];
+};
+
+/**
+ * Close the innermost open sequence: write its edits back and return to the
+ * timeline it was opened from, with the clips placing it selected.
+ */
+export const closeSequenceHandler: CommandHandler<void> = (state) => {
+  const frame = state.sequenceStack[state.sequenceStack.length - 1];
+  if (!frame) return [];
+
+  const sequence = state.sequences?.[frame.sequenceId];
+  const sequences = sequence
+    ? {
+        ...state.sequences,
+        [frame.sequenceId]: {
+          ...sequence,
+          settings: state.settings,
+          tracks: state.tracks,
+          clips: state.clips,
+        },
+      }
+    : state.sequences;
+  const placing = Object.values(frame.clips)
+    .filter((clip) => clip.type === "Sequence" && clip.sequenceId === frame.sequenceId)
+    .map((clip) => clip.id);
+
+  return [
+    { op: "update", path: "/sequences", value: sequences, oldValue: state.sequences },
+    {
+      op: "update",
+      path: "/sequenceStack",
+      value: state.sequenceStack.slice(0, -1),
+      oldValue: state.sequenceStack,
+    },
+    { op: "update", path: "/settings", value: frame.settings, oldValue: state.settings },
+    { op: "update", path: "/tracks", value: frame.tracks, oldValue: state.tracks },
+    { op: "update", path: "/clips", value: frame.clips, oldValue: state.clips },
+    { op: "update", path: "/selectedIds", value: placing, oldValue: state.selectedIds },
+  ];
+};
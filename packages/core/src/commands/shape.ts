@@ -0,0 +1,35 @@
+import { CommandHandler, Patch } from "./types";
+import { IShapeSettings } from "../types";
+import { createShapeSettings } from "../utils/shape";
+
+// ─── clip.setShape ────────────────────────────────────────────────────────────
+
+/**
+ * Update what one or more Shape clips draw.
+ *
+ * Payload:
+ *   ids   — clip IDs to update; locked clips and other clip types are skipped
+ *   shape — partial IShapeSettings delta. Fill, stroke and point lists are
+ *           replaced whole, so a gradient can swap for a solid colour.
+ */
+export const setShapeHandler: CommandHandler<{
+  ids: string[];
+  shape: Partial<IShapeSettings>;
+}> = (state, command) => {
+  const { ids, shape } = command.payload;
+  const patches: Patch[] = [];
+
+  for (const id of ids) {
+    const clip = state.clips[id];
+    if (!clip || clip.locked || clip.type !== "Shape") continue;
+
+    patches.push({
+      op: "update",
+      path: `/clips/${id}`,
+      value: { ...clip, shape: createShapeSettings({ ...clip.shape, ...shape }) },
+      oldValue: clip,
+    });
+  }
+
+  return patches;
+};
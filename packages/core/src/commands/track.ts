@@ -10,6 +10,11 @@ export const addTrackHandler: CommandHandler<Partial<ITrack>> = (state, command)
     type: payload?.type || "Video",
     clipIds: payload?.clipIds || [],
     accepts: payload?.accepts,
+    role: payload?.role,
+    gain: payload?.gain,
+    pan: payload?.pan,
+    muted: payload?.muted,
+    solo: payload?.solo,
   };
 
   return [
@@ -80,3 +85,20 @@ export const setTracksHandler: CommandHandler<ITrack[]> = (state, command) => {
     },
   ];
 };
+
+export const updateTrackHandler: CommandHandler<{
+  id: string;
+  updates: Partial<Omit<ITrack, "id" | "clipIds">>;
+}> = (state, command) => {
+  const { id, updates } = command.payload;
+  if (!state.tracks.some((t) => t.id === id)) return [];
+
+  return [
+    {
+      op: "update",
+      path: "/tracks",
+      value: state.tracks.map((t) => (t.id === id ? { ...t, ...updates } : t)),
+      oldValue: state.tracks,
+    },
+  ];
+};
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { getEasingById, resolveEasing, type EasingRegistry } from "./catalog";
+import { createEasingFunction } from "./curves";
+
+describe("built-in easings", () => {
+  it("should evaluate the named presets with their exact equations", () => {
+    expect(resolveEasing("easeInQuad")(0.5)).toBe(0.25);
+    expect(resolveEasing("easeOutCubic")(0.5)).toBe(0.875);
+    expect(resolveEasing("easeInSine")(0.5)).toBeCloseTo(1 - Math.cos(Math.PI / 4), 12);
+    expect(resolveEasing("easeOutExpo")(0.5)).toBeCloseTo(1 - Math.pow(2, -5), 12);
+    expect(resolveEasing("easeInCirc")(0.5)).toBeCloseTo(1 - Math.sqrt(0.75), 12);
+    expect(resolveEasing("easeInBack")(0.5)).toBeCloseTo(2.70158 * 0.125 - 1.70158 * 0.25, 12);
+  });
+
+  it("should keep the ease-in/out fade curves quadratic", () => {
+    expect(resolveEasing("ease-in")(0.3)).toBeCloseTo(0.09, 12);
+    expect(resolveEasing("ease-out")(0.3)).toBeCloseTo(0.51, 12);
+    expect(resolveEasing("ease-in-out")(0.25)).toBeCloseTo(0.125, 12);
+  });
+
+  it("should start at 0 and end at 1", () => {
+    for (const id of ["easeInOutExpo", "easeInOutCirc", "easeInOutBack", "spring", "bounce"]) {
+      const ease = resolveEasing(id);
+      expect(ease(0)).toBeCloseTo(0, 9);
+      expect(ease(1)).toBeCloseTo(1, 9);
+    }
+  });
+
+  it("should fall back to linear for unknown IDs", () => {
+    expect(resolveEasing("no-such-curve")(0.3)).toBe(0.3);
+    expect(resolveEasing(undefined)(0.3)).toBe(0.3);
+  });
+});
+
+describe("project easings", () => {
+  const easings: EasingRegistry = {
+    snappy: { id: "snappy", name: "Snappy", curve: { type: "steps", steps: 2 } },
+    linear: { id: "linear", name: "Not linear", curve: { type: "penner", name: "easeInQuad" } },
+  };
+
+  it("should resolve IDs against the project's curves first", () => {
+    expect(resolveEasing("snappy", easings)(0.6)).toBe(0.5);
+    expect(resolveEasing("linear", easings)(0.5)).toBe(0.25);
+    expect(getEasingById("snappy", easings)?.name).toBe("Snappy");
+  });
+
+  it("should not leak into other projects", () => {
+    resolveEasing("snappy", easings);
+    expect(resolveEasing("snappy")(0.6)).toBe(0.6);
+    expect(resolveEasing("linear", {})(0.5)).toBe(0.5);
+    expect(getEasingById("snappy")).toBeUndefined();
+  });
+});
+
+describe("createEasingFunction", () => {
+  it("should hold each step until its end by default", () => {
+    const ease = createEasingFunction({ type: "steps", steps: 4 });
+    expect(ease(0)).toBe(0);
+    expect(ease(0.24)).toBe(0);
+    expect(ease(0.25)).toBe(0.25);
+    expect(ease(0.99)).toBe(0.75);
+    expect(ease(1)).toBe(1);
+  });
+
+  it("should jump at the start of each step with position start", () => {
+    const ease = createEasingFunction({ type: "steps", steps: 4, position: "start" });
+    expect(ease(0)).toBe(0.25);
+    expect(ease(0.01)).toBe(0.25);
+    expect(ease(0.26)).toBe(0.5);
+  });
+
+  it("should overshoot an underdamped spring and settle on 1", () => {
+    const ease = createEasingFunction({ type: "spring", stiffness: 180, damping: 12 });
+    const samples = Array.from({ length: 101 }, (_, i) => ease(i / 100));
+    expect(Math.max(...samples)).toBeGreaterThan(1);
+    expect(samples[100]).toBe(1);
+    expect(Math.abs(samples[99] - 1)).toBeLessThan(0.01);
+  });
+
+  it("should not overshoot a critically damped spring", () => {
+    const ease = createEasingFunction({ type: "spring", stiffness: 100, damping: 20 });
+    for (let i = 0; i <= 100; i++) expect(ease(i / 100)).toBeLessThanOrEqual(1);
+  });
+
+  it("should match the CSS definition of a cubic bezier", () => {
+    const ease = createEasingFunction({ type: "cubic-bezier", x1: 0, y1: 0, x2: 1, y2: 1 });
+    expect(ease(0.37)).toBeCloseTo(0.37, 5);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * @openvideo/core — Easing Catalog
+ *
+ * Single source of truth for easing curves. Fades (`IFade.curve`), transition clips
+ * (`ITransitionClip.easing`), keyframes (`IKeyframe.easing`) and preset animations all
+ * reference curves by ID and resolve them here, so a curve edited once behaves the
+ * same in the preview, in export and in audio.
+ *
+ * Project-specific curves are stored in `IProject.easings` and passed along wherever a
+ * curve is resolved, so one project's curves never leak into another. They may shadow
+ * a built-in ID. registerEasing() is for app-wide curves such as plugins.
+ *
+ * To add a new built-in curve, append an IEasingDefinition entry to EASING_CATALOG.
+ */
+
+import {
+  createEasingFunction,
+  type EasingFunction,
+  type IEasingCurve,
+  type PennerEasingName,
+} from "./curves";
+
+/**
+ * Easing reference. Built-in IDs are listed for autocompletion; any registered
+ * custom ID is accepted as well.
+ */
+export type EasingId =
+  | "linear"
+  | "hold"
+  | "ease"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out"
+  | (string & {});
+
+export interface IEasingDefinition {
+  /** ID used by fades, transitions and keyframes */
+  id: string;
+  /** Human-readable display name */
+  name: string;
+  curve: IEasingCurve;
+  /** Whether this curve was registered at runtime (project or plugin) */
+  isCustom?: boolean;
+}
+
+const bezier = (x1: number, y1: number, x2: number, y2: number): IEasingCurve => ({
+  type: "cubic-bezier",
+  x1,
+  y1,
+  x2,
+  y2,
+});
+
+/** Project curves keyed by ID, as stored in `IProject.easings` */
+export type EasingRegistry = Record<string, IEasingDefinition>;
+
+const penner = (name: PennerEasingName): IEasingCurve => ({ type: "penner", name });
+
+/**
+ * Built-in curves. The named presets keep their exact Penner equations so
+ * existing animations and fades play back unchanged.
+ */
+export const EASING_CATALOG: IEasingDefinition[] = [
+  // ─── Basic ─────────────────────────────────────────────────────────────────
+  { id: "linear", name: "Linear", curve: { type: "linear" } },
+  { id: "hold", name: "Hold", curve: { type: "steps", steps: 1, position: "end" } },
+  { id: "ease", name: "Ease", curve: bezier(0.25, 0.1, 0.25, 1) },
+  { id: "ease-in", name: "Ease In", curve: penner("easeInQuad") },
+  { id: "ease-out", name: "Ease Out", curve: penner("easeOutQuad") },
+  { id: "ease-in-out", name: "Ease In Out", curve: penner("easeInOutQuad") },
+
+  // ─── Polynomial ────────────────────────────────────────────────────────────
+  { id: "easeInQuad", name: "Quad In", curve: penner("easeInQuad") },
+  { id: "easeOutQuad", name: "Quad Out", curve: penner("easeOutQuad") },
+  { id: "easeInOutQuad", name: "Quad In Out", curve: penner("easeInOutQuad") },
+  { id: "easeInCubic", name: "Cubic In", curve: penner("easeInCubic") },
+  { id: "easeOutCubic", name: "Cubic Out", curve: penner("easeOutCubic") },
+  { id: "easeInOutCubic", name: "Cubic In Out", curve: penner("easeInOutCubic") },
+
+  // ─── Sine / Expo / Circ ────────────────────────────────────────────────────
+  { id: "easeInSine", name: "Sine In", curve: penner("easeInSine") },
+  { id: "easeOutSine", name: "Sine Out", curve: penner("easeOutSine") },
+  { id: "easeInOutSine", name: "Sine In Out", curve: penner("easeInOutSine") },
+  { id: "easeInExpo", name: "Expo In", curve: penner("easeInExpo") },
+  { id: "easeOutExpo", name: "Expo Out", curve: penner("easeOutExpo") },
+  { id: "easeInOutExpo", name: "Expo In Out", curve: penner("easeInOutExpo") },
+  { id: "easeInCirc", name: "Circ In", curve: penner("easeInCirc") },
+  { id: "easeOutCirc", name: "Circ Out", curve: penner("easeOutCirc") },
+  { id: "easeInOutCirc", name: "Circ In Out", curve: penner("easeInOutCirc") },
+
+  // ─── Overshoot ─────────────────────────────────────────────────────────────
+  { id: "easeInBack", name: "Back In", curve: penner("easeInBack") },
+  { id: "easeOutBack", name: "Back Out", curve: penner("easeOutBack") },
+  { id: "easeInOutBack", name: "Back In Out", curve: penner("easeInOutBack") },
+  { id: "spring", name: "Spring", curve: { type: "spring", stiffness: 170, damping: 26 } },
+  {
+    id: "spring-wobbly",
+    name: "Wobbly Spring",
+    curve: { type: "spring", stiffness: 180, damping: 12 },
+  },
+  { id: "bounce", name: "Bounce", curve: { type: "bounce", bounces: 3, restitution: 0.5 } },
+
+  // ─── Stylized ──────────────────────────────────────────────────────────────
+  { id: "slow", name: "Slow Motion", curve: { type: "slow-mo", linearRatio: 0.5, power: 0.5 } },
+];
+
+const builtIns = new Map(EASING_CATALOG.map((e) => [e.id, e]));
+const compiled = new Map<string, EasingFunction>();
+/** Project curves compile once per curve object; edits replace the object */
+const compiledCurves = new WeakMap<IEasingCurve, EasingFunction>();
+const linear: EasingFunction = (t) => t;
+
+/**
+ * Look up a curve definition by ID, in the project's curves first.
+ */
+export function getEasingById(id: string, easings?: EasingRegistry): IEasingDefinition | undefined {
+  return easings?.[id] ?? EASING_CATALOG.find((e) => e.id === id);
+}
+
+/**
+ * Register an app-wide curve at runtime (plugins). Project curves are not
+ * registered; pass `IProject.easings` to resolveEasing() instead.
+ * If a curve with the same ID already exists, it will be overwritten.
+ */
+export function registerEasing(definition: IEasingDefinition): void {
+  const existingIndex = EASING_CATALOG.findIndex((e) => e.id === definition.id);
+  if (existingIndex >= 0) {
+    EASING_CATALOG[existingIndex] = { ...definition, isCustom: true };
+  } else {
+    EASING_CATALOG.push({ ...definition, isCustom: true });
+  }
+  compiled.delete(definition.id);
+}
+
+/**
+ * Remove a runtime-registered curve. A shadowed built-in curve is restored.
+ */
+export function unregisterEasing(id: string): void {
+  const index = EASING_CATALOG.findIndex((e) => e.id === id && e.isCustom);
+  if (index < 0) return;
+
+  const builtIn = builtIns.get(id);
+  if (builtIn) {
+    EASING_CATALOG[index] = builtIn;
+  } else {
+    EASING_CATALOG.splice(index, 1);
+  }
+  compiled.delete(id);
+}
+
+/**
+ * Resolve an easing reference to a function.
+ * Accepts an ID, an inline curve or a function; IDs are looked up in the
+ * project's `easings` first, and unknown IDs fall back to linear.
+ */
+export function resolveEasing(
+  easing: EasingId | IEasingCurve | EasingFunction | undefined,
+  easings?: EasingRegistry,
+): EasingFunction {
+  if (typeof easing === "function") return easing;
+  if (easing == null) return linear;
+  if (typeof easing === "object") return compileCurve(easing);
+
+  const custom = easings?.[easing];
+  if (custom) return compileCurve(custom.curve);
+
+  let fn = compiled.get(easing);
+  if (!fn) {
+    const definition = getEasingById(easing);
+    if (!definition) return linear;
+    fn = createEasingFunction(definition.curve);
+    compiled.set(easing, fn);
+  }
+  return fn;
+}
+
+function compileCurve(curve: IEasingCurve): EasingFunction {
+  let fn = compiledCurves.get(curve);
+  if (!fn) {
+    fn = createEasingFunction(curve);
+    compiledCurves.set(curve, fn);
+  }
+  return fn;
+}
@@ -0,0 +1,319 @@
+/**
+ * Parametric easing curves. Every curve maps progress t ∈ [0, 1] to an eased
+ * value that starts at 0 and ends at 1 (overshoot in between is allowed).
+ * Curves are plain data so they can live in a project and be edited.
+ */
+export type IEasingCurve =
+  | { type: "linear" }
+  | { type: "penner"; name: PennerEasingName }
+  | {
+      type: "cubic-bezier";
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+    }
+  | {
+      type: "steps";
+      steps: number;
+      /** "end" holds each step until its end (CSS jump-end), "start" jumps immediately. */
+      position?: "start" | "end";
+    }
+  | {
+      type: "spring";
+      stiffness: number;
+      damping: number;
+      mass?: number;
+      /** Initial velocity in units per second, positive towards the target. */
+      velocity?: number;
+    }
+  | {
+      type: "bounce";
+      /** Number of bounces after the first impact. */
+      bounces?: number;
+      /** Fraction of speed kept on each impact (0–1). */
+      restitution?: number;
+    }
+  | {
+      type: "slow-mo";
+      linearRatio?: number;
+      power?: number;
+      yoyo?: boolean;
+    }
+  | {
+      /** Part of another curve, rescaled to run from 0 to 1 */
+      type: "segment";
+      curve: IEasingCurve;
+      /** Progress along `curve` where the part starts, 0–1 */
+      from: number;
+      /** Progress along `curve` where the part ends, 0–1 */
+      to: number;
+    };
+
+export type EasingFunction = (t: number) => number;
+
+/** Robert Penner's classic easing equations, evaluated exactly */
+export type PennerEasingName = keyof typeof PENNER_EASINGS;
+
+const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
+
+// ─── penner ──────────────────────────────────────────────────────────────────
+
+const BACK = 1.70158;
+const BACK_IN_OUT = BACK * 1.525;
+
+const PENNER_EASINGS = {
+  easeInQuad: (t) => t * t,
+  easeOutQuad: (t) => t * (2 - t),
+  easeInOutQuad: (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+
+  easeInCubic: (t) => t * t * t,
+  easeOutCubic: (t) => --t * t * t + 1,
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : (t - 1) * (2 * t - 2) * (2 * t - 2) + 1),
+
+  easeInSine: (t) => 1 - Math.cos((t * Math.PI) / 2),
+  easeOutSine: (t) => Math.sin((t * Math.PI) / 2),
+  easeInOutSine: (t) => 0.5 * (1 - Math.cos(Math.PI * t)),
+
+  easeInExpo: (t) => (t === 0 ? 0 : Math.pow(2, 10 * (t - 1))),
+  easeOutExpo: (t) => (t === 1 ? 1 : 1 - Math.pow(2, -10 * t)),
+  easeInOutExpo: (t) => {
+    if (t === 0) return 0;
+    if (t === 1) return 1;
+    if ((t /= 0.5) < 1) return 0.5 * Math.pow(2, 10 * (t - 1));
+    return 0.5 * (2 - Math.pow(2, -10 * --t));
+  },
+
+  easeInCirc: (t) => 1 - Math.sqrt(1 - t * t),
+  easeOutCirc: (t) => Math.sqrt(1 - (t - 1) * (t - 1)),
+  easeInOutCirc: (t) => {
+    if ((t /= 0.5) < 1) return -0.5 * (Math.sqrt(1 - t * t) - 1);
+    return 0.5 * (Math.sqrt(1 - (t - 2) * t) + 1);
+  },
+
+  easeInBack: (t) => (BACK + 1) * t * t * t - BACK * t * t,
+  easeOutBack: (t) => 1 + (BACK + 1) * Math.pow(t - 1, 3) + BACK * Math.pow(t - 1, 2),
+  easeInOutBack: (t) =>
+    t < 0.5
+      ? (Math.pow(2 * t, 2) * ((BACK_IN_OUT + 1) * 2 * t - BACK_IN_OUT)) / 2
+      : (Math.pow(2 * t - 2, 2) * ((BACK_IN_OUT + 1) * (t * 2 - 2) + BACK_IN_OUT) + 2) / 2,
+} satisfies Record<string, EasingFunction>;
+
+// ─── cubic-bezier ────────────────────────────────────────────────────────────
+
+function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  // Polynomial coefficients, same formulation as the CSS spec implementations
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+  const sampleDX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+  const solveX = (x: number) => {
+    // Newton-Raphson first, bisection when the slope is too flat
+    let s = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(s) - x;
+      if (Math.abs(error) < 1e-6) return s;
+      const slope = sampleDX(s);
+      if (Math.abs(slope) < 1e-6) break;
+      s -= error / slope;
+    }
+
+    let lo = 0;
+    let hi = 1;
+    s = x;
+    while (lo < hi) {
+      const value = sampleX(s);
+      if (Math.abs(value - x) < 1e-6) return s;
+      if (x > value) lo = s;
+      else hi = s;
+      s = (lo + hi) / 2;
+      if (hi - lo < 1e-7) break;
+    }
+    return s;
+  };
+
+  return (t) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return sampleY(solveX(t));
+  };
+}
+
+// ─── steps ───────────────────────────────────────────────────────────────────
+
+function steps(count: number, position: "start" | "end"): EasingFunction {
+  const n = Math.max(1, Math.round(count));
+  return (t) => {
+    if (t >= 1) return 1;
+    if (t <= 0) return position === "start" ? 1 / n : 0;
+    const step = position === "start" ? Math.ceil(t * n) : Math.floor(t * n);
+    return step / n;
+  };
+}
+
+// ─── spring ──────────────────────────────────────────────────────────────────
+
+/**
+ * Damped harmonic oscillator released from 0 towards 1.
+ * Progress is mapped onto the time the spring needs to settle within 0.1%,
+ * so the curve always lands exactly on 1 at t = 1.
+ */
+function spring(stiffness: number, damping: number, mass = 1, velocity = 0): EasingFunction {
+  const k = Math.max(stiffness, 1e-3);
+  const m = Math.max(mass, 1e-3);
+  const w0 = Math.sqrt(k / m);
+  const zeta = Math.max(damping, 0) / (2 * Math.sqrt(k * m));
+  const SETTLE = Math.log(1000);
+
+  let displacement: (tau: number) => number;
+  let settleTime: number;
+
+  if (zeta < 1) {
+    const wd = w0 * Math.sqrt(1 - zeta * zeta);
+    const b = (zeta * w0 - velocity) / wd;
+    displacement = (tau) =>
+      Math.exp(-zeta * w0 * tau) * (Math.cos(wd * tau) + b * Math.sin(wd * tau));
+    // Undamped springs never settle; cap to a handful of oscillations
+    settleTime = zeta > 0 ? SETTLE / (zeta * w0) : (10 * Math.PI) / w0;
+  } else if (zeta === 1) {
+    displacement = (tau) => Math.exp(-w0 * tau) * (1 + (w0 - velocity) * tau);
+    settleTime = (SETTLE + 2) / w0;
+  } else {
+    const root = w0 * Math.sqrt(zeta * zeta - 1);
+    const r1 = -zeta * w0 + root;
+    const r2 = -zeta * w0 - root;
+    const c2 = (-velocity - r1) / (r2 - r1);
+    const c1 = 1 - c2;
+    displacement = (tau) => c1 * Math.exp(r1 * tau) + c2 * Math.exp(r2 * tau);
+    settleTime = SETTLE / Math.abs(r1);
+  }
+
+  return (t) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return 1 - displacement(t * settleTime);
+  };
+}
+
+// ─── bounce ──────────────────────────────────────────────────────────────────
+
+/**
+ * A ball dropped onto the target: a free fall followed by `bounces` parabolic
+ * hops, each losing speed by `restitution`.
+ */
+function bounce(bounces = 3, restitution = 0.5): EasingFunction {
+  const n = Math.max(0, Math.round(bounces));
+  const r = clamp01(restitution);
+
+  // Fall takes 1 time unit; hop i takes 2·rⁱ and peaks at a height of r²ⁱ
+  const hops: Array<{ start: number; half: number }> = [];
+  let total = 1;
+  for (let i = 1; i <= n; i++) {
+    const half = Math.pow(r, i);
+    hops.push({ start: total, half });
+    total += 2 * half;
+  }
+
+  return (t) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    const tau = t * total;
+    if (tau <= 1) return tau * tau;
+    for (const { start, half } of hops) {
+      if (tau <= start + 2 * half) {
+        const d = tau - start - half;
+        return 1 - (half * half - d * d);
+      }
+    }
+    return 1;
+  };
+}
+
+// ─── slow-mo ─────────────────────────────────────────────────────────────────
+
+/**
+ * Eases in, holds a linear middle section, then eases out (GSAP SlowMo).
+ */
+function slowMo(linearRatio = 0.7, power = 0.7, yoyo = false): EasingFunction {
+  const lr = Math.min(1, linearRatio);
+  const pow = lr < 1 ? power : 0;
+  const t1 = (1 - lr) / 2;
+  const t3 = t1 + lr;
+
+  return (t) => {
+    const r = t + (0.5 - t) * pow;
+    if (t < t1) {
+      const tMod = 1 - t / t1;
+      return yoyo ? 1 - tMod * tMod : r - tMod * tMod * tMod * r;
+    }
+    if (t > t3) {
+      const tMod = (t - t3) / t1;
+      return yoyo ? (t === 1 ? 0 : 1 - tMod * tMod) : r + (t - r) * tMod * tMod * tMod;
+    }
+    return yoyo ? 1 : r;
+  };
+}
+
+// ─── segment ─────────────────────────────────────────────────────────────────
+
+/**
+ * The part of `ease` between progress `from` and `to`, rescaled so that it
+ * still runs from 0 to 1. A part over which the curve does not move has no
+ * shape to keep and plays linearly.
+ */
+function segment(ease: EasingFunction, from: number, to: number): EasingFunction {
+  const start = ease(from);
+  const range = ease(to) - start;
+  if (Math.abs(range) < 1e-9) return (t) => t;
+
+  return (t) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return (ease(from + (to - from) * t) - start) / range;
+  };
+}
+
+/**
+ * The part of `curve` between progress `from` and `to` as a curve of its own.
+ * Parts of parts collapse onto the original curve, so splitting repeatedly
+ * does not nest.
+ */
+export function sliceEasingCurve(curve: IEasingCurve, from: number, to: number): IEasingCurve {
+  if (curve.type === "linear" || (from <= 0 && to >= 1)) return curve;
+  if (curve.type === "segment") {
+    const span = curve.to - curve.from;
+    return sliceEasingCurve(curve.curve, curve.from + span * from, curve.from + span * to);
+  }
+  return { type: "segment", curve, from, to };
+}
+
+/**
+ * Compile a curve definition into an easing function.
+ */
+export function createEasingFunction(curve: IEasingCurve): EasingFunction {
+  switch (curve.type) {
+    case "penner":
+      return PENNER_EASINGS[curve.name] ?? ((t) => t);
+    case "cubic-bezier":
+      return cubicBezier(clamp01(curve.x1), curve.y1, clamp01(curve.x2), curve.y2);
+    case "steps":
+      return steps(curve.steps, curve.position ?? "end");
+    case "spring":
+      return spring(curve.stiffness, curve.damping, curve.mass, curve.velocity);
+    case "bounce":
+      return bounce(curve.bounces, curve.restitution);
+    case "slow-mo":
+      return slowMo(curve.linearRatio, curve.power, curve.yoyo);
+    case "segment":
+      return segment(createEasingFunction(curve.curve), clamp01(curve.from), clamp01(curve.to));
+    default:
+      return (t) => t;
+  }
+}
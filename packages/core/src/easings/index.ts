@@ -0,0 +1,11 @@
+export {
+  EASING_CATALOG,
+  getEasingById,
+  registerEasing,
+  unregisterEasing,
+  resolveEasing,
+} from "./catalog";
+export { createEasingFunction, sliceEasingCurve } from "./curves";
+
+export type { EasingId, EasingRegistry, IEasingDefinition } from "./catalog";
+export type { EasingFunction, IEasingCurve, PennerEasingName } from "./curves";
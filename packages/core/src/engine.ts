@@ -6,15 +6,29 @@ import { EventEmitter } from "./events";
 import {
   IProject,
   AnyClip,
+  BlendMode,
   ITrack,
+  TrackRole,
+  ITrackMix,
+  IDuckingSettings,
   ICaptionStyle,
   ICaptionColors,
+  IChromaKey,
   IClipTimingInput,
+  IColorAdjustment,
+  ILut,
+  IClipMask,
+  IShapeSettings,
+  ISequence,
+  KeyframeEasing,
+  KeyframeProperty,
+  TrackMatteMode,
 } from "./types";
 import { Command, Patch } from "./commands/types";
 import { loadClip } from "./utils/load-item";
 import { normalizeClip } from "./utils/normalize";
 import { nanoid } from "nanoid";
+import { IEasingCurve } from "./easings";
 
 /** Payload type for clip.add / clip.prepare – timing may be partial; loadClip fills in defaults. */
 export type AddClipPayload = Omit<Partial<AnyClip>, "timing"> & {
@@ -99,6 +113,11 @@ export class Core extends EventEmitter {
     this.emit("change", patches);
   }
 
+  /** Apply patches as one undoable history entry; emitted as a single change */
+  public record(patches: Patch[], command: Command) {
+    this.store.getState().record(patches, command);
+  }
+
   public reset(project: IProject) {
     this.store.getState().reset(project);
     this.emit("change", [{ op: "update", path: "/", value: project }]);
@@ -115,6 +134,7 @@ export class Core extends EventEmitter {
           height: state.settings.height,
         },
         objectFit: options?.objectFit,
+        easings: state.easings,
       });
     },
 
@@ -168,6 +188,259 @@ export class Core extends EventEmitter {
         payload: { ids },
       });
     },
+    /**
+     * Set a speed curve on a Video or Audio clip: keyframes of playback rate
+     * at display-relative times (µs). Pass null to remove it.
+     */
+    setSpeedRamp: (
+      id: string,
+      keyframes: Array<{ time: number; value: number; easing?: KeyframeEasing }> | null,
+    ) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.setSpeedRamp",
+        payload: { id, keyframes },
+      });
+    },
+    /**
+     * Play a Video or Audio clip backwards (or forwards again).
+     */
+    setReversed: (id: string, reversed: boolean) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.setReversed",
+        payload: { id, reversed },
+      });
+    },
+    /**
+     * Hold the frame of a Video clip at `time` for `duration` (µs), splitting
+     * the clip around it. Defaults to the playhead and the selected clip.
+     */
+    freezeFrame: (duration: number, time?: number, id?: string) => {
+      const state = this.store.getState();
+      const clipId = id || state.selectedIds[0];
+      if (!clipId) return;
+
+      this.execute({
+        id: nanoid(),
+        type: "clip.freezeFrame",
+        payload: { id: clipId, time: time ?? state.currentTime, duration },
+      });
+    },
+    /**
+     * Set how clips blend with the layers under them. Defaults to the
+     * selected clips.
+     */
+    setBlendMode: (blendMode: BlendMode, ids?: string[]) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.setBlendMode",
+        payload: { ids: ids ?? this.store.getState().selectedIds, blendMode },
+      });
+    },
+
+    /**
+     * Apply a partial colour correction (basic, HSL, curves) to Video, Image
+     * or Sequence clips. Defaults to the selected clips.
+     */
+    setColor: (color: Partial<IColorAdjustment>, ids?: string[]) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.setColor",
+        payload: { ids: ids ?? this.store.getState().selectedIds, color },
+      });
+    },
+    /**
+     * Apply a partial chroma key update. Defaults to the selected clips.
+     */
+    setChromaKey: (chromaKey: Partial<IChromaKey>, ids?: string[]) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.setChromaKey",
+        payload: { ids: ids ?? this.store.getState().selectedIds, chromaKey },
+      });
+    },
+    /**
+     * Grade clips with a `.cube` LUT, or pass null to remove it.
+     * Defaults to the selected clips.
+     */
+    setLut: (lut: Partial<ILut> | null, ids?: string[]) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.setLut",
+        payload: { ids: ids ?? this.store.getState().selectedIds, lut },
+      });
+    },
+    /**
+     * Add or edit a shape mask, or pass null to remove it.
+     * Defaults to the selected clips.
+     */
+    setMask: (mask: Partial<IClipMask> | null, ids?: string[]) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.setMask",
+        payload: { ids: ids ?? this.store.getState().selectedIds, mask },
+      });
+    },
+    /**
+     * Mask clips with the alpha or luma of the clip on the track above,
+     * or pass null to remove the matte. Defaults to the selected clips.
+     */
+    setTrackMatte: (
+      mode: TrackMatteMode | null,
+      options: { invert?: boolean; sourceId?: string; ids?: string[] } = {},
+    ) => {
+      const { ids, ...rest } = options;
+      this.execute({
+        id: nanoid(),
+        type: "clip.setTrackMatte",
+        payload: { ids: ids ?? this.store.getState().selectedIds, mode, ...rest },
+      });
+    },
+
+    /**
+     * Update what Shape clips draw (kind, fill, stroke, trim...). Defaults to
+     * the selected clips.
+     */
+    setShape: (shape: Partial<IShapeSettings>, ids?: string[]) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.setShape",
+        payload: { ids: ids ?? this.store.getState().selectedIds, shape },
+      });
+    },
+
+    /**
+     * Remove clips and close the gaps they leave on their tracks.
+     * Pass a `{ from, to }` range (µs) instead to cut it out of every track.
+     */
+    rippleDelete: (target: string[] | { from: number; to: number }) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.rippleDelete",
+        payload: Array.isArray(target) ? { ids: target } : target,
+      });
+    },
+    /**
+     * Trim the start or end of a clip by `delta` (µs, positive is later) and
+     * move the rest of its track along.
+     */
+    rippleTrim: (id: string, edge: "start" | "end", delta: number) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.rippleTrim",
+        payload: { id, edge, delta },
+      });
+    },
+    /**
+     * Move the cut at the start or end of a clip by `delta` (µs) into the
+     * clip touching it.
+     */
+    roll: (id: string, edge: "start" | "end", delta: number) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.roll",
+        payload: { id, edge, delta },
+      });
+    },
+    /**
+     * Show a later (positive) or earlier part of the source in the same
+     * timeline slot. `delta` is in source µs.
+     */
+    slip: (id: string, delta: number) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.slip",
+        payload: { id, delta },
+      });
+    },
+    /**
+     * Move a clip by `delta` (µs) while its neighbours absorb the move.
+     */
+    slide: (id: string, delta: number) => {
+      this.execute({
+        id: nanoid(),
+        type: "clip.slide",
+        payload: { id, delta },
+      });
+    },
+    /**
+     * Insert a clip at `time` (µs, defaults to the playhead) on a track,
+     * pushing later clips back.
+     */
+    insert: async (payload: AddClipPayload, trackId: string, time?: number) => {
+      const clip = await this.clip.prepare(payload);
+      this.execute({
+        id: nanoid(),
+        type: "clip.insert",
+        payload: { clip, trackId, time: time ?? this.store.getState().currentTime },
+      });
+      return clip;
+    },
+    /**
+     * Place a clip at `time` (µs, defaults to the playhead) on a track,
+     * replacing what it covers.
+     */
+    overwrite: async (payload: AddClipPayload, trackId: string, time?: number) => {
+      const clip = await this.clip.prepare(payload);
+      this.execute({
+        id: nanoid(),
+        type: "clip.overwrite",
+        payload: { clip, trackId, time: time ?? this.store.getState().currentTime },
+      });
+      return clip;
+    },
+
+    /**
+     * Keyframe tracks. Times are microseconds from the clip's display start.
+     */
+    keyframe: {
+      add: (
+        id: string,
+        property: KeyframeProperty,
+        time: number,
+        value: number,
+        easing?: KeyframeEasing,
+      ) => {
+        this.execute({
+          id: nanoid(),
+          type: "clip.keyframe.add",
+          payload: { id, property, time, value, easing },
+        });
+      },
+      remove: (id: string, property: KeyframeProperty, keyframeIds?: string[]) => {
+        this.execute({
+          id: nanoid(),
+          type: "clip.keyframe.remove",
+          payload: { id, property, keyframeIds },
+        });
+      },
+      move: (
+        id: string,
+        property: KeyframeProperty,
+        keyframeId: string,
+        time: number,
+        value?: number,
+      ) => {
+        this.execute({
+          id: nanoid(),
+          type: "clip.keyframe.move",
+          payload: { id, property, keyframeId, time, value },
+        });
+      },
+      setEasing: (
+        id: string,
+        property: KeyframeProperty,
+        keyframeIds: string[],
+        easing: KeyframeEasing,
+      ) => {
+        this.execute({
+          id: nanoid(),
+          type: "clip.keyframe.setEasing",
+          payload: { id, property, keyframeIds, easing },
+        });
+      },
+    },
   };
 
   public track = {
@@ -192,6 +465,29 @@ export class Core extends EventEmitter {
         payload: { id, newIndex },
       });
     },
+    update: (id: string, updates: Partial<Omit<ITrack, "id" | "clipIds">>) => {
+      this.execute({
+        id: nanoid(),
+        type: "track.update",
+        payload: { id, updates },
+      });
+    },
+    /** Tag a track as dialogue, music or sfx; `undefined` clears the role. */
+    setRole: (id: string, role: TrackRole | undefined) => {
+      this.execute({
+        id: nanoid(),
+        type: "track.update",
+        payload: { id, updates: { role } },
+      });
+    },
+    /** Update gain (dB), pan, mute or solo; unset fields are left as they are. */
+    setMix: (id: string, mix: Omit<ITrackMix, "role">) => {
+      this.execute({
+        id: nanoid(),
+        type: "track.update",
+        payload: { id, updates: mix },
+      });
+    },
   };
 
   /** Helper to collect all caption clip IDs from the store. */
@@ -248,6 +544,101 @@ export class Core extends EventEmitter {
     },
   };
 
+  /**
+   * Nested sequences: sub-timelines placed as one layer by Sequence clips.
+   */
+  public sequence = {
+    /** Group clips (default: the selection) into a new sequence, placed where they were. */
+    create: (ids?: string[], name?: string) => {
+      const id = nanoid();
+      this.execute({
+        id: nanoid(),
+        type: "sequence.create",
+        payload: { ids, id, name },
+      });
+      return this.store.getState().sequences?.[id] ? id : undefined;
+    },
+    /** Store a sequence, e.g. a bumper exported from another project. */
+    add: (sequence: ISequence) => {
+      this.execute({
+        id: nanoid(),
+        type: "sequence.add",
+        payload: { sequence },
+      });
+    },
+    /** Delete a sequence no Sequence clip places any more. */
+    remove: (id: string) => {
+      this.execute({
+        id: nanoid(),
+        type: "sequence.remove",
+        payload: { id },
+      });
+    },
+    /**
+     * Place a sequence at `time` (µs, defaults to the playhead), filling the
+     * frame and running its full length.
+     */
+    place: async (sequenceId: string, time?: number, trackId?: string) => {
+      const { sequences, settings, currentTime } = this.store.getState();
+      const sequence = sequences?.[sequenceId];
+      if (!sequence) throw new Error(`Unknown sequence: ${sequenceId}`);
+      const from = time ?? currentTime;
+      const length = sequence.settings.duration;
+      return this.clip.add(
+        {
+          type: "Sequence",
+          name: sequence.name,
+          sequenceId,
+          timing: {
+            display: { from, to: from + length },
+            trim: { from: 0, to: length },
+          },
+          left: 0,
+          top: 0,
+          width: settings.width,
+          height: settings.height,
+        },
+        trackId,
+      );
+    },
+    /** Edit a sequence (by ID or by a Sequence clip placing it) in place of the current timeline. */
+    open: (id: string) => {
+      this.execute({
+        id: nanoid(),
+        type: "sequence.open",
+        payload: { id },
+      });
+    },
+    /** Return from the innermost open sequence to the timeline it was opened from. */
+    close: () => {
+      this.execute({
+        id: nanoid(),
+        type: "sequence.close",
+        payload: undefined,
+      });
+    },
+  };
+
+  /**
+   * Project easing curves, referenced by ID from fades, transitions and keyframes.
+   */
+  public easing = {
+    define: (id: string, curve: IEasingCurve, name?: string) => {
+      this.execute({
+        id: nanoid(),
+        type: "project.defineEasing",
+        payload: { id, curve, name },
+      });
+    },
+    remove: (id: string) => {
+      this.execute({
+        id: nanoid(),
+        type: "project.removeEasing",
+        payload: { id },
+      });
+    },
+  };
+
   public project = {
     new: () => {
       this.store.getState().reset({
@@ -266,6 +657,15 @@ export class Core extends EventEmitter {
       return this.store.getState().getSnapshot();
     },
 
+    /** Update ducking of music tracks under dialogue; unset fields keep their current value. */
+    setDucking: (ducking: Partial<IDuckingSettings>) => {
+      this.execute({
+        id: nanoid(),
+        type: "project.setDucking",
+        payload: ducking,
+      });
+    },
+
     import: (json: any) => {
       // Basic validation
       if (!json.clips && !json.tracks) {
@@ -276,7 +676,7 @@ export class Core extends EventEmitter {
 
       // Filter out clips with empty sources (except Text, Caption, and Effect)
       const validClipsArr = clipsArr.filter((clipJSON: any) => {
-        if (["Text", "Caption", "Effect", "Transition"].includes(clipJSON.type)) {
+        if (["Text", "Caption", "Effect", "Transition", "Sequence"].includes(clipJSON.type)) {
           return true;
         }
         return clipJSON.src && clipJSON.src.trim() !== "";
@@ -297,6 +697,18 @@ export class Core extends EventEmitter {
         },
         tracks: json.tracks || [],
         clips,
+        easings: json.easings || {},
+        sequences: Object.fromEntries(
+          Object.entries<ISequence>(json.sequences || {}).map(([id, sequence]) => [
+            id,
+            {
+              ...sequence,
+              clips: Object.fromEntries(
+                Object.entries(sequence.clips || {}).map(([k, c]) => [k, normalizeClip(c)]),
+              ),
+            },
+          ]),
+        ),
       };
 
       this.reset(project);
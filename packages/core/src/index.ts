@@ -2,6 +2,9 @@ export type {
   IProject,
   IProjectSettings,
   ITrack,
+  TrackRole,
+  ITrackMix,
+  IDuckingSettings,
   AnyClip,
   IBaseClip,
   IClipTiming,
@@ -9,10 +12,40 @@ export type {
   IVideoClip,
   IAudioClip,
   IImageClip,
+  IFreezeFrame,
+  IColorGrading,
+  IColorAdjustment,
+  IColorAdjustmentBasic,
+  IColorAdjustmentHsl,
+  IColorAdjustmentCurves,
+  ICurvePoint,
+  IChromaKey,
+  ILut,
+  IMasking,
+  IClipMask,
+  IMaskPoint,
+  MaskShape,
+  ITrackMatte,
+  TrackMatteMode,
+  IBlending,
+  BlendMode,
   ITextClip,
   ICaptionClip,
   ITransitionClip,
   IEffectClip,
+  ISequenceClip,
+  IVisualizerClip,
+  IVisualizerSettings,
+  VisualizerStyle,
+  IShapeClip,
+  IShapeSettings,
+  IShapeStroke,
+  IShapeGradient,
+  IShapeGradientStop,
+  ShapeKind,
+  ShapePaint,
+  ISequence,
+  ISequenceFrame,
   ICaptionStyle,
   ICaptionColors,
   ICaptionWord,
@@ -21,6 +54,10 @@ export type {
   IFlip,
   ClipType,
   IScaleState,
+  IKeyframe,
+  IKeyframeTracks,
+  KeyframeProperty,
+  KeyframeEasing,
 } from "./types";
 export {
   createProjectStore,
@@ -41,6 +78,9 @@ export type {
   PatchOp,
 } from "./commands/types";
 export * from "./commands/registry";
+export { DEFAULT_DUCKING_SETTINGS } from "./commands/project";
+export { DEFAULT_CHROMA_KEY } from "./commands/color";
+export { DEFAULT_CLIP_MASK } from "./commands/mask";
 
 import { registerDefaultHandlers } from "./commands/index";
 
@@ -48,10 +88,19 @@ import { registerDefaultHandlers } from "./commands/index";
 registerDefaultHandlers();
 export { loadClip } from "./utils/load-item";
 export * from "./utils/patch";
+export * from "./utils/rebase";
+export * from "./utils/diff";
+export { toRootPatches, fromRootPatches } from "./utils/sequences";
 export { nanoid } from "nanoid";
 export * from "./utils/caption-utils";
+export * from "./utils/keyframes";
+export * from "./utils/speed-ramp";
+export * from "./utils/visualizer";
+export * from "./utils/shape";
 export { CoreConfig } from "./config";
 export type { IMediaMetadata, IMediaMetadataProvider } from "./config";
 export * from "./utils/browser-metadata-provider";
 export * from "./transitions";
+export * from "./easings";
+export * from "./subtitles";
 export * from "./animations";
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { createProjectStore } from "./project";
+import { registerDefaultHandlers } from "./commands";
+import { text } from "./test-utils";
+
+/** A read-only store with clip `a` on the root timeline and clip `inner` in sequence `intro` */
+function readOnlyStore() {
+  const settings = { width: 1920, height: 1080, fps: 30, duration: 1_000_000 };
+  const store = createProjectStore({
+    settings,
+    tracks: [{ id: "t", name: "Text", type: "Text", clipIds: ["a"] }],
+    clips: { a: text("a") },
+    sequences: {
+      intro: {
+        id: "intro",
+        name: "Intro",
+        settings,
+        tracks: [{ id: "it", name: "Text", type: "Text", clipIds: ["inner"] }],
+        clips: { inner: text("inner") },
+      },
+    },
+  });
+  store.getState().setReadOnly(true);
+  return store;
+}
+
+describe("read-only projects", () => {
+  beforeAll(() => registerDefaultHandlers());
+
+  it("should refuse commands that change the project", () => {
+    const store = readOnlyStore();
+    const changes: unknown[] = [];
+    store.getState().onChange((patches) => changes.push(patches));
+
+    store.getState().execute({ id: "c1", type: "clip.remove", payload: { ids: ["a"] } });
+    store.getState().batch([{ id: "c2", type: "clip.remove", payload: { ids: ["a"] } }]);
+
+    expect(Object.keys(store.getState().clips)).toEqual(["a"]);
+    expect(store.getState().history).toEqual([]);
+    expect(changes).toEqual([]);
+  });
+
+  it("should still select clips and open sequences", () => {
+    const store = readOnlyStore();
+    store.getState().select("a");
+    expect(store.getState().selectedIds).toEqual(["a"]);
+
+    store.getState().execute({ id: "c1", type: "sequence.open", payload: { id: "intro" } });
+    expect(Object.keys(store.getState().clips)).toEqual(["inner"]);
+
+    // Edits inside the open sequence are edits to the project
+    store.getState().execute({ id: "c2", type: "clip.remove", payload: { ids: ["inner"] } });
+    expect(Object.keys(store.getState().clips)).toEqual(["inner"]);
+  });
+
+  it("should load projects and apply remote patches", () => {
+    const store = readOnlyStore();
+    store.getState().applyPatch([{ op: "remove", path: "/clips/a", oldValue: text("a") }]);
+    expect(store.getState().clips).toEqual({});
+
+    store
+      .getState()
+      .reset({ settings: store.getState().settings, tracks: [], clips: { b: text("b") } });
+    expect(Object.keys(store.getState().clips)).toEqual(["b"]);
+  });
+
+  it("should not undo edits made before it became read-only", () => {
+    const store = readOnlyStore();
+    store.getState().setReadOnly(false);
+    store.getState().execute({ id: "c1", type: "clip.remove", payload: { ids: ["a"] } });
+    store.getState().setReadOnly(true);
+
+    store.getState().undo();
+    expect(store.getState().clips.a).toBeUndefined();
+    expect(store.getState().history).toHaveLength(1);
+  });
+});
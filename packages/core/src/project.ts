@@ -1,9 +1,10 @@
 import { createStore } from "zustand/vanilla";
-import { IProject, AnyClip, IScaleState } from "./types";
+import { IProject, AnyClip, IScaleState, ISequenceFrame } from "./types";
 import { nanoid } from "nanoid";
 import { Command, HistoryEntry, Patch } from "./commands/types";
 import { commandRegistry } from "./commands/registry";
 import { applyPatches, invertPatches } from "./utils/patch";
+import { closeAllSequences, toRootPatches } from "./utils/sequences";
 
 export interface ProjectState extends IProject {
   selectedIds: string[];
@@ -16,6 +17,10 @@ export interface ProjectState extends IProject {
   history: HistoryEntry[];
   future: HistoryEntry[]; // for redo
   clipboard: AnyClip[]; // For copy/paste between timeline and studio
+  /** Timelines left to edit a sequence, innermost last. Empty on the root timeline. */
+  sequenceStack: ISequenceFrame[];
+  /** Refuse commands, undo and redo that would change the project, for those who may only view it */
+  readOnly: boolean;
 }
 
 export interface ProjectActions {
@@ -37,6 +42,7 @@ export interface ProjectActions {
 
   // Project
   updateSettings: (settings: Partial<IProject["settings"]>) => void;
+  setReadOnly: (readOnly: boolean) => void;
   reset: (project: IProject) => void;
   recalculateDuration: () => void;
 
@@ -51,7 +57,15 @@ export interface ProjectActions {
   onChange: (handler: (patches: Patch[]) => void) => () => void;
   /** Apply patches from a remote source without recording history (client-side sync). */
   applyPatch: (patches: Patch[]) => void;
-  /** Return a plain serializable snapshot of the project (settings, tracks, clips). */
+  /**
+   * Apply patches made elsewhere as one history entry, so a single undo reverts them all
+   * (e.g. an executed AI director plan). `command` describes the entry.
+   */
+  record: (patches: Patch[], command: Command) => void;
+  /**
+   * Return a plain serializable snapshot of the project (settings, tracks, clips, easings,
+   * sequences), as on the root timeline when a sequence is open.
+   */
   getSnapshot: () => IProject;
 
   // Clipboard
@@ -61,6 +75,14 @@ export interface ProjectActions {
 
 export type ProjectStore = ProjectState & ProjectActions;
 
+/**
+ * Whether patches that led to `state` change the project rather than only the
+ * view of it, such as the selection or which sequence is open
+ */
+function changesProject(state: ProjectStore, patches: Patch[]): boolean {
+  return toRootPatches(state, patches).some((patch) => patch.path !== "/selectedIds");
+}
+
 export const createProjectStore = (initialState?: Partial<IProject>) => {
   // Patch listeners live outside Zustand state (not serializable)
   const patchListeners = new Set<(patches: Patch[]) => void>();
@@ -80,6 +102,10 @@ export const createProjectStore = (initialState?: Partial<IProject>) => {
     },
     tracks: initialState?.tracks || [],
     clips: initialState?.clips || {},
+    easings: initialState?.easings || {},
+    sequences: initialState?.sequences || {},
+    sequenceStack: [],
+    readOnly: false,
     selectedIds: [],
     currentTime: 0,
     isPlaying: false,
@@ -116,6 +142,17 @@ export const createProjectStore = (initialState?: Partial<IProject>) => {
         const nextState = { ...state };
         applyPatches(nextState, patches);
 
+        // Loading a project replaces it rather than editing it
+        if (
+          state.readOnly &&
+          command.type !== "project.reset" &&
+          changesProject(nextState, patches)
+        ) {
+          console.warn(`Project is read-only, ignored command: ${command.type}`);
+          patches = [];
+          return state;
+        }
+
         const bypassHistory = ["project.select", "project.deselect"].includes(command.type);
         if (bypassHistory) {
           return nextState;
@@ -152,6 +189,12 @@ export const createProjectStore = (initialState?: Partial<IProject>) => {
           }
         });
 
+        if (currentState.readOnly && changesProject(nextState, allPatches)) {
+          console.warn("[Core.batch] Project is read-only, ignored batch");
+          allPatches = [];
+          return currentState;
+        }
+
         return {
           ...nextState,
           history: [
@@ -184,6 +227,10 @@ export const createProjectStore = (initialState?: Partial<IProject>) => {
         const nextHistory = state.history.slice(0, -1);
         const nextState = { ...state };
         applyPatches(nextState, undoneEntry.inversePatches);
+        if (state.readOnly && changesProject(nextState, undoneEntry.inversePatches)) {
+          undoneEntry = undefined;
+          return state;
+        }
 
         return {
           ...nextState,
@@ -208,6 +255,10 @@ export const createProjectStore = (initialState?: Partial<IProject>) => {
         const nextFuture = state.future.slice(1);
         const nextState = { ...state };
         applyPatches(nextState, redoneEntry.patches);
+        if (state.readOnly && changesProject(nextState, redoneEntry.patches)) {
+          redoneEntry = undefined;
+          return state;
+        }
 
         return {
           ...nextState,
@@ -238,8 +289,26 @@ export const createProjectStore = (initialState?: Partial<IProject>) => {
       get().recalculateDuration();
     },
 
+    record: (patches, command) => {
+      if (patches.length === 0) return;
+
+      set((state) => {
+        const nextState = { ...state };
+        applyPatches(nextState, patches);
+        return {
+          ...nextState,
+          history: [...state.history, { command, patches, inversePatches: invertPatches(patches) }],
+          future: [],
+        };
+      });
+
+      emitPatches(patches);
+      get().recalculateDuration();
+    },
+
     getSnapshot: (): IProject => {
-      const { settings, tracks, clips } = get();
+      const { settings, tracks, clips, sequences } = closeAllSequences(get());
+      const { easings } = get();
       return {
         settings: { ...settings },
         tracks: tracks.map((t) => ({ ...t, clipIds: [...t.clipIds] })),
@@ -247,6 +316,8 @@ export const createProjectStore = (initialState?: Partial<IProject>) => {
           string,
           AnyClip
         >,
+        easings: { ...easings },
+        sequences: { ...sequences },
       };
     },
 
@@ -297,6 +368,8 @@ export const createProjectStore = (initialState?: Partial<IProject>) => {
       }));
     },
 
+    setReadOnly: (readOnly) => set({ readOnly }),
+
     reset: (project) => {
       get().execute({
         id: nanoid(),
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { parseASS, serializeASS } from "./ass";
+
+const script = (events: string[], styles: string[] = []) =>
+  [
+    "[Script Info]",
+    "PlayResX: 1920",
+    "PlayResY: 1080",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, Bold, Outline, OutlineColour, Alignment",
+    ...styles,
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Text",
+    ...events,
+  ].join("\n");
+
+describe("parseASS", () => {
+  it("should read dialogue lines with their own Format order", () => {
+    const doc = parseASS(
+      script(["Dialogue: 0,0:00:01.50,0:00:03.00,*Main,Hello,\\Nworld {\\i1}again"]),
+    );
+    expect(doc.resolution).toEqual({ width: 1920, height: 1080 });
+    expect(doc.cues).toEqual([
+      { start: 1_500_000, end: 3_000_000, text: "Hello,\nworld again", style: "Main" },
+    ]);
+  });
+
+  it("should map styles to caption styles", () => {
+    const doc = parseASS(script([], ["Style: Main,Inter,64,&H0000FFFF,-1,3,&H00000000,8"]));
+    expect(doc.styles.Main).toMatchObject({
+      fontFamily: "Inter",
+      fontSize: 64,
+      color: "#ffff00",
+      stroke: { color: "#000000", width: 3 },
+    });
+  });
+
+  it("should turn \\pos into percentages of PlayRes", () => {
+    const [cue] = parseASS(
+      script(["Dialogue: 0,0:00:00.00,0:00:01.00,Default,{\\an8\\pos(960,108)}Top"]),
+    ).cues;
+    expect(cue.position).toEqual({ align: "center", position: 50, line: 10 });
+  });
+
+  describe("karaoke", () => {
+    const words = (text: string) =>
+      parseASS(script([`Dialogue: 0,0:00:00.00,0:00:05.00,Default,${text}`])).cues[0].words;
+
+    it("should join syllables of one word", () => {
+      expect(words("{\\k50}Hel{\\k100}lo")).toEqual([
+        { text: "Hello", from: 0, to: 1500, paragraphIndex: 0 },
+      ]);
+    });
+
+    it("should start a new word at whitespace inside a syllable", () => {
+      expect(words("{\\k50}Hel{\\k100}lo, world")).toEqual([
+        { text: "Hello,", from: 0, to: 1500, paragraphIndex: 0 },
+        { text: "world", from: 500, to: 1500, paragraphIndex: 0 },
+      ]);
+    });
+
+    it("should start a new word at whitespace between syllables", () => {
+      expect(words("{\\k20}one {\\k30}two{\\kf40} three")?.map((w) => w.text)).toEqual([
+        "one",
+        "two",
+        "three",
+      ]);
+    });
+
+    it("should count line breaks as paragraphs and skip silent syllables", () => {
+      expect(words("{\\k20}one{\\k10}{\\k30}\\Ntwo")).toEqual([
+        { text: "one", from: 0, to: 200, paragraphIndex: 0 },
+        { text: "two", from: 300, to: 600, paragraphIndex: 1 },
+      ]);
+    });
+  });
+});
+
+describe("serializeASS", () => {
+  it("should round-trip cues, styles and karaoke timing", () => {
+    const text = serializeASS(
+      [
+        {
+          start: 1_000_000,
+          end: 3_000_000,
+          text: "Hello world",
+          style: "Loud",
+          words: [
+            { text: "Hello", from: 0, to: 400, paragraphIndex: 0 },
+            { text: "world", from: 600, to: 1000, paragraphIndex: 1 },
+          ],
+        },
+        { start: 4_000_000, end: 5_000_000, text: "Bye", position: { position: 50, line: 10 } },
+      ],
+      {
+        videoWidth: 1920,
+        videoHeight: 1080,
+        styles: { Loud: { fontFamily: "Inter", fontSize: 72, color: "#ff0000" } },
+      },
+    );
+
+    expect(text).toContain("{\\k40}Hello\\N{\\k20}{\\k40}world");
+    const doc = parseASS(text);
+    expect(doc.styles.Loud).toMatchObject({ fontFamily: "Inter", fontSize: 72, color: "#ff0000" });
+    expect(doc.cues[0]).toMatchObject({ start: 1_000_000, end: 3_000_000, style: "Loud" });
+    expect(doc.cues[0].words).toEqual([
+      { text: "Hello", from: 0, to: 400, paragraphIndex: 0 },
+      { text: "world", from: 600, to: 1000, paragraphIndex: 1 },
+    ]);
+    expect(doc.cues[1]).toMatchObject({
+      text: "Bye",
+      style: "Default",
+      position: { position: 50, line: 10 },
+    });
+  });
+});
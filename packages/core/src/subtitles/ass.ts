@@ -0,0 +1,375 @@
+import type { ICaptionStyle, ICaptionWord } from "../types";
+import type { ISubtitleCue, ISubtitleCuePosition, ISubtitleDocument } from "./types";
+import { formatTimecode, parseTimecode } from "./timecode";
+
+/** ASS PlayRes used when a script does not declare one (libass default) */
+const DEFAULT_PLAY_RES = { width: 384, height: 288 };
+
+const STYLE_FORMAT = [
+  "Name",
+  "Fontname",
+  "Fontsize",
+  "PrimaryColour",
+  "SecondaryColour",
+  "OutlineColour",
+  "BackColour",
+  "Bold",
+  "Italic",
+  "Underline",
+  "StrikeOut",
+  "ScaleX",
+  "ScaleY",
+  "Spacing",
+  "Angle",
+  "BorderStyle",
+  "Outline",
+  "Shadow",
+  "Alignment",
+  "MarginL",
+  "MarginR",
+  "MarginV",
+  "Encoding",
+];
+
+const EVENT_FORMAT = [
+  "Layer",
+  "Start",
+  "End",
+  "Style",
+  "Name",
+  "MarginL",
+  "MarginR",
+  "MarginV",
+  "Effect",
+  "Text",
+];
+
+// ─── colours ─────────────────────────────────────────────────────────────────
+
+/** "&H00BBGGRR" / "&HBBGGRR&" → { color: "#rrggbb", alpha } */
+function parseColour(value: string): { color: string; alpha: number } | null {
+  const hex = value.replace(/^&H/i, "").replace(/&$/, "").padStart(8, "0");
+  if (!/^[0-9a-f]{8}$/i.test(hex)) return null;
+  const [aa, bb, gg, rr] = [0, 2, 4, 6].map((i) => hex.slice(i, i + 2));
+  return {
+    color: `#${rr}${gg}${bb}`.toLowerCase(),
+    // ASS alpha is inverted: 00 is opaque
+    alpha: 1 - parseInt(aa, 16) / 255,
+  };
+}
+
+function formatColour(color = "#ffffff", alpha = 1): string {
+  const hex = color.replace("#", "").padEnd(6, "0").slice(0, 6);
+  const aa = Math.round((1 - alpha) * 255)
+    .toString(16)
+    .padStart(2, "0");
+  return `&H${aa}${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`.toUpperCase();
+}
+
+// ─── alignment ───────────────────────────────────────────────────────────────
+
+/** Numpad alignment (1–9) → horizontal and vertical alignment */
+function parseAlignment(an: number): Pick<ICaptionStyle, "align" | "verticalAlign"> {
+  const column = (an - 1) % 3;
+  const row = Math.floor((an - 1) / 3);
+  return {
+    align: (["left", "center", "right"] as const)[column] ?? "center",
+    verticalAlign: (["bottom", "center", "top"] as const)[row] ?? "bottom",
+  };
+}
+
+function formatAlignment(style: Partial<ICaptionStyle>): number {
+  const column = style.align === "left" ? 1 : style.align === "right" ? 3 : 2;
+  const row = style.verticalAlign === "top" ? 6 : style.verticalAlign === "center" ? 3 : 0;
+  return column + row;
+}
+
+// ─── sections ────────────────────────────────────────────────────────────────
+
+function splitFields(line: string, count: number): string[] {
+  // The last field (Text) may contain commas
+  const parts = line.split(",");
+  return [...parts.slice(0, count - 1), parts.slice(count - 1).join(",")].map((p) => p.trim());
+}
+
+function toRecord(format: string[], values: string[]): Record<string, string> {
+  const record: Record<string, string> = {};
+  format.forEach((key, i) => {
+    record[key.toLowerCase()] = values[i] ?? "";
+  });
+  return record;
+}
+
+function parseStyle(fields: Record<string, string>): Partial<ICaptionStyle> {
+  const style: Partial<ICaptionStyle> = {};
+  if (fields.fontname) style.fontFamily = fields.fontname;
+  if (fields.fontsize) style.fontSize = Number(fields.fontsize);
+
+  const primary = parseColour(fields.primarycolour ?? "");
+  if (primary) style.color = primary.color;
+
+  if (fields.bold) style.fontWeight = Number(fields.bold) !== 0 ? "700" : "400";
+  if (fields.italic) style.fontStyle = Number(fields.italic) !== 0 ? "italic" : "normal";
+  if (fields.spacing && Number(fields.spacing) !== 0) {
+    style.letterSpacing = Number(fields.spacing);
+  }
+
+  const outline = parseColour(fields.outlinecolour ?? "");
+  const outlineWidth = Number(fields.outline);
+  if (outline && outlineWidth > 0) {
+    style.stroke = { color: outline.color, width: outlineWidth };
+  }
+
+  const back = parseColour(fields.backcolour ?? "");
+  const shadowDepth = Number(fields.shadow);
+  if (back && shadowDepth > 0) {
+    style.shadow = {
+      color: back.color,
+      alpha: back.alpha,
+      blur: 0,
+      offsetX: shadowDepth,
+      offsetY: shadowDepth,
+    };
+  }
+
+  if (fields.alignment) Object.assign(style, parseAlignment(Number(fields.alignment)));
+  return style;
+}
+
+/**
+ * Build word timings from karaoke tags ({\k50}Hel{\k30}lo). Durations are in
+ * centiseconds; a syllable joins the previous word unless whitespace separates
+ * them, and whitespace inside a syllable always starts a new word.
+ */
+function parseKaraoke(raw: string): ICaptionWord[] | undefined {
+  if (!/\{[^}]*\\k[fo]?\d/i.test(raw)) return undefined;
+
+  const words: ICaptionWord[] = [];
+  let time = 0;
+  let paragraphIndex = 0;
+  let joinNext = false;
+
+  for (const syllable of raw.split(/(?=\{[^}]*\\k[fo]?\d)/i)) {
+    const duration = Number(syllable.match(/\\k[fo]?(\d+)/i)?.[1] ?? 0) * 10;
+    const lines = syllable.replace(/\{[^}]*\}/g, "").split(/\\N/i);
+
+    lines.forEach((line, lineIndex) => {
+      if (lineIndex > 0) {
+        paragraphIndex++;
+        joinNext = false;
+      }
+      if (/^\s/.test(line)) joinNext = false;
+
+      line
+        .split(/\s+/)
+        .filter(Boolean)
+        .forEach((token, tokenIndex) => {
+          const last = words[words.length - 1];
+          // Only a syllable's first token can continue the previous word;
+          // later ones are separated from it by whitespace
+          if (joinNext && tokenIndex === 0 && last) {
+            last.text += token;
+            last.to = time + duration;
+          } else {
+            words.push({ text: token, from: time, to: time + duration, paragraphIndex });
+          }
+          joinNext = true;
+        });
+      if (/\s$/.test(line)) joinNext = false;
+    });
+    time += duration;
+  }
+
+  return words.length > 0 ? words : undefined;
+}
+
+function parseOverrides(
+  raw: string,
+  playRes: { width: number; height: number },
+): ISubtitleCuePosition | undefined {
+  const pos = raw.match(/\\pos\(\s*([\d.-]+)\s*,\s*([\d.-]+)\s*\)/);
+  const an = raw.match(/\\an([1-9])/);
+  if (!pos && !an) return undefined;
+
+  const position: ISubtitleCuePosition = {};
+  if (an) {
+    const { align, verticalAlign } = parseAlignment(Number(an[1]));
+    position.align = align === "left" ? "start" : align === "right" ? "end" : "center";
+    if (!pos) position.line = verticalAlign === "top" ? 10 : verticalAlign === "center" ? 50 : 90;
+  }
+  if (pos) {
+    position.position = (Number(pos[1]) / playRes.width) * 100;
+    position.line = (Number(pos[2]) / playRes.height) * 100;
+  }
+  return position;
+}
+
+/**
+ * Parse an ASS/SSA script. [V4+ Styles] and [Events] are read using their own
+ * Format lines, so reordered or trimmed columns are handled.
+ */
+export function parseASS(input: string): Omit<ISubtitleDocument, "format"> {
+  const lines = input.replace(/^﻿/, "").replace(/\r\n?/g, "\n").split("\n");
+
+  const playRes = { ...DEFAULT_PLAY_RES };
+  const styles: Record<string, Partial<ICaptionStyle>> = {};
+  const cues: ISubtitleCue[] = [];
+
+  let section = "";
+  let styleFormat = STYLE_FORMAT;
+  let eventFormat = EVENT_FORMAT;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith(";")) continue;
+
+    const header = trimmed.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].toLowerCase();
+      continue;
+    }
+
+    const colon = trimmed.indexOf(":");
+    if (colon === -1) continue;
+    const key = trimmed.slice(0, colon).trim().toLowerCase();
+    const value = trimmed.slice(colon + 1).trim();
+
+    if (section === "script info") {
+      if (key === "playresx") playRes.width = Number(value) || playRes.width;
+      if (key === "playresy") playRes.height = Number(value) || playRes.height;
+    } else if (section === "v4+ styles" || section === "v4 styles") {
+      if (key === "format") styleFormat = value.split(",").map((f) => f.trim());
+      if (key === "style") {
+        const fields = toRecord(styleFormat, splitFields(value, styleFormat.length));
+        styles[fields.name] = parseStyle(fields);
+      }
+    } else if (section === "events") {
+      if (key === "format") eventFormat = value.split(",").map((f) => f.trim());
+      if (key !== "dialogue") continue;
+
+      const fields = toRecord(eventFormat, splitFields(value, eventFormat.length));
+      const start = parseTimecode(fields.start ?? "");
+      const end = parseTimecode(fields.end ?? "");
+      if (Number.isNaN(start) || Number.isNaN(end) || end <= start) continue;
+
+      const raw = fields.text ?? "";
+      const text = raw
+        .replace(/\{[^}]*\}/g, "")
+        .replace(/\\N/gi, "\n")
+        .replace(/\\h/g, " ")
+        .trim();
+      if (!text) continue;
+
+      const cue: ISubtitleCue = { start, end, text };
+      if (fields.style) cue.style = fields.style.replace(/^\*/, "");
+      const position = parseOverrides(raw, playRes);
+      if (position) cue.position = position;
+      const words = parseKaraoke(raw);
+      if (words) cue.words = words;
+      cues.push(cue);
+    }
+  }
+
+  return {
+    cues: cues.sort((a, b) => a.start - b.start),
+    styles,
+    resolution: playRes,
+  };
+}
+
+export interface SerializeASSOptions {
+  videoWidth: number;
+  videoHeight: number;
+  /** Named styles to write; cues reference them through `style` */
+  styles?: Record<string, Partial<ICaptionStyle>>;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+function serializeStyle(name: string, style: Partial<ICaptionStyle>): string {
+  const shadowAlpha = style.shadow?.alpha ?? 0.5;
+  const values: Record<string, string | number> = {
+    Name: name,
+    Fontname: style.fontFamily ?? "Arial",
+    Fontsize: Math.round(style.fontSize ?? 48),
+    PrimaryColour: formatColour(style.color),
+    SecondaryColour: formatColour("#ff0000"),
+    OutlineColour: formatColour(style.stroke?.color ?? "#000000"),
+    BackColour: formatColour(style.shadow?.color ?? "#000000", shadowAlpha),
+    Bold: Number(style.fontWeight ?? 400) >= 600 || style.fontWeight === "bold" ? -1 : 0,
+    Italic: style.fontStyle === "italic" ? -1 : 0,
+    Underline: 0,
+    StrikeOut: 0,
+    ScaleX: 100,
+    ScaleY: 100,
+    Spacing: round(style.letterSpacing ?? 0),
+    Angle: 0,
+    BorderStyle: 1,
+    Outline: round(style.stroke?.width ?? 0),
+    Shadow: round(
+      Math.max(Math.abs(style.shadow?.offsetX ?? 0), Math.abs(style.shadow?.offsetY ?? 0)),
+    ),
+    Alignment: formatAlignment(style),
+    MarginL: 10,
+    MarginR: 10,
+    MarginV: 10,
+    Encoding: 1,
+  };
+  return `Style: ${STYLE_FORMAT.map((key) => values[key]).join(",")}`;
+}
+
+function serializeText(cue: ISubtitleCue, opts: SerializeASSOptions): string {
+  let prefix = "";
+  if (cue.position?.position !== undefined && cue.position.line !== undefined) {
+    const x = Math.round((cue.position.position / 100) * opts.videoWidth);
+    const y = Math.round((cue.position.line / 100) * opts.videoHeight);
+    prefix = `{\\an8\\pos(${x},${y})}`;
+  }
+
+  if (cue.words && cue.words.length > 0) {
+    let cursor = 0;
+    let paragraph = cue.words[0].paragraphIndex ?? 0;
+    const parts = cue.words.map((word, i) => {
+      // Gaps between words become silent karaoke syllables
+      const gap = Math.max(0, Math.round((word.from - cursor) / 10));
+      const duration = Math.max(0, Math.round((word.to - Math.max(word.from, cursor)) / 10));
+      cursor = Math.max(cursor, word.to);
+
+      const breakLine = (word.paragraphIndex ?? paragraph) !== paragraph;
+      paragraph = word.paragraphIndex ?? paragraph;
+      const separator = i === 0 ? "" : breakLine ? "\\N" : " ";
+      return `${separator}${gap > 0 ? `{\\k${gap}}` : ""}{\\k${duration}}${word.text}`;
+    });
+    return prefix + parts.join("");
+  }
+
+  return prefix + cue.text.replace(/\n/g, "\\N");
+}
+
+export function serializeASS(cues: ISubtitleCue[], opts: SerializeASSOptions): string {
+  const styles = { Default: {}, ...opts.styles };
+
+  const lines = [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${Math.round(opts.videoWidth)}`,
+    `PlayResY: ${Math.round(opts.videoHeight)}`,
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    `Format: ${STYLE_FORMAT.join(", ")}`,
+    ...Object.entries(styles).map(([name, style]) => serializeStyle(name, style)),
+    "",
+    "[Events]",
+    `Format: ${EVENT_FORMAT.join(", ")}`,
+    ...cues.map((cue) => {
+      const start = formatTimecode(cue.start, ".", 2, false);
+      const end = formatTimecode(cue.end, ".", 2, false);
+      const style = cue.style && cue.style in styles ? cue.style : "Default";
+      return `Dialogue: 0,${start},${end},${style},,0,0,0,,${serializeText(cue, opts)}`;
+    }),
+  ];
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,186 @@
+import type { ICaptionClip, ICaptionStyle, IClipTimingInput } from "../types";
+import { redistributeCaptionWords } from "../utils/caption-utils";
+import type { ISubtitleCue, ISubtitleCuePosition, ISubtitleDocument } from "./types";
+
+/** Caption clip payload ready for clip.prepare / clip.add */
+export type CaptionClipPayload = Omit<Partial<ICaptionClip>, "timing"> & {
+  type: "Caption";
+  timing: IClipTimingInput;
+};
+
+export interface SubtitleLayoutOptions {
+  videoWidth: number;
+  videoHeight: number;
+  /** Base style; file styles (ASS) are layered on top of it */
+  style?: Partial<ICaptionStyle>;
+}
+
+const LINE_HEIGHT = 1.3;
+const LINE_PADDING = 14;
+
+const DEFAULT_COLORS = {
+  appeared: "#ffffff",
+  active: "#ffffff",
+  activeFill: "#FF5700",
+  background: "",
+  keyword: "#ffffff",
+};
+
+function defaultStyle(videoHeight: number): ICaptionStyle {
+  return {
+    fontSize: Math.round(videoHeight / 18),
+    fontFamily: "Inter",
+    fontWeight: "700",
+    fontStyle: "normal",
+    color: "#ffffff",
+    align: "center",
+    fontUrl: "",
+    stroke: { color: "#000000", width: 4 },
+    shadow: { color: "#000000", alpha: 0.5, blur: 4, offsetX: 2, offsetY: 2 },
+  };
+}
+
+/** Scale pixel-valued style fields from the file's coordinate space to the video. */
+function scaleStyle(style: Partial<ICaptionStyle>, scale: number): Partial<ICaptionStyle> {
+  if (scale === 1) return style;
+  const scaled: Partial<ICaptionStyle> = { ...style };
+  if (style.fontSize !== undefined) scaled.fontSize = Math.round(style.fontSize * scale);
+  if (style.letterSpacing !== undefined) scaled.letterSpacing = style.letterSpacing * scale;
+  if (style.stroke) scaled.stroke = { ...style.stroke, width: style.stroke.width * scale };
+  if (style.shadow) {
+    scaled.shadow = {
+      ...style.shadow,
+      offsetX: (style.shadow.offsetX ?? 0) * scale,
+      offsetY: (style.shadow.offsetY ?? 0) * scale,
+    };
+  }
+  return scaled;
+}
+
+function layoutCue(
+  cue: ISubtitleCue,
+  style: ICaptionStyle,
+  videoWidth: number,
+  videoHeight: number,
+): { left: number; top: number; width: number; height: number } {
+  const fontSize = style.fontSize ?? 40;
+  const lines = cue.text.split("\n").length;
+  const height = Math.ceil(lines * (fontSize * LINE_HEIGHT + LINE_PADDING));
+  const position = cue.position;
+
+  const width =
+    position?.size !== undefined ? (position.size / 100) * videoWidth : videoWidth * 0.8;
+
+  let left = (videoWidth - width) / 2;
+  if (position?.position !== undefined) {
+    const anchor = (position.position / 100) * videoWidth;
+    const align = position.align ?? "center";
+    left =
+      align === "start" || align === "left"
+        ? anchor
+        : align === "end" || align === "right"
+          ? anchor - width
+          : anchor - width / 2;
+  }
+
+  let top: number;
+  if (position?.line !== undefined) {
+    top = (position.line / 100) * videoHeight;
+  } else if (style.verticalAlign === "top") {
+    top = videoHeight * 0.05;
+  } else if (style.verticalAlign === "center") {
+    top = (videoHeight - height) / 2;
+  } else {
+    top = videoHeight - height - videoHeight * 0.08;
+  }
+
+  return {
+    left: Math.min(Math.max(0, left), Math.max(0, videoWidth - width)),
+    top: Math.min(Math.max(0, top), Math.max(0, videoHeight - height)),
+    width,
+    height,
+  };
+}
+
+/**
+ * Convert parsed cues into caption clip payloads. Cues without word timing
+ * get words spread evenly over the cue, the same way caption edits do.
+ */
+export function cuesToCaptionClips(
+  doc: ISubtitleDocument,
+  opts: SubtitleLayoutOptions,
+): CaptionClipPayload[] {
+  const { videoWidth, videoHeight } = opts;
+  const scale = doc.resolution ? videoHeight / doc.resolution.height : 1;
+  const baseStyle = { ...defaultStyle(videoHeight), ...opts.style };
+
+  return doc.cues.map((cue) => {
+    const fileStyle = cue.style ? doc.styles[cue.style] : undefined;
+    const style: ICaptionStyle = {
+      ...baseStyle,
+      ...(fileStyle && scaleStyle(fileStyle, scale)),
+    };
+    const duration = cue.end - cue.start;
+    const box = layoutCue(cue, style, videoWidth, videoHeight);
+
+    return {
+      type: "Caption",
+      name: "Caption",
+      src: "",
+      timing: {
+        display: { from: cue.start, to: cue.end },
+        duration,
+      },
+      ...box,
+      text: cue.text,
+      mediaId: "",
+      style: { ...style, wordWrap: true, wordWrapWidth: box.width },
+      caption: {
+        words: cue.words ?? redistributeCaptionWords(cue.text, [], duration),
+        colors: { ...DEFAULT_COLORS },
+        preserveKeywordColor: true,
+        positioning: { videoWidth, videoHeight },
+      },
+      wordsPerLine: "multiple",
+    };
+  });
+}
+
+/**
+ * Convert caption clips back into cues (sorted by start time). Clips sitting
+ * in the default bottom-centre slot get no position so players use their own.
+ */
+export function captionClipsToCues(
+  clips: ICaptionClip[],
+  opts: Omit<SubtitleLayoutOptions, "style">,
+): ISubtitleCue[] {
+  return [...clips]
+    .sort((a, b) => a.timing.display.from - b.timing.display.from)
+    .map((clip) => {
+      const cue: ISubtitleCue = {
+        start: clip.timing.display.from,
+        end: clip.timing.display.to,
+        text: clip.text,
+      };
+      if (clip.caption?.words?.length) cue.words = clip.caption.words;
+
+      const videoWidth = clip.caption?.positioning?.videoWidth || opts.videoWidth;
+      const videoHeight = clip.caption?.positioning?.videoHeight || opts.videoHeight;
+      const { left = 0, top = 0, width = 0 } = clip;
+      if (width > 0) {
+        const centre = left + width / 2;
+        const isDefaultSlot =
+          Math.abs(centre - videoWidth / 2) < videoWidth * 0.05 && top > videoHeight * 0.6;
+        if (!isDefaultSlot) {
+          const position: ISubtitleCuePosition = {
+            line: (top / videoHeight) * 100,
+            position: (centre / videoWidth) * 100,
+            size: Math.min(100, (width / videoWidth) * 100),
+            align: "center",
+          };
+          cue.position = position;
+        }
+      }
+      return cue;
+    });
+}
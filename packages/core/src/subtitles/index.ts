@@ -0,0 +1,77 @@
+import type { ICaptionClip, ICaptionStyle } from "../types";
+import { parseASS, serializeASS } from "./ass";
+import { captionClipsToCues, type SubtitleLayoutOptions } from "./convert";
+import { parseSRT, serializeSRT } from "./srt";
+import type { ISubtitleDocument, SubtitleFormat } from "./types";
+import { parseVTT, serializeVTT } from "./vtt";
+
+/**
+ * Guess the format from the file extension, falling back to the content.
+ */
+export function detectSubtitleFormat(text: string, filename?: string): SubtitleFormat {
+  const ext = filename?.split(".").pop()?.toLowerCase();
+  if (ext === "srt" || ext === "vtt") return ext;
+  if (ext === "ass" || ext === "ssa") return "ass";
+
+  const head = text.replace(/^﻿/, "").trimStart();
+  if (head.startsWith("WEBVTT")) return "vtt";
+  if (/^\[Script Info\]/im.test(head) || /^\[Events\]/im.test(head)) return "ass";
+  return "srt";
+}
+
+export function parseSubtitles(text: string, format?: SubtitleFormat): ISubtitleDocument {
+  const resolved = format ?? detectSubtitleFormat(text);
+  switch (resolved) {
+    case "vtt":
+      return { format: resolved, cues: parseVTT(text), styles: {} };
+    case "ass":
+      return { format: resolved, ...parseASS(text) };
+    default:
+      return { format: "srt", cues: parseSRT(text), styles: {} };
+  }
+}
+
+/**
+ * Serialize caption clips to a subtitle file. ASS output gets one style per
+ * distinct caption style so fonts and colours survive the round trip.
+ */
+export function serializeSubtitles(
+  clips: ICaptionClip[],
+  format: SubtitleFormat,
+  opts: Omit<SubtitleLayoutOptions, "style">,
+): string {
+  const cues = captionClipsToCues(clips, opts);
+
+  if (format === "srt") return serializeSRT(cues);
+  if (format === "vtt") return serializeVTT(cues);
+
+  const styles: Record<string, Partial<ICaptionStyle>> = {};
+  const names = new Map<string, string>();
+  const byStart = [...clips].sort((a, b) => a.timing.display.from - b.timing.display.from);
+  byStart.forEach((clip, i) => {
+    const key = JSON.stringify(clip.style ?? {});
+    if (!names.has(key)) {
+      const name = names.size === 0 ? "Default" : `Caption${names.size}`;
+      names.set(key, name);
+      styles[name] = clip.style ?? {};
+    }
+    cues[i].style = names.get(key);
+  });
+
+  return serializeASS(cues, { ...opts, styles });
+}
+
+export { parseSRT, serializeSRT } from "./srt";
+export { parseVTT, serializeVTT } from "./vtt";
+export { parseASS, serializeASS } from "./ass";
+export { parseTimecode, formatTimecode } from "./timecode";
+export { cuesToCaptionClips, captionClipsToCues } from "./convert";
+
+export type { SerializeASSOptions } from "./ass";
+export type { CaptionClipPayload, SubtitleLayoutOptions } from "./convert";
+export type {
+  ISubtitleCue,
+  ISubtitleCuePosition,
+  ISubtitleDocument,
+  SubtitleFormat,
+} from "./types";
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { parseSRT, serializeSRT } from "./srt";
+
+describe("parseSRT", () => {
+  it("should read cues in time order and strip markup", () => {
+    const cues = parseSRT(
+      "2\r\n00:00:03,500 --> 00:00:05,000\r\n<i>Second</i>\r\n\r\n" +
+        "1\r\n00:00:01,000 --> 00:00:02,250\r\nFirst\r\nline two\r\n",
+    );
+    expect(cues).toEqual([
+      { start: 1_000_000, end: 2_250_000, text: "First\nline two" },
+      { start: 3_500_000, end: 5_000_000, text: "Second" },
+    ]);
+  });
+
+  it("should keep {\\an8} as a top position hint", () => {
+    const [cue] = parseSRT("1\n00:00:01,000 --> 00:00:02,000\n{\\an8}Top\n");
+    expect(cue.text).toBe("Top");
+    expect(cue.position).toEqual({ line: 10 });
+  });
+
+  it("should skip malformed and empty blocks", () => {
+    const cues = parseSRT(
+      "1\n00:00:02,000 --> 00:00:01,000\nBackwards\n\n" +
+        "2\nnot a timing\nText\n\n" +
+        "3\n00:00:01,000 --> 00:00:02,000\n<b></b>\n",
+    );
+    expect(cues).toEqual([]);
+  });
+});
+
+describe("serializeSRT", () => {
+  it("should round-trip parsed cues", () => {
+    const text =
+      "1\n00:00:01,000 --> 00:00:02,250\nFirst\nline two\n\n" +
+      "2\n01:02:03,004 --> 01:02:04,000\nSecond\n";
+    expect(serializeSRT(parseSRT(text))).toBe(text);
+  });
+});
@@ -0,0 +1,56 @@
+import type { ISubtitleCue } from "./types";
+import { formatTimecode, parseTimecode } from "./timecode";
+
+const TIMING_LINE = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/;
+
+/** Strip HTML-ish tags (<i>, <font color=…>) and ASS-style overrides some SRTs carry. */
+function stripMarkup(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .trim();
+}
+
+/**
+ * Parse SubRip text. Cue indices are optional; malformed blocks are skipped.
+ * A leading {\an8} (top-centre, common in vendor SRTs) is kept as a position hint.
+ */
+export function parseSRT(input: string): ISubtitleCue[] {
+  const blocks = input
+    .replace(/^﻿/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+
+  const cues: ISubtitleCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split("\n").filter((l) => l.trim() !== "");
+    const timingIndex = lines.findIndex((l) => TIMING_LINE.test(l));
+    if (timingIndex === -1) continue;
+
+    const [, from, to] = lines[timingIndex].match(TIMING_LINE)!;
+    const start = parseTimecode(from);
+    const end = parseTimecode(to);
+    if (Number.isNaN(start) || Number.isNaN(end) || end <= start) continue;
+
+    const raw = lines.slice(timingIndex + 1).join("\n");
+    const text = stripMarkup(raw);
+    if (!text) continue;
+
+    const cue: ISubtitleCue = { start, end, text };
+    if (/^\{\\an[789]\}/.test(raw)) cue.position = { line: 10 };
+    cues.push(cue);
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+export function serializeSRT(cues: ISubtitleCue[]): string {
+  return (
+    cues
+      .map(
+        (cue, i) =>
+          `${i + 1}\n${formatTimecode(cue.start, ",")} --> ${formatTimecode(cue.end, ",")}\n${cue.text}`,
+      )
+      .join("\n\n") + "\n"
+  );
+}
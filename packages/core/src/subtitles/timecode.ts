@@ -0,0 +1,42 @@
+/**
+ * Parse "hh:mm:ss,mmm" (SRT), "hh:mm:ss.mmm" / "mm:ss.mmm" (VTT) or
+ * "h:mm:ss.cc" (ASS) into microseconds. Returns NaN when malformed.
+ */
+export function parseTimecode(value: string): number {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return NaN;
+
+  const [, h = "0", m, s, frac = "0"] = match;
+  // Fractions are left-aligned: ".5" is 500 ms, ".05" is 50 ms
+  const ms = Number(frac.padEnd(3, "0"));
+  return ((Number(h) * 3600 + Number(m) * 60 + Number(s)) * 1000 + ms) * 1000;
+}
+
+/**
+ * Format microseconds as a timecode.
+ *
+ * @param separator decimal separator ("," for SRT, "." for VTT/ASS)
+ * @param fractionDigits 3 for milliseconds, 2 for ASS centiseconds
+ * @param padHours pad hours to two digits (ASS uses a single digit)
+ */
+export function formatTimecode(
+  us: number,
+  separator: "," | "." = ".",
+  fractionDigits: 2 | 3 = 3,
+  padHours = true,
+): string {
+  const unit = fractionDigits === 3 ? 1000 : 10000;
+  const total = Math.max(0, Math.round(us / unit));
+  const perSecond = fractionDigits === 3 ? 1000 : 100;
+
+  const frac = total % perSecond;
+  const seconds = Math.floor(total / perSecond);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+
+  const hh = padHours ? String(h).padStart(2, "0") : String(h);
+  const mm = String(m).padStart(2, "0");
+  const ss = String(s).padStart(2, "0");
+  return `${hh}:${mm}:${ss}${separator}${String(frac).padStart(fractionDigits, "0")}`;
+}
@@ -0,0 +1,46 @@
+import type { ICaptionStyle, ICaptionWord } from "../types";
+
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+/**
+ * WebVTT cue settings. Percentages are relative to the video frame;
+ * SRT ignores them, ASS maps them to \pos overrides.
+ */
+export interface ISubtitleCuePosition {
+  /** Vertical position of the cue box, 0–100 % from the top */
+  line?: number;
+  /** Horizontal anchor of the cue box, 0–100 % from the left */
+  position?: number;
+  /** Width of the cue box, 0–100 % */
+  size?: number;
+  align?: "start" | "center" | "end" | "left" | "right";
+}
+
+export interface ISubtitleCue {
+  /** Absolute start time in microseconds */
+  start: number;
+  /** Absolute end time in microseconds */
+  end: number;
+  /** Plain text, lines separated by \n, markup stripped */
+  text: string;
+  /**
+   * Per-word timing in ms relative to `start` (same unit as ICaptionWord),
+   * only present when the file carries it (VTT timestamp tags, ASS \k tags).
+   */
+  words?: ICaptionWord[];
+  position?: ISubtitleCuePosition;
+  /** ASS style name */
+  style?: string;
+}
+
+export interface ISubtitleDocument {
+  format: SubtitleFormat;
+  cues: ISubtitleCue[];
+  /** Named styles (ASS), already mapped to caption styles */
+  styles: Record<string, Partial<ICaptionStyle>>;
+  /**
+   * Coordinate space of style sizes and \pos overrides (ASS PlayResX/Y).
+   * Absent for formats that only use percentages.
+   */
+  resolution?: { width: number; height: number };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { parseVTT, serializeVTT } from "./vtt";
+
+describe("parseVTT", () => {
+  it("should read cue settings and unescape entities", () => {
+    const cues = parseVTT(
+      "WEBVTT\n\nNOTE a comment\n\n" +
+        "intro\n00:01.000 --> 00:02.500 line:80% position:25% align:start\nTom &amp; Jerry\n",
+    );
+    expect(cues).toEqual([
+      {
+        start: 1_000_000,
+        end: 2_500_000,
+        text: "Tom & Jerry",
+        position: { line: 80, position: 25, align: "start" },
+      },
+    ]);
+  });
+
+  it("should turn timestamp tags into word timings", () => {
+    const [cue] = parseVTT(
+      "WEBVTT\n\n00:00:01.000 --> 00:00:03.000\nHello <00:00:01.500>big <00:00:02.000>world\n",
+    );
+    expect(cue.text).toBe("Hello big world");
+    expect(cue.words).toEqual([
+      { text: "Hello", from: 0, to: 500 },
+      { text: "big", from: 500, to: 1000 },
+      { text: "world", from: 1000, to: 2000 },
+    ]);
+  });
+
+  it("should share a timed segment evenly between its words", () => {
+    const [cue] = parseVTT("WEBVTT\n\n00:00:00.000 --> 00:00:01.000\n<00:00:00.000>one two\n");
+    expect(cue.words?.map((w) => [w.from, w.to])).toEqual([
+      [0, 500],
+      [500, 1000],
+    ]);
+  });
+});
+
+describe("serializeVTT", () => {
+  it("should round-trip text, timing and settings", () => {
+    const cues = [
+      {
+        start: 1_000_000,
+        end: 2_500_000,
+        text: "a < b\nline two",
+        position: { line: 80, align: "end" as const },
+      },
+    ];
+    const text = serializeVTT(cues);
+    expect(text).toContain("00:00:01.000 --> 00:00:02.500 line:80% align:end\na &lt; b");
+    expect(parseVTT(text)).toEqual(cues);
+  });
+});
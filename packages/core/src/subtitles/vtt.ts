@@ -0,0 +1,142 @@
+import type { ICaptionWord } from "../types";
+import type { ISubtitleCue, ISubtitleCuePosition } from "./types";
+import { formatTimecode, parseTimecode } from "./timecode";
+
+const TIMING_LINE = /^\s*([\d:.]+)\s+-->\s+([\d:.]+)(.*)$/;
+const TIMESTAMP_TAG = /<(\d{1,2}:\d{2}(?::\d{2})?\.\d{3})>/g;
+
+function parseSettings(settings: string): ISubtitleCuePosition | undefined {
+  const position: ISubtitleCuePosition = {};
+  for (const setting of settings.trim().split(/\s+/)) {
+    const [key, rawValue] = setting.split(":");
+    if (!rawValue) continue;
+    const value = rawValue.split(",")[0];
+    const percent = value.endsWith("%") ? Number(value.slice(0, -1)) : NaN;
+
+    switch (key) {
+      case "line":
+        if (!Number.isNaN(percent)) position.line = percent;
+        break;
+      case "position":
+        if (!Number.isNaN(percent)) position.position = percent;
+        break;
+      case "size":
+        if (!Number.isNaN(percent)) position.size = percent;
+        break;
+      case "align":
+        if (["start", "center", "end", "left", "right"].includes(value)) {
+          position.align = value as ISubtitleCuePosition["align"];
+        }
+        break;
+    }
+  }
+  return Object.keys(position).length > 0 ? position : undefined;
+}
+
+function serializeSettings(position?: ISubtitleCuePosition): string {
+  if (!position) return "";
+  const parts: string[] = [];
+  if (position.line !== undefined) parts.push(`line:${Math.round(position.line)}%`);
+  if (position.position !== undefined) parts.push(`position:${Math.round(position.position)}%`);
+  if (position.size !== undefined) parts.push(`size:${Math.round(position.size)}%`);
+  if (position.align) parts.push(`align:${position.align}`);
+  return parts.length > 0 ? ` ${parts.join(" ")}` : "";
+}
+
+/**
+ * Turn karaoke-style timestamp tags ("Hello <00:00:01.200>world") into word timings.
+ * Words inside one timed segment share the segment evenly.
+ */
+function parseTimedWords(
+  raw: string,
+  cueStart: number,
+  cueEnd: number,
+): ICaptionWord[] | undefined {
+  if (!TIMESTAMP_TAG.test(raw)) return undefined;
+  TIMESTAMP_TAG.lastIndex = 0;
+
+  const segments: Array<{ start: number; text: string }> = [];
+  let cursor = 0;
+  let segmentStart = cueStart;
+  for (const match of raw.matchAll(TIMESTAMP_TAG)) {
+    segments.push({ start: segmentStart, text: raw.slice(cursor, match.index) });
+    segmentStart = parseTimecode(match[1]);
+    cursor = match.index! + match[0].length;
+  }
+  segments.push({ start: segmentStart, text: raw.slice(cursor) });
+
+  const words: ICaptionWord[] = [];
+  segments.forEach((segment, i) => {
+    const end = segments[i + 1]?.start ?? cueEnd;
+    const tokens = segment.text
+      .replace(/<[^>]+>/g, "")
+      .split(/\s+/)
+      .filter(Boolean);
+    const step = (end - segment.start) / Math.max(tokens.length, 1);
+    tokens.forEach((token, j) => {
+      words.push({
+        text: token,
+        from: (segment.start + j * step - cueStart) / 1000,
+        to: (segment.start + (j + 1) * step - cueStart) / 1000,
+      });
+    });
+  });
+  return words.length > 0 ? words : undefined;
+}
+
+/**
+ * Parse WebVTT text. NOTE, STYLE and REGION blocks are ignored;
+ * cue settings are kept as positioning hints.
+ */
+export function parseVTT(input: string): ISubtitleCue[] {
+  const blocks = input
+    .replace(/^﻿/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+
+  const cues: ISubtitleCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((l) => TIMING_LINE.test(l));
+    if (timingIndex === -1) continue;
+    if (/^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    const [, from, to, settings] = lines[timingIndex].match(TIMING_LINE)!;
+    const start = parseTimecode(from);
+    const end = parseTimecode(to);
+    if (Number.isNaN(start) || Number.isNaN(end) || end <= start) continue;
+
+    const raw = lines
+      .slice(timingIndex + 1)
+      .join("\n")
+      .trim();
+    const text = raw
+      .replace(/<[^>]+>/g, "")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&nbsp;/g, " ")
+      .trim();
+    if (!text) continue;
+
+    const cue: ISubtitleCue = { start, end, text };
+    const position = parseSettings(settings);
+    if (position) cue.position = position;
+    const words = parseTimedWords(raw, start, end);
+    if (words) cue.words = words;
+    cues.push(cue);
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+export function serializeVTT(cues: ISubtitleCue[]): string {
+  const body = cues
+    .map((cue, i) => {
+      const text = cue.text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+      const timing = `${formatTimecode(cue.start)} --> ${formatTimecode(cue.end)}`;
+      return `${i + 1}\n${timing}${serializeSettings(cue.position)}\n${text}`;
+    })
+    .join("\n\n");
+  return `WEBVTT\n\n${body}\n`;
+}
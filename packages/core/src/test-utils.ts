@@ -0,0 +1,31 @@
+// Fixtures shared by the specs; not part of the package's exports
+
+import type { ITextClip } from "./types";
+import type { ProjectStore } from "./project";
+import type { CommandHandler } from "./commands/types";
+import { applyPatches } from "./utils/patch";
+
+/** Text clip shown over [from, to) µs of the timeline, named and reading `id` */
+export function text(id: string, from = 0, to = from + 1_000_000): ITextClip {
+  return {
+    id,
+    type: "Text",
+    name: id,
+    text: id,
+    transform: { x: 0, y: 0, width: 400, height: 100, angle: 0, zIndex: 0, opacity: 1 },
+    timing: {
+      display: { from, to },
+      trim: { from: 0, to: to - from },
+      duration: to - from,
+      playbackRate: 1,
+    },
+  };
+}
+
+/** Run a handler and return its patches with the state they lead to */
+export function run<T>(state: ProjectStore, handler: CommandHandler<T>, payload: T) {
+  const patches = handler(state, { id: "c1", type: "test", payload });
+  const next = { ...state };
+  applyPatches(next, patches);
+  return { patches, state: next };
+}
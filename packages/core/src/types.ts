@@ -1,3 +1,5 @@
+import type { EasingId, EasingRegistry, IEasingCurve } from "./easings";
+
 export interface IDisplay {
   from: number;
   to: number;
@@ -13,11 +15,22 @@ export interface IFlip {
   y: boolean;
 }
 
-export type ClipType = "Video" | "Audio" | "Image" | "Text" | "Transition" | "Caption" | "Effect";
+export type ClipType =
+  | "Video"
+  | "Audio"
+  | "Image"
+  | "Text"
+  | "Transition"
+  | "Caption"
+  | "Effect"
+  | "Sequence"
+  | "Visualizer"
+  | "Shape";
 
 export interface IFade {
   duration: number; // ms
-  curve?: "linear" | "ease-in" | "ease-out" | "ease-in-out";
+  /** Easing catalog ID */
+  curve?: EasingId;
 }
 
 export interface IClipTiming {
@@ -25,6 +38,16 @@ export interface IClipTiming {
   trim: ITrim;
   duration: number;
   playbackRate: number;
+  /** Keep audio pitch when playbackRate is not 1. Defaults to true. */
+  preservePitch?: boolean;
+  /**
+   * Speed curve for Video and Audio clips: keyframes of playback rate at
+   * display-relative times, eased like property keyframes. Source time is the
+   * integral of the curve, so when set it replaces `playbackRate` (kept at 1).
+   */
+  speedRamp?: IKeyframe[];
+  /** Play the trimmed source range backwards (Video and Audio clips). */
+  reversed?: boolean;
   fadeIn?: IFade;
   fadeOut?: IFade;
 }
@@ -35,6 +58,9 @@ export type IClipTimingInput = Partial<{
   trim: Partial<ITrim>;
   duration: number;
   playbackRate: number;
+  preservePitch?: boolean;
+  speedRamp?: IKeyframe[];
+  reversed?: boolean;
   fadeIn?: IFade;
   fadeOut?: IFade;
 }>;
@@ -50,6 +76,41 @@ export interface IClipTransform {
   flip?: IFlip | null;
 }
 
+/**
+ * Properties that can carry a keyframe track.
+ * `values.<key>` targets a numeric entry of an effect clip's `values`.
+ */
+export type KeyframeProperty =
+  | "x"
+  | "y"
+  | "width"
+  | "height"
+  | "angle"
+  | "opacity"
+  | "mask.x"
+  | "mask.y"
+  | "shape.trimStart"
+  | "shape.trimEnd"
+  | `values.${string}`;
+
+/**
+ * Easing used between a keyframe and the next one: a catalog ID, or an inline
+ * curve such as the part of a curve each half keeps when a clip is split.
+ */
+export type KeyframeEasing = EasingId | IEasingCurve;
+
+export interface IKeyframe {
+  id: string;
+  /** Microseconds from the clip's display start. */
+  time: number;
+  value: number;
+  /** Interpolation towards the next keyframe. Defaults to linear. */
+  easing?: KeyframeEasing;
+}
+
+/** Keyframe tracks keyed by property. Each track is kept sorted by time. */
+export type IKeyframeTracks = Partial<Record<KeyframeProperty, IKeyframe[]>>;
+
 export interface IBaseClip {
   id: string;
   type: ClipType;
@@ -66,10 +127,165 @@ export interface IBaseClip {
   textCase?: "none" | "uppercase" | "lowercase";
   verticalAlign?: "top" | "center" | "bottom";
   metadata?: Record<string, any>;
+  keyframes?: IKeyframeTracks;
   [key: string]: any;
 }
 
-export interface IVideoClip extends IBaseClip {
+/** Basic colour sliders, each from -100 to 100 (0 leaves the image as is). */
+export interface IColorAdjustmentBasic {
+  saturation?: number;
+  temperature?: number;
+  hue?: number;
+  brightness?: number;
+  contrast?: number;
+  shine?: number;
+  highlight?: number;
+  shadow?: number;
+  sharpness?: number;
+  vignette?: number;
+  fade?: number;
+  grain?: number;
+}
+
+/** HSL shifts for the whole image, or per target colour in `byColor` (keyed by hex). */
+export interface IColorAdjustmentHsl {
+  hue?: number;
+  saturation?: number;
+  lightness?: number;
+  selectedColor?: string;
+  byColor?: Record<string, { hue?: number; saturation?: number; lightness?: number }>;
+}
+
+/** A curve point, both axes from 0 to 1. */
+export interface ICurvePoint {
+  x: number;
+  y: number;
+}
+
+export interface IColorAdjustmentCurves {
+  rgb?: ICurvePoint[];
+  red?: ICurvePoint[];
+  green?: ICurvePoint[];
+  blue?: ICurvePoint[];
+}
+
+/** Colour correction of a visual clip. `type` is the panel last edited. */
+export interface IColorAdjustment {
+  enabled?: boolean;
+  type?: "basic" | "hsl" | "curves";
+  basic?: IColorAdjustmentBasic;
+  hsl?: IColorAdjustmentHsl;
+  curves?: IColorAdjustmentCurves;
+}
+
+/** Removes a background colour (green screen). */
+export interface IChromaKey {
+  enabled: boolean;
+  /** Key colour as hex */
+  color: string;
+  /** How far from the key colour is still removed, 0 to 1 */
+  similarity: number;
+  /** How much of the key colour is taken out of the edges, 0 to 1 */
+  spill: number;
+}
+
+/** A 3D colour lookup table applied after colour correction. */
+export interface ILut {
+  /** URL of an Adobe/Resolve `.cube` file */
+  src: string;
+  /** Mix with the uncorrected image, 0 to 1. Defaults to 1. */
+  intensity?: number;
+  enabled?: boolean;
+}
+
+/** Colour fields shared by clips that show pixels (Video, Image, Sequence). */
+export interface IColorGrading {
+  colorAdjustment?: IColorAdjustment;
+  chromaKey?: IChromaKey;
+  lut?: ILut;
+}
+
+export type MaskShape = "rectangle" | "ellipse" | "polygon" | "path";
+
+/**
+ * A vertex of a polygon or path mask, as an offset from the mask centre in
+ * fractions of the clip size. `in` and `out` are bezier handles relative to
+ * the vertex; path masks without handles draw straight segments.
+ */
+export interface IMaskPoint {
+  x: number;
+  y: number;
+  in?: { x: number; y: number };
+  out?: { x: number; y: number };
+}
+
+/** A shape that hides the parts of a clip outside it. */
+export interface IClipMask {
+  enabled?: boolean;
+  shape: MaskShape;
+  /** Mask centre in fractions of the clip size, 0.5 is the middle. Keyframeable as `mask.x`/`mask.y`. */
+  x: number;
+  y: number;
+  /** Size of rectangle and ellipse masks in fractions of the clip size */
+  width: number;
+  height: number;
+  /** Corner radius of rectangle masks, in pixels */
+  radius?: number;
+  /** Vertices of polygon and path masks */
+  points?: IMaskPoint[];
+  /** Soft edge width in pixels */
+  feather: number;
+  /** Grows (positive) or shrinks (negative) the shape, in pixels */
+  expansion: number;
+  /** Keep the outside of the shape instead */
+  invert: boolean;
+}
+
+export type TrackMatteMode = "alpha" | "luma";
+
+/** Uses another clip's alpha or luma as the mask. The matte clip itself is not drawn. */
+export interface ITrackMatte {
+  /** ID of the matte clip, usually on the track above */
+  sourceId: string;
+  mode: TrackMatteMode;
+  invert?: boolean;
+}
+
+/** Masking fields shared by clips that draw pixels. */
+export interface IMasking {
+  mask?: IClipMask;
+  trackMatte?: ITrackMatte;
+}
+
+/**
+ * How a clip's pixels combine with the layers under it, as in image editors.
+ * Defaults to normal alpha compositing.
+ */
+export type BlendMode =
+  | "normal"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "soft-light"
+  | "hard-light"
+  | "add"
+  | "darken"
+  | "lighten"
+  | "difference"
+  | "exclusion"
+  | "color-dodge"
+  | "color-burn"
+  | "linear-burn"
+  | "saturation"
+  | "color"
+  | "luminosity";
+
+/** Compositing fields shared by clips that draw pixels. */
+export interface IBlending {
+  blendMode?: BlendMode;
+}
+
+export interface IVideoClip extends IBaseClip, IColorGrading, IMasking, IBlending {
   type: "Video";
   src: string;
   style?: IBaseClipStyle;
@@ -79,12 +295,19 @@ export interface IAudioClip extends IBaseClip {
   src: string;
   style?: IBaseClipStyle;
 }
-export interface IImageClip extends IBaseClip {
+/** A single held video frame, shown by an Image clip whose `src` is the video. */
+export interface IFreezeFrame {
+  /** Source time of the frame in microseconds. */
+  time: number;
+}
+
+export interface IImageClip extends IBaseClip, IColorGrading, IMasking, IBlending {
   type: "Image";
   src: string;
   style?: IBaseClipStyle;
+  freezeFrame?: IFreezeFrame;
 }
-export interface ITextClip extends IBaseClip {
+export interface ITextClip extends IBaseClip, IMasking, IBlending {
   type: "Text";
   text: string;
   style?: ITextStyle;
@@ -146,7 +369,7 @@ export interface ITextStyle extends IBaseClipStyle {
 
 export interface ICaptionStyle extends ITextStyle {}
 
-export interface ICaptionClip extends IBaseClip {
+export interface ICaptionClip extends IBaseClip, IMasking, IBlending {
   type: "Caption";
   text: string;
   mediaId: string;
@@ -176,6 +399,8 @@ export interface ITransitionClip extends IBaseClip {
   transitionKey: string;
   fromClipId?: string | null;
   toClipId?: string | null;
+  /** Easing catalog ID applied to the transition progress */
+  easing?: EasingId;
 }
 
 export interface IEffectClip extends IBaseClip {
@@ -184,6 +409,112 @@ export interface IEffectClip extends IBaseClip {
   values?: Record<string, any>;
 }
 
+/**
+ * A sub-timeline placed as one layer. Trim selects the range of the sequence
+ * shown, in sequence time.
+ */
+export interface ISequenceClip extends IBaseClip, IColorGrading, IMasking, IBlending {
+  type: "Sequence";
+  /** Key into `IProject.sequences` */
+  sequenceId: string;
+  style?: IBaseClipStyle;
+}
+
+export type VisualizerStyle = "bars" | "radial" | "wave" | "hill";
+
+/** How a Visualizer clip draws its source audio */
+export interface IVisualizerSettings {
+  style: VisualizerStyle;
+  /** Number of frequency bands (bars, radial, hill) or waveform points (wave) */
+  bands: number;
+  /** Colours graded across the bands, from low to high frequency */
+  colors: string[];
+  /** 0 follows the audio exactly; towards 1 bands rise and fall more slowly */
+  smoothing: number;
+  /** Frequency range shown, in Hz */
+  minFrequency: number;
+  maxFrequency: number;
+  /** Space between bars as a fraction of the bar pitch */
+  gap: number;
+  /** Outline width of the wave and hill styles, in pixels */
+  lineWidth: number;
+  /** Draw bars and hills out from the centre line instead of up from the bottom */
+  mirror: boolean;
+}
+
+/**
+ * An audiogram: draws the spectrum or waveform of another clip's audio at
+ * each frame.
+ */
+export interface IVisualizerClip extends IBaseClip, IMasking, IBlending {
+  type: "Visualizer";
+  /** ID of the Audio clip the visualizer follows */
+  audioClipId: string;
+  visualizer: IVisualizerSettings;
+}
+
+export type ShapeKind = "rectangle" | "ellipse" | "line" | "arrow" | "polygon" | "path";
+
+export interface IShapeGradientStop {
+  /** Position along the gradient, 0 to 1 */
+  offset: number;
+  color: string;
+}
+
+/**
+ * A gradient across the shape box. Linear gradients run at `angle` degrees
+ * (0 is left to right); radial gradients spread from the centre.
+ */
+export interface IShapeGradient {
+  type: "linear" | "radial";
+  angle?: number;
+  stops: IShapeGradientStop[];
+}
+
+/** A CSS colour or a gradient */
+export type ShapePaint = string | IShapeGradient;
+
+export interface IShapeStroke {
+  paint: ShapePaint;
+  /** Width in pixels */
+  width: number;
+  /** Alternating dash and gap lengths in pixels; empty for a solid line */
+  dash?: number[];
+  dashOffset?: number;
+  cap?: "butt" | "round" | "square";
+  join?: "miter" | "round" | "bevel";
+}
+
+/** What a Shape clip draws, fitted to the clip box */
+export interface IShapeSettings {
+  kind: ShapeKind;
+  /** Interior paint; null leaves it empty. Lines and arrows are never filled. */
+  fill: ShapePaint | null;
+  stroke: IShapeStroke | null;
+  /** Corner radius of rectangles and polygons, in pixels */
+  cornerRadius: number;
+  /** Sides of a regular polygon, used when `points` is not set */
+  sides: number;
+  /** Polygon vertices as fractions of the clip box */
+  points?: { x: number; y: number }[];
+  /** SVG path data for the `path` kind, stretched to fill the clip box */
+  path?: string;
+  /** Arrow head length in pixels */
+  headSize: number;
+  /**
+   * Part of the outline drawn, as fractions of its length. Keyframe
+   * `shape.trimStart`/`shape.trimEnd` for a draw-on effect.
+   */
+  trimStart: number;
+  trimEnd: number;
+}
+
+/** A vector shape: rectangles, ellipses, lines, arrows, polygons and SVG paths */
+export interface IShapeClip extends IBaseClip, IMasking, IBlending {
+  type: "Shape";
+  shape: IShapeSettings;
+}
+
 export type AnyClip =
   | IVideoClip
   | IAudioClip
@@ -191,9 +522,27 @@ export type AnyClip =
   | ITextClip
   | ICaptionClip
   | ITransitionClip
-  | IEffectClip;
+  | IEffectClip
+  | ISequenceClip
+  | IVisualizerClip
+  | IShapeClip;
+
+/** What a track carries in the mix. Music tracks duck under dialogue. */
+export type TrackRole = "dialogue" | "music" | "sfx";
 
-export interface ITrack {
+/** How a track's audio enters the mix */
+export interface ITrackMix {
+  role?: TrackRole;
+  /** Track gain in dB, default 0 */
+  gain?: number;
+  /** Stereo balance from -1 (left) to 1 (right), default 0 */
+  pan?: number;
+  muted?: boolean;
+  /** When any track is soloed, only soloed tracks are heard */
+  solo?: boolean;
+}
+
+export interface ITrack extends ITrackMix {
   id: string;
   name: string;
   type: string;
@@ -202,18 +551,57 @@ export interface ITrack {
   static?: boolean;
 }
 
+/** Sidechain gain reduction of music tracks while dialogue is audible */
+export interface IDuckingSettings {
+  enabled: boolean;
+  /** Dialogue level (dBFS) above which music is ducked */
+  threshold: number;
+  /** Gain reduction applied to music, in dB */
+  reduction: number;
+  attack: number; // ms
+  release: number; // ms
+}
+
 export interface IProjectSettings {
   width: number;
   height: number;
   fps: number;
   duration: number;
   backgroundColor?: string;
+  ducking?: IDuckingSettings;
+}
+
+/** A reusable sub-timeline (intro, outro, lower third) placed by Sequence clips */
+export interface ISequence {
+  id: string;
+  name: string;
+  /** Frame size and rate of the sub-timeline; duration is its length */
+  settings: IProjectSettings;
+  tracks: ITrack[];
+  clips: Record<string, AnyClip>;
 }
 
 export interface IProject {
   settings: IProjectSettings;
   tracks: ITrack[];
   clips: Record<string, AnyClip>;
+  /** Project-specific easing curves, keyed by ID */
+  easings?: EasingRegistry;
+  /** Sub-timelines referenced by Sequence clips, keyed by ID */
+  sequences?: Record<string, ISequence>;
+}
+
+/**
+ * A timeline left to edit a sequence in its place. While a sequence is open
+ * the project's settings, tracks and clips are the sequence's, and the
+ * timeline it was opened from waits here.
+ */
+export interface ISequenceFrame {
+  /** ID of the open sequence */
+  sequenceId: string;
+  settings: IProjectSettings;
+  tracks: ITrack[];
+  clips: Record<string, AnyClip>;
 }
 
 export interface IScaleState {
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import type { IProject } from "../types";
+import type { Patch } from "../commands/types";
+import { diffProjects } from "./diff";
+import { applyPatches, invertPatches } from "./patch";
+import { text } from "../test-utils";
+
+function project(): IProject {
+  return {
+    settings: { width: 1920, height: 1080, fps: 30, duration: 2_000_000 },
+    tracks: [{ id: "t", name: "Text", type: "Text", clipIds: ["a", "b"] }],
+    clips: { a: text("a"), b: text("b", 1_000_000) },
+    easings: {},
+    sequences: {},
+  };
+}
+
+/** `from` with the patches applied */
+function apply(from: IProject, patches: Patch[]): IProject {
+  const state = structuredClone(from);
+  applyPatches(state, patches);
+  return state;
+}
+
+describe("diffProjects", () => {
+  it("should return nothing for equal projects", () => {
+    expect(diffProjects(project(), project())).toEqual([]);
+  });
+
+  it("should diff clips property by property", () => {
+    const to = project();
+    to.clips.a = { ...text("a"), name: "Title" };
+    expect(diffProjects(project(), to)).toEqual([
+      { op: "update", path: "/clips/a/name", value: "Title", oldValue: "a" },
+    ]);
+  });
+
+  it("should add and remove whole clips", () => {
+    const to = project();
+    delete to.clips.b;
+    to.clips.c = text("c");
+    to.tracks[0].clipIds = ["a", "c"];
+
+    const patches = diffProjects(project(), to);
+    expect(patches).toContainEqual({
+      op: "remove",
+      path: "/clips/b",
+      oldValue: text("b", 1_000_000),
+    });
+    expect(patches).toContainEqual({ op: "add", path: "/clips/c", value: text("c") });
+  });
+
+  it("should replace the track list as a whole", () => {
+    const to = project();
+    to.tracks[0].clipIds = ["b", "a"];
+    expect(diffProjects(project(), to)).toEqual([
+      { op: "update", path: "/tracks", value: to.tracks, oldValue: project().tracks },
+    ]);
+  });
+
+  it("should diff settings, easings and sequences by key", () => {
+    const to = project();
+    to.settings.fps = 25;
+    to.easings = { late: { id: "late", name: "Late", curve: { type: "steps", steps: 1 } } };
+    const paths = diffProjects(project(), to).map((patch) => [patch.op, patch.path]);
+    expect(paths).toEqual([
+      ["update", "/settings/fps"],
+      ["add", "/easings/late"],
+    ]);
+  });
+
+  it("should produce patches that turn one project into the other and back", () => {
+    const from = project();
+    const to = project();
+    to.settings.width = 1080;
+    to.clips.a = { ...text("a", 500_000), text: "Hello" };
+    delete to.clips.b;
+    to.clips.c = text("c", 2_000_000);
+    to.tracks[0].clipIds = ["a", "c"];
+    to.sequences = {
+      intro: { id: "intro", name: "Intro", settings: from.settings, tracks: [], clips: {} },
+    };
+
+    const patches = diffProjects(from, to);
+    expect(apply(from, patches)).toEqual(to);
+    expect(apply(to, invertPatches(patches))).toEqual(from);
+  });
+});
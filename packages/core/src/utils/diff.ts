@@ -0,0 +1,62 @@
+import { Patch } from "../commands/types";
+import { IProject } from "../types";
+import { isEqual } from "lodash-es";
+
+/**
+ * Patches for the keys of a record: one add, remove or update per key.
+ */
+function diffRecord(
+  path: string,
+  from: Record<string, any> = {},
+  to: Record<string, any> = {},
+): Patch[] {
+  const patches: Patch[] = [];
+  for (const key of Object.keys(from)) {
+    if (!(key in to)) {
+      patches.push({ op: "remove", path: `${path}/${key}`, oldValue: from[key] });
+    }
+  }
+  for (const [key, value] of Object.entries(to)) {
+    if (!(key in from)) {
+      patches.push({ op: "add", path: `${path}/${key}`, value });
+    } else if (!isEqual(from[key], value)) {
+      patches.push({ op: "update", path: `${path}/${key}`, value, oldValue: from[key] });
+    }
+  }
+  return patches;
+}
+
+/**
+ * Patches that turn project `from` into project `to`.
+ *
+ * Clips are compared property by property so a diff reads as "clip X moved"
+ * rather than "clip X replaced". Tracks are ordered, so any change to them is
+ * a single update of the whole list.
+ */
+export function diffProjects(from: IProject, to: IProject): Patch[] {
+  const patches: Patch[] = [];
+
+  patches.push(...diffRecord("/settings", from.settings, to.settings));
+
+  if (!isEqual(from.tracks, to.tracks)) {
+    patches.push({ op: "update", path: "/tracks", value: to.tracks, oldValue: from.tracks });
+  }
+
+  for (const [id, clip] of Object.entries(from.clips)) {
+    if (!(id in to.clips)) {
+      patches.push({ op: "remove", path: `/clips/${id}`, oldValue: clip });
+    }
+  }
+  for (const [id, clip] of Object.entries(to.clips)) {
+    if (!(id in from.clips)) {
+      patches.push({ op: "add", path: `/clips/${id}`, value: clip });
+    } else {
+      patches.push(...diffRecord(`/clips/${id}`, from.clips[id], clip));
+    }
+  }
+
+  patches.push(...diffRecord("/easings", from.easings, to.easings));
+  patches.push(...diffRecord("/sequences", from.sequences, to.sequences));
+
+  return patches;
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import type { IKeyframe, KeyframeEasing } from "../types";
+import type { EasingRegistry } from "../easings";
+import {
+  evaluateKeyframeTrack,
+  evaluateKeyframes,
+  insertKeyframe,
+  splitKeyframeTrack,
+  splitKeyframes,
+} from "./keyframes";
+
+let nextId = 0;
+const createId = () => `k${nextId++}`;
+
+const track = (easing?: KeyframeEasing): IKeyframe[] => [
+  { id: "a", time: 0, value: 0, easing },
+  { id: "b", time: 1_000_000, value: 100 },
+  { id: "c", time: 2_000_000, value: 50, easing: "ease-in" },
+  { id: "d", time: 3_000_000, value: 80 },
+];
+
+/** Sample the two halves of a split as one timeline */
+function sampleSplit(
+  [left, right]: [IKeyframe[], IKeyframe[]],
+  offset: number,
+  time: number,
+  easings?: EasingRegistry,
+) {
+  return time < offset
+    ? evaluateKeyframeTrack(left, time, easings)
+    : evaluateKeyframeTrack(right, time - offset, easings);
+}
+
+describe("evaluateKeyframeTrack", () => {
+  it("should hold the edge values outside the track", () => {
+    const keyframes = track();
+    expect(evaluateKeyframeTrack(keyframes, -1)).toBe(0);
+    expect(evaluateKeyframeTrack(keyframes, 5_000_000)).toBe(80);
+  });
+
+  it("should interpolate linearly without an easing", () => {
+    expect(evaluateKeyframeTrack(track(), 250_000)).toBe(25);
+  });
+
+  it("should ease with the easing of the segment's first keyframe", () => {
+    expect(evaluateKeyframeTrack(track("ease-in"), 500_000)).toBe(25);
+    expect(evaluateKeyframeTrack(track(), 2_500_000)).toBe(57.5);
+  });
+
+  it("should return undefined for an empty track", () => {
+    expect(evaluateKeyframeTrack([], 0)).toBeUndefined();
+    expect(evaluateKeyframeTrack(undefined, 0)).toBeUndefined();
+  });
+
+  it("should resolve project curves", () => {
+    const easings: EasingRegistry = {
+      late: { id: "late", name: "Late", curve: { type: "steps", steps: 1 } },
+    };
+    expect(evaluateKeyframeTrack(track("late"), 900_000, easings)).toBe(0);
+    expect(evaluateKeyframeTrack(track("late"), 900_000)).toBe(90);
+  });
+});
+
+describe("evaluateKeyframes", () => {
+  it("should only return properties that have keyframes", () => {
+    const sampled = evaluateKeyframes({ x: track(), y: [] }, 500_000);
+    expect(sampled).toEqual({ x: 50 });
+  });
+});
+
+describe("insertKeyframe", () => {
+  it("should keep the track sorted and replace a keyframe at the same time", () => {
+    const next = insertKeyframe(track(), { id: "e", time: 1_000_000, value: 7 });
+    expect(next.map((k) => k.id)).toEqual(["a", "e", "c", "d"]);
+    expect(next[1].value).toBe(7);
+  });
+});
+
+describe("splitKeyframeTrack", () => {
+  const offsets = [300_000, 1_000_000, 2_700_000];
+  const easings: EasingRegistry = {
+    wobble: {
+      id: "wobble",
+      name: "Wobble",
+      curve: { type: "spring", stiffness: 180, damping: 12 },
+    },
+  };
+
+  for (const easing of ["ease", "easeOutBack", "hold", "bounce", "wobble", undefined]) {
+    it(`should keep the ${easing ?? "linear"} curve unchanged on both halves`, () => {
+      const original = track(easing);
+      for (const offset of offsets) {
+        const halves = splitKeyframeTrack(original, offset, createId, easings);
+        for (let time = 0; time <= 3_000_000; time += 50_000) {
+          expect(sampleSplit(halves, offset, time, easings)).toBeCloseTo(
+            evaluateKeyframeTrack(original, time, easings)!,
+            6,
+          );
+        }
+      }
+    });
+  }
+
+  it("should add a keyframe at the cut on both halves and re-base the right one", () => {
+    const [left, right] = splitKeyframeTrack(track(), 1_500_000, createId);
+    expect(left.at(-1)).toMatchObject({ time: 1_500_000, value: 75 });
+    expect(right[0]).toMatchObject({ time: 0, value: 75 });
+    expect(right.slice(1).map((k) => [k.id, k.time])).toEqual([
+      ["c", 500_000],
+      ["d", 1_500_000],
+    ]);
+  });
+
+  it("should keep easing IDs when cutting on a keyframe or in a linear segment", () => {
+    const [left, right] = splitKeyframeTrack(track("ease"), 1_000_000, createId);
+    expect(left[0].easing).toBe("ease");
+    expect(right[0].easing).toBeUndefined();
+
+    const [, linearRight] = splitKeyframeTrack(track(), 500_000, createId);
+    expect(linearRight[0].easing).toBeUndefined();
+  });
+
+  it("should slice the original curve again when a half is split", () => {
+    const [, right] = splitKeyframeTrack(track("ease"), 250_000, createId);
+    const [, again] = splitKeyframeTrack(right, 250_000, createId);
+    expect(again[0].easing).toEqual({
+      type: "segment",
+      curve: { type: "cubic-bezier", x1: 0.25, y1: 0.1, x2: 0.25, y2: 1 },
+      from: 0.5,
+      to: 1,
+    });
+    expect(evaluateKeyframeTrack(again, 250_000)).toBeCloseTo(
+      evaluateKeyframeTrack(track("ease"), 750_000)!,
+      6,
+    );
+  });
+});
+
+describe("splitKeyframes", () => {
+  it("should split every track and skip empty ones", () => {
+    const [left, right] = splitKeyframes({ x: track(), y: [] }, 500_000, createId);
+    expect(Object.keys(left!)).toEqual(["x"]);
+    expect(evaluateKeyframeTrack(right!.x, 0)).toBe(50);
+  });
+
+  it("should return nothing for a clip without keyframes", () => {
+    expect(splitKeyframes(undefined, 500_000, createId)).toEqual([undefined, undefined]);
+  });
+});
@@ -0,0 +1,143 @@
+import type { IKeyframe, IKeyframeTracks, KeyframeEasing, KeyframeProperty } from "../types";
+import {
+  getEasingById,
+  resolveEasing,
+  sliceEasingCurve,
+  type EasingRegistry,
+  type IEasingCurve,
+} from "../easings";
+
+/**
+ * Sample a single keyframe track at a clip-relative time (microseconds).
+ * Before the first / after the last keyframe the edge value is held.
+ * Returns undefined for an empty track. Easing IDs resolve against the
+ * project's `easings` before the built-in catalog.
+ */
+export function evaluateKeyframeTrack(
+  track: IKeyframe[] | undefined,
+  time: number,
+  easings?: EasingRegistry,
+): number | undefined {
+  if (!track || track.length === 0) return undefined;
+
+  const first = track[0];
+  const last = track[track.length - 1];
+  if (time <= first.time) return first.value;
+  if (time >= last.time) return last.value;
+
+  // Tracks are short, a linear scan beats the bookkeeping of a binary search
+  let i = 0;
+  while (i < track.length - 1 && track[i + 1].time <= time) i++;
+
+  const from = track[i];
+  const to = track[i + 1];
+  const span = to.time - from.time;
+  if (span <= 0) return to.value;
+
+  const progress = resolveEasing(from.easing, easings)((time - from.time) / span);
+  return from.value + (to.value - from.value) * progress;
+}
+
+/**
+ * Sample every track of a clip at a clip-relative time (microseconds).
+ * Only properties that actually have keyframes appear in the result.
+ */
+export function evaluateKeyframes(
+  tracks: IKeyframeTracks | undefined,
+  time: number,
+  easings?: EasingRegistry,
+): Partial<Record<KeyframeProperty, number>> {
+  const result: Partial<Record<KeyframeProperty, number>> = {};
+  if (!tracks) return result;
+
+  for (const property in tracks) {
+    const value = evaluateKeyframeTrack(tracks[property as KeyframeProperty], time, easings);
+    if (value !== undefined) result[property as KeyframeProperty] = value;
+  }
+  return result;
+}
+
+/**
+ * Return a new track with `keyframe` inserted in time order.
+ * A keyframe already sitting at the same time is replaced.
+ */
+export function insertKeyframe(track: IKeyframe[] | undefined, keyframe: IKeyframe): IKeyframe[] {
+  const next = (track ?? []).filter((k) => k.time !== keyframe.time && k.id !== keyframe.id);
+  next.push(keyframe);
+  return next.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Split keyframe tracks at a clip-relative offset (microseconds).
+ * Both halves receive a keyframe at the cut so the animation stays continuous,
+ * and the right half is re-based so its times start at zero. `easings` are the
+ * project's curves the keyframes may reference.
+ */
+export function splitKeyframes(
+  tracks: IKeyframeTracks | undefined,
+  offset: number,
+  createId: () => string,
+  easings?: EasingRegistry,
+): [IKeyframeTracks | undefined, IKeyframeTracks | undefined] {
+  if (!tracks) return [undefined, undefined];
+
+  const left: IKeyframeTracks = {};
+  const right: IKeyframeTracks = {};
+
+  for (const property in tracks) {
+    const key = property as KeyframeProperty;
+    const track = tracks[key];
+    if (!track || track.length === 0) continue;
+    [left[key], right[key]] = splitKeyframeTrack(track, offset, createId, easings);
+  }
+
+  return [left, right];
+}
+
+/**
+ * Split a single non-empty keyframe track at a clip-relative offset, see {@link splitKeyframes}.
+ * Together the halves animate exactly like the original track.
+ */
+export function splitKeyframeTrack(
+  track: IKeyframe[],
+  offset: number,
+  createId: () => string,
+  easings?: EasingRegistry,
+): [IKeyframe[], IKeyframe[]] {
+  const value = evaluateKeyframeTrack(track, offset, easings)!;
+  const before = track.filter((k) => k.time < offset);
+  const after = track.filter((k) => k.time > offset);
+  const cut = track.find((k) => k.time === offset);
+
+  const last = before.at(-1);
+  const next = after[0];
+  let leftEasing = last?.easing;
+  let rightEasing = cut ? cut.easing : last?.easing;
+  const curve = last && next && !cut ? toEasingCurve(last.easing, easings) : undefined;
+  if (last && next && curve && curve.type !== "linear") {
+    // Cut inside an eased segment: each half keeps its own part of the curve
+    const progress = (offset - last.time) / (next.time - last.time);
+    leftEasing = sliceEasingCurve(curve, 0, progress);
+    rightEasing = sliceEasingCurve(curve, progress, 1);
+  }
+
+  const left =
+    last && leftEasing !== last.easing
+      ? [...before.slice(0, -1), { ...last, easing: leftEasing }]
+      : before;
+
+  return [
+    [...left, { id: createId(), time: offset, value }],
+    [
+      { id: createId(), time: 0, value, easing: rightEasing },
+      ...after.map((k) => ({ ...k, time: k.time - offset })),
+    ],
+  ];
+}
+
+/** The curve behind a keyframe easing; unknown IDs are linear, as when sampling */
+function toEasingCurve(easing: KeyframeEasing | undefined, easings?: EasingRegistry): IEasingCurve {
+  if (typeof easing === "object") return easing;
+  const definition = easing != null ? getEasingById(easing, easings) : undefined;
+  return definition?.curve ?? { type: "linear" };
+}
@@ -2,6 +2,10 @@ import { AnyClip, IDisplay, ITrim, IClipTimingInput } from "../types";
 import { generateId } from "./id";
 import { CoreConfig } from "../config";
 import { normalizeClip } from "./normalize";
+import type { EasingRegistry } from "../easings";
+import { getTimelineLength } from "./speed-ramp";
+import { DEFAULT_VISUALIZER_SETTINGS } from "./visualizer";
+import { createShapeSettings } from "./shape";
 
 const DEFAULT_DURATION = 5_000_000; // 5 seconds in microseconds
 
@@ -24,9 +28,11 @@ export const loadClip = async (
   options: {
     canvasSize: { width: number; height: number };
     objectFit?: "contain" | "cover";
+    /** Project curves a speed ramp's keyframes may reference */
+    easings?: EasingRegistry;
   },
 ): Promise<AnyClip> => {
-  const { canvasSize, objectFit } = options;
+  const { canvasSize, objectFit, easings } = options;
 
   // 1. Resolve Dimensions and Duration (Async if needed)
   let width = payload.width;
@@ -121,14 +127,24 @@ export const loadClip = async (
   const left = payload.left ?? (canvasSize.width - width) / 2;
   const top = payload.top ?? (canvasSize.height - height) / 2;
 
-  const playbackRate = payload.playbackRate ?? payload.timing?.playbackRate ?? 1;
+  // A speed ramp replaces the scalar rate and sets the clip's length on the timeline
+  const speedRamp = payload.timing?.speedRamp?.length ? payload.timing.speedRamp : undefined;
+  const playbackRate = speedRamp ? 1 : (payload.playbackRate ?? payload.timing?.playbackRate ?? 1);
+  const preservePitch = payload.timing?.preservePitch;
+  const reversed = payload.timing?.reversed;
   const trim = getTrim(payload.trim || payload.timing?.trim, duration);
-  const display = getDisplay(payload.display || payload.timing?.display, trim.to - trim.from);
+  const length = speedRamp
+    ? getTimelineLength({ playbackRate, speedRamp }, trim.to - trim.from, easings)
+    : trim.to - trim.from;
+  const display = getDisplay(payload.display || payload.timing?.display, length);
   const timing = {
     display,
     trim,
-    duration: trim.to - trim.from,
+    duration: length,
     playbackRate,
+    ...(preservePitch !== undefined && { preservePitch }),
+    ...(speedRamp && { speedRamp }),
+    ...(reversed && { reversed }),
   };
 
   // Clone payload and delete legacy root properties to keep clip object clean
@@ -162,6 +178,7 @@ export const loadClip = async (
     locked: payload.locked ?? false,
     effects: payload.effects ?? [],
     animations: payload.animations ?? [],
+    keyframes: payload.keyframes ?? {},
     colorAdjustment: payload.colorAdjustment ?? {
       enabled: false,
       type: "basic",
@@ -171,6 +188,17 @@ export const loadClip = async (
     },
   } as unknown as AnyClip;
 
+  if (payload.type === "Visualizer") {
+    const visualizerClip = baseClip as any;
+    visualizerClip.audioClipId = payload.audioClipId ?? "";
+    visualizerClip.visualizer = { ...DEFAULT_VISUALIZER_SETTINGS, ...payload.visualizer };
+  }
+
+  if (payload.type === "Shape") {
+    const shapeClip = baseClip as any;
+    shapeClip.shape = createShapeSettings(payload.shape);
+  }
+
   if (payload.type === "Caption") {
     const captionClip = baseClip as any;
     captionClip.mediaId = payload.mediaId ?? "";
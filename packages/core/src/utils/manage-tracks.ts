@@ -14,8 +14,11 @@ export interface TrackManagementResult {
 
 const ACCEPTS_MAP: Record<string, string[]> = {
   Text: ["text", "caption"],
-  Image: ["image", "video"],
-  Video: ["video", "image"],
+  Image: ["image", "video", "sequence", "visualizer", "shape"],
+  Video: ["video", "image", "sequence", "visualizer", "shape"],
+  Sequence: ["sequence", "video", "image"],
+  Visualizer: ["visualizer", "video", "image"],
+  Shape: ["shape", "video", "image"],
   Audio: ["audio"],
   Caption: ["caption", "text"],
   Effect: ["effect"],
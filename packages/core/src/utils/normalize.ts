@@ -51,7 +51,9 @@ export function normalizeClip(clip: any): AnyClip {
       fadeOut: clip.fadeOut,
     };
   } else {
+    // Spread first so optional playback fields (preservePitch, speedRamp, reversed) survive
     normalized.timing = {
+      ...normalized.timing,
       display: normalized.timing.display || { from: 0, to: 0 },
       trim: normalized.timing.trim || { from: 0, to: 0 },
       duration: normalized.timing.duration ?? 0,
@@ -11,6 +11,8 @@ export const applyPatches = (state: any, patches: Patch[]) => {
   let clonedTracks = false;
   let clonedSettings = false;
   let clonedSelectedIds = false;
+  let clonedSequences = false;
+  let clonedEasings = false;
 
   patches.forEach((patch) => {
     // Remove leading slash if present for lodash path compatibility
@@ -33,6 +35,14 @@ export const applyPatches = (state: any, patches: Patch[]) => {
       state.selectedIds = [...state.selectedIds];
       clonedSelectedIds = true;
     }
+    if (firstSegment === "sequences" && !clonedSequences && state.sequences) {
+      state.sequences = { ...state.sequences };
+      clonedSequences = true;
+    }
+    if (firstSegment === "easings" && !clonedEasings && state.easings) {
+      state.easings = { ...state.easings };
+      clonedEasings = true;
+    }
 
     const lodashPath = cleanPath.replace(/\//g, ".");
 
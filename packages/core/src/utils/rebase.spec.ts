@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import type { Patch } from "../commands/types";
+import { merge3, rebasePatches } from "./rebase";
+
+const clip = (id: string, from = 0, name = id) => ({
+  id,
+  name,
+  timing: { display: { from, to: from + 1_000_000 } },
+});
+
+/** A project after `a` was moved and `b` removed on the server */
+const state = () => ({
+  clips: { a: clip("a", 2_000_000) },
+  tracks: [{ id: "t", clipIds: ["a", "c"] }],
+});
+
+describe("merge3", () => {
+  it("should take whichever side changed", () => {
+    expect(merge3(1, 2, 1)).toBe(2);
+    expect(merge3(1, 1, 3)).toBe(3);
+  });
+
+  it("should let mine win a true conflict", () => {
+    expect(merge3(1, 2, 3)).toBe(3);
+  });
+
+  it("should merge objects key by key", () => {
+    const base = clip("a");
+    const theirs = { ...base, name: "Intro" };
+    const mine = { ...base, timing: { display: { from: 500_000, to: 1_500_000 } } };
+    expect(merge3(base, theirs, mine)).toEqual({ ...mine, name: "Intro" });
+  });
+
+  it("should keep additions and removals from both sides of a list", () => {
+    expect(merge3(["a", "b", "c"], ["a", "c", "x"], ["b", "a", "c", "y"])).toEqual([
+      "a",
+      "c",
+      "x",
+      "y",
+    ]);
+  });
+
+  it("should merge list items with the same id", () => {
+    const base = [{ id: "t", clipIds: ["a"], name: "Video" }];
+    const theirs = [{ id: "t", clipIds: ["a", "b"], name: "Video" }];
+    const mine = [{ id: "t", clipIds: ["a"], name: "Main" }];
+    expect(merge3(base, theirs, mine)).toEqual([{ id: "t", clipIds: ["a", "b"], name: "Main" }]);
+  });
+});
+
+describe("rebasePatches", () => {
+  it("should keep patches whose old value is still current", () => {
+    const patch: Patch = {
+      op: "update",
+      path: "/clips/a/name",
+      value: "Intro",
+      oldValue: "a",
+    };
+    expect(rebasePatches(state(), [patch])).toEqual([patch]);
+  });
+
+  it("should drop updates to a clip removed since", () => {
+    const patches: Patch[] = [
+      { op: "update", path: "/clips/b", value: clip("b", 1), oldValue: clip("b") },
+      { op: "update", path: "/clips/b/name", value: "Outro", oldValue: "b" },
+    ];
+    expect(rebasePatches(state(), patches)).toEqual([]);
+    expect(rebasePatches(state(), patches, "current")).toEqual([]);
+  });
+
+  it("should skip removing what is already gone", () => {
+    expect(
+      rebasePatches(state(), [{ op: "remove", path: "/clips/b", oldValue: clip("b") }]),
+    ).toEqual([]);
+  });
+
+  it("should let a later patch of the batch build on an earlier one", () => {
+    const patches: Patch[] = [
+      { op: "add", path: "/clips/n", value: clip("n") },
+      { op: "update", path: "/clips/n/name", value: "New", oldValue: "n" },
+    ];
+    expect(rebasePatches(state(), patches)).toEqual(patches);
+  });
+
+  it("should merge concurrent edits to different properties of a clip", () => {
+    const [patch] = rebasePatches(state(), [
+      { op: "update", path: "/clips/a", value: clip("a", 0, "Intro"), oldValue: clip("a") },
+    ]);
+    expect(patch.value).toEqual(clip("a", 2_000_000, "Intro"));
+    expect(patch.oldValue).toEqual(clip("a", 2_000_000));
+  });
+
+  it("should merge track lists edited on both sides", () => {
+    const [patch] = rebasePatches(state(), [
+      {
+        op: "update",
+        path: "/tracks",
+        value: [{ id: "t", clipIds: ["a", "b", "d"] }],
+        oldValue: [{ id: "t", clipIds: ["a", "b"] }],
+      },
+    ]);
+    // b was removed on the server and c added there; d was added here
+    expect(patch.value).toEqual([{ id: "t", clipIds: ["a", "c", "d"] }]);
+  });
+
+  describe("true conflicts", () => {
+    const patch: Patch = {
+      op: "update",
+      path: "/clips/a/timing/display/from",
+      value: 1_000_000,
+      oldValue: 0,
+    };
+
+    it("should let the patch win with incoming, as the server does", () => {
+      expect(rebasePatches(state(), [patch], "incoming")).toEqual([
+        { ...patch, oldValue: 2_000_000 },
+      ]);
+    });
+
+    it("should keep the current value with current, as a client does", () => {
+      expect(rebasePatches(state(), [patch], "current")).toEqual([]);
+    });
+
+    it("should not add over something added concurrently with current", () => {
+      const add: Patch = { op: "add", path: "/clips/a", value: clip("a") };
+      expect(rebasePatches(state(), [add], "current")).toEqual([]);
+      expect(rebasePatches(state(), [add], "incoming")).toEqual([
+        { ...add, oldValue: clip("a", 2_000_000) },
+      ]);
+    });
+  });
+});
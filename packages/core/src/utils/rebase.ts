@@ -0,0 +1,181 @@
+import { Patch } from "../commands/types";
+import { get, has, isEqual, isPlainObject } from "lodash-es";
+
+/**
+ * Rebasing patches for real-time collaboration.
+ *
+ * A patch made against an older state carries that state's value in
+ * `oldValue`. When the value has changed since, the edit is merged three
+ * ways: changes to different keys, list items or clips are both kept, and
+ * only a true conflict on one value is settled by `prefer`.
+ *
+ * Removing something wins over concurrent edits inside it, so patches under
+ * a path that no longer exists are dropped.
+ */
+
+export type RebasePreference = "incoming" | "current";
+
+function toLodashPath(path: string) {
+  return (path.startsWith("/") ? path.slice(1) : path).replace(/\//g, ".");
+}
+
+function parentPath(path: string) {
+  return path.slice(0, path.lastIndexOf("/"));
+}
+
+function isUnder(path: string, ancestor: string) {
+  return path === ancestor || path.startsWith(`${ancestor}/`);
+}
+
+type Keyed = string | number | { id: string };
+
+function keyOf(item: Keyed) {
+  return typeof item === "object" ? item.id : item;
+}
+
+function isKeyedList(list: unknown): list is Keyed[] {
+  return (
+    Array.isArray(list) &&
+    list.every(
+      (item) =>
+        typeof item === "string" ||
+        typeof item === "number" ||
+        (isPlainObject(item) && typeof item.id === "string"),
+    )
+  );
+}
+
+/**
+ * Merge a list by item identity: removals and additions from both sides are
+ * kept, `mine` decides the order, and additions from `theirs` go after the
+ * item they followed there.
+ */
+function mergeList(base: Keyed[], theirs: Keyed[], mine: Keyed[]): Keyed[] {
+  const baseItems = new Map(base.map((item) => [keyOf(item), item]));
+  const theirItems = new Map(theirs.map((item) => [keyOf(item), item]));
+  const mineKeys = new Set(mine.map(keyOf));
+
+  const result = mine
+    .filter((item) => !baseItems.has(keyOf(item)) || theirItems.has(keyOf(item)))
+    .map((item) => {
+      const key = keyOf(item);
+      return baseItems.has(key) && theirItems.has(key)
+        ? (merge3(baseItems.get(key), theirItems.get(key), item) as Keyed)
+        : item;
+    });
+
+  theirs.forEach((item, index) => {
+    const key = keyOf(item);
+    if (baseItems.has(key) || mineKeys.has(key)) return;
+    let at = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const found = result.findIndex((other) => keyOf(other) === keyOf(theirs[i]));
+      if (found !== -1) {
+        at = found + 1;
+        break;
+      }
+    }
+    result.splice(at, 0, item);
+  });
+
+  return result;
+}
+
+/**
+ * Three-way merge of `theirs` and `mine`, both edited from `base`.
+ * `mine` wins where both changed the same value differently.
+ */
+export function merge3(base: unknown, theirs: unknown, mine: unknown): unknown {
+  if (isEqual(theirs, base) || isEqual(mine, theirs)) return mine;
+  if (isEqual(mine, base)) return theirs;
+
+  if (isPlainObject(base) && isPlainObject(theirs) && isPlainObject(mine)) {
+    const b = base as Record<string, unknown>;
+    const t = theirs as Record<string, unknown>;
+    const m = mine as Record<string, unknown>;
+    const merged: Record<string, unknown> = {};
+    for (const key of new Set([...Object.keys(t), ...Object.keys(m)])) {
+      const value = merge3(b[key], t[key], m[key]);
+      if (value !== undefined) merged[key] = value;
+    }
+    return merged;
+  }
+
+  if (isKeyedList(base) && isKeyedList(theirs) && isKeyedList(mine)) {
+    return mergeList(base, theirs, mine);
+  }
+
+  return mine;
+}
+
+/**
+ * Rebase `patches`, made against an older state, onto `state`.
+ *
+ * `prefer` settles true conflicts: "incoming" lets the patches win (the
+ * server applying a client's edit), "current" keeps what `state` has (a
+ * client applying a remote edit under its own unacknowledged ones).
+ * Returned patches carry the value now in `state` as `oldValue`.
+ */
+export function rebasePatches(
+  state: object,
+  patches: Patch[],
+  prefer: RebasePreference = "incoming",
+): Patch[] {
+  const written: string[] = [];
+  const dropped: string[] = [];
+  const result: Patch[] = [];
+
+  for (const patch of patches) {
+    const { path } = patch;
+    if (dropped.some((ancestor) => isUnder(path, ancestor))) continue;
+
+    // Later patches of a batch build on its earlier ones
+    if (written.some((other) => isUnder(path, other) || isUnder(other, path))) {
+      result.push(patch);
+      written.push(path);
+      continue;
+    }
+
+    const lodashPath = toLodashPath(path);
+    const parent = parentPath(path);
+    const exists = has(state, lodashPath);
+    const current = exists ? get(state, lodashPath) : undefined;
+
+    // The clip, track or object the patch edits inside was removed
+    if (parent !== "" && !has(state, toLodashPath(parent))) {
+      dropped.push(path);
+      continue;
+    }
+
+    if (patch.op === "remove") {
+      if (!exists) continue;
+      result.push({ ...patch, oldValue: current });
+      written.push(path);
+      continue;
+    }
+
+    // The value it edits was removed since; updating would bring it back
+    if (!exists && patch.op === "update" && patch.oldValue !== undefined) {
+      dropped.push(path);
+      continue;
+    }
+
+    if (patch.oldValue === undefined || isEqual(current, patch.oldValue)) {
+      if (patch.op === "add" && exists && prefer === "current") continue;
+      result.push(exists ? { ...patch, oldValue: current } : patch);
+      written.push(path);
+      continue;
+    }
+
+    const value =
+      prefer === "incoming"
+        ? merge3(patch.oldValue, current, patch.value)
+        : merge3(patch.oldValue, patch.value, current);
+    if (isEqual(value, current)) continue;
+
+    result.push({ op: "update", path, value, oldValue: current });
+    written.push(path);
+  }
+
+  return result;
+}
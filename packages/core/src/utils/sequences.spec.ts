@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import type { IProject } from "../types";
+import { createProjectStore } from "../project";
+import { openSequenceHandler, closeSequenceHandler } from "../commands/sequence";
+import { removeClipsHandler } from "../commands/clip";
+import { applyPatches } from "./patch";
+import { fromRootPatches, toRootPatches } from "./sequences";
+import { run, text } from "../test-utils";
+
+const settings = { width: 1920, height: 1080, fps: 30, duration: 1_000_000 };
+
+function project(): IProject {
+  return {
+    settings,
+    tracks: [{ id: "t", name: "Text", type: "Text", clipIds: ["root"] }],
+    clips: { root: text("root") },
+    sequences: {
+      intro: {
+        id: "intro",
+        name: "Intro",
+        settings,
+        tracks: [{ id: "it", name: "Text", type: "Text", clipIds: ["inner"] }],
+        clips: { inner: text("inner") },
+      },
+    },
+  };
+}
+
+describe("toRootPatches", () => {
+  it("should pass patches through on the root timeline", () => {
+    const initial = createProjectStore(project()).getState();
+    const { patches, state } = run(initial, removeClipsHandler, { ids: ["root"] });
+    expect(toRootPatches(state, patches)).toBe(patches);
+  });
+
+  it("should send nothing for opening or closing a sequence", () => {
+    const initial = createProjectStore(project()).getState();
+    const opened = run(initial, openSequenceHandler, { id: "intro" });
+    expect(toRootPatches(opened.state, opened.patches)).toEqual([]);
+
+    const closed = run(opened.state, closeSequenceHandler, undefined);
+    expect(toRootPatches(closed.state, closed.patches)).toEqual([]);
+  });
+
+  it("should turn edits inside a sequence into an update of the sequence", () => {
+    const initial = createProjectStore(project()).getState();
+    const { state: opened } = run(initial, openSequenceHandler, { id: "intro" });
+    const { patches, state } = run(opened, removeClipsHandler, { ids: ["inner"] });
+
+    const root = toRootPatches(state, patches);
+    expect(root.map((patch) => patch.path)).toEqual(["/sequences/intro"]);
+    expect(root[0].value.clips).toEqual({});
+    expect(root[0].oldValue.clips).toEqual({ inner: text("inner") });
+  });
+});
+
+describe("fromRootPatches", () => {
+  it("should pass patches through on the root timeline", () => {
+    const state = createProjectStore(project()).getState();
+    const patches = [{ op: "remove" as const, path: "/clips/root" }];
+    expect(fromRootPatches(state, patches)).toBe(patches);
+  });
+
+  it("should apply root edits under an open sequence and keep it open", () => {
+    const initial = createProjectStore(project()).getState();
+    const { state: opened } = run(initial, openSequenceHandler, { id: "intro" });
+
+    const patches = fromRootPatches(opened, [
+      { op: "remove", path: "/clips/root", oldValue: text("root") },
+    ]);
+    const next = { ...opened };
+    applyPatches(next, patches);
+
+    expect(Object.keys(next.clips)).toEqual(["inner"]);
+    expect(next.sequenceStack).toHaveLength(1);
+    expect(next.sequenceStack[0].clips).toEqual({});
+
+    const { state: closed } = run(next, closeSequenceHandler, undefined);
+    expect(closed.clips).toEqual({});
+    expect(Object.keys(closed.sequences!.intro.clips)).toEqual(["inner"]);
+  });
+
+  it("should show remote edits to the open sequence", () => {
+    const initial = createProjectStore(project()).getState();
+    const { state: opened } = run(initial, openSequenceHandler, { id: "intro" });
+    const intro = opened.sequences!.intro;
+
+    const patches = fromRootPatches(opened, [
+      {
+        op: "update",
+        path: "/sequences/intro",
+        value: { ...intro, clips: { ...intro.clips, other: text("other") } },
+        oldValue: intro,
+      },
+    ]);
+    const next = { ...opened };
+    applyPatches(next, patches);
+    expect(Object.keys(next.clips)).toEqual(["inner", "other"]);
+  });
+
+  it("should leave a sequence that was removed remotely", () => {
+    const initial = createProjectStore(project()).getState();
+    const { state: opened } = run(initial, openSequenceHandler, { id: "intro" });
+
+    const patches = fromRootPatches(opened, [
+      { op: "remove", path: "/sequences/intro", oldValue: opened.sequences!.intro },
+    ]);
+    const next = { ...opened };
+    applyPatches(next, patches);
+    expect(next.sequenceStack).toEqual([]);
+    expect(Object.keys(next.clips)).toEqual(["root"]);
+  });
+});
@@ -0,0 +1,127 @@
+import { AnyClip, IProject, ISequence, ISequenceFrame } from "../types";
+import { Patch } from "../commands/types";
+import { applyPatches, invertPatches } from "./patch";
+import { diffProjects } from "./diff";
+
+type SequenceState = Pick<IProject, "settings" | "tracks" | "clips" | "sequences"> & {
+  sequenceStack?: ISequenceFrame[];
+};
+
+type ViewState = SequenceState & Pick<IProject, "easings">;
+
+/** IDs of the sequences placed by Sequence clips in `clips` */
+export function getPlacedSequenceIds(clips: Record<string, AnyClip>): string[] {
+  const ids = new Set<string>();
+  for (const clip of Object.values(clips)) {
+    if (clip.type === "Sequence") ids.add(clip.sequenceId);
+  }
+  return [...ids];
+}
+
+/**
+ * Whether placing sequence `id` would show `target`: it is `target`, or one
+ * of the sequences it places (at any depth) is.
+ */
+export function sequenceContains(
+  sequences: Record<string, ISequence> | undefined,
+  id: string,
+  target: string,
+  seen = new Set<string>(),
+): boolean {
+  if (id === target) return true;
+  if (seen.has(id)) return false;
+  seen.add(id);
+  const sequence = sequences?.[id];
+  if (!sequence) return false;
+  return getPlacedSequenceIds(sequence.clips).some((child) =>
+    sequenceContains(sequences, child, target, seen),
+  );
+}
+
+/**
+ * Whether a clip may go on the current timeline. A Sequence clip may not
+ * place a sequence that is open for editing, or one nesting it, as the
+ * sequence would then contain itself.
+ */
+export function canPlaceClip(state: SequenceState, clip: AnyClip): boolean {
+  if (clip.type !== "Sequence") return true;
+  if (!state.sequences?.[clip.sequenceId]) return false;
+  return !(state.sequenceStack ?? []).some((frame) =>
+    sequenceContains(state.sequences, clip.sequenceId, frame.sequenceId),
+  );
+}
+
+/**
+ * The project as it is with every open sequence closed: the edits of open
+ * sequences are written back to `sequences` and the root timeline restored.
+ */
+export function closeAllSequences(state: SequenceState): Omit<SequenceState, "sequenceStack"> {
+  let { settings, tracks, clips } = state;
+  const sequences = { ...state.sequences };
+  const stack = state.sequenceStack ?? [];
+
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const frame = stack[i];
+    const sequence = sequences[frame.sequenceId];
+    if (sequence) sequences[frame.sequenceId] = { ...sequence, settings, tracks, clips };
+    ({ settings, tracks, clips } = frame);
+  }
+
+  return { settings, tracks, clips, sequences };
+}
+
+function rootOf(state: ViewState): IProject {
+  return { ...closeAllSequences(state), easings: state.easings };
+}
+
+/**
+ * The change `patches` made to `state` as seen from the root timeline, for
+ * collaborators and the server, which never open sequences. Opening or
+ * closing a sequence changes nothing there, and edits made inside one become
+ * an update of that sequence.
+ *
+ * `state` is the state after the patches were applied.
+ */
+export function toRootPatches(state: ViewState, patches: Patch[]): Patch[] {
+  const switched = patches.some((patch) => patch.path === "/sequenceStack");
+  if (!switched && !state.sequenceStack?.length) return patches;
+
+  const before: ViewState = { ...state };
+  applyPatches(before, invertPatches(patches));
+  return diffProjects(rootOf(before), rootOf(state));
+}
+
+/**
+ * Patches that apply root timeline `patches` (from a collaborator or the
+ * server) to `state` while sequences are open. The same sequences stay open
+ * on the updated project, up to one that no longer exists.
+ */
+export function fromRootPatches(state: ViewState, patches: Patch[]): Patch[] {
+  const stack = state.sequenceStack ?? [];
+  if (stack.length === 0 || patches.length === 0) return patches;
+
+  const root = rootOf(state);
+  applyPatches(root, patches);
+
+  let view: Pick<IProject, "settings" | "tracks" | "clips"> = root;
+  const sequenceStack: ISequenceFrame[] = [];
+  for (const { sequenceId } of stack) {
+    const sequence = root.sequences?.[sequenceId];
+    if (!sequence) break;
+    sequenceStack.push({
+      sequenceId,
+      settings: view.settings,
+      tracks: view.tracks,
+      clips: view.clips,
+    });
+    view = sequence;
+  }
+
+  const { settings, tracks, clips } = view;
+  const next = { ...root, settings, tracks, clips, sequenceStack };
+  return (["settings", "tracks", "clips", "easings", "sequences", "sequenceStack"] as const)
+    .filter((key) => next[key] !== state[key])
+    .map(
+      (key): Patch => ({ op: "update", path: `/${key}`, value: next[key], oldValue: state[key] }),
+    );
+}
@@ -0,0 +1,29 @@
+import type { IShapeSettings, IShapeStroke } from "../types";
+
+export const DEFAULT_SHAPE_SETTINGS: IShapeSettings = {
+  kind: "rectangle",
+  fill: "#ffffff",
+  stroke: null,
+  cornerRadius: 0,
+  sides: 6,
+  headSize: 32,
+  trimStart: 0,
+  trimEnd: 1,
+};
+
+/** Stroke given to lines and arrows created without one, since they are never filled */
+export const DEFAULT_SHAPE_STROKE: IShapeStroke = {
+  paint: "#ffffff",
+  width: 8,
+  cap: "round",
+  join: "round",
+};
+
+/** Complete shape settings from a partial one */
+export function createShapeSettings(settings: Partial<IShapeSettings> = {}): IShapeSettings {
+  const shape = { ...DEFAULT_SHAPE_SETTINGS, ...settings };
+  if ((shape.kind === "line" || shape.kind === "arrow") && settings.stroke === undefined) {
+    shape.stroke = { ...DEFAULT_SHAPE_STROKE };
+  }
+  return shape;
+}
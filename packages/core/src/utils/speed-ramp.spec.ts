@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import type { IClipTiming, IKeyframe, IVideoClip } from "../types";
+import type { EasingRegistry } from "../easings";
+import { createProjectStore } from "../project";
+import { setSpeedRampHandler, splitClipHandler } from "../commands/clip";
+import { MAX_SPEED, MIN_SPEED, getSourceOffset, getSpeedAt, getTimelineLength } from "./speed-ramp";
+
+/** Speeds up from 1x to 3x over the first second, then holds */
+const linearRamp: IKeyframe[] = [
+  { id: "a", time: 0, value: 1 },
+  { id: "b", time: 1_000_000, value: 3 },
+];
+
+/** 1 + t² over the first second */
+const easedRamp: IKeyframe[] = [
+  { id: "a", time: 0, value: 1, easing: "easeInQuad" },
+  { id: "b", time: 1_000_000, value: 2 },
+];
+
+const ramped = (speedRamp?: IKeyframe[], playbackRate = 1) => ({ playbackRate, speedRamp });
+
+function videoClip(timing: Partial<IClipTiming>): IVideoClip {
+  return {
+    id: "v",
+    type: "Video",
+    name: "Video",
+    src: "video.mp4",
+    transform: { x: 0, y: 0, width: 1920, height: 1080, angle: 0, zIndex: 0, opacity: 1 },
+    timing: {
+      display: { from: 0, to: 4_000_000 },
+      trim: { from: 1_000_000, to: 5_000_000 },
+      duration: 4_000_000,
+      playbackRate: 1,
+      ...timing,
+    },
+  };
+}
+
+describe("getSpeedAt", () => {
+  it("should follow the ramp and fall back to playbackRate without one", () => {
+    expect(getSpeedAt(ramped(linearRamp), 500_000)).toBe(2);
+    expect(getSpeedAt(ramped(linearRamp), 5_000_000)).toBe(3);
+    expect(getSpeedAt(ramped(undefined, 0.5), 500_000)).toBe(0.5);
+  });
+
+  it("should clamp to the supported speeds", () => {
+    const ramp: IKeyframe[] = [
+      { id: "a", time: 0, value: 0 },
+      { id: "b", time: 1_000_000, value: 100 },
+    ];
+    expect(getSpeedAt(ramped(ramp), 0)).toBe(MIN_SPEED);
+    expect(getSpeedAt(ramped(ramp), 1_000_000)).toBe(MAX_SPEED);
+  });
+});
+
+describe("getSourceOffset", () => {
+  it("should scale by playbackRate without a ramp", () => {
+    expect(getSourceOffset(ramped(undefined, 2), 1_500_000)).toBe(3_000_000);
+  });
+
+  it("should integrate a linear ramp", () => {
+    expect(getSourceOffset(ramped(linearRamp), 500_000)).toBeCloseTo(750_000, 3);
+    expect(getSourceOffset(ramped(linearRamp), 1_000_000)).toBeCloseTo(2_000_000, 3);
+    // Held at 3x after the last keyframe
+    expect(getSourceOffset(ramped(linearRamp), 2_000_000)).toBeCloseTo(5_000_000, 3);
+  });
+
+  it("should integrate an eased ramp", () => {
+    expect(getSourceOffset(ramped(easedRamp), 1_000_000)).toBeCloseTo(4_000_000 / 3, 0);
+    expect(getSourceOffset(ramped(easedRamp), 500_000)).toBeCloseTo(500_000 + 125_000 / 3, 0);
+  });
+
+  it("should extrapolate at the starting speed before the clip", () => {
+    expect(getSourceOffset(ramped(linearRamp), -200_000)).toBe(-200_000);
+  });
+
+  it("should resolve project curves", () => {
+    const ramp: IKeyframe[] = [
+      { id: "a", time: 0, value: 1, easing: "slow-start" },
+      { id: "b", time: 1_000_000, value: 2 },
+    ];
+    const easings: EasingRegistry = {
+      "slow-start": {
+        id: "slow-start",
+        name: "Slow start",
+        curve: { type: "penner", name: "easeInQuad" },
+      },
+    };
+    expect(getSourceOffset(ramped(ramp), 1_000_000, easings)).toBeCloseTo(4_000_000 / 3, 0);
+    // Unknown to other projects, so linear there
+    expect(getSourceOffset(ramped(ramp), 1_000_000)).toBeCloseTo(1_500_000, 0);
+  });
+});
+
+describe("getTimelineLength", () => {
+  it("should invert getSourceOffset", () => {
+    for (const ramp of [linearRamp, easedRamp]) {
+      for (const sourceLength of [300_000, 1_000_000, 4_000_000]) {
+        const length = getTimelineLength(ramped(ramp), sourceLength);
+        expect(Math.abs(getSourceOffset(ramped(ramp), length) - sourceLength)).toBeLessThan(4);
+      }
+    }
+  });
+
+  it("should divide by playbackRate without a ramp", () => {
+    expect(getTimelineLength(ramped(undefined, 4), 2_000_000)).toBe(500_000);
+    expect(getTimelineLength(ramped(linearRamp), 0)).toBe(0);
+  });
+});
+
+describe("speed ramp commands", () => {
+  it("should keep the trimmed source range when a ramp is set", () => {
+    const store = createProjectStore({ clips: { v: videoClip({}) } });
+    const [patch] = setSpeedRampHandler(store.getState(), {
+      id: "c1",
+      type: "clip.setSpeedRamp",
+      payload: { id: "v", keyframes: linearRamp },
+    });
+
+    const timing: IClipTiming = patch.value.timing;
+    expect(timing.trim).toEqual({ from: 1_000_000, to: 5_000_000 });
+    // 2 s of source in the first second, the other 2 s at 3x
+    expect(timing.duration).toBeCloseTo(1_000_000 + 2_000_000 / 3, -1);
+    expect(timing.display.to).toBe(timing.duration);
+  });
+
+  it("should go back to the clip's source length when the ramp is cleared", () => {
+    const clip = videoClip({ speedRamp: linearRamp, duration: 1_666_667 });
+    const store = createProjectStore({ clips: { v: clip } });
+    const [patch] = setSpeedRampHandler(store.getState(), {
+      id: "c1",
+      type: "clip.setSpeedRamp",
+      payload: { id: "v", keyframes: null },
+    });
+    expect(patch.value.timing.speedRamp).toBeUndefined();
+    expect(patch.value.timing.duration).toBe(4_000_000);
+  });
+
+  it("should split a ramped clip where the ramp has played the source", () => {
+    const clip = videoClip({
+      speedRamp: linearRamp,
+      display: { from: 0, to: 1_666_667 },
+      duration: 1_666_667,
+    });
+    const store = createProjectStore({
+      clips: { v: clip },
+      tracks: [{ id: "t", name: "Video", type: "Video", clipIds: ["v"] }],
+    });
+    const [left, right] = splitClipHandler(store.getState(), {
+      id: "c1",
+      type: "clip.split",
+      payload: { id: "v", time: 500_000 },
+    });
+
+    const leftTiming: IClipTiming = left.value.timing;
+    const rightTiming: IClipTiming = right.value.timing;
+    expect(leftTiming.trim.to).toBeCloseTo(1_750_000, 0);
+    expect(rightTiming.trim.from).toBe(leftTiming.trim.to);
+    expect(rightTiming.trim.to).toBe(5_000_000);
+
+    // Each half still plays exactly its own source range
+    for (const timing of [leftTiming, rightTiming]) {
+      const played = getSourceOffset(timing, timing.duration);
+      expect(played).toBeCloseTo(timing.trim.to - timing.trim.from, -1);
+    }
+    expect(getSpeedAt(rightTiming, 0)).toBeCloseTo(2, 9);
+  });
+});
@@ -0,0 +1,76 @@
+import type { IClipTiming } from "../types";
+import type { EasingRegistry } from "../easings";
+import { evaluateKeyframeTrack } from "./keyframes";
+
+/** Slowest and fastest rates a speed ramp may reach */
+export const MIN_SPEED = 0.05;
+export const MAX_SPEED = 16;
+
+/** Simpson steps per keyframe segment; eased curves are smooth, so this is plenty */
+const STEPS = 32;
+
+type RampTiming = Pick<IClipTiming, "playbackRate" | "speedRamp">;
+
+/**
+ * Playback rate at a display-relative time (microseconds), from the speed
+ * ramp when there is one and `playbackRate` otherwise. `easings` are the
+ * project's curves the ramp's keyframes may reference.
+ */
+export function getSpeedAt(timing: RampTiming, time: number, easings?: EasingRegistry): number {
+  const speed =
+    evaluateKeyframeTrack(timing.speedRamp, time, easings) ?? (timing.playbackRate || 1);
+  return Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed));
+}
+
+/**
+ * Source time played after `time` microseconds of the clip, measured from
+ * `trim.from`. With a speed ramp this is the integral of the speed curve.
+ */
+export function getSourceOffset(
+  timing: RampTiming,
+  time: number,
+  easings?: EasingRegistry,
+): number {
+  const ramp = timing.speedRamp;
+  if (!ramp || ramp.length === 0) return time * (timing.playbackRate || 1);
+  if (time <= 0) return time * getSpeedAt(timing, 0, easings);
+
+  // Integrate piecewise between keyframes, where the curve is smooth
+  const bounds = [0, ...ramp.map((k) => k.time).filter((t) => t > 0 && t < time), time];
+  let offset = 0;
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const from = bounds[i];
+    const to = bounds[i + 1];
+    const h = (to - from) / STEPS;
+    let sum = getSpeedAt(timing, from, easings) + getSpeedAt(timing, to, easings);
+    for (let s = 1; s < STEPS; s++) {
+      sum += (s % 2 === 0 ? 2 : 4) * getSpeedAt(timing, from + s * h, easings);
+    }
+    offset += (sum * h) / 3;
+  }
+  return offset;
+}
+
+/**
+ * Timeline length that plays `sourceLength` microseconds of source, the
+ * inverse of {@link getSourceOffset}.
+ */
+export function getTimelineLength(
+  timing: RampTiming,
+  sourceLength: number,
+  easings?: EasingRegistry,
+): number {
+  const ramp = timing.speedRamp;
+  if (!ramp || ramp.length === 0) return sourceLength / (timing.playbackRate || 1);
+  if (sourceLength <= 0) return 0;
+
+  // The offset grows monotonically, so bisect between the slowest and fastest bounds
+  let low = sourceLength / MAX_SPEED;
+  let high = sourceLength / MIN_SPEED;
+  while (high - low > 1) {
+    const mid = (low + high) / 2;
+    if (getSourceOffset(timing, mid, easings) < sourceLength) low = mid;
+    else high = mid;
+  }
+  return Math.round(high);
+}
@@ -0,0 +1,13 @@
+import type { IVisualizerSettings } from "../types";
+
+export const DEFAULT_VISUALIZER_SETTINGS: IVisualizerSettings = {
+  style: "bars",
+  bands: 64,
+  colors: ["#ffffff"],
+  smoothing: 0.5,
+  minFrequency: 40,
+  maxFrequency: 12000,
+  gap: 0.3,
+  lineWidth: 4,
+  mirror: false,
+};
@@ -0,0 +1,5 @@
+ALTER TABLE "space" ADD COLUMN "deletedAt" timestamp;--> statement-breakpoint
+ALTER TABLE "asset" ADD COLUMN IF NOT EXISTS "originalSrc" text;--> statement-breakpoint
+ALTER TABLE "asset" ADD COLUMN "deletedAt" timestamp;--> statement-breakpoint
+CREATE INDEX "space_deletedAt_idx" ON "space" USING btree ("deletedAt");--> statement-breakpoint
+CREATE INDEX "asset_deletedAt_idx" ON "asset" USING btree ("deletedAt");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "space_member" (
+	"id" text PRIMARY KEY NOT NULL,
+	"spaceId" text NOT NULL,
+	"email" text NOT NULL,
+	"userId" text,
+	"role" text DEFAULT 'viewer' NOT NULL,
+	"invitedBy" text,
+	"acceptedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "space_member_spaceId_email_unique" UNIQUE("spaceId","email")
+);
+--> statement-breakpoint
+ALTER TABLE "space_member" ADD CONSTRAINT "space_member_spaceId_space_id_fk" FOREIGN KEY ("spaceId") REFERENCES "public"."space"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "space_member" ADD CONSTRAINT "space_member_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "space_member" ADD CONSTRAINT "space_member_invitedBy_user_id_fk" FOREIGN KEY ("invitedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "space_member_userId_idx" ON "space_member" USING btree ("userId");--> statement-breakpoint
+CREATE INDEX "space_member_email_idx" ON "space_member" USING btree ("email");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "api_token" ADD COLUMN "spaceIds" text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "space_revision" (
+	"id" text PRIMARY KEY NOT NULL,
+	"spaceId" text NOT NULL,
+	"name" text,
+	"kind" text DEFAULT 'auto' NOT NULL,
+	"scene" json NOT NULL,
+	"createdBy" text,
+	"restoredFrom" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "space_revision" ADD CONSTRAINT "space_revision_spaceId_space_id_fk" FOREIGN KEY ("spaceId") REFERENCES "public"."space"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "space_revision" ADD CONSTRAINT "space_revision_createdBy_user_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "space_revision_spaceId_createdAt_idx" ON "space_revision" USING btree ("spaceId","createdAt");
\ No newline at end of file
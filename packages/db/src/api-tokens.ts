@@ -0,0 +1,60 @@
+import { createHash } from "crypto";
+import { eq } from "drizzle-orm";
+import type { DB } from "./client.js";
+import { apiToken } from "./schema/auth.js";
+
+// Scopes an API token can carry. "all" grants everything, including token management.
+// A `:write` scope also grants the matching `:read`.
+export const API_SCOPES = [
+  "all",
+  "spaces:read",
+  "spaces:write",
+  "assets:read",
+  "assets:write",
+  "director:chat",
+  "render:create",
+] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
+
+// What a request authenticated with an API token may do.
+// `spaceIds` is null when the token is not restricted to particular spaces.
+export interface TokenGrant {
+  scopes: string[];
+  spaceIds: string[] | null;
+}
+
+// Parse the comma-separated `scopes` / `spaceIds` columns
+export function parseTokenList(value: string | null | undefined): string[] {
+  return value ? value.split(",").filter(Boolean) : [];
+}
+
+// Whether the granted scopes include `required`
+export function hasScope(granted: readonly string[], required: ApiScope): boolean {
+  if (granted.includes("all") || granted.includes(required)) return true;
+  if (required.endsWith(":read")) {
+    return granted.includes(required.replace(/:read$/, ":write"));
+  }
+  return false;
+}
+
+// Whether a token restricted to `spaceIds` may touch `spaceId`
+export function canAccessSpace(spaceIds: readonly string[] | null | undefined, spaceId: string) {
+  return !spaceIds || spaceIds.includes(spaceId);
+}
+
+// Look up an `ov_live_` token by its hash. Returns null when unknown or expired.
+export async function verifyApiToken(db: DB, token: string) {
+  const tokenHash = createHash("sha256").update(token).digest("hex");
+  const record = await db.query.apiToken.findFirst({ where: eq(apiToken.tokenHash, tokenHash) });
+  if (!record) return null;
+  if (record.expiresAt && new Date() > record.expiresAt) return null;
+
+  await db.update(apiToken).set({ lastUsed: new Date() }).where(eq(apiToken.id, record.id));
+
+  const spaceIds = parseTokenList(record.spaceIds);
+  return {
+    userId: record.userId,
+    scopes: parseTokenList(record.scopes),
+    spaceIds: spaceIds.length > 0 ? spaceIds : null,
+  };
+}
@@ -2,6 +2,29 @@
 export { getDB, getPool, schema } from "./client.js";
 export type { DB } from "./client.js";
 
+// Trash retention and purge
+export { TRASH_RETENTION_DAYS, getPurgeAt, deleteVectors, purgeExpiredTrash } from "./trash.js";
+
+// Space membership and roles
+export {
+  SPACE_ROLES,
+  MEMBER_ROLES,
+  hasSpaceRole,
+  getSpaceAccess,
+  getSpaceIdsWithRole,
+} from "./members.js";
+export type { SpaceRole } from "./members.js";
+
+// API token scopes
+export {
+  API_SCOPES,
+  hasScope,
+  canAccessSpace,
+  parseTokenList,
+  verifyApiToken,
+} from "./api-tokens.js";
+export type { ApiScope, TokenGrant } from "./api-tokens.js";
+
 // Re-export all schema for convenience
 export * from "./schema/index.js";
 export * from "drizzle-orm";
@@ -0,0 +1,59 @@
+import { and, eq, inArray, isNotNull } from "drizzle-orm";
+import type { DB } from "./client.js";
+import { space, spaceMember } from "./schema/project.js";
+
+// Space roles, from least to most access
+export const SPACE_ROLES = ["viewer", "editor", "owner"] as const;
+export type SpaceRole = (typeof SPACE_ROLES)[number];
+
+// Roles a member can be given; only the space's creator owns it
+export const MEMBER_ROLES = ["viewer", "editor"] as const;
+
+// Whether `role` grants at least what `min` does
+export function hasSpaceRole(role: SpaceRole | null | undefined, min: SpaceRole): boolean {
+  if (!role) return false;
+  return SPACE_ROLES.indexOf(role) >= SPACE_ROLES.indexOf(min);
+}
+
+// A user's role in a space: owner for its creator, else their accepted membership.
+// Returns null when the space does not exist or the user has no access.
+export async function getSpaceAccess(db: DB, spaceId: string, userId: string) {
+  const row = await db.query.space.findFirst({ where: eq(space.id, spaceId) });
+  if (!row) return null;
+  if (row.userId === userId) return { space: row, role: "owner" as SpaceRole };
+
+  const member = await db.query.spaceMember.findFirst({
+    where: and(
+      eq(spaceMember.spaceId, spaceId),
+      eq(spaceMember.userId, userId),
+      isNotNull(spaceMember.acceptedAt),
+    ),
+  });
+  if (!member) return null;
+  return { space: row, role: member.role as SpaceRole };
+}
+
+// Ids of the spaces where a user has at least role `min`, trashed ones included
+export async function getSpaceIdsWithRole(
+  db: DB,
+  userId: string,
+  min: SpaceRole,
+): Promise<string[]> {
+  const owned = await db.query.space.findMany({
+    where: eq(space.userId, userId),
+    columns: { id: true },
+  });
+  const roles = MEMBER_ROLES.filter((role) => hasSpaceRole(role, min));
+  const memberships =
+    roles.length > 0
+      ? await db.query.spaceMember.findMany({
+          where: and(
+            eq(spaceMember.userId, userId),
+            isNotNull(spaceMember.acceptedAt),
+            inArray(spaceMember.role, roles),
+          ),
+          columns: { spaceId: true },
+        })
+      : [];
+  return [...owned.map((row) => row.id), ...memberships.map((row) => row.spaceId)];
+}
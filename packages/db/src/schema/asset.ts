@@ -25,6 +25,7 @@ export const asset = pgTable(
     userId: text("userId")
       .notNull()
       .references(() => user.id, { onDelete: "cascade" }),
+    deletedAt: timestamp("deletedAt"), // Set while the asset is in the trash
     createdAt: timestamp("createdAt").defaultNow().notNull(),
     updatedAt: timestamp("updatedAt").defaultNow().notNull(),
   },
@@ -32,6 +33,7 @@ export const asset = pgTable(
     index("asset_spaceId_idx").on(t.spaceId),
     index("asset_orgId_idx").on(t.orgId),
     index("asset_userId_idx").on(t.userId),
+    index("asset_deletedAt_idx").on(t.deletedAt),
   ],
 );
 
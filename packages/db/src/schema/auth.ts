@@ -84,6 +84,7 @@ export const apiToken = pgTable(
       .references(() => user.id, { onDelete: "cascade" }),
     name: text("name"), // "Production", "CI/CD"
     scopes: text("scopes").default("all"),
+    spaceIds: text("spaceIds"), // Comma-separated; null allows every space
     lastUsed: timestamp("lastUsed"),
     expiresAt: timestamp("expiresAt"),
     createdAt: timestamp("createdAt").defaultNow().notNull(),
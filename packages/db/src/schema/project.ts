@@ -1,5 +1,5 @@
 import { relations } from "drizzle-orm";
-import { pgTable, text, timestamp, integer, json, index } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, integer, json, index, unique } from "drizzle-orm/pg-core";
 import { user } from "./auth.js";
 
 export const space = pgTable(
@@ -25,10 +25,15 @@ export const space = pgTable(
       .references(() => user.id, { onDelete: "cascade" }),
     orgId: text("orgId"), // Optional: for future multi-tenancy
     data: json("data").$type<any>(), // Stores any extra metadata
+    deletedAt: timestamp("deletedAt"), // Set while the space is in the trash
     createdAt: timestamp("createdAt").defaultNow().notNull(),
     updatedAt: timestamp("updatedAt").defaultNow().notNull(),
   },
-  (t) => [index("space_userId_idx").on(t.userId), index("space_orgId_idx").on(t.orgId)],
+  (t) => [
+    index("space_userId_idx").on(t.userId),
+    index("space_orgId_idx").on(t.orgId),
+    index("space_deletedAt_idx").on(t.deletedAt),
+  ],
 );
 
 export const directorSession = pgTable(
@@ -54,12 +59,81 @@ export const directorSession = pgTable(
   ],
 );
 
+export const spaceMember = pgTable(
+  "space_member",
+  {
+    id: text("id").primaryKey(),
+    spaceId: text("spaceId")
+      .notNull()
+      .references(() => space.id, { onDelete: "cascade" }),
+    email: text("email").notNull(), // Invited address, matched to the user on accept
+    userId: text("userId").references(() => user.id, { onDelete: "cascade" }),
+    role: text("role").notNull().default("viewer"), // 'owner' | 'editor' | 'viewer'
+    invitedBy: text("invitedBy").references(() => user.id, { onDelete: "set null" }),
+    acceptedAt: timestamp("acceptedAt"), // Null while the invite is pending
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+  },
+  (t) => [
+    unique("space_member_spaceId_email_unique").on(t.spaceId, t.email),
+    index("space_member_userId_idx").on(t.userId),
+    index("space_member_email_idx").on(t.email),
+  ],
+);
+
+export const spaceRevision = pgTable(
+  "space_revision",
+  {
+    id: text("id").primaryKey(),
+    spaceId: text("spaceId")
+      .notNull()
+      .references(() => space.id, { onDelete: "cascade" }),
+    name: text("name"), // Set for manually saved versions
+    kind: text("kind").notNull().default("auto"), // 'auto' | 'plan' | 'manual' | 'restore'
+    scene: json("scene")
+      .$type<{
+        tracks: any[];
+        clips: Record<string, any>;
+        settings?: any;
+      }>()
+      .notNull(),
+    createdBy: text("createdBy").references(() => user.id, { onDelete: "set null" }),
+    restoredFrom: text("restoredFrom"), // Revision a restore copied its scene from
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (t) => [index("space_revision_spaceId_createdAt_idx").on(t.spaceId, t.createdAt)],
+);
+
 export const spaceRelations = relations(space, ({ one, many }) => ({
   user: one(user, {
     fields: [space.userId],
     references: [user.id],
   }),
   directorSessions: many(directorSession),
+  members: many(spaceMember),
+  revisions: many(spaceRevision),
+}));
+
+export const spaceRevisionRelations = relations(spaceRevision, ({ one }) => ({
+  space: one(space, {
+    fields: [spaceRevision.spaceId],
+    references: [space.id],
+  }),
+  author: one(user, {
+    fields: [spaceRevision.createdBy],
+    references: [user.id],
+  }),
+}));
+
+export const spaceMemberRelations = relations(spaceMember, ({ one }) => ({
+  space: one(space, {
+    fields: [spaceMember.spaceId],
+    references: [space.id],
+  }),
+  user: one(user, {
+    fields: [spaceMember.userId],
+    references: [user.id],
+  }),
 }));
 
 export const directorSessionRelations = relations(directorSession, ({ one }) => ({
@@ -0,0 +1,65 @@
+import { and, isNotNull, lt, sql } from "drizzle-orm";
+import type { DB } from "./client.js";
+import { space } from "./schema/project.js";
+import { asset } from "./schema/asset.js";
+
+// Days a trashed space or asset is kept before it is purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When an item trashed at `deletedAt` is purged
+export function getPurgeAt(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+// Drop the search vectors of purged spaces or assets; the cascade does not reach them.
+// Resolves to the error when that failed, for the caller to report; it never rejects
+export async function deleteVectors(
+  db: DB,
+  key: "spaceId" | "assetId",
+  ids: string[],
+): Promise<Error | undefined> {
+  if (ids.length === 0) return undefined;
+  const list = sql.join(
+    ids.map((id) => sql`${id}`),
+    sql`, `,
+  );
+  return db
+    .execute(sql`DELETE FROM langchain_pg_embedding WHERE cmetadata->>${key} IN (${list})`)
+    .then(
+      () => undefined,
+      (err: Error) =>
+        new Error(`Could not delete vectors by ${key}: ${err.message}`, { cause: err }),
+    );
+}
+
+// Permanently delete spaces and assets trashed longer than the retention period.
+// `errors` lists vector deletions that failed; the rows are purged either way
+export async function purgeExpiredTrash(db: DB, now = new Date()) {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+
+  const spaces = await db
+    .delete(space)
+    .where(and(isNotNull(space.deletedAt), lt(space.deletedAt, cutoff)))
+    .returning({ id: space.id });
+  const assets = await db
+    .delete(asset)
+    .where(and(isNotNull(asset.deletedAt), lt(asset.deletedAt, cutoff)))
+    .returning({ id: asset.id });
+
+  const errors = [
+    await deleteVectors(
+      db,
+      "spaceId",
+      spaces.map((row) => row.id),
+    ),
+    await deleteVectors(
+      db,
+      "assetId",
+      assets.map((row) => row.id),
+    ),
+  ].filter((err): err is Error => err !== undefined);
+
+  return { spaces: spaces.length, assets: assets.length, errors };
+}
@@ -1,3 +1,4 @@
+import type { EasingRegistry } from "@openvideo/core";
 import { getEasing } from "./easings";
 import {
   AnimationOptions,
@@ -68,7 +69,7 @@ export class KeyframeAnimation implements IAnimation {
     }
   }
 
-  getTransform(time: number): AnimationTransform {
+  getTransform(time: number, easings?: EasingRegistry): AnimationTransform {
     const { duration, delay, iterCount, easing, disableGlobalEasing } = this.options;
     const offsetTime = time - delay;
 
@@ -76,7 +77,7 @@ export class KeyframeAnimation implements IAnimation {
 
     // If iterCount is finite, the whole animation must finish at precisely 'duration'
     if (iterCount !== Infinity && offsetTime >= duration) {
-      const transform = this.interpolateProps(1);
+      const transform = this.interpolateProps(1, easings);
       // if ('mirror' in transform) {
       //   (transform as any).mirror = 0;
       // }
@@ -87,14 +88,14 @@ export class KeyframeAnimation implements IAnimation {
     let progress = (offsetTime % cycleDuration) / cycleDuration;
 
     if (!disableGlobalEasing && easing !== "linear") {
-      const easingFn = getEasing(easing);
+      const easingFn = getEasing(easing, easings);
       progress = easingFn(progress);
     }
 
-    return this.interpolateProps(progress);
+    return this.interpolateProps(progress, easings);
   }
 
-  private interpolateProps(progress: number): AnimationTransform {
+  private interpolateProps(progress: number, easings?: EasingRegistry): AnimationTransform {
     const idx = this.frames.findIndex((f) => f.progress >= progress);
     if (idx === -1) return this.frames[this.frames.length - 1].props as AnimationTransform;
     if (idx === 0) return this.frames[0].props as AnimationTransform;
@@ -111,7 +112,7 @@ export class KeyframeAnimation implements IAnimation {
     const easingSource =
       endFrame.easing ?? (this.options.disableGlobalEasing ? this.options.easing : "linear");
 
-    const easingFn = getEasing(easingSource);
+    const easingFn = getEasing(easingSource, easings);
 
     const easedProgress = easingFn(segmentProgress);
 
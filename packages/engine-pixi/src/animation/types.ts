@@ -1,3 +1,5 @@
+import type { EasingRegistry } from "@openvideo/core";
+
 export type EasingFunction = (t: number) => number;
 
 export interface AnimationProps {
@@ -34,9 +36,10 @@ export interface IAnimation {
   /**
    * Calculate offsets and multipliers for the given time
    * @param time Relative time from the start of the clip in microseconds
+   * @param easings Project curves that easing IDs may reference
    * @returns Partial state containing offsets/multipliers
    */
-  getTransform(time: number): AnimationTransform;
+  getTransform(time: number, easings?: EasingRegistry): AnimationTransform;
 
   /**
    * Apply complex animations (like GSAP character animations) directly to a target
@@ -129,6 +129,9 @@ export class Audio extends BaseClip implements IPlaybackCapable {
     clip.display.to = timing.display.to;
     clip.duration = timing.duration;
     clip.playbackRate = timing.playbackRate;
+    if (timing.preservePitch !== undefined) clip.timing.preservePitch = timing.preservePitch;
+    if (timing.speedRamp !== undefined) clip.speedRamp = timing.speedRamp;
+    if (timing.reversed !== undefined) clip.reversed = timing.reversed;
     if (timing.fadeIn !== undefined) clip.timing.fadeIn = timing.fadeIn;
     if (timing.fadeOut !== undefined) clip.timing.fadeOut = timing.fadeOut;
 
@@ -238,7 +241,15 @@ export class Audio extends BaseClip implements IPlaybackCapable {
     audio: Float32Array[];
     state: "success" | "done";
   }> {
-    const trimmedTime = time + this.trim.from;
+    // Reversed audio is rendered up front by the Compositor (see createReversedAudio)
+    if (this.reversed) {
+      return await this.tickInterceptor(time, {
+        audio: [new Float32Array(0), new Float32Array(0)],
+        state: "success",
+      });
+    }
+
+    const trimmedTime = time + this.trim.from + this.audioLead;
     const deltaTime = trimmedTime - this.timestamp;
 
     // reset
@@ -320,6 +331,9 @@ export class Audio extends BaseClip implements IPlaybackCapable {
         },
         duration: this.timing.duration,
         playbackRate: this.timing.playbackRate,
+        preservePitch: this.timing.preservePitch,
+        speedRamp: this.timing.speedRamp,
+        reversed: this.timing.reversed,
         fadeIn: this.timing.fadeIn,
         fadeOut: this.timing.fadeOut,
       },
@@ -377,7 +391,7 @@ export class Audio extends BaseClip implements IPlaybackCapable {
 
   async play(element: HTMLVideoElement | HTMLAudioElement, timeSeconds: number): Promise<void> {
     const audio = element as HTMLAudioElement;
-    const trimmedTime = timeSeconds + this.trim.from / 1e6;
+    const trimmedTime = this.getMediaTime(timeSeconds * 1e6) / 1e6;
     // Set time if needed
     if (Math.abs(audio.currentTime - trimmedTime) > 0.1) {
       audio.currentTime = trimmedTime;
@@ -404,13 +418,13 @@ export class Audio extends BaseClip implements IPlaybackCapable {
 
   async seek(element: HTMLVideoElement | HTMLAudioElement, timeSeconds: number): Promise<void> {
     const audio = element as HTMLAudioElement;
-    const trimmedTime = timeSeconds + this.trim.from / 1e6;
+    const trimmedTime = this.getMediaTime(timeSeconds * 1e6) / 1e6;
     audio.pause();
     audio.currentTime = trimmedTime;
 
     // Wait for seek to complete
     return new Promise<void>((resolve) => {
-      if (Math.abs(audio.currentTime - timeSeconds) < 0.01) {
+      if (Math.abs(audio.currentTime - trimmedTime) < 0.01) {
         resolve();
         return;
       }
@@ -434,6 +448,7 @@ export class Audio extends BaseClip implements IPlaybackCapable {
     element: HTMLVideoElement | HTMLAudioElement,
     isPlaying: boolean,
     timeSeconds: number,
+    gain = 1,
   ): void {
     const audio = element as HTMLAudioElement;
     const clipDuration =
@@ -442,7 +457,7 @@ export class Audio extends BaseClip implements IPlaybackCapable {
         : (this.display.to - this.display.from) / 1e6;
     const isWithinClip = timeSeconds >= 0 && timeSeconds < clipDuration;
 
-    const trimmedTime = timeSeconds + this.trim.from / 1e6;
+    const trimmedTime = this.getMediaTime(timeSeconds * 1e6) / 1e6;
     // Compute fade volume multiplier for preview
     const clipDurationMs = clipDuration * 1000;
     const timeMs = timeSeconds * 1000;
@@ -455,19 +470,25 @@ export class Audio extends BaseClip implements IPlaybackCapable {
       fadeMultiplier *= getEaseFactor(
         timeMs / this.timing.fadeIn.duration,
         this.timing.fadeIn.curve,
+        this.easings,
       );
     }
     if (this.timing.fadeOut && this.timing.fadeOut.duration > 0) {
       const fadeOutStartMs = clipDurationMs - this.timing.fadeOut.duration;
       if (timeMs >= fadeOutStartMs) {
         const t = 1.0 - (timeMs - fadeOutStartMs) / this.timing.fadeOut.duration;
-        fadeMultiplier *= getEaseFactor(t, this.timing.fadeOut.curve);
+        fadeMultiplier *= getEaseFactor(t, this.timing.fadeOut.curve, this.easings);
       }
     }
     // Sync volume with fade applied
-    audio.volume = Math.max(0, Math.min(1, this.volume * fadeMultiplier));
-
-    if (isPlaying && isWithinClip) {
+    audio.volume = Math.max(0, Math.min(1, this.volume * fadeMultiplier * gain));
+    // Same rate and pitch handling as the export
+    const rate = this.getPlaybackRateAt(timeSeconds * 1e6);
+    if (audio.playbackRate !== rate) audio.playbackRate = rate;
+    audio.preservesPitch = this.preservePitch;
+
+    // Media elements cannot play backwards, so reversed audio is silent in preview
+    if (isPlaying && isWithinClip && !this.reversed) {
       // Should be playing
       if (audio.paused) {
         this.play(audio, timeSeconds).catch(console.warn);
@@ -1,8 +1,19 @@
 import { Log } from "../utils/log";
 import { BaseSprite, BaseSpriteEvents } from "../sprite/base-sprite";
-import { changePCMPlaybackRate } from "../utils";
-import type { IClip, IClipMeta, ITransitionInfo } from "./iclip";
+import { TimeStretcher, changePCMPlaybackRate } from "../utils";
+import { DEFAULT_AUDIO_CONF, type IClip, type IClipMeta, type ITransitionInfo } from "./iclip";
 import type { ClipJSON } from "../json-serialization";
+import type { EasingId, IKeyframe } from "@openvideo/core";
+
+/** Extend planar PCM with silence to `length` samples per channel */
+function padAudio(audio: Float32Array[], length: number, channels: number): Float32Array[] {
+  if ((audio[0]?.length ?? 0) >= length) return audio;
+  return Array.from({ length: audio.length || channels }, (_, ch) => {
+    const padded = new Float32Array(length);
+    if (audio[ch] != null) padded.set(audio[ch]);
+    return padded;
+  });
+}
 
 /** Convert a VideoFrame to ImageBitmap and release the frame. */
 async function videoFrameToImageBitmap(video: VideoFrame): Promise<ImageBitmap> {
@@ -43,6 +54,12 @@ export abstract class BaseClip<T extends BaseSpriteEvents = BaseSpriteEvents>
   // Store as ImageBitmap for reusability (VideoFrames cannot be reused after close)
   private lastVf: ImageBitmap | null = null;
 
+  // Keeps WSOLA state between ticks so stretched audio stays continuous
+  private stretcher: TimeStretcher | null = null;
+  private lastAudioTime = -1;
+  /** Media time of the last tick, to tell how much audio it should have read */
+  private lastMediaTime = -1;
+
   protected destroyed = false;
 
   /**
@@ -98,13 +115,9 @@ export abstract class BaseClip<T extends BaseSpriteEvents = BaseSpriteEvents>
   }> {
     // Note: animate() is called by Compositor before getFrame(), so we don't call it here
     // to avoid applying playback rate twice
-    const timestamp = time * this.playbackRate;
-    const { video, audio, state } = await this.tick(timestamp);
+    const { video, audio, state } = await this.tick(this.getMediaTime(time) - this.trim.from);
 
-    let outAudio = audio ?? [];
-    if (audio != null && this.playbackRate !== 1) {
-      outAudio = audio.map((pcm) => changePCMPlaybackRate(pcm, this.playbackRate));
-    }
+    const outAudio = this.applyPlaybackRate(audio ?? [], time);
 
     // Always hand ImageBitmap to renderers. VideoFrames are single-use and
     // Texture.from() may upload asynchronously; closing the VideoFrame early
@@ -134,6 +147,58 @@ export abstract class BaseClip<T extends BaseSpriteEvents = BaseSpriteEvents>
     };
   }
 
+  /**
+   * Whether tick audio is time-stretched: {@link preservePitch} is on and the
+   * clip plays at a rate other than 1 at some point
+   */
+  protected get stretchesAudio(): boolean {
+    return (
+      this.preservePitch && !this.reversed && (this.speedRamp != null || this.playbackRate !== 1)
+    );
+  }
+
+  /**
+   * How far ahead of the tick time tick() reads audio, in microseconds.
+   * Time-stretched audio is read {@link TimeStretcher.lookahead} ahead, so the
+   * stretcher's look-ahead does not make it late.
+   */
+  protected get audioLead(): number {
+    if (!this.stretchesAudio) return 0;
+    return (TimeStretcher.lookahead / DEFAULT_AUDIO_CONF.sampleRate) * 1e6;
+  }
+
+  /**
+   * Bring tick audio to the clip's playback rate: time-stretched when
+   * {@link preservePitch} is on, resampled (pitch follows the rate) otherwise.
+   * With a speed ramp the rate at the tick time is used for the whole chunk.
+   * @param time Timeline time of the tick, used to detect seeks
+   */
+  private applyPlaybackRate(audio: Float32Array[], time: number): Float32Array[] {
+    const lastTime = this.lastAudioTime;
+    const lastMediaTime = this.lastMediaTime;
+    this.lastAudioTime = time;
+    this.lastMediaTime = this.getMediaTime(time);
+    const rate = this.getPlaybackRateAt(time);
+    if (!this.stretchesAudio) {
+      if (audio.length === 0 || rate === 1) return audio;
+      return audio.map((pcm) => changePCMPlaybackRate(pcm, rate));
+    }
+
+    // Same seek heuristic as the clips' tick(): going back or jumping ahead over 3s
+    const { channelCount, sampleRate } = DEFAULT_AUDIO_CONF;
+    if (this.stretcher == null) {
+      this.stretcher = new TimeStretcher(channelCount);
+    } else if (time < lastTime || time - lastTime > 3e6) {
+      this.stretcher.reset();
+    } else {
+      // Past the end of the source the look-ahead reads nothing; silence in
+      // its place lets the stretcher release the clip's tail
+      const expected = Math.ceil(((this.lastMediaTime - lastMediaTime) / 1e6) * sampleRate);
+      audio = padAudio(audio, expected, channelCount);
+    }
+    return this.stretcher.process(audio, rate);
+  }
+
   /**
    * Draw image at specified time to canvas context and return corresponding audio data
    * @param time Specified time in microseconds
@@ -145,15 +210,11 @@ export abstract class BaseClip<T extends BaseSpriteEvents = BaseSpriteEvents>
     audio: Float32Array[];
     done: boolean;
   }> {
-    const timestamp = time * this.playbackRate;
-    this.animate(timestamp);
+    this.animate(this.getSourceTime(time));
     super._render(ctx);
     const { width: w, height: h } = this;
-    const { video, audio, state } = await this.tick(timestamp);
-    let outAudio = audio ?? [];
-    if (audio != null && this.playbackRate !== 1) {
-      outAudio = audio.map((pcm) => changePCMPlaybackRate(pcm, this.playbackRate));
-    }
+    const { video, audio, state } = await this.tick(this.getMediaTime(time) - this.trim.from);
+    const outAudio = this.applyPlaybackRate(audio ?? [], time);
 
     if (state === "done") {
       return {
@@ -276,13 +337,16 @@ export abstract class BaseClip<T extends BaseSpriteEvents = BaseSpriteEvents>
         };
         duration?: number;
         playbackRate?: number;
+        preservePitch?: boolean;
+        speedRamp?: IKeyframe[] | null;
+        reversed?: boolean;
         fadeIn?: {
           duration: number;
-          curve?: "linear" | "ease-in" | "ease-out" | "ease-in-out";
+          curve?: EasingId;
         };
         fadeOut?: {
           duration: number;
-          curve?: "linear" | "ease-in" | "ease-out" | "ease-in-out";
+          curve?: EasingId;
         };
       };
     },
@@ -311,6 +375,15 @@ export abstract class BaseClip<T extends BaseSpriteEvents = BaseSpriteEvents>
       if (props.timing.playbackRate !== undefined) {
         this.timing.playbackRate = props.timing.playbackRate;
       }
+      if (props.timing.preservePitch !== undefined) {
+        this.timing.preservePitch = props.timing.preservePitch;
+      }
+      if (props.timing.speedRamp !== undefined) {
+        this.speedRamp = props.timing.speedRamp ?? undefined;
+      }
+      if (props.timing.reversed !== undefined) {
+        this.reversed = props.timing.reversed;
+      }
       if (props.timing.fadeIn !== undefined) {
         this.timing.fadeIn = props.timing.fadeIn;
       }
@@ -400,6 +473,9 @@ export abstract class BaseClip<T extends BaseSpriteEvents = BaseSpriteEvents>
         },
         duration: this.timing.duration,
         playbackRate: this.timing.playbackRate,
+        preservePitch: this.timing.preservePitch,
+        speedRamp: this.timing.speedRamp,
+        reversed: this.timing.reversed,
         fadeIn: this.timing.fadeIn,
         fadeOut: this.timing.fadeOut,
       },
@@ -416,9 +492,14 @@ export abstract class BaseClip<T extends BaseSpriteEvents = BaseSpriteEvents>
       style,
       ...(animation && { animation }),
       ...(animations.length > 0 && { animations }),
+      ...(Object.keys(this.keyframes).length > 0 && { keyframes: this.keyframes }),
       ...(main && { main: true }),
       chromaKey: this.chromaKey,
       colorAdjustment: this.colorAdjustment,
+      ...(this.lut && { lut: this.lut }),
+      ...(this.mask && { mask: this.mask }),
+      ...(this.trackMatte && { trackMatte: this.trackMatte }),
+      ...(this.blendMode !== "normal" && { blendMode: this.blendMode }),
       locked: this.locked,
       metadata: this.metadata,
     } as ClipJSON;
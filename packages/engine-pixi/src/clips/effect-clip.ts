@@ -2,6 +2,7 @@ import { BaseClip } from "./base-clip";
 import { type IClip } from "./iclip";
 import { type EffectKey } from "../effect/glsl/gl-effect";
 import { camelToWords } from "../utils/effect";
+import { evaluateKeyframes } from "@openvideo/core";
 
 // Since Effect is an adjustment layer, it doesn't render visual content directly.
 // We can use a minimal dummy implementation for BaseClip abstract methods.
@@ -35,6 +36,18 @@ export class Effect extends BaseClip {
    */
   values: Record<string, any> = {};
 
+  /**
+   * Effect values with keyframed `values.<key>` tracks sampled at a display-relative time
+   */
+  getValuesAt(relativeTime: number): Record<string, any> {
+    const values = { ...this.values };
+    const sampled = evaluateKeyframes(this.keyframes, relativeTime, this.easings);
+    for (const [property, value] of Object.entries(sampled)) {
+      if (property.startsWith("values.")) values[property.slice("values.".length)] = value;
+    }
+    return values;
+  }
+
   constructor(effectKey: EffectKey) {
     super();
     this.effectKey = effectKey;
@@ -88,6 +101,7 @@ export class Effect extends BaseClip {
       },
       effectKey: this.effectKey,
       values: this.values,
+      keyframes: this.keyframes,
     };
   }
 
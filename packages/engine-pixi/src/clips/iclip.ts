@@ -1,3 +1,4 @@
+import type { EasingRegistry } from "@openvideo/core";
 import type { BaseSprite, BaseSpriteEvents } from "../sprite/base-sprite";
 import { getDefaultAudioCodec, getCachedAudioCodec } from "../utils/audio-codec-detector";
 import { ColorAdjustment } from "../utils/color-adjustment";
@@ -17,6 +18,8 @@ export interface ITransitionInfo {
   toClipId?: string;
   start?: number;
   end?: number;
+  /** Easing catalog ID applied to the transition progress */
+  easing?: string;
 }
 
 export interface IChromaKeyOpts {
@@ -26,6 +29,69 @@ export interface IChromaKeyOpts {
   spill: number;
 }
 
+export interface ILutOpts {
+  /** URL of a `.cube` file */
+  src: string;
+  /** Mix with the ungraded image, 0 to 1 */
+  intensity?: number;
+  enabled?: boolean;
+}
+
+/** A polygon or path vertex, offset from the mask centre in fractions of the clip size */
+export interface IMaskPointOpts {
+  x: number;
+  y: number;
+  /** Bezier handles relative to the vertex */
+  in?: { x: number; y: number };
+  out?: { x: number; y: number };
+}
+
+export interface IClipMaskOpts {
+  enabled?: boolean;
+  shape: "rectangle" | "ellipse" | "polygon" | "path";
+  /** Centre in fractions of the clip size */
+  x: number;
+  y: number;
+  /** Rectangle and ellipse size in fractions of the clip size */
+  width: number;
+  height: number;
+  /** Rectangle corner radius in pixels */
+  radius?: number;
+  points?: IMaskPointOpts[];
+  /** Soft edge in pixels */
+  feather: number;
+  /** Grow (positive) or shrink (negative) the shape, in pixels */
+  expansion: number;
+  invert: boolean;
+}
+
+/** How a clip's pixels combine with the layers under it */
+export type ClipBlendMode =
+  | "normal"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "soft-light"
+  | "hard-light"
+  | "add"
+  | "darken"
+  | "lighten"
+  | "difference"
+  | "exclusion"
+  | "color-dodge"
+  | "color-burn"
+  | "linear-burn"
+  | "saturation"
+  | "color"
+  | "luminosity";
+
+export interface ITrackMatteOpts {
+  /** ID of the clip whose pixels are the matte */
+  sourceId: string;
+  mode: "alpha" | "luma";
+  invert?: boolean;
+}
+
 /**
  * Interface that all clips must implement
  *
@@ -197,6 +263,37 @@ export interface IClip<T extends BaseSpriteEvents = BaseSpriteEvents> extends Om
    */
   colorAdjustment: ColorAdjustment;
 
+  /**
+   * 3D LUT applied after the colour adjustment
+   */
+  lut: ILutOpts | null;
+
+  /**
+   * Shape mask in clip space
+   */
+  mask: IClipMaskOpts | null;
+
+  /**
+   * The mask with `mask.x`/`mask.y` keyframes applied for the current frame
+   */
+  readonly renderMask: IClipMaskOpts | null;
+
+  /**
+   * Another clip whose alpha or luma masks this one
+   */
+  trackMatte: ITrackMatteOpts | null;
+
+  /**
+   * How the clip combines with the layers under it
+   */
+  blendMode: ClipBlendMode;
+
+  /**
+   * Project easing curves this clip's keyframes, fades and transition may
+   * reference by ID. Set by the Studio or Compositor that owns the clip
+   */
+  easings: EasingRegistry;
+
   /**
    * Whether the clip is locked (preventing interactions)
    */
@@ -242,11 +339,13 @@ export interface IPlaybackCapable {
    * @param element The HTML media element
    * @param isPlaying Whether playback should be active
    * @param timeSeconds Current time in seconds (relative to clip start)
+   * @param gain Extra volume multiplier, e.g. from ducking
    */
   syncPlayback(
     element: HTMLVideoElement | HTMLAudioElement,
     isPlaying: boolean,
     timeSeconds: number,
+    gain?: number,
   ): void;
 
   /**
@@ -2,8 +2,10 @@ import { Texture } from "pixi.js";
 import { Log } from "../utils/log";
 import { decodeImg } from "../utils";
 import { BaseClip } from "./base-clip";
+import { Video } from "./video-clip";
 import { type IClip } from "./iclip";
 import { type ClipJSON, type ImageJSON } from "../json-serialization";
+import type { IFreezeFrame } from "@openvideo/core";
 import { ResourceManager } from "../studio/resource-manager";
 
 type AnimateImgType = "avif" | "webp" | "png" | "gif";
@@ -59,6 +61,11 @@ export class Image extends BaseClip implements IClip {
 
   private frames: VideoFrame[] = [];
 
+  /**
+   * Set when the image is a still taken from the video at `src`
+   */
+  freezeFrame?: IFreezeFrame;
+
   /**
    * Unique identifier for this clip instance
    */
@@ -130,6 +137,32 @@ export class Image extends BaseClip implements IClip {
     return clip;
   }
 
+  /**
+   * Capture a still from a video as a freeze frame
+   *
+   * @param url Video URL
+   * @param time Source time of the frame in microseconds
+   *
+   * @example
+   * const still = await Image.fromVideoFrame('path/to/video.mp4', 2e6);
+   */
+  static async fromVideoFrame(url: string, time: number): Promise<Image> {
+    const video = await Video.fromUrl(url);
+    try {
+      const { video: frame } = await video.tick(Math.min(time, video.meta.duration));
+      if (frame == null) {
+        throw new Error(`No video frame at ${time} in ${url}`);
+      }
+      const bitmap = await createImageBitmap(frame);
+      frame.close();
+      const clip = new Image(bitmap, url);
+      clip.freezeFrame = { time };
+      return clip;
+    } finally {
+      video.destroy();
+    }
+  }
+
   /**
    * Get the PixiJS Texture (if available)
    * This is used for optimized rendering in Studio
@@ -302,6 +335,7 @@ export class Image extends BaseClip implements IClip {
     newClip.id = this.id;
     newClip.effects = [...this.effects];
     newClip.transition = this.transition;
+    newClip.freezeFrame = this.freezeFrame;
     return newClip;
   }
 
@@ -348,6 +382,7 @@ export class Image extends BaseClip implements IClip {
       type: "Image",
       id: this.id,
       effects: this.effects,
+      ...(this.freezeFrame && { freezeFrame: { ...this.freezeFrame } }),
     } as ImageJSON;
   }
 
@@ -368,8 +403,12 @@ export class Image extends BaseClip implements IClip {
 
     let clip: Image;
     try {
-      const bitmap = await ResourceManager.getImageBitmap(json.src);
-      clip = new Image(bitmap, json.src);
+      if (json.freezeFrame) {
+        clip = await Image.fromVideoFrame(json.src, json.freezeFrame.time);
+      } else {
+        const bitmap = await ResourceManager.getImageBitmap(json.src);
+        clip = new Image(bitmap, json.src);
+      }
     } catch (error) {
       if (error instanceof Error && error.message.includes("could not be decoded")) {
         throw new Error(
@@ -436,6 +475,9 @@ export class Image extends BaseClip implements IClip {
         ...(json as any).colorAdjustment,
       };
     }
+    if (json.lut) {
+      clip.lut = { ...json.lut };
+    }
 
     if (json.locked !== undefined) {
       clip.locked = json.locked;
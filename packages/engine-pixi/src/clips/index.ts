@@ -14,3 +14,9 @@ export * from "./placeholder-clip";
 export { Placeholder } from "./placeholder-clip";
 export * from "./transition-clip";
 export { Transition } from "./transition-clip";
+export * from "./sequence-clip";
+export { Sequence } from "./sequence-clip";
+export * from "./visualizer-clip";
+export { Visualizer } from "./visualizer-clip";
+export * from "./shape-clip";
+export { Shape } from "./shape-clip";
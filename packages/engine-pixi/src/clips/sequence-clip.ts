@@ -0,0 +1,233 @@
+import { Log } from "../utils/log";
+import { BaseClip } from "./base-clip";
+import { type IClip } from "./iclip";
+import { Compositor } from "../compositor";
+import {
+  type ClipJSON,
+  type SequenceDefinitionJSON,
+  type SequenceJSON,
+} from "../json-serialization";
+
+/**
+ * Sequence clip: a sub-timeline (its own tracks, clips and settings) shown as
+ * one layer, with its own transform, trim, animations and effects.
+ *
+ * Frames come from a nested {@link Compositor} at the sequence's frame size,
+ * created on the first tick so instances that are never rendered stay cheap.
+ * Its audio is mixed through the sequence's tracks and returned for export;
+ * the Studio preview plays the picture only.
+ *
+ * @example
+ * const intro = await Sequence.fromObject({
+ *   type: 'Sequence',
+ *   sequenceId: 'intro',
+ *   sequence: project.sequences.intro,
+ * });
+ */
+export class Sequence extends BaseClip implements IClip {
+  readonly type = "Sequence";
+  ready: IClip["ready"];
+
+  private _meta = {
+    duration: 0,
+    width: 0,
+    height: 0,
+  };
+
+  get meta() {
+    return { ...this._meta };
+  }
+
+  /**
+   * Unique identifier for this clip instance
+   */
+  id: string = `clip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  /**
+   * ID of the sequence in the project
+   */
+  sequenceId: string;
+
+  /**
+   * The sub-timeline, with the sequences it places inlined
+   */
+  readonly sequence: SequenceDefinitionJSON;
+
+  /**
+   * Array of effects to be applied to this clip
+   */
+  effects: Array<{
+    id: string;
+    key: string;
+    startTime: number;
+    duration: number;
+  }> = [];
+
+  private compositor: Promise<Compositor> | null = null;
+
+  constructor(sequence: SequenceDefinitionJSON) {
+    super();
+    this.sequence = sequence;
+    this.sequenceId = sequence.id;
+    this.name = sequence.name;
+
+    const { width, height, duration } = sequence.settings;
+    this._meta = { width, height, duration };
+    this.width = width;
+    this.height = height;
+    this.duration = duration;
+    this.display.to = this.display.from + duration;
+    this.trim = { from: 0, to: duration };
+    this.ready = Promise.resolve(this.meta);
+  }
+
+  private getCompositor(): Promise<Compositor> {
+    if (this.compositor == null) {
+      const { settings, tracks, clips } = this.sequence;
+      const compositor = new Compositor({
+        width: settings.width,
+        height: settings.height,
+        fps: settings.fps,
+        backgroundColor: settings.backgroundColor ?? "transparent",
+        ducking: settings.ducking,
+      });
+      this.compositor = compositor.loadFromJSON({ settings, tracks, clips }).then(() => compositor);
+    }
+    return this.compositor;
+  }
+
+  /**
+   * Render the sequence at a time from the trim start
+   * @param time Time in microseconds
+   */
+  async tick(time: number): Promise<{
+    video: ImageBitmap | null;
+    audio: Float32Array[];
+    state: "done" | "success";
+  }> {
+    const sequenceTime = this.trim.from + time;
+    if (sequenceTime >= this._meta.duration) {
+      return { video: null, audio: [], state: "done" };
+    }
+    const compositor = await this.getCompositor();
+    const { video, audio } = await compositor.renderLayer(sequenceTime);
+    return { video, audio, state: "success" };
+  }
+
+  async split(time: number): Promise<[this, this]> {
+    const offset = this.getSourceTime(time);
+    const first = await this.clone();
+    const second = await this.clone();
+    first.display.to = first.display.from + time;
+    first.duration = time;
+    first.trim = { from: this.trim.from, to: this.trim.from + offset };
+    second.display.from = this.display.from + time;
+    second.duration = this.duration - time;
+    second.trim = { from: this.trim.from + offset, to: this.trim.to };
+    return [first, second];
+  }
+
+  async clone() {
+    const newClip = new Sequence(this.sequence) as this;
+    this.copyStateTo(newClip);
+    newClip.id = this.id;
+    newClip.effects = [...this.effects];
+    newClip.transition = this.transition;
+    return newClip;
+  }
+
+  destroy(): void {
+    if (this.destroyed) return;
+    Log.info("Sequence destroy");
+    this.compositor?.then((compositor) => compositor.destroy()).catch(() => {});
+    this.compositor = null;
+    super.destroy();
+  }
+
+  toJSON(main: boolean = false): SequenceJSON {
+    const base = super.toJSON(main);
+    return {
+      ...base,
+      type: "Sequence",
+      id: this.id,
+      sequenceId: this.sequenceId,
+      sequence: this.sequence,
+      effects: this.effects,
+    } as SequenceJSON;
+  }
+
+  /**
+   * Create a Sequence instance from a JSON object (fabric.js pattern).
+   * The sequence must be inlined (see resolveSequenceJSON).
+   * @param json The JSON object representing the clip
+   * @returns Promise that resolves to a Sequence instance
+   */
+  static async fromObject(json: ClipJSON): Promise<Sequence> {
+    if (json.type !== "Sequence") {
+      throw new Error(`Expected Sequence, got ${json.type}`);
+    }
+    if (!json.sequence) {
+      throw new Error(`Sequence ${json.sequenceId} is not in the project`);
+    }
+
+    const clip = new Sequence(json.sequence);
+
+    if (json.transform) {
+      clip.left = json.transform.x;
+      clip.top = json.transform.y;
+      clip.width = json.transform.width;
+      clip.height = json.transform.height;
+      clip.angle = json.transform.angle;
+      clip.zIndex = json.transform.zIndex;
+      clip.opacity = json.transform.opacity;
+      clip.flip = json.transform.flip ?? null;
+    }
+
+    if (json.timing) {
+      clip.display.from = json.timing.display.from;
+      clip.display.to = json.timing.display.to;
+      clip.duration = json.timing.duration;
+      clip.playbackRate = json.timing.playbackRate;
+      if (json.timing.trim) clip.trim = { ...json.timing.trim };
+      if (json.timing.fadeIn) clip.timing.fadeIn = json.timing.fadeIn;
+      if (json.timing.fadeOut) clip.timing.fadeOut = json.timing.fadeOut;
+    }
+
+    if (json.style) {
+      clip.style = { ...clip.style, ...json.style };
+    }
+
+    if (json.animation) {
+      clip.setAnimation(json.animation.keyFrames, json.animation.options);
+    }
+
+    if (json.id) {
+      clip.id = json.id;
+    }
+    if (json.effects) {
+      clip.effects = json.effects;
+    }
+    if (json.transition) {
+      clip.transition = json.transition;
+    }
+
+    if ((json as any).chromaKey) {
+      clip.chromaKey = { ...clip.chromaKey, ...(json as any).chromaKey };
+    }
+    if ((json as any).colorAdjustment) {
+      clip.colorAdjustment = {
+        ...clip.colorAdjustment,
+        ...(json as any).colorAdjustment,
+      };
+    }
+    if (json.lut) {
+      clip.lut = { ...json.lut };
+    }
+
+    if (json.locked !== undefined) {
+      clip.locked = json.locked;
+    }
+
+    return clip;
+  }
+}
@@ -36,6 +36,11 @@ export class Transition extends BaseClip {
    */
   toClipId: string | null = null;
 
+  /**
+   * Easing catalog ID applied to the transition progress
+   */
+  easing?: string;
+
   constructor(transitionKey: TransitionKey) {
     super();
     this.transitionKey = transitionKey;
@@ -50,6 +55,7 @@ export class Transition extends BaseClip {
     this.copyStateTo(newClip);
     newClip.fromClipId = this.fromClipId;
     newClip.toClipId = this.toClipId;
+    newClip.easing = this.easing;
     return newClip as this;
   }
 
@@ -90,6 +96,7 @@ export class Transition extends BaseClip {
       transitionKey: this.transitionKey,
       fromClipId: this.fromClipId,
       toClipId: this.toClipId,
+      ...(this.easing && { easing: this.easing }),
     };
   }
 
@@ -109,6 +116,7 @@ export class Transition extends BaseClip {
     const clip = new Transition(key);
     clip.fromClipId = json.fromClipId || null;
     clip.toClipId = json.toClipId || null;
+    clip.easing = json.easing;
 
     const timing = json.timing || {
       display: json.display || { from: 0, to: 0 },
@@ -8,6 +8,7 @@ import {
   quickParseMP4File,
 } from "../mp4-utils/mp4box-utils";
 import { audioResample, extractPCM4AudioData, sleep, getEaseFactor } from "../utils";
+import { getTimelineLength } from "@openvideo/core";
 import { BaseClip } from "./base-clip";
 import { DEFAULT_AUDIO_CONF, type IClip, type IPlaybackCapable } from "./iclip";
 import { type VideoJSON } from "../json-serialization";
@@ -126,6 +127,8 @@ export class Video extends BaseClip implements IPlaybackCapable {
 
   private videoFrameFinder: VideoFrameFinder | null = null;
   private audioFrameFinder: AudioFrameFinder | null = null;
+  // Created on first reversed tick, see ReverseFrameFinder
+  private reverseFrameFinder: ReverseFrameFinder | null = null;
 
   private decoderConf: {
     video: VideoDecoderConfig | null;
@@ -284,7 +287,11 @@ export class Video extends BaseClip implements IPlaybackCapable {
       // Ensure trim.from is also valid
       this.trim.from = Math.min(this.trim.from, this.trim.to);
 
-      const effectiveDuration = (this.trim.to - this.trim.from) / this.playbackRate;
+      const effectiveDuration = getTimelineLength(
+        this.timing,
+        this.trim.to - this.trim.from,
+        this.easings,
+      );
       this.duration = this.duration === 0 ? effectiveDuration : this.duration;
 
       // Display check: if duration was 0 or incorrect from placeholder, sync it
@@ -329,13 +336,25 @@ export class Video extends BaseClip implements IPlaybackCapable {
     const trimmedTime = time + this.trim.from;
     if (trimmedTime > this.trim.to || trimmedTime > this._meta.duration) {
       return await this.tickInterceptor(time, {
-        audio: (await this.audioFrameFinder?.find(trimmedTime)) ?? [],
+        audio: (await this.audioFrameFinder?.find(trimmedTime + this.audioLead)) ?? [],
         state: "done",
       });
     }
 
+    if (this.reversed) {
+      // Time runs backwards towards trim.from; reversed audio is rendered up
+      // front by the Compositor (see createReversedAudio)
+      if (time < 0) return await this.tickInterceptor(time, { audio: [], state: "done" });
+      const video = await this.getReverseFrameFinder()?.find(trimmedTime).then(this.vfRotater);
+      return await this.tickInterceptor(time, {
+        ...(video != null && { video }),
+        audio: [],
+        state: "success",
+      });
+    }
+
     const [audio, video] = await Promise.all([
-      this.audioFrameFinder?.find(trimmedTime) ?? [],
+      this.audioFrameFinder?.find(trimmedTime + this.audioLead) ?? [],
       this.videoFrameFinder?.find(trimmedTime).then(this.vfRotater),
     ]);
 
@@ -352,6 +371,18 @@ export class Video extends BaseClip implements IPlaybackCapable {
       state: "success",
     });
   }
+
+  private getReverseFrameFinder(): ReverseFrameFinder | null {
+    const conf = this.decoderConf.video;
+    if (this.reverseFrameFinder == null && conf != null && this.videoSamples.length > 0) {
+      this.reverseFrameFinder = new ReverseFrameFinder(this.localFile, this.videoSamples, {
+        ...conf,
+        hardwareAcceleration: this.opts.__unsafe_hardwareAcceleration__,
+      });
+    }
+    return this.reverseFrameFinder;
+  }
+
   // Effects
   addEffect(effect: { id: string; key: string; startTime: number; duration: number }) {
     this.effects.push(effect);
@@ -409,6 +440,29 @@ export class Video extends BaseClip implements IPlaybackCapable {
     return clip as this;
   }
 
+  /**
+   * Clone without the video track, for audio-only passes such as loudness analysis
+   */
+  async cloneAudioOnly() {
+    await this.ready;
+    const clip = new Video(
+      {
+        localFile: this.localFile,
+        videoSamples: [],
+        audioSamples: [...this.audioSamples],
+        decoderConf: { video: null, audio: this.decoderConf.audio },
+        headerBoxPos: this.headerBoxPos,
+        parsedMatrix: this.parsedMatrix,
+      },
+      this.opts,
+      this.src,
+    );
+    await clip.ready;
+    this.copyStateTo(clip);
+    clip.id = this.id;
+    return clip as this;
+  }
+
   destroy(): void {
     if (this.destroyed) return;
     this.destroyed = true;
@@ -417,6 +471,7 @@ export class Video extends BaseClip implements IPlaybackCapable {
 
     this.videoFrameFinder?.destroy();
     this.audioFrameFinder?.destroy();
+    this.reverseFrameFinder?.destroy();
   }
 
   toJSON(main: boolean = false): VideoJSON {
@@ -474,6 +529,9 @@ export class Video extends BaseClip implements IPlaybackCapable {
     clip.display.to = timing.display.to;
     clip.duration = timing.duration;
     clip.playbackRate = timing.playbackRate;
+    if (timing.preservePitch !== undefined) clip.timing.preservePitch = timing.preservePitch;
+    if (timing.speedRamp !== undefined) clip.speedRamp = timing.speedRamp;
+    if (timing.reversed !== undefined) clip.reversed = timing.reversed;
     if (timing.fadeIn !== undefined) clip.timing.fadeIn = timing.fadeIn;
     if (timing.fadeOut !== undefined) clip.timing.fadeOut = timing.fadeOut;
 
@@ -518,6 +576,9 @@ export class Video extends BaseClip implements IPlaybackCapable {
         ...(json as any).colorAdjustment,
       };
     }
+    if (json.lut) {
+      clip.lut = { ...json.lut };
+    }
 
     if (json.locked !== undefined) {
       clip.locked = json.locked;
@@ -582,7 +643,7 @@ export class Video extends BaseClip implements IPlaybackCapable {
 
   async play(element: HTMLVideoElement | HTMLAudioElement, timeSeconds: number): Promise<void> {
     const video = element as HTMLVideoElement;
-    const trimmedTime = timeSeconds + this.trim.from / 1e6;
+    const trimmedTime = this.getMediaTime(timeSeconds * 1e6) / 1e6;
     // Set time if needed
     if (Math.abs(video.currentTime - trimmedTime) > 0.1) {
       video.currentTime = trimmedTime;
@@ -612,7 +673,7 @@ export class Video extends BaseClip implements IPlaybackCapable {
 
   async seek(element: HTMLVideoElement | HTMLAudioElement, timeSeconds: number): Promise<void> {
     const video = element as HTMLVideoElement;
-    const trimmedTime = timeSeconds + this.trim.from / 1e6;
+    const trimmedTime = this.getMediaTime(timeSeconds * 1e6) / 1e6;
     video.pause();
     video.currentTime = trimmedTime;
     // Fire-and-forget: return immediately so the caller can render with
@@ -632,6 +693,7 @@ export class Video extends BaseClip implements IPlaybackCapable {
     element: HTMLVideoElement | HTMLAudioElement,
     isPlaying: boolean,
     timeSeconds: number,
+    gain = 1,
   ): void {
     const video = element as HTMLVideoElement;
     const clipDuration =
@@ -640,7 +702,7 @@ export class Video extends BaseClip implements IPlaybackCapable {
         : (this.display.to - this.display.from) / 1e6;
     const isWithinClip = timeSeconds >= 0 && timeSeconds < clipDuration;
 
-    const trimmedTime = timeSeconds + this.trim.from / 1e6;
+    const trimmedTime = this.getMediaTime(timeSeconds * 1e6) / 1e6;
     // Sync volume with fade applied for HTML Video element preview
     const clipDurationMs = clipDuration * 1000;
     const timeMs = timeSeconds * 1000;
@@ -653,18 +715,25 @@ export class Video extends BaseClip implements IPlaybackCapable {
       fadeMultiplier *= getEaseFactor(
         timeMs / this.timing.fadeIn.duration,
         this.timing.fadeIn.curve,
+        this.easings,
       );
     }
     if (this.timing.fadeOut && this.timing.fadeOut.duration > 0) {
       const fadeOutStartMs = clipDurationMs - this.timing.fadeOut.duration;
       if (timeMs >= fadeOutStartMs) {
         const t = 1.0 - (timeMs - fadeOutStartMs) / this.timing.fadeOut.duration;
-        fadeMultiplier *= getEaseFactor(t, this.timing.fadeOut.curve);
+        fadeMultiplier *= getEaseFactor(t, this.timing.fadeOut.curve, this.easings);
       }
     }
-    video.volume = Math.max(0, Math.min(1, this.volume * fadeMultiplier));
-
-    if (isPlaying && isWithinClip) {
+    video.volume = Math.max(0, Math.min(1, this.volume * fadeMultiplier * gain));
+    // Same rate and pitch handling as the export
+    const rate = this.getPlaybackRateAt(timeSeconds * 1e6);
+    if (video.playbackRate !== rate) video.playbackRate = rate;
+    video.preservesPitch = this.preservePitch;
+
+    // Media elements cannot play backwards: a reversed clip stays paused and
+    // muted and is stepped frame by frame below
+    if (isPlaying && isWithinClip && !this.reversed) {
       // Should be playing
       if (video.paused) {
         this.play(video, timeSeconds).catch(console.warn);
@@ -687,7 +756,8 @@ export class Video extends BaseClip implements IPlaybackCapable {
       video.muted = true;
 
       // Update time when paused
-      if (isWithinClip && Math.abs(video.currentTime - trimmedTime) > 0.1) {
+      const tolerance = this.reversed ? 1 / 30 : 0.1;
+      if (isWithinClip && Math.abs(video.currentTime - trimmedTime) > tolerance) {
         video.currentTime = trimmedTime;
       }
     }
@@ -1191,6 +1261,118 @@ class VideoFrameFinder {
   };
 }
 
+/**
+ * Frame lookup for reversed playback. Frames are requested with decreasing
+ * timestamps, which the forward {@link VideoFrameFinder} could only serve by
+ * restarting its decoder every tick. Instead each GOP is decoded whole into a
+ * cache of bitmaps; the GOP before the current one is decoded ahead and older
+ * ones are released.
+ */
+class ReverseFrameFinder {
+  // Keyed by GOP number, frames sorted by timestamp
+  private cache = new Map<
+    number,
+    Promise<{ timestamp: number; duration: number; bitmap: ImageBitmap }[]>
+  >();
+  // One GOP is decoded at a time
+  private queue: Promise<unknown> = Promise.resolve();
+  private reader: Promise<LocalFileReader>;
+  private gopStarts: number[];
+  private destroyed = false;
+
+  constructor(
+    localFile: OPFSToolFile,
+    public samples: ExtMP4Sample[],
+    public conf: VideoDecoderConfig,
+  ) {
+    this.reader = localFile.createReader();
+    this.gopStarts = samples.flatMap((s, i) => (s.is_idr ? [i] : []));
+  }
+
+  find = async (time: number): Promise<VideoFrame | null> => {
+    if (this.destroyed || this.gopStarts.length === 0) return null;
+
+    let gop = 0;
+    while (gop + 1 < this.gopStarts.length && this.samples[this.gopStarts[gop + 1]].cts <= time) {
+      gop += 1;
+    }
+
+    const frames = await this.decodeGoP(gop);
+    // Playback moves backwards, so the previous GOP comes next
+    if (gop > 0) {
+      this.decodeGoP(gop - 1).catch((err) => Log.warn("Reverse pre-decode failed", err));
+    }
+    for (const key of this.cache.keys()) {
+      if (key !== gop && key !== gop - 1) this.release(key);
+    }
+
+    let hit = frames[0];
+    for (const f of frames) if (f.timestamp <= time) hit = f;
+    if (hit == null || this.destroyed) return null;
+    return new VideoFrame(hit.bitmap, { timestamp: hit.timestamp, duration: hit.duration });
+  };
+
+  private decodeGoP(gop: number) {
+    let frames = this.cache.get(gop);
+    if (frames == null) {
+      frames = this.queue.then(() => this.readGoP(gop));
+      this.queue = frames.catch(() => {});
+      this.cache.set(gop, frames);
+    }
+    return frames;
+  }
+
+  private readGoP = async (gop: number) => {
+    const end = this.gopStarts[gop + 1] ?? this.samples.length;
+    const samples = this.samples.slice(this.gopStarts[gop], end);
+    const chunks = await videosamples2Chunks(samples, await this.reader);
+
+    const decoded: VideoFrame[] = [];
+    const dec = new VideoDecoder({
+      output: (vf) => decoded.push(vf),
+      error: (err) => Log.error(`ReverseFrameFinder VideoDecoder err: ${err.message}`),
+    });
+    try {
+      dec.configure(this.conf);
+      for (const chunk of chunks) dec.decode(chunk);
+      await dec.flush();
+    } finally {
+      if (dec.state !== "closed") dec.close();
+    }
+
+    // Keep bitmaps, VideoFrames would pin the decoder's buffers
+    const frames = await Promise.all(
+      decoded.map(async (vf) => {
+        const frame =
+          vf.timestamp === -1
+            ? null
+            : {
+                timestamp: vf.timestamp,
+                duration: vf.duration ?? 0,
+                bitmap: await createImageBitmap(vf),
+              };
+        vf.close();
+        return frame;
+      }),
+    );
+    return frames.filter((f) => f != null).sort((a, b) => a.timestamp - b.timestamp);
+  };
+
+  private release(gop: number) {
+    this.cache
+      .get(gop)
+      ?.then((frames) => frames.forEach((f) => f.bitmap.close()))
+      .catch(() => {});
+    this.cache.delete(gop);
+  }
+
+  destroy = () => {
+    this.destroyed = true;
+    for (const key of this.cache.keys()) this.release(key);
+    this.reader.then((r) => r.close()).catch(() => {});
+  };
+}
+
 function findIndexOfSamples(time: number, samples: ExtMP4Sample[]) {
   for (let i = 0; i < samples.length; i++) {
     const s = samples[i];
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_VISUALIZER_SETTINGS } from "@openvideo/core";
+import { Visualizer } from "./visualizer-clip";
+
+describe("Visualizer", () => {
+  it("should fill missing settings with their defaults", () => {
+    const clip = new Visualizer("narration", { style: "radial", bands: 32 });
+    expect(clip.visualizer).toEqual({ ...DEFAULT_VISUALIZER_SETTINGS, style: "radial", bands: 32 });
+
+    clip.visualizer = { mirror: true };
+    expect(clip.visualizer).toEqual({ ...DEFAULT_VISUALIZER_SETTINGS, mirror: true });
+  });
+
+  it("should keep its source and settings through JSON", async () => {
+    const clip = new Visualizer("narration", { style: "hill", colors: ["#38bdf8", "#a855f7"] });
+    clip.id = "v";
+    clip.display = { from: 1_000_000, to: 3_000_000 };
+    clip.duration = 2_000_000;
+
+    const json = clip.toJSON();
+    // The JSON owns its colours
+    clip.visualizer.colors.push("#000000");
+
+    const restored = await Visualizer.fromObject(json);
+    expect(restored.id).toBe("v");
+    expect(restored.audioClipId).toBe("narration");
+    expect(restored.visualizer).toEqual({
+      ...DEFAULT_VISUALIZER_SETTINGS,
+      style: "hill",
+      colors: ["#38bdf8", "#a855f7"],
+    });
+    expect(restored.display).toEqual({ from: 1_000_000, to: 3_000_000 });
+  });
+
+  it("should refuse JSON of another clip type", async () => {
+    const json = { ...new Visualizer("narration").toJSON(), type: "Text" } as any;
+    await expect(Visualizer.fromObject(json)).rejects.toThrow("Expected Visualizer, got Text");
+  });
+
+  it("should split into halves drawing the same source", async () => {
+    const clip = new Visualizer("narration", { style: "wave" });
+    const resolveSource = () => undefined;
+    clip.resolveSource = resolveSource;
+
+    const [first, second] = await clip.split(2_000_000);
+    expect(first.display).toEqual({ from: 0, to: 2_000_000 });
+    expect(second.display).toEqual({ from: 2_000_000, to: 5_000_000 });
+    expect(second.trim).toEqual({ from: 2_000_000, to: 5_000_000 });
+    for (const half of [first, second]) {
+      expect(half.audioClipId).toBe("narration");
+      expect(half.visualizer.style).toBe("wave");
+      expect(half.resolveSource).toBe(resolveSource);
+    }
+  });
+});
@@ -0,0 +1,406 @@
+import { DEFAULT_VISUALIZER_SETTINGS, type IVisualizerSettings } from "@openvideo/core";
+import { BaseClip } from "./base-clip";
+import { Audio } from "./audio-clip";
+import { DEFAULT_AUDIO_CONF, type IClip } from "./iclip";
+import { type ClipJSON, type VisualizerJSON } from "../json-serialization";
+import { hexToRgb } from "../utils/color";
+import { bandLevels, FFT_SIZE, magnitudeSpectrum, sampleWindow } from "../utils/spectrum";
+
+/** Spacing of the past spectra averaged for smoothing, in microseconds */
+const SMOOTHING_HOP = 1e6 / 30;
+/** Most past spectra averaged, however high the smoothing */
+const MAX_SMOOTHING_STEPS = 8;
+
+type RGB = { r: number; g: number; b: number };
+
+/**
+ * Visualizer clip: an audiogram that draws the spectrum (bars, radial, hill)
+ * or waveform (wave) of an Audio clip on the timeline.
+ *
+ * Frames depend only on the time and the source's PCM, so the Studio preview
+ * and Compositor export match. Smoothing averages spectra from a few frames
+ * back instead of carrying state between frames, which keeps seeking exact.
+ *
+ * The owner (Studio, Compositor) sets {@link resolveSource} so the clip can
+ * find its source by ID; without a source the bands are drawn at rest.
+ *
+ * @example
+ * const bars = new Visualizer('narration', { style: 'radial', colors: ['#38bdf8', '#a855f7'] });
+ */
+export class Visualizer extends BaseClip implements IClip {
+  readonly type = "Visualizer";
+  ready: IClip["ready"];
+
+  private _meta = {
+    duration: 5e6,
+    width: 1280,
+    height: 360,
+  };
+
+  get meta() {
+    return { ...this._meta };
+  }
+
+  /**
+   * Unique identifier for this clip instance
+   */
+  id: string = `clip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  /**
+   * ID of the Audio clip whose sound is drawn
+   */
+  audioClipId: string;
+
+  private _visualizer: IVisualizerSettings = { ...DEFAULT_VISUALIZER_SETTINGS };
+
+  /**
+   * How the audio is drawn; missing settings take their defaults
+   */
+  get visualizer(): IVisualizerSettings {
+    return this._visualizer;
+  }
+  set visualizer(settings: Partial<IVisualizerSettings>) {
+    this._visualizer = { ...DEFAULT_VISUALIZER_SETTINGS, ...settings };
+  }
+
+  /**
+   * Looks up the source clip by ID; set by whoever renders this clip
+   */
+  resolveSource?: (id: string) => IClip | undefined;
+
+  private canvas: OffscreenCanvas | null = null;
+
+  constructor(audioClipId: string, settings: Partial<IVisualizerSettings> = {}) {
+    super();
+    this.audioClipId = audioClipId;
+    this.visualizer = settings;
+    this.width = this._meta.width;
+    this.height = this._meta.height;
+    this.duration = this._meta.duration;
+    this.display.to = this.display.from + this.duration;
+    this.trim = { from: 0, to: this.duration };
+    this.ready = Promise.resolve(this.meta);
+  }
+
+  /**
+   * Draw the visualizer at a time from the clip start
+   * @param time Time in microseconds
+   */
+  async tick(time: number): Promise<{
+    video: ImageBitmap | null;
+    audio: Float32Array[];
+    state: "success";
+  }> {
+    const width = Math.max(1, Math.round(this.width));
+    const height = Math.max(1, Math.round(this.height));
+    if (this.canvas == null) {
+      this.canvas = new OffscreenCanvas(width, height);
+    } else if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+
+    const ctx = this.canvas.getContext("2d");
+    if (ctx != null) {
+      ctx.clearRect(0, 0, width, height);
+      this.draw(ctx, this.display.from + time, width, height);
+    }
+
+    return { video: await createImageBitmap(this.canvas), audio: [], state: "success" };
+  }
+
+  /** PCM of the source and the source time shown at `timelineTime`, if it is playing */
+  private sourceAt(timelineTime: number): { pcm: Float32Array[]; time: number } | null {
+    const source = this.resolveSource?.(this.audioClipId);
+    if (!(source instanceof Audio)) return null;
+    const { from, to } = source.display;
+    if (timelineTime < from || (to > from && timelineTime >= to)) return null;
+    return { pcm: source.getPCMData(), time: source.getMediaTime(timelineTime - from) };
+  }
+
+  /** Band levels at `timelineTime`, averaged with earlier frames by the smoothing */
+  private levelsAt(timelineTime: number): Float32Array {
+    const { bands, smoothing, minFrequency, maxFrequency } = this.visualizer;
+    const sampleRate = DEFAULT_AUDIO_CONF.sampleRate;
+    const levels = new Float32Array(bands);
+    const decay = Math.min(0.95, Math.max(0, smoothing));
+    const steps =
+      decay > 0 ? Math.min(MAX_SMOOTHING_STEPS, Math.ceil(Math.log(0.05) / Math.log(decay))) : 0;
+
+    let total = 0;
+    for (let step = 0; step <= steps; step++) {
+      const weight = decay ** step;
+      total += weight;
+      const source = this.sourceAt(timelineTime - step * SMOOTHING_HOP);
+      if (source == null) continue;
+      const spectrum = magnitudeSpectrum(source.pcm, source.time, sampleRate);
+      const stepLevels = bandLevels(spectrum, sampleRate, bands, minFrequency, maxFrequency);
+      for (let i = 0; i < bands; i++) levels[i] += stepLevels[i] * weight;
+    }
+    for (let i = 0; i < bands; i++) levels[i] /= total;
+    return levels;
+  }
+
+  /** Waveform around `timelineTime` reduced to `points` values from -1 to 1 */
+  private waveformAt(timelineTime: number, points: number): Float32Array {
+    const waveform = new Float32Array(points);
+    const source = this.sourceAt(timelineTime);
+    if (source == null) return waveform;
+
+    const samples = sampleWindow(source.pcm, source.time, DEFAULT_AUDIO_CONF.sampleRate, FFT_SIZE);
+    const per = samples.length / points;
+    for (let i = 0; i < points; i++) {
+      let sum = 0;
+      const from = Math.floor(i * per);
+      const to = Math.max(from + 1, Math.floor((i + 1) * per));
+      for (let j = from; j < to; j++) sum += samples[j];
+      waveform[i] = Math.max(-1, Math.min(1, sum / (to - from)));
+    }
+    return waveform;
+  }
+
+  private draw(ctx: OffscreenCanvasRenderingContext2D, timelineTime: number, w: number, h: number) {
+    const bands = Math.max(1, Math.round(this.visualizer.bands));
+    const colors = this.visualizer.colors
+      .map((color) => hexToRgb(color))
+      .filter((rgb): rgb is RGB => rgb != null);
+    if (colors.length === 0) colors.push({ r: 255, g: 255, b: 255 });
+
+    switch (this.visualizer.style) {
+      case "radial":
+        return this.drawRadial(ctx, this.levelsAt(timelineTime), colors, w, h);
+      case "wave":
+        return this.drawWave(ctx, this.waveformAt(timelineTime, bands), colors, w, h);
+      case "hill":
+        return this.drawHill(ctx, this.levelsAt(timelineTime), colors, w, h);
+      default:
+        return this.drawBars(ctx, this.levelsAt(timelineTime), colors, w, h);
+    }
+  }
+
+  private drawBars(
+    ctx: OffscreenCanvasRenderingContext2D,
+    levels: Float32Array,
+    colors: RGB[],
+    w: number,
+    h: number,
+  ) {
+    const pitch = w / levels.length;
+    const barWidth = Math.max(1, pitch * (1 - this.visualizer.gap));
+    levels.forEach((level, i) => {
+      const barHeight = Math.max(2, level * h);
+      const x = i * pitch + (pitch - barWidth) / 2;
+      const y = this.visualizer.mirror ? (h - barHeight) / 2 : h - barHeight;
+      ctx.fillStyle = colorAt(colors, i / Math.max(1, levels.length - 1));
+      ctx.fillRect(x, y, barWidth, barHeight);
+    });
+  }
+
+  private drawRadial(
+    ctx: OffscreenCanvasRenderingContext2D,
+    levels: Float32Array,
+    colors: RGB[],
+    w: number,
+    h: number,
+  ) {
+    const outer = Math.min(w, h) / 2;
+    const inner = outer * 0.45;
+    const step = (2 * Math.PI) / levels.length;
+    ctx.lineWidth = Math.max(1, inner * step * (1 - this.visualizer.gap));
+    ctx.lineCap = "butt";
+    levels.forEach((level, i) => {
+      const angle = i * step - Math.PI / 2;
+      const length = Math.max(2, level * (outer - inner));
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      ctx.strokeStyle = colorAt(colors, i / Math.max(1, levels.length - 1));
+      ctx.beginPath();
+      ctx.moveTo(w / 2 + cos * inner, h / 2 + sin * inner);
+      ctx.lineTo(w / 2 + cos * (inner + length), h / 2 + sin * (inner + length));
+      ctx.stroke();
+    });
+  }
+
+  private drawWave(
+    ctx: OffscreenCanvasRenderingContext2D,
+    waveform: Float32Array,
+    colors: RGB[],
+    w: number,
+    h: number,
+  ) {
+    const lineWidth = Math.max(1, this.visualizer.lineWidth);
+    const amplitude = (h - lineWidth) / 2;
+    ctx.lineWidth = lineWidth;
+    ctx.lineJoin = "round";
+    ctx.lineCap = "round";
+    ctx.strokeStyle = gradient(ctx, colors, w);
+    ctx.beginPath();
+    waveform.forEach((value, i) => {
+      const x = (i / Math.max(1, waveform.length - 1)) * w;
+      const y = h / 2 - value * amplitude;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.stroke();
+  }
+
+  private drawHill(
+    ctx: OffscreenCanvasRenderingContext2D,
+    levels: Float32Array,
+    colors: RGB[],
+    w: number,
+    h: number,
+  ) {
+    const { mirror, lineWidth } = this.visualizer;
+    const base = mirror ? h / 2 : h;
+    const scale = mirror ? h / 2 : h;
+    const points = Array.from(levels, (level, i) => ({
+      x: ((i + 0.5) / levels.length) * w,
+      y: level * scale,
+    }));
+
+    // One smooth outline through the band tops, closed along the base line
+    const outline = (sign: 1 | -1) => {
+      ctx.moveTo(0, base);
+      ctx.lineTo(0, base - sign * points[0].y);
+      for (let i = 0; i < points.length - 1; i++) {
+        const midX = (points[i].x + points[i + 1].x) / 2;
+        const midY = (points[i].y + points[i + 1].y) / 2;
+        ctx.quadraticCurveTo(points[i].x, base - sign * points[i].y, midX, base - sign * midY);
+      }
+      const last = points[points.length - 1];
+      ctx.quadraticCurveTo(last.x, base - sign * last.y, w, base - sign * last.y);
+      ctx.lineTo(w, base);
+    };
+
+    const fill = gradient(ctx, colors, w);
+    ctx.beginPath();
+    outline(1);
+    if (mirror) outline(-1);
+    ctx.globalAlpha = 0.6;
+    ctx.fillStyle = fill;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    if (lineWidth > 0) {
+      ctx.lineWidth = lineWidth;
+      ctx.lineJoin = "round";
+      ctx.strokeStyle = fill;
+      ctx.stroke();
+    }
+  }
+
+  async split(time: number): Promise<[this, this]> {
+    const first = await this.clone();
+    const second = await this.clone();
+    first.display.to = first.display.from + time;
+    first.duration = time;
+    first.trim = { from: this.trim.from, to: this.trim.from + time };
+    second.display.from = this.display.from + time;
+    second.duration = this.duration - time;
+    second.trim = { from: this.trim.from + time, to: this.trim.to };
+    return [first, second];
+  }
+
+  async clone() {
+    const newClip = new Visualizer(this.audioClipId, this.visualizer) as this;
+    this.copyStateTo(newClip);
+    newClip.id = this.id;
+    newClip.resolveSource = this.resolveSource;
+    newClip.transition = this.transition;
+    return newClip;
+  }
+
+  destroy(): void {
+    if (this.destroyed) return;
+    this.canvas = null;
+    this.resolveSource = undefined;
+    super.destroy();
+  }
+
+  toJSON(main: boolean = false): VisualizerJSON {
+    const base = super.toJSON(main);
+    return {
+      ...base,
+      type: "Visualizer",
+      id: this.id,
+      audioClipId: this.audioClipId,
+      visualizer: { ...this.visualizer, colors: [...this.visualizer.colors] },
+    } as VisualizerJSON;
+  }
+
+  /**
+   * Create a Visualizer instance from a JSON object (fabric.js pattern)
+   * @param json The JSON object representing the clip
+   * @returns Promise that resolves to a Visualizer instance
+   */
+  static async fromObject(json: ClipJSON): Promise<Visualizer> {
+    if (json.type !== "Visualizer") {
+      throw new Error(`Expected Visualizer, got ${json.type}`);
+    }
+
+    const clip = new Visualizer(json.audioClipId ?? "", json.visualizer);
+
+    if (json.transform) {
+      clip.left = json.transform.x;
+      clip.top = json.transform.y;
+      clip.width = json.transform.width;
+      clip.height = json.transform.height;
+      clip.angle = json.transform.angle;
+      clip.zIndex = json.transform.zIndex;
+      clip.opacity = json.transform.opacity;
+      clip.flip = json.transform.flip ?? null;
+    }
+
+    if (json.timing) {
+      clip.display.from = json.timing.display.from;
+      clip.display.to = json.timing.display.to;
+      clip.duration = json.timing.duration;
+      if (json.timing.trim) clip.trim = { ...json.timing.trim };
+      if (json.timing.fadeIn) clip.timing.fadeIn = json.timing.fadeIn;
+      if (json.timing.fadeOut) clip.timing.fadeOut = json.timing.fadeOut;
+    }
+
+    if (json.style) {
+      clip.style = { ...clip.style, ...json.style };
+    }
+
+    if (json.animation) {
+      clip.setAnimation(json.animation.keyFrames, json.animation.options);
+    }
+
+    if (json.id) {
+      clip.id = json.id;
+    }
+    if (json.transition) {
+      clip.transition = json.transition;
+    }
+    if (json.locked !== undefined) {
+      clip.locked = json.locked;
+    }
+
+    return clip;
+  }
+}
+
+/** Colour at `t` (0 to 1) along evenly spaced stops */
+function colorAt(colors: RGB[], t: number): string {
+  if (colors.length === 1) {
+    const { r, g, b } = colors[0];
+    return `rgb(${r}, ${g}, ${b})`;
+  }
+  const position = Math.min(1, Math.max(0, t)) * (colors.length - 1);
+  const index = Math.min(colors.length - 2, Math.floor(position));
+  const mix = position - index;
+  const a = colors[index];
+  const b = colors[index + 1];
+  const channel = (from: number, to: number) => Math.round(from + (to - from) * mix);
+  return `rgb(${channel(a.r, b.r)}, ${channel(a.g, b.g)}, ${channel(a.b, b.b)})`;
+}
+
+function gradient(ctx: OffscreenCanvasRenderingContext2D, colors: RGB[], w: number) {
+  const fill = ctx.createLinearGradient(0, 0, w, 0);
+  colors.forEach(({ r, g, b }, i) => {
+    fill.addColorStop(colors.length === 1 ? 0 : i / (colors.length - 1), `rgb(${r}, ${g}, ${b})`);
+  });
+  return fill;
+}
@@ -1,11 +1,20 @@
 import { Application } from "pixi.js";
-import { DEFAULT_AUDIO_CONF, getDefaultAudioConf, type IClip, Transition } from "./clips";
+import {
+  Audio,
+  Caption,
+  DEFAULT_AUDIO_CONF,
+  getDefaultAudioConf,
+  type IClip,
+  Transition,
+  Visualizer,
+} from "./clips";
 import { recodemux } from "wrapbox";
 import { Log } from "./utils/log";
 import EventEmitter from "./event-emitter";
 import {
   clipToJSON,
   jsonToClip,
+  resolveSequenceJSON,
   type ClipJSON,
   type ProjectJSON,
   type GlobalTransitionJSON as TransitionJSON,
@@ -15,6 +24,18 @@ import { Image } from "./clips/image-clip";
 import { yieldToScheduler, waitEncoderQueue } from "./compositor/scheduler";
 import { createSpritesRender } from "./compositor/compositor-renderer";
 import { createAVEncoder } from "./compositor/av-encoder";
+import { createAudioMix, type IAudioMixOpts } from "./compositor/audio-mixer";
+import { LoudnessMeter, type ILimiterOpts, type ILoudnessTarget } from "./compositor/loudness";
+import { createReversedAudio } from "./compositor/reverse-audio";
+import { supportsTextTracks, withTextTracks } from "./compositor/text-tracks";
+import {
+  DEFAULT_DUCKING_SETTINGS,
+  type EasingRegistry,
+  type IDuckingSettings,
+  type ITrackMix,
+} from "@openvideo/core";
+import { resolveTrackMixes } from "./utils/track-mix";
+import { loadLut } from "./utils/lut";
 
 export interface ICompositorOpts {
   width?: number;
@@ -34,12 +55,55 @@ export interface ICompositorOpts {
    * Write metadata tags to the output video
    */
   metaDataTags?: Record<string, string>;
+  /**
+   * Write caption clips as a toggleable subtitle track (mov_text in MP4/MOV,
+   * WebVTT in WebM/MKV). Captions are no longer burned in unless `burnIn` is set.
+   *
+   * Text tracks can only be written once the file is complete, so an export
+   * with subtitle or chapter tracks holds the whole file in memory and emits it
+   * in one chunk at the end. Leave this off for very long exports.
+   */
+  subtitles?: boolean | ISubtitleTrackOpts;
+  /**
+   * Write chapter markers (chapter atoms in MP4/MOV, Chapters in WebM/MKV).
+   * Buffers the whole file in memory, see `subtitles`.
+   */
+  chapters?: ICompositorChapter[];
+  /**
+   * Duck music tracks under dialogue tracks (see {@link addSprite} `track`)
+   */
+  ducking?: IDuckingSettings;
+  /**
+   * Normalize the mix to a loudness target. Audio is measured in a first pass,
+   * then gained and true-peak limited while encoding.
+   */
+  loudnessTarget?: ILoudnessTarget;
+  /**
+   * Soft-knee true-peak limiter on the summed mix, so overlapping tracks do
+   * not clip. On by default; `false` sums without headroom management.
+   */
+  limiter?: false | ILimiterOpts;
   /**
    * Unsafe, may be deprecated at any time
    */
   __unsafe_hardwareAcceleration__?: HardwarePreference;
 }
 
+export interface ISubtitleTrackOpts {
+  /** ISO 639-2 language code, default "und" */
+  language?: string;
+  /** Track title shown in player menus */
+  name?: string;
+  /** Also render captions into the picture */
+  burnIn?: boolean;
+}
+
+export interface ICompositorChapter {
+  /** Chapter start in microseconds; a chapter runs until the next one */
+  start: number;
+  title: string;
+}
+
 let COM_ID = 0;
 
 /**
@@ -128,6 +192,20 @@ export class Compositor extends EventEmitter<{
   // Original project dimensions from JSON (for scaling clips to export dimensions)
   private jsonDimensions: { width: number; height: number } = { width: 0, height: 0 };
 
+  // Mix (role, gain, pan, mute) of each sprite's track, keyed by sprite ID
+  private spriteTracks = new Map<string, ITrackMix>();
+  // Sprites added alongside a clip (reversed video audio), left out of exportToJSON
+  private derivedSprites = new Set<string>();
+
+  // Project easing curves of the loaded JSON, handed to each of its clips
+  private easings: EasingRegistry = {};
+
+  // Sprite pipeline and mix kept between renderLayer() calls
+  private layer: {
+    render: ReturnType<typeof createSpritesRender>;
+    mix: ReturnType<typeof createAudioMix>;
+  } | null = null;
+
   /**
    * Create a compositor instance based on configuration
    * @param opts ICompositorOpts
@@ -151,6 +229,11 @@ export class Compositor extends EventEmitter<{
         bitrate: 5e6,
         fps: 30,
         metaDataTags: null,
+        subtitles: false,
+        chapters: [],
+        ducking: { ...DEFAULT_DUCKING_SETTINGS },
+        loudnessTarget: null,
+        limiter: {},
       },
       opts,
     );
@@ -173,10 +256,13 @@ export class Compositor extends EventEmitter<{
       width,
       height,
       backgroundColor: 0x000000,
+      // A "transparent" background lets a Sequence layer show what is under it
+      backgroundAlpha: this.opts.backgroundColor === "transparent" ? 0 : 1,
       antialias: false,
       autoDensity: false,
       resolution: 1,
       preference: "webgl", // Force WebGL to avoid WebGPU overhead/failures in Docker
+      useBackBuffer: true, // Advanced blend modes (overlay, soft-light, ...) read the back buffer
     });
 
     // Verify that the app is fully initialized
@@ -200,8 +286,10 @@ export class Compositor extends EventEmitter<{
    * Add a clip for video composition. Video duration defaults to the maximum duration value from all clips
    * @param clip Clip (extends BaseSprite)
    * @param opts.main If main is true, the video duration uses this clip's duration value
+   * @param opts.track Mix of the clip's track: role for ducking, gain, pan and mute.
+   * Solo must already be resolved into `muted` (see `resolveTrackMixes`).
    */
-  async addSprite(clip: IClip, opts: { main?: boolean } = {}): Promise<void> {
+  async addSprite(clip: IClip, opts: { main?: boolean; track?: ITrackMix } = {}): Promise<void> {
     const logAttrs = {
       rect: {
         x: clip.left,
@@ -227,13 +315,39 @@ export class Compositor extends EventEmitter<{
       cloned.setRenderer(this.pixiApp.renderer);
     }
 
+    // Decoders only run forwards: reversed audio is rendered up front. It
+    // replaces a reversed Audio clip and rides alongside a reversed Video
+    const reversedAudio =
+      cloned.reversed && (cloned instanceof Audio || cloned instanceof Video)
+        ? await createReversedAudio(cloned)
+        : null;
+    const sprite: IClip = cloned instanceof Audio && reversedAudio != null ? reversedAudio : cloned;
+    if (sprite !== cloned) cloned.destroy();
+
+    if (sprite instanceof Visualizer) {
+      sprite.resolveSource = (id) => this.sprites.find((other) => other.id === id);
+    }
+
+    // LUTs are fetched before rendering so every exported frame is graded
+    const lutSrc = sprite.lut?.enabled !== false ? sprite.lut?.src : undefined;
+    if (lutSrc) {
+      await loadLut(lutSrc).catch((err) => this.logger.warn("Failed to load LUT", lutSrc, err));
+    }
+
     this.logger.info("Compositor add clip ready");
+    if (opts.track != null) this.spriteTracks.set(sprite.id, opts.track);
     this.sprites.push(
-      Object.assign(cloned, {
+      Object.assign(sprite, {
         main: opts.main ?? false,
         expired: false,
       }),
     );
+    if (cloned instanceof Video && reversedAudio != null) {
+      reversedAudio.id = `${cloned.id}:reversed-audio`;
+      this.derivedSprites.add(reversedAudio.id);
+      if (opts.track != null) this.spriteTracks.set(reversedAudio.id, opts.track);
+      this.sprites.push(Object.assign(reversedAudio, { main: false, expired: false }));
+    }
     this.sprites.sort((a, b) => a.zIndex - b.zIndex);
   }
 
@@ -345,7 +459,148 @@ export class Compositor extends EventEmitter<{
       muxer.close();
     };
 
-    return muxer.stream;
+    return this.wrapTextTracks(muxer.stream, maxTime);
+  }
+
+  private get subtitleTrackOpts(): ISubtitleTrackOpts | null {
+    const { subtitles } = this.opts;
+    if (!subtitles) return null;
+    return subtitles === true ? {} : subtitles;
+  }
+
+  /**
+   * Caption sprites that go to the soft subtitle track instead of the picture
+   */
+  private isSoftCaption(sprite: IClip): boolean {
+    const subtitles = this.subtitleTrackOpts;
+    return (
+      subtitles != null &&
+      !subtitles.burnIn &&
+      sprite instanceof Caption &&
+      supportsTextTracks(this.opts.format)
+    );
+  }
+
+  /**
+   * Mix settings for the encoder. With a loudness target, the mix is first
+   * rendered audio-only to measure it, then gained to the target.
+   */
+  private async resolveAudioMix(
+    maxTime: number,
+    timeSlice: number,
+    aborter: { aborted: boolean },
+  ): Promise<IAudioMixOpts> {
+    const { ducking, loudnessTarget, limiter, audio } = this.opts;
+    const limit: IAudioMixOpts =
+      limiter === false ? {} : { ceiling: limiter.ceiling ?? -1, knee: limiter.knee ?? 3 };
+    if (loudnessTarget == null || audio === false) return { ducking, ...limit };
+
+    const stats = await this.measureLoudness(maxTime, timeSlice, aborter);
+    const gain = Number.isFinite(stats.integrated)
+      ? Math.min(loudnessTarget.maxGain ?? 12, loudnessTarget.lufs - stats.integrated)
+      : 0;
+    this.logger.info("Loudness normalization", { ...stats, gain });
+    return { ducking, ...limit, gain, ceiling: loudnessTarget.truePeak ?? limit.ceiling ?? -1 };
+  }
+
+  /**
+   * Render the audio mix without encoding and measure its loudness
+   */
+  private async measureLoudness(maxTime: number, timeSlice: number, aborter: { aborted: boolean }) {
+    const sources = await Promise.all(
+      this.sprites
+        .filter((sprite) => sprite instanceof Audio || sprite instanceof Video)
+        .map(async (sprite) => {
+          const clone =
+            sprite instanceof Video ? await sprite.cloneAudioOnly() : await sprite.clone();
+          return {
+            sprite: Object.assign(clone, { main: false, expired: false }),
+            track: this.spriteTracks.get(sprite.id),
+          };
+        }),
+    );
+    const tracks = new Map(sources.map(({ sprite, track }) => [sprite.id, track]));
+
+    const render = createSpritesRender({
+      pixiApp: null,
+      backgroundColor: this.opts.backgroundColor,
+      sprites: sources.map(({ sprite }) => sprite),
+      aborter,
+      scaleX: 1,
+      scaleY: 1,
+    });
+    const mix = createAudioMix(this.opts.ducking);
+    const meter = new LoudnessMeter(DEFAULT_AUDIO_CONF.sampleRate);
+
+    try {
+      for (let timestamp = 0; timestamp <= maxTime && !aborter.aborted; timestamp += timeSlice) {
+        const { audios, audioClipIds } = await render.render(timestamp);
+        meter.push(
+          mix(
+            audios,
+            audioClipIds.map((id) => tracks.get(id)),
+          ),
+        );
+      }
+    } finally {
+      render.cleanup();
+      for (const { sprite } of sources) sprite.destroy();
+    }
+    return meter.stats();
+  }
+
+  private wrapTextTracks(
+    stream: ReadableStream<Uint8Array>,
+    maxTime: number,
+  ): ReadableStream<Uint8Array> {
+    const { format, chapters } = this.opts;
+    const subtitles = this.subtitleTrackOpts;
+    if (subtitles == null && (chapters ?? []).length === 0) return stream;
+    if (!supportsTextTracks(format)) {
+      this.logger.warn(`Subtitle and chapter tracks are not supported for ${format}, skipping`);
+      return stream;
+    }
+
+    const cues =
+      subtitles == null
+        ? []
+        : this.sprites
+            .filter(
+              (sprite): sprite is Caption & { main: boolean; expired: boolean } =>
+                sprite instanceof Caption,
+            )
+            .map((sprite) => ({
+              start: sprite.display.from,
+              end: Math.min(sprite.display.to, maxTime),
+              text: sprite.text,
+            }))
+            .filter((cue) => cue.text.trim() !== "" && cue.end > cue.start)
+            .sort((a, b) => a.start - b.start);
+
+    const sortedChapters = [...(chapters ?? [])]
+      .filter((chapter) => chapter.start < maxTime)
+      .sort((a, b) => a.start - b.start);
+    const chapterSamples = sortedChapters.map((chapter, i) => ({
+      start: Math.max(0, chapter.start),
+      end: sortedChapters[i + 1]?.start ?? maxTime,
+      text: chapter.title,
+    }));
+
+    // Nothing to embed: stream the file as it is muxed instead of buffering it
+    if (cues.length === 0 && chapterSamples.length === 0) return stream;
+
+    return withTextTracks(
+      stream,
+      {
+        format,
+        subtitles: cues,
+        subtitleLanguage: subtitles?.language ?? "und",
+        subtitleName: subtitles?.name ?? "Captions",
+        chapters: chapterSamples,
+        duration: maxTime,
+      },
+      () => this.stopOutput?.(),
+    );
   }
 
   /**
@@ -359,6 +614,14 @@ export class Compositor extends EventEmitter<{
     this.off("export:progress");
     this.off("error");
 
+    // Sprites rendered as a layer were never handed to an export, which would release them
+    if (this.layer != null) {
+      this.layer.render.cleanup();
+      this.layer = null;
+      this.sprites.forEach((sprite) => sprite.destroy());
+      this.sprites = [];
+    }
+
     // Clean up Pixi.js resources
     if (this.pixiApp != null) {
       try {
@@ -431,7 +694,7 @@ export class Compositor extends EventEmitter<{
       renderSprites = createSpritesRender({
         pixiApp: this.pixiApp,
         backgroundColor,
-        sprites: this.sprites,
+        sprites: this.sprites.filter((sprite) => !this.isSoftCaption(sprite)),
         aborter,
         scaleX,
         scaleY,
@@ -443,6 +706,7 @@ export class Compositor extends EventEmitter<{
         hasVideoTrack: this.hasVideoTrack && hasVideoSprites,
         timeSlice,
         fps,
+        audioMix: await this.resolveAudioMix(maxTime, timeSlice, aborter),
       });
 
       let timestamp = 0;
@@ -460,16 +724,19 @@ export class Compositor extends EventEmitter<{
         ) {
           // # watch out for cuts in audio
           // await encodeFrame(timestamp, [], false);
+          if (!aborter.aborted) await encodeFrame.flush();
           exit();
           await onEnded();
           return;
         }
         progress = timestamp / maxTime;
 
-        const { audios, mainSprDone, hasVideo } = await renderSprites.render(timestamp);
+        const { audios, audioClipIds, mainSprDone, hasVideo } =
+          await renderSprites.render(timestamp);
         if (mainSprDone) {
           // # watch out for cuts in audio
           // await encodeFrame(timestamp, audios, hasVideo);
+          await encodeFrame.flush();
           exit();
           await onEnded();
           return;
@@ -494,7 +761,12 @@ export class Compositor extends EventEmitter<{
           }
         }
 
-        await encodeFrame(timestamp, audios, hasVideo);
+        await encodeFrame(
+          timestamp,
+          audios,
+          hasVideo,
+          audioClipIds.map((id) => this.spriteTracks.get(id)),
+        );
 
         timestamp += timeSlice;
 
@@ -536,6 +808,7 @@ export class Compositor extends EventEmitter<{
   exportToJSON(): ProjectJSON {
     const clips: Record<string, ClipJSON> = {};
     for (const sprite of this.sprites) {
+      if (this.derivedSprites.has(sprite.id)) continue;
       clips[sprite.id] = clipToJSON(sprite, sprite.main);
     }
 
@@ -566,6 +839,7 @@ export class Compositor extends EventEmitter<{
 
     return {
       clips,
+      easings: this.easings,
       settings: {
         width: this.opts.width,
         height: this.opts.height,
@@ -578,6 +852,11 @@ export class Compositor extends EventEmitter<{
         audioCodec: this.opts.audioCodec,
         audioSampleRate: this.opts.audioSampleRate,
         metaDataTags: this.opts.metaDataTags,
+        subtitles: this.opts.subtitles,
+        chapters: this.opts.chapters,
+        ducking: this.opts.ducking,
+        loudnessTarget: this.opts.loudnessTarget ?? undefined,
+        limiter: this.opts.limiter,
       },
     };
   }
@@ -593,6 +872,10 @@ export class Compositor extends EventEmitter<{
       sprite.destroy();
     });
     this.sprites = [];
+    this.spriteTracks.clear();
+    this.derivedSprites.clear();
+
+    this.easings = json.easings ?? {};
 
     // Update settings if provided, but never overwrite options that were
     // explicitly passed to the constructor (e.g. user-chosen export settings).
@@ -645,17 +928,32 @@ export class Compositor extends EventEmitter<{
         this.opts.audioSampleRate = json.settings.audioSampleRate;
       if (json.settings.metaDataTags !== undefined && this.explicitOpts.metaDataTags === undefined)
         this.opts.metaDataTags = json.settings.metaDataTags;
+      if (json.settings.subtitles !== undefined && this.explicitOpts.subtitles === undefined)
+        this.opts.subtitles = json.settings.subtitles;
+      if (json.settings.chapters !== undefined && this.explicitOpts.chapters === undefined)
+        this.opts.chapters = json.settings.chapters;
+      if (json.settings.ducking !== undefined && this.explicitOpts.ducking === undefined)
+        this.opts.ducking = json.settings.ducking;
+      if (
+        json.settings.loudnessTarget !== undefined &&
+        this.explicitOpts.loudnessTarget === undefined
+      )
+        this.opts.loudnessTarget = json.settings.loudnessTarget;
+      if (json.settings.limiter !== undefined && this.explicitOpts.limiter === undefined)
+        this.opts.limiter = json.settings.limiter;
     }
 
-    // Build map of clipId -> zIndex based on tracks
+    // Build map of clipId -> zIndex (and track mix) based on tracks
     const clipZIndices = new Map<string, number>();
+    const clipTracks = new Map<string, ITrackMix>();
     if (json.tracks) {
       const totalTracks = json.tracks.length;
-      json.tracks.forEach((track, trackIndex) => {
+      resolveTrackMixes(json.tracks).forEach((track, trackIndex) => {
         if (track.clipIds) {
           for (const cid of track.clipIds) {
             // Track 0 -> Highest Z-index
             clipZIndices.set(cid, (totalTracks - trackIndex) * 10);
+            clipTracks.set(cid, track);
           }
         }
       });
@@ -665,14 +963,15 @@ export class Compositor extends EventEmitter<{
     const clipsArray = Object.values(json.clips ?? {});
 
     for (const clipJSON of clipsArray) {
-      const clip = await jsonToClip(clipJSON);
+      const clip = await jsonToClip(resolveSequenceJSON(clipJSON, json.sequences));
+      clip.easings = this.easings;
 
       // Apply zIndex from track order if available
       if (clipZIndices.has(clip.id)) {
         clip.zIndex = clipZIndices.get(clip.id)!;
       }
 
-      await this.addSprite(clip, { main: clipJSON.main || false });
+      await this.addSprite(clip, { main: clipJSON.main || false, track: clipTracks.get(clip.id) });
     }
 
     // Restore transition links on target clips and recalculate timing
@@ -704,6 +1003,7 @@ export class Compositor extends EventEmitter<{
           toClipId: clip.toClipId,
           start: clip.display.from,
           end: clip.display.to,
+          easing: clip.easing,
         };
 
         if (fromClip) {
@@ -782,4 +1082,61 @@ export class Compositor extends EventEmitter<{
 
     return base64;
   }
+
+  /**
+   * Render the frame at `time` for use as a layer of another composition
+   * (a Sequence clip). Unlike {@link renderFrame} the sprite pipeline is
+   * kept between calls, so clips keep decoding forwards, and the audio of the
+   * clips since the previous call is returned, mixed through their tracks.
+   *
+   * @param time Time in microseconds
+   * @returns The frame (transparent where no clip is) and stereo PCM
+   */
+  public async renderLayer(
+    time: number,
+  ): Promise<{ video: ImageBitmap | null; audio: Float32Array[] }> {
+    if (this.destroyed) {
+      throw new Error("Compositor has been destroyed.");
+    }
+    if (this.pixiApp == null && this.hasVideoTrack) {
+      await this.initPixiApp();
+    }
+
+    if (this.layer == null) {
+      const jsonWidth = this.jsonDimensions.width || this.opts.width || 1920;
+      const jsonHeight = this.jsonDimensions.height || this.opts.height || 1080;
+      this.layer = {
+        render: createSpritesRender({
+          pixiApp: this.pixiApp,
+          backgroundColor: this.opts.backgroundColor,
+          sprites: this.sprites,
+          aborter: { aborted: false },
+          scaleX: this.opts.width > 0 ? this.opts.width / jsonWidth : 1,
+          scaleY: this.opts.height > 0 ? this.opts.height / jsonHeight : 1,
+        }),
+        mix: createAudioMix(this.opts.ducking),
+      };
+    }
+
+    // Expiry is one-way in the encoder; a layer seeks back and replays
+    for (const sprite of this.sprites) sprite.expired = false;
+
+    const { audios, audioClipIds } = await this.layer.render.render(time);
+    const mixed = this.layer.mix(
+      audios,
+      audioClipIds.map((id) => this.spriteTracks.get(id)),
+    );
+    const frames = mixed.length / 2;
+    const audio =
+      frames === 0
+        ? []
+        : [0, 1].map((chan) => {
+            const pcm = new Float32Array(frames);
+            for (let i = 0; i < frames; i++) pcm[i] = mixed[i * 2 + chan];
+            return pcm;
+          });
+
+    const video = this.pixiApp != null ? await createImageBitmap(this.canvas) : null;
+    return { video, audio };
+  }
 }
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { createAudioTrackBuf } from "./audio-mixer";
+
+const frameCount = (chunks: AudioData[]) => chunks.reduce((n, d) => n + d.numberOfFrames, 0);
+
+describe("createAudioTrackBuf", () => {
+  it("should emit every limited frame once flushed at the end", () => {
+    const push = createAudioTrackBuf(1024, 30, { ceiling: -1 });
+    const pcm = new Float32Array(1600).fill(0.5);
+
+    const chunks = [...push(0, [[pcm, pcm]]), ...push(33_333, [[pcm, pcm]])];
+    expect(frameCount(chunks)).toBeLessThan(3200);
+
+    chunks.push(...push.flush());
+    expect(frameCount(chunks)).toBe(3200);
+    expect(push.flush()).toEqual([]);
+  });
+
+  it("should release the partial chunk without a limiter", () => {
+    const push = createAudioTrackBuf(1024, 30);
+    const pcm = new Float32Array(1600).fill(0.5);
+    expect(frameCount(push(0, [[pcm, pcm]]))).toBe(1024);
+    expect(frameCount(push.flush())).toBe(576);
+  });
+});
@@ -1,4 +1,59 @@
+import type { IDuckingSettings, ITrackMix } from "@openvideo/core";
 import { DEFAULT_AUDIO_CONF } from "../clips";
+import { Ducker, applyDucking, dbToGain } from "../utils/ducking";
+import { applyTrackMix } from "../utils/track-mix";
+import { Limiter } from "./loudness";
+
+export interface IAudioMixOpts {
+  /** When enabled, music tracks are ducked under dialogue tracks */
+  ducking?: IDuckingSettings;
+  /** Gain in dB applied to the summed mix, e.g. from loudness normalization */
+  gain?: number;
+  /** True-peak ceiling in dBTP of a limiter on the summed mix */
+  ceiling?: number;
+  /** Soft knee width in dB of the limiter, 0 for a brickwall */
+  knee?: number;
+}
+
+/**
+ * Sum track PCM into interleaved stereo. Each entry is first gained and panned
+ * by its track's mix, then music is ducked under dialogue when enabled.
+ * The returned function keeps ducking state between calls.
+ */
+export function createAudioMix(ducking?: IDuckingSettings) {
+  const ducker = ducking?.enabled ? new Ducker(ducking) : null;
+
+  return (audios: Float32Array[][], mixes: Array<ITrackMix | undefined> = []) => {
+    const trackAudios = audios.map((pcm, i) => applyTrackMix(pcm, mixes[i]));
+    if (ducker != null) {
+      applyDucking(
+        trackAudios,
+        mixes.map((mix) => mix?.role),
+        ducker,
+        DEFAULT_AUDIO_CONF.sampleRate,
+      );
+    }
+
+    const maxLen =
+      trackAudios.length === 0 ? 0 : Math.max(...trackAudios.map((a) => a[0]?.length ?? 0));
+    const data = new Float32Array(maxLen * 2);
+
+    for (let bufIdx = 0; bufIdx < maxLen; bufIdx++) {
+      let ch0 = 0;
+      let ch1 = 0;
+      for (let trackIdx = 0; trackIdx < trackAudios.length; trackIdx++) {
+        const c0 = trackAudios[trackIdx][0]?.[bufIdx] ?? 0;
+        // If mono PCM, duplicate first channel to second channel
+        const c1 = trackAudios[trackIdx][1]?.[bufIdx] ?? c0;
+        ch0 += c0;
+        ch1 += c1;
+      }
+      data[bufIdx * 2] = ch0;
+      data[bufIdx * 2 + 1] = ch1;
+    }
+    return data;
+  };
+}
 
 /**
  * Buffer input data and convert to AudioData with fixed frame count.
@@ -6,8 +61,15 @@ import { DEFAULT_AUDIO_CONF } from "../clips";
  *
  * @param framesPerChunk Number of audio frames per AudioData instance
  * @param fps The video fps (used for calculating buffer limits)
+ * @param opts Ducking, gain and limiting of the mix
+ * @returns Push function taking each frame's track PCM; call its `flush` once
+ * the export ends to get the audio still held back
  */
-export function createAudioTrackBuf(framesPerChunk: number, fps: number = 30) {
+export function createAudioTrackBuf(
+  framesPerChunk: number,
+  fps: number = 30,
+  opts: IAudioMixOpts = {},
+) {
   const dataSize = framesPerChunk * DEFAULT_AUDIO_CONF.channelCount;
   // Buffer must hold at least one full video frame worth of audio samples
   // (sampleRate / fps * channelCount) plus extra headroom for two audio chunks.
@@ -30,6 +92,19 @@ export function createAudioTrackBuf(framesPerChunk: number, fps: number = 30) {
   let audioTimestamp = 0;
   const chunkDuration = (framesPerChunk / DEFAULT_AUDIO_CONF.sampleRate) * 1e6;
 
+  const mix = createAudioMix(opts.ducking);
+  const gain = dbToGain(opts.gain ?? 0);
+  const limiter =
+    opts.ceiling != null
+      ? new Limiter(opts.ceiling, DEFAULT_AUDIO_CONF.sampleRate, { knee: opts.knee })
+      : null;
+
+  const write = (samples: Float32Array) => {
+    ensureBufferCapacity(writePos + samples.length);
+    channelBuf.set(samples, writePos);
+    writePos += samples.length;
+  };
+
   // Placeholder when audio data is missing
   const placeholderData = new Float32Array(dataSize);
 
@@ -95,32 +170,33 @@ export function createAudioTrackBuf(framesPerChunk: number, fps: number = 30) {
     return results;
   };
 
-  return (timestamp: number, trackAudios: Float32Array[][]): AudioData[] => {
-    const maxLen =
-      trackAudios.length === 0 ? 0 : Math.max(...trackAudios.map((a) => a[0]?.length ?? 0));
-    const hasNewData = maxLen > 0;
-
-    // Ensure buffer can handle incoming audio data
-    if (hasNewData) {
-      ensureBufferCapacity(writePos + maxLen * DEFAULT_AUDIO_CONF.channelCount);
-    }
+  const push = (
+    timestamp: number,
+    trackAudios: Float32Array[][],
+    mixes: Array<ITrackMix | undefined> = [],
+  ): AudioData[] => {
+    const mixed = mix(trackAudios, mixes);
+    const hasNewData = mixed.length > 0;
 
-    for (let bufIdx = 0; bufIdx < maxLen; bufIdx++) {
-      let ch0 = 0;
-      let ch1 = 0;
-      for (let trackIdx = 0; trackIdx < trackAudios.length; trackIdx++) {
-        const c0 = trackAudios[trackIdx][0]?.[bufIdx] ?? 0;
-        // If mono PCM, duplicate first channel to second channel
-        const c1 = trackAudios[trackIdx][1]?.[bufIdx] ?? c0;
-        ch0 += c0;
-        ch1 += c1;
+    if (limiter != null) {
+      // A gap in the audio ends the current run, so release the limiter's held-back tail
+      write(hasNewData ? limiter.process(mixed, gain) : limiter.flush());
+    } else {
+      if (gain !== 1) {
+        for (let i = 0; i < mixed.length; i++) mixed[i] *= gain;
       }
-      // Mix multiple track audio data and write to buffer
-      channelBuf[writePos] = ch0;
-      channelBuf[writePos + 1] = ch1;
-      writePos += 2;
+      write(mixed);
     }
+
     // Consume buffer data and generate AudioData
     return getAudioData(timestamp, hasNewData);
   };
+
+  /** End of the export: release the limiter's held-back tail and the last partial chunk */
+  const flush = (): AudioData[] => {
+    if (limiter != null) write(limiter.flush());
+    return getAudioData(audioTimestamp, false);
+  };
+
+  return Object.assign(push, { flush });
 }
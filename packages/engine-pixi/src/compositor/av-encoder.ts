@@ -1,5 +1,6 @@
 import { recodemux } from "wrapbox";
-import { createAudioTrackBuf } from "./audio-mixer";
+import type { ITrackMix } from "@openvideo/core";
+import { createAudioTrackBuf, type IAudioMixOpts } from "./audio-mixer";
 
 /**
  * Resolve the WebGL/WebGL2 context already held by an OffscreenCanvas.
@@ -30,6 +31,7 @@ export function createAVEncoder(opts: {
   hasVideoTrack: boolean;
   timeSlice: number;
   fps: number;
+  audioMix?: IAudioMixOpts;
 }) {
   const { canvas, outputAudio, muxer, hasVideoTrack, timeSlice } = opts;
   let frameCnt = 0;
@@ -39,11 +41,16 @@ export function createAVEncoder(opts: {
   // Resolve the WebGL context once — reused every frame.
   const gl = hasVideoTrack ? getCanvasGl(canvas) : null;
 
-  const audioTrackBuf = createAudioTrackBuf(1024, opts.fps);
+  const audioTrackBuf = createAudioTrackBuf(1024, opts.fps, opts.audioMix);
 
-  return async (timestamp: number, audios: Float32Array[][], hasVideo: boolean) => {
+  const encode = async (
+    timestamp: number,
+    audios: Float32Array[][],
+    hasVideo: boolean,
+    audioMixes?: Array<ITrackMix | undefined>,
+  ) => {
     if (outputAudio !== false) {
-      for (const audioData of audioTrackBuf(timestamp, audios)) {
+      for (const audioData of audioTrackBuf(timestamp, audios, audioMixes)) {
         await muxer.encodeAudio(audioData);
       }
     }
@@ -80,4 +87,14 @@ export function createAVEncoder(opts: {
       }
     }
   };
+
+  /** Encode the audio still held back at the end of the export */
+  const flush = async () => {
+    if (outputAudio === false) return;
+    for (const audioData of audioTrackBuf.flush()) {
+      await muxer.encodeAudio(audioData);
+    }
+  };
+
+  return Object.assign(encode, { flush });
 }
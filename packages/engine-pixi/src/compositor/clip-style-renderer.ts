@@ -18,6 +18,7 @@ import {
   getAllSelectiveHsl,
   hasColorAdjustment,
 } from "../utils/color-adjustment";
+import { createLutFilter } from "../filters/lut-filter";
 
 export interface IPooledClipObjects {
   root: Container;
@@ -195,6 +196,11 @@ export function applyClipStylesAndFilters(opts: {
     filters.push(selectiveHslFilter);
   }
 
+  const lutFilter = createLutFilter(clip.lut);
+  if (lutFilter) {
+    filters.push(lutFilter);
+  }
+
   if (clip.chromaKey && clip.chromaKey.enabled) {
     const chromaUniforms = new UniformGroup({
       uKeyColor: { value: [0, 1, 0], type: "vec3<f32>" },
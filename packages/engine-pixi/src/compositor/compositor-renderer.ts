@@ -1,6 +1,6 @@
 import { Application, Container } from "pixi.js";
 import { type IClip, Transition, DEFAULT_AUDIO_CONF } from "../clips";
-import { PixiSpriteRenderer } from "../sprite/pixi-sprite-renderer";
+import { PixiSpriteRenderer, applyTrackMattes } from "../sprite/pixi-sprite-renderer";
 import { TransitionManager } from "./transition-manager";
 import { EffectManager } from "./effect-manager";
 import { applyAudioFade } from "../utils";
@@ -17,6 +17,8 @@ export interface ISpritesRenderOpts {
 export interface ISpritesRenderResult {
   render: (timestamp: number) => Promise<{
     audios: Float32Array[][];
+    /** ID of the clip each entry of `audios` came from */
+    audioClipIds: string[];
     mainSprDone: boolean;
     hasVideo: boolean;
   }>;
@@ -80,6 +82,7 @@ export function createSpritesRender(opts: ISpritesRenderOpts): ISpritesRenderRes
 
   const render = async (timestamp: number) => {
     const audios: Float32Array[][] = [];
+    const audioClipIds: string[] = [];
     let mainSprDone = false;
     let hasVideo = false;
 
@@ -125,6 +128,7 @@ export function createSpritesRender(opts: ISpritesRenderOpts): ISpritesRenderRes
 
       // Update sprite animation properties FIRST
       sprite.animate(spriteTime);
+      sprite.applyKeyframes(relativeTime);
 
       // ── Text / Caption fast-path ─────────────────────────────────────────────
       if (
@@ -168,6 +172,7 @@ export function createSpritesRender(opts: ISpritesRenderOpts): ISpritesRenderRes
 
         // Text/Caption clips carry no audio
         audios.push([]);
+        audioClipIds.push(sprite.id);
 
         // Handle expiry the same way as the generic path
         const exceededDuration = sprite.duration > 0 && relativeTime > sprite.duration;
@@ -201,11 +206,13 @@ export function createSpritesRender(opts: ISpritesRenderOpts): ISpritesRenderRes
           DEFAULT_AUDIO_CONF.sampleRate,
           sprite.timing?.fadeIn,
           sprite.timing?.fadeOut,
+          sprite.easings,
         );
       }
 
       // Process audio
       audios.push(audio);
+      audioClipIds.push(sprite.id);
 
       const isTransitionable = sprite.type === "Video" || sprite.type === "Image";
       const transitionStartTime = sprite.transition ? sprite.transition.start! : 0;
@@ -301,6 +308,17 @@ export function createSpritesRender(opts: ISpritesRenderOpts): ISpritesRenderRes
       }
     }
 
+    // Track mattes are drawn in project space, at the export scale
+    if (hasVideoTrack && pixiApp != null) {
+      applyTrackMattes(
+        pixiApp.renderer,
+        spriteRenderers,
+        pixiApp.screen.width / scaleX,
+        pixiApp.screen.height / scaleY,
+        Math.max(scaleX, scaleY),
+      );
+    }
+
     // Handle Global Effects rendering
     if (
       hasVideoTrack &&
@@ -341,6 +359,7 @@ export function createSpritesRender(opts: ISpritesRenderOpts): ISpritesRenderRes
 
     return {
       audios,
+      audioClipIds,
       mainSprDone,
       hasVideo,
     };
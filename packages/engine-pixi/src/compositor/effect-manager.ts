@@ -65,7 +65,7 @@ export class EffectManager {
             startTime: sprite.display.from,
             duration: sprite.duration,
             zIndex: sprite.zIndex,
-            values: (sprite as Effect).values,
+            values: (sprite as Effect).getValuesAt(timestamp - sprite.display.from),
           });
         }
       }
@@ -201,6 +201,7 @@ export class EffectManager {
                 progress,
                 width,
                 height,
+                values: effect.values,
               });
               lastResultTexture = resultTexture;
             }
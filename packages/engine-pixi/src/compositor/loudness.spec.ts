@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { Limiter, LoudnessMeter, gainToDb } from "./loudness";
+
+const SAMPLE_RATE = 48000;
+
+/** Interleaved stereo 997 Hz sine, `seconds` long at `dbfs` peak */
+function sine(dbfs: number, seconds: number): Float32Array {
+  const amplitude = 10 ** (dbfs / 20);
+  const frames = Math.round(seconds * SAMPLE_RATE);
+  const pcm = new Float32Array(frames * 2);
+  for (let i = 0; i < frames; i++) {
+    const x = amplitude * Math.sin((2 * Math.PI * 997 * i) / SAMPLE_RATE);
+    pcm[i * 2] = x;
+    pcm[i * 2 + 1] = x;
+  }
+  return pcm;
+}
+
+function measure(...parts: Float32Array[]) {
+  const meter = new LoudnessMeter(SAMPLE_RATE);
+  for (const part of parts) meter.push(part);
+  return meter.stats();
+}
+
+describe("LoudnessMeter", () => {
+  it("should read a stereo sine at its peak level in LUFS", () => {
+    expect(measure(sine(-20, 3)).integrated).toBeCloseTo(-20, 1);
+    expect(measure(sine(-6, 3)).integrated).toBeCloseTo(-6, 1);
+  });
+
+  it("should report -Infinity for silence", () => {
+    expect(measure(new Float32Array(SAMPLE_RATE * 2)).integrated).toBe(-Infinity);
+  });
+
+  it("should ignore blocks below the absolute gate", () => {
+    const { integrated } = measure(
+      sine(-23, 3),
+      new Float32Array(SAMPLE_RATE * 2 * 10),
+      sine(-80, 5),
+    );
+    // Ungated, the 15 s of silence would pull this down to about -30.8
+    expect(integrated).toBeCloseTo(-23, 0);
+    expect(integrated).toBeGreaterThan(-23.5);
+  });
+
+  it("should ignore blocks more than 10 LU below the ungated loudness", () => {
+    const { integrated } = measure(sine(-20, 5), sine(-40, 5));
+    expect(integrated).toBeCloseTo(-20, 0);
+    expect(integrated).toBeGreaterThan(-20.5);
+  });
+
+  it("should keep blocks within 10 LU of the ungated loudness", () => {
+    const { integrated } = measure(sine(-20, 5), sine(-26, 5));
+    // The mean power of -20 and -26 LUFS halves
+    const expected = gainToDb(Math.sqrt((1 + 10 ** (-6 / 10)) / 2)) - 20;
+    expect(integrated).toBeCloseTo(expected, 0);
+    expect(integrated).toBeLessThan(-21);
+  });
+
+  it("should measure the true peak between samples", () => {
+    // A quarter sample-rate sine sampled at ±45° never hits its peak on a sample
+    const pcm = new Float32Array(SAMPLE_RATE * 2);
+    for (let i = 0; i < SAMPLE_RATE; i++) {
+      const x = Math.sin((Math.PI / 2) * i + Math.PI / 4);
+      pcm[i * 2] = x;
+      pcm[i * 2 + 1] = x;
+    }
+    const { truePeak } = measure(pcm);
+    expect(Math.max(...pcm)).toBeCloseTo(Math.SQRT1_2, 5);
+    expect(truePeak).toBeGreaterThan(-1);
+  });
+});
+
+describe("Limiter", () => {
+  it("should keep the output under the ceiling", () => {
+    const limiter = new Limiter(-1, SAMPLE_RATE);
+    const out = [limiter.process(sine(0, 1), 2), limiter.flush()];
+    const ceiling = 10 ** (-1 / 20);
+    for (const pcm of out) {
+      for (const x of pcm) expect(Math.abs(x)).toBeLessThanOrEqual(ceiling + 1e-6);
+    }
+  });
+
+  it("should ease into the ceiling through the soft knee", () => {
+    /** Steady-state gain in dB the limiter applies to a sine at `dbfs` */
+    const reduction = (dbfs: number) => {
+      const limiter = new Limiter(-1, SAMPLE_RATE, { knee: 6 });
+      const out = limiter.process(sine(dbfs, 0.5));
+      const peak = out.subarray(out.length / 2).reduce((max, x) => Math.max(max, Math.abs(x)), 0);
+      return gainToDb(peak) - dbfs;
+    };
+
+    // With a -1 dB ceiling the knee spans -4 to +2 dBFS; d dB into it cuts d² / 12 dB
+    expect(reduction(-5)).toBeCloseTo(0, 2);
+    expect(reduction(-3)).toBeCloseTo(-1 / 12, 2);
+    expect(reduction(0)).toBeCloseTo(-16 / 12, 2);
+    // Past the knee the output sits at the ceiling
+    expect(reduction(6)).toBeCloseTo(-7, 1);
+  });
+
+  it("should return every frame once flushed, in order", () => {
+    const limiter = new Limiter(-1, SAMPLE_RATE);
+    const input = sine(-20, 0.1);
+    const head = limiter.process(input);
+    const tail = limiter.flush();
+    expect(head.length).toBeLessThan(input.length);
+    expect(head.length + tail.length).toBe(input.length);
+
+    const out = new Float32Array(input.length);
+    out.set(head);
+    out.set(tail, head.length);
+    for (let i = 0; i < input.length; i++) expect(out[i]).toBeCloseTo(input[i], 6);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * ITU-R BS.1770 loudness measurement and a true-peak limiter for the export
+ * mix. All PCM here is interleaved stereo, matching the audio mixer's buffer.
+ */
+
+export interface ILoudnessTarget {
+  /** Integrated loudness target in LUFS, e.g. -14 for streaming platforms */
+  lufs: number;
+  /** True-peak ceiling in dBTP, default -1 */
+  truePeak?: number;
+  /**
+   * Most gain in dB normalization may add, default 12. Keeps near-silent
+   * mixes from having their noise floor raised to the target.
+   */
+  maxGain?: number;
+}
+
+export interface ILimiterOpts {
+  /** True-peak ceiling in dBTP, default -1 */
+  ceiling?: number;
+  /** Soft knee width in dB, default 3 */
+  knee?: number;
+}
+
+export interface ILoudnessStats {
+  /** Gated integrated loudness in LUFS (-Infinity for silence) */
+  integrated: number;
+  /** Maximum true peak in dBTP (-Infinity for silence) */
+  truePeak: number;
+}
+
+const CHANNELS = 2;
+
+/** Absolute gate, LUFS */
+const ABSOLUTE_GATE = -70;
+/** Relative gate below the ungated loudness, LU */
+const RELATIVE_GATE = -10;
+
+export function gainToDb(gain: number): number {
+  return 20 * Math.log10(gain);
+}
+
+function powerToLufs(power: number): number {
+  return -0.691 + 10 * Math.log10(power);
+}
+
+// ─── K-weighting ─────────────────────────────────────────────────────────────
+
+class Biquad {
+  private z1 = 0;
+  private z2 = 0;
+
+  constructor(
+    private b0: number,
+    private b1: number,
+    private b2: number,
+    private a1: number,
+    private a2: number,
+  ) {}
+
+  next(x: number): number {
+    const y = this.b0 * x + this.z1;
+    this.z1 = this.b1 * x - this.a1 * y + this.z2;
+    this.z2 = this.b2 * x - this.a2 * y;
+    return y;
+  }
+}
+
+/** BS.1770 pre-filter (high shelf) and RLB high-pass, designed for any sample rate */
+function createKWeighting(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+  const shelf = new Biquad(
+    (Vh + (Vb * K) / Q + K * K) / a0,
+    (2 * (K * K - Vh)) / a0,
+    (Vh - (Vb * K) / Q + K * K) / a0,
+    (2 * (K * K - 1)) / a0,
+    (1 - K / Q + K * K) / a0,
+  );
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = new Biquad(1, -2, 1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0);
+
+  return [shelf, highPass];
+}
+
+// ─── true peak ───────────────────────────────────────────────────────────────
+
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+/** Polyphase windowed-sinc coefficients for 4x interpolation (48 taps) */
+const INTERPOLATION_PHASES: Float64Array[] = Array.from({ length: OVERSAMPLING }, (_, phase) => {
+  const coefs = new Float64Array(TAPS_PER_PHASE);
+  const half = TAPS_PER_PHASE / 2;
+  for (let j = 0; j < TAPS_PER_PHASE; j++) {
+    const u = j - half + phase / OVERSAMPLING;
+    const sinc = u === 0 ? 1 : Math.sin(Math.PI * u) / (Math.PI * u);
+    const window = 0.5 * (1 + Math.cos((Math.PI * u) / (half + 1)));
+    coefs[j] = sinc * window;
+  }
+  return coefs;
+});
+
+/**
+ * Estimates the peak between samples of one channel by 4x oversampling.
+ * Results lag the input by {@link TruePeakDetector.delay} samples.
+ */
+class TruePeakDetector {
+  static readonly delay = TAPS_PER_PHASE / 2;
+  private history = new Float64Array(TAPS_PER_PHASE);
+  private pos = 0;
+
+  /** Push a sample, returns the peak magnitude around the sample `delay` steps back */
+  next(x: number): number {
+    this.pos = (this.pos + TAPS_PER_PHASE - 1) % TAPS_PER_PHASE;
+    this.history[this.pos] = x;
+
+    let peak = 0;
+    for (const coefs of INTERPOLATION_PHASES) {
+      let y = 0;
+      for (let j = 0; j < TAPS_PER_PHASE; j++) {
+        y += coefs[j] * this.history[(this.pos + j) % TAPS_PER_PHASE];
+      }
+      peak = Math.max(peak, Math.abs(y));
+    }
+    return peak;
+  }
+}
+
+// ─── meter ───────────────────────────────────────────────────────────────────
+
+/**
+ * Integrated loudness (gated, 400 ms blocks with 75% overlap) and true peak
+ * of a stereo signal.
+ */
+export class LoudnessMeter {
+  private filters: Array<[Biquad, Biquad]>;
+  private peaks: TruePeakDetector[];
+  private truePeak = 0;
+
+  private readonly stepSize: number;
+  private stepPos = 0;
+  private stepPower = 0;
+  /** Mean square of the last four 100 ms steps */
+  private recentSteps: number[] = [];
+  private blocks: number[] = [];
+
+  constructor(sampleRate: number) {
+    this.filters = Array.from({ length: CHANNELS }, () => createKWeighting(sampleRate));
+    this.peaks = Array.from({ length: CHANNELS }, () => new TruePeakDetector());
+    this.stepSize = Math.round(sampleRate / 10);
+  }
+
+  push(interleaved: Float32Array): void {
+    for (let i = 0; i + CHANNELS <= interleaved.length; i += CHANNELS) {
+      for (let ch = 0; ch < CHANNELS; ch++) {
+        const x = interleaved[i + ch];
+        const [shelf, highPass] = this.filters[ch];
+        const y = highPass.next(shelf.next(x));
+        this.stepPower += y * y;
+        this.truePeak = Math.max(this.truePeak, this.peaks[ch].next(x));
+      }
+
+      if (++this.stepPos === this.stepSize) {
+        this.recentSteps.push(this.stepPower / this.stepSize);
+        if (this.recentSteps.length > 4) this.recentSteps.shift();
+        if (this.recentSteps.length === 4) {
+          this.blocks.push(this.recentSteps.reduce((a, b) => a + b, 0) / 4);
+        }
+        this.stepPos = 0;
+        this.stepPower = 0;
+      }
+    }
+  }
+
+  stats(): ILoudnessStats {
+    const absolute = this.blocks.filter((p) => powerToLufs(p) > ABSOLUTE_GATE);
+    const mean = (powers: number[]) => powers.reduce((a, b) => a + b, 0) / powers.length;
+
+    let integrated = -Infinity;
+    if (absolute.length > 0) {
+      const threshold = powerToLufs(mean(absolute)) + RELATIVE_GATE;
+      const gated = absolute.filter((p) => powerToLufs(p) > threshold);
+      integrated = powerToLufs(mean(gated));
+    }
+    return { integrated, truePeak: gainToDb(this.truePeak) };
+  }
+}
+
+// ─── limiter ─────────────────────────────────────────────────────────────────
+
+/**
+ * Look-ahead limiter with true-peak detection. Gain reduction ramps in over
+ * the look-ahead window so it is fully applied when the peak arrives, then
+ * recovers with the release time constant. With a soft knee, reduction starts
+ * half the knee below the ceiling and curves in, so peaks are rounded off
+ * rather than flattened, while output still never exceeds the ceiling.
+ *
+ * Output is latency compensated: the first call returns fewer frames than it
+ * was given and {@link flush} returns the held-back tail.
+ */
+export class Limiter {
+  private readonly ceiling: number;
+  private readonly ceilingDb: number;
+  private readonly knee: number;
+  private readonly lookahead: number;
+  private readonly releaseCoef: number;
+  private readonly latency: number;
+
+  private detectors: TruePeakDetector[] = [];
+  /** Input frames waiting for their gain */
+  private delay = new Float32Array(0);
+  private delayPos = 0;
+  /** Monotonic deque for the sliding minimum of required gain */
+  private minQueue: Array<{ index: number; gain: number }> = [];
+  private index = 0;
+  private release = 1;
+  /** Ring of released gains averaged over the look-ahead window */
+  private ramp = new Float64Array(0);
+  private rampPos = 0;
+  private rampSum = 0;
+  private skip = 0;
+
+  /**
+   * @param ceilingDb True-peak ceiling in dBTP
+   * @param sampleRate Sample rate of the PCM
+   * @param opts.lookahead Look-ahead in ms, default 1.5
+   * @param opts.release Release in ms, default 60
+   * @param opts.knee Soft knee width in dB, default 0 (brickwall)
+   */
+  constructor(
+    ceilingDb: number,
+    sampleRate: number,
+    opts: { lookahead?: number; release?: number; knee?: number } = {},
+  ) {
+    this.ceiling = 10 ** (ceilingDb / 20);
+    this.ceilingDb = ceilingDb;
+    this.knee = Math.max(0, opts.knee ?? 0);
+    this.lookahead = Math.max(1, Math.round(((opts.lookahead ?? 1.5) / 1000) * sampleRate));
+    this.releaseCoef = Math.exp(-1 / (((opts.release ?? 60) / 1000) * sampleRate));
+    this.latency = this.lookahead + TruePeakDetector.delay;
+    this.reset();
+  }
+
+  /** Apply `gain` and limit; returns the frames that are ready */
+  process(interleaved: Float32Array, gain = 1): Float32Array {
+    const frames = Math.floor(interleaved.length / CHANNELS);
+    const out = new Float32Array(Math.max(0, frames - this.skip) * CHANNELS);
+    let outPos = 0;
+    for (let i = 0; i < frames; i++) {
+      const frame = this.step(
+        interleaved[i * CHANNELS] * gain,
+        interleaved[i * CHANNELS + 1] * gain,
+      );
+      if (this.skip > 0) {
+        this.skip--;
+        continue;
+      }
+      out[outPos++] = frame[0];
+      out[outPos++] = frame[1];
+    }
+    return out;
+  }
+
+  /** Drain the held-back frames and reset for the next run of audio */
+  flush(): Float32Array {
+    const out = this.process(new Float32Array(this.latency * CHANNELS));
+    this.reset();
+    return out;
+  }
+
+  private reset() {
+    this.detectors = Array.from({ length: CHANNELS }, () => new TruePeakDetector());
+    this.delay = new Float32Array((this.latency + 1) * CHANNELS);
+    this.delayPos = 0;
+    this.minQueue = [];
+    this.index = 0;
+    this.release = 1;
+    this.ramp = new Float64Array(this.lookahead).fill(1);
+    this.rampPos = 0;
+    this.rampSum = this.lookahead;
+    this.skip = this.latency;
+  }
+
+  /** Static gain curve: unity below the knee, quadratic through it, ceiling above */
+  private gainFor(peak: number): number {
+    if (this.knee === 0) return peak > this.ceiling ? this.ceiling / peak : 1;
+
+    const level = gainToDb(peak);
+    const over = level - this.ceilingDb + this.knee / 2;
+    if (over <= 0) return 1;
+    if (over >= this.knee) return this.ceiling / peak;
+    return 10 ** (-(over * over) / (2 * this.knee) / 20);
+  }
+
+  private step(left: number, right: number): [number, number] {
+    // Required gain for the sample the detectors just resolved
+    const peak = Math.max(this.detectors[0].next(left), this.detectors[1].next(right));
+    const required = this.gainFor(peak);
+
+    const queue = this.minQueue;
+    while (queue.length > 0 && queue[queue.length - 1].gain >= required) queue.pop();
+    queue.push({ index: this.index, gain: required });
+    while (queue[0].index <= this.index - this.lookahead - 1) queue.shift();
+    this.index++;
+
+    // Minimum over the look-ahead window, released slowly and ramped in
+    const held = queue[0].gain;
+    this.release = held < this.release ? held : held + this.releaseCoef * (this.release - held);
+    this.rampSum += this.release - this.ramp[this.rampPos];
+    this.ramp[this.rampPos] = this.release;
+    this.rampPos = (this.rampPos + 1) % this.lookahead;
+    const gain = Math.min(1, this.rampSum / this.lookahead);
+
+    const slots = this.delay.length / CHANNELS;
+    const readPos = (this.delayPos + 1) % slots;
+    const frame: [number, number] = [
+      this.delay[readPos * CHANNELS] * gain,
+      this.delay[readPos * CHANNELS + 1] * gain,
+    ];
+    this.delay[this.delayPos * CHANNELS] = left;
+    this.delay[this.delayPos * CHANNELS + 1] = right;
+    this.delayPos = readPos;
+    return frame;
+  }
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect } from "vitest";
+import { embedMp4TextTracks } from "./mp4-text-tracks";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function u16(value: number): Uint8Array {
+  return Uint8Array.of((value >> 8) & 0xff, value & 0xff);
+}
+
+function u32(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value);
+  return out;
+}
+
+function box(type: string, ...parts: Uint8Array[]): Uint8Array {
+  const payload = concat(...parts);
+  return concat(u32(payload.length + 8), encoder.encode(type), payload);
+}
+
+function fullBox(type: string, flags: number, ...parts: Uint8Array[]): Uint8Array {
+  return box(type, u32(flags), ...parts);
+}
+
+const MATRIX = concat(...[0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000].map(u32));
+const MEDIA = encoder.encode("VIDEO");
+
+/** A 640x360 movie with one video track whose only chunk is `MEDIA`, in a trailing mdat */
+function movie(): Uint8Array {
+  const ftyp = box("ftyp", encoder.encode("isom"), u32(0));
+  const build = (chunkOffset: number) => {
+    const mvhd = fullBox(
+      "mvhd",
+      0,
+      u32(0),
+      u32(0),
+      u32(1000), // timescale
+      u32(4000), // duration
+      u32(0x10000),
+      u16(0x100),
+      new Uint8Array(10),
+      MATRIX,
+      new Uint8Array(24),
+      u32(2), // next_track_ID
+    );
+    const tkhd = fullBox(
+      "tkhd",
+      3,
+      u32(0),
+      u32(0),
+      u32(1), // track_ID
+      u32(0),
+      u32(4000),
+      new Uint8Array(8),
+      u16(0),
+      u16(0),
+      u16(0),
+      u16(0),
+      MATRIX,
+      u32(640 * 0x10000),
+      u32(360 * 0x10000),
+    );
+    const hdlr = fullBox("hdlr", 0, u32(0), encoder.encode("vide"), new Uint8Array(12), u16(0));
+    const stco = fullBox("stco", 0, u32(1), u32(chunkOffset));
+    const minf = box("minf", box("stbl", stco));
+    return box("moov", mvhd, box("trak", tkhd, box("mdia", hdlr, minf)));
+  };
+  const moovSize = build(0).length;
+  return concat(ftyp, build(ftyp.length + moovSize + 8), box("mdat", MEDIA));
+}
+
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+const u32At = (bytes: Uint8Array, pos: number) => view(bytes).getUint32(pos);
+
+/** The child boxes of `parent` (or of a whole file), with their headers */
+function boxes(parent: Uint8Array, header = 8): Array<[string, Uint8Array]> {
+  const out: Array<[string, Uint8Array]> = [];
+  for (let pos = header; pos < parent.length; ) {
+    const size = u32At(parent, pos);
+    out.push([decoder.decode(parent.subarray(pos + 4, pos + 8)), parent.subarray(pos, pos + size)]);
+    pos += size;
+  }
+  return out;
+}
+
+/** Every box at `path` below `parent`, e.g. `find(file, "moov", "trak")` */
+function find(parent: Uint8Array, ...path: string[]): Uint8Array[] {
+  const [type, ...rest] = path;
+  const matches = boxes(parent)
+    .filter(([t]) => t === type)
+    .map(([, bytes]) => bytes);
+  return rest.length === 0 ? matches : matches.flatMap((match) => find(match, ...rest));
+}
+
+/** Boxes at `path` from the start of a file */
+function findInFile(file: Uint8Array, ...path: string[]): Uint8Array[] {
+  const [type, ...rest] = path;
+  const top = boxes(file, 0)
+    .filter(([t]) => t === type)
+    .map(([, bytes]) => bytes);
+  return rest.length === 0 ? top : top.flatMap((match) => find(match, ...rest));
+}
+
+/** A track's handler type, e.g. "vide" or "sbtl" */
+const handlerOf = (trak: Uint8Array) => decoder.decode(find(trak, "mdia", "hdlr")[0].slice(16, 20));
+
+/** The sample durations of a track's stts, expanded */
+function sampleDurations(trak: Uint8Array): number[] {
+  const stts = find(trak, "mdia", "minf", "stbl", "stts")[0];
+  const durations: number[] = [];
+  for (let i = 0; i < u32At(stts, 12); i++) {
+    const count = u32At(stts, 16 + i * 8);
+    durations.push(...Array<number>(count).fill(u32At(stts, 20 + i * 8)));
+  }
+  return durations;
+}
+
+/** The text of a track's samples, read from the chunk its stco points at */
+function sampleTexts(file: Uint8Array, trak: Uint8Array): string[] {
+  const stbl = find(trak, "mdia", "minf", "stbl")[0];
+  const stsz = find(stbl, "stsz")[0];
+  let pos = u32At(find(stbl, "stco")[0], 16);
+  const texts: string[] = [];
+  for (let i = 0; i < u32At(stsz, 16); i++) {
+    const size = u32At(stsz, 20 + i * 4);
+    const length = view(file).getUint16(pos);
+    expect(length + 2).toBe(size);
+    texts.push(decoder.decode(file.subarray(pos + 2, pos + 2 + length)));
+    pos += size;
+  }
+  return texts;
+}
+
+const subtitleOpts = {
+  subtitles: [
+    { start: 1_000_000, end: 2_500_000, text: "Hello" },
+    { start: 2_500_000, end: 3_000_000, text: "Wörld" },
+  ],
+  subtitleLanguage: "eng",
+  subtitleName: "English",
+  chapters: [],
+  duration: 4_000_000,
+};
+
+describe("embedMp4TextTracks", () => {
+  it("should add a tx3g subtitle track with gaps filled by empty samples", () => {
+    const out = embedMp4TextTracks(movie(), subtitleOpts);
+    const traks = findInFile(out, "moov", "trak");
+    expect(traks.map(handlerOf)).toEqual(["vide", "sbtl"]);
+
+    const subtitles = traks[1];
+    expect(u32At(find(subtitles, "tkhd")[0], 20)).toBe(2); // track_ID
+    const stsd = find(subtitles, "mdia", "minf", "stbl", "stsd")[0];
+    expect(decoder.decode(stsd.subarray(20, 24))).toBe("tx3g");
+    expect(sampleDurations(subtitles)).toEqual([1000, 1500, 500, 1000]);
+    expect(sampleTexts(out, subtitles)).toEqual(["", "Hello", "Wörld", ""]);
+
+    // The media timescale is in ms and the language is packed ISO-639-2
+    const mdhd = find(subtitles, "mdia", "mdhd")[0];
+    expect(u32At(mdhd, 20)).toBe(1000);
+    expect(u32At(mdhd, 24)).toBe(4000);
+    const language = view(mdhd).getUint16(28);
+    expect(
+      [10, 5, 0].map((shift) => String.fromCharCode(((language >> shift) & 0x1f) + 0x60)).join(""),
+    ).toBe("eng");
+
+    // The movie's next track id moves past the new track
+    const mvhd = findInFile(out, "moov", "mvhd")[0];
+    expect(u32At(mvhd, mvhd.length - 4)).toBe(3);
+  });
+
+  it("should shift existing chunk offsets past the grown moov", () => {
+    const out = embedMp4TextTracks(movie(), subtitleOpts);
+    const video = findInFile(out, "moov", "trak")[0];
+    const offset = u32At(find(video, "mdia", "minf", "stbl", "stco")[0], 16);
+    expect(decoder.decode(out.subarray(offset, offset + MEDIA.length))).toBe("VIDEO");
+  });
+
+  it("should add chapters as a disabled text track and a Nero chapter list", () => {
+    const out = embedMp4TextTracks(movie(), {
+      ...subtitleOpts,
+      subtitles: [],
+      chapters: [
+        { start: 0, end: 2_000_000, text: "Intro" },
+        { start: 2_000_000, end: 4_000_000, text: "Outro" },
+      ],
+    });
+    const [video, chapters] = findInFile(out, "moov", "trak");
+    expect(handlerOf(chapters)).toBe("text");
+    expect(u32At(find(chapters, "tkhd")[0], 8) & 0xffffff).toBe(0x2); // in movie, not enabled
+    expect(sampleDurations(chapters)).toEqual([2000, 2000]);
+    expect(sampleTexts(out, chapters)).toEqual(["Intro", "Outro"]);
+
+    // The video track refers to its chapter track
+    const chap = find(video, "tref", "chap")[0];
+    expect(u32At(chap, 8)).toBe(u32At(find(chapters, "tkhd")[0], 20));
+
+    // chpl start times are in 100 ns units
+    const chpl = findInFile(out, "moov", "udta", "chpl")[0];
+    expect(chpl[16]).toBe(2);
+    const second = 17 + 8 + 1 + "Intro".length;
+    expect(Number(view(chpl).getBigUint64(second))).toBe(20_000_000);
+    expect(decoder.decode(chpl.subarray(second + 9, second + 9 + chpl[second + 8]))).toBe("Outro");
+  });
+
+  it("should refuse a file without a moov box", () => {
+    expect(() => embedMp4TextTracks(box("mdat", MEDIA), subtitleOpts)).toThrow(/moov/);
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Post-mux rewriting of a non-fragmented MP4/MOV: appends a mov_text (tx3g)
+ * subtitle track, a QuickTime chapter track and a Nero `chpl` chapter list.
+ * Sample data goes into a trailing mdat; existing chunk offsets are shifted
+ * by however much the moov box grew.
+ */
+import type { ITextTrackSample } from "./text-tracks";
+
+interface Mp4Box {
+  type: string;
+  /** Absolute offset of the box in the source file */
+  start: number;
+  /** Full box bytes for leaves (a view into the source) */
+  raw: Uint8Array;
+  children?: Mp4Box[];
+}
+
+const CONTAINERS = new Set(["moov", "trak", "mdia", "minf", "stbl", "udta", "dinf", "edts"]);
+
+const encoder = new TextEncoder();
+
+// ─── bytes ───────────────────────────────────────────────────────────────────
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function u8(value: number): Uint8Array {
+  return Uint8Array.of(value & 0xff);
+}
+
+function u16(value: number): Uint8Array {
+  return Uint8Array.of((value >> 8) & 0xff, value & 0xff);
+}
+
+function u32(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value >>> 0);
+  return out;
+}
+
+function u64(value: number): Uint8Array {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setBigUint64(0, BigInt(Math.max(0, Math.round(value))));
+  return out;
+}
+
+function box(type: string, ...parts: Uint8Array[]): Uint8Array {
+  const payload = concat(parts);
+  return concat([u32(payload.length + 8), encoder.encode(type), payload]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...parts: Uint8Array[]): Uint8Array {
+  return box(type, u32(((version & 0xff) << 24) | (flags & 0xffffff)), ...parts);
+}
+
+// ─── parsing ─────────────────────────────────────────────────────────────────
+
+function parseBoxes(bytes: Uint8Array, from: number, to: number): Mp4Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Mp4Box[] = [];
+  let offset = from;
+
+  while (offset + 8 <= to) {
+    let size = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = to - offset;
+    }
+    if (size < header || offset + size > to) break;
+
+    const parsed: Mp4Box = { type, start: offset, raw: bytes.subarray(offset, offset + size) };
+    if (CONTAINERS.has(type)) {
+      parsed.children = parseBoxes(bytes, offset + header, offset + size);
+    }
+    boxes.push(parsed);
+    offset += size;
+  }
+  return boxes;
+}
+
+function findChild(parent: Mp4Box, type: string): Mp4Box | undefined {
+  return parent.children?.find((child) => child.type === type);
+}
+
+function handlerType(trak: Mp4Box): string | undefined {
+  const hdlr = findChild(findChild(trak, "mdia") ?? trak, "hdlr");
+  return hdlr ? String.fromCharCode(...hdlr.raw.subarray(16, 20)) : undefined;
+}
+
+function serialize(node: Mp4Box): Uint8Array {
+  if (!node.children) return node.raw;
+  return box(node.type, ...node.children.map(serialize));
+}
+
+function serializedSize(node: Mp4Box): number {
+  if (!node.children) return node.raw.length;
+  return 8 + node.children.reduce((n, child) => n + serializedSize(child), 0);
+}
+
+/** Move every stco/co64 entry that points past `after` by `delta`. */
+function shiftChunkOffsets(node: Mp4Box, after: number, delta: number): void {
+  for (const child of node.children ?? []) {
+    if (child.type === "stco" || child.type === "co64") {
+      const raw = child.raw.slice();
+      const view = new DataView(raw.buffer);
+      const count = view.getUint32(12);
+      const wide = child.type === "co64";
+      for (let i = 0; i < count; i++) {
+        const pos = 16 + i * (wide ? 8 : 4);
+        if (wide) {
+          const value = view.getBigUint64(pos);
+          if (value > BigInt(after)) view.setBigUint64(pos, value + BigInt(delta));
+        } else {
+          const value = view.getUint32(pos);
+          if (value > after) view.setUint32(pos, value + delta);
+        }
+      }
+      child.raw = raw;
+    } else {
+      shiftChunkOffsets(child, after, delta);
+    }
+  }
+}
+
+// ─── text track ──────────────────────────────────────────────────────────────
+
+/** ISO-639-2/T code packed into 15 bits as mdhd expects */
+function packLanguage(language: string): number {
+  const code = /^[a-z]{3}$/.test(language) ? language : "und";
+  return [...code].reduce((n, c) => (n << 5) | (c.charCodeAt(0) - 0x60), 0);
+}
+
+function encodeSample(text: string): Uint8Array {
+  const utf8 = encoder.encode(text).subarray(0, 0xffff);
+  return concat([u16(utf8.length), utf8]);
+}
+
+/**
+ * Lay samples out on a gap-free timeline (tx3g has no notion of "nothing
+ * displayed", so gaps become empty samples). Times are in ms.
+ */
+function buildTimeline(samples: ITextTrackSample[], durationMs: number) {
+  const entries: Array<{ duration: number; data: Uint8Array }> = [];
+  let cursor = 0;
+  for (const sample of samples) {
+    const start = Math.max(cursor, Math.round(sample.start / 1000));
+    const end = Math.round(sample.end / 1000);
+    if (end <= start) continue;
+    if (start > cursor) entries.push({ duration: start - cursor, data: encodeSample("") });
+    entries.push({ duration: end - start, data: encodeSample(sample.text) });
+    cursor = end;
+  }
+  if (durationMs > cursor) entries.push({ duration: durationMs - cursor, data: encodeSample("") });
+  return entries;
+}
+
+function tx3gSampleEntry(videoHeight: number): Uint8Array {
+  const fontSize = Math.min(255, Math.max(12, Math.round(videoHeight * 0.05)));
+  const fontName = encoder.encode("Sans-Serif");
+  return box(
+    "tx3g",
+    new Uint8Array(6), // reserved
+    u16(1), // data_reference_index
+    u32(0), // displayFlags
+    u8(1), // horizontal-justification: centre
+    u8(-1), // vertical-justification: bottom
+    u32(0), // background RGBA
+    new Uint8Array(8), // default text box
+    // StyleRecord: startChar, endChar, font-ID, face flags, size, RGBA
+    u16(0),
+    u16(0),
+    u16(1),
+    u8(0),
+    u8(fontSize),
+    Uint8Array.of(0xff, 0xff, 0xff, 0xff),
+    box("ftab", u16(1), u16(1), u8(fontName.length), fontName),
+  );
+}
+
+function sampleTable(
+  entries: Array<{ duration: number; data: Uint8Array }>,
+  chunkOffset: number,
+  videoHeight: number,
+): Uint8Array {
+  const runs: Array<[number, number]> = [];
+  for (const { duration } of entries) {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === duration) last[0]++;
+    else runs.push([1, duration]);
+  }
+
+  return box(
+    "stbl",
+    fullBox("stsd", 0, 0, u32(1), tx3gSampleEntry(videoHeight)),
+    fullBox("stts", 0, 0, u32(runs.length), ...runs.flatMap(([n, d]) => [u32(n), u32(d)])),
+    fullBox("stsc", 0, 0, u32(1), u32(1), u32(entries.length), u32(1)),
+    fullBox("stsz", 0, 0, u32(0), u32(entries.length), ...entries.map((e) => u32(e.data.length))),
+    fullBox("stco", 0, 0, u32(1), u32(chunkOffset)),
+  );
+}
+
+function textTrak(opts: {
+  trackId: number;
+  handler: "sbtl" | "text";
+  name: string;
+  language: string;
+  enabled: boolean;
+  entries: Array<{ duration: number; data: Uint8Array }>;
+  movieTimescale: number;
+  chunkOffset: number;
+  width: number;
+  height: number;
+}): Uint8Array {
+  const durationMs = opts.entries.reduce((n, e) => n + e.duration, 0);
+  const movieDuration = Math.round((durationMs / 1000) * opts.movieTimescale);
+  const matrix = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+  const tkhd = fullBox(
+    "tkhd",
+    0,
+    opts.enabled ? 0x3 : 0x2,
+    u32(0), // creation_time
+    u32(0), // modification_time
+    u32(opts.trackId),
+    u32(0),
+    u32(movieDuration),
+    new Uint8Array(8),
+    u16(0), // layer
+    u16(0), // alternate_group
+    u16(0), // volume
+    u16(0),
+    ...matrix.map(u32),
+    u32(opts.width * 0x10000),
+    u32(opts.height * 0x10000),
+  );
+
+  const mdhd = fullBox(
+    "mdhd",
+    0,
+    0,
+    u32(0),
+    u32(0),
+    u32(1000),
+    u32(durationMs),
+    u16(packLanguage(opts.language)),
+    u16(0),
+  );
+
+  const hdlr = fullBox(
+    "hdlr",
+    0,
+    0,
+    u32(0),
+    encoder.encode(opts.handler),
+    new Uint8Array(12),
+    encoder.encode(opts.name),
+    u8(0),
+  );
+
+  const dinf = box("dinf", fullBox("dref", 0, 0, u32(1), fullBox("url ", 0, 1)));
+  const minf = box(
+    "minf",
+    fullBox("nmhd", 0, 0),
+    dinf,
+    sampleTable(opts.entries, opts.chunkOffset, opts.height),
+  );
+
+  return box("trak", tkhd, box("mdia", mdhd, hdlr, minf));
+}
+
+/** Nero chapter list (moov/udta/chpl), start times in 100 ns units */
+function chplBox(chapters: ITextTrackSample[]): Uint8Array {
+  const entries = chapters.slice(0, 255).map((chapter) => {
+    const title = encoder.encode(chapter.text).subarray(0, 255);
+    return concat([u64(chapter.start * 10), u8(title.length), title]);
+  });
+  return fullBox("chpl", 1, 0, u32(0), u8(entries.length), ...entries);
+}
+
+// ─── entry point ─────────────────────────────────────────────────────────────
+
+export function embedMp4TextTracks(
+  bytes: Uint8Array,
+  opts: {
+    subtitles: ITextTrackSample[];
+    subtitleLanguage: string;
+    subtitleName: string;
+    chapters: ITextTrackSample[];
+    duration: number;
+  },
+): Uint8Array {
+  const topLevel = parseBoxes(bytes, 0, bytes.length);
+  const moov = topLevel.find((b) => b.type === "moov");
+  const mvhd = moov && findChild(moov, "mvhd");
+  if (!moov || !mvhd) throw new Error("Cannot embed text tracks: moov box not found");
+
+  const mvhdView = new DataView(mvhd.raw.buffer, mvhd.raw.byteOffset, mvhd.raw.byteLength);
+  const movieTimescale = mvhdView.getUint32(mvhd.raw[8] === 1 ? 28 : 20);
+  const nextTrackIdPos = mvhd.raw.length - 4;
+  let nextTrackId = mvhdView.getUint32(nextTrackIdPos);
+
+  const traks = moov.children!.filter((b) => b.type === "trak");
+  const videoTrak = traks.find((t) => handlerType(t) === "vide");
+  let width = 0;
+  let height = 0;
+  if (videoTrak) {
+    const tkhd = findChild(videoTrak, "tkhd")!;
+    const view = new DataView(tkhd.raw.buffer, tkhd.raw.byteOffset, tkhd.raw.byteLength);
+    width = view.getUint32(tkhd.raw.length - 8) >>> 16;
+    height = view.getUint32(tkhd.raw.length - 4) >>> 16;
+  }
+
+  const durationMs = Math.round(opts.duration / 1000);
+  const subtitleEntries =
+    opts.subtitles.length > 0 ? buildTimeline(opts.subtitles, durationMs) : [];
+  const chapterEntries = opts.chapters.length > 0 ? buildTimeline(opts.chapters, durationMs) : [];
+  const subtitleData = concat(subtitleEntries.map((e) => e.data));
+  const chapterData = concat(chapterEntries.map((e) => e.data));
+
+  const subtitleTrackId = subtitleEntries.length > 0 ? nextTrackId++ : 0;
+  const chapterTrackId = chapterEntries.length > 0 ? nextTrackId++ : 0;
+
+  const buildMoov = (mdatPayloadStart: number): Mp4Box => {
+    const mvhdRaw = mvhd.raw.slice();
+    new DataView(mvhdRaw.buffer).setUint32(nextTrackIdPos, nextTrackId);
+
+    const children: Mp4Box[] = moov.children!.map((child) => {
+      if (child === mvhd) return { ...child, raw: mvhdRaw };
+      if (child === videoTrak && chapterTrackId) {
+        // Point the video track at its chapter track (tref/chap)
+        const tref = box("tref", box("chap", u32(chapterTrackId)));
+        const [tkhd, ...rest] = child.children!;
+        return {
+          ...child,
+          children: [tkhd, { type: "tref", start: -1, raw: tref }, ...rest],
+        };
+      }
+      return child;
+    });
+
+    const added: Mp4Box[] = [];
+    if (subtitleTrackId) {
+      added.push({
+        type: "trak",
+        start: -1,
+        raw: textTrak({
+          trackId: subtitleTrackId,
+          handler: "sbtl",
+          name: opts.subtitleName,
+          language: opts.subtitleLanguage,
+          enabled: true,
+          entries: subtitleEntries,
+          movieTimescale,
+          chunkOffset: mdatPayloadStart,
+          width,
+          height,
+        }),
+      });
+    }
+    if (chapterTrackId) {
+      added.push({
+        type: "trak",
+        start: -1,
+        raw: textTrak({
+          trackId: chapterTrackId,
+          handler: "text",
+          name: "Chapters",
+          language: "und",
+          enabled: false,
+          entries: chapterEntries,
+          movieTimescale,
+          chunkOffset: mdatPayloadStart + subtitleData.length,
+          width: 0,
+          height: 0,
+        }),
+      });
+    }
+
+    const udtaIndex = children.findIndex((c) => c.type === "udta");
+    if (opts.chapters.length > 0) {
+      const chpl: Mp4Box = { type: "chpl", start: -1, raw: chplBox(opts.chapters) };
+      if (udtaIndex === -1) {
+        children.push({ type: "udta", start: -1, raw: new Uint8Array(), children: [chpl] });
+      } else {
+        const udta = children[udtaIndex];
+        children[udtaIndex] = {
+          ...udta,
+          children: [...udta.children!.filter((c) => c.type !== "chpl"), chpl],
+        };
+      }
+    }
+
+    // New tracks go before udta so traks stay grouped
+    const insertAt = children.findIndex((c) => c.type === "udta");
+    children.splice(insertAt === -1 ? children.length : insertAt, 0, ...added);
+    return { ...moov, children };
+  };
+
+  // Sizes don't depend on offset values, so measure once, then build for real
+  const growth = serializedSize(buildMoov(0)) - moov.raw.length;
+  const mdatPayloadStart = bytes.length + growth + 8;
+  const newMoov = buildMoov(mdatPayloadStart);
+  shiftChunkOffsets(newMoov, moov.start, growth);
+
+  const textData = concat([subtitleData, chapterData]);
+  return concat([
+    ...topLevel.map((b) => (b === moov ? serialize(newMoov) : b.raw)),
+    ...(textData.length > 0 ? [box("mdat", textData)] : []),
+  ]);
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { Audio, DEFAULT_AUDIO_CONF } from "../clips";
+import { createReversedAudio } from "./reverse-audio";
+
+const { sampleRate } = DEFAULT_AUDIO_CONF;
+
+/** A two-second clip whose samples count up from 0, the right channel negated */
+async function ramp(): Promise<Audio> {
+  const left = Float32Array.from({ length: sampleRate * 2 }, (_, i) => i / sampleRate);
+  const clip = new Audio([left, left.map((x) => -x)]);
+  clip.id = "a";
+  await clip.ready;
+  return clip;
+}
+
+describe("createReversedAudio", () => {
+  it("should play the trimmed samples last to first", async () => {
+    const clip = await ramp();
+    clip.trim = { from: 500_000, to: 1_500_000 };
+    clip.reversed = true;
+
+    const reversed = (await createReversedAudio(clip))!;
+    const [left, right] = reversed.getPCMData();
+    expect(left).toHaveLength(sampleRate);
+    expect(left[0]).toBeCloseTo(1.5 - 1 / sampleRate, 6);
+    expect(left[left.length - 1]).toBeCloseTo(0.5, 6);
+    expect(right[0]).toBeCloseTo(-left[0], 6);
+    expect(left.every((x, i) => i === 0 || x < left[i - 1])).toBe(true);
+  });
+
+  it("should keep the clip's place and rebase its trim to the reversed buffer", async () => {
+    const clip = await ramp();
+    clip.trim = { from: 500_000, to: 1_500_000 };
+    clip.display = { from: 3_000_000, to: 4_000_000 };
+    clip.volume = 0.5;
+    clip.reversed = true;
+
+    const reversed = (await createReversedAudio(clip))!;
+    expect(reversed.id).toBe("a");
+    expect(reversed.reversed).toBe(false);
+    expect(reversed.display).toEqual({ from: 3_000_000, to: 4_000_000 });
+    expect(reversed.trim).toEqual({ from: 0, to: 1_000_000 });
+    expect(reversed.volume).toBe(0.5);
+    // The source clip still plays its own samples
+    expect(clip.getPCMData()[0][0]).toBe(0);
+  });
+
+  it("should return null for an empty trim range", async () => {
+    const clip = await ramp();
+    clip.trim = { from: 1_000_000, to: 1_000_000 };
+    expect(await createReversedAudio(clip)).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { Audio } from "../clips/audio-clip";
+import { Video } from "../clips/video-clip";
+import { DEFAULT_AUDIO_CONF } from "../clips/iclip";
+
+/** Step when pulling decoded audio out of a Video, below its 100ms seek threshold */
+const DECODE_STEP = 50e3;
+
+/**
+ * Render the audio of a reversed clip as a forward-playing Audio clip.
+ *
+ * Decoders only run forwards, so the trimmed source range is decoded once and
+ * its samples are flipped. The result keeps the clip's display range, rate
+ * and fades, with its trim rebased to the reversed buffer.
+ * Returns null when the clip has no audio.
+ */
+export async function createReversedAudio(clip: Audio | Video): Promise<Audio | null> {
+  await clip.ready;
+  const { from, to } = clip.trim;
+  const pcm = clip instanceof Audio ? sliceAudio(clip, from, to) : await decodeVideoAudio(clip);
+  if (pcm == null || pcm[0].length === 0) return null;
+
+  for (const chan of pcm) chan.reverse();
+  const reversed = new Audio(pcm, {}, clip.src);
+  await reversed.ready;
+  clip.copyStateTo(reversed);
+  reversed.id = clip.id;
+  reversed.reversed = false;
+  reversed.trim = { from: 0, to: (pcm[0].length / DEFAULT_AUDIO_CONF.sampleRate) * 1e6 };
+  // Video audio is decoded with its volume already applied
+  if (clip instanceof Video) reversed.volume = 1;
+  return reversed;
+}
+
+function sliceAudio(clip: Audio, from: number, to: number): Float32Array[] {
+  const start = Math.floor((from / 1e6) * DEFAULT_AUDIO_CONF.sampleRate);
+  const end = Math.ceil((to / 1e6) * DEFAULT_AUDIO_CONF.sampleRate);
+  return clip.getPCMData().map((chan) => chan.slice(start, end));
+}
+
+async function decodeVideoAudio(clip: Video): Promise<Float32Array[] | null> {
+  const source = await clip.cloneAudioOnly();
+  source.reversed = false;
+  source.speedRamp = undefined;
+  source.playbackRate = 1;
+
+  const length = clip.trim.to - clip.trim.from;
+  const chunks: Float32Array[][] = [];
+  try {
+    for (let time = 0; ; time = Math.min(time + DECODE_STEP, length)) {
+      const { audio, state } = await source.tick(time);
+      if (audio.length > 0) chunks.push(audio);
+      if (state === "done" || time >= length) break;
+    }
+  } finally {
+    source.destroy();
+  }
+
+  // Mono frames carry a single channel
+  return [0, 1].map((c) => {
+    const chans = chunks.map((chunk) => chunk[c] ?? chunk[0]);
+    const out = new Float32Array(chans.reduce((n, chan) => n + chan.length, 0));
+    let offset = 0;
+    for (const chan of chans) {
+      out.set(chan, offset);
+      offset += chan.length;
+    }
+    return out;
+  });
+}
@@ -0,0 +1,89 @@
+import { embedMp4TextTracks } from "./mp4-text-tracks";
+import { embedWebmTextTracks } from "./webm-text-tracks";
+
+/** A timed text sample; times in microseconds */
+export interface ITextTrackSample {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ITextTracksOpts {
+  format: string;
+  subtitles: ITextTrackSample[];
+  /** ISO 639-2 language code of the subtitle track */
+  subtitleLanguage: string;
+  subtitleName: string;
+  chapters: ITextTrackSample[];
+  /** Output duration in microseconds, used to close the last chapter */
+  duration: number;
+}
+
+const ISOBMFF_FORMATS = new Set(["mp4", "mov"]);
+const MATROSKA_FORMATS = new Set(["webm", "mkv"]);
+
+export function supportsTextTracks(format: string): boolean {
+  const f = format.toLowerCase();
+  return ISOBMFF_FORMATS.has(f) || MATROSKA_FORMATS.has(f);
+}
+
+/**
+ * Add subtitle and chapter tracks to a finished file.
+ */
+export function embedTextTracks(bytes: Uint8Array, opts: ITextTracksOpts): Uint8Array {
+  if (opts.subtitles.length === 0 && opts.chapters.length === 0) return bytes;
+  const format = opts.format.toLowerCase();
+  if (ISOBMFF_FORMATS.has(format)) return embedMp4TextTracks(bytes, opts);
+  if (MATROSKA_FORMATS.has(format)) return embedWebmTextTracks(bytes, opts);
+  return bytes;
+}
+
+/**
+ * Buffer a muxer stream and re-emit it with text tracks embedded. Text tracks
+ * can only be written once every chunk offset is final, so the whole file is
+ * held in memory (twice, briefly, while the tracks are written) and released
+ * in one piece when the muxer finishes. Only wrap exports that have subtitle
+ * or chapter samples to write.
+ *
+ * Cancelling the returned stream cancels `stream` and calls `onCancel`, so the
+ * export feeding it can stop too.
+ */
+export function withTextTracks(
+  stream: ReadableStream<Uint8Array>,
+  opts: ITextTracksOpts,
+  onCancel?: () => void,
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  let cancelled = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        for (let read = await reader.read(); !read.done; read = await reader.read()) {
+          chunks.push(read.value);
+          size += read.value.byteLength;
+        }
+        if (cancelled) return;
+
+        const bytes = new Uint8Array(size);
+        let offset = 0;
+        for (const chunk of chunks) {
+          bytes.set(chunk, offset);
+          offset += chunk.byteLength;
+        }
+        chunks.length = 0;
+        controller.enqueue(embedTextTracks(bytes, opts));
+        controller.close();
+      } catch (err) {
+        if (!cancelled) controller.error(err);
+      }
+    },
+    async cancel(reason) {
+      cancelled = true;
+      onCancel?.();
+      await reader.cancel(reason);
+    },
+  });
+}
@@ -1,6 +1,7 @@
 import { Application, Container, RenderTexture, Sprite, Graphics, Texture } from "pixi.js";
 import { type IClip, Transition } from "../clips";
 import { makeTransition } from "../transition/transition";
+import { resolveEasing } from "@openvideo/core";
 import { applyClipStylesAndFilters, type IPooledClipObjects } from "./clip-style-renderer";
 
 export class TransitionManager {
@@ -84,6 +85,7 @@ export class TransitionManager {
     const relTime = Math.max(0, Math.min(timestamp - clip.display.from, clip.duration));
     // Ensure animation state is updated for the sampled timestamp
     clip.animate(relTime * clip.playbackRate);
+    clip.applyKeyframes(relTime);
 
     const { video } = await getFrameCached(clip, relTime);
     return video;
@@ -164,7 +166,10 @@ export class TransitionManager {
       return false;
     }
 
-    const progress = Math.min(Math.max(relativeTime / sprite.duration, 0), 1);
+    const progress = resolveEasing(
+      sprite.easing,
+      sprite.easings,
+    )(Math.min(Math.max(relativeTime / sprite.duration, 0), 1));
 
     this.renderClipToTransitionTexture(fromClip, fromFrame, this.transFromTexture);
     this.renderClipToTransitionTexture(toClip, toFrame, this.transToTexture);
@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import { embedWebmTextTracks } from "./webm-text-tracks";
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  Language: 0x22b59c,
+  Name: 0x536e,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  Cues: 0x1c53bb6b,
+  Chapters: 0x1043a770,
+  EditionEntry: 0x45b9,
+  ChapterAtom: 0xb6,
+  ChapterTimeStart: 0x91,
+  ChapterTimeEnd: 0x92,
+  ChapterDisplay: 0x80,
+  ChapString: 0x85,
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** Big-endian bytes of `value`, at least one */
+function bytesOf(value: number): Uint8Array {
+  const out: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) out.unshift(v % 256);
+  return Uint8Array.from(out.length > 0 ? out : [0]);
+}
+
+/** An element with a fixed 8-byte size, as muxers that patch sizes afterwards write them */
+function element(id: number, ...parts: Uint8Array[]): Uint8Array {
+  const payload = concat(...parts);
+  const size = new Uint8Array(8);
+  new DataView(size.buffer).setBigUint64(0, BigInt(payload.length));
+  size[0] = 0x01;
+  return concat(bytesOf(id), size, payload);
+}
+
+const uint = (id: number, value: number) => element(id, bytesOf(value));
+const string = (id: number, value: string) => element(id, encoder.encode(value));
+
+/** A WebM with one video track and clusters at 0 s and 1 s, ticking in `timestampScale` ns */
+function webm(timestampScale = 1_000_000): Uint8Array {
+  const ticks = (seconds: number) => (seconds * 1e9) / timestampScale;
+  const frame = (trackNumber: number) =>
+    element(ID.SimpleBlock, Uint8Array.of(0x80 | trackNumber, 0, 0, 0x80));
+  return concat(
+    element(ID.EBML, string(0x4282, "webm")),
+    element(
+      ID.Segment,
+      element(ID.SeekHead),
+      element(ID.Info, uint(ID.TimestampScale, timestampScale)),
+      element(
+        ID.Tracks,
+        element(
+          ID.TrackEntry,
+          uint(ID.TrackNumber, 1),
+          uint(ID.TrackType, 1),
+          string(ID.CodecID, "V_VP9"),
+        ),
+      ),
+      element(ID.Cluster, uint(ID.Timestamp, ticks(0)), frame(1)),
+      element(ID.Cluster, uint(ID.Timestamp, ticks(1)), frame(1)),
+      element(ID.Cues),
+    ),
+  );
+}
+
+interface Parsed {
+  id: number;
+  data: Uint8Array;
+}
+
+function readVint(bytes: Uint8Array, pos: number, keepMarker: boolean) {
+  let length = 1;
+  while (!(bytes[pos] & (0x80 >> (length - 1)))) length++;
+  let value = keepMarker ? bytes[pos] : bytes[pos] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[pos + i];
+  return { value, length };
+}
+
+/** The elements directly inside `bytes` */
+function children(bytes: Uint8Array): Parsed[] {
+  const out: Parsed[] = [];
+  for (let pos = 0; pos < bytes.length; ) {
+    const id = readVint(bytes, pos, true);
+    const size = readVint(bytes, pos + id.length, false);
+    const start = pos + id.length + size.length;
+    out.push({ id: id.value, data: bytes.subarray(start, start + size.value) });
+    pos = start + size.value;
+  }
+  return out;
+}
+
+const all = (bytes: Uint8Array, id: number) => children(bytes).filter((el) => el.id === id);
+const one = (bytes: Uint8Array, id: number) => all(bytes, id)[0].data;
+const uintOf = (data: Uint8Array) => data.reduce((n, b) => n * 256 + b, 0);
+
+const segmentOf = (file: Uint8Array) => one(file, ID.Segment);
+
+/** Each cluster's timestamp and the subtitle blocks in it */
+function subtitleBlocks(file: Uint8Array, trackNumber: number) {
+  return all(segmentOf(file), ID.Cluster).map(({ data }) => ({
+    timestamp: uintOf(one(data, ID.Timestamp)),
+    blocks: all(data, ID.BlockGroup).map((group) => {
+      const block = one(group.data, ID.Block);
+      expect(block[0]).toBe(0x80 | trackNumber);
+      return {
+        relative: new DataView(block.buffer, block.byteOffset).getInt16(1),
+        duration: uintOf(one(group.data, ID.BlockDuration)),
+        text: decoder.decode(block.subarray(4)),
+      };
+    }),
+  }));
+}
+
+const opts = {
+  subtitles: [
+    { start: 200_000, end: 900_000, text: "Hello" },
+    { start: 1_500_000, end: 2_500_000, text: "World" },
+  ],
+  subtitleLanguage: "eng",
+  subtitleName: "English",
+  chapters: [],
+};
+
+describe("embedWebmTextTracks", () => {
+  it("should add a WebVTT track after the existing ones and drop SeekHead and Cues", () => {
+    const segment = segmentOf(embedWebmTextTracks(webm(), opts));
+    expect(children(segment).map((el) => el.id)).toEqual([
+      ID.Info,
+      ID.Tracks,
+      ID.Cluster,
+      ID.Cluster,
+    ]);
+
+    const [video, subtitles] = all(one(segment, ID.Tracks), ID.TrackEntry).map((el) => el.data);
+    expect(uintOf(one(video, ID.TrackNumber))).toBe(1);
+    expect(uintOf(one(subtitles, ID.TrackNumber))).toBe(2);
+    expect(uintOf(one(subtitles, ID.TrackType))).toBe(0x11);
+    expect(decoder.decode(one(subtitles, ID.CodecID))).toBe("S_TEXT/WEBVTT");
+    expect(decoder.decode(one(subtitles, ID.Language))).toBe("eng");
+    expect(decoder.decode(one(subtitles, ID.Name))).toBe("English");
+  });
+
+  it("should put each cue in the cluster covering its start, timed in ticks", () => {
+    const out = embedWebmTextTracks(webm(), opts);
+    expect(subtitleBlocks(out, 2)).toEqual([
+      { timestamp: 0, blocks: [{ relative: 200, duration: 700, text: "Hello" }] },
+      { timestamp: 1000, blocks: [{ relative: 500, duration: 1000, text: "World" }] },
+    ]);
+
+    // Existing blocks are kept
+    const clusters = all(segmentOf(out), ID.Cluster);
+    expect(clusters.every(({ data }) => all(data, ID.SimpleBlock).length === 1)).toBe(true);
+  });
+
+  it("should honour the timestamp scale and open a cluster for cues out of int16 range", () => {
+    const out = embedWebmTextTracks(webm(500_000), {
+      ...opts,
+      subtitles: [
+        { start: 1_000_000, end: 1_500_000, text: "Half ms ticks" },
+        { start: 60_000_000, end: 61_000_000, text: "Later" },
+      ],
+    });
+    expect(subtitleBlocks(out, 2)).toEqual([
+      { timestamp: 0, blocks: [] },
+      { timestamp: 2000, blocks: [{ relative: 0, duration: 1000, text: "Half ms ticks" }] },
+      { timestamp: 120_000, blocks: [{ relative: 0, duration: 2000, text: "Later" }] },
+    ]);
+  });
+
+  it("should add chapters after the tracks, timed in ns", () => {
+    const segment = segmentOf(
+      embedWebmTextTracks(webm(), {
+        ...opts,
+        subtitles: [],
+        chapters: [
+          { start: 0, end: 2_000_000, text: "Intro" },
+          { start: 2_000_000, end: 4_000_000, text: "Outro" },
+        ],
+      }),
+    );
+    expect(
+      children(segment)
+        .map((el) => el.id)
+        .slice(0, 3),
+    ).toEqual([ID.Info, ID.Tracks, ID.Chapters]);
+    expect(all(one(segment, ID.Tracks), ID.TrackEntry)).toHaveLength(1);
+
+    const atoms = all(one(one(segment, ID.Chapters), ID.EditionEntry), ID.ChapterAtom).map(
+      ({ data }) => ({
+        start: uintOf(one(data, ID.ChapterTimeStart)),
+        end: uintOf(one(data, ID.ChapterTimeEnd)),
+        title: decoder.decode(one(one(data, ID.ChapterDisplay), ID.ChapString)),
+      }),
+    );
+    expect(atoms).toEqual([
+      { start: 0, end: 2e9, title: "Intro" },
+      { start: 2e9, end: 4e9, title: "Outro" },
+    ]);
+  });
+
+  it("should refuse a file without a Segment", () => {
+    expect(() => embedWebmTextTracks(element(ID.EBML), opts)).toThrow(/Segment/);
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Post-mux rewriting of a WebM/Matroska file: adds an S_TEXT/WEBVTT subtitle
+ * track and a Chapters element. Subtitle blocks are appended to the cluster
+ * covering their start time. SeekHead and Cues are dropped since their byte
+ * positions no longer hold; players rebuild them by scanning.
+ */
+import type { ITextTrackSample } from "./text-tracks";
+
+const ID = {
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagDefault: 0x88,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  Language: 0x22b59c,
+  Name: 0x536e,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  Cues: 0x1c53bb6b,
+  Chapters: 0x1043a770,
+  EditionEntry: 0x45b9,
+  EditionUID: 0x45bc,
+  ChapterAtom: 0xb6,
+  ChapterUID: 0x73c4,
+  ChapterTimeStart: 0x91,
+  ChapterTimeEnd: 0x92,
+  ChapterDisplay: 0x80,
+  ChapString: 0x85,
+  Void: 0xec,
+} as const;
+
+/** Segment children; an unknown-sized Cluster ends where the next one of these starts */
+const LEVEL_1 = new Set<number>([
+  ID.SeekHead,
+  ID.Info,
+  ID.Tracks,
+  ID.Cluster,
+  ID.Cues,
+  ID.Chapters,
+  0x1941a469, // Attachments
+  0x1254c367, // Tags
+]);
+
+const TRACK_TYPE_SUBTITLE = 0x11;
+
+interface EbmlElement {
+  id: number;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+const encoder = new TextEncoder();
+
+// ─── reading ─────────────────────────────────────────────────────────────────
+
+function readVint(bytes: Uint8Array, pos: number, keepMarker: boolean) {
+  const first = bytes[pos];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8) throw new Error(`Invalid EBML vint at ${pos}`);
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+    if (bytes[pos + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readChildren(bytes: Uint8Array, from: number, to: number): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let pos = from;
+  while (pos < to) {
+    const id = readVint(bytes, pos, true);
+    const size = readVint(bytes, pos + id.length, false);
+    const dataStart = pos + id.length + size.length;
+    let end = size.unknown ? to : Math.min(to, dataStart + size.value);
+
+    if (size.unknown && id.value === ID.Cluster) {
+      // Unknown-sized cluster: runs until the next level-1 element
+      let scan = dataStart;
+      while (scan < to) {
+        const childId = readVint(bytes, scan, true);
+        if (LEVEL_1.has(childId.value)) break;
+        const childSize = readVint(bytes, scan + childId.length, false);
+        scan += childId.length + childSize.length + childSize.value;
+      }
+      end = Math.min(scan, to);
+    }
+
+    elements.push({ id: id.value, start: pos, dataStart, end });
+    pos = end;
+  }
+  return elements;
+}
+
+function readUint(bytes: Uint8Array, el: EbmlElement): number {
+  let value = 0;
+  for (let i = el.dataStart; i < el.end; i++) value = value * 256 + bytes[i];
+  return value;
+}
+
+// ─── writing ─────────────────────────────────────────────────────────────────
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function encodeId(id: number): Uint8Array {
+  const out: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) out.unshift(v % 256);
+  return Uint8Array.from(out);
+}
+
+function encodeSize(size: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++;
+  const out = new Uint8Array(length);
+  let v = size;
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = v % 256;
+    v = Math.floor(v / 256);
+  }
+  out[0] |= 0x80 >> (length - 1);
+  return out;
+}
+
+function element(id: number, ...parts: Uint8Array[]): Uint8Array {
+  const payload = concat(parts);
+  return concat([encodeId(id), encodeSize(payload.length), payload]);
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+  const out: number[] = [];
+  for (let v = Math.max(0, Math.round(value)); v > 0; v = Math.floor(v / 256)) out.unshift(v % 256);
+  return element(id, Uint8Array.from(out.length > 0 ? out : [0]));
+}
+
+function stringElement(id: number, value: string): Uint8Array {
+  return element(id, encoder.encode(value));
+}
+
+function randomUid(): number {
+  return Math.floor(Math.random() * 2 ** 48) + 1;
+}
+
+// ─── building ────────────────────────────────────────────────────────────────
+
+function subtitleTrackEntry(trackNumber: number, language: string, name: string): Uint8Array {
+  return element(
+    ID.TrackEntry,
+    uintElement(ID.TrackNumber, trackNumber),
+    uintElement(ID.TrackUID, randomUid()),
+    uintElement(ID.TrackType, TRACK_TYPE_SUBTITLE),
+    uintElement(ID.FlagDefault, 0),
+    uintElement(ID.FlagLacing, 0),
+    stringElement(ID.CodecID, "S_TEXT/WEBVTT"),
+    stringElement(ID.CodecPrivate, "WEBVTT"),
+    stringElement(ID.Language, /^[a-z]{3}$/.test(language) ? language : "und"),
+    stringElement(ID.Name, name),
+  );
+}
+
+function subtitleBlock(
+  trackNumber: number,
+  relativeTime: number,
+  duration: number,
+  text: string,
+): Uint8Array {
+  // Track number (vint), signed 16-bit relative timestamp, flags
+  const timing = new Uint8Array(3);
+  new DataView(timing.buffer).setInt16(0, relativeTime);
+  return element(
+    ID.BlockGroup,
+    element(ID.Block, encodeSize(trackNumber), timing, encoder.encode(text)),
+    uintElement(ID.BlockDuration, duration),
+  );
+}
+
+function chaptersElement(chapters: ITextTrackSample[]): Uint8Array {
+  const atoms = chapters.map((chapter) =>
+    element(
+      ID.ChapterAtom,
+      uintElement(ID.ChapterUID, randomUid()),
+      uintElement(ID.ChapterTimeStart, chapter.start * 1000),
+      uintElement(ID.ChapterTimeEnd, chapter.end * 1000),
+      element(ID.ChapterDisplay, stringElement(ID.ChapString, chapter.text)),
+    ),
+  );
+  return element(
+    ID.Chapters,
+    element(ID.EditionEntry, uintElement(ID.EditionUID, randomUid()), ...atoms),
+  );
+}
+
+// ─── entry point ─────────────────────────────────────────────────────────────
+
+export function embedWebmTextTracks(
+  bytes: Uint8Array,
+  opts: {
+    subtitles: ITextTrackSample[];
+    subtitleLanguage: string;
+    subtitleName: string;
+    chapters: ITextTrackSample[];
+  },
+): Uint8Array {
+  const topLevel = readChildren(bytes, 0, bytes.length);
+  const segment = topLevel.find((el) => el.id === ID.Segment);
+  if (!segment) throw new Error("Cannot embed text tracks: Segment element not found");
+
+  const children = readChildren(bytes, segment.dataStart, segment.end);
+  const slice = (el: EbmlElement) => bytes.subarray(el.start, el.end);
+  const data = (el: EbmlElement) => bytes.subarray(el.dataStart, el.end);
+
+  // TimestampScale is in ns per tick (1 ms by default)
+  const info = children.find((el) => el.id === ID.Info);
+  const scaleEl =
+    info && readChildren(bytes, info.dataStart, info.end).find((el) => el.id === ID.TimestampScale);
+  const timestampScale = scaleEl ? readUint(bytes, scaleEl) : 1_000_000;
+  const toTicks = (us: number) => Math.round((us * 1000) / timestampScale);
+
+  const tracks = children.find((el) => el.id === ID.Tracks);
+  if (!tracks) throw new Error("Cannot embed text tracks: Tracks element not found");
+  const trackNumbers = readChildren(bytes, tracks.dataStart, tracks.end)
+    .filter((el) => el.id === ID.TrackEntry)
+    .flatMap((entry) => readChildren(bytes, entry.dataStart, entry.end))
+    .filter((el) => el.id === ID.TrackNumber)
+    .map((el) => readUint(bytes, el));
+  const subtitleTrack = Math.max(0, ...trackNumbers) + 1;
+
+  // Assign every cue to the last cluster starting at or before it, as long as
+  // the relative timestamp fits the block's signed 16-bit field
+  const clusters = children
+    .filter((el) => el.id === ID.Cluster)
+    .map((el) => {
+      const ts = readChildren(bytes, el.dataStart, el.end).find((c) => c.id === ID.Timestamp);
+      return { el, timestamp: ts ? readUint(bytes, ts) : 0, blocks: [] as Uint8Array[] };
+    });
+  const extraClusters: Array<{ timestamp: number; blocks: Uint8Array[] }> = [];
+
+  for (const cue of opts.subtitles) {
+    const start = toTicks(cue.start);
+    const duration = Math.max(1, toTicks(cue.end) - start);
+    const host = [...clusters].reverse().find((c) => c.timestamp <= start);
+    if (host && start - host.timestamp <= 0x7fff) {
+      host.blocks.push(subtitleBlock(subtitleTrack, start - host.timestamp, duration, cue.text));
+    } else {
+      extraClusters.push({
+        timestamp: start,
+        blocks: [subtitleBlock(subtitleTrack, 0, duration, cue.text)],
+      });
+    }
+  }
+
+  const buildCluster = (timestamp: number, blocks: Uint8Array[]) =>
+    element(ID.Cluster, uintElement(ID.Timestamp, timestamp), ...blocks);
+
+  const segmentParts: Uint8Array[] = [];
+  const flushExtra = (before: number) => {
+    while (extraClusters.length > 0 && extraClusters[0].timestamp < before) {
+      const extra = extraClusters.shift()!;
+      segmentParts.push(buildCluster(extra.timestamp, extra.blocks));
+    }
+  };
+
+  for (const child of children) {
+    switch (child.id) {
+      case ID.SeekHead:
+      case ID.Cues:
+      case ID.Void:
+        break;
+      case ID.Chapters:
+        if (opts.chapters.length === 0) segmentParts.push(slice(child));
+        break;
+      case ID.Tracks:
+        segmentParts.push(
+          element(
+            ID.Tracks,
+            data(child),
+            ...(opts.subtitles.length > 0
+              ? [subtitleTrackEntry(subtitleTrack, opts.subtitleLanguage, opts.subtitleName)]
+              : []),
+          ),
+        );
+        if (opts.chapters.length > 0) {
+          segmentParts.push(chaptersElement(opts.chapters));
+        }
+        break;
+      case ID.Cluster: {
+        const cluster = clusters.find((c) => c.el === child)!;
+        flushExtra(cluster.timestamp);
+        segmentParts.push(
+          cluster.blocks.length > 0
+            ? element(ID.Cluster, data(child), ...cluster.blocks)
+            : slice(child),
+        );
+        break;
+      }
+      default:
+        segmentParts.push(slice(child));
+    }
+  }
+  flushExtra(Infinity);
+
+  return concat([
+    ...topLevel.filter((el) => el.start < segment.start).map(slice),
+    element(ID.Segment, ...segmentParts),
+  ]);
+}
@@ -0,0 +1,119 @@
+import { Filter, GlProgram, Texture, UniformGroup } from "pixi.js";
+import { vertex } from "../effect/vertex";
+import { type CubeLut, createLutTexture, getLoadedLut, loadLut } from "../utils/lut";
+import type { ILutOpts } from "../clips/iclip";
+
+const fragment = `precision highp float;
+in vec2 vTextureCoord;
+out vec4 finalColor;
+
+uniform sampler2D uTexture;
+uniform sampler2D uLut;
+uniform float uSize;
+uniform float uIntensity;
+uniform vec3 uDomainMin;
+uniform vec3 uDomainMax;
+
+// Trilinear lookup: the texture filters red and green within a blue slice,
+// blue is mixed between the two nearest slices
+vec3 lookup(vec3 color) {
+    vec3 p = clamp((color - uDomainMin) / (uDomainMax - uDomainMin), 0.0, 1.0) * (uSize - 1.0);
+    float slice0 = floor(p.b);
+    float slice1 = min(slice0 + 1.0, uSize - 1.0);
+    vec2 rg = (p.rg + 0.5) / vec2(uSize * uSize, uSize);
+    vec3 c0 = texture(uLut, rg + vec2(slice0 / uSize, 0.0)).rgb;
+    vec3 c1 = texture(uLut, rg + vec2(slice1 / uSize, 0.0)).rgb;
+    return mix(c0, c1, p.b - slice0);
+}
+
+void main(void) {
+    vec4 color = texture(uTexture, vTextureCoord);
+    if (color.a <= 0.0) {
+        finalColor = color;
+        return;
+    }
+    vec3 rgb = color.rgb / color.a;
+    finalColor = vec4(mix(rgb, lookup(rgb), uIntensity) * color.a, color.a);
+}
+`;
+
+const lutTextures = new WeakMap<CubeLut, Texture>();
+
+function getLutTexture(lut: CubeLut): Texture {
+  let texture = lutTextures.get(lut);
+  if (texture == null) {
+    texture = createLutTexture(lut);
+    lutTextures.set(lut, texture);
+  }
+  return texture;
+}
+
+/**
+ * LutFilter grades colours through a 3D lookup table parsed from a `.cube` file.
+ *
+ * @example
+ * ```js
+ * const lut = parseCubeLut(await (await fetch('teal-orange.cube')).text());
+ * sprite.filters = [new LutFilter(lut, 0.8)];
+ * ```
+ */
+export class LutFilter extends Filter {
+  private _lut: CubeLut;
+
+  constructor(lut: CubeLut, intensity = 1) {
+    super({
+      glProgram: GlProgram.from({ vertex, fragment, name: "lut-filter" }),
+      resources: {
+        uLut: getLutTexture(lut).source,
+        lutUniforms: new UniformGroup({
+          uSize: { value: lut.size, type: "f32" },
+          uIntensity: { value: intensity, type: "f32" },
+          uDomainMin: { value: [...lut.domainMin], type: "vec3<f32>" },
+          uDomainMax: { value: [...lut.domainMax], type: "vec3<f32>" },
+        }),
+      },
+    });
+    this._lut = lut;
+  }
+
+  /** The table colours are looked up in */
+  get lut(): CubeLut {
+    return this._lut;
+  }
+
+  set lut(lut: CubeLut) {
+    if (lut === this._lut) return;
+    this._lut = lut;
+    this.resources.uLut = getLutTexture(lut).source;
+    const uniforms = this.resources.lutUniforms.uniforms;
+    uniforms.uSize = lut.size;
+    uniforms.uDomainMin = [...lut.domainMin];
+    uniforms.uDomainMax = [...lut.domainMax];
+  }
+
+  /**
+   * Mix with the ungraded colours, 0 to 1.
+   * @default 1
+   */
+  get intensity(): number {
+    return this.resources.lutUniforms.uniforms.uIntensity;
+  }
+
+  set intensity(value: number) {
+    this.resources.lutUniforms.uniforms.uIntensity = value;
+  }
+}
+
+/**
+ * A LutFilter for a clip's LUT settings, or null when there is nothing to
+ * apply yet. LUTs that are not loaded start loading and are skipped.
+ */
+export function createLutFilter(opts: ILutOpts | null | undefined): LutFilter | null {
+  if (!opts?.src || opts.enabled === false) return null;
+  const lut = getLoadedLut(opts.src);
+  if (lut == null) {
+    loadLut(opts.src).catch(() => {});
+    return null;
+  }
+  return new LutFilter(lut, opts.intensity ?? 1);
+}
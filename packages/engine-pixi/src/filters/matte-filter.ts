@@ -0,0 +1,55 @@
+import { Filter, GlProgram, UniformGroup } from "pixi.js";
+import { vertex } from "../effect/vertex";
+
+const fragment = `precision highp float;
+in vec2 vTextureCoord;
+out vec4 finalColor;
+
+uniform sampler2D uTexture;
+uniform float uLuma;
+uniform float uInvert;
+
+void main(void) {
+    vec4 color = texture(uTexture, vTextureCoord);
+    // Colours are premultiplied, so luma already falls to 0 where the matte is transparent
+    float m = uLuma > 0.5 ? dot(color.rgb, vec3(0.2126, 0.7152, 0.0722)) : color.a;
+    m = uInvert > 0.5 ? 1.0 - m : m;
+    finalColor = vec4(m);
+}
+`;
+
+/**
+ * MatteFilter turns a rendered matte clip into a white mask whose strength is
+ * the clip's alpha or luma, ready to use as a sprite mask.
+ */
+export class MatteFilter extends Filter {
+  constructor() {
+    super({
+      glProgram: GlProgram.from({ vertex, fragment, name: "matte-filter" }),
+      resources: {
+        matteUniforms: new UniformGroup({
+          uLuma: { value: 0, type: "f32" },
+          uInvert: { value: 0, type: "f32" },
+        }),
+      },
+    });
+  }
+
+  /** Read the matte's luma instead of its alpha */
+  get luma(): boolean {
+    return this.resources.matteUniforms.uniforms.uLuma > 0.5;
+  }
+
+  set luma(value: boolean) {
+    this.resources.matteUniforms.uniforms.uLuma = value ? 1 : 0;
+  }
+
+  /** Keep the parts the matte hides instead */
+  get invert(): boolean {
+    return this.resources.matteUniforms.uniforms.uInvert > 0.5;
+  }
+
+  set invert(value: boolean) {
+    this.resources.matteUniforms.uniforms.uInvert = value ? 1 : 0;
+  }
+}
@@ -1,21 +1,57 @@
 export { fastConcatMP4, fixFMP4Duration, mixinMP4AndAudio } from "./mp4-utils";
 export { createChromakey } from "./utils/chromakey";
 export { renderTxt2ImgBitmap } from "./utils/dom";
+export { parseCubeLut, loadLut, type CubeLut } from "./utils/lut";
+export { LutFilter } from "./filters/lut-filter";
 
-export { Audio, Caption, Image, Video, Text, Effect, Transition, Placeholder } from "./clips";
+export {
+  Audio,
+  Caption,
+  Image,
+  Video,
+  Text,
+  Effect,
+  Transition,
+  Placeholder,
+  Sequence,
+  Visualizer,
+  Shape,
+} from "./clips";
 
-export type { IClip, IMP4ClipOpts } from "./clips";
+export type {
+  IClip,
+  IMP4ClipOpts,
+  IChromaKeyOpts,
+  ILutOpts,
+  IClipMaskOpts,
+  IMaskPointOpts,
+  ITrackMatteOpts,
+  ClipBlendMode,
+} from "./clips";
 
 export { DEFAULT_AUDIO_CONF } from "./clips/iclip";
 
 export { Video as MP4Clip } from "./clips";
 export { Compositor } from "./compositor";
-export type { ICompositorOpts } from "./compositor";
+export type { ICompositorOpts, ICompositorChapter, ISubtitleTrackOpts } from "./compositor";
+export { LoudnessMeter, Limiter } from "./compositor/loudness";
+export type { ILimiterOpts, ILoudnessTarget, ILoudnessStats } from "./compositor/loudness";
 export { Studio, Studio as PixiEngine } from "./studio";
 export type { IStudioOpts, IStudioOpts as IPixiEngineOpts } from "./studio";
+export type { GhostFrame, RemoteSelection } from "./studio/selection-manager";
 
 export { Log } from "./utils/log";
-export { clipToJSON, jsonToClip, type ClipJSON, type ProjectJSON } from "./json-serialization";
+export {
+  clipToJSON,
+  jsonToClip,
+  resolveSequenceJSON,
+  type ClipJSON,
+  type ProjectJSON,
+  type SequenceJSON,
+  type SequenceDefinitionJSON,
+  type VisualizerJSON,
+  type ShapeJSON,
+} from "./json-serialization";
 
 export { fontManager } from "./utils/fonts";
 
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { Visualizer } from "./clips";
+import { clipToJSON, jsonToClip } from "./json-serialization";
+
+describe("clip JSON", () => {
+  it("should keep the mask and track matte of a clip", async () => {
+    const clip = new Visualizer("narration");
+    clip.mask = {
+      shape: "path",
+      x: 0.5,
+      y: 0.4,
+      width: 1,
+      height: 1,
+      points: [
+        { x: -0.25, y: 0, out: { x: 0.1, y: -0.2 } },
+        { x: 0.25, y: 0, in: { x: -0.1, y: -0.2 } },
+      ],
+      feather: 6,
+      expansion: -2,
+      invert: true,
+    };
+    clip.trackMatte = { sourceId: "logo", mode: "luma", invert: true };
+
+    const restored = await jsonToClip(JSON.parse(JSON.stringify(clipToJSON(clip))));
+    expect(restored.mask).toEqual(clip.mask);
+    expect(restored.trackMatte).toEqual(clip.trackMatte);
+  });
+
+  it("should leave masking out of clips without it", async () => {
+    const json = clipToJSON(new Visualizer("narration"));
+    expect("mask" in json).toBe(false);
+    expect("trackMatte" in json).toBe(false);
+
+    const restored = await jsonToClip(json);
+    expect(restored.mask).toBeNull();
+    expect(restored.trackMatte).toBeNull();
+  });
+
+  it("should keep the blend mode, leaving out normal", async () => {
+    const clip = new Visualizer("narration");
+    expect("blendMode" in clipToJSON(clip)).toBe(false);
+
+    clip.blendMode = "color-dodge";
+    const restored = await jsonToClip(JSON.parse(JSON.stringify(clipToJSON(clip))));
+    expect(restored.blendMode).toBe("color-dodge");
+  });
+});
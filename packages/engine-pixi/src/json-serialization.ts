@@ -7,10 +7,32 @@ import {
   Effect,
   Transition,
   Placeholder,
+  Sequence,
+  Visualizer,
+  Shape,
+  type IChromaKeyOpts,
+  type ClipBlendMode,
   type IClip,
+  type IClipMaskOpts,
+  type ILutOpts,
+  type ITrackMatteOpts,
   type ITransitionInfo,
 } from "./clips";
 import type { ColorAdjustment } from "./utils/color-adjustment";
+import type {
+  EasingId,
+  IDuckingSettings,
+  IEasingDefinition,
+  IFreezeFrame,
+  IKeyframe,
+  IKeyframeTracks,
+  IProjectSettings,
+  ITrackMix,
+  IVisualizerSettings,
+  IShapeSettings,
+} from "@openvideo/core";
+import type { ICompositorChapter, ISubtitleTrackOpts } from "./compositor";
+import type { ILimiterOpts, ILoudnessTarget } from "./compositor/loudness";
 export interface ClipTimingJSON {
   display: {
     from: number;
@@ -22,13 +44,16 @@ export interface ClipTimingJSON {
   };
   duration: number;
   playbackRate: number;
+  preservePitch?: boolean;
+  speedRamp?: IKeyframe[];
+  reversed?: boolean;
   fadeIn?: {
     duration: number; // ms
-    curve?: "linear" | "ease-in" | "ease-out" | "ease-in-out";
+    curve?: EasingId;
   };
   fadeOut?: {
     duration: number; // ms
-    curve?: "linear" | "ease-in" | "ease-out" | "ease-in-out";
+    curve?: EasingId;
   };
 }
 
@@ -77,7 +102,12 @@ interface BaseClipJSON {
   transition?: ITransitionInfo;
   style?: any;
   locked?: boolean;
+  chromaKey?: IChromaKeyOpts;
   colorAdjustment?: ColorAdjustment;
+  lut?: ILutOpts | null;
+  mask?: IClipMaskOpts | null;
+  trackMatte?: ITrackMatteOpts | null;
+  blendMode?: ClipBlendMode;
 
   animation?: {
     keyFrames: Record<
@@ -102,6 +132,7 @@ interface BaseClipJSON {
     options: any;
     params?: any;
   }>;
+  keyframes?: IKeyframeTracks;
   main?: boolean; // For Compositor only
 }
 
@@ -138,6 +169,7 @@ export interface AudioJSON extends BaseClipJSON {
 export interface ImageJSON extends BaseClipJSON {
   type: "Image";
   style?: ClipVisualStyleJSON;
+  freezeFrame?: IFreezeFrame;
 }
 
 // Text style interface
@@ -271,6 +303,7 @@ export interface TransitionJSON extends BaseClipJSON {
   transitionKey: string;
   fromClipId?: string | null;
   toClipId?: string | null;
+  easing?: EasingId;
 }
 
 // Placeholder clip specific
@@ -278,6 +311,39 @@ export interface PlaceholderJSON extends BaseClipJSON {
   type: "Placeholder";
 }
 
+// A sub-timeline placed by Sequence clips
+export interface SequenceDefinitionJSON {
+  id: string;
+  name: string;
+  settings: IProjectSettings;
+  tracks: StudioTrackJSON[];
+  clips: Record<string, ClipJSON>;
+}
+
+// Sequence clip specific
+export interface SequenceJSON extends BaseClipJSON {
+  type: "Sequence";
+  sequenceId: string;
+  /**
+   * The sequence itself, with the sequences it places inlined in turn.
+   * Filled in from `ProjectJSON.sequences` by {@link resolveSequenceJSON}.
+   */
+  sequence?: SequenceDefinitionJSON;
+}
+
+// Visualizer clip specific
+export interface VisualizerJSON extends BaseClipJSON {
+  type: "Visualizer";
+  audioClipId: string;
+  visualizer?: Partial<IVisualizerSettings>;
+}
+
+// Shape clip specific
+export interface ShapeJSON extends BaseClipJSON {
+  type: "Shape";
+  shape?: Partial<IShapeSettings>;
+}
+
 // Global Transition interface (applied between clips)
 export interface GlobalTransitionJSON {
   key: string;
@@ -295,9 +361,12 @@ export type ClipJSON =
   | CaptionJSON
   | EffectJSON
   | TransitionJSON
-  | PlaceholderJSON;
+  | PlaceholderJSON
+  | SequenceJSON
+  | VisualizerJSON
+  | ShapeJSON;
 
-export interface StudioTrackJSON {
+export interface StudioTrackJSON extends ITrackMix {
   id: string;
   name: string;
   type: string;
@@ -309,6 +378,9 @@ export interface ProjectJSON {
   clips: Record<string, ClipJSON>;
   transition?: GlobalTransitionJSON[];
   transitions?: GlobalTransitionJSON[]; // Alias for transition for better compatibility
+  easings?: Record<string, IEasingDefinition>;
+  /** Sub-timelines referenced by Sequence clips, keyed by ID */
+  sequences?: Record<string, SequenceDefinitionJSON>;
   globalEffects?: Array<{
     id: string;
     key: string;
@@ -328,6 +400,11 @@ export interface ProjectJSON {
     audioCodec?: string;
     audioSampleRate?: number;
     metaDataTags?: Record<string, string>;
+    subtitles?: boolean | ISubtitleTrackOpts;
+    chapters?: ICompositorChapter[];
+    ducking?: IDuckingSettings;
+    loudnessTarget?: ILoudnessTarget;
+    limiter?: false | ILimiterOpts;
   };
 }
 
@@ -343,6 +420,9 @@ export function normalizeClipJSON(json: ClipJSON): ClipJSON {
       trim: json.trim || { from: 0, to: 0 },
       duration: json.duration ?? 0,
       playbackRate: json.playbackRate ?? 1,
+      preservePitch: (json as any).preservePitch,
+      speedRamp: (json as any).speedRamp,
+      reversed: (json as any).reversed,
       fadeIn: (json as any).fadeIn,
       fadeOut: (json as any).fadeOut,
     };
@@ -352,6 +432,9 @@ export function normalizeClipJSON(json: ClipJSON): ClipJSON {
       trim: normalized.timing.trim || { from: 0, to: 0 },
       duration: normalized.timing.duration ?? 0,
       playbackRate: normalized.timing.playbackRate ?? 1,
+      preservePitch: normalized.timing.preservePitch,
+      speedRamp: normalized.timing.speedRamp,
+      reversed: normalized.timing.reversed,
       fadeIn: normalized.timing.fadeIn ?? (json as any).fadeIn,
       fadeOut: normalized.timing.fadeOut ?? (json as any).fadeOut,
     };
@@ -427,6 +510,32 @@ export function normalizeClipStyleJSON(style: any, type: string): any {
   return normalized;
 }
 
+/**
+ * Inline the sequence a Sequence clip places, and the sequences that one
+ * places, so the clip can be built without the project. Other clips are
+ * returned as they are. A sequence already being inlined further up is left
+ * out rather than recursing.
+ * @param json The clip JSON
+ * @param sequences Sequence definitions of the project
+ */
+export function resolveSequenceJSON(
+  json: ClipJSON,
+  sequences: Record<string, SequenceDefinitionJSON> = {},
+  seen: string[] = [],
+): ClipJSON {
+  if (json.type !== "Sequence") return json;
+  const definition = sequences[json.sequenceId] ?? json.sequence;
+  if (!definition || seen.includes(json.sequenceId)) return { ...json, sequence: undefined };
+
+  const path = [...seen, json.sequenceId];
+  const clips: Record<string, ClipJSON> = {};
+  for (const [id, clip] of Object.entries(definition.clips)) {
+    const resolved = resolveSequenceJSON(clip, sequences, path);
+    if (resolved.type !== "Sequence" || resolved.sequence) clips[id] = resolved;
+  }
+  return { ...json, sequence: { ...definition, clips } };
+}
+
 /**
  * Serialize a clip to JSON format
  * @param clip The clip to serialize
@@ -473,6 +582,15 @@ export async function jsonToClip(json: ClipJSON): Promise<IClip> {
     case "Placeholder":
       ClipClass = Placeholder;
       break;
+    case "Sequence":
+      ClipClass = Sequence;
+      break;
+    case "Visualizer":
+      ClipClass = Visualizer;
+      break;
+    case "Shape":
+      ClipClass = Shape;
+      break;
   }
 
   if (ClipClass && typeof ClipClass.fromObject === "function") {
@@ -494,6 +612,10 @@ export async function jsonToClip(json: ClipJSON): Promise<IClip> {
   if (normalizedJson.id) clip.id = normalizedJson.id;
   if (normalizedJson.name) clip.name = normalizedJson.name;
   if (normalizedJson.metadata) clip.metadata = normalizedJson.metadata;
+  if (normalizedJson.keyframes) clip.keyframes = normalizedJson.keyframes;
+  if (normalizedJson.mask) clip.mask = normalizedJson.mask;
+  if (normalizedJson.trackMatte) clip.trackMatte = normalizedJson.trackMatte;
+  if (normalizedJson.blendMode) clip.blendMode = normalizedJson.blendMode;
 
   return clip;
 }
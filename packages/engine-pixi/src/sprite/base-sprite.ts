@@ -1,8 +1,24 @@
 import EventEmitter from "../event-emitter";
 import { IAnimation, AnimationTransform, animationRegistry } from "../animation";
-import { IChromaKeyOpts } from "../clips/iclip";
+import {
+  ClipBlendMode,
+  IChromaKeyOpts,
+  IClipMaskOpts,
+  ILutOpts,
+  ITrackMatteOpts,
+} from "../clips/iclip";
 import { ColorAdjustment } from "../utils/color-adjustment";
-import { IClipTiming } from "@openvideo/core";
+import { getLoadedLut, loadLut } from "../utils/lut";
+import { Log } from "../utils/log";
+import {
+  EasingRegistry,
+  IClipTiming,
+  IKeyframe,
+  IKeyframeTracks,
+  evaluateKeyframes,
+  getSourceOffset,
+  getSpeedAt,
+} from "@openvideo/core";
 type IRectBaseProps = any;
 interface IAnimationOptions {
   duration: number;
@@ -28,6 +44,7 @@ export interface BaseSpriteEvents {
     volume: number;
     animations: IAnimation[];
     locked: boolean;
+    lut: ILutOpts | null;
   }>;
   [key: string]: any;
   [key: symbol]: any;
@@ -87,7 +104,7 @@ export abstract class BaseSprite<
    * Playback rate of current clip, 1 means normal playback
    * **Note**
    *    1. When setting playbackRate, duration must be actively corrected
-   *    2. Audio uses the simplest interpolation algorithm to change rate, so changing rate will cause pitch variation, for custom algorithm please use {@link Video.tickInterceptor} to implement
+   *    2. Audio is time-stretched to keep its pitch unless {@link preservePitch} is turned off
    */
   get playbackRate(): number {
     return this.timing.playbackRate;
@@ -96,6 +113,64 @@ export abstract class BaseSprite<
     this.timing.playbackRate = v;
   }
 
+  /**
+   * Keep audio pitch when playbackRate is not 1 (default). When off, audio is
+   * resampled and its pitch follows the rate.
+   */
+  get preservePitch(): boolean {
+    return this.timing.preservePitch !== false;
+  }
+  set preservePitch(v: boolean) {
+    this.timing.preservePitch = v;
+  }
+
+  /**
+   * Speed curve of Video and Audio clips: playback rate keyframes at
+   * display-relative times. When set it replaces {@link playbackRate}
+   */
+  get speedRamp(): IKeyframe[] | undefined {
+    return this.timing.speedRamp;
+  }
+  set speedRamp(v: IKeyframe[] | undefined) {
+    if (v && v.length > 0) this.timing.speedRamp = v;
+    else delete this.timing.speedRamp;
+  }
+
+  /**
+   * Source time in microseconds (from trim.from) shown at a display-relative
+   * time, following the speed ramp or playbackRate
+   */
+  getSourceTime(time: number): number {
+    return getSourceOffset(this.timing, time, this.easings);
+  }
+
+  /**
+   * Play the trimmed source range backwards (Video and Audio clips)
+   */
+  get reversed(): boolean {
+    return this.timing.reversed === true;
+  }
+  set reversed(v: boolean) {
+    if (v) this.timing.reversed = true;
+    else delete this.timing.reversed;
+  }
+
+  /**
+   * Position in the source media in microseconds (trim included) shown at a
+   * display-relative time, counted back from trim.to when {@link reversed}
+   */
+  getMediaTime(time: number): number {
+    const offset = this.getSourceTime(time);
+    return this.reversed ? this.trim.to - offset : this.trim.from + offset;
+  }
+
+  /**
+   * Playback rate at a display-relative time in microseconds
+   */
+  getPlaybackRateAt(time: number): number {
+    return this.timing.speedRamp ? getSpeedAt(this.timing, time, this.easings) : this.playbackRate;
+  }
+
   /**
    * Trim range of the source media in microseconds
    * from: start time in microseconds
@@ -272,6 +347,48 @@ export abstract class BaseSprite<
     curves: {},
   };
 
+  private _lut: ILutOpts | null = null;
+
+  /**
+   * 3D LUT applied after the colour adjustment. Setting a LUT that is not
+   * loaded yet starts loading it and emits `propsChange` once it can be drawn.
+   */
+  get lut(): ILutOpts | null {
+    return this._lut;
+  }
+
+  set lut(v: ILutOpts | null | undefined) {
+    this._lut = v ?? null;
+    const src = v?.src;
+    if (!src || getLoadedLut(src)) return;
+    loadLut(src)
+      .then(() => {
+        if (this._lut?.src === src) this.emit("propsChange", { lut: this._lut });
+      })
+      .catch((err) => Log.warn("Failed to load LUT", src, err));
+  }
+
+  /**
+   * Shape mask, in fractions of the clip box
+   */
+  mask: IClipMaskOpts | null = null;
+
+  /**
+   * The mask as drawn this frame, with `mask.x`/`mask.y` keyframes applied.
+   * Refreshed by animate() and applyKeyframes()
+   */
+  renderMask: IClipMaskOpts | null = null;
+
+  /**
+   * Another clip whose alpha or luma masks this one
+   */
+  trackMatte: ITrackMatteOpts | null = null;
+
+  /**
+   * How the clip combines with the layers under it
+   */
+  blendMode: ClipBlendMode = "normal";
+
   /**
    * Styling properties (e.g., stroke, dropShadow, borderRadius)
    * This is a generic object to hold visual styles across different clip types
@@ -343,6 +460,16 @@ export abstract class BaseSprite<
     motionBlur: 0,
   };
 
+  /**
+   * Per-property keyframe tracks, times in microseconds from display start
+   */
+  public keyframes: IKeyframeTracks = {};
+
+  /**
+   * @see {@link IClip.easings}
+   */
+  public easings: EasingRegistry = {};
+
   /**
    * @see {@link IClip.ready}
    * For clips, this should be Promise<IClipMeta>, but for BaseSprite it's just Promise<void>
@@ -412,6 +539,8 @@ export abstract class BaseSprite<
    * If current sprite has animation set, set sprite's animation properties to state at specified time
    */
   animate(time: number, target?: any): void {
+    this.renderMask = this.mask;
+
     // Reset render transforms
     this.renderTransform = {
       x: 0,
@@ -431,7 +560,7 @@ export abstract class BaseSprite<
 
     // 1. Process new modular animations
     for (const anim of this.animations) {
-      const transform = anim.getTransform(time);
+      const transform = anim.getTransform(time, this.easings);
       if (transform.x !== undefined) this.renderTransform.x! += transform.x;
       if (transform.y !== undefined) this.renderTransform.y! += transform.y;
       if (transform.width !== undefined) this.renderTransform.width! += transform.width;
@@ -489,6 +618,48 @@ export abstract class BaseSprite<
     }
   }
 
+  /**
+   * Sample keyframe tracks at a display-relative time and fold them into renderTransform.
+   * Must run after animate(), which resets renderTransform every frame.
+   * Keyframed transform values are absolute, so they are expressed as offsets from the
+   * static transform; the Transformer keeps showing the static box.
+   */
+  applyKeyframes(relativeTime: number): void {
+    const sampled = evaluateKeyframes(this.keyframes, relativeTime, this.easings);
+    if (Object.keys(sampled).length === 0) return;
+
+    if (this.mask && (sampled["mask.x"] !== undefined || sampled["mask.y"] !== undefined)) {
+      this.renderMask = {
+        ...this.mask,
+        x: sampled["mask.x"] ?? this.mask.x,
+        y: sampled["mask.y"] ?? this.mask.y,
+      };
+    }
+
+    const left = sampled.x ?? this.left;
+    const top = sampled.y ?? this.top;
+    const width = sampled.width ?? this.width;
+    const height = sampled.height ?? this.height;
+
+    // Offset the centre, since renderers anchor the animation container there
+    this.renderTransform.x! += left + width / 2 - (this.left + this.width / 2);
+    this.renderTransform.y! += top + height / 2 - (this.top + this.height / 2);
+    if (sampled.width !== undefined && this.width !== 0) {
+      this.renderTransform.scaleX! *= width / this.width;
+    }
+    if (sampled.height !== undefined && this.height !== 0) {
+      this.renderTransform.scaleY! *= height / this.height;
+    }
+    if (sampled.angle !== undefined) {
+      this.renderTransform.angle! += sampled.angle - this.angle;
+    }
+    // Opacity is a multiplier on top of the static opacity; a fully transparent
+    // base cannot be faded in, which matches how the root alpha is applied.
+    if (sampled.opacity !== undefined && this.opacity > 0) {
+      this.renderTransform.opacity! *= sampled.opacity / this.opacity;
+    }
+  }
+
   /**
    * Add a modular animation to the clip
    * @param name Preset name or 'keyframes'
@@ -554,6 +725,13 @@ export abstract class BaseSprite<
     target.display = { ...this.display };
     target.duration = this.duration;
     target.playbackRate = this.playbackRate;
+    if (this.timing.preservePitch !== undefined) {
+      target.timing.preservePitch = this.timing.preservePitch;
+    }
+    target.reversed = this.reversed;
+    if (this.timing.speedRamp !== undefined) {
+      target.timing.speedRamp = this.timing.speedRamp.map((k) => ({ ...k }));
+    }
     target.trim = { ...this.trim };
     // Copy fade settings so they are preserved when cloning for the compositor
     if (this.timing.fadeIn !== undefined) {
@@ -564,8 +742,15 @@ export abstract class BaseSprite<
     }
     target.style = JSON.parse(JSON.stringify(this.style || {}));
     target.animations = [...this.animations];
+    target.keyframes = JSON.parse(JSON.stringify(this.keyframes || {}));
+    target.easings = this.easings;
     target.chromaKey = { ...this.chromaKey };
     target.colorAdjustment = JSON.parse(JSON.stringify(this.colorAdjustment || {}));
+    target.lut = this.lut ? { ...this.lut } : null;
+    target.mask = this.mask ? JSON.parse(JSON.stringify(this.mask)) : null;
+    target.renderMask = target.mask;
+    target.trackMatte = this.trackMatte ? { ...this.trackMatte } : null;
+    target.blendMode = this.blendMode;
     target.locked = this.locked;
     // Copy src if target is a BaseClip
     if ("src" in this && "src" in target) {
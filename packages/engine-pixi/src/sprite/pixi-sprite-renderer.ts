@@ -9,8 +9,14 @@ import {
   Filter,
   GlProgram,
   UniformGroup,
+  CanvasSource,
+  RenderTexture,
+  type Renderer,
 } from "pixi.js";
 import { ZoomBlurFilter } from "pixi-filters";
+// Registers overlay, soft-light, difference and the other blend modes WebGL
+// cannot do with blend equations alone (they read the back buffer)
+import "pixi.js/advanced-blend-modes";
 
 import type { IClip } from "../clips/iclip";
 import { parseColor, hexToRgb } from "../utils/color";
@@ -21,6 +27,10 @@ import {
   getAllSelectiveHsl,
   hasColorAdjustment,
 } from "../utils/color-adjustment";
+import { createLutFilter, LutFilter } from "../filters/lut-filter";
+import { getLoadedLut } from "../utils/lut";
+import { drawMask, getMaskKey } from "../utils/mask";
+import { MatteFilter } from "../filters/matte-filter";
 
 /**
  * Update sprite transform based on clip properties
@@ -28,22 +38,31 @@ import {
  * For sprites managed by PixiSpriteRenderer, use renderer.updateTransforms() instead
  */
 export function updateSpriteTransform(clip: IClip, sprite: Sprite): void {
-  const { opacity, zIndex, flip, left, top, width, height, angle } = clip;
+  const { opacity, zIndex, flip, left, top, width, height, angle, renderTransform } = clip;
+
+  // Animation / keyframe offsets, scaled around the clip centre
+  const scale = renderTransform?.scale ?? 1;
+  const scaledWidth = Math.abs(width) * scale * (renderTransform?.scaleX ?? 1);
+  const scaledHeight = Math.abs(height) * scale * (renderTransform?.scaleY ?? 1);
 
   // Position and size
-  sprite.x = left;
-  sprite.y = top;
-  sprite.width = Math.abs(width);
-  sprite.height = Math.abs(height);
+  sprite.x = left + (renderTransform?.x ?? 0) - (scaledWidth - Math.abs(width)) / 2;
+  sprite.y = top + (renderTransform?.y ?? 0) - (scaledHeight - Math.abs(height)) / 2;
+  sprite.width = scaledWidth;
+  sprite.height = scaledHeight;
 
   // Rotation (angle property)
-  sprite.angle = angle;
+  sprite.angle = angle + (renderTransform?.angle ?? 0);
 
   // Opacity
-  sprite.alpha = opacity;
+  sprite.alpha = opacity * (renderTransform?.opacity ?? 1);
 
   // Z-index
   sprite.zIndex = zIndex;
+
+  // Blend mode
+  sprite.blendMode = clip.blendMode ?? "normal";
+
   // Flip
   if (flip?.x) {
     sprite.scale.x = -Math.abs(sprite.scale.x);
@@ -57,6 +76,35 @@ export function updateSpriteTransform(clip: IClip, sprite: Sprite): void {
   }
 }
 
+/**
+ * Apply the track mattes of a frame's clips once their renderers are
+ * updated, then hide the matte clips so they only show through the clips
+ * they mask. Roots must sit in a container whose space is the
+ * `width`×`height` project canvas.
+ */
+export function applyTrackMattes(
+  renderer: Renderer,
+  renderers: Map<IClip, PixiSpriteRenderer>,
+  width: number,
+  height: number,
+  resolution = 1,
+): void {
+  const byId = new Map<string, PixiSpriteRenderer>();
+  for (const [clip, spriteRenderer] of renderers) byId.set(clip.id, spriteRenderer);
+
+  const sources = new Set<PixiSpriteRenderer>();
+  for (const [clip, spriteRenderer] of renderers) {
+    const source = clip.trackMatte ? (byId.get(clip.trackMatte.sourceId) ?? null) : null;
+    spriteRenderer.applyTrackMatte(renderer, source, width, height, resolution);
+    if (source) sources.add(source);
+  }
+
+  for (const source of sources) {
+    const root = source.getRoot();
+    if (root) root.visible = false;
+  }
+}
+
 /**
  * Renders video frames using Pixi.js
  * Creates textures directly from VideoFrame/ImageBitmap sources for zero-copy GPU upload
@@ -73,6 +121,12 @@ export class PixiSpriteRenderer {
   private shadowGraphics: Graphics | null = null;
   private shadowContainer: Container | null = null;
   private animationContainer: Container | null = null;
+  private maskSprite: Sprite | null = null;
+  private maskKey = "";
+  private matteSprite: Sprite | null = null;
+  private matteInput: RenderTexture | null = null;
+  private matteInputSprite: Sprite | null = null;
+  private matteFilter: MatteFilter | null = null;
   private resolution = 1;
   private destroyed = false;
   private lastFrame: any = null;
@@ -240,6 +294,7 @@ export class PixiSpriteRenderer {
     this.root.alpha = opacity;
     this.root.zIndex = zIndex;
     this.root.scale.set(1, 1);
+    this.root.blendMode = this.sprite.blendMode ?? "normal";
 
     // 2. Apply animation transforms to the internal animationContainer
     if (this.animationContainer) {
@@ -255,7 +310,9 @@ export class PixiSpriteRenderer {
       this.applyMotionBlur(motionBlurOffset);
       this.applyBrightness(brightnessMultiplier);
       this.applySelectiveHsl();
+      this.applyLut();
       this.applyChromaKey();
+      this.applyMask();
     }
 
     // 3. Handle true reflection mirroring
@@ -721,6 +778,36 @@ export class PixiSpriteRenderer {
     this.animationContainer.filters = [...baseFilters, ...selectiveHslFilters];
   }
 
+  private applyLut(): void {
+    if (!this.animationContainer || this.destroyed) return;
+
+    const { lut } = this.sprite;
+    const loaded = lut?.src && lut.enabled !== false ? getLoadedLut(lut.src) : undefined;
+    const currentFilters = this.animationContainer.filters || [];
+    const lutFilter = currentFilters.find((f) => (f as any).label === "LutFilter") as
+      | LutFilter
+      | undefined;
+
+    if (loaded == null) {
+      if (lutFilter) {
+        this.animationContainer.filters = currentFilters.filter((f) => f !== lutFilter);
+      }
+      return;
+    }
+
+    if (lutFilter) {
+      lutFilter.lut = loaded;
+      lutFilter.intensity = lut?.intensity ?? 1;
+      return;
+    }
+
+    const newFilter = createLutFilter(lut);
+    if (newFilter) {
+      (newFilter as any).label = "LutFilter";
+      this.animationContainer.filters = [...currentFilters, newFilter];
+    }
+  }
+
   private applyChromaKey(): void {
     if (!this.animationContainer || this.destroyed) return;
 
@@ -776,6 +863,111 @@ export class PixiSpriteRenderer {
     uniforms.uSpill = chromaKey.spill;
   }
 
+  /**
+   * Mask the animation container with the clip's shape mask. The mask is
+   * drawn on a canvas in the clip box and only redrawn when it changes.
+   */
+  private applyMask(): void {
+    if (!this.animationContainer || this.destroyed) return;
+
+    const mask = this.sprite.renderMask;
+    const width = Math.abs(this.sprite.width ?? 0);
+    const height = Math.abs(this.sprite.height ?? 0);
+
+    if (!mask || mask.enabled === false || width === 0 || height === 0) {
+      if (this.maskSprite) {
+        this.animationContainer.mask = null;
+        this.maskSprite.visible = false;
+      }
+      return;
+    }
+
+    if (this.maskSprite == null) {
+      this.maskSprite = new Sprite();
+      this.maskSprite.label = "ClipMask";
+      this.maskSprite.eventMode = "none";
+      this.animationContainer.addChild(this.maskSprite);
+    }
+
+    const key = getMaskKey(mask, width, height);
+    if (key !== this.maskKey) {
+      this.maskKey = key;
+      const canvas = new OffscreenCanvas(1, 1);
+      drawMask(canvas, mask, width, height);
+      const previous = this.maskSprite.texture;
+      this.maskSprite.texture = new Texture({ source: new CanvasSource({ resource: canvas }) });
+      if (previous !== Texture.EMPTY) previous.destroy(true);
+    }
+
+    this.maskSprite.position.set(-width / 2, -height / 2);
+    this.maskSprite.setSize(width, height);
+    this.maskSprite.visible = true;
+    if (this.animationContainer.mask !== this.maskSprite) {
+      this.animationContainer.mask = this.maskSprite;
+    }
+  }
+
+  /**
+   * Mask the clip with another clip's alpha or luma (its track matte), or
+   * remove the matte when `source` is null. The source root is drawn in the
+   * shared parent's space into a `width`×`height` texture; a source that is
+   * not showing this frame hides the clip (or shows all of it when inverted).
+   */
+  applyTrackMatte(
+    renderer: Renderer,
+    source: PixiSpriteRenderer | null,
+    width: number,
+    height: number,
+    resolution = 1,
+  ): void {
+    const root = this.root;
+    const matte = this.sprite.trackMatte;
+    if (root == null || this.destroyed) return;
+
+    if (source == null || source === this || matte == null || root.parent == null) {
+      if (this.matteSprite) {
+        root.mask = null;
+        this.matteSprite.visible = false;
+      }
+      return;
+    }
+
+    if (this.matteSprite == null) {
+      this.matteInput = RenderTexture.create({ width, height, resolution });
+      this.matteInputSprite = new Sprite(this.matteInput);
+      this.matteFilter = new MatteFilter();
+      this.matteInputSprite.filters = [this.matteFilter];
+      this.matteSprite = new Sprite(RenderTexture.create({ width, height, resolution }));
+      this.matteSprite.label = "TrackMatte";
+      this.matteSprite.eventMode = "none";
+    }
+    const output = this.matteSprite.texture as RenderTexture;
+    if (
+      output.width !== width ||
+      output.height !== height ||
+      output.source.resolution !== resolution
+    ) {
+      this.matteInput!.resize(width, height, resolution);
+      output.resize(width, height, resolution);
+    }
+
+    const sourceRoot = source.getRoot();
+    if (sourceRoot?.visible) {
+      renderer.render({ container: sourceRoot, target: this.matteInput!, clear: true });
+    } else {
+      renderer.renderTarget.clear(this.matteInput!);
+    }
+
+    this.matteFilter!.luma = matte.mode === "luma";
+    this.matteFilter!.invert = matte.invert === true;
+    this.matteFilter!.resolution = resolution;
+    renderer.render({ container: this.matteInputSprite!, target: output, clear: true });
+
+    if (this.matteSprite.parent !== root.parent) root.parent.addChild(this.matteSprite);
+    this.matteSprite.visible = true;
+    if (root.mask !== this.matteSprite) root.mask = this.matteSprite;
+  }
+
   updateTransforms(): void {
     if (this.root != null && !this.destroyed) {
       this.applySpriteTransforms();
@@ -794,6 +986,12 @@ export class PixiSpriteRenderer {
     if (this.destroyed) return;
     this.destroyed = true;
 
+    if (this.maskSprite != null) {
+      // The sprite goes with root below; its canvas texture does not
+      this.maskSprite.texture.destroy(true);
+      this.maskSprite = null;
+    }
+
     if (this.root != null) {
       if (this.root.parent) {
         this.root.parent.removeChild(this.root);
@@ -823,6 +1021,17 @@ export class PixiSpriteRenderer {
       this.shadowContainer = null;
     }
 
+    if (this.matteSprite != null) {
+      this.matteSprite.destroy({ texture: true, textureSource: true });
+      this.matteSprite = null;
+    }
+
+    if (this.matteInputSprite != null) {
+      this.matteInputSprite.destroy({ texture: true, textureSource: true });
+      this.matteInputSprite = null;
+      this.matteInput = null;
+    }
+
     if (this.texture != null) {
       this.texture.destroy();
       this.texture = null;
@@ -1,7 +1,7 @@
-import type { Core, AnyClip, Patch } from "@openvideo/core";
+import { DEFAULT_DUCKING_SETTINGS, type Core, type AnyClip, type Patch } from "@openvideo/core";
 import type { Studio } from "./studio";
 import type { IClip } from "./clips/iclip";
-import { jsonToClip } from "./json-serialization";
+import { jsonToClip, resolveSequenceJSON, type ClipJSON } from "./json-serialization";
 import { fontManager } from "./utils/fonts";
 
 /**
@@ -132,6 +132,12 @@ export class StudioBridge {
       if (parts[0] === "settings") {
         const settings = this.core.store.getState().settings;
         this.studio.setSize(settings.width, settings.height);
+        this.studio.setDucking(settings.ducking ?? { ...DEFAULT_DUCKING_SETTINGS });
+      }
+
+      // Handle Easings
+      if (parts[0] === "easings") {
+        this.studio.setEasings(this.core.store.getState().easings ?? {});
       }
 
       // Handle Selection
@@ -154,7 +160,8 @@ export class StudioBridge {
       // Pre-load any font referenced by this clip before constructing the Pixi clip.
       // This ensures document.fonts is ready when refreshText() runs.
       await this.ensureFontForClip(coreClip);
-      const clip = await jsonToClip(coreClip);
+      const { sequences } = this.core.store.getState();
+      const clip = await jsonToClip(resolveSequenceJSON(coreClip as ClipJSON, sequences as any));
       const trackId = this.findTrackIdForClip(coreClip.id);
       await this.studio.addClip(clip, { trackId });
     }
@@ -205,6 +212,11 @@ export class StudioBridge {
             if (value.playbackRate !== undefined) {
               clip.playbackRate = value.playbackRate;
             }
+            if (value.preservePitch !== undefined) {
+              clip.preservePitch = value.preservePitch;
+            }
+            clip.speedRamp = value.speedRamp;
+            clip.reversed = value.reversed === true;
             if (value.fadeIn !== undefined) {
               clip.timing.fadeIn = value.fadeIn;
             } else {
@@ -231,6 +243,15 @@ export class StudioBridge {
           } else if (subProp === "playbackRate") {
             clip.playbackRate = value;
             changed = true;
+          } else if (subProp === "preservePitch") {
+            clip.preservePitch = value !== false;
+            changed = true;
+          } else if (subProp === "speedRamp") {
+            clip.speedRamp = value;
+            changed = true;
+          } else if (subProp === "reversed") {
+            clip.reversed = value === true;
+            changed = true;
           } else if (subProp === "fadeIn") {
             if (value !== undefined) {
               clip.timing.fadeIn = value;
@@ -352,6 +373,8 @@ export class StudioBridge {
       await this.studio.clear();
       const state = this.core.store.getState();
       this.studio.setSize(state.settings.width, state.settings.height);
+      this.studio.opts.ducking = state.settings.ducking ?? { ...DEFAULT_DUCKING_SETTINGS };
+      this.studio.easings = state.easings ?? {};
       for (const id in state.clips) {
         await this.handleAddClip(state.clips[id]);
       }
@@ -440,8 +463,10 @@ export class StudioBridge {
       | "mediaId"
       | "bottomOffset"
       | "transitionKey"
+      | "easing"
       | "effectKey"
       | "values"
+      | "shape"
     )[] = [
       "volume",
       "text",
@@ -449,7 +474,13 @@ export class StudioBridge {
       "style",
       "chromaKey",
       "colorAdjustment",
+      "lut",
+      "mask",
+      "trackMatte",
+      "blendMode",
+      "shape",
       "animations",
+      "keyframes",
       "locked",
       "caption",
       "textBoxStyle",
@@ -460,6 +491,7 @@ export class StudioBridge {
       "mediaId",
       "bottomOffset",
       "transitionKey",
+      "easing",
       "effectKey",
       "values",
     ];
@@ -477,14 +509,30 @@ export class StudioBridge {
         if (Math.abs(currentValue - newValue) < 0.01) return;
       }
 
-      // Handle style and values (JSON check)
-      if (prop === "style" || prop === "values") {
+      // Handle style, values, keyframes and shape (JSON check)
+      if (prop === "style" || prop === "values" || prop === "keyframes" || prop === "shape") {
         if (JSON.stringify(currentValue) === JSON.stringify(newValue)) return;
       }
 
       Object.assign(clip, { [prop]: newValue });
       changed = true;
     });
+    if ((coreClip as any).lut === undefined && clip.lut) {
+      clip.lut = null;
+      changed = true;
+    }
+    if ((coreClip as any).mask === undefined && clip.mask) {
+      clip.mask = null;
+      changed = true;
+    }
+    if ((coreClip as any).trackMatte === undefined && clip.trackMatte) {
+      clip.trackMatte = null;
+      changed = true;
+    }
+    if ((coreClip as any).blendMode === undefined && clip.blendMode !== "normal") {
+      clip.blendMode = "normal";
+      changed = true;
+    }
 
     // Timing synchronization (Phase 1 Refactoring)
     const t = coreClip.timing;
@@ -517,6 +565,18 @@ export class StudioBridge {
           changed = true;
         }
       }
+      if (clip.preservePitch !== (t.preservePitch !== false)) {
+        clip.preservePitch = t.preservePitch !== false;
+        changed = true;
+      }
+      if (JSON.stringify(clip.speedRamp) !== JSON.stringify(t.speedRamp)) {
+        clip.speedRamp = t.speedRamp;
+        changed = true;
+      }
+      if (clip.reversed !== (t.reversed === true)) {
+        clip.reversed = t.reversed === true;
+        changed = true;
+      }
       if (t.fadeIn !== undefined) {
         if (JSON.stringify(clip.timing.fadeIn) !== JSON.stringify(t.fadeIn)) {
           clip.timing.fadeIn = t.fadeIn;
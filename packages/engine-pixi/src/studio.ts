@@ -18,7 +18,11 @@ import type { IClip, IPlaybackCapable } from "./clips/iclip";
 import { Text } from "./clips/text-clip";
 import { Video } from "./clips/video-clip";
 import { Effect } from "./clips/effect-clip";
-import { PixiSpriteRenderer, updateSpriteTransform } from "./sprite/pixi-sprite-renderer";
+import {
+  PixiSpriteRenderer,
+  applyTrackMattes,
+  updateSpriteTransform,
+} from "./sprite/pixi-sprite-renderer";
 import { type ProjectJSON } from "./json-serialization";
 import { Transformer } from "./transfomer/transformer";
 import type { EffectKey } from "./effect/glsl/gl-effect";
@@ -32,9 +36,17 @@ import {
   getAllSelectiveHsl,
   hasColorAdjustment,
 } from "./utils/color-adjustment";
+import { createLutFilter } from "./filters/lut-filter";
 
 import EventEmitter from "./event-emitter";
-import { Core } from "@openvideo/core";
+import {
+  Core,
+  DEFAULT_DUCKING_SETTINGS,
+  resolveEasing,
+  type EasingRegistry,
+  type IDuckingSettings,
+  type ITrackMix,
+} from "@openvideo/core";
 import { StudioBridge } from "./studio-bridge";
 
 export interface IStudioOpts {
@@ -54,6 +66,8 @@ export interface IStudioOpts {
    * Default is 1.
    */
   previewScale?: number;
+  /** Duck music tracks under dialogue tracks during preview */
+  ducking?: IDuckingSettings;
 }
 
 interface ActiveGlobalEffect {
@@ -101,7 +115,7 @@ export interface StudioEvents {
   [key: symbol]: any;
 }
 
-export interface StudioTrack {
+export interface StudioTrack extends ITrackMix {
   id: string;
   name: string;
   type: string;
@@ -128,8 +142,14 @@ export interface StudioTrack {
  *   console.log('Selection created', selected);
  * });
  */
-import { SelectionManager } from "./studio/selection-manager";
+import {
+  SelectionManager,
+  type GhostFrame,
+  type RemoteSelection,
+} from "./studio/selection-manager";
 import { Transport } from "./studio/transport";
+import { AudioDucking } from "./studio/audio-ducking";
+import { TrackMixer } from "./studio/track-mixer";
 import { TimelineModel } from "./studio/timeline-model";
 import { HistoryManager, HistoryState } from "./studio/history-manager";
 import { ResourceManager } from "./studio/resource-manager";
@@ -139,10 +159,14 @@ import { Difference } from "microdiff";
 export class Studio extends EventEmitter<StudioEvents> {
   public selection: SelectionManager;
   public transport: Transport;
+  public audioDucking: AudioDucking;
+  public trackMixer: TrackMixer;
   public timeline: TimelineModel;
   public history: HistoryManager;
   public resourceManager: ResourceManager;
   public pixiApp: Application | null = null;
+  /** Project easing curves, shared by every clip on the timeline */
+  public easings: EasingRegistry = {};
   public get tracks() {
     return this.timeline.tracks;
   }
@@ -288,6 +312,7 @@ export class Studio extends EventEmitter<StudioEvents> {
       allowZoom: false,
       allowPan: false,
       previewScale: 1,
+      ducking: { ...DEFAULT_DUCKING_SETTINGS },
       ...opts,
     };
 
@@ -296,6 +321,8 @@ export class Studio extends EventEmitter<StudioEvents> {
 
     this.selection = new SelectionManager(this);
     this.transport = new Transport(this);
+    this.audioDucking = new AudioDucking(this);
+    this.trackMixer = new TrackMixer(this);
     this.timeline = new TimelineModel(this);
     this.history = new HistoryManager();
     this.resourceManager = new ResourceManager();
@@ -591,6 +618,7 @@ export class Studio extends EventEmitter<StudioEvents> {
       resolution: (window.devicePixelRatio || 1) * this.opts.previewScale,
       autoDensity: true,
       autoStart: false, // Prevent auto-rendering to avoid race conditions during async updates
+      useBackBuffer: true, // Advanced blend modes (overlay, soft-light, ...) read the back buffer
     });
     this.pixiApp = app;
 
@@ -676,6 +704,23 @@ export class Studio extends EventEmitter<StudioEvents> {
     this.updateDimensions(width, height);
   }
 
+  /**
+   * Update ducking of music tracks under dialogue tracks
+   */
+  public setDucking(ducking: IDuckingSettings) {
+    this.opts.ducking = ducking;
+    this.updateFrame(this.currentTime);
+  }
+
+  /**
+   * Replace the project easing curves that clips resolve easing IDs against
+   */
+  public setEasings(easings: EasingRegistry) {
+    this.easings = easings;
+    for (const clip of this.clips) clip.easings = easings;
+    this.updateFrame(this.currentTime);
+  }
+
   /**
    * Set the preview resolution scale dynamically
    * @param scale A multiplier between 0.1 and 1
@@ -1524,6 +1569,8 @@ export class Studio extends EventEmitter<StudioEvents> {
   public async updateFrame(timestamp: number): Promise<void> {
     if (this.destroyed || this.pixiApp == null || this.renderingSuspended) return;
     this.updateActiveGlobalEffect(timestamp);
+    this.trackMixer.update();
+    this.audioDucking.update(timestamp);
 
     const usedTransitionSprites = new Set<string>();
     const renderedTransitions = new Set<string>();
@@ -1631,10 +1678,11 @@ export class Studio extends EventEmitter<StudioEvents> {
       }
 
       const relativeTime = timestamp - clip.display.from;
-      const spriteTime = relativeTime * clip.playbackRate;
+      const spriteTime = clip.getSourceTime(relativeTime);
 
       // Update animation
       clip.animate(spriteTime);
+      clip.applyKeyframes(relativeTime);
 
       // Check if clip has exceeded its duration (different from display.to)
       // Skip if in active transition
@@ -1664,8 +1712,14 @@ export class Studio extends EventEmitter<StudioEvents> {
       if (playbackInfo != null && this.isPlaybackCapable(clip)) {
         const playbackRelativeTime = relativeTime / 1e6; // Convert to seconds
 
-        // Sync playback using clip method
-        clip.syncPlayback(playbackInfo.element, this.isPlaying, playbackRelativeTime);
+        // Sync playback using clip method, with the track mix and ducking applied
+        this.trackMixer.apply(clip, playbackInfo.element);
+        clip.syncPlayback(
+          playbackInfo.element,
+          this.isPlaying,
+          playbackRelativeTime,
+          this.trackMixer.volumeFor(clip) * this.audioDucking.gainFor(clip),
+        );
 
         // For VideoClip, handle sprite visibility
         if (clip.type === "Video" && this.isPlaybackCapable(clip)) {
@@ -1776,7 +1830,10 @@ export class Studio extends EventEmitter<StudioEvents> {
           continue;
         }
         if (fromFrame && toFrame && this.pixiApp && this.transFromTexture && this.transToTexture) {
-          const progress = (timestamp - transitionStartTime) / clip?.transition?.duration!;
+          const progress = resolveEasing(
+            clip.transition?.easing,
+            clip.easings,
+          )((timestamp - transitionStartTime) / clip?.transition?.duration!);
 
           // Renderizar "from" frame en la textura
           if (fromClip && fromFrame) {
@@ -1971,6 +2028,15 @@ export class Studio extends EventEmitter<StudioEvents> {
       }
     }
 
+    // Track mattes read the clips drawn above, so they go after every renderer is updated
+    applyTrackMattes(
+      this.pixiApp.renderer,
+      this.spriteRenderers,
+      this.opts.width,
+      this.opts.height,
+      this.pixiApp.renderer.resolution,
+    );
+
     // Render global effects sequence
     if (
       this.activeGlobalEffects.length > 0 &&
@@ -2010,6 +2076,9 @@ export class Studio extends EventEmitter<StudioEvents> {
       }
     }
 
+    this.selection.drawRemoteSelections();
+    this.selection.drawGhostFrames();
+
     // Render the scene
     if (this.pixiApp != null) {
       this.pixiApp.render();
@@ -2316,6 +2385,11 @@ export class Studio extends EventEmitter<StudioEvents> {
       filters.push(selectiveHslFilter);
     }
 
+    const lutFilter = createLutFilter(clip.lut);
+    if (lutFilter) {
+      filters.push(lutFilter);
+    }
+
     rootContainer.filters = filters;
 
     const w = Math.abs(clip.width ?? 0) * scaleMultiplier;
@@ -2429,7 +2503,7 @@ export class Studio extends EventEmitter<StudioEvents> {
             startTime: clip.display.from,
             duration,
             trackIndex: this.getTrackIndex(clip.id),
-            values: (clip as Effect).values,
+            values: (clip as Effect).getValuesAt(currentTime - clip.display.from),
           });
         }
       }
@@ -2601,6 +2675,7 @@ export class Studio extends EventEmitter<StudioEvents> {
     this.destroyed = true;
     this.stop();
     this.clear();
+    this.trackMixer.destroy();
     this.transitionRenderers.clear();
 
     if (this.transFromTexture) {
@@ -2653,6 +2728,22 @@ export class Studio extends EventEmitter<StudioEvents> {
     this.selection.selectClipsByIds(ids);
   }
 
+  /**
+   * Outline clips selected by other collaborators
+   * Delegated to SelectionManager
+   */
+  setRemoteSelections(selections: RemoteSelection[]): void {
+    this.selection.setRemoteSelections(selections);
+  }
+
+  /**
+   * Show where clips would be after changes that are not applied yet
+   * Delegated to SelectionManager
+   */
+  setGhostFrames(frames: GhostFrame[]): void {
+    this.selection.setGhostFrames(frames);
+  }
+
   /**
    * Deselect the current clip and hide transform controls
    */
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import type { IDuckingSettings, ITrack } from "@openvideo/core";
+import { Audio, DEFAULT_AUDIO_CONF } from "../clips";
+import { dbToGain } from "../utils/ducking";
+import { AudioDucking } from "./audio-ducking";
+import { TrackMixer } from "./track-mixer";
+import type { Studio } from "../studio";
+
+const SETTINGS: IDuckingSettings = {
+  enabled: true,
+  threshold: -30,
+  reduction: 12,
+  attack: 50,
+  release: 300,
+};
+
+const DUCKED = dbToGain(-12);
+
+/** A two-second audio clip holding `value` in every sample, starting at `from` µs */
+async function audio(id: string, value: number, from = 0): Promise<Audio> {
+  const pcm = new Float32Array(DEFAULT_AUDIO_CONF.sampleRate * 2).fill(value);
+  const clip = new Audio([pcm, pcm]);
+  clip.id = id;
+  clip.display.from = from;
+  await clip.ready;
+  return clip;
+}
+
+/** A studio with a dialogue track holding `dialogue` and a music track holding `music` */
+function studio(dialogue: Audio, music: Audio, dialogueMix: Partial<ITrack> = {}) {
+  const fake = {
+    opts: { ducking: SETTINGS },
+    isPlaying: false,
+    tracks: [
+      {
+        id: "d",
+        name: "Dialogue",
+        type: "Audio",
+        role: "dialogue",
+        clipIds: [dialogue.id],
+        ...dialogueMix,
+      },
+      { id: "m", name: "Music", type: "Audio", role: "music", clipIds: [music.id] },
+    ],
+    clips: [dialogue, music],
+    playbackElements: new Map(),
+  } as unknown as Studio & { isPlaying: boolean };
+  fake.trackMixer = new TrackMixer(fake);
+  fake.trackMixer.update();
+  return fake;
+}
+
+describe("AudioDucking", () => {
+  it("should duck music straight away after a seek into dialogue", async () => {
+    const dialogue = await audio("dialogue", 0.5);
+    const music = await audio("music", 1);
+    const ducking = new AudioDucking(studio(dialogue, music));
+
+    ducking.update(500_000);
+    expect(ducking.gainFor(music)).toBeCloseTo(DUCKED, 6);
+    expect(ducking.gainFor(dialogue)).toBe(1);
+  });
+
+  it("should ease music down with the attack while playing", async () => {
+    const dialogue = await audio("dialogue", 0.5, 1_000_000);
+    const music = await audio("music", 1);
+    const fake = studio(dialogue, music);
+    const ducking = new AudioDucking(fake);
+
+    ducking.update(900_000);
+    expect(ducking.gainFor(music)).toBe(1);
+
+    fake.isPlaying = true;
+    const gains: number[] = [];
+    for (let t = 1_020_000; t <= 2_000_000; t += 20_000) {
+      ducking.update(t);
+      gains.push(ducking.gainFor(music));
+    }
+    // Unlike a seek, the first frame into dialogue only starts the dip
+    expect(gains[0]).toBeLessThan(1);
+    expect(gains[0]).toBeGreaterThan(DUCKED + 0.05);
+    expect(gains.every((gain, i) => i === 0 || gain <= gains[i - 1])).toBe(true);
+    expect(gains[gains.length - 1]).toBeCloseTo(DUCKED, 3);
+  });
+
+  it("should not duck under muted dialogue or when ducking is off", async () => {
+    const dialogue = await audio("dialogue", 0.5);
+    const music = await audio("music", 1);
+    const muted = new AudioDucking(studio(dialogue, music, { muted: true }));
+    muted.update(500_000);
+    expect(muted.gainFor(music)).toBe(1);
+
+    const fake = studio(dialogue, music);
+    fake.opts.ducking = { ...SETTINGS, enabled: false };
+    const off = new AudioDucking(fake);
+    off.update(500_000);
+    expect(off.gainFor(music)).toBe(1);
+  });
+
+  it("should weigh the dialogue level by the track gain", async () => {
+    // -36 dB of track gain takes a -6 dBFS signal under the -30 dBFS threshold
+    const dialogue = await audio("dialogue", 0.5);
+    const music = await audio("music", 1);
+    const ducking = new AudioDucking(studio(dialogue, music, { gain: -36 }));
+    ducking.update(500_000);
+    expect(ducking.gainFor(music)).toBe(1);
+  });
+});
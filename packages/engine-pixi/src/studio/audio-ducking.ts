@@ -0,0 +1,79 @@
+import type { IDuckingSettings, TrackRole } from "@openvideo/core";
+import { Audio, DEFAULT_AUDIO_CONF, Video, type IClip } from "../clips";
+import { Ducker, measurePower } from "../utils/ducking";
+import type { Studio } from "../studio";
+
+/** Frame gaps longer than this are treated as a seek rather than playback */
+const MAX_STEP = 0.5; // s
+
+/**
+ * Preview counterpart of the compositor's ducking: measures dialogue level at
+ * the playhead once per frame and exposes the gain music clips should play at.
+ */
+export class AudioDucking {
+  private ducker: Ducker | null = null;
+  private settings: IDuckingSettings | undefined;
+  private lastTime: number | null = null;
+  private gain = 1;
+  private roles = new Map<string, TrackRole>();
+
+  constructor(private studio: Studio) {}
+
+  /**
+   * Advance the ducker to `timestamp` (microseconds).
+   */
+  update(timestamp: number): void {
+    const settings = this.studio.opts.ducking;
+    if (!settings.enabled) {
+      this.ducker = null;
+      this.gain = 1;
+      return;
+    }
+    if (this.ducker == null || settings !== this.settings) {
+      this.ducker = new Ducker(settings);
+      this.settings = settings;
+      this.lastTime = null;
+    }
+
+    this.roles.clear();
+    for (const track of this.studio.tracks) {
+      if (!track.role) continue;
+      for (const id of track.clipIds) this.roles.set(id, track.role);
+    }
+
+    let power = 0;
+    for (const clip of this.studio.clips) {
+      if (this.roles.get(clip.id) === "dialogue") power += this.dialoguePower(clip, timestamp);
+    }
+
+    const dt = this.lastTime == null ? 0 : (timestamp - this.lastTime) / 1e6;
+    this.gain =
+      this.studio.isPlaying && dt > 0 && dt < MAX_STEP
+        ? this.ducker.next(power, dt)
+        : this.ducker.settle(power);
+    this.lastTime = timestamp;
+  }
+
+  /** Volume multiplier for a clip at the last updated time */
+  gainFor(clip: IClip): number {
+    return this.ducker != null && this.roles.get(clip.id) === "music" ? this.gain : 1;
+  }
+
+  private dialoguePower(clip: IClip, timestamp: number): number {
+    const { from, to } = clip.display;
+    if (timestamp < from || (to > 0 && timestamp >= to) || clip.volume === 0) return 0;
+    if (this.studio.trackMixer.gainFor(clip) === 0) return 0;
+
+    // Decoded PCM is only kept by audio clips; video clips are metered as
+    // their playback element plays, with volume and track gain applied
+    if (clip instanceof Video) {
+      const element = this.studio.playbackElements.get(clip)?.element;
+      return element != null ? this.studio.trackMixer.measure(element) : 0;
+    }
+    if (!(clip instanceof Audio)) return 0;
+    const sourceTime = clip.getMediaTime(timestamp - from);
+    const power = measurePower(clip.getPCMData(), sourceTime, DEFAULT_AUDIO_CONF.sampleRate);
+    const gain = clip.volume * this.studio.trackMixer.gainFor(clip);
+    return power * gain * gain;
+  }
+}
@@ -13,6 +13,30 @@ import { Transformer } from "../transfomer/transformer";
 import type { Studio } from "../studio";
 import { nanoid } from "nanoid";
 
+/** Clips another collaborator has selected, outlined in their colour */
+export interface RemoteSelection {
+  id: string;
+  color: string;
+  clipIds: string[];
+}
+
+/**
+ * Where a clip would be after a change that is not applied yet, drawn as a
+ * dashed outline while it is on screen. `x`/`y` is the top-left corner in
+ * artboard units; `from`/`to` is the display range.
+ */
+export interface GhostFrame {
+  id: string;
+  color: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle: number;
+  from: number;
+  to: number;
+}
+
 export class SelectionManager {
   public selectedClips: Set<IClip> = new Set();
   public activeTransformer: Transformer | null = null;
@@ -34,6 +58,14 @@ export class SelectionManager {
   private textClipResizedSx: number | null = null;
   private textClipResizedSy: number | null = null;
 
+  // Collaborators' selections
+  private remoteSelections: RemoteSelection[] = [];
+  private remoteSelectionGraphics: Graphics | null = null;
+
+  // Previewed changes
+  private ghostFrames: GhostFrame[] = [];
+  private ghostGraphics: Graphics | null = null;
+
   // Double-click detection state
   private lastPointerDownTime = 0;
   private lastPointerDownClip: IClip | null = null;
@@ -47,6 +79,16 @@ export class SelectionManager {
     this.selectionGraphics.zIndex = 1000; // Ensure it's on top
     artboard.addChild(this.selectionGraphics);
 
+    this.remoteSelectionGraphics = new Graphics();
+    this.remoteSelectionGraphics.eventMode = "none";
+    this.remoteSelectionGraphics.zIndex = 999; // Below the rubber band and transformer
+    artboard.addChild(this.remoteSelectionGraphics);
+
+    this.ghostGraphics = new Graphics();
+    this.ghostGraphics.eventMode = "none";
+    this.ghostGraphics.zIndex = 998;
+    artboard.addChild(this.ghostGraphics);
+
     // Make stage interactive to handle clicks and drag selection
     app.stage.eventMode = "static";
     app.stage.hitArea = app.screen;
@@ -442,6 +484,87 @@ export class SelectionManager {
     this.studio.pixiApp?.render();
   }
 
+  public setRemoteSelections(selections: RemoteSelection[]): void {
+    this.remoteSelections = selections;
+    this.drawRemoteSelections();
+    this.studio.pixiApp?.render();
+  }
+
+  /**
+   * Outline clips selected by collaborators. Called on every frame so the
+   * outlines follow moves and hide with clips that are not on screen.
+   */
+  public drawRemoteSelections(): void {
+    const graphics = this.remoteSelectionGraphics;
+    const artboard = this.studio.artboard;
+    if (graphics == null || artboard == null) return;
+
+    graphics.clear();
+    for (const selection of this.remoteSelections) {
+      for (const clipId of selection.clipIds) {
+        const clip = this.studio.clips.find((c) => c.id === clipId);
+        if (clip == null) continue;
+        const root = this.studio.spriteRenderers.get(clip)?.getRoot();
+        if (root == null || !root.visible) continue;
+
+        // root is centred on the clip, so its corners are at half the clip size
+        const corners = [
+          [-clip.width / 2, -clip.height / 2],
+          [clip.width / 2, -clip.height / 2],
+          [clip.width / 2, clip.height / 2],
+          [-clip.width / 2, clip.height / 2],
+        ].map(([x, y]) => artboard.toLocal(new Point(x, y), root));
+        graphics.poly(corners).stroke({ width: 2, color: selection.color, alignment: 0.5 });
+      }
+    }
+  }
+
+  public setGhostFrames(frames: GhostFrame[]): void {
+    this.ghostFrames = frames;
+    this.drawGhostFrames();
+    this.studio.pixiApp?.render();
+  }
+
+  /** Outline ghost frames that cover the current time, with a light fill */
+  public drawGhostFrames(): void {
+    const graphics = this.ghostGraphics;
+    if (graphics == null) return;
+
+    graphics.clear();
+    const time = this.studio.currentTime;
+    for (const frame of this.ghostFrames) {
+      if (time < frame.from || (frame.to > frame.from && time >= frame.to)) continue;
+
+      const cx = frame.x + frame.width / 2;
+      const cy = frame.y + frame.height / 2;
+      const rad = (frame.angle * Math.PI) / 180;
+      const cos = Math.cos(rad);
+      const sin = Math.sin(rad);
+      const corners = [
+        [-frame.width / 2, -frame.height / 2],
+        [frame.width / 2, -frame.height / 2],
+        [frame.width / 2, frame.height / 2],
+        [-frame.width / 2, frame.height / 2],
+      ].map(([x, y]) => new Point(cx + x * cos - y * sin, cy + x * sin + y * cos));
+
+      graphics.poly(corners).fill({ color: frame.color, alpha: 0.12 });
+      // Pixi has no dashed strokes, so dash each edge by hand
+      for (let i = 0; i < corners.length; i++) {
+        const a = corners[i];
+        const b = corners[(i + 1) % corners.length];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        for (let d = 0; d < length; d += 16) {
+          const t0 = d / length;
+          const t1 = Math.min(d + 8, length) / length;
+          graphics
+            .moveTo(a.x + (b.x - a.x) * t0, a.y + (b.y - a.y) * t0)
+            .lineTo(a.x + (b.x - a.x) * t1, a.y + (b.y - a.y) * t1);
+        }
+      }
+      graphics.stroke({ width: 3, color: frame.color, alignment: 0.5 });
+    }
+  }
+
   public async move(dx: number, dy: number) {
     if (this.selectedClips.size === 0) return;
 
@@ -560,6 +683,23 @@ export class SelectionManager {
       });
     });
 
+    // Mask handle drags: redraw live, then commit the final mask to core
+    this.activeTransformer.on("maskChanging", () => {
+      if (!singleClip) return;
+      this.studio.spriteRenderers.get(singleClip)?.updateTransforms();
+      this.studio.pixiApp?.render();
+    });
+
+    this.activeTransformer.on("maskChange", (mask: any) => {
+      if (!singleClip) return;
+      this.studio.opts.core?.execute({
+        id: nanoid(),
+        type: "clip.setMask",
+        payload: { ids: [singleClip.id], mask },
+      });
+      this.studio.emit("clip:updated", { clip: singleClip });
+    });
+
     this.activeTransformer.on("textClipResize", (data: any) => {
       this.textClipResizedWidth = data.newWidth;
       this.textClipResizeHandle = data.handle;
@@ -2,15 +2,42 @@ import { Texture, Sprite } from "pixi.js";
 import type { Studio, StudioTrack } from "../studio";
 import type { IClip, IPlaybackCapable } from "../clips/iclip";
 import { Transition } from "../clips/transition-clip";
+import { Visualizer } from "../clips/visualizer-clip";
 import { PixiSpriteRenderer } from "../sprite/pixi-sprite-renderer";
 import {
   clipToJSON,
   jsonToClip,
+  resolveSequenceJSON,
   ProjectJSON,
   ClipJSON,
   GlobalTransitionJSON as TransitionJSON,
 } from "../json-serialization";
+import { pickTrackMix } from "../utils/track-mix";
 import { fontManager, IFont } from "../utils/fonts";
+import { nanoid, splitKeyframeTrack, type IKeyframe, type ITrim } from "@openvideo/core";
+
+/**
+ * Source ranges of the parts of a clip before and after `offset` µs into it.
+ * A reversed clip plays from trim.to, so its first part holds the end of the range.
+ */
+function splitTrim(clip: IClip, offset: number): [ITrim, ITrim] {
+  const { from, to } = clip.trim;
+  const cut = clip.getSourceTime(offset);
+  return clip.reversed
+    ? [
+        { from: to - cut, to },
+        { from, to: to - cut },
+      ]
+    : [
+        { from, to: from + cut },
+        { from: from + cut, to },
+      ];
+}
+
+/** Speed ramp of the part of a clip starting `offset` µs into it, if the clip has one */
+function rampFrom(clip: IClip, offset: number): IKeyframe[] | undefined {
+  return clip.speedRamp && splitKeyframeTrack(clip.speedRamp, offset, nanoid, clip.easings)[1];
+}
 
 export class TimelineModel {
   public tracks: StudioTrack[] = [];
@@ -286,6 +313,17 @@ export class TimelineModel {
     return { trackId, audioSource };
   }
 
+  /**
+   * Give a clip the project's easing curves, and let a Visualizer find the
+   * audio it draws among the timeline's clips
+   */
+  private linkClip(clip: IClip) {
+    clip.easings = this.studio.easings;
+    if (clip instanceof Visualizer) {
+      clip.resolveSource = (id) => this.getClipById(id);
+    }
+  }
+
   private async prepareClipForTimeline(clip: IClip, trackId?: string) {
     // A. Ensure ID immediately (Synchronous)
     if (!clip.id) {
@@ -298,6 +336,7 @@ export class TimelineModel {
     if (!this.getClipById(clip.id)) {
       this.clips.push(clip);
     }
+    this.linkClip(clip);
 
     // C. Add to Track immediately (Synchronous)
     this.addClipToTrack(clip, trackId);
@@ -865,6 +904,7 @@ export class TimelineModel {
       name: track.name,
       type: track.type,
       clipIds: [...track.clipIds], // Create a new array to avoid reference leakage
+      ...pickTrackMix(track),
     }));
 
     const transitions: TransitionJSON[] = [];
@@ -889,11 +929,13 @@ export class TimelineModel {
     return {
       tracks,
       clips,
+      easings: this.studio.easings,
       settings: {
         width: this.studio.opts.width,
         height: this.studio.opts.height,
         fps: this.studio.opts.fps,
         backgroundColor: this.studio.opts.backgroundColor,
+        ducking: this.studio.opts.ducking,
       },
     };
   }
@@ -904,6 +946,9 @@ export class TimelineModel {
   async loadFromJSON(json: ProjectJSON): Promise<void> {
     await this.clear();
 
+    // Project easing curves must be known before any fade/transition/keyframe resolves them
+    this.studio.easings = json.easings ?? {};
+
     // Update settings if provided
     if (json.settings) {
       const dimensionsChanged =
@@ -915,6 +960,7 @@ export class TimelineModel {
       if (json.settings.fps) this.studio.opts.fps = json.settings.fps;
       if (json.settings.backgroundColor)
         this.studio.opts.backgroundColor = json.settings.backgroundColor;
+      if (json.settings.ducking) this.studio.opts.ducking = json.settings.ducking;
 
       // Resize PixiJS renderer and canvas if dimensions changed
       if (dimensionsChanged && this.studio.pixiApp != null) {
@@ -969,6 +1015,7 @@ export class TimelineModel {
             name: t.name,
             type: t.type,
             clipIds: [], // Will fill as we add clips
+            ...pickTrackMix(t),
           });
         }
       }
@@ -995,13 +1042,16 @@ export class TimelineModel {
                 clipJSON.type !== "Caption" &&
                 clipJSON.type !== "Effect" &&
                 clipJSON.type !== "Transition" &&
+                clipJSON.type !== "Sequence" &&
+                clipJSON.type !== "Visualizer" &&
+                clipJSON.type !== "Shape" &&
                 (!clipJSON.src || clipJSON.src.trim() === "")
               ) {
                 console.warn(`Skipping clip ${clipJSON.type} with empty source`, clipJSON);
                 return { clip: null };
               }
 
-              const clip = await jsonToClip(clipJSON);
+              const clip = await jsonToClip(resolveSequenceJSON(clipJSON, json.sequences));
 
               // If scaling needed (Video/Image)
               if (
@@ -1047,6 +1097,7 @@ export class TimelineModel {
           (clip as any).id = `clip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         }
         this.clips.push(clip);
+        this.linkClip(clip);
         this.addClipToTrack(clip, intendedTrackId);
       }
     }
@@ -1119,6 +1170,7 @@ export class TimelineModel {
           toClipId: clip.toClipId,
           start: clip.display.from,
           end: clip.display.to,
+          easing: clip.easing,
         };
 
         if (clip.fromClipId) {
@@ -1238,8 +1290,10 @@ export class TimelineModel {
 
     const originalJson = clipToJSON(clip, false);
     const splitOffset = time - clip.display.from;
-    const playbackRate = clip.playbackRate || 1;
-    const splitOffsetInSource = splitOffset * playbackRate;
+    const [leftTrim, rightTrim] = splitTrim(clip, splitOffset);
+    const [leftRamp, rightRamp] = clip.speedRamp
+      ? splitKeyframeTrack(clip.speedRamp, splitOffset, nanoid, clip.easings)
+      : [undefined, undefined];
 
     // 1. Update original clip (Left Part)
     const updates: any = {
@@ -1251,11 +1305,9 @@ export class TimelineModel {
     };
 
     if (clip.trim) {
-      updates.trim = {
-        from: clip.trim.from,
-        to: clip.trim.from + splitOffsetInSource,
-      };
+      updates.trim = leftTrim;
     }
+    if (leftRamp) updates.speedRamp = leftRamp;
 
     await this.updateClip(clip.id, updates);
 
@@ -1276,11 +1328,9 @@ export class TimelineModel {
     newJson.timing.duration = origDuration - splitOffset;
 
     if (newJson.timing.trim) {
-      newJson.timing.trim = {
-        from: newJson.timing.trim.from + splitOffsetInSource,
-        to: newJson.timing.trim.to,
-      };
+      newJson.timing.trim = rightTrim;
     }
+    if (rightRamp) newJson.timing.speedRamp = rightRamp;
 
     const newClip = await jsonToClip(newJson);
     newClip.id = `clip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -1312,9 +1362,8 @@ export class TimelineModel {
     // Convert seconds to microseconds
     const trimFromUs = trimFromSeconds * 1_000_000;
 
-    // Get playback rate for proper trim calculation
-    const playbackRate = clip.playbackRate || 1;
-    const trimOffsetInSource = trimFromUs * playbackRate;
+    // Follow the playback rate (or speed ramp) for proper trim calculation
+    const trimOffsetInSource = clip.getSourceTime(trimFromUs);
 
     // Validate trim amount doesn't exceed clip duration
     if (trimFromUs >= clip.duration) {
@@ -1334,13 +1383,11 @@ export class TimelineModel {
         to: newDisplayTo,
       },
     };
+    if (clip.speedRamp) updates.speedRamp = rampFrom(clip, trimFromUs);
 
     // Update trim if it exists, otherwise create it
     if (clip.trim) {
-      updates.trim = {
-        from: clip.trim.from + trimOffsetInSource,
-        to: clip.trim.to,
-      };
+      updates.trim = splitTrim(clip, trimFromUs)[1];
     } else {
       // If no trim exists, create one based on source duration
       const sourceDuration = (clip as any).sourceDuration || clip.duration;
@@ -1566,7 +1613,8 @@ export class TimelineModel {
 
   /**
    * Remove a time range from the entire timeline and shift subsequent content left.
-   * This is a ripple delete operation.
+   * This is a ripple delete operation. It bypasses core history; editors
+   * should prefer the core `clip.rippleDelete` command, which can be undone.
    * @param fromUs Start time in microseconds
    * @param toUs End time in microseconds
    */
@@ -1611,8 +1659,7 @@ export class TimelineModel {
 
         const secondPartDisplayFrom = fromUs;
         const secondPartDisplayTo = fromUs + (clipEnd - toUs);
-        const secondPartTrimFrom = clip.trim.from + (toUs - clipStart) * clip.playbackRate;
-        const secondPartTrimTo = clip.trim.to;
+        const secondPartTrim = splitTrim(clip, toUs - clipStart)[1];
 
         // Add to the same track
         const track = this.tracks.find((t) => t.clipIds.includes(clip.id));
@@ -1623,10 +1670,8 @@ export class TimelineModel {
               from: secondPartDisplayFrom,
               to: secondPartDisplayTo,
             },
-            trim: {
-              from: secondPartTrimFrom,
-              to: secondPartTrimTo,
-            },
+            trim: secondPartTrim,
+            speedRamp: rampFrom(clip, toUs - clipStart),
           });
         }
 
@@ -1636,10 +1681,7 @@ export class TimelineModel {
             from: clip.display.from,
             to: fromUs,
           },
-          trim: {
-            from: clip.trim.from,
-            to: clip.trim.from + (fromUs - clipStart) * clip.playbackRate,
-          },
+          trim: splitTrim(clip, fromUs - clipStart)[0],
         });
         continue;
       }
@@ -1651,10 +1693,7 @@ export class TimelineModel {
             from: clip.display.from,
             to: fromUs,
           },
-          trim: {
-            from: clip.trim.from,
-            to: clip.trim.from + (fromUs - clipStart) * clip.playbackRate,
-          },
+          trim: splitTrim(clip, fromUs - clipStart)[0],
         });
         continue;
       }
@@ -1666,10 +1705,8 @@ export class TimelineModel {
             from: fromUs,
             to: fromUs + (clipEnd - toUs),
           },
-          trim: {
-            from: clip.trim.from + (toUs - clipStart) * clip.playbackRate,
-            to: clip.trim.to,
-          },
+          trim: splitTrim(clip, toUs - clipStart)[1],
+          speedRamp: rampFrom(clip, toUs - clipStart),
         });
         continue;
       }
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import type { ITrack } from "@openvideo/core";
+import type { IClip } from "../clips";
+import { dbToGain } from "../utils/ducking";
+import { TrackMixer } from "./track-mixer";
+import type { Studio } from "../studio";
+
+const clip = (id: string) => ({ id }) as IClip;
+
+/** A mixer over tracks "a" and "b", each holding the clip of the same id */
+function mixer(a: Partial<ITrack>, b: Partial<ITrack> = {}): TrackMixer {
+  const tracks = [
+    { id: "a", name: "A", type: "Audio", clipIds: ["a"], ...a },
+    { id: "b", name: "B", type: "Audio", clipIds: ["b"], ...b },
+  ];
+  const trackMixer = new TrackMixer({ tracks } as unknown as Studio);
+  trackMixer.update();
+  return trackMixer;
+}
+
+describe("TrackMixer", () => {
+  it("should give clips their track's gain, and unity outside any track", () => {
+    const trackMixer = mixer({ gain: -12 });
+    expect(trackMixer.gainFor(clip("a"))).toBeCloseTo(dbToGain(-12), 6);
+    expect(trackMixer.gainFor(clip("b"))).toBe(1);
+    expect(trackMixer.gainFor(clip("loose"))).toBe(1);
+  });
+
+  it("should silence muted tracks and tracks soloed out", () => {
+    expect(mixer({ muted: true }).gainFor(clip("a"))).toBe(0);
+
+    const soloed = mixer({ solo: true, gain: -6 });
+    expect(soloed.gainFor(clip("a"))).toBeCloseTo(dbToGain(-6), 6);
+    expect(soloed.gainFor(clip("b"))).toBe(0);
+  });
+
+  it("should cap the element volume at unity and leave boosts to the gain node", () => {
+    const trackMixer = mixer({ gain: 6 }, { gain: -6 });
+    expect(trackMixer.gainFor(clip("a"))).toBeGreaterThan(1);
+    expect(trackMixer.volumeFor(clip("a"))).toBe(1);
+    expect(trackMixer.volumeFor(clip("b"))).toBeCloseTo(dbToGain(-6), 6);
+  });
+
+  it("should pick up track changes on update", () => {
+    const tracks = [{ id: "a", name: "A", type: "Audio", clipIds: ["a"] } as ITrack];
+    const trackMixer = new TrackMixer({ tracks } as unknown as Studio);
+    trackMixer.update();
+    expect(trackMixer.gainFor(clip("a"))).toBe(1);
+
+    tracks[0] = { ...tracks[0], muted: true };
+    trackMixer.update();
+    expect(trackMixer.gainFor(clip("a"))).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import type { ITrackMix } from "@openvideo/core";
+import type { IClip } from "../clips";
+import { getTrackGain, resolveTrackMixes } from "../utils/track-mix";
+import type { Studio } from "../studio";
+
+interface MediaRoute {
+  gain: GainNode;
+  panner: StereoPannerNode;
+  /** Taps the signal after the track gain, for ducking under dialogue */
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+}
+
+/** Samples the level meter averages over, about the ducking detector's 20 ms window */
+const METER_SIZE = 1024;
+
+/**
+ * Preview counterpart of the compositor's per-track mix. Gain cuts, mute and
+ * solo scale the playback element's volume; pan, gain boosts and level
+ * metering need Web Audio, so elements are routed through a gain and panner
+ * node the first time their track asks for any of them.
+ */
+export class TrackMixer {
+  private mixes = new Map<string, ITrackMix>();
+  private routes = new WeakMap<HTMLMediaElement, MediaRoute | null>();
+  private ctx: AudioContext | null = null;
+
+  constructor(private studio: Studio) {}
+
+  /**
+   * Re-read the mix of every track, resolving solo across tracks
+   */
+  update(): void {
+    this.mixes.clear();
+    for (const track of resolveTrackMixes(this.studio.tracks)) {
+      for (const id of track.clipIds) this.mixes.set(id, track);
+    }
+  }
+
+  /** Linear track gain of a clip, 0 when muted or soloed out */
+  gainFor(clip: IClip): number {
+    return getTrackGain(this.mixes.get(clip.id));
+  }
+
+  /**
+   * Volume multiplier for a clip's playback element. Anything above unity is
+   * applied by the element's gain node instead, since element volume tops out at 1.
+   */
+  volumeFor(clip: IClip): number {
+    return Math.min(1, this.gainFor(clip));
+  }
+
+  /**
+   * Apply pan and gain boost of the clip's track to its playback element
+   */
+  apply(clip: IClip, element: HTMLMediaElement): void {
+    const mix = this.mixes.get(clip.id);
+    const gain = this.gainFor(clip);
+    const pan = Math.max(-1, Math.min(1, mix?.pan ?? 0));
+
+    const route = this.routeFor(element, gain > 1 || pan !== 0);
+    if (route == null) return;
+
+    route.gain.gain.value = Math.max(1, gain);
+    route.panner.pan.value = pan;
+    if (this.ctx?.state === "suspended") this.ctx.resume().catch(() => {});
+  }
+
+  /**
+   * Mean square of the element's audio as it plays right now, after volume
+   * and track gain. Routes the element through Web Audio on first use;
+   * 0 when that is not possible.
+   */
+  measure(element: HTMLMediaElement): number {
+    const route = this.routeFor(element, true);
+    if (route == null) return 0;
+
+    route.analyser.getFloatTimeDomainData(route.samples);
+    let sum = 0;
+    for (const sample of route.samples) sum += sample * sample;
+    return sum / route.samples.length;
+  }
+
+  destroy(): void {
+    this.ctx?.close().catch(() => {});
+    this.ctx = null;
+  }
+
+  /** The element's route, created when `create` is set and it has none yet */
+  private routeFor(element: HTMLMediaElement, create: boolean): MediaRoute | null {
+    let route = this.routes.get(element);
+    if (route === undefined) {
+      if (!create) return null;
+      route = this.createRoute(element);
+      this.routes.set(element, route);
+    }
+    return route;
+  }
+
+  /** Route an element through Web Audio; null when that is not possible */
+  private createRoute(element: HTMLMediaElement): MediaRoute | null {
+    try {
+      this.ctx ??= new AudioContext();
+      const source = this.ctx.createMediaElementSource(element);
+      const gain = this.ctx.createGain();
+      // Upmix mono to stereo first, so the panner uses the same law as the export
+      const panner = new StereoPannerNode(this.ctx, {
+        channelCount: 2,
+        channelCountMode: "explicit",
+      });
+      const analyser = new AnalyserNode(this.ctx, { fftSize: METER_SIZE });
+      source.connect(gain).connect(panner).connect(this.ctx.destination);
+      gain.connect(analyser);
+      return { gain, panner, analyser, samples: new Float32Array(METER_SIZE) };
+    } catch (err) {
+      console.warn("Track pan, gain boost and dialogue metering are unavailable in preview:", err);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  Circle,
+  Container,
+  type FederatedPointerEvent,
+  Graphics,
+  Point,
+  type Rectangle,
+} from "pixi.js";
+import type { IClipMaskOpts } from "../../clips/iclip";
+
+/** What a mask handle drags: the whole mask, its size, or one vertex */
+type MaskHandleTarget = "center" | "size" | number;
+
+interface Callbacks {
+  /** Called with the edited mask on every move of a drag */
+  change: (mask: IClipMaskOpts) => void;
+  /** Called with the final mask when a drag ends */
+  end: (mask: IClipMaskOpts) => void;
+}
+
+const MASK_COLOR = 0xf59e0b;
+
+/**
+ * Mask outline and handles drawn over the clip box: a centre handle to move
+ * the mask, a corner handle to size rectangles and ellipses, and one handle
+ * per polygon or path vertex.
+ */
+export class MaskHandles extends Container {
+  #outline = new Graphics();
+  #handles: Array<{ target: MaskHandleTarget; graphics: Graphics }> = [];
+  #bounds: Rectangle | null = null;
+  #scale = 1;
+  #drag: { target: MaskHandleTarget; start: Point; mask: IClipMaskOpts } | null = null;
+  #getMask: () => IClipMaskOpts | null;
+  #callbacks: Callbacks;
+
+  constructor(getMask: () => IClipMaskOpts | null, callbacks: Callbacks) {
+    super();
+    this.#getMask = getMask;
+    this.#callbacks = callbacks;
+    this.#outline.eventMode = "none";
+    this.addChild(this.#outline);
+  }
+
+  /** Redraw for the transformer's local clip box */
+  draw(bounds: Rectangle, scale: number = 1) {
+    this.#bounds = bounds;
+    this.#scale = scale;
+
+    const mask = this.#getMask();
+    this.visible = mask != null && mask.enabled !== false;
+    if (!mask || !this.visible) return;
+
+    const { x: cx, y: cy } = this.#toLocal(mask.x, mask.y);
+    const w = mask.width * bounds.width;
+    const h = mask.height * bounds.height;
+    const points = mask.points ?? [];
+
+    this.#outline.clear();
+    if (mask.shape === "rectangle") {
+      this.#outline.roundRect(
+        cx - w / 2,
+        cy - h / 2,
+        w,
+        h,
+        Math.min(mask.radius ?? 0, w / 2, h / 2),
+      );
+    } else if (mask.shape === "ellipse") {
+      this.#outline.ellipse(cx, cy, Math.abs(w / 2), Math.abs(h / 2));
+    } else if (points.length >= 3) {
+      const at = (x: number, y: number) => this.#toLocal(mask.x + x, mask.y + y);
+      const first = at(points[0].x, points[0].y);
+      this.#outline.moveTo(first.x, first.y);
+      for (let i = 1; i <= points.length; i++) {
+        const prev = points[i - 1];
+        const next = points[i % points.length];
+        const end = at(next.x, next.y);
+        if (mask.shape === "path" && (prev.out || next.in)) {
+          const c1 = at(prev.x + (prev.out?.x ?? 0), prev.y + (prev.out?.y ?? 0));
+          const c2 = at(next.x + (next.in?.x ?? 0), next.y + (next.in?.y ?? 0));
+          this.#outline.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, end.x, end.y);
+        } else {
+          this.#outline.lineTo(end.x, end.y);
+        }
+      }
+      this.#outline.closePath();
+    }
+    this.#outline.stroke({ width: 1.5 * scale, color: MASK_COLOR });
+
+    const targets: MaskHandleTarget[] = ["center"];
+    if (mask.shape === "rectangle" || mask.shape === "ellipse") targets.push("size");
+    else points.forEach((_p, i) => targets.push(i));
+    this.#syncHandles(targets);
+
+    for (const { target, graphics } of this.#handles) {
+      graphics.scale.set(scale);
+      if (target === "center") graphics.position.set(cx, cy);
+      else if (target === "size") graphics.position.set(cx + w / 2, cy + h / 2);
+      else {
+        const p = this.#toLocal(mask.x + points[target].x, mask.y + points[target].y);
+        graphics.position.set(p.x, p.y);
+      }
+    }
+  }
+
+  /** Fractions of the clip box to transformer-local coordinates */
+  #toLocal(fx: number, fy: number): Point {
+    const b = this.#bounds!;
+    return new Point(b.x + fx * b.width, b.y + fy * b.height);
+  }
+
+  /**
+   * Keep one handle per target. Handles are only rebuilt when the targets
+   * change, so the one being dragged keeps its listeners.
+   */
+  #syncHandles(targets: MaskHandleTarget[]) {
+    const same =
+      targets.length === this.#handles.length &&
+      targets.every((t, i) => this.#handles[i].target === t);
+    if (same) return;
+
+    for (const { graphics } of this.#handles) graphics.destroy();
+    this.#handles = targets.map((target) => {
+      const graphics = new Graphics();
+      if (target === "center") {
+        graphics.rect(-4, -4, 8, 8);
+      } else {
+        graphics.circle(0, 0, 4);
+      }
+      graphics.fill({ color: "#ffffff" }).stroke({ width: 1, color: MASK_COLOR });
+      graphics.hitArea = new Circle(0, 0, 12);
+      graphics.eventMode = "static";
+      graphics.cursor = target === "size" ? "nwse-resize" : "move";
+      graphics.on("pointerdown", (e) => this.#onDown(target, e));
+      graphics.on("globalpointermove", this.#onMove);
+      graphics.on("pointerup", this.#onUp);
+      graphics.on("pointerupoutside", this.#onUp);
+      this.addChild(graphics);
+      return { target, graphics };
+    });
+  }
+
+  #onDown(target: MaskHandleTarget, e: FederatedPointerEvent) {
+    const mask = this.#getMask();
+    if (e.button !== 0 || !mask) return;
+    // Keep the transformer from starting a move underneath
+    e.stopPropagation();
+    this.#drag = { target, start: this.toLocal(e.global), mask };
+  }
+
+  #onMove = (e: FederatedPointerEvent) => {
+    if (!this.#drag || !this.#bounds) return;
+    const { target, start, mask } = this.#drag;
+    const p = this.toLocal(e.global);
+    const dx = (p.x - start.x) / (this.#bounds.width || 1);
+    const dy = (p.y - start.y) / (this.#bounds.height || 1);
+
+    let next: IClipMaskOpts;
+    if (target === "center") {
+      next = { ...mask, x: mask.x + dx, y: mask.y + dy };
+    } else if (target === "size") {
+      // The mask is sized around its centre
+      next = {
+        ...mask,
+        width: Math.max(0.01, mask.width + dx * 2),
+        height: Math.max(0.01, mask.height + dy * 2),
+      };
+    } else {
+      const points = [...(mask.points ?? [])];
+      points[target] = { ...points[target], x: points[target].x + dx, y: points[target].y + dy };
+      next = { ...mask, points };
+    }
+
+    this.#callbacks.change(next);
+    if (this.#bounds) this.draw(this.#bounds, this.#scale);
+  };
+
+  #onUp = () => {
+    if (!this.#drag) return;
+    this.#drag = null;
+    const mask = this.#getMask();
+    if (mask) this.#callbacks.end(mask);
+  };
+}
@@ -12,6 +12,7 @@ import {
 import { Wireframe } from "./parts/wireframe";
 import { type HandleKind, Handle } from "./parts/handle";
 import { SnappingManager, type SnapGuide } from "./parts/snapping";
+import { MaskHandles } from "./parts/mask-handles";
 
 const TMP = {
   delta: new Matrix(),
@@ -44,6 +45,7 @@ export class Transformer extends Container {
 
   #snappingManager: SnappingManager;
   #guidelines = new Graphics();
+  #maskHandles: MaskHandles;
   #unsnappedPivotWorld = new Point();
 
   opts: {
@@ -97,6 +99,24 @@ export class Transformer extends Container {
     };
 
     this.addChild(this.selectionOutlines, this.wireframe, ...Object.values(this.#handles));
+
+    // Mask editing for a single unlocked clip, shown once someone listens for
+    // "maskChange". Drags update the clip directly for live feedback.
+    this.#maskHandles = new MaskHandles(
+      () =>
+        this.opts.locked || this.listenerCount("maskChange") === 0
+          ? null
+          : (this.opts.clip?.mask ?? null),
+      {
+        change: (mask) => {
+          this.opts.clip.mask = mask;
+          this.opts.clip.renderMask = mask;
+          this.emit("maskChanging", mask);
+        },
+        end: (mask) => this.emit("maskChange", mask),
+      },
+    );
+    this.addChild(this.#maskHandles);
     this.#bindEvents();
 
     // Hide initially to prevent FOUC (Flash of Unpositioned Content)
@@ -596,6 +616,8 @@ export class Transformer extends Container {
     // Adjust rotation handle offset based on scale
     this.#handles.rot.position.set(cx, r.y - 30 * handleScale);
 
+    this.#maskHandles.draw(r, handleScale);
+
     // Update selection outlines
     this.#drawSelectionOutlines(handleScale);
   }
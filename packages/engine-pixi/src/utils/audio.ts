@@ -1,6 +1,7 @@
 // Audio utility functions that can run in both worker and main threads
 
 import * as waveResampler from "wave-resampler";
+import { resolveEasing, type EasingId, type EasingRegistry } from "@openvideo/core";
 
 /**
  * Concatenate multiple Float32Arrays, commonly used for merging PCM data
@@ -263,21 +264,12 @@ export function changePCMPlaybackRate(pcmData: Float32Array, playbackRate: numbe
 
 export interface IFade {
   duration: number; // ms
-  curve?: "linear" | "ease-in" | "ease-out" | "ease-in-out";
+  /** Easing catalog ID */
+  curve?: EasingId;
 }
 
-export function getEaseFactor(
-  t: number,
-  curve?: "linear" | "ease-in" | "ease-out" | "ease-in-out",
-): number {
-  const clampedT = Math.max(0, Math.min(1, t));
-  if (!curve || curve === "linear") return clampedT;
-  if (curve === "ease-in") return clampedT * clampedT;
-  if (curve === "ease-out") return clampedT * (2 - clampedT);
-  if (curve === "ease-in-out") {
-    return clampedT < 0.5 ? 2 * clampedT * clampedT : -1 + (4 - 2 * clampedT) * clampedT;
-  }
-  return clampedT;
+export function getEaseFactor(t: number, curve?: EasingId, easings?: EasingRegistry): number {
+  return resolveEasing(curve, easings)(Math.max(0, Math.min(1, t)));
 }
 
 export function applyAudioFade(
@@ -287,6 +279,7 @@ export function applyAudioFade(
   sampleRate: number,
   fadeIn?: IFade,
   fadeOut?: IFade,
+  easings?: EasingRegistry,
 ): void {
   if (!audio || audio.length === 0 || audio[0].length === 0) return;
   const length = audio[0].length;
@@ -299,6 +292,8 @@ export function applyAudioFade(
 
   const fadeInDurationMicro = hasFadeIn ? fadeIn!.duration * 1000 : 0;
   const fadeOutDurationMicro = hasFadeOut ? fadeOut!.duration * 1000 : 0;
+  const easeIn = resolveEasing(fadeIn?.curve, easings);
+  const easeOut = resolveEasing(fadeOut?.curve, easings);
 
   for (const chan of audio) {
     for (let i = 0; i < chan.length; i++) {
@@ -307,7 +302,7 @@ export function applyAudioFade(
 
       if (hasFadeIn && sampleClipTime < fadeInDurationMicro) {
         const t = sampleClipTime / fadeInDurationMicro;
-        fadeMultiplier *= getEaseFactor(t, fadeIn!.curve);
+        fadeMultiplier *= easeIn(Math.max(0, Math.min(1, t)));
       }
 
       if (hasFadeOut) {
@@ -315,7 +310,7 @@ export function applyAudioFade(
         if (sampleClipTime >= fadeOutStartTime) {
           const timeInFadeOut = sampleClipTime - fadeOutStartTime;
           const t = 1.0 - timeInFadeOut / fadeOutDurationMicro;
-          fadeMultiplier *= getEaseFactor(t, fadeOut!.curve);
+          fadeMultiplier *= easeOut(Math.max(0, Math.min(1, t)));
         }
       }
 
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import type { IDuckingSettings } from "@openvideo/core";
+import { Ducker, applyDucking, dbToGain, measurePower } from "./ducking";
+
+const SAMPLE_RATE = 48000;
+
+const SETTINGS: IDuckingSettings = {
+  enabled: true,
+  threshold: -30,
+  reduction: 12,
+  attack: 50,
+  release: 300,
+};
+
+const DUCKED = dbToGain(-12);
+
+/** Feed `power` to the ducker in 1 ms steps for `ms` milliseconds; returns the last gain */
+function run(ducker: Ducker, power: number, ms: number): number {
+  let gain = 1;
+  for (let i = 0; i < ms; i++) gain = ducker.next(power, 0.001);
+  return gain;
+}
+
+/** Planar stereo PCM holding `value` in every sample */
+const constant = (value: number, frames: number) => [
+  new Float32Array(frames).fill(value),
+  new Float32Array(frames).fill(value),
+];
+
+describe("dbToGain", () => {
+  it("should convert decibels to linear gain", () => {
+    expect(dbToGain(0)).toBe(1);
+    expect(dbToGain(-6)).toBeCloseTo(0.501, 3);
+    expect(dbToGain(20)).toBeCloseTo(10, 6);
+  });
+});
+
+describe("Ducker", () => {
+  it("should settle at the reduction above the threshold and at unity below it", () => {
+    const ducker = new Ducker(SETTINGS);
+    expect(ducker.settle(0.01)).toBeCloseTo(DUCKED, 6);
+    expect(ducker.settle(0.0001)).toBe(1);
+  });
+
+  it("should dip toward the reduction with the attack time constant", () => {
+    const ducker = new Ducker(SETTINGS);
+    // After one time constant the gain has covered 1 - 1/e of the way
+    expect(run(ducker, 0.5, 50)).toBeCloseTo(1 - (1 - DUCKED) * (1 - Math.exp(-1)), 2);
+    expect(run(ducker, 0.5, 500)).toBeCloseTo(DUCKED, 4);
+  });
+
+  it("should recover with the release time constant once dialogue drops below the threshold", () => {
+    const ducker = new Ducker(SETTINGS);
+    ducker.settle(0.0011);
+    // The 20 ms detector falls below the threshold on the second step
+    expect(run(ducker, 0, 302)).toBeCloseTo(1 - (1 - DUCKED) * Math.exp(-301 / 300), 2);
+    expect(run(ducker, 0, 3000)).toBeCloseTo(1, 4);
+  });
+
+  it("should ignore the sign of the reduction", () => {
+    const ducker = new Ducker({ ...SETTINGS, reduction: -12 });
+    expect(ducker.settle(1)).toBeCloseTo(DUCKED, 6);
+  });
+});
+
+describe("applyDucking", () => {
+  it("should scale music under dialogue and leave other tracks alone", () => {
+    const frames = SAMPLE_RATE / 2;
+    const dialogue = constant(0.5, frames);
+    const music = constant(1, frames);
+    const effects = constant(1, frames);
+
+    applyDucking(
+      [dialogue, music, effects],
+      ["dialogue", "music", undefined],
+      new Ducker(SETTINGS),
+      SAMPLE_RATE,
+    );
+
+    // Music starts at unity while the detector picks the dialogue up
+    expect(music[0][0]).toBe(1);
+    expect(music[0][frames - 1]).toBeCloseTo(DUCKED, 3);
+    expect(music[1][frames - 1]).toBe(music[0][frames - 1]);
+    expect(dialogue[0][frames - 1]).toBe(0.5);
+    expect(effects[0][frames - 1]).toBe(1);
+  });
+
+  it("should carry the ducker's state across calls", () => {
+    const ducker = new Ducker(SETTINGS);
+    const frames = SAMPLE_RATE / 10;
+    const first = constant(1, frames);
+    const second = constant(1, frames);
+    applyDucking([constant(0.5, frames), first], ["dialogue", "music"], ducker, SAMPLE_RATE);
+    applyDucking([constant(0.5, frames), second], ["dialogue", "music"], ducker, SAMPLE_RATE);
+    expect(second[0][0]).toBeLessThan(first[0][frames - 1]);
+  });
+});
+
+describe("measurePower", () => {
+  it("should measure the mean square around a time", () => {
+    const sine = new Float32Array(SAMPLE_RATE);
+    for (let i = 0; i < sine.length; i++) {
+      sine[i] = Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE);
+    }
+    expect(measurePower([sine, sine], 500_000, SAMPLE_RATE)).toBeCloseTo(0.5, 2);
+    expect(measurePower(constant(0.5, SAMPLE_RATE), 500_000, SAMPLE_RATE)).toBeCloseTo(0.25, 6);
+  });
+
+  it("should be 0 for silence and past the end of the audio", () => {
+    expect(measurePower(constant(0, SAMPLE_RATE), 500_000, SAMPLE_RATE)).toBe(0);
+    expect(measurePower(constant(1, SAMPLE_RATE), 2_000_000, SAMPLE_RATE)).toBe(0);
+  });
+});
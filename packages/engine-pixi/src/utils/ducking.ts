@@ -0,0 +1,120 @@
+// Sidechain ducking shared by the Studio preview and the Compositor mix
+
+import type { IDuckingSettings, TrackRole } from "@openvideo/core";
+
+/** RMS window of the dialogue level detector, in seconds */
+const DETECTOR_WINDOW = 0.02;
+
+export function dbToGain(db: number): number {
+  return 10 ** (db / 20);
+}
+
+/**
+ * Follows the level of the dialogue (sidechain) signal and yields the gain to
+ * apply to music. Attack and release smooth the gain so music dips and
+ * recovers gradually instead of pumping with every syllable.
+ */
+export class Ducker {
+  private power = 0;
+  private gain = 1;
+  private readonly thresholdPower: number;
+  private readonly duckedGain: number;
+
+  private coefsFor = -1;
+  private detectorCoef = 0;
+  private attackCoef = 0;
+  private releaseCoef = 0;
+
+  constructor(private readonly settings: IDuckingSettings) {
+    this.thresholdPower = 10 ** (settings.threshold / 10);
+    this.duckedGain = dbToGain(-Math.abs(settings.reduction));
+  }
+
+  /**
+   * Advance the detector by `dt` seconds.
+   * @param power Mean square of the dialogue signal over the step
+   * @param dt Step length in seconds (one sample during export, one frame in preview)
+   * @returns Gain to apply to music for this step
+   */
+  next(power: number, dt: number): number {
+    if (dt !== this.coefsFor) {
+      this.coefsFor = dt;
+      this.detectorCoef = Math.exp(-dt / DETECTOR_WINDOW);
+      this.attackCoef = Math.exp(-dt / Math.max(1e-3, this.settings.attack / 1000));
+      this.releaseCoef = Math.exp(-dt / Math.max(1e-3, this.settings.release / 1000));
+    }
+
+    this.power = power + this.detectorCoef * (this.power - power);
+    const target = this.power > this.thresholdPower ? this.duckedGain : 1;
+    const coef = target < this.gain ? this.attackCoef : this.releaseCoef;
+    this.gain = target + coef * (this.gain - target);
+    return this.gain;
+  }
+
+  /** Jump straight to the settled state for a given dialogue level (e.g. after a seek) */
+  settle(power: number): number {
+    this.power = power;
+    this.gain = power > this.thresholdPower ? this.duckedGain : 1;
+    return this.gain;
+  }
+}
+
+/**
+ * Duck music tracks under dialogue tracks in place.
+ * @param trackAudios Planar PCM per track, as handed to the mixer
+ * @param roles Role of each entry of `trackAudios`
+ * @param ducker Ducker carrying state across calls
+ * @param sampleRate Sample rate of the PCM
+ */
+export function applyDucking(
+  trackAudios: Float32Array[][],
+  roles: Array<TrackRole | undefined>,
+  ducker: Ducker,
+  sampleRate: number,
+): void {
+  const dialogue = trackAudios.filter((_, i) => roles[i] === "dialogue");
+  const music = trackAudios.filter((_, i) => roles[i] === "music");
+  if (music.length === 0 && dialogue.length === 0) return;
+
+  const length = Math.max(0, ...trackAudios.map((a) => a[0]?.length ?? 0));
+  const dt = 1 / sampleRate;
+
+  for (let i = 0; i < length; i++) {
+    let left = 0;
+    let right = 0;
+    for (const audio of dialogue) {
+      const c0 = audio[0]?.[i] ?? 0;
+      left += c0;
+      right += audio[1]?.[i] ?? c0;
+    }
+    const power = (left * left + right * right) / 2;
+    const gain = ducker.next(power, dt);
+    if (gain === 1) continue;
+
+    for (const audio of music) {
+      for (const chan of audio) {
+        if (i < chan.length) chan[i] *= gain;
+      }
+    }
+  }
+}
+
+/**
+ * Mean square of planar PCM over a window centred on `time`.
+ * @param pcm Planar PCM of the source
+ * @param time Source position in microseconds
+ */
+export function measurePower(pcm: Float32Array[], time: number, sampleRate: number): number {
+  const length = pcm[0]?.length ?? 0;
+  const half = Math.round((DETECTOR_WINDOW * sampleRate) / 2);
+  const centre = Math.round((time / 1e6) * sampleRate);
+  const from = Math.max(0, centre - half);
+  const to = Math.min(length, centre + half);
+  if (to <= from) return 0;
+
+  let sum = 0;
+  for (const chan of pcm) {
+    for (let i = from; i < to; i++) sum += chan[i] * chan[i];
+  }
+  return sum / ((to - from) * pcm.length);
+}
@@ -4,4 +4,7 @@ export * from "./audio-codec-detector";
 export * from "./chromakey";
 export * from "./common";
 export * from "./dom";
+export * from "./ducking";
+export * from "./time-stretch";
+export * from "./track-mix";
 export * from "./video";
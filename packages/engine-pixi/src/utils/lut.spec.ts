@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { parseCubeLut } from "./lut";
+
+/** Entries of a 2×2×2 identity table, red changing fastest */
+const IDENTITY = ["0 0 0", "1 0 0", "0 1 0", "1 1 0", "0 0 1", "1 0 1", "0 1 1", "1 1 1"];
+
+/** A `.cube` file with `header` lines before the entries */
+function cube(header: string[], entries = IDENTITY, eol = "\n"): string {
+  return [...header, ...entries].join(eol);
+}
+
+describe("parseCubeLut", () => {
+  it("should read a 3D table with red changing fastest", () => {
+    const lut = parseCubeLut(cube(["LUT_3D_SIZE 2"]));
+    expect(lut.size).toBe(2);
+    expect(Array.from(lut.data.subarray(0, 6))).toEqual([0, 0, 0, 1, 0, 0]);
+    expect(Array.from(lut.data.subarray(21))).toEqual([1, 1, 1]);
+    expect(lut.domainMin).toEqual([0, 0, 0]);
+    expect(lut.domainMax).toEqual([1, 1, 1]);
+  });
+
+  it("should read the title and domain", () => {
+    const lut = parseCubeLut(
+      cube(['TITLE "Warm Film"', "LUT_3D_SIZE 2", "DOMAIN_MIN 0 0 0.1", "DOMAIN_MAX 1 1 0.9"]),
+    );
+    expect(lut.title).toBe("Warm Film");
+    expect(lut.domainMin).toEqual([0, 0, 0.1]);
+    expect(lut.domainMax).toEqual([1, 1, 0.9]);
+  });
+
+  it("should skip comments, blank lines and unknown keywords", () => {
+    const lut = parseCubeLut(
+      cube(["# Exported by Resolve", "", "LUT_3D_SIZE 2", "LUT_3D_INPUT_RANGE 0 1", "  "]),
+    );
+    expect(lut.data).toHaveLength(24);
+  });
+
+  it("should accept Windows line endings", () => {
+    const lut = parseCubeLut(cube(['TITLE "CRLF"', "LUT_3D_SIZE 2"], IDENTITY, "\r\n"));
+    expect(lut.title).toBe("CRLF");
+    expect(lut.data).toHaveLength(24);
+  });
+
+  it("should reject 1D tables", () => {
+    expect(() => parseCubeLut(cube(["LUT_1D_SIZE 2"], ["0 0 0", "1 1 1"]))).toThrow(
+      "1D LUTs are not supported",
+    );
+  });
+
+  it("should reject a missing or too small size", () => {
+    expect(() => parseCubeLut(cube([]))).toThrow("Missing or invalid LUT_3D_SIZE");
+    expect(() => parseCubeLut(cube(["LUT_3D_SIZE 1"], ["0 0 0"]))).toThrow(
+      "Missing or invalid LUT_3D_SIZE",
+    );
+  });
+
+  it("should reject the wrong number of entries", () => {
+    expect(() => parseCubeLut(cube(["LUT_3D_SIZE 2"], IDENTITY.slice(1)))).toThrow(
+      "Expected 8 LUT entries, got 7",
+    );
+  });
+});
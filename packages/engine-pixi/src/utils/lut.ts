@@ -0,0 +1,123 @@
+import { BufferImageSource, Texture } from "pixi.js";
+
+/** A parsed 3D lookup table */
+export interface CubeLut {
+  title?: string;
+  /** Entries per axis */
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  /** RGB triplets, red changing fastest, then green, then blue */
+  data: Float32Array;
+}
+
+/**
+ * Parse an Adobe/Resolve `.cube` file. Only 3D tables are supported.
+ * @throws When the file has no LUT_3D_SIZE or the wrong number of entries
+ */
+export function parseCubeLut(text: string): CubeLut {
+  let title: string | undefined;
+  let size = 0;
+  const domainMin: [number, number, number] = [0, 0, 0];
+  const domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#")) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    switch (keyword) {
+      case "TITLE":
+        title = line.slice(keyword.length).trim().replace(/^"|"$/g, "");
+        break;
+      case "LUT_3D_SIZE":
+        size = parseInt(rest[0], 10);
+        break;
+      case "LUT_1D_SIZE":
+        throw new Error("1D LUTs are not supported");
+      case "DOMAIN_MIN":
+        rest.slice(0, 3).forEach((v, i) => (domainMin[i] = parseFloat(v)));
+        break;
+      case "DOMAIN_MAX":
+        rest.slice(0, 3).forEach((v, i) => (domainMax[i] = parseFloat(v)));
+        break;
+      default: {
+        const r = parseFloat(keyword);
+        if (Number.isNaN(r)) break; // Unknown keyword (e.g. LUT_3D_INPUT_RANGE)
+        values.push(r, parseFloat(rest[0]), parseFloat(rest[1]));
+      }
+    }
+  }
+
+  if (!(size >= 2)) {
+    throw new Error("Missing or invalid LUT_3D_SIZE");
+  }
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`Expected ${size ** 3} LUT entries, got ${values.length / 3}`);
+  }
+  return { title, size, domainMin, domainMax, data: Float32Array.from(values) };
+}
+
+/**
+ * Lay a LUT out as a 2D texture: `size` slices of `size`×`size` side by side,
+ * one per blue value, red across and green down each slice.
+ */
+export function createLutTexture(lut: CubeLut): Texture {
+  const { size, data } = lut;
+  const pixels = new Uint8Array(size * size * size * 4);
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const from = (r + g * size + b * size * size) * 3;
+        const to = (g * size * size + b * size + r) * 4;
+        pixels[to] = Math.round(Math.min(1, Math.max(0, data[from])) * 255);
+        pixels[to + 1] = Math.round(Math.min(1, Math.max(0, data[from + 1])) * 255);
+        pixels[to + 2] = Math.round(Math.min(1, Math.max(0, data[from + 2])) * 255);
+        pixels[to + 3] = 255;
+      }
+    }
+  }
+
+  const source = new BufferImageSource({
+    resource: pixels,
+    width: size * size,
+    height: size,
+    scaleMode: "linear",
+  });
+  return new Texture({ source });
+}
+
+const lutCache = new Map<string, Promise<CubeLut>>();
+const loadedLuts = new Map<string, CubeLut>();
+
+/**
+ * Fetch and parse a `.cube` file once per URL.
+ * Failed loads are forgotten so they can be retried.
+ */
+export function loadLut(src: string): Promise<CubeLut> {
+  let pending = lutCache.get(src);
+  if (pending == null) {
+    pending = fetch(src)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Failed to load LUT ${src}: ${res.status}`);
+        return res.text();
+      })
+      .then((text) => {
+        const lut = parseCubeLut(text);
+        loadedLuts.set(src, lut);
+        return lut;
+      })
+      .catch((err) => {
+        lutCache.delete(src);
+        throw err;
+      });
+    lutCache.set(src, pending);
+  }
+  return pending;
+}
+
+/** The LUT at `src` if it has finished loading */
+export function getLoadedLut(src: string): CubeLut | undefined {
+  return loadedLuts.get(src);
+}
@@ -0,0 +1,116 @@
+import type { IClipMaskOpts } from "../clips/iclip";
+
+/** Largest side of a mask canvas; bigger clips get a scaled-down mask */
+const MAX_MASK_SIZE = 4096;
+
+/**
+ * Outline of a mask shape in canvas pixels, for a `width`×`height` clip box.
+ * Polygon and path masks with fewer than three points give an empty path.
+ */
+export function buildMaskPath(mask: IClipMaskOpts, width: number, height: number): Path2D {
+  const path = new Path2D();
+  const cx = mask.x * width;
+  const cy = mask.y * height;
+
+  if (mask.shape === "rectangle") {
+    const w = mask.width * width;
+    const h = mask.height * height;
+    const radius = Math.min(mask.radius ?? 0, w / 2, h / 2);
+    path.roundRect(cx - w / 2, cy - h / 2, w, h, Math.max(0, radius));
+    return path;
+  }
+
+  if (mask.shape === "ellipse") {
+    const rx = (mask.width * width) / 2;
+    const ry = (mask.height * height) / 2;
+    path.ellipse(cx, cy, Math.abs(rx), Math.abs(ry), 0, 0, Math.PI * 2);
+    return path;
+  }
+
+  const points = mask.points ?? [];
+  if (points.length < 3) return path;
+
+  const px = (x: number) => cx + x * width;
+  const py = (y: number) => cy + y * height;
+
+  path.moveTo(px(points[0].x), py(points[0].y));
+  for (let i = 1; i <= points.length; i++) {
+    const prev = points[i - 1];
+    const next = points[i % points.length];
+    if (mask.shape === "path" && (prev.out || next.in)) {
+      path.bezierCurveTo(
+        px(prev.x + (prev.out?.x ?? 0)),
+        py(prev.y + (prev.out?.y ?? 0)),
+        px(next.x + (next.in?.x ?? 0)),
+        py(next.y + (next.in?.y ?? 0)),
+        px(next.x),
+        py(next.y),
+      );
+    } else {
+      path.lineTo(px(next.x), py(next.y));
+    }
+  }
+  path.closePath();
+  return path;
+}
+
+/**
+ * Draw a mask as white on transparent into `canvas`, resizing it to the clip
+ * box. Expansion strokes the outline, feather blurs the edge, and inverting
+ * swaps inside and outside after both.
+ */
+export function drawMask(
+  canvas: OffscreenCanvas,
+  mask: IClipMaskOpts,
+  width: number,
+  height: number,
+): void {
+  const scale = Math.min(1, MAX_MASK_SIZE / Math.max(width, height, 1));
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  const shape = new OffscreenCanvas(canvas.width, canvas.height);
+  const shapeCtx = shape.getContext("2d")!;
+  shapeCtx.scale(scale, scale);
+  const path = buildMaskPath(mask, width, height);
+
+  shapeCtx.fillStyle = "#ffffff";
+  shapeCtx.strokeStyle = "#ffffff";
+  shapeCtx.lineJoin = "round";
+  shapeCtx.fill(path);
+  if (mask.expansion !== 0) {
+    // The stroke reaches `expansion` pixels either side of the outline
+    shapeCtx.lineWidth = Math.abs(mask.expansion) * 2;
+    if (mask.expansion < 0) shapeCtx.globalCompositeOperation = "destination-out";
+    shapeCtx.stroke(path);
+    shapeCtx.globalCompositeOperation = "source-over";
+  }
+
+  if (mask.feather > 0) {
+    // Only the shadow lands on the canvas: the shape is drawn one canvas width
+    // off to the left and the shadow is offset back into place
+    ctx.shadowColor = "#ffffff";
+    ctx.shadowBlur = mask.feather * scale;
+    ctx.shadowOffsetX = canvas.width;
+    ctx.drawImage(shape, -canvas.width, 0);
+    ctx.shadowColor = "transparent";
+  } else {
+    ctx.drawImage(shape, 0, 0);
+  }
+
+  if (mask.invert) {
+    ctx.globalCompositeOperation = "xor";
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = "source-over";
+  }
+}
+
+/** A string that changes whenever the drawn mask would */
+export function getMaskKey(mask: IClipMaskOpts, width: number, height: number): string {
+  return JSON.stringify([mask, Math.round(width), Math.round(height)]);
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_SHAPE_SETTINGS } from "@openvideo/core";
+import { buildShapeOutline, outlineLength } from "./shape";
+
+/** Outline of SVG path data stretched over a 100×100 clip */
+function outline(path: string, width = 100, height = 100, inset = 0) {
+  return buildShapeOutline({ ...DEFAULT_SHAPE_SETTINGS, kind: "path", path }, width, height, inset);
+}
+
+describe("SVG path outlines", () => {
+  it("should read absolute and relative lines the same way", () => {
+    const square = [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+      { x: 0, y: 100 },
+    ];
+    expect(outline("M0 0 L10 0 L10 10 L0 10 Z")).toEqual([{ points: square, closed: true }]);
+    expect(outline("m0 0 h10 v10 h-10 z")).toEqual([{ points: square, closed: true }]);
+  });
+
+  it("should treat coordinates after a move as lines", () => {
+    const [line] = outline("M0 0 10 0 10 10");
+    expect(line.closed).toBe(false);
+    expect(line.points).toHaveLength(3);
+    expect(outlineLength([line])).toBe(200);
+  });
+
+  it("should read numbers without separators", () => {
+    expect(outline("M0-5L10.5.5-.5,10")).toEqual(outline("M0 -5 L10.5 0.5 L-0.5 10"));
+  });
+
+  it("should start a polyline for every subpath", () => {
+    const lines = outline("M0 0 L10 0 M0 10 L10 10");
+    expect(lines).toHaveLength(2);
+    expect(lines.map((line) => line.points)).toEqual([
+      [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+      ],
+      [
+        { x: 0, y: 100 },
+        { x: 100, y: 100 },
+      ],
+    ]);
+  });
+
+  it("should mirror the previous control point for smooth curves", () => {
+    expect(outline("M0 0 C0 10 10 10 10 0 S20 -10 20 0")).toEqual(
+      outline("M0 0 C0 10 10 10 10 0 C10 -10 20 -10 20 0"),
+    );
+    expect(outline("M0 0 Q5 10 10 0 T20 0")).toEqual(outline("M0 0 Q5 10 10 0 Q15 -10 20 0"));
+  });
+
+  it("should draw arcs, with flags written without separators", () => {
+    const circle = outline("M0 5 A5 5 0 0 1 10 5 A5 5 0 0 1 0 5 Z");
+    expect(outlineLength(circle)).toBeCloseTo(100 * Math.PI, 0);
+    expect(outline("M0 5a5 5 0 0110 0a5 5 0 01-10 0z")).toEqual(circle);
+  });
+
+  it("should keep what was read before an error", () => {
+    expect(outline("M0 0 L10 0 L10 10 L oops")).toEqual(outline("M0 0 L10 0 L10 10"));
+    expect(outline("not a path")).toEqual([]);
+    expect(outline("")).toEqual([]);
+  });
+
+  it("should stretch the path over the box inside the inset", () => {
+    const [line] = outline("M0 0 L10 10", 100, 50, 5);
+    expect(line.points).toEqual([
+      { x: 5, y: 5 },
+      { x: 95, y: 45 },
+    ]);
+  });
+});
@@ -0,0 +1,597 @@
+// Geometry for Shape clips. Every shape kind becomes contours of lines and
+// cubic curves in clip pixels, which are flattened into polylines so the
+// outline can be measured and trimmed for draw-on effects.
+
+import type { IShapeSettings, ShapePaint } from "@openvideo/core";
+
+export interface ShapePoint {
+  x: number;
+  y: number;
+}
+
+/** A flattened run of connected points */
+export interface ShapePolyline {
+  points: ShapePoint[];
+  closed: boolean;
+}
+
+/**
+ * Connected segments from `start`: one point per line segment, or the two
+ * control points and the end point of a cubic curve.
+ */
+interface Contour {
+  start: ShapePoint;
+  segments: ShapePoint[][];
+  closed: boolean;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const NUMBER = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/;
+
+/** Reads commands, numbers and arc flags from SVG path data */
+class PathScanner {
+  private i = 0;
+
+  constructor(private readonly d: string) {}
+
+  private skip() {
+    while (this.i < this.d.length && /[\s,]/.test(this.d[this.i])) this.i++;
+  }
+
+  done(): boolean {
+    this.skip();
+    return this.i >= this.d.length;
+  }
+
+  command(): string | null {
+    this.skip();
+    const c = this.d[this.i];
+    if (c == null || !/[MmLlHhVvCcSsQqTtAaZz]/.test(c)) return null;
+    this.i++;
+    return c;
+  }
+
+  number(): number {
+    this.skip();
+    const match = NUMBER.exec(this.d.slice(this.i));
+    if (match == null) throw new Error(`Expected a number at ${this.i} in path data`);
+    this.i += match[0].length;
+    return parseFloat(match[0]);
+  }
+
+  /** Arc flags may be written without separators, as in `a1 1 0 011 1` */
+  flag(): boolean {
+    this.skip();
+    const c = this.d[this.i++];
+    if (c !== "0" && c !== "1")
+      throw new Error(`Expected an arc flag at ${this.i - 1} in path data`);
+    return c === "1";
+  }
+}
+
+/**
+ * Cubic segments along an elliptical arc centred on (cx, cy), rotated by
+ * `phi`, from angle `theta` through `delta` radians. Positive angles turn
+ * clockwise on screen.
+ */
+function arcSegments(
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+  phi: number,
+  theta: number,
+  delta: number,
+): ShapePoint[][] {
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const at = (t: number) => ({
+    x: cx + rx * Math.cos(t) * cosPhi - ry * Math.sin(t) * sinPhi,
+    y: cy + rx * Math.cos(t) * sinPhi + ry * Math.sin(t) * cosPhi,
+  });
+  const tangent = (t: number) => ({
+    x: -rx * Math.sin(t) * cosPhi - ry * Math.cos(t) * sinPhi,
+    y: -rx * Math.sin(t) * sinPhi + ry * Math.cos(t) * cosPhi,
+  });
+
+  const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+  const step = delta / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const segments: ShapePoint[][] = [];
+  for (let i = 0; i < count; i++) {
+    const t0 = theta + i * step;
+    const t1 = t0 + step;
+    const p0 = at(t0);
+    const p1 = at(t1);
+    const d0 = tangent(t0);
+    const d1 = tangent(t1);
+    segments.push([
+      { x: p0.x + k * d0.x, y: p0.y + k * d0.y },
+      { x: p1.x - k * d1.x, y: p1.y - k * d1.y },
+      p1,
+    ]);
+  }
+  return segments;
+}
+
+/** An SVG arc command as cubic segments, following the SVG endpoint parameterisation */
+function svgArc(
+  from: ShapePoint,
+  rx: number,
+  ry: number,
+  angle: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: ShapePoint,
+): ShapePoint[][] {
+  if (from.x === to.x && from.y === to.y) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [[to]];
+
+  const phi = (angle * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cosPhi * dx + sinPhi * dy;
+  const y1 = -sinPhi * dx + cosPhi * dy;
+
+  // Radii too small to reach the end point are scaled up
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  let coef = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc === sweep) coef = -coef;
+  const cx1 = (coef * rx * y1) / ry;
+  const cy1 = (-coef * ry * x1) / rx;
+  const cx = cosPhi * cx1 - sinPhi * cy1 + (from.x + to.x) / 2;
+  const cy = sinPhi * cx1 + cosPhi * cy1 + (from.y + to.y) / 2;
+
+  const angleBetween = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const ux = (x1 - cx1) / rx;
+  const uy = (y1 - cy1) / ry;
+  const theta = angleBetween(1, 0, ux, uy);
+  let delta = angleBetween(ux, uy, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  else if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const segments = arcSegments(cx, cy, rx, ry, phi, theta, delta);
+  // Land exactly on the end point despite rounding
+  segments[segments.length - 1][2] = { ...to };
+  return segments;
+}
+
+/**
+ * Contours of SVG path data in its own units. Parsing stops at the first
+ * error and keeps what came before, as browsers do.
+ */
+function parseSvgPath(d: string): Contour[] {
+  const scanner = new PathScanner(d);
+  const contours: Contour[] = [];
+  let contour: Contour | null = null;
+  let current: ShapePoint = { x: 0, y: 0 };
+  let start: ShapePoint = { x: 0, y: 0 };
+  let lastCubic: ShapePoint | null = null;
+  let lastQuad: ShapePoint | null = null;
+  let command: string | null = null;
+
+  const add = (segment: ShapePoint[]) => {
+    if (contour == null) {
+      contour = { start: { ...current }, segments: [], closed: false };
+      contours.push(contour);
+    }
+    contour.segments.push(segment);
+    current = segment[segment.length - 1];
+  };
+
+  try {
+    while (!scanner.done()) {
+      const next = scanner.command();
+      if (next != null) command = next;
+      else if (command == null || command === "z" || command === "Z") break;
+
+      const relative: boolean = command === command.toLowerCase();
+      const point = (): ShapePoint => {
+        const x = scanner.number();
+        const y = scanner.number();
+        return relative ? { x: current.x + x, y: current.y + y } : { x, y };
+      };
+      let cubic: ShapePoint | null = null;
+      let quad: ShapePoint | null = null;
+
+      switch (command.toUpperCase()) {
+        case "M": {
+          current = point();
+          start = current;
+          contour = null;
+          // Further coordinate pairs are implicit line commands
+          command = relative ? "l" : "L";
+          break;
+        }
+        case "L":
+          add([point()]);
+          break;
+        case "H": {
+          const x = scanner.number();
+          add([{ x: relative ? current.x + x : x, y: current.y }]);
+          break;
+        }
+        case "V": {
+          const y = scanner.number();
+          add([{ x: current.x, y: relative ? current.y + y : y }]);
+          break;
+        }
+        case "C": {
+          const c1 = point();
+          const c2 = point();
+          add([c1, c2, point()]);
+          cubic = c2;
+          break;
+        }
+        case "S": {
+          const c1 = lastCubic
+            ? { x: 2 * current.x - lastCubic.x, y: 2 * current.y - lastCubic.y }
+            : current;
+          const c2 = point();
+          add([c1, c2, point()]);
+          cubic = c2;
+          break;
+        }
+        case "Q":
+        case "T": {
+          const from = current;
+          let control: ShapePoint;
+          if (command.toUpperCase() === "Q") control = point();
+          else if (lastQuad) control = { x: 2 * from.x - lastQuad.x, y: 2 * from.y - lastQuad.y };
+          else control = from;
+          const to = point();
+          add([
+            {
+              x: from.x + (2 / 3) * (control.x - from.x),
+              y: from.y + (2 / 3) * (control.y - from.y),
+            },
+            { x: to.x + (2 / 3) * (control.x - to.x), y: to.y + (2 / 3) * (control.y - to.y) },
+            to,
+          ]);
+          quad = control;
+          break;
+        }
+        case "A": {
+          const rx = scanner.number();
+          const ry = scanner.number();
+          const angle = scanner.number();
+          const largeArc = scanner.flag();
+          const sweep = scanner.flag();
+          const to = point();
+          for (const segment of svgArc(current, rx, ry, angle, largeArc, sweep, to)) add(segment);
+          current = to;
+          break;
+        }
+        case "Z": {
+          if (contour != null) (contour as Contour).closed = true;
+          contour = null;
+          current = start;
+          break;
+        }
+      }
+      lastCubic = cubic;
+      lastQuad = quad;
+    }
+  } catch {
+    // Keep the contours read before the error
+  }
+
+  return contours.filter((c) => c.segments.length > 0);
+}
+
+function rectangleContour(box: Box, radius: number): Contour {
+  const { x, y, width: w, height: h } = box;
+  const r = Math.max(0, Math.min(radius, w / 2, h / 2));
+  const segments: ShapePoint[][] = [];
+  const corner = (cx: number, cy: number, theta: number) => {
+    if (r > 0) segments.push(...arcSegments(cx, cy, r, r, 0, theta, Math.PI / 2));
+  };
+
+  // Clockwise from the top-left corner
+  segments.push([{ x: x + w - r, y }]);
+  corner(x + w - r, y + r, -Math.PI / 2);
+  segments.push([{ x: x + w, y: y + h - r }]);
+  corner(x + w - r, y + h - r, 0);
+  segments.push([{ x: x + r, y: y + h }]);
+  corner(x + r, y + h - r, Math.PI / 2);
+  segments.push([{ x, y: y + r }]);
+  corner(x + r, y + r, Math.PI);
+  return { start: { x: x + r, y }, segments, closed: true };
+}
+
+function ellipseContour(box: Box): Contour {
+  const rx = box.width / 2;
+  const ry = box.height / 2;
+  const cx = box.x + rx;
+  const cy = box.y + ry;
+  // Clockwise from the top
+  return {
+    start: { x: cx, y: box.y },
+    segments: arcSegments(cx, cy, rx, ry, 0, -Math.PI / 2, 2 * Math.PI),
+    closed: true,
+  };
+}
+
+function polygonContour(shape: IShapeSettings, box: Box): Contour | null {
+  const sides = Math.max(3, Math.round(shape.sides));
+  const vertices: ShapePoint[] = shape.points
+    ? shape.points.map((p) => ({ x: box.x + p.x * box.width, y: box.y + p.y * box.height }))
+    : Array.from({ length: sides }, (_v, i) => {
+        // Regular polygon inscribed in the box, with a vertex at the top
+        const angle = -Math.PI / 2 + (i * 2 * Math.PI) / sides;
+        return {
+          x: box.x + (box.width / 2) * (1 + Math.cos(angle)),
+          y: box.y + (box.height / 2) * (1 + Math.sin(angle)),
+        };
+      });
+  if (vertices.length < 3) return null;
+
+  if (shape.cornerRadius <= 0) {
+    return {
+      start: vertices[0],
+      segments: vertices.slice(1).map((v) => [v]),
+      closed: true,
+    };
+  }
+
+  // Each corner is cut back along both edges and rounded with a curve
+  // through the vertex
+  const n = vertices.length;
+  const corners = vertices.map((v, i) => {
+    const prev = vertices[(i + n - 1) % n];
+    const next = vertices[(i + 1) % n];
+    const toPrev = Math.hypot(prev.x - v.x, prev.y - v.y) || 1;
+    const toNext = Math.hypot(next.x - v.x, next.y - v.y) || 1;
+    const r = Math.min(shape.cornerRadius, toPrev / 2, toNext / 2);
+    return {
+      vertex: v,
+      in: { x: v.x + ((prev.x - v.x) * r) / toPrev, y: v.y + ((prev.y - v.y) * r) / toPrev },
+      out: { x: v.x + ((next.x - v.x) * r) / toNext, y: v.y + ((next.y - v.y) * r) / toNext },
+    };
+  });
+
+  const segments: ShapePoint[][] = [];
+  for (let i = 1; i <= n; i++) {
+    const { vertex, in: a, out: b } = corners[i % n];
+    segments.push([a]);
+    segments.push([
+      { x: a.x + (2 / 3) * (vertex.x - a.x), y: a.y + (2 / 3) * (vertex.y - a.y) },
+      { x: b.x + (2 / 3) * (vertex.x - b.x), y: b.y + (2 / 3) * (vertex.y - b.y) },
+      b,
+    ]);
+  }
+  return { start: corners[0].out, segments, closed: true };
+}
+
+function boundsOf(points: ShapePoint[]): Box {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** Contours of SVG path data stretched to fill the box */
+function pathContours(d: string, box: Box): Contour[] {
+  const contours = parseSvgPath(d);
+  if (contours.length === 0) return [];
+
+  // Bounds of the curves themselves, not their control points, flattened
+  // finely enough for paths drawn in any units
+  const controls = boundsOf(contours.flatMap((c) => [c.start, ...c.segments.flat()]));
+  const tolerance = Math.max(controls.width, controls.height) / 256 || 1;
+  const {
+    x: minX,
+    y: minY,
+    width: spanX,
+    height: spanY,
+  } = boundsOf(flattenContours(contours, tolerance).flatMap((line) => line.points));
+
+  const map = (p: ShapePoint): ShapePoint => ({
+    x: spanX > 0 ? box.x + ((p.x - minX) / spanX) * box.width : box.x + box.width / 2,
+    y: spanY > 0 ? box.y + ((p.y - minY) / spanY) * box.height : box.y + box.height / 2,
+  });
+  return contours.map((c) => ({
+    start: map(c.start),
+    segments: c.segments.map((segment) => segment.map(map)),
+    closed: c.closed,
+  }));
+}
+
+/**
+ * Flatten contours into polylines. Curves are split into pieces about
+ * `tolerance` pixels long.
+ */
+function flattenContours(contours: Contour[], tolerance: number = 2): ShapePolyline[] {
+  return contours.map(({ start, segments, closed }) => {
+    const points = [start];
+    let from = start;
+    for (const segment of segments) {
+      if (segment.length === 1) {
+        points.push(segment[0]);
+      } else {
+        const [c1, c2, to] = segment;
+        const hull =
+          Math.hypot(c1.x - from.x, c1.y - from.y) +
+          Math.hypot(c2.x - c1.x, c2.y - c1.y) +
+          Math.hypot(to.x - c2.x, to.y - c2.y);
+        const steps = Math.min(256, Math.max(2, Math.ceil(hull / tolerance)));
+        for (let i = 1; i <= steps; i++) {
+          const t = i / steps;
+          const u = 1 - t;
+          points.push({
+            x: u * u * u * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * to.x,
+            y: u * u * u * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * to.y,
+          });
+        }
+      }
+      from = segment[segment.length - 1];
+    }
+    return { points, closed };
+  });
+}
+
+/**
+ * Outline of a shape in clip pixels, for a `width`×`height` clip box shrunk by
+ * `inset` on every side so strokes stay inside it. Lines and arrows run left
+ * to right through the middle of the box; closed shapes run clockwise.
+ */
+export function buildShapeOutline(
+  shape: IShapeSettings,
+  width: number,
+  height: number,
+  inset: number = 0,
+): ShapePolyline[] {
+  const box: Box = {
+    x: Math.min(inset, width / 2),
+    y: Math.min(inset, height / 2),
+    width: Math.max(0, width - inset * 2),
+    height: Math.max(0, height - inset * 2),
+  };
+
+  let contours: Contour[];
+  switch (shape.kind) {
+    case "ellipse":
+      contours = [ellipseContour(box)];
+      break;
+    case "line":
+    case "arrow":
+      contours = [
+        {
+          start: { x: box.x, y: height / 2 },
+          segments: [[{ x: box.x + box.width, y: height / 2 }]],
+          closed: false,
+        },
+      ];
+      break;
+    case "polygon": {
+      const contour = polygonContour(shape, box);
+      contours = contour ? [contour] : [];
+      break;
+    }
+    case "path":
+      contours = pathContours(shape.path ?? "", box);
+      break;
+    default:
+      contours = [rectangleContour(box, shape.cornerRadius)];
+  }
+  return flattenContours(contours);
+}
+
+/** Points of a polyline, repeating the first at the end when it is closed */
+function tracePoints({ points, closed }: ShapePolyline): ShapePoint[] {
+  return closed && points.length > 1 ? [...points, points[0]] : points;
+}
+
+function polylineLength(points: ShapePoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+/** Total length of an outline, including the closing edge of closed polylines */
+export function outlineLength(outline: ShapePolyline[]): number {
+  return outline.reduce((sum, line) => sum + polylineLength(tracePoints(line)), 0);
+}
+
+/**
+ * The part of an outline between two distances along it, measured across its
+ * polylines in order. Cut polylines are left open.
+ */
+export function sliceOutline(outline: ShapePolyline[], from: number, to: number): ShapePolyline[] {
+  if (to <= from) return [];
+
+  const slices: ShapePolyline[] = [];
+  let offset = 0;
+  for (const line of outline) {
+    const points = tracePoints(line);
+    const length = polylineLength(points);
+    const start = from - offset;
+    const end = to - offset;
+    offset += length;
+    if (end <= 0 || start >= length) continue;
+    if (start <= 0 && end >= length) {
+      slices.push(line);
+      continue;
+    }
+
+    const slice: ShapePoint[] = [];
+    let travelled = 0;
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      const segment = Math.hypot(b.x - a.x, b.y - a.y);
+      const lerp = (d: number) => {
+        const t = segment > 0 ? (d - travelled) / segment : 0;
+        return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+      };
+      if (travelled + segment >= start && travelled <= end) {
+        if (slice.length === 0) slice.push(lerp(Math.max(start, travelled)));
+        slice.push(travelled + segment <= end ? b : lerp(end));
+      }
+      travelled += segment;
+      if (travelled >= end) break;
+    }
+    if (slice.length > 1) slices.push({ points: slice, closed: false });
+  }
+  return slices;
+}
+
+/** Canvas style for a paint over a `width`×`height` box */
+export function toCanvasPaint(
+  ctx: OffscreenCanvasRenderingContext2D,
+  paint: ShapePaint,
+  width: number,
+  height: number,
+): string | CanvasGradient {
+  if (typeof paint === "string") return paint;
+
+  const cx = width / 2;
+  const cy = height / 2;
+  let gradient: CanvasGradient;
+  if (paint.type === "radial") {
+    gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.hypot(cx, cy));
+  } else {
+    // Like CSS: the gradient line is long enough to reach the far corners
+    const angle = ((paint.angle ?? 0) * Math.PI) / 180;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    const half = Math.abs(cx * dx) + Math.abs(cy * dy);
+    gradient = ctx.createLinearGradient(
+      cx - dx * half,
+      cy - dy * half,
+      cx + dx * half,
+      cy + dy * half,
+    );
+  }
+  for (const stop of paint.stops) {
+    gradient.addColorStop(Math.min(1, Math.max(0, stop.offset)), stop.color);
+  }
+  return gradient;
+}
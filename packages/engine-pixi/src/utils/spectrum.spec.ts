@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { FFT_SIZE, bandLevels, fft, magnitudeSpectrum, sampleWindow } from "./spectrum";
+
+const SAMPLE_RATE = 48000;
+const BIN_HZ = SAMPLE_RATE / FFT_SIZE;
+
+/** One second of a mono sine at `frequency` Hz with peak `amplitude` */
+function sine(frequency: number, amplitude = 1): Float32Array[] {
+  const pcm = new Float32Array(SAMPLE_RATE);
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return [pcm];
+}
+
+/** Index of the largest value */
+const peakOf = (values: Float32Array) => values.indexOf(Math.max(...values));
+
+describe("fft", () => {
+  it("should turn an impulse into a flat spectrum", () => {
+    const re = new Float32Array(8);
+    const im = new Float32Array(8);
+    re[0] = 1;
+    fft(re, im);
+    expect(Array.from(re)).toEqual([1, 1, 1, 1, 1, 1, 1, 1]);
+    expect(im.every((x) => x === 0)).toBe(true);
+  });
+
+  it("should put a cosine in its bin and the mirrored one", () => {
+    const n = 64;
+    const re = Float32Array.from({ length: n }, (_, i) => Math.cos((2 * Math.PI * 5 * i) / n));
+    const im = new Float32Array(n);
+    fft(re, im);
+    const magnitudes = re.map((x, i) => Math.hypot(x, im[i]));
+    expect(magnitudes[5]).toBeCloseTo(n / 2, 3);
+    expect(magnitudes[n - 5]).toBeCloseTo(n / 2, 3);
+    const others = magnitudes.filter((_, i) => i !== 5 && i !== n - 5);
+    expect(Math.max(...others)).toBeLessThan(1e-3);
+  });
+});
+
+describe("sampleWindow", () => {
+  it("should centre the window on the time and average the channels", () => {
+    const left = Float32Array.from({ length: 100 }, (_, i) => i);
+    const right = left.map((x) => -x);
+    const window = sampleWindow([left, left], (50 / SAMPLE_RATE) * 1e6, SAMPLE_RATE, 8);
+    expect(Array.from(window)).toEqual([46, 47, 48, 49, 50, 51, 52, 53]);
+    expect(sampleWindow([left, right], 0, SAMPLE_RATE, 8).every((x) => x === 0)).toBe(true);
+  });
+
+  it("should pad with silence outside the audio", () => {
+    const pcm = [new Float32Array(4).fill(1)];
+    expect(Array.from(sampleWindow(pcm, 0, SAMPLE_RATE, 8))).toEqual([0, 0, 0, 0, 1, 1, 1, 1]);
+    expect(Array.from(sampleWindow([], 0, SAMPLE_RATE, 4))).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe("magnitudeSpectrum", () => {
+  it("should peak near 1 in the bin of a full-scale sine", () => {
+    const spectrum = magnitudeSpectrum(sine(64 * BIN_HZ), 500_000, SAMPLE_RATE);
+    expect(spectrum).toHaveLength(FFT_SIZE / 2);
+    expect(peakOf(spectrum)).toBe(64);
+    expect(spectrum[64]).toBeCloseTo(1, 2);
+    // The Hann window keeps the leakage to the neighbouring bins
+    expect(spectrum[60]).toBeLessThan(1e-3);
+  });
+
+  it("should scale with the amplitude and find frequencies between bins", () => {
+    const spectrum = magnitudeSpectrum(sine(1000, 0.1), 500_000, SAMPLE_RATE);
+    expect(peakOf(spectrum)).toBe(Math.round(1000 / BIN_HZ));
+    expect(spectrum[peakOf(spectrum)]).toBeGreaterThan(0.05);
+    expect(spectrum[peakOf(spectrum)]).toBeLessThan(0.1);
+  });
+});
+
+describe("bandLevels", () => {
+  it("should light the band holding the tone and leave far bands dark", () => {
+    const spectrum = magnitudeSpectrum(sine(1000, 0.5), 500_000, SAMPLE_RATE);
+    // Ten log-spaced bands from 40 Hz to 12 kHz: 1 kHz falls in the sixth
+    const levels = bandLevels(spectrum, SAMPLE_RATE, 10, 40, 12000);
+    expect(peakOf(levels)).toBe(5);
+    expect(levels[5]).toBe(1);
+    expect(levels[0]).toBe(0);
+    expect(levels[9]).toBe(0);
+  });
+
+  it("should map levels between -70 and -10 dB onto 0 to 1", () => {
+    // A -40 dB peak sits halfway up
+    const spectrum = magnitudeSpectrum(sine(64 * BIN_HZ, 0.01), 500_000, SAMPLE_RATE);
+    const [level] = bandLevels(spectrum, SAMPLE_RATE, 1, 60 * BIN_HZ, 68 * BIN_HZ);
+    expect(level).toBeCloseTo(0.5, 2);
+  });
+
+  it("should be silent for silence", () => {
+    const spectrum = magnitudeSpectrum([new Float32Array(SAMPLE_RATE)], 500_000, SAMPLE_RATE);
+    expect(bandLevels(spectrum, SAMPLE_RATE, 8, 40, 12000).every((x) => x === 0)).toBe(true);
+  });
+});
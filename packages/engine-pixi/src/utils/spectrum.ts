@@ -0,0 +1,135 @@
+// Audio analysis for Visualizer clips. Everything is computed from the PCM at
+// a given time, so preview and export draw identical frames.
+
+/** Samples per FFT frame */
+export const FFT_SIZE = 2048;
+
+/** Levels below this are drawn as silence, at and above MAX_DB as full scale */
+const MIN_DB = -70;
+const MAX_DB = -10;
+
+const hannWindows = new Map<number, Float32Array>();
+
+function hannWindow(size: number): Float32Array {
+  let window = hannWindows.get(size);
+  if (window == null) {
+    window = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+    }
+    hannWindows.set(size, window);
+  }
+  return window;
+}
+
+/**
+ * In-place radix-2 FFT. `re` and `im` must have the same power-of-two length.
+ */
+export function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + half;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+/**
+ * Mono samples of `pcm` in a window of `size` centred on `time`
+ * (microseconds), zero outside the audio.
+ */
+export function sampleWindow(
+  pcm: Float32Array[],
+  time: number,
+  sampleRate: number,
+  size: number,
+): Float32Array {
+  const out = new Float32Array(size);
+  const length = pcm[0]?.length ?? 0;
+  if (length === 0) return out;
+
+  const start = Math.round((time / 1e6) * sampleRate) - (size >> 1);
+  for (const chan of pcm) {
+    for (let i = Math.max(0, -start); i < size && start + i < length; i++) {
+      out[i] += chan[start + i] / pcm.length;
+    }
+  }
+  return out;
+}
+
+/**
+ * Magnitude spectrum of the audio around `time` (microseconds), normalised
+ * so a full-scale sine peaks near 1. Bin `i` is at `i * sampleRate / FFT_SIZE` Hz.
+ */
+export function magnitudeSpectrum(
+  pcm: Float32Array[],
+  time: number,
+  sampleRate: number,
+): Float32Array {
+  const window = hannWindow(FFT_SIZE);
+  const re = sampleWindow(pcm, time, sampleRate, FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) re[i] *= window[i];
+  fft(re, im);
+
+  const bins = new Float32Array(FFT_SIZE / 2);
+  for (let i = 0; i < bins.length; i++) {
+    bins[i] = (Math.hypot(re[i], im[i]) * 4) / FFT_SIZE;
+  }
+  return bins;
+}
+
+/**
+ * Group a magnitude spectrum into `count` log-spaced bands between
+ * `minFrequency` and `maxFrequency`, as levels from 0 to 1.
+ */
+export function bandLevels(
+  spectrum: Float32Array,
+  sampleRate: number,
+  count: number,
+  minFrequency: number,
+  maxFrequency: number,
+): Float32Array {
+  const levels = new Float32Array(count);
+  const binHz = sampleRate / FFT_SIZE;
+  const low = Math.max(binHz, minFrequency);
+  const high = Math.max(low * 1.01, Math.min(maxFrequency, sampleRate / 2));
+  const ratio = high / low;
+
+  for (let band = 0; band < count; band++) {
+    const from = low * ratio ** (band / count);
+    const to = low * ratio ** ((band + 1) / count);
+    const firstBin = Math.min(spectrum.length - 1, Math.floor(from / binHz));
+    const lastBin = Math.min(spectrum.length - 1, Math.max(firstBin, Math.ceil(to / binHz) - 1));
+
+    let peak = 0;
+    for (let bin = firstBin; bin <= lastBin; bin++) peak = Math.max(peak, spectrum[bin]);
+    const db = 20 * Math.log10(Math.max(peak, 1e-9));
+    levels[band] = Math.min(1, Math.max(0, (db - MIN_DB) / (MAX_DB - MIN_DB)));
+  }
+  return levels;
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { TimeStretcher } from "./time-stretch";
+
+const SAMPLE_RATE = 48000;
+const CHUNK = 1600;
+const { lookahead } = TimeStretcher;
+
+/** Mono sine at `freq` Hz, silent before sample `onset` */
+function tone(length: number, freq: number, onset = 0): Float32Array {
+  const pcm = new Float32Array(length);
+  for (let i = onset; i < length; i++) {
+    pcm[i] = 0.5 * Math.sin((2 * Math.PI * freq * i) / SAMPLE_RATE);
+  }
+  return pcm;
+}
+
+/**
+ * Stretch `source` the way a clip feeds it: the first call primes the
+ * look-ahead, later chunks run `lookahead` ahead and silence follows the end
+ */
+function stretch(source: Float32Array, rate: number): Float32Array {
+  const stretcher = new TimeStretcher(1);
+  expect(stretcher.process([source.subarray(0, lookahead)], rate)[0]).toHaveLength(0);
+
+  const input = new Float32Array(source.length + lookahead);
+  input.set(source);
+  const chunks: Float32Array[] = [];
+  for (let pos = lookahead; pos < input.length; pos += CHUNK) {
+    chunks.push(stretcher.process([input.subarray(pos, pos + CHUNK)], rate)[0]);
+  }
+
+  const out = new Float32Array(chunks.reduce((n, chunk) => n + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+const rms = (pcm: Float32Array) => Math.sqrt(pcm.reduce((sum, x) => sum + x * x, 0) / pcm.length);
+
+/** Upward zero crossings per second */
+function frequency(pcm: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < pcm.length; i++) if (pcm[i - 1] < 0 && pcm[i] >= 0) crossings++;
+  return (crossings * SAMPLE_RATE) / pcm.length;
+}
+
+describe("TimeStretcher", () => {
+  const rates = [0.25, 0.5, 1, 2];
+
+  for (const rate of rates) {
+    it(`should return chunk length / rate samples per call at ${rate}x`, () => {
+      expect(stretch(tone(SAMPLE_RATE, 440), rate)).toHaveLength(SAMPLE_RATE / rate);
+    });
+
+    it(`should keep the pitch at ${rate}x`, () => {
+      const out = stretch(tone(SAMPLE_RATE, 440), rate);
+      const middle = out.subarray(out.length / 4, (out.length * 3) / 4);
+      expect(frequency(middle)).toBeCloseTo(440, -1);
+    });
+
+    it(`should keep audio in step with the timeline at ${rate}x`, () => {
+      // A tone starting 200 ms into the source starts 200 ms / rate into the output;
+      // a frame that reaches the onset may fade it in up to one frame early
+      const out = stretch(tone(SAMPLE_RATE, 440, SAMPLE_RATE / 5), rate);
+      const onset = out.findIndex((x) => Math.abs(x) > 0.05);
+      const expected = SAMPLE_RATE / 5 / rate;
+      expect(onset).toBeGreaterThan(expected - 960 / rate - 1);
+      expect(onset).toBeLessThan(expected + 480);
+    });
+
+    it(`should release the tail once silence follows the source at ${rate}x`, () => {
+      const out = stretch(tone(SAMPLE_RATE, 440), rate);
+      expect(rms(out.subarray(out.length - 480))).toBeGreaterThan(0.1);
+    });
+  }
+
+  it("should pass audio through unchanged at 1x after the first hop", () => {
+    const source = tone(SAMPLE_RATE, 440);
+    const out = stretch(source, 1);
+    for (let i = 480; i < out.length; i++) expect(out[i]).toBeCloseTo(source[i], 5);
+  });
+
+  it("should pad a short first chunk with silence in front", () => {
+    const stretcher = new TimeStretcher(1);
+    stretcher.process([new Float32Array(0)], 0.5);
+    const out = stretcher.process([tone(CHUNK * 4, 440)], 0.5)[0];
+    expect(out).toHaveLength(CHUNK * 8);
+    // The look-ahead had no audio, so the tone arrives lookahead / rate late
+    expect(rms(out.subarray(0, lookahead * 2 - 960 * 2))).toBe(0);
+    expect(rms(out.subarray(lookahead * 2 + 480))).toBeGreaterThan(0.1);
+  });
+
+  it("should feed mono input to every channel", () => {
+    const stretcher = new TimeStretcher(2);
+    stretcher.process([tone(lookahead, 440)], 0.5);
+    const [left, right] = stretcher.process([tone(CHUNK, 440)], 0.5);
+    expect(left).toHaveLength(CHUNK * 2);
+    expect(right).toEqual(left);
+  });
+
+  it("should start over after reset", () => {
+    const stretcher = new TimeStretcher(1);
+    stretcher.process([tone(lookahead, 440)], 2);
+    stretcher.process([tone(CHUNK, 440)], 2);
+    stretcher.reset();
+    expect(stretcher.process([tone(lookahead, 440)], 2)[0]).toHaveLength(0);
+    expect(stretcher.process([tone(CHUNK, 440)], 2)[0]).toHaveLength(CHUNK / 2);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * WSOLA (waveform similarity overlap-add) time-stretching: changes the speed
+ * of audio without changing its pitch, for clips whose `playbackRate` is not 1.
+ */
+
+/** Analysis/synthesis frame, 20 ms at 48 kHz */
+const FRAME = 960;
+const HOP = FRAME / 2;
+/** How far a frame may move from its nominal position to line up with the previous one */
+const TOLERANCE = 240;
+/** Step of the coarse similarity search, refined to single samples afterwards */
+const COARSE_STEP = 4;
+
+/** Periodic Hann window; overlapping copies at HOP spacing sum to 1 */
+const WINDOW = Float32Array.from(
+  { length: FRAME },
+  (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME),
+);
+
+/**
+ * Streaming time-stretcher. Feed consecutive chunks of planar PCM together
+ * with the rate they play at; each call returns `chunk length / rate`
+ * samples (rounding carried over between calls), so the output stays in step
+ * with the timeline. The rate may change between calls.
+ *
+ * WSOLA needs input beyond the output it finalizes, so audio is fed
+ * {@link TimeStretcher.lookahead} samples ahead of the output: the first call
+ * of each run only primes that look-ahead and returns no samples. Its audio
+ * ends where the output starts plus the look-ahead; a shorter first chunk is
+ * padded with silence in front. At the end of the source, feed silence for
+ * the look-ahead to get the tail. Call {@link reset} after a seek.
+ */
+export class TimeStretcher {
+  /** Input samples read ahead of the output, at any rate */
+  static readonly lookahead = FRAME + TOLERANCE + HOP;
+
+  /** Input not yet consumed, starting at absolute sample `inputStart` */
+  private input: Float32Array[] = [];
+  private inputLength = 0;
+  private inputStart = 0;
+  private inputTotal = 0;
+
+  /** Nominal input position of the next frame */
+  private analysisPos = 0;
+  /** Input position the previous frame was taken from, -1 before the first frame */
+  private prevPos = -1;
+
+  /** Overlap-add accumulator for the frame being built */
+  private overlap: Float32Array[] = [];
+  /** Finalized output waiting to be returned */
+  private ready: Float32Array[] = [];
+  private readyLength = 0;
+
+  private outputTarget = 0;
+  private outputProduced = 0;
+  private primed = false;
+
+  constructor(readonly channels: number) {
+    this.reset();
+  }
+
+  process(audio: Float32Array[], rate: number): Float32Array[] {
+    const length = audio[0]?.length ?? 0;
+    if (!this.primed) {
+      // Keep the last `lookahead` samples, so input 0 is where the output starts
+      const { lookahead } = TimeStretcher;
+      const silence = Math.max(0, lookahead - length);
+      this.append(
+        this.input.map(() => new Float32Array(silence)),
+        silence,
+      );
+      this.append(
+        audio.map((chan) => chan.subarray(Math.max(0, length - lookahead))),
+        Math.min(length, lookahead),
+      );
+      this.primed = true;
+      return this.takeReady(0);
+    }
+
+    this.append(audio, length);
+    this.outputTarget += length / rate;
+
+    while (this.synthesizeFrame(rate));
+
+    const count = Math.max(0, Math.round(this.outputTarget) - this.outputProduced);
+    this.outputProduced += count;
+    return this.takeReady(count);
+  }
+
+  /** Drop all state, e.g. after a seek */
+  reset(): void {
+    this.input = Array.from({ length: this.channels }, () => new Float32Array(FRAME * 4));
+    this.inputLength = 0;
+    this.inputStart = 0;
+    this.inputTotal = 0;
+    this.analysisPos = 0;
+    this.prevPos = -1;
+    this.overlap = Array.from({ length: this.channels }, () => new Float32Array(FRAME));
+    this.ready = Array.from({ length: this.channels }, () => new Float32Array(FRAME * 4));
+    this.readyLength = 0;
+    this.outputTarget = 0;
+    this.outputProduced = 0;
+    this.primed = false;
+  }
+
+  private append(audio: Float32Array[], length: number) {
+    if (length === 0) return;
+    if (this.inputLength + length > this.input[0].length) {
+      const size = Math.max(this.input[0].length * 2, this.inputLength + length);
+      this.input = this.input.map((chan) => {
+        const grown = new Float32Array(size);
+        grown.set(chan.subarray(0, this.inputLength));
+        return grown;
+      });
+    }
+    for (let ch = 0; ch < this.channels; ch++) {
+      // Mono input feeds every channel
+      this.input[ch].set(audio[ch] ?? audio[0], this.inputLength);
+    }
+    this.inputLength += length;
+    this.inputTotal += length;
+  }
+
+  /** Overlap-add one frame if enough input is buffered; returns whether it did */
+  private synthesizeFrame(rate: number): boolean {
+    const nominal = Math.round(this.analysisPos);
+    const natural = this.prevPos + HOP;
+    const needed =
+      this.prevPos < 0 ? nominal + FRAME : Math.max(nominal + TOLERANCE, natural) + FRAME;
+    if (needed > this.inputTotal) return false;
+
+    const pos = this.prevPos < 0 ? nominal : this.findBestPosition(nominal, natural);
+    for (let ch = 0; ch < this.channels; ch++) {
+      const src = this.input[ch];
+      const acc = this.overlap[ch];
+      const offset = pos - this.inputStart;
+      for (let i = 0; i < FRAME; i++) acc[i] += src[offset + i] * WINDOW[i];
+    }
+
+    // The first hop has received both of its overlapping frames
+    this.pushReady(this.overlap, HOP);
+    for (const acc of this.overlap) {
+      acc.copyWithin(0, HOP);
+      acc.fill(0, FRAME - HOP);
+    }
+
+    this.prevPos = pos;
+    this.analysisPos += HOP * rate;
+    this.discardInput(Math.min(pos + HOP, Math.round(this.analysisPos) - TOLERANCE));
+    return true;
+  }
+
+  /**
+   * Position within the tolerance of `nominal` whose start best matches the
+   * natural continuation of the previous frame
+   */
+  private findBestPosition(nominal: number, natural: number): number {
+    const from = Math.max(this.inputStart, nominal - TOLERANCE);
+    const to = nominal + TOLERANCE;
+
+    let best = nominal;
+    let bestScore = -Infinity;
+    const scan = (start: number, end: number, step: number) => {
+      for (let p = start; p <= end; p += step) {
+        const score = this.similarity(p, natural);
+        if (score > bestScore) {
+          bestScore = score;
+          best = p;
+        }
+      }
+    };
+    scan(from, to, COARSE_STEP);
+    const coarse = best;
+    scan(Math.max(from, coarse - COARSE_STEP + 1), Math.min(to, coarse + COARSE_STEP - 1), 1);
+    return best;
+  }
+
+  /** Cross-correlation of the overlapping half of two candidate frames, channels summed */
+  private similarity(a: number, b: number): number {
+    const offsetA = a - this.inputStart;
+    const offsetB = b - this.inputStart;
+    let sum = 0;
+    for (let ch = 0; ch < this.channels; ch++) {
+      const src = this.input[ch];
+      for (let i = 0; i < HOP; i++) sum += src[offsetA + i] * src[offsetB + i];
+    }
+    return sum;
+  }
+
+  private discardInput(upTo: number) {
+    const count = Math.min(this.inputLength, upTo - this.inputStart);
+    if (count <= 0) return;
+    for (const chan of this.input) chan.copyWithin(0, count, this.inputLength);
+    this.inputLength -= count;
+    this.inputStart += count;
+  }
+
+  /** Queue the first `length` samples of `source` */
+  private pushReady(source: Float32Array[], length: number) {
+    if (this.readyLength + length > this.ready[0].length) {
+      const size = Math.max(this.ready[0].length * 2, this.readyLength + length);
+      this.ready = this.ready.map((chan) => {
+        const grown = new Float32Array(size);
+        grown.set(chan.subarray(0, this.readyLength));
+        return grown;
+      });
+    }
+    for (let ch = 0; ch < this.channels; ch++) {
+      this.ready[ch].set(source[ch].subarray(0, length), this.readyLength);
+    }
+    this.readyLength += length;
+  }
+
+  /** Dequeue `count` samples, padding with silence if the stretcher fell behind */
+  private takeReady(count: number): Float32Array[] {
+    const available = Math.min(count, this.readyLength);
+    const out = this.ready.map((chan) => {
+      const samples = new Float32Array(count);
+      samples.set(chan.subarray(0, available));
+      chan.copyWithin(0, available, this.readyLength);
+      return samples;
+    });
+    this.readyLength -= available;
+    return out;
+  }
+}
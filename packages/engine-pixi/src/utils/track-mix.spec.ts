@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import type { ITrackMix } from "@openvideo/core";
+import {
+  applyTrackMix,
+  getTrackGain,
+  isTrackAudible,
+  pickTrackMix,
+  resolveTrackMixes,
+} from "./track-mix";
+
+/** Planar stereo PCM with `left` and `right` in every sample */
+const stereo = (left: number, right: number, frames = 4) => [
+  new Float32Array(frames).fill(left),
+  new Float32Array(frames).fill(right),
+];
+
+describe("isTrackAudible", () => {
+  it("should hear every unmuted track when nothing is soloed", () => {
+    const tracks: ITrackMix[] = [{}, { muted: true }];
+    expect(isTrackAudible(tracks[0], tracks)).toBe(true);
+    expect(isTrackAudible(tracks[1], tracks)).toBe(false);
+  });
+
+  it("should hear only soloed tracks once any track is soloed, unless muted", () => {
+    const tracks: ITrackMix[] = [{ solo: true }, {}, { solo: true, muted: true }];
+    expect(tracks.map((track) => isTrackAudible(track, tracks))).toEqual([true, false, false]);
+  });
+});
+
+describe("resolveTrackMixes", () => {
+  it("should mark tracks that are not heard as muted without touching the input", () => {
+    const tracks = [
+      { id: "a", solo: true },
+      { id: "b", gain: -6 },
+    ];
+    expect(resolveTrackMixes(tracks)).toEqual([
+      { id: "a", solo: true, muted: false },
+      { id: "b", gain: -6, muted: true },
+    ]);
+    expect(tracks[1]).toEqual({ id: "b", gain: -6 });
+  });
+});
+
+describe("pickTrackMix", () => {
+  it("should copy only the mix fields that are set", () => {
+    const track = { id: "t", name: "Music", role: "music" as const, gain: 0, pan: -0.5 };
+    expect(pickTrackMix(track)).toEqual({ role: "music", gain: 0, pan: -0.5 });
+    expect(pickTrackMix({ muted: false, solo: false })).toEqual({});
+  });
+});
+
+describe("getTrackGain", () => {
+  it("should convert the track gain from dB and silence muted tracks", () => {
+    expect(getTrackGain(undefined)).toBe(1);
+    expect(getTrackGain({})).toBe(1);
+    expect(getTrackGain({ gain: -6 })).toBeCloseTo(0.501, 3);
+    expect(getTrackGain({ gain: 6, muted: true })).toBe(0);
+  });
+});
+
+describe("applyTrackMix", () => {
+  it("should leave PCM alone without gain or pan", () => {
+    const pcm = stereo(0.5, 0.25);
+    expect(applyTrackMix(pcm, { gain: 0, pan: 0 })).toBe(pcm);
+    expect(pcm[0][0]).toBe(0.5);
+  });
+
+  it("should scale every channel in place by the track gain", () => {
+    const pcm = stereo(0.5, 0.25);
+    const out = applyTrackMix(pcm, { gain: 20 });
+    expect(out).toBe(pcm);
+    expect(out[0][0]).toBeCloseTo(5, 5);
+    expect(out[1][0]).toBeCloseTo(2.5, 5);
+
+    const muted = applyTrackMix(stereo(0.5, 0.25), { muted: true });
+    expect(muted[0][0]).toBe(0);
+  });
+
+  it("should pan stereo with the StereoPannerNode law", () => {
+    // Fully right folds the left channel into the right one
+    const right = applyTrackMix(stereo(0.5, 0.25), { pan: 1 });
+    expect(right[0][0]).toBeCloseTo(0, 6);
+    expect(right[1][0]).toBeCloseTo(0.75, 6);
+
+    // Halfway left keeps the left channel and mixes in cos(π/4) of the right one
+    const half = applyTrackMix(stereo(0.5, 0.25), { pan: -0.5 });
+    expect(half[0][0]).toBeCloseTo(0.5 + 0.25 * Math.SQRT1_2, 6);
+    expect(half[1][0]).toBeCloseTo(0.25 * Math.SQRT1_2, 6);
+
+    // Pan is clamped and applied after the gain
+    const clamped = applyTrackMix(stereo(0.5, 0.25), { pan: -3, gain: -6 });
+    expect(clamped[0][0]).toBeCloseTo(0.75 * getTrackGain({ gain: -6 }), 6);
+    expect(clamped[1][0]).toBeCloseTo(0, 6);
+  });
+
+  it("should upmix mono to stereo when panned", () => {
+    const mono = [new Float32Array(4).fill(0.5)];
+    const out = applyTrackMix(mono, { pan: 1 });
+    expect(out).toHaveLength(2);
+    expect(out[0][0]).toBeCloseTo(0, 6);
+    expect(out[1][0]).toBeCloseTo(1, 6);
+
+    const unpanned = [new Float32Array(4).fill(0.5)];
+    expect(applyTrackMix(unpanned, { gain: -6 })).toHaveLength(1);
+  });
+});
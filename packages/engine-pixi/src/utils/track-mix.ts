@@ -0,0 +1,78 @@
+// Per-track gain, pan, mute and solo shared by the Studio preview and the Compositor mix
+
+import type { ITrackMix } from "@openvideo/core";
+import { dbToGain } from "./ducking";
+
+/**
+ * Whether a track is heard: not muted, and soloed whenever any track is.
+ */
+export function isTrackAudible(track: ITrackMix, tracks: ITrackMix[]): boolean {
+  if (track.muted) return false;
+  return track.solo === true || !tracks.some((t) => t.solo);
+}
+
+/**
+ * Resolve mute and solo across all tracks, so each track's mix can be applied
+ * on its own afterwards.
+ * @returns The mix of every track with `muted` set when it is not heard
+ */
+export function resolveTrackMixes<T extends ITrackMix>(tracks: T[]): T[] {
+  return tracks.map((track) => ({ ...track, muted: !isTrackAudible(track, tracks) }));
+}
+
+/**
+ * The mix fields that are set on a track, for copying between track shapes
+ */
+export function pickTrackMix(track: ITrackMix): ITrackMix {
+  const mix: ITrackMix = {};
+  if (track.role) mix.role = track.role;
+  if (track.gain != null) mix.gain = track.gain;
+  if (track.pan != null) mix.pan = track.pan;
+  if (track.muted) mix.muted = true;
+  if (track.solo) mix.solo = true;
+  return mix;
+}
+
+/**
+ * Linear gain of a track, 0 when muted
+ */
+export function getTrackGain(mix: ITrackMix | undefined): number {
+  if (mix == null) return 1;
+  return mix.muted ? 0 : dbToGain(mix.gain ?? 0);
+}
+
+/**
+ * Apply track gain and pan to planar PCM in place. Mono PCM is upmixed to
+ * stereo when panned. Panning follows the Web Audio StereoPannerNode law for
+ * stereo input, so the preview and the export sound the same.
+ * @returns The processed channels (a new array when upmixed)
+ */
+export function applyTrackMix(pcm: Float32Array[], mix: ITrackMix | undefined): Float32Array[] {
+  const gain = getTrackGain(mix);
+  const pan = Math.max(-1, Math.min(1, mix?.pan ?? 0));
+  if (gain === 1 && pan === 0) return pcm;
+
+  if (pan === 0 || pcm.length === 0) {
+    for (const chan of pcm) {
+      for (let i = 0; i < chan.length; i++) chan[i] *= gain;
+    }
+    return pcm;
+  }
+
+  const [left, right = Float32Array.from(left)] = pcm;
+  const x = pan <= 0 ? pan + 1 : pan;
+  const cos = Math.cos((x * Math.PI) / 2) * gain;
+  const sin = Math.sin((x * Math.PI) / 2) * gain;
+  for (let i = 0; i < left.length; i++) {
+    const l = left[i];
+    const r = right[i] ?? l;
+    if (pan <= 0) {
+      left[i] = l * gain + r * cos;
+      right[i] = r * sin;
+    } else {
+      left[i] = l * cos;
+      right[i] = r * gain + l * sin;
+    }
+  }
+  return [left, right];
+}
@@ -1,5 +1,6 @@
 import { type Core, type Patch, nanoid } from "@openvideo/core";
 import type Timeline from "./timeline";
+import { TIMELINE_EDIT } from "./global";
 
 /**
  * TimelineBridge - Synchronizes Core state to the Timeline Canvas.
@@ -25,6 +26,7 @@ export class TimelineBridge {
 
     // 2. Timeline -> Core
     this.timeline.emitter.on("STATE_CHANGED", (data: any) => this.handleTimelineStateChanged(data));
+    this.timeline.emitter.on(TIMELINE_EDIT, (data: any) => this.handleTimelineEdit(data));
 
     // 3. Initial Sync
     this.syncInitialState();
@@ -96,7 +98,7 @@ export class TimelineBridge {
       return false;
     }
 
-    // 2. Timing-dependent properties (display, trim, duration, playbackRate)
+    // 2. Timing-dependent properties (display, trim, duration, playbackRate, speedRamp)
     const coreDisplay = coreClip.timing?.display || coreClip.display;
     const timelineDisplay = timelineClip.timing?.display || timelineClip.display;
     if (!this.isDeepEqual(coreDisplay, timelineDisplay)) return false;
@@ -121,6 +123,8 @@ export class TimelineBridge {
       return false;
     }
 
+    if (!this.isDeepEqual(coreClip.timing?.speedRamp, timelineClip.timing?.speedRamp)) return false;
+
     const coreFadeIn = coreClip.timing?.fadeIn;
     const timelineFadeIn = timelineClip.timing?.fadeIn;
     if (!this.isDeepEqual(coreFadeIn, timelineFadeIn)) return false;
@@ -185,6 +189,28 @@ export class TimelineBridge {
     }
   }
 
+  /**
+   * Run an editorial command from the timeline (ripple/roll trim, slip or
+   * slide) and redraw from the result. The drag already moved or reshaped the
+   * item, so this also puts it back when core rejects the edit, and refreshes
+   * trims which the regular sync leaves alone.
+   */
+  private handleTimelineEdit({ payload }: any) {
+    this.isSyncing = true;
+    try {
+      this.core.execute({ id: nanoid(), type: payload.type, payload: payload.payload });
+    } finally {
+      this.isSyncing = false;
+    }
+
+    const state = this.core.store.getState();
+    this.timeline.itemsManager.getTrackItems().forEach((item) => {
+      const trim = state.clips[item.id]?.timing?.trim;
+      if (item.isTrimmable && trim) item.set({ trim: { ...trim } });
+    });
+    this.timeline.syncAddOrRemoveClips(this.transformState(state));
+  }
+
   private syncInitialState() {
     const state = this.core.store.getState();
 
@@ -3,6 +3,7 @@ import { Helper, Track } from "../../objects";
 import Timeline from "../../timeline";
 import { IDropInfo } from "../../interfaces/canvas";
 import { findRelativePosition } from "../../utils/array";
+import { unitsToTimeUs } from "../../utils";
 
 const handleHelperDrop = (canvas: Timeline, dropInfo: IDropInfo) => {
   canvas.fire("track:create", dropInfo);
@@ -35,7 +36,39 @@ function onObjectDropped(this: Timeline, e: ModifiedEvent<TPointerEvent>) {
     );
   });
 
+  if (e.action === "drag" && activeSelection.id) {
+    const mode = getMoveEditMode(e.e);
+    const item = canvas.trackItemsMap[activeSelection.id];
+    const display = item?.display || item?.timing?.display;
+    if (mode && display) {
+      const delta = unitsToTimeUs(activeSelection.left, canvas.tScale) - display.from;
+      activeSelection.set(canvas.positionBeforeTransform);
+      activeSelection.setCoords();
+      canvas.fire("track-items:move-edit", { trackItemId: activeSelection.id, mode, delta });
+      return false;
+    }
+  }
+
   if (e.action === "resizing") {
+    const mode = getTrimEditMode(e.e);
+    const corner = e.transform?.corner;
+    if (mode && activeSelection.id && (corner === "ml" || corner === "mr")) {
+      const edge = corner === "ml" ? "start" : "end";
+      const item = canvas.trackItemsMap[activeSelection.id];
+      const display = item?.display || item?.timing?.display;
+      if (display) {
+        const from = unitsToTimeUs(activeSelection.left, canvas.tScale);
+        const to = from + unitsToTimeUs(activeSelection.width, canvas.tScale);
+        canvas.fire("track-items:trim-edit", {
+          trackItemId: activeSelection.id,
+          mode,
+          edge,
+          delta: edge === "start" ? from - display.from : to - display.to,
+        });
+        return false;
+      }
+    }
+
     const currentTrackObjects = (
       state.trackToItemsMap[state.originTrack?.id as string] || []
     ).filter((o) => o !== activeSelection);
@@ -102,6 +135,30 @@ function onObjectDropped(this: Timeline, e: ModifiedEvent<TPointerEvent>) {
   }
 }
 
+/**
+ * Editorial mode of a trim handle drag, from the modifiers held on release:
+ * Alt ripples the trim through the track, Ctrl/Cmd rolls the cut into the
+ * touching clip. Without modifiers the clip is trimmed on its own.
+ */
+function getTrimEditMode(e?: TPointerEvent): "ripple" | "roll" | null {
+  if (!e) return null;
+  if (e.altKey) return "ripple";
+  if (e.ctrlKey || e.metaKey) return "roll";
+  return null;
+}
+
+/**
+ * Editorial mode of a clip body drag, from the modifiers held on release:
+ * Alt slides the clip between its neighbours, Ctrl/Cmd slips its media
+ * under it. Without modifiers the clip is moved.
+ */
+function getMoveEditMode(e?: TPointerEvent): "slip" | "slide" | null {
+  if (!e) return null;
+  if (e.altKey) return "slide";
+  if (e.ctrlKey || e.metaKey) return "slip";
+  return null;
+}
+
 // destination track id for secondary moving objects
 function findSecondaryTracks(canvas: Timeline) {
   const state = canvas.dragStateManager.getState();
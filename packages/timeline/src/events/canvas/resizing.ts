@@ -8,7 +8,7 @@ import {
   SerializedObjectProps,
   TPointerEvent,
 } from "fabric";
-import { unitsToTimeUs } from "../../utils";
+import { unitsToSourceUs, unitsToTimeUs } from "../../utils";
 import { Trimmable } from "../../objects";
 
 export default function onObjectResizing(
@@ -50,8 +50,7 @@ export default function onObjectResizing(
         if (rightDiff < SNAP_THRESHOLD) {
           if (target instanceof Trimmable) {
             const newWidth = objRight - target.left;
-            const diffSize = newWidth - originalWidth;
-            const diffTime = unitsToTimeUs(diffSize, target.tScale, target.playbackRate);
+            const diffTime = unitsToSourceUs(target, originalWidth, newWidth);
             const newTo = target.trim.to + diffTime;
             if (newWidth < minTimeToUnits) return;
 
@@ -79,8 +78,7 @@ export default function onObjectResizing(
         } else if (rightToLeftDiff < SNAP_THRESHOLD) {
           if (target instanceof Trimmable) {
             const newWidth = objLeft - target.left;
-            const diffSize = newWidth - originalWidth;
-            const diffTime = unitsToTimeUs(diffSize, target.tScale, target.playbackRate);
+            const diffTime = unitsToSourceUs(target, originalWidth, newWidth);
             const newTo = target.trim.to + diffTime;
             if (newWidth < minTimeToUnits) return;
 
@@ -114,8 +112,7 @@ export default function onObjectResizing(
         if (leftDiff < SNAP_THRESHOLD) {
           if (target instanceof Trimmable) {
             const newWidth = originalRight - objLeft;
-            const diffSize = newWidth - originalWidth;
-            const diffTime = unitsToTimeUs(diffSize, target.tScale, target.playbackRate);
+            const diffTime = unitsToSourceUs(target, originalWidth - newWidth, 0);
             const newFrom = target.trim.from - diffTime;
 
             if (newFrom >= 0) {
@@ -140,8 +137,7 @@ export default function onObjectResizing(
         } else if (leftToRightDiff < SNAP_THRESHOLD) {
           if (target instanceof Trimmable) {
             const newWidth = originalRight - objRight;
-            const diffSize = newWidth - originalWidth;
-            const diffTime = unitsToTimeUs(diffSize, target.tScale, target.playbackRate);
+            const diffTime = unitsToSourceUs(target, originalWidth - newWidth, 0);
             const newFrom = target.trim.from - diffTime;
 
             if (newFrom >= 0) {
@@ -6,7 +6,7 @@ import { IDropInfo } from "../../interfaces/canvas";
 import { generateId, unitsToTimeUs } from "../../utils";
 import { createCombinedTracksArray } from "../../utils/array";
 import { TPointerEvent, TPointerEventInfo } from "fabric";
-import { TIMELINE_SEEK } from "../../global";
+import { TIMELINE_EDIT, TIMELINE_SEEK } from "../../global";
 import { flatten } from "lodash-es";
 
 import { Transition } from "../../objects";
@@ -248,6 +248,40 @@ function onTrackItemsResized(
   this.updateState({ updateHistory: true, kind: "update" });
 }
 
+// ripple/roll trims are applied by core; the result comes back as a state sync
+function onTrackItemTrimEdit(
+  this: Timeline,
+  {
+    trackItemId,
+    mode,
+    edge,
+    delta,
+  }: { trackItemId: string; mode: "ripple" | "roll"; edge: "start" | "end"; delta: number },
+) {
+  this.emitter.emit(TIMELINE_EDIT, {
+    payload: {
+      type: mode === "ripple" ? "clip.rippleTrim" : "clip.roll",
+      payload: { id: trackItemId, edge, delta },
+    },
+  });
+}
+
+// slip/slide drags of a clip body, applied by core like trim edits. `delta`
+// is how far the clip was dragged; a slip moves the media with the pointer
+function onTrackItemMoveEdit(
+  this: Timeline,
+  { trackItemId, mode, delta }: { trackItemId: string; mode: "slip" | "slide"; delta: number },
+) {
+  const item = this.trackItemsMap[trackItemId];
+  const playbackRate = item?.playbackRate ?? item?.timing?.playbackRate ?? 1;
+  this.emitter.emit(TIMELINE_EDIT, {
+    payload:
+      mode === "slide"
+        ? { type: "clip.slide", payload: { id: trackItemId, delta } }
+        : { type: "clip.slip", payload: { id: trackItemId, delta: -delta * playbackRate } },
+  });
+}
+
 let scenePoint = { x: 0, y: 0 };
 function onMouseDownClick(this: Timeline, e: TPointerEventInfo<TPointerEvent>) {
   scenePoint = e.scenePoint;
@@ -270,6 +304,8 @@ function onMouseUpClick(this: Timeline, e: TPointerEventInfo<TPointerEvent>) {
 export const addTimelineEvents = (timeline: Timeline) => {
   timeline.on("track:create", addNewTrack.bind(timeline));
   timeline.on("track-items:resized", onTrackItemsResized.bind(timeline));
+  timeline.on("track-items:trim-edit", onTrackItemTrimEdit.bind(timeline));
+  timeline.on("track-items:move-edit", onTrackItemMoveEdit.bind(timeline));
   timeline.on("track-items:moved", onTrackItemsMoved.bind(timeline));
   timeline.on("mouse:up", onMouseUpClick.bind(timeline));
   timeline.on("mouse:down", onMouseDownClick.bind(timeline));
@@ -278,6 +314,8 @@ export const addTimelineEvents = (timeline: Timeline) => {
 export function removeTimelineEvents(timeline: Timeline) {
   timeline.off("track:create", addNewTrack.bind(timeline));
   timeline.off("track-items:resized", onTrackItemsResized.bind(timeline));
+  timeline.off("track-items:trim-edit", onTrackItemTrimEdit.bind(timeline));
+  timeline.off("track-items:move-edit", onTrackItemMoveEdit.bind(timeline));
   timeline.off("track-items:moved", onTrackItemsMoved.bind(timeline));
   timeline.off("mouse:up", onMouseUpClick.bind(timeline));
 }
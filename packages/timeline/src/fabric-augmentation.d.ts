@@ -101,5 +101,16 @@ declare module "fabric" {
       trackItemIds: string[];
       isOverlapped?: boolean;
     };
+    "track-items:trim-edit": {
+      trackItemId: string;
+      mode: "ripple" | "roll";
+      edge: "start" | "end";
+      delta: number;
+    };
+    "track-items:move-edit": {
+      trackItemId: string;
+      mode: "slip" | "slide";
+      delta: number;
+    };
   }
 }
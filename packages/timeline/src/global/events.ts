@@ -7,4 +7,6 @@ export const DRAG_END = `${DRAG_PREFIX}:end`;
 export const TIMELINE_PREFIX = "timeline";
 export const TIMELINE_BOUNDING_CHANGED = `${TIMELINE_PREFIX}:boundingChanged`;
 export const TIMELINE_SEEK = `${TIMELINE_PREFIX}:seek`;
+// editorial command for core, e.g. a ripple trim: { payload: { type, payload } }
+export const TIMELINE_EDIT = `${TIMELINE_PREFIX}:edit`;
 export const TIMELINE_SCALE_CHANGED = `scale:changed`;
@@ -1,6 +1,7 @@
 import { Control, Rect, RectProps, classRegistry } from "fabric";
 import { ACTIVE_SELECTION_COLOR, ACTIVE_SELECTION_WIDTH } from "../constants/objects";
 import { createMediaControls } from "../controls";
+import { getTimelineLength, type IKeyframe } from "@openvideo/core";
 import { IClip, ITrim } from "../types";
 import { timeUsToUnits } from "../utils";
 interface IDisplay {
@@ -26,6 +27,7 @@ class Trimmable extends Rect {
   declare display: IDisplay;
   declare trim: ITrim;
   public duration: number;
+  declare speedRamp?: IKeyframe[];
   declare src: string;
   public isTrimmable = true;
   static createControls(): { controls: Record<string, Control> } {
@@ -57,11 +59,16 @@ class Trimmable extends Rect {
 
   public sync(itemDetail: IClip, tScale: number) {
     const newWidthInTime = (itemDetail.trim?.to || 0) - (itemDetail.trim?.from || 0);
-    const newWidthInUnits = timeUsToUnits(newWidthInTime, tScale, itemDetail.playbackRate);
+    const speedRamp = itemDetail.timing?.speedRamp;
+    // A speed ramp keeps playbackRate at 1; the width follows the curve instead
+    const newWidthInUnits = speedRamp?.length
+      ? timeUsToUnits(getTimelineLength({ playbackRate: 1, speedRamp }, newWidthInTime), tScale)
+      : timeUsToUnits(newWidthInTime, tScale, itemDetail.playbackRate);
     this.set({
       duration: itemDetail.duration,
       display: itemDetail.display,
       trim: itemDetail.trim,
+      speedRamp,
       width: newWidthInUnits,
     });
     this.setCoords();
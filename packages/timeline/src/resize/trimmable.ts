@@ -2,7 +2,7 @@ import { TransformActionHandler, controlsUtils } from "fabric";
 import { resolveOrigin } from "../utils/resolve-origin";
 import { isTransformCentered, wrapWithFixedAnchor } from "../utils/fabric";
 import { CENTER, LEFT, RIGHT } from "../constants/fabric";
-import { timeUsToUnits, unitsToTimeUs } from "../utils";
+import { timeUsToUnits, unitsToSourceUs, unitsToTimeUs } from "../utils";
 
 const { wrapWithFireEvent, getLocalPoint } = controlsUtils;
 
@@ -36,9 +36,7 @@ export const changeTrimmableWidth: TransformActionHandler = (_, transform, x, y)
     if (fromRight) {
       const to = target.trim.to;
 
-      const diffSize = newWidth - oldWidth;
-
-      const diffTime = unitsToTimeUs(diffSize, target.tScale, target.playbackRate);
+      const diffTime = unitsToSourceUs(target, oldWidth, newWidth);
 
       const newTo = to + diffTime;
 
@@ -80,10 +78,9 @@ export const changeTrimmableWidth: TransformActionHandler = (_, transform, x, y)
       const widthToTime = unitsToTimeUs(newWidth, target.tScale, target.playbackRate);
       if (widthToTime < minTimeToUnits) return false;
 
-      const diffSize = newWidth - oldWidth;
       const from = target.trim.from;
 
-      const diffTime = unitsToTimeUs(diffSize, target.tScale, target.playbackRate);
+      const diffTime = unitsToSourceUs(target, oldWidth - newWidth, 0);
 
       const newTrimFrom = from - diffTime;
       if (newTrimFrom < 0) return false;
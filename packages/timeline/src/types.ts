@@ -1,3 +1,5 @@
+import type { IKeyframe } from "@openvideo/core";
+
 // ============================================================================
 // PRIMITIVE / SHARED TYPES
 // ============================================================================
@@ -152,6 +154,7 @@ interface IClipBase {
     trim: ITrim;
     duration: number;
     playbackRate: number;
+    speedRamp?: IKeyframe[];
   };
   left: number | string;
   top: number | string;
@@ -34,6 +34,7 @@ export const loadObject = (
     duration,
     metadata: item.metadata,
     playbackRate,
+    speedRamp: item.timing?.speedRamp,
     src: itemAny.src,
     trim,
     text: itemAny.text,
@@ -1,3 +1,4 @@
+import { getSourceOffset, type IKeyframe } from "@openvideo/core";
 import { MICROSECONDS_PER_SECOND, PIXELS_PER_SECOND } from "../constants/constants";
 import { IClip } from "../types";
 import { OBJECT_TYPE_TRANSITION } from "../constants/objects";
@@ -10,6 +11,25 @@ export function unitsToTimeUs(units: number, zoom = 1, playbackRate = 1): number
   return (units / (PIXELS_PER_SECOND * zoom)) * MICROSECONDS_PER_SECOND * playbackRate;
 }
 
+/**
+ * Source time covered between two widths of a clip, measured from its left
+ * edge. Follows the clip's speed ramp when it has one.
+ */
+export function unitsToSourceUs(
+  target: { tScale: number; playbackRate?: number; speedRamp?: IKeyframe[] },
+  fromUnits: number,
+  toUnits: number,
+): number {
+  if (!target.speedRamp?.length) {
+    return unitsToTimeUs(toUnits - fromUnits, target.tScale, target.playbackRate);
+  }
+  const timing = { playbackRate: 1, speedRamp: target.speedRamp };
+  return (
+    getSourceOffset(timing, unitsToTimeUs(toUnits, target.tScale)) -
+    getSourceOffset(timing, unitsToTimeUs(fromUnits, target.tScale))
+  );
+}
+
 export function calculateTimelineWidth(totalLengthUs: number, zoom = 1): number {
   return timeUsToUnits(totalLengthUs, zoom);
 }